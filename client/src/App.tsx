@@ -13,10 +13,15 @@ import { useUIStore } from './stores/ui.store';
 // Lazy load pages for code splitting
 const LoginPage = lazy(() => import('./pages/LoginPage'));
 const RegisterPage = lazy(() => import('./pages/RegisterPage'));
+const RecoverAccountPage = lazy(() => import('./pages/RecoverAccountPage'));
+const VerifyEmailPage = lazy(() => import('./pages/VerifyEmailPage'));
+const UnlockAccountPage = lazy(() => import('./pages/UnlockAccountPage'));
 const DashboardPage = lazy(() => import('./pages/DashboardPage'));
 const FilesPage = lazy(() => import('./pages/FilesPage'));
 const SettingsPage = lazy(() => import('./pages/SettingsPage').then(m => ({ default: m.SettingsPage })));
 const SharedPage = lazy(() => import('./pages/SharedPage').then(m => ({ default: m.SharedPage })));
+const FileRequestPage = lazy(() => import('./pages/FileRequestPage'));
+const TrashPage = lazy(() => import('./pages/TrashPage').then(m => ({ default: m.TrashPage })));
 const NotFoundPage = lazy(() => import('./pages/NotFoundPage'));
 
 // Loading fallback component
@@ -67,7 +72,11 @@ const App: React.FC = () => {
           {/* Public Routes */}
           <Route path="/login" element={<LoginPage />} />
           <Route path="/register" element={<RegisterPage />} />
+          <Route path="/recover" element={<RecoverAccountPage />} />
+          <Route path="/verify-email" element={<VerifyEmailPage />} />
+          <Route path="/unlock-account" element={<UnlockAccountPage />} />
           <Route path="/shared/:shareId" element={<SharedPage />} />
+          <Route path="/request/:token" element={<FileRequestPage />} />
 
           {/* Protected Routes */}
           <Route
@@ -94,6 +103,22 @@ const App: React.FC = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/shared"
+            element={
+              <ProtectedRoute>
+                <SharedPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/trash"
+            element={
+              <ProtectedRoute>
+                <TrashPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/settings"
             element={
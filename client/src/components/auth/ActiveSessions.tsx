@@ -0,0 +1,94 @@
+import React from 'react';
+import {
+  ComputerDesktopIcon,
+  DevicePhoneMobileIcon,
+  DeviceTabletIcon,
+  GlobeAltIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '../common/Button';
+import type { ActiveSession } from '../../services/api.service';
+
+export interface ActiveSessionsProps {
+  sessions: ActiveSession[];
+  isLoading?: boolean;
+  onRevoke: (id: string) => void;
+  onRevokeOthers: () => void;
+}
+
+const DEVICE_ICONS = {
+  desktop: ComputerDesktopIcon,
+  mobile: DevicePhoneMobileIcon,
+  tablet: DeviceTabletIcon,
+  unknown: GlobeAltIcon,
+};
+
+const formatActivity = (value: string) => {
+  const minutes = Math.floor((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return 'Active now';
+  if (minutes < 60) return `Active ${minutes} min ago`;
+  if (minutes < 24 * 60) return `Active ${Math.floor(minutes / 60)} h ago`;
+  return `Active ${new Date(value).toLocaleDateString()}`;
+};
+
+export const ActiveSessions: React.FC<ActiveSessionsProps> = ({
+  sessions,
+  isLoading = false,
+  onRevoke,
+  onRevokeOthers,
+}) => {
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Active Devices</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Devices signed in to your account. Sign out any you do not recognize.
+          </p>
+        </div>
+        {hasOthers && (
+          <Button variant="danger" size="sm" onClick={onRevokeOthers}>
+            Sign Out Other Devices
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading devices...</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {sessions.map((session) => {
+            const DeviceIcon = DEVICE_ICONS[session.deviceType];
+
+            return (
+              <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="flex items-center gap-3">
+                  <DeviceIcon className="h-8 w-8 text-gray-400" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      {session.browser} on {session.os}
+                      {session.current && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {session.ipAddress || 'Unknown IP'} · {formatActivity(session.lastActivity)}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button variant="ghost" size="sm" onClick={() => onRevoke(session.id)}>
+                    Sign Out
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
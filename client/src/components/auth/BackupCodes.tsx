@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import {
+  LifebuoyIcon,
+  DocumentDuplicateIcon,
+  ArrowDownTrayIcon,
+  LockClosedIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+
+export interface BackupCodesProps {
+  remaining: number | null;
+  onRegenerate: (password: string) => Promise<string[]>;
+}
+
+const LOW_BACKUP_CODES = 2;
+
+export const BackupCodes: React.FC<BackupCodesProps> = ({ remaining, onRegenerate }) => {
+  const [password, setPassword] = useState('');
+  const [codes, setCodes] = useState<string[] | null>(null);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleRegenerate = async () => {
+    if (!password) {
+      return;
+    }
+
+    try {
+      setIsRegenerating(true);
+      setCodes(await onRegenerate(password));
+      setPassword('');
+    } catch (err) {
+      // Error is handled by useAuth hook
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes!.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    const contents = ['CrypticStorage backup codes', '', ...codes!, '', 'Each code works once.'];
+    const url = URL.createObjectURL(new Blob([contents.join('\n')], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'crypticstorage-backup-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const isLow = remaining !== null && remaining <= LOW_BACKUP_CODES;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <LifebuoyIcon className="h-6 w-6 text-indigo-600 dark:text-indigo-400" />
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Backup Codes</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Use a backup code to sign in if you lose your authenticator. Each code works once.
+          </p>
+        </div>
+      </div>
+
+      {remaining !== null && (
+        <p
+          className={`text-sm font-medium ${
+            isLow ? 'text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          {remaining} of 8 backup codes left
+          {isLow && ' — generate new codes soon'}
+        </p>
+      )}
+
+      {codes && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2 p-4 bg-gray-100 dark:bg-gray-700 rounded-lg">
+            {codes.map((code) => (
+              <code key={code} className="font-mono text-sm text-gray-900 dark:text-gray-100">
+                {code}
+              </code>
+            ))}
+          </div>
+          <p className="text-sm text-yellow-700 dark:text-yellow-400">
+            Save these codes now. They will not be shown again.
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleCopy}
+              leftIcon={<DocumentDuplicateIcon className="h-4 w-4" />}
+            >
+              {copied ? 'Copied!' : 'Copy'}
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleDownload}
+              leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+            >
+              Download
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2 items-end">
+        <div className="flex-1">
+          <Input
+            type="password"
+            label="Password"
+            placeholder="Confirm your password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            leftIcon={<LockClosedIcon className="h-5 w-5" />}
+            disabled={isRegenerating}
+            autoComplete="current-password"
+          />
+        </div>
+        <Button onClick={handleRegenerate} isLoading={isRegenerating} disabled={!password}>
+          Generate New Codes
+        </Button>
+      </div>
+    </div>
+  );
+};
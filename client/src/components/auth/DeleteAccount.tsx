@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import {
+  ExclamationTriangleIcon,
+  KeyIcon,
+  LockClosedIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+
+export interface DeleteAccountProps {
+  deletionScheduledAt: string | null;
+  twoFactorEnabled: boolean;
+  onDelete: (
+    password: string,
+    secondFactor: { totpCode?: string; backupCode?: string }
+  ) => Promise<string>;
+  onCancel: () => Promise<void>;
+}
+
+const TOTP_CODE = /^\d{6}$/;
+
+export const DeleteAccount: React.FC<DeleteAccountProps> = ({
+  deletionScheduledAt,
+  twoFactorEnabled,
+  onDelete,
+  onCancel,
+}) => {
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleDelete = async () => {
+    if (!password || (twoFactorEnabled && !code)) {
+      return;
+    }
+
+    // Six digits is an authenticator code; anything else is a backup code
+    const secondFactor = !twoFactorEnabled
+      ? {}
+      : TOTP_CODE.test(code)
+        ? { totpCode: code }
+        : { backupCode: code };
+
+    try {
+      setIsSubmitting(true);
+      await onDelete(password, secondFactor);
+      setPassword('');
+      setCode('');
+      setIsConfirming(false);
+    } catch (err) {
+      // Error is handled by useAuth hook
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      setIsSubmitting(true);
+      await onCancel();
+    } catch (err) {
+      // Error is handled by useAuth hook
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (deletionScheduledAt) {
+    return (
+      <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 space-y-3">
+        <div className="flex items-start gap-3">
+          <ExclamationTriangleIcon className="h-6 w-6 text-red-600 dark:text-red-400 flex-shrink-0" />
+          <div>
+            <p className="font-medium text-red-900 dark:text-red-200">
+              Your account will be erased on {new Date(deletionScheduledAt).toLocaleString()}
+            </p>
+            <p className="text-sm text-red-800 dark:text-red-300 mt-1">
+              Download anything you want to keep before then. After that date your files,
+              shares and keys are permanently deleted.
+            </p>
+          </div>
+        </div>
+        <Button variant="secondary" onClick={handleCancel} isLoading={isSubmitting}>
+          Cancel Deletion
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Deleting your account schedules it for erasure. You can keep using it and cancel until
+        the grace period ends; after that all your files are permanently deleted.
+      </p>
+
+      {!isConfirming ? (
+        <Button
+          variant="danger"
+          onClick={() => setIsConfirming(true)}
+          leftIcon={<TrashIcon className="h-4 w-4" />}
+        >
+          Delete Account
+        </Button>
+      ) : (
+        <div className="space-y-3">
+          <Input
+            type="password"
+            label="Password"
+            placeholder="Confirm your password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            leftIcon={<LockClosedIcon className="h-5 w-5" />}
+            disabled={isSubmitting}
+            autoComplete="current-password"
+          />
+          {twoFactorEnabled && (
+            <Input
+              label="Two-factor code"
+              placeholder="Authenticator or backup code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.trim())}
+              leftIcon={<KeyIcon className="h-5 w-5" />}
+              disabled={isSubmitting}
+              autoComplete="one-time-code"
+            />
+          )}
+          <div className="flex gap-2">
+            <Button
+              variant="danger"
+              onClick={handleDelete}
+              isLoading={isSubmitting}
+              disabled={!password || (twoFactorEnabled && !code)}
+            >
+              Schedule Deletion
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => setIsConfirming(false)}
+              disabled={isSubmitting}
+            >
+              Keep Account
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,11 @@
-import React, { useState } from 'react';
-import { EnvelopeIcon, LockClosedIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
+import React, { useEffect, useState } from 'react';
+import {
+  EnvelopeIcon,
+  LockClosedIcon,
+  ShieldCheckIcon,
+  FingerPrintIcon,
+  ClockIcon,
+} from '@heroicons/react/24/outline';
 import { Button } from '../common/Button';
 import { Input } from '../common/Input';
 import { motion } from 'framer-motion';
@@ -10,12 +16,18 @@ export interface LoginFormProps {
   onRegister?: () => void;
   isLoading?: boolean;
   error?: string;
+  requiresTwoFactor?: boolean;
+  canUseSecurityKey?: boolean;
+  retryAt?: number; // Epoch ms before which the server will refuse another attempt
+  isLocked?: boolean;
 }
 
 export interface LoginData {
   email: string;
   password: string;
   twoFactorCode?: string;
+  backupCode?: string;
+  useSecurityKey?: boolean;
 }
 
 export const LoginForm: React.FC<LoginFormProps> = ({
@@ -24,14 +36,40 @@ export const LoginForm: React.FC<LoginFormProps> = ({
   onRegister,
   isLoading = false,
   error,
+  requiresTwoFactor = false,
+  canUseSecurityKey = false,
+  retryAt,
+  isLocked = false,
 }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [twoFactorCode, setTwoFactorCode] = useState('');
-  const [showTwoFactor, setShowTwoFactor] = useState(false);
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [twoFactorRequested, setShowTwoFactor] = useState(false);
   const [errors, setErrors] = useState<Partial<LoginData>>({});
+  const [secondsLeft, setSecondsLeft] = useState(0);
 
-  const validate = (): boolean => {
+  // Count down to the next accepted attempt
+  useEffect(() => {
+    if (!retryAt) {
+      setSecondsLeft(0);
+      return;
+    }
+
+    const update = () => setSecondsLeft(Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)));
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  const isWaiting = secondsLeft > 0;
+
+  const formatWait = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  const showTwoFactor = requiresTwoFactor || twoFactorRequested;
+
+  const validate = (needsCode = true): boolean => {
     const newErrors: Partial<LoginData> = {};
 
     if (!email) {
@@ -46,8 +84,8 @@ export const LoginForm: React.FC<LoginFormProps> = ({
       newErrors.password = 'Password must be at least 8 characters';
     }
 
-    if (showTwoFactor && !twoFactorCode) {
-      newErrors.twoFactorCode = '2FA code is required';
+    if (needsCode && showTwoFactor && !twoFactorCode) {
+      newErrors.twoFactorCode = useBackupCode ? 'Backup code is required' : '2FA code is required';
     }
 
     setErrors(newErrors);
@@ -65,7 +103,8 @@ export const LoginForm: React.FC<LoginFormProps> = ({
       await onSubmit({
         email,
         password,
-        twoFactorCode: showTwoFactor ? twoFactorCode : undefined,
+        twoFactorCode: showTwoFactor && !useBackupCode ? twoFactorCode : undefined,
+        backupCode: showTwoFactor && useBackupCode ? twoFactorCode : undefined,
       });
     } catch (err: any) {
       if (err.message?.includes('2FA') || err.message?.includes('two-factor')) {
@@ -74,6 +113,18 @@ export const LoginForm: React.FC<LoginFormProps> = ({
     }
   };
 
+  const handleSecurityKey = async () => {
+    if (!validate(false)) {
+      return;
+    }
+
+    try {
+      await onSubmit({ email, password, useSecurityKey: true });
+    } catch (err) {
+      // Error is shown by the parent
+    }
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -97,6 +148,17 @@ export const LoginForm: React.FC<LoginFormProps> = ({
           </motion.div>
         )}
 
+        {isWaiting && (
+          <div className="flex items-start gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-3">
+            <ClockIcon className="h-5 w-5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+            <p className="text-sm text-amber-800 dark:text-amber-300">
+              {isLocked
+                ? `This account is locked after too many failed attempts. Try again in ${formatWait(secondsLeft)}, or use the unlock link sent to your email.`
+                : `Too many failed attempts. You can try again in ${formatWait(secondsLeft)}.`}
+            </p>
+          </div>
+        )}
+
         <Input
           type="email"
           label="Email"
@@ -127,18 +189,56 @@ export const LoginForm: React.FC<LoginFormProps> = ({
             animate={{ opacity: 1, height: 'auto' }}
             transition={{ duration: 0.3 }}
           >
-            <Input
-              type="text"
-              label="Two-Factor Code"
-              placeholder="Enter 6-digit code"
-              value={twoFactorCode}
-              onChange={(e) => setTwoFactorCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
-              error={errors.twoFactorCode}
-              leftIcon={<ShieldCheckIcon className="h-5 w-5" />}
+            {useBackupCode ? (
+              <Input
+                type="text"
+                label="Backup Code"
+                placeholder="XXXXX-XXXXX"
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value.toUpperCase().slice(0, 11))}
+                error={errors.twoFactorCode}
+                leftIcon={<ShieldCheckIcon className="h-5 w-5" />}
+                disabled={isLoading}
+                maxLength={11}
+                autoComplete="off"
+              />
+            ) : (
+              <Input
+                type="text"
+                label="Two-Factor Code"
+                placeholder="Enter 6-digit code"
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                error={errors.twoFactorCode}
+                leftIcon={<ShieldCheckIcon className="h-5 w-5" />}
+                disabled={isLoading}
+                maxLength={6}
+                autoComplete="one-time-code"
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => {
+                setUseBackupCode(!useBackupCode);
+                setTwoFactorCode('');
+              }}
+              className="mt-2 text-sm text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
               disabled={isLoading}
-              maxLength={6}
-              autoComplete="one-time-code"
-            />
+            >
+              {useBackupCode ? 'Use authenticator code instead' : 'Use a backup code instead'}
+            </button>
+            {canUseSecurityKey && (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={handleSecurityKey}
+                disabled={isLoading || isWaiting}
+                className="w-full mt-3"
+                leftIcon={<FingerPrintIcon className="h-5 w-5" />}
+              >
+                Use a security key
+              </Button>
+            )}
           </motion.div>
         )}
 
@@ -155,8 +255,12 @@ export const LoginForm: React.FC<LoginFormProps> = ({
           </div>
         )}
 
-        <Button type="submit" isLoading={isLoading} className="w-full">
-          {showTwoFactor ? 'Verify & Sign In' : 'Sign In'}
+        <Button type="submit" isLoading={isLoading} disabled={isWaiting} className="w-full">
+          {isWaiting
+            ? `Try again in ${formatWait(secondsLeft)}`
+            : showTwoFactor
+              ? 'Verify & Sign In'
+              : 'Sign In'}
         </Button>
 
         {onRegister && (
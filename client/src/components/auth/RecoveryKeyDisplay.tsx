@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import {
+  KeyIcon,
+  DocumentDuplicateIcon,
+  ArrowDownTrayIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '../common/Button';
+import { motion } from 'framer-motion';
+
+export interface RecoveryKeyDisplayProps {
+  recoveryKey: string;
+  email: string;
+  onContinue: () => void;
+}
+
+export const RecoveryKeyDisplay: React.FC<RecoveryKeyDisplayProps> = ({
+  recoveryKey,
+  email,
+  onContinue,
+}) => {
+  const [copied, setCopied] = useState(false);
+  const [confirmed, setConfirmed] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryKey);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    const contents = [
+      'CrypticStorage recovery key',
+      '',
+      `Account: ${email}`,
+      `Recovery key: ${recoveryKey}`,
+      '',
+      'Use this key to reset your password without losing your files.',
+      'Anyone with this key and access to your email can take over your account.',
+    ].join('\n');
+
+    const url = URL.createObjectURL(new Blob([contents], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'crypticstorage-recovery-key.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="w-full max-w-md mx-auto"
+    >
+      <div className="text-center mb-6">
+        <KeyIcon className="h-12 w-12 text-indigo-600 mx-auto mb-3" />
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Save your recovery key</h2>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Your files are encrypted with your password. If you forget it, this key is the only way
+          to get them back.
+        </p>
+      </div>
+
+      <div className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-4 mb-4">
+        <code className="block text-center text-lg font-mono tracking-wider text-gray-900 dark:text-gray-100 break-all">
+          {recoveryKey}
+        </code>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-6">
+        <Button
+          variant="secondary"
+          onClick={handleCopy}
+          leftIcon={<DocumentDuplicateIcon className="h-5 w-5" />}
+        >
+          {copied ? 'Copied!' : 'Copy'}
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={handleDownload}
+          leftIcon={<ArrowDownTrayIcon className="h-5 w-5" />}
+        >
+          Download
+        </Button>
+      </div>
+
+      <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 mb-6">
+        <div className="flex gap-3">
+          <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 dark:text-yellow-500 flex-shrink-0 mt-0.5" />
+          <ul className="text-sm text-yellow-800 dark:text-yellow-300 space-y-1">
+            <li>• This key is shown only once and we cannot show it again</li>
+            <li>• We cannot reset your password without it</li>
+            <li>• Store it somewhere safe, away from your password</li>
+          </ul>
+        </div>
+      </div>
+
+      <label className="flex items-start gap-2 mb-4 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={confirmed}
+          onChange={(e) => setConfirmed(e.target.checked)}
+          className="mt-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+        />
+        <span className="text-sm text-gray-700 dark:text-gray-300">
+          I have saved my recovery key in a safe place
+        </span>
+      </label>
+
+      <Button onClick={onContinue} disabled={!confirmed} className="w-full">
+        Continue
+      </Button>
+    </motion.div>
+  );
+};
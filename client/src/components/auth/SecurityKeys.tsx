@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import {
+  FingerPrintIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  LockClosedIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import type { SecurityKey } from '../../services/api.service';
+
+export interface SecurityKeysProps {
+  securityKeys: SecurityKey[];
+  isLoading?: boolean;
+  isSupported: boolean;
+  onAdd: (name: string) => Promise<string[] | undefined>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onRemove: (id: string, password: string) => Promise<void>;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+export const SecurityKeys: React.FC<SecurityKeysProps> = ({
+  securityKeys,
+  isLoading = false,
+  isSupported,
+  onAdd,
+  onRename,
+  onRemove,
+}) => {
+  const [newKeyName, setNewKeyName] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleAdd = async () => {
+    if (!newKeyName.trim()) {
+      return;
+    }
+
+    try {
+      setIsAdding(true);
+      const codes = await onAdd(newKeyName.trim());
+      setNewKeyName('');
+      if (codes) {
+        setBackupCodes(codes);
+      }
+    } catch (err) {
+      // Error is handled by useSecurityKeys hook
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    if (!editName.trim()) {
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      await onRename(id, editName.trim());
+      setEditingId(null);
+    } catch (err) {
+      // Error is handled by useSecurityKeys hook
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    if (!password) {
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      await onRemove(id, password);
+      setRemovingId(null);
+      setPassword('');
+    } catch (err) {
+      // Error is handled by useSecurityKeys hook
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <FingerPrintIcon className="h-6 w-6 text-indigo-600 dark:text-indigo-400" />
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Security Keys</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Sign in with a hardware key, Touch ID or Windows Hello instead of a 6-digit code.
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading security keys...</p>
+      ) : securityKeys.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No security keys registered.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {securityKeys.map((key) => (
+            <li key={key.id} className="py-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                {editingId === key.id ? (
+                  <div className="flex flex-1 gap-2 items-center">
+                    <div className="flex-1">
+                      <Input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        disabled={isBusy}
+                        maxLength={64}
+                      />
+                    </div>
+                    <Button size="sm" onClick={() => handleRename(key.id)} isLoading={isBusy}>
+                      Save
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <>
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        {key.name}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Added {formatDate(key.createdAt)}
+                        {key.lastUsedAt
+                          ? ` · Last used ${formatDate(key.lastUsedAt)}`
+                          : ' · Never used'}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setEditingId(key.id);
+                          setEditName(key.name);
+                        }}
+                        leftIcon={<PencilSquareIcon className="h-4 w-4" />}
+                      >
+                        Rename
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setRemovingId(removingId === key.id ? null : key.id);
+                          setPassword('');
+                        }}
+                        leftIcon={<TrashIcon className="h-4 w-4" />}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {removingId === key.id && (
+                <div className="flex gap-2 items-end">
+                  <div className="flex-1">
+                    <Input
+                      type="password"
+                      placeholder="Confirm your password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      leftIcon={<LockClosedIcon className="h-5 w-5" />}
+                      disabled={isBusy}
+                      autoComplete="current-password"
+                    />
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    onClick={() => handleRemove(key.id)}
+                    isLoading={isBusy}
+                    disabled={!password}
+                  >
+                    Remove Key
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {backupCodes && (
+        <div className="space-y-2">
+          <p className="text-sm text-yellow-700 dark:text-yellow-400">
+            Save these backup codes now. Use one to sign in if you lose your security key.
+          </p>
+          <div className="grid grid-cols-2 gap-2 p-4 bg-gray-100 dark:bg-gray-700 rounded-lg">
+            {backupCodes.map((code) => (
+              <code key={code} className="font-mono text-sm text-gray-900 dark:text-gray-100">
+                {code}
+              </code>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isSupported ? (
+        <div className="flex gap-2 items-end">
+          <div className="flex-1">
+            <Input
+              type="text"
+              label="Key name"
+              placeholder="e.g. YubiKey or MacBook"
+              value={newKeyName}
+              onChange={(e) => setNewKeyName(e.target.value)}
+              disabled={isAdding}
+              maxLength={64}
+            />
+          </div>
+          <Button onClick={handleAdd} isLoading={isAdding} disabled={!newKeyName.trim()}>
+            Add Security Key
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          This browser does not support security keys.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -6,3 +6,18 @@ export type { RegisterFormProps, RegisterData } from './RegisterForm';
 
 export { TwoFactorSetup } from './TwoFactorSetup';
 export type { TwoFactorSetupProps } from './TwoFactorSetup';
+
+export { RecoveryKeyDisplay } from './RecoveryKeyDisplay';
+export type { RecoveryKeyDisplayProps } from './RecoveryKeyDisplay';
+
+export { BackupCodes } from './BackupCodes';
+export type { BackupCodesProps } from './BackupCodes';
+
+export { SecurityKeys } from './SecurityKeys';
+export type { SecurityKeysProps } from './SecurityKeys';
+
+export { ActiveSessions } from './ActiveSessions';
+export type { ActiveSessionsProps } from './ActiveSessions';
+
+export { DeleteAccount } from './DeleteAccount';
+export type { DeleteAccountProps } from './DeleteAccount';
@@ -7,11 +7,17 @@ import {
   ChevronRightIcon,
   MagnifyingGlassPlusIcon,
   MagnifyingGlassMinusIcon,
+  ClockIcon,
+  EyeIcon,
+  ArrowUturnLeftIcon,
+  TrashIcon,
 } from '@heroicons/react/24/outline';
 import { Modal } from '../common/Modal';
 import { Button } from '../common/Button';
 import { Spinner } from '../common/Spinner';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useFileVersions } from '../../hooks/useFileVersions';
+import type { FileVersionItem } from '../../services/file.service';
 
 export interface FilePreviewProps {
   isOpen: boolean;
@@ -28,6 +34,8 @@ export interface FilePreviewProps {
   onNavigate?: (direction: 'prev' | 'next') => void;
   isLoading?: boolean;
   decryptFile?: (fileId: string) => Promise<string>; // Returns decrypted blob URL
+  showVersionHistory?: boolean;
+  onVersionRestored?: () => void;
 }
 
 export const FilePreview: React.FC<FilePreviewProps> = ({
@@ -39,17 +47,39 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
   onNavigate,
   isLoading = false,
   decryptFile,
+  showVersionHistory = true,
+  onVersionRestored,
 }) => {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [zoom, setZoom] = useState(1);
+  const [showVersions, setShowVersions] = useState(false);
+  const [versionPreview, setVersionPreview] = useState<{
+    versionNumber: number;
+    url: string;
+  } | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const {
+    versions,
+    currentVersion,
+    isLoading: isLoadingVersions,
+    busyVersion,
+    loadVersions,
+    previewVersion,
+    downloadVersion,
+    restoreVersion,
+    deleteVersion,
+    deleteOldVersions,
+  } = useFileVersions(file?.id);
 
   useEffect(() => {
     if (!file || !isOpen) {
       setPreviewUrl(null);
       setError(null);
       setZoom(1);
+      setShowVersions(false);
       return;
     }
 
@@ -81,7 +111,52 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
         URL.revokeObjectURL(previewUrl);
       }
     };
-  }, [file, isOpen, decryptFile]);
+  }, [file, isOpen, decryptFile, reloadKey]);
+
+  useEffect(() => {
+    if (showVersions && isOpen) {
+      loadVersions();
+    }
+  }, [showVersions, isOpen, loadVersions]);
+
+  useEffect(() => {
+    // Drop the decrypted version when leaving it or switching files
+    return () => {
+      if (versionPreview) {
+        URL.revokeObjectURL(versionPreview.url);
+      }
+    };
+  }, [versionPreview]);
+
+  useEffect(() => {
+    setVersionPreview(null);
+  }, [file, isOpen]);
+
+  const handlePreviewVersion = async (version: FileVersionItem) => {
+    const url = await previewVersion(version);
+    if (url) {
+      setVersionPreview({ versionNumber: version.versionNumber, url });
+      setZoom(1);
+    }
+  };
+
+  const handleRestoreVersion = async (versionNumber: number) => {
+    const restored = await restoreVersion(versionNumber);
+    if (restored) {
+      setVersionPreview(null);
+      setReloadKey((prev) => prev + 1);
+      onVersionRestored?.();
+    }
+  };
+
+  const handleDeleteVersion = async (versionNumber: number) => {
+    if (versionPreview?.versionNumber === versionNumber) {
+      setVersionPreview(null);
+    }
+    await deleteVersion(versionNumber);
+  };
+
+  const activeUrl = versionPreview?.url ?? previewUrl;
 
   const handleZoomIn = () => setZoom((prev) => Math.min(prev + 0.25, 3));
   const handleZoomOut = () => setZoom((prev) => Math.max(prev - 0.25, 0.5));
@@ -117,7 +192,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
       );
     }
 
-    if (!file || !previewUrl) {
+    if (!file || !activeUrl) {
       return (
         <div className="flex items-center justify-center h-96">
           <p className="text-gray-500 dark:text-gray-400">No preview available</p>
@@ -130,7 +205,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
       return (
         <div className="relative overflow-auto max-h-[70vh] flex items-center justify-center bg-gray-100 dark:bg-gray-900 rounded-lg">
           <motion.img
-            src={previewUrl}
+            src={activeUrl}
             alt={file.name}
             className="max-w-full h-auto"
             style={{ transform: `scale(${zoom})` }}
@@ -147,7 +222,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
       return (
         <div className="flex items-center justify-center">
           <video
-            src={previewUrl}
+            src={activeUrl}
             controls
             className="max-w-full max-h-[70vh] rounded-lg"
           >
@@ -161,7 +236,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
     if (file.mimeType.startsWith('audio/')) {
       return (
         <div className="flex items-center justify-center p-8">
-          <audio src={previewUrl} controls className="w-full max-w-md">
+          <audio src={activeUrl} controls className="w-full max-w-md">
             Your browser does not support the audio tag.
           </audio>
         </div>
@@ -172,7 +247,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
     if (file.mimeType === 'application/pdf') {
       return (
         <iframe
-          src={previewUrl}
+          src={activeUrl}
           className="w-full h-[70vh] rounded-lg"
           title={file.name}
         />
@@ -183,7 +258,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
     if (file.mimeType.startsWith('text/')) {
       return (
         <div className="bg-gray-100 dark:bg-gray-900 p-4 rounded-lg max-h-[70vh] overflow-auto">
-          <iframe src={previewUrl} className="w-full h-full min-h-[500px]" title={file.name} />
+          <iframe src={activeUrl} className="w-full h-full min-h-[500px]" title={file.name} />
         </div>
       );
     }
@@ -205,6 +280,113 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
     );
   };
 
+  const renderVersionHistory = () => {
+    if (!file) return null;
+
+    return (
+      <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+              Version history
+            </h4>
+            {currentVersion !== null && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Current version: {currentVersion}
+              </p>
+            )}
+          </div>
+          {versions.length > 1 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteOldVersions(1)}
+              disabled={isLoadingVersions}
+            >
+              Delete older versions
+            </Button>
+          )}
+        </div>
+
+        {isLoadingVersions ? (
+          <div className="flex items-center justify-center py-6">
+            <Spinner size="md" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+            No previous versions
+          </p>
+        ) : (
+          <ul className="max-h-60 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+            {versions.map((version) => {
+              const isBusy = busyVersion === version.versionNumber;
+              const isViewing = versionPreview?.versionNumber === version.versionNumber;
+
+              return (
+                <li
+                  key={version.id}
+                  className={`flex items-center justify-between px-4 py-2 ${
+                    isViewing ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      Version {version.versionNumber}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(version.createdAt).toLocaleString()} •{' '}
+                      {formatFileSize(version.size)}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    {isBusy && <Spinner size="sm" />}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handlePreviewVersion(version)}
+                      disabled={busyVersion !== null}
+                      title="Preview"
+                    >
+                      <EyeIcon className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => downloadVersion(version, file.name)}
+                      disabled={busyVersion !== null}
+                      title="Download"
+                    >
+                      <ArrowDownTrayIcon className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRestoreVersion(version.versionNumber)}
+                      disabled={busyVersion !== null}
+                      title="Restore"
+                    >
+                      <ArrowUturnLeftIcon className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteVersion(version.versionNumber)}
+                      disabled={busyVersion !== null}
+                      title="Delete"
+                    >
+                      <TrashIcon className="h-4 w-4 text-red-600 dark:text-red-400" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
   return (
     <Modal isOpen={isOpen} onClose={onClose} size="xl" showCloseButton={false}>
       <div className="space-y-4">
@@ -229,6 +411,18 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
           </button>
         </div>
 
+        {/* Viewing an older version */}
+        {versionPreview && (
+          <div className="flex items-center justify-between px-4 py-2 rounded-lg bg-indigo-50 dark:bg-indigo-900/20">
+            <p className="text-sm text-indigo-700 dark:text-indigo-300">
+              Viewing version {versionPreview.versionNumber}
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => setVersionPreview(null)}>
+              Back to current
+            </Button>
+          </div>
+        )}
+
         {/* Preview Content */}
         <div className="relative">
           {renderPreview()}
@@ -252,6 +446,20 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
           )}
         </div>
 
+        {/* Version History */}
+        <AnimatePresence>
+          {showVersions && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              transition={{ duration: 0.2 }}
+            >
+              {renderVersionHistory()}
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Actions */}
         <div className="flex items-center justify-between pt-4 border-t border-gray-200 dark:border-gray-700">
           {/* Zoom controls for images */}
@@ -276,6 +484,15 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
 
           {/* Action buttons */}
           <div className="flex items-center gap-2">
+            {showVersionHistory && file && (
+              <Button
+                variant={showVersions ? 'secondary' : 'ghost'}
+                onClick={() => setShowVersions((prev) => !prev)}
+                leftIcon={<ClockIcon className="h-4 w-4" />}
+              >
+                History
+              </Button>
+            )}
             {onShare && (
               <Button
                 variant="secondary"
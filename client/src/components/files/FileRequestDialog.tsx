@@ -0,0 +1,318 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ArrowUpTrayIcon,
+  ClockIcon,
+  LockClosedIcon,
+  DocumentDuplicateIcon,
+  DocumentPlusIcon,
+  CheckCircleIcon,
+  ScaleIcon,
+} from '@heroicons/react/24/outline';
+import { Modal } from '../common/Modal';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Card, CardContent } from '../common/Card';
+import { motion } from 'framer-motion';
+
+export interface FileRequestDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  folder: {
+    id: string;
+    name: string;
+  } | null;
+  onCreateRequest: (options: FileRequestDialogOptions) => Promise<string>;
+}
+
+export interface FileRequestDialogOptions {
+  password?: string;
+  expiresAt?: Date;
+  maxFiles?: number;
+  maxFileSize?: number; // Bytes
+}
+
+interface OptionCardProps {
+  id: string;
+  icon: React.ReactNode;
+  title: string;
+  description: string;
+  checked: boolean;
+  onToggle: (checked: boolean) => void;
+  children: React.ReactNode;
+}
+
+const OptionCard: React.FC<OptionCardProps> = ({
+  id,
+  icon,
+  title,
+  description,
+  checked,
+  onToggle,
+  children,
+}) => (
+  <Card variant="bordered">
+    <CardContent className="p-4">
+      <div className="flex items-start gap-3">
+        <div className="flex items-center h-6">
+          <input
+            type="checkbox"
+            id={id}
+            checked={checked}
+            onChange={(e) => onToggle(e.target.checked)}
+            className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+          />
+        </div>
+        <div className="flex-1">
+          <label
+            htmlFor={id}
+            className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100 cursor-pointer"
+          >
+            {icon}
+            {title}
+          </label>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{description}</p>
+          {checked && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              className="mt-3"
+            >
+              {children}
+            </motion.div>
+          )}
+        </div>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+export const FileRequestDialog: React.FC<FileRequestDialogProps> = ({
+  isOpen,
+  onClose,
+  folder,
+  onCreateRequest,
+}) => {
+  const [password, setPassword] = useState('');
+  const [usePassword, setUsePassword] = useState(false);
+  const [expiryDays, setExpiryDays] = useState<string>('7');
+  const [useExpiry, setUseExpiry] = useState(true);
+  const [maxFiles, setMaxFiles] = useState<string>('10');
+  const [useMaxFiles, setUseMaxFiles] = useState(false);
+  const [maxFileSizeMb, setMaxFileSizeMb] = useState<string>('100');
+  const [useMaxFileSize, setUseMaxFileSize] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      // Reset form when dialog closes
+      setPassword('');
+      setUsePassword(false);
+      setExpiryDays('7');
+      setUseExpiry(true);
+      setMaxFiles('10');
+      setUseMaxFiles(false);
+      setMaxFileSizeMb('100');
+      setUseMaxFileSize(false);
+      setCreatedUrl(null);
+      setCopied(false);
+    }
+  }, [isOpen]);
+
+  const handleCreateRequest = async () => {
+    if (!folder) return;
+
+    setIsCreating(true);
+
+    try {
+      const options: FileRequestDialogOptions = {};
+
+      if (usePassword && password) {
+        options.password = password;
+      }
+
+      if (useExpiry && expiryDays) {
+        const expiresAt = new Date();
+        expiresAt.setDate(expiresAt.getDate() + parseInt(expiryDays));
+        options.expiresAt = expiresAt;
+      }
+
+      if (useMaxFiles && maxFiles) {
+        options.maxFiles = parseInt(maxFiles);
+      }
+
+      if (useMaxFileSize && maxFileSizeMb) {
+        options.maxFileSize = parseInt(maxFileSizeMb) * 1024 * 1024;
+      }
+
+      setCreatedUrl(await onCreateRequest(options));
+    } catch (error) {
+      console.error('Failed to create file request:', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Request files: ${folder?.name || ''}`}
+      description="Anyone with the link can add files to this folder, but cannot see what is in it."
+      size="lg"
+    >
+      <div className="space-y-6">
+        {!createdUrl ? (
+          <>
+            <div className="space-y-4">
+              <OptionCard
+                id="request-use-password"
+                icon={<LockClosedIcon className="h-5 w-5 text-gray-500" />}
+                title="Password Protection"
+                description="Require a password to send files"
+                checked={usePassword}
+                onToggle={setUsePassword}
+              >
+                <Input
+                  type="password"
+                  placeholder="Enter password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </OptionCard>
+
+              <OptionCard
+                id="request-use-expiry"
+                icon={<ClockIcon className="h-5 w-5 text-gray-500" />}
+                title="Expiration Date"
+                description="Stop accepting files after a certain time"
+                checked={useExpiry}
+                onToggle={setUseExpiry}
+              >
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    placeholder="Days"
+                    value={expiryDays}
+                    onChange={(e) => setExpiryDays(e.target.value)}
+                    min="1"
+                    max="365"
+                    className="w-24"
+                  />
+                  <span className="text-sm text-gray-600 dark:text-gray-400">days</span>
+                </div>
+              </OptionCard>
+
+              <OptionCard
+                id="request-use-max-files"
+                icon={<DocumentPlusIcon className="h-5 w-5 text-gray-500" />}
+                title="File Limit"
+                description="Close the link after a number of files"
+                checked={useMaxFiles}
+                onToggle={setUseMaxFiles}
+              >
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    placeholder="Max files"
+                    value={maxFiles}
+                    onChange={(e) => setMaxFiles(e.target.value)}
+                    min="1"
+                    max="1000"
+                    className="w-24"
+                  />
+                  <span className="text-sm text-gray-600 dark:text-gray-400">files</span>
+                </div>
+              </OptionCard>
+
+              <OptionCard
+                id="request-use-max-size"
+                icon={<ScaleIcon className="h-5 w-5 text-gray-500" />}
+                title="Size Limit"
+                description="Reject files larger than a given size"
+                checked={useMaxFileSize}
+                onToggle={setUseMaxFileSize}
+              >
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    placeholder="Max size"
+                    value={maxFileSizeMb}
+                    onChange={(e) => setMaxFileSizeMb(e.target.value)}
+                    min="1"
+                    className="w-24"
+                  />
+                  <span className="text-sm text-gray-600 dark:text-gray-400">MB per file</span>
+                </div>
+              </OptionCard>
+            </div>
+
+            <Button
+              onClick={handleCreateRequest}
+              isLoading={isCreating}
+              className="w-full"
+              leftIcon={<ArrowUpTrayIcon className="h-5 w-5" />}
+            >
+              Create Request Link
+            </Button>
+          </>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="space-y-4"
+          >
+            <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+              <div className="flex items-center gap-2">
+                <CheckCircleIcon className="h-5 w-5 text-green-600 dark:text-green-400" />
+                <p className="text-sm font-medium text-green-900 dark:text-green-100">
+                  Request link created successfully!
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Request Link
+              </label>
+              <div className="flex gap-2">
+                <Input type="text" value={createdUrl} readOnly className="flex-1" />
+                <Button
+                  variant="secondary"
+                  onClick={() => handleCopyLink(createdUrl)}
+                  leftIcon={
+                    copied ? (
+                      <CheckCircleIcon className="h-5 w-5 text-green-500" />
+                    ) : (
+                      <DocumentDuplicateIcon className="h-5 w-5" />
+                    )
+                  }
+                >
+                  {copied ? 'Copied!' : 'Copy'}
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                Files are encrypted for you in the sender's browser and appear in this folder.
+              </p>
+            </div>
+
+            <Button variant="secondary" onClick={onClose} className="w-full">
+              Done
+            </Button>
+          </motion.div>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,157 @@
+import React from 'react';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import type { ShareAccessOutcome, ShareAccessTimeline } from '../../services/api.service';
+
+export interface ShareAccessChartProps {
+  timeline: ShareAccessTimeline;
+  maxEvents?: number;
+}
+
+const COLORS = {
+  ok: '#10B981', // green
+  denied: '#EF4444', // red
+};
+
+const OUTCOME_LABELS: Record<ShareAccessOutcome, string> = {
+  ok: 'OK',
+  password_required: 'Password required',
+  wrong_password: 'Wrong password',
+  expired: 'Expired',
+  limit_reached: 'Limit reached',
+  disabled: 'Disabled',
+  deleted: 'Deleted',
+  throttled: 'Too many attempts',
+  locked: 'Locked',
+};
+
+const EVENT_LABELS = {
+  view: 'Opened',
+  download: 'Downloaded',
+  upload: 'Uploaded',
+};
+
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatTime = (date: string): string =>
+  new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const ShareAccessChart: React.FC<ShareAccessChartProps> = ({
+  timeline,
+  maxEvents = 10,
+}) => {
+  const deniedOutcomes = Object.entries(timeline.totals.byOutcome).filter(
+    ([outcome, count]) => outcome !== 'ok' && count
+  ) as Array<[ShareAccessOutcome, number]>;
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-lg">
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            {formatDay(label)}
+          </p>
+          {payload.map((entry: any) => (
+            <p key={entry.dataKey} className="text-sm text-gray-600 dark:text-gray-400">
+              {entry.name}: {entry.value}
+            </p>
+          ))}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Totals */}
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        <span className="text-gray-900 dark:text-gray-100 font-medium">
+          {timeline.totals.ok} successful in the last {timeline.days} days
+        </span>
+        {deniedOutcomes.map(([outcome, count]) => (
+          <span key={outcome} className="text-red-600 dark:text-red-400">
+            {OUTCOME_LABELS[outcome]}: {count}
+          </span>
+        ))}
+      </div>
+
+      {/* Daily Chart */}
+      <ResponsiveContainer width="100%" height={160}>
+        <BarChart data={timeline.series}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+          <XAxis
+            dataKey="date"
+            className="text-xs text-gray-600 dark:text-gray-400"
+            tick={{ fill: 'currentColor' }}
+            tickFormatter={formatDay}
+            minTickGap={16}
+          />
+          <YAxis
+            className="text-xs text-gray-600 dark:text-gray-400"
+            tick={{ fill: 'currentColor' }}
+            allowDecimals={false}
+            width={28}
+          />
+          <Tooltip content={<CustomTooltip />} />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Bar dataKey="ok" name="Successful" stackId="access" fill={COLORS.ok} />
+          <Bar dataKey="denied" name="Refused" stackId="access" fill={COLORS.denied} />
+        </BarChart>
+      </ResponsiveContainer>
+
+      {/* Recent Events */}
+      {timeline.events.length > 0 ? (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-xs">
+          {timeline.events.slice(0, maxEvents).map((event) => (
+            <li key={event.id} className="py-2 flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-gray-900 dark:text-gray-100">
+                  {EVENT_LABELS[event.event]}
+                  <span
+                    className={
+                      event.outcome === 'ok'
+                        ? 'ml-2 text-green-600 dark:text-green-400'
+                        : 'ml-2 text-red-600 dark:text-red-400'
+                    }
+                  >
+                    {OUTCOME_LABELS[event.outcome]}
+                  </span>
+                </p>
+                <p className="text-gray-500 dark:text-gray-400 truncate" title={event.userAgent ?? ''}>
+                  {event.ipAddress ?? 'Unknown network'}
+                  {event.userAgent && ` • ${event.userAgent}`}
+                </p>
+              </div>
+              <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                {formatTime(event.createdAt)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Nobody has opened this link yet.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -6,11 +6,17 @@ import {
   ArrowDownTrayIcon,
   DocumentDuplicateIcon,
   CheckCircleIcon,
+  ChartBarIcon,
+  LockOpenIcon,
+  ArrowPathIcon,
 } from '@heroicons/react/24/outline';
 import { Modal } from '../common/Modal';
 import { Button } from '../common/Button';
 import { Input } from '../common/Input';
 import { Card, CardContent } from '../common/Card';
+import { Spinner } from '../common/Spinner';
+import { ShareAccessChart } from './ShareAccessChart';
+import type { ShareAccessTimeline } from '../../services/api.service';
 import { motion } from 'framer-motion';
 
 export interface ShareDialogProps {
@@ -22,6 +28,9 @@ export interface ShareDialogProps {
   } | null;
   onCreateShare: (options: ShareOptions) => Promise<ShareLink>;
   existingShares?: ShareLink[];
+  onLoadAccessLog?: (shareId: string) => Promise<ShareAccessTimeline | null>;
+  onUnlockShare?: (shareId: string) => Promise<void>;
+  onRotateShare?: (shareId: string, password?: string) => Promise<ShareLink>;
 }
 
 export interface ShareOptions {
@@ -33,12 +42,13 @@ export interface ShareOptions {
 
 export interface ShareLink {
   id: string;
-  url: string;
+  url?: string; // Only known right after creation; the link secret is never stored
   createdAt: Date;
   expiresAt?: Date;
   maxDownloads?: number;
   downloadCount: number;
   password?: boolean;
+  lockedAt?: Date; // Set after too many wrong passwords
 }
 
 export const ShareDialog: React.FC<ShareDialogProps> = ({
@@ -47,6 +57,9 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
   file,
   onCreateShare,
   existingShares = [],
+  onLoadAccessLog,
+  onUnlockShare,
+  onRotateShare,
 }) => {
   const [password, setPassword] = useState('');
   const [usePassword, setUsePassword] = useState(false);
@@ -57,6 +70,12 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
   const [isCreating, setIsCreating] = useState(false);
   const [createdLink, setCreatedLink] = useState<ShareLink | null>(null);
   const [copied, setCopied] = useState(false);
+  const [activityShareId, setActivityShareId] = useState<string | null>(null);
+  const [activity, setActivity] = useState<ShareAccessTimeline | null>(null);
+  const [isLoadingActivity, setIsLoadingActivity] = useState(false);
+  const [rotateShareId, setRotateShareId] = useState<string | null>(null);
+  const [rotatePassword, setRotatePassword] = useState('');
+  const [busyShareId, setBusyShareId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!isOpen) {
@@ -69,6 +88,10 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
       setUseMaxDownloads(false);
       setCreatedLink(null);
       setCopied(false);
+      setActivityShareId(null);
+      setActivity(null);
+      setRotateShareId(null);
+      setRotatePassword('');
     }
   }, [isOpen]);
 
@@ -116,6 +139,58 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
     }
   };
 
+  const handleToggleActivity = async (shareId: string) => {
+    if (!onLoadAccessLog) return;
+
+    if (activityShareId === shareId) {
+      setActivityShareId(null);
+      setActivity(null);
+      return;
+    }
+
+    setActivityShareId(shareId);
+    setActivity(null);
+    setIsLoadingActivity(true);
+
+    try {
+      setActivity(await onLoadAccessLog(shareId));
+    } finally {
+      setIsLoadingActivity(false);
+    }
+  };
+
+  const handleUnlock = async (shareId: string) => {
+    if (!onUnlockShare) return;
+
+    setBusyShareId(shareId);
+    try {
+      await onUnlockShare(shareId);
+    } finally {
+      setBusyShareId(null);
+    }
+  };
+
+  const handleToggleRotate = (shareId: string) => {
+    setRotateShareId(rotateShareId === shareId ? null : shareId);
+    setRotatePassword('');
+  };
+
+  const handleRotate = async (shareId: string) => {
+    if (!onRotateShare) return;
+
+    setBusyShareId(shareId);
+    try {
+      const link = await onRotateShare(shareId, rotatePassword || undefined);
+      setRotateShareId(null);
+      setRotatePassword('');
+      setCreatedLink(link);
+    } catch (error) {
+      console.error('Failed to rotate share link:', error);
+    } finally {
+      setBusyShareId(null);
+    }
+  };
+
   const formatDate = (date: Date): string => {
     return new Date(date).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -131,7 +206,7 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
       isOpen={isOpen}
       onClose={onClose}
       title={`Share: ${file?.name || ''}`}
-      description="Create a secure share link for this file"
+      description="Create a secure share link. The key travels in the link, never to our servers."
       size="lg"
     >
       <div className="space-y-6">
@@ -161,7 +236,7 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
                         Password Protection
                       </label>
                       <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                        Require a password to access the file
+                        Require a password to open the link
                       </p>
                       {usePassword && (
                         <motion.div
@@ -315,13 +390,13 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
                 <div className="flex gap-2">
                   <Input
                     type="text"
-                    value={createdLink.url}
+                    value={createdLink.url ?? ''}
                     readOnly
                     className="flex-1"
                   />
                   <Button
                     variant="secondary"
-                    onClick={() => handleCopyLink(createdLink.url)}
+                    onClick={() => handleCopyLink(createdLink.url ?? '')}
                     leftIcon={
                       copied ? (
                         <CheckCircleIcon className="h-5 w-5 text-green-500" />
@@ -333,6 +408,10 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
                     {copied ? 'Copied!' : 'Copy'}
                   </Button>
                 </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  The part after # is the decryption key and is never sent to the server.
+                  Share the whole link{createdLink.password ? ', and send the password separately' : ''}.
+                </p>
               </div>
 
               {/* Link Details */}
@@ -380,27 +459,118 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
             <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
               Existing Share Links
             </h4>
-            <div className="space-y-2 max-h-48 overflow-y-auto">
+            <div className="space-y-2 max-h-96 overflow-y-auto">
               {existingShares.map((share) => (
-                <div
-                  key={share.id}
-                  className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg"
-                >
-                  <div className="flex-1 min-w-0 text-sm">
-                    <p className="text-gray-900 dark:text-gray-100 truncate">{share.url}</p>
-                    <p className="text-gray-500 dark:text-gray-400 text-xs mt-1">
-                      Created {formatDate(share.createdAt)}
-                      {share.expiresAt && ` • Expires ${formatDate(share.expiresAt)}`}
-                    </p>
+                <div key={share.id} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex-1 min-w-0 text-sm">
+                      <p className="text-gray-900 dark:text-gray-100 truncate">
+                        {share.url ??
+                          `${share.downloadCount}${
+                            share.maxDownloads ? ` / ${share.maxDownloads}` : ''
+                          } downloads${share.password ? ' • Password protected' : ''}`}
+                      </p>
+                      <p className="text-gray-500 dark:text-gray-400 text-xs mt-1">
+                        Created {formatDate(share.createdAt)}
+                        {share.expiresAt && ` • Expires ${formatDate(share.expiresAt)}`}
+                      </p>
+                      {share.lockedAt && (
+                        <p className="text-red-600 dark:text-red-400 text-xs mt-1 flex items-center gap-1">
+                          <LockClosedIcon className="h-3.5 w-3.5" />
+                          Locked {formatDate(share.lockedAt)} after too many wrong passwords
+                        </p>
+                      )}
+                    </div>
+                    {share.lockedAt && onUnlockShare && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleUnlock(share.id)}
+                        isLoading={busyShareId === share.id && rotateShareId !== share.id}
+                        leftIcon={<LockOpenIcon className="h-4 w-4" />}
+                      >
+                        Unlock
+                      </Button>
+                    )}
+                    {onRotateShare && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleToggleRotate(share.id)}
+                        leftIcon={<ArrowPathIcon className="h-4 w-4" />}
+                      >
+                        Rotate
+                      </Button>
+                    )}
+                    {onLoadAccessLog && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleToggleActivity(share.id)}
+                        leftIcon={<ChartBarIcon className="h-4 w-4" />}
+                      >
+                        Activity
+                      </Button>
+                    )}
+                    {share.url && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleCopyLink(share.url!)}
+                        leftIcon={<DocumentDuplicateIcon className="h-4 w-4" />}
+                      >
+                        Copy
+                      </Button>
+                    )}
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleCopyLink(share.url)}
-                    leftIcon={<DocumentDuplicateIcon className="h-4 w-4" />}
-                  >
-                    Copy
-                  </Button>
+
+                  {rotateShareId === share.id && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: 'auto' }}
+                      className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 space-y-3"
+                    >
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        Rotating gives this link a new address. The old link stops working
+                        and recipients need the new one.
+                      </p>
+                      <Input
+                        type="password"
+                        placeholder="New password (optional)"
+                        value={rotatePassword}
+                        onChange={(e) => setRotatePassword(e.target.value)}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleToggleRotate(share.id)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          variant="primary"
+                          size="sm"
+                          onClick={() => handleRotate(share.id)}
+                          isLoading={busyShareId === share.id}
+                        >
+                          Rotate Link
+                        </Button>
+                      </div>
+                    </motion.div>
+                  )}
+
+                  {activityShareId === share.id && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: 'auto' }}
+                      className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700"
+                    >
+                      {isLoadingActivity ? (
+                        <div className="flex justify-center py-6">
+                          <Spinner size="md" />
+                        </div>
+                      ) : (
+                        activity && <ShareAccessChart timeline={activity} />
+                      )}
+                    </motion.div>
+                  )}
                 </div>
               ))}
             </div>
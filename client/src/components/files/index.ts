@@ -12,3 +12,9 @@ export type { FilePreviewProps } from './FilePreview';
 
 export { ShareDialog } from './ShareDialog';
 export type { ShareDialogProps, ShareOptions, ShareLink } from './ShareDialog';
+
+export { FileRequestDialog } from './FileRequestDialog';
+export type { FileRequestDialogProps, FileRequestDialogOptions } from './FileRequestDialog';
+
+export { ShareAccessChart } from './ShareAccessChart';
+export type { ShareAccessChartProps } from './ShareAccessChart';
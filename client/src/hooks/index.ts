@@ -7,3 +7,13 @@ export * from './useAuth';
 export * from './useFiles';
 export * from './useEncryption';
 export * from './useToast';
+export * from './useFileVersions';
+export * from './useSharedFiles';
+export * from './useSharedFolder';
+export * from './useShareLink';
+export * from './useShareLinks';
+export * from './useFileRequest';
+export * from './useTrash';
+export * from './useFileSearch';
+export * from './useSecurityKeys';
+export * from './useSessions';
@@ -6,14 +6,16 @@
 import { useAuthStore } from '../stores/auth.store';
 import { useUIStore } from '../stores/ui.store';
 import AuthService from '../services/auth.service';
-import type { LoginData, RegisterData } from '../services/auth.service';
+import type { LoginData, RegisterData, RecoverAccountData } from '../services/auth.service';
 
 export const useAuth = () => {
-  const { user, isAuthenticated, masterKey, isLoading, login, logout, setLoading } = useAuthStore();
+  const { user, isAuthenticated, masterKey, isLoading, login, logout, updateUser, setLoading } =
+    useAuthStore();
   const { addToast } = useUIStore();
 
   /**
    * Register a new user
+   * @returns Recovery key to show to the user once
    */
   const register = async (data: RegisterData) => {
     try {
@@ -49,6 +51,8 @@ export const useAuth = () => {
         message: 'Account created successfully',
         description: 'Welcome to CrypticStorage!',
       });
+
+      return user.recoveryKey;
     } catch (error: any) {
       console.error('Registration error:', error);
       addToast({
@@ -72,15 +76,20 @@ export const useAuth = () => {
         email: data.email,
         password: data.password,
         rememberMe: data.rememberMe,
+        twoFactorCode: data.twoFactorCode,
+        backupCode: data.backupCode,
+        useSecurityKey: data.useSecurityKey,
       });
 
       if (result.requiresTwoFactor) {
         addToast({
           type: 'info',
           message: 'Two-factor authentication required',
-          description: 'Please enter your 2FA code',
+          description: result.twoFactorMethods.includes('webauthn')
+            ? 'Use your security key or enter your 2FA code'
+            : 'Please enter your 2FA code',
         });
-        return { requiresTwoFactor: true };
+        return { requiresTwoFactor: true, twoFactorMethods: result.twoFactorMethods };
       }
 
       // Get the master key from storage service
@@ -225,17 +234,54 @@ export const useAuth = () => {
     }
   };
 
+  /**
+   * Get whether 2FA is enabled and how many backup codes are unused
+   */
+  const getBackupCodeStatus = async () => {
+    try {
+      return await AuthService.getBackupCodeStatus();
+    } catch (error: any) {
+      console.error('Backup code status error:', error);
+      return null;
+    }
+  };
+
+  /**
+   * Replace the backup codes
+   * @returns New backup codes, shown once
+   */
+  const regenerateBackupCodes = async (password: string) => {
+    try {
+      const backupCodes = await AuthService.regenerateBackupCodes(password);
+      addToast({
+        type: 'success',
+        message: 'Backup codes regenerated',
+        description: 'Your previous backup codes no longer work',
+      });
+      return backupCodes;
+    } catch (error: any) {
+      console.error('Regenerate backup codes error:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to regenerate backup codes',
+        description: error.message || 'Invalid password',
+      });
+      throw error;
+    }
+  };
+
   /**
    * Change password
    */
   const changePassword = async (currentPassword: string, newPassword: string) => {
     try {
-      await AuthService.changePassword({ currentPassword, newPassword });
+      const result = await AuthService.changePassword({ currentPassword, newPassword });
       addToast({
         type: 'success',
         message: 'Password changed',
-        description: 'Your password has been updated successfully',
+        description: 'Your password has been updated and other devices were signed out',
       });
+      return result;
     } catch (error: any) {
       console.error('Change password error:', error);
       addToast({
@@ -247,6 +293,167 @@ export const useAuth = () => {
     }
   };
 
+  /**
+   * Undo the last password change with the previous and the current password
+   */
+  const rollbackPasswordChange = async (previousPassword: string, currentPassword: string) => {
+    try {
+      await AuthService.rollbackPasswordChange(previousPassword, currentPassword);
+      addToast({
+        type: 'success',
+        message: 'Password change undone',
+        description: 'Your previous password is active again',
+      });
+    } catch (error: any) {
+      console.error('Rollback password change error:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to undo password change',
+        description: error.message || 'Invalid password',
+      });
+      throw error;
+    }
+  };
+
+  /**
+   * Schedule account deletion after the grace period
+   */
+  const deleteAccount = async (
+    password: string,
+    secondFactor?: { totpCode?: string; backupCode?: string }
+  ) => {
+    try {
+      const deletionScheduledAt = await AuthService.deleteAccount(password, secondFactor);
+      addToast({
+        type: 'warning',
+        message: 'Account deletion scheduled',
+        description: `Your account will be erased on ${new Date(deletionScheduledAt).toLocaleDateString()}`,
+      });
+      return deletionScheduledAt;
+    } catch (error: any) {
+      console.error('Delete account error:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to delete account',
+        description: error.message || 'Invalid password',
+      });
+      throw error;
+    }
+  };
+
+  /**
+   * Cancel a scheduled account deletion
+   */
+  const cancelAccountDeletion = async () => {
+    try {
+      await AuthService.cancelAccountDeletion();
+      addToast({
+        type: 'success',
+        message: 'Account deletion cancelled',
+        description: 'Your account will be kept',
+      });
+    } catch (error: any) {
+      console.error('Cancel account deletion error:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to cancel account deletion',
+        description: error.message,
+      });
+      throw error;
+    }
+  };
+
+  /**
+   * Unlock an account from the link in the lockout email
+   */
+  const unlockAccount = async (token: string) => {
+    await AuthService.unlockAccount(token);
+    addToast({
+      type: 'success',
+      message: 'Account unlocked',
+      description: 'You can sign in again',
+    });
+  };
+
+  /**
+   * Confirm an email address from a verification link
+   * @returns The verified address
+   */
+  const verifyEmail = async (token: string) => {
+    const email = await AuthService.verifyEmail(token);
+
+    // The link may be opened while signed in to the same account
+    if (user?.email === email) {
+      updateUser({ emailVerified: true });
+    }
+
+    return email;
+  };
+
+  /**
+   * Send a new verification link
+   */
+  const resendVerification = async () => {
+    try {
+      await AuthService.resendVerification();
+      addToast({
+        type: 'success',
+        message: 'Verification email sent',
+        description: `Check the inbox of ${user?.email || 'your email address'}`,
+      });
+    } catch (error: any) {
+      console.error('Resend verification error:', error);
+      addToast({
+        type: 'error',
+        message: 'Could not send verification email',
+        description: error.message || 'Failed to send verification email',
+      });
+      throw error;
+    }
+  };
+
+  /**
+   * Email a recovery link
+   */
+  const requestRecovery = async (email: string) => {
+    try {
+      await AuthService.requestRecovery(email);
+    } catch (error: any) {
+      console.error('Recovery request error:', error);
+      addToast({
+        type: 'error',
+        message: 'Recovery request failed',
+        description: error.message || 'Failed to send the recovery link',
+      });
+      throw error;
+    }
+  };
+
+  /**
+   * Reset the password with the recovery key
+   */
+  const recoverAccount = async (data: RecoverAccountData) => {
+    try {
+      setLoading(true);
+      await AuthService.recoverAccount(data);
+      addToast({
+        type: 'success',
+        message: 'Password reset',
+        description: 'You can now log in with your new password',
+      });
+    } catch (error: any) {
+      console.error('Account recovery error:', error);
+      addToast({
+        type: 'error',
+        message: 'Account recovery failed',
+        description: error.message || 'Invalid recovery key',
+      });
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return {
     // State
     user,
@@ -262,6 +469,16 @@ export const useAuth = () => {
     setupTwoFactor,
     enableTwoFactor,
     disableTwoFactor,
+    getBackupCodeStatus,
+    regenerateBackupCodes,
     changePassword,
+    rollbackPasswordChange,
+    deleteAccount,
+    cancelAccountDeletion,
+    unlockAccount,
+    verifyEmail,
+    resendVerification,
+    requestRecovery,
+    recoverAccount,
   };
 };
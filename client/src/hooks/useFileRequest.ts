@@ -0,0 +1,119 @@
+/**
+ * CrypticStorage - useFileRequest Hook
+ * Custom hook for sending files through a file request link
+ */
+
+import { useCallback, useState } from 'react';
+import { useUIStore } from '../stores/ui.store';
+import FileService from '../services/file.service';
+import type { PublicFileRequest } from '../services/api.service';
+
+/**
+ * @param token - Share token from the URL path
+ */
+export const useFileRequest = (token: string | undefined) => {
+  const [request, setRequest] = useState<PublicFileRequest | null>(null);
+  const [password, setPassword] = useState<string | undefined>();
+  const [requiresPassword, setRequiresPassword] = useState(false);
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentCount, setSentCount] = useState(0);
+
+  const { addToast } = useUIStore();
+
+  /**
+   * Open the request, with the password once the visitor has entered it
+   */
+  const open = useCallback(
+    async (enteredPassword?: string) => {
+      if (!token) return;
+
+      try {
+        setIsOpening(true);
+        setError(null);
+
+        const opened = await FileService.openFileRequest(token, enteredPassword);
+        if (!opened) {
+          setRequiresPassword(true);
+          return;
+        }
+
+        setRequiresPassword(false);
+        setPassword(enteredPassword);
+        setRequest(opened);
+      } catch (err: any) {
+        console.error('Failed to open file request:', err);
+        if (err.statusCode === 429) {
+          addToast({
+            type: 'error',
+            message: 'Too many attempts',
+            description: err.details?.retryAfter
+              ? `Try again in ${err.details.retryAfter} seconds`
+              : err.message,
+          });
+        } else if (enteredPassword && err.statusCode === 403 && err.message === 'Invalid password') {
+          addToast({
+            type: 'error',
+            message: 'Wrong password',
+            description: 'The password for this link is incorrect',
+          });
+        } else {
+          setError(err.message || 'This link does not exist or is no longer accepting files.');
+        }
+      } finally {
+        setIsOpening(false);
+      }
+    },
+    [token, addToast]
+  );
+
+  /**
+   * Encrypt and send files one after another
+   */
+  const sendFiles = useCallback(
+    async (files: File[]) => {
+      if (!token || !request) return;
+
+      const failed: string[] = [];
+
+      for (const file of files) {
+        try {
+          await FileService.sendFileToRequest(token, request, file, password);
+          setSentCount((count) => count + 1);
+        } catch (err: any) {
+          console.error(`Failed to send ${file.name}:`, err);
+          failed.push(file.name);
+          addToast({
+            type: 'error',
+            message: `Could not send ${file.name}`,
+            description: err.message || 'Upload failed',
+          });
+        }
+      }
+
+      if (failed.length > 0) {
+        throw new Error(`${failed.length} file(s) could not be sent`);
+      }
+
+      addToast({
+        type: 'success',
+        message: files.length === 1 ? 'File sent' : `${files.length} files sent`,
+        description: `${request.ownerUsername} can now see ${files.length === 1 ? 'it' : 'them'}`,
+      });
+    },
+    [token, request, password, addToast]
+  );
+
+  return {
+    // State
+    request,
+    requiresPassword,
+    isOpening,
+    error,
+    sentCount,
+
+    // Actions
+    open,
+    sendFiles,
+  };
+};
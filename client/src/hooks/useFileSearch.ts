@@ -0,0 +1,82 @@
+/**
+ * CrypticStorage - useFileSearch Hook
+ * Custom hook for encrypted filename search
+ */
+
+import { useCallback, useState } from 'react';
+import { useUIStore } from '../stores/ui.store';
+import FileService from '../services/file.service';
+import type { FileItem } from '../stores/file.store';
+import type { SearchFilters } from '../types';
+
+export const useFileSearch = () => {
+  const [results, setResults] = useState<FileItem[]>([]);
+  const [activeFilters, setActiveFilters] = useState<SearchFilters | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const { addToast } = useUIStore();
+
+  /**
+   * Search files by name. Names never leave the browser: only keyed tokens
+   * are sent and the results are decrypted locally.
+   */
+  const search = useCallback(
+    async (filters: SearchFilters) => {
+      if (!filters.query?.trim()) {
+        setResults([]);
+        setActiveFilters(null);
+        return;
+      }
+
+      try {
+        setIsSearching(true);
+        setActiveFilters(filters);
+        const files = await FileService.searchFiles(filters);
+
+        setResults(
+          files.map((file) => ({
+            id: file.id,
+            name: file.name,
+            encryptedName: file.name,
+            size: file.size,
+            mimeType: file.mimeType,
+            folderId: file.folderId || null,
+            userId: '',
+            createdAt: file.createdAt,
+            updatedAt: file.updatedAt,
+          }))
+        );
+      } catch (error: any) {
+        console.error('Failed to search files:', error);
+        addToast({
+          type: 'error',
+          message: 'Search failed',
+          description: error.message || 'An error occurred while searching',
+        });
+      } finally {
+        setIsSearching(false);
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Leave search mode
+   */
+  const clearSearch = useCallback(() => {
+    setResults([]);
+    setActiveFilters(null);
+  }, []);
+
+  return {
+    // State
+    results,
+    activeFilters,
+    isSearching,
+    isSearchActive: activeFilters !== null,
+
+    // Actions
+    search,
+    clearSearch,
+  };
+};
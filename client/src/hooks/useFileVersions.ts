@@ -0,0 +1,205 @@
+/**
+ * CrypticStorage - useFileVersions Hook
+ * Custom hook for file version history
+ */
+
+import { useCallback, useState } from 'react';
+import { useUIStore } from '../stores/ui.store';
+import FileService from '../services/file.service';
+import type { FileVersionItem } from '../services/file.service';
+
+export const useFileVersions = (fileId?: string) => {
+  const [versions, setVersions] = useState<FileVersionItem[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyVersion, setBusyVersion] = useState<number | null>(null);
+
+  const { addToast } = useUIStore();
+
+  /**
+   * Load the version history of the file
+   */
+  const loadVersions = useCallback(async () => {
+    if (!fileId) return;
+
+    try {
+      setIsLoading(true);
+      const history = await FileService.listFileVersions(fileId);
+      setVersions(history.versions);
+      setCurrentVersion(history.currentVersion);
+    } catch (error: any) {
+      console.error('Failed to load file versions:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to load versions',
+        description: error.message || 'An error occurred while loading versions',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fileId, addToast]);
+
+  /**
+   * Decrypt a version and return a blob URL for previewing it
+   */
+  const previewVersion = useCallback(
+    async (version: FileVersionItem): Promise<string | null> => {
+      if (!fileId) return null;
+
+      try {
+        setBusyVersion(version.versionNumber);
+        const blob = await FileService.downloadFileVersion(fileId, version);
+        return URL.createObjectURL(blob);
+      } catch (error: any) {
+        console.error('Failed to decrypt file version:', error);
+        addToast({
+          type: 'error',
+          message: 'Preview failed',
+          description: error.message || 'Failed to decrypt version',
+        });
+        return null;
+      } finally {
+        setBusyVersion(null);
+      }
+    },
+    [fileId, addToast]
+  );
+
+  /**
+   * Decrypt a version and save it to the device
+   */
+  const downloadVersion = useCallback(
+    async (version: FileVersionItem, fileName: string) => {
+      if (!fileId) return;
+
+      try {
+        setBusyVersion(version.versionNumber);
+        const blob = await FileService.downloadFileVersion(fileId, version);
+
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      } catch (error: any) {
+        console.error('Failed to download file version:', error);
+        addToast({
+          type: 'error',
+          message: 'Download failed',
+          description: error.message || 'Failed to download version',
+        });
+      } finally {
+        setBusyVersion(null);
+      }
+    },
+    [fileId, addToast]
+  );
+
+  /**
+   * Restore a version as the current content
+   */
+  const restoreVersion = useCallback(
+    async (versionNumber: number): Promise<boolean> => {
+      if (!fileId) return false;
+
+      try {
+        setBusyVersion(versionNumber);
+        await FileService.restoreFileVersion(fileId, versionNumber);
+        await loadVersions();
+
+        addToast({
+          type: 'success',
+          message: 'Version restored',
+          description: `Version ${versionNumber} is now the current version`,
+        });
+        return true;
+      } catch (error: any) {
+        console.error('Failed to restore file version:', error);
+        addToast({
+          type: 'error',
+          message: 'Restore failed',
+          description: error.message || 'Failed to restore version',
+        });
+        return false;
+      } finally {
+        setBusyVersion(null);
+      }
+    },
+    [fileId, loadVersions, addToast]
+  );
+
+  /**
+   * Delete a single version
+   */
+  const deleteVersion = useCallback(
+    async (versionNumber: number) => {
+      if (!fileId) return;
+
+      try {
+        setBusyVersion(versionNumber);
+        await FileService.deleteFileVersion(fileId, versionNumber);
+        setVersions((prev) => prev.filter((v) => v.versionNumber !== versionNumber));
+      } catch (error: any) {
+        console.error('Failed to delete file version:', error);
+        addToast({
+          type: 'error',
+          message: 'Delete failed',
+          description: error.message || 'Failed to delete version',
+        });
+      } finally {
+        setBusyVersion(null);
+      }
+    },
+    [fileId, addToast]
+  );
+
+  /**
+   * Delete all but the newest `keep` versions
+   */
+  const deleteOldVersions = useCallback(
+    async (keep: number = 1) => {
+      if (!fileId) return;
+
+      try {
+        setIsLoading(true);
+        const deletedCount = await FileService.deleteOldFileVersions(fileId, keep);
+        await loadVersions();
+
+        addToast({
+          type: 'success',
+          message: `${deletedCount} version(s) deleted`,
+          description: 'Old versions deleted successfully',
+        });
+      } catch (error: any) {
+        console.error('Failed to delete old file versions:', error);
+        addToast({
+          type: 'error',
+          message: 'Delete failed',
+          description: error.message || 'Failed to delete old versions',
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [fileId, loadVersions, addToast]
+  );
+
+  return {
+    // State
+    versions,
+    currentVersion,
+    isLoading,
+    busyVersion,
+
+    // Actions
+    loadVersions,
+    previewVersion,
+    downloadVersion,
+    restoreVersion,
+    deleteVersion,
+    deleteOldVersions,
+  };
+};
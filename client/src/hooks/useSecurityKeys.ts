@@ -0,0 +1,121 @@
+/**
+ * CrypticStorage - useSecurityKeys Hook
+ * Custom hook for managing WebAuthn security keys
+ */
+
+import { useCallback, useState } from 'react';
+import { useUIStore } from '../stores/ui.store';
+import AuthService from '../services/auth.service';
+import type { SecurityKey } from '../services/api.service';
+
+export const useSecurityKeys = () => {
+  const [securityKeys, setSecurityKeys] = useState<SecurityKey[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { addToast } = useUIStore();
+
+  /**
+   * Load the registered security keys
+   */
+  const loadSecurityKeys = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setSecurityKeys(await AuthService.getSecurityKeys());
+    } catch (error: any) {
+      console.error('Failed to load security keys:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to load security keys',
+        description: error.message || 'An error occurred while loading security keys',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addToast]);
+
+  /**
+   * Register a security key with the browser and the server
+   * @returns Backup codes when this was the first second factor
+   */
+  const addSecurityKey = useCallback(
+    async (name: string) => {
+      try {
+        const { securityKey, backupCodes } = await AuthService.addSecurityKey(name);
+        setSecurityKeys((keys) => [...keys, securityKey]);
+        addToast({
+          type: 'success',
+          message: 'Security key added',
+          description: `${securityKey.name} can now be used to sign in`,
+        });
+        return backupCodes;
+      } catch (error: any) {
+        console.error('Failed to add security key:', error);
+        addToast({
+          type: 'error',
+          message: 'Failed to add security key',
+          description: error.message || 'Registration was not completed',
+        });
+        throw error;
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Rename a security key
+   */
+  const renameSecurityKey = useCallback(
+    async (id: string, name: string) => {
+      try {
+        const renamed = await AuthService.renameSecurityKey(id, name);
+        setSecurityKeys((keys) => keys.map((key) => (key.id === id ? renamed : key)));
+      } catch (error: any) {
+        console.error('Failed to rename security key:', error);
+        addToast({
+          type: 'error',
+          message: 'Failed to rename security key',
+          description: error.message || 'An error occurred while renaming',
+        });
+        throw error;
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Remove a security key after confirming the password
+   */
+  const removeSecurityKey = useCallback(
+    async (id: string, password: string) => {
+      try {
+        await AuthService.removeSecurityKey(id, password);
+        setSecurityKeys((keys) => keys.filter((key) => key.id !== id));
+        addToast({
+          type: 'success',
+          message: 'Security key removed',
+        });
+      } catch (error: any) {
+        console.error('Failed to remove security key:', error);
+        addToast({
+          type: 'error',
+          message: 'Failed to remove security key',
+          description: error.message || 'Invalid password',
+        });
+        throw error;
+      }
+    },
+    [addToast]
+  );
+
+  return {
+    // State
+    securityKeys,
+    isLoading,
+
+    // Actions
+    loadSecurityKeys,
+    addSecurityKey,
+    renameSecurityKey,
+    removeSecurityKey,
+  };
+};
@@ -0,0 +1,92 @@
+/**
+ * CrypticStorage - useSessions Hook
+ * Custom hook for listing and signing out active devices
+ */
+
+import { useCallback, useState } from 'react';
+import { useUIStore } from '../stores/ui.store';
+import AuthService from '../services/auth.service';
+import type { ActiveSession } from '../services/api.service';
+
+export const useSessions = () => {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { addToast } = useUIStore();
+
+  /**
+   * Load the active sessions
+   */
+  const loadSessions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setSessions(await AuthService.getSessions());
+    } catch (error: any) {
+      console.error('Failed to load sessions:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to load devices',
+        description: error.message || 'An error occurred while loading active devices',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addToast]);
+
+  /**
+   * Sign out one device
+   */
+  const revokeSession = useCallback(
+    async (id: string) => {
+      try {
+        await AuthService.revokeSession(id);
+        setSessions((current) => current.filter((session) => session.id !== id));
+        addToast({
+          type: 'success',
+          message: 'Device signed out',
+        });
+      } catch (error: any) {
+        console.error('Failed to revoke session:', error);
+        addToast({
+          type: 'error',
+          message: 'Failed to sign out device',
+          description: error.message || 'An error occurred',
+        });
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Sign out every device except this one
+   */
+  const revokeOtherSessions = useCallback(async () => {
+    try {
+      const count = await AuthService.revokeOtherSessions();
+      setSessions((current) => current.filter((session) => session.current));
+      addToast({
+        type: 'success',
+        message: 'Other devices signed out',
+        description: `${count} ${count === 1 ? 'device was' : 'devices were'} signed out`,
+      });
+    } catch (error: any) {
+      console.error('Failed to revoke sessions:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to sign out other devices',
+        description: error.message || 'An error occurred',
+      });
+    }
+  }, [addToast]);
+
+  return {
+    // State
+    sessions,
+    isLoading,
+
+    // Actions
+    loadSessions,
+    revokeSession,
+    revokeOtherSessions,
+  };
+};
@@ -0,0 +1,210 @@
+/**
+ * CrypticStorage - useShareLink Hook
+ * Custom hook for opening a public share link and browsing what it shares
+ */
+
+import { useCallback, useState } from 'react';
+import { useUIStore } from '../stores/ui.store';
+import FileService from '../services/file.service';
+import type { OpenedShareLink, SharedFolderEntry } from '../services/file.service';
+import type { SharedFolderPathItem } from './useSharedFolder';
+
+const saveBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * @param token - Share token from the URL path
+ * @param secret - Link secret from the URL fragment
+ */
+export const useShareLink = (token: string | undefined, secret: string) => {
+  const [link, setLink] = useState<OpenedShareLink | null>(null);
+  const [requiresPassword, setRequiresPassword] = useState(false);
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [path, setPath] = useState<SharedFolderPathItem[]>([]);
+  const [entries, setEntries] = useState<SharedFolderEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyEntryId, setBusyEntryId] = useState<string | null>(null);
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
+
+  const { addToast } = useUIStore();
+
+  /**
+   * List the last folder of a path, keeping the keys of the folders above it
+   */
+  const loadPath = useCallback(
+    async (opened: OpenedShareLink, folderPath: SharedFolderPathItem[]) => {
+      const current = folderPath[folderPath.length - 1];
+
+      try {
+        setIsLoading(true);
+        const listing = await FileService.listShareLinkFolder(opened, current.key, current.id);
+        setPath(folderPath);
+        setEntries(listing.entries);
+      } catch (err: any) {
+        console.error('Failed to load shared folder:', err);
+        addToast({
+          type: 'error',
+          message: 'Failed to load folder',
+          description: err.message || 'An error occurred while loading the shared folder',
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Open the link, with the password once the visitor has entered it
+   */
+  const open = useCallback(
+    async (password?: string) => {
+      if (!token) return;
+
+      if (!secret) {
+        setError('This link is incomplete. Ask the sender for the full link.');
+        return;
+      }
+
+      try {
+        setIsOpening(true);
+        setError(null);
+
+        const opened = await FileService.openShareLink(token, secret, password);
+        if (!opened) {
+          setRequiresPassword(true);
+          return;
+        }
+
+        setRequiresPassword(false);
+        setLink(opened);
+
+        if (opened.type === 'folder') {
+          await loadPath(opened, [{ name: opened.name, key: opened.key }]);
+        }
+      } catch (err: any) {
+        console.error('Failed to open share link:', err);
+        if (err.statusCode === 429) {
+          addToast({
+            type: 'error',
+            message: 'Too many attempts',
+            description: err.details?.retryAfter
+              ? `Try again in ${err.details.retryAfter} seconds`
+              : err.message,
+          });
+        } else if (err.message === 'Share link is locked') {
+          setError('This link was locked after too many wrong passwords. Ask its owner to unlock it.');
+        } else if (password && (err.statusCode === 401 || err.statusCode === 403)) {
+          addToast({
+            type: 'error',
+            message: 'Wrong password',
+            description: err.message || 'The password for this link is incorrect',
+          });
+        } else {
+          setError(err.message || 'This shared link does not exist or has expired.');
+        }
+      } finally {
+        setIsOpening(false);
+      }
+    },
+    [token, secret, loadPath, addToast]
+  );
+
+  /**
+   * Open a subfolder of the current folder
+   */
+  const openFolder = useCallback(
+    (entry: SharedFolderEntry) => {
+      if (!link) return;
+      return loadPath(link, [...path, { id: entry.id, name: entry.name, key: entry.key }]);
+    },
+    [link, path, loadPath]
+  );
+
+  /**
+   * Go back to a folder in the current path
+   */
+  const navigateTo = useCallback(
+    (index: number) => {
+      if (!link) return;
+      return loadPath(link, path.slice(0, index + 1));
+    },
+    [link, path, loadPath]
+  );
+
+  /**
+   * Decrypt the shared file and save it to the device
+   */
+  const downloadFile = useCallback(async () => {
+    if (!link) return;
+
+    try {
+      setDownloadProgress(0);
+      const blob = await FileService.downloadShareLinkFile(link, setDownloadProgress);
+      saveBlob(blob, link.name);
+    } catch (err: any) {
+      console.error('Failed to download shared file:', err);
+      addToast({
+        type: 'error',
+        message: 'Download failed',
+        description: err.message || 'Failed to download shared file',
+      });
+    } finally {
+      setDownloadProgress(null);
+    }
+  }, [link, addToast]);
+
+  /**
+   * Decrypt a file from the shared folder and save it to the device
+   */
+  const downloadEntry = useCallback(
+    async (entry: SharedFolderEntry) => {
+      if (!link) return;
+
+      try {
+        setBusyEntryId(entry.id);
+        const blob = await FileService.downloadShareLinkFolderFile(link, entry);
+        saveBlob(blob, entry.name);
+      } catch (err: any) {
+        console.error('Failed to download shared file:', err);
+        addToast({
+          type: 'error',
+          message: 'Download failed',
+          description: err.message || 'Failed to download shared file',
+        });
+      } finally {
+        setBusyEntryId(null);
+      }
+    },
+    [link, addToast]
+  );
+
+  return {
+    // State
+    link,
+    requiresPassword,
+    isOpening,
+    error,
+    path,
+    entries,
+    isLoading,
+    busyEntryId,
+    downloadProgress,
+
+    // Actions
+    open,
+    openFolder,
+    navigateTo,
+    downloadFile,
+    downloadEntry,
+  };
+};
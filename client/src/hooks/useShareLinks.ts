@@ -0,0 +1,154 @@
+/**
+ * CrypticStorage - useShareLinks Hook
+ * Custom hook for managing the user's own share links and file requests:
+ * listing by status, editing, revoking and extending them
+ */
+
+import { useCallback, useState } from 'react';
+import { useUIStore } from '../stores/ui.store';
+import FileService from '../services/file.service';
+import type { ShareLinkListItem } from '../services/file.service';
+import type { ShareLinkStatus, UpdateShareLinkRequest } from '../services/api.service';
+
+export const useShareLinks = () => {
+  const [links, setLinks] = useState<ShareLinkListItem[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ShareLinkStatus | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const { addToast } = useUIStore();
+
+  /**
+   * Load the links matching the status filter
+   */
+  const loadLinks = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setLinks(await FileService.listShareLinksForManagement(statusFilter));
+    } catch (error: any) {
+      console.error('Failed to load share links:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to load share links',
+        description: error.message || 'An error occurred while loading your links',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter, addToast]);
+
+  /**
+   * Run a change, then reload the list since statuses may have moved
+   */
+  const runUpdate = useCallback(
+    async (action: () => Promise<string>, failure: string): Promise<boolean> => {
+      try {
+        setIsUpdating(true);
+        addToast({ type: 'success', message: await action() });
+        await loadLinks();
+        return true;
+      } catch (error: any) {
+        console.error(`${failure}:`, error);
+        addToast({
+          type: 'error',
+          message: failure,
+          description: error.message || 'An error occurred',
+        });
+        return false;
+      } finally {
+        setIsUpdating(false);
+      }
+    },
+    [loadLinks, addToast]
+  );
+
+  /**
+   * Change the expiry, download limit or status of a link
+   */
+  const updateLink = useCallback(
+    (link: ShareLinkListItem, changes: UpdateShareLinkRequest) =>
+      runUpdate(async () => {
+        await FileService.updateShareLink(link.id, changes);
+        return 'Share link updated';
+      }, 'Failed to update share link'),
+    [runUpdate]
+  );
+
+  /**
+   * Revoke a single link
+   */
+  const revokeLink = useCallback(
+    (link: ShareLinkListItem) =>
+      runUpdate(async () => {
+        await FileService.revokeShareLink(link.id);
+        return 'Share link revoked';
+      }, 'Failed to revoke share link'),
+    [runUpdate]
+  );
+
+  /**
+   * Unlock a link locked after too many wrong passwords
+   */
+  const unlockLink = useCallback(
+    (link: ShareLinkListItem) =>
+      runUpdate(async () => {
+        await FileService.unlockShareLink(link.id);
+        return 'Share link unlocked';
+      }, 'Failed to unlock share link'),
+    [runUpdate]
+  );
+
+  /**
+   * Revoke every link of the item a link shares
+   */
+  const revokeItemLinks = useCallback(
+    (link: ShareLinkListItem) =>
+      runUpdate(async () => {
+        const revoked = await FileService.revokeItemShareLinks(link.target);
+        return `${revoked} link(s) to ${link.target.name} revoked`;
+      }, 'Failed to revoke share links'),
+    [runUpdate]
+  );
+
+  /**
+   * Revoke every expired link
+   */
+  const revokeExpired = useCallback(
+    () =>
+      runUpdate(async () => {
+        const revoked = await FileService.revokeExpiredShareLinks();
+        return revoked > 0 ? `${revoked} expired link(s) revoked` : 'No expired links to revoke';
+      }, 'Failed to revoke expired links'),
+    [runUpdate]
+  );
+
+  /**
+   * Push back the expiry of several links
+   */
+  const extendLinks = useCallback(
+    (shareIds: string[], days: number) =>
+      runUpdate(async () => {
+        await FileService.extendShareLinks(shareIds, days);
+        return `Expiry of ${shareIds.length} link(s) extended by ${days} day(s)`;
+      }, 'Failed to extend share links'),
+    [runUpdate]
+  );
+
+  return {
+    // State
+    links,
+    statusFilter,
+    isLoading,
+    isUpdating,
+
+    // Actions
+    setStatusFilter,
+    loadLinks,
+    updateLink,
+    revokeLink,
+    unlockLink,
+    revokeItemLinks,
+    revokeExpired,
+    extendLinks,
+  };
+};
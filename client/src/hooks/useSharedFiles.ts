@@ -0,0 +1,367 @@
+/**
+ * CrypticStorage - useSharedFiles Hook
+ * Custom hook for files and folders shared directly between users
+ */
+
+import { useCallback, useState } from 'react';
+import { useUIStore } from '../stores/ui.store';
+import FileService from '../services/file.service';
+import type {
+  CreatedFileRequest,
+  CreatedShareLink,
+  FileRequestOptions,
+  SharedFileItem,
+  ShareLinkOptions,
+} from '../services/file.service';
+import type {
+  ShareAccessTimeline,
+  ShareLinkSummary,
+  UserSharePermission,
+} from '../services/api.service';
+
+export const useSharedFiles = () => {
+  const [sharedFiles, setSharedFiles] = useState<SharedFileItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyShareId, setBusyShareId] = useState<string | null>(null);
+
+  const { addToast } = useUIStore();
+
+  /**
+   * Load files shared with the current user
+   */
+  const loadSharedWithMe = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setSharedFiles(await FileService.listSharedWithMe());
+    } catch (error: any) {
+      console.error('Failed to load shared files:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to load shared files',
+        description: error.message || 'An error occurred while loading shared files',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addToast]);
+
+  /**
+   * Share a file with another user
+   */
+  const shareWithUser = useCallback(
+    async (
+      file: { id: string; name: string },
+      username: string,
+      permission: UserSharePermission
+    ): Promise<boolean> => {
+      try {
+        await FileService.shareFileWithUser(file, username, permission);
+        addToast({
+          type: 'success',
+          message: 'File shared',
+          description: `${file.name} is now shared with ${username}`,
+        });
+        return true;
+      } catch (error: any) {
+        console.error('Failed to share file:', error);
+        addToast({
+          type: 'error',
+          message: 'Share failed',
+          description: error.response?.data?.message || error.message || 'Failed to share file',
+        });
+        return false;
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Share a folder, and everything added to it later, with another user
+   */
+  const shareFolderWithUser = useCallback(
+    async (
+      folder: { id: string; name: string },
+      username: string,
+      permission: UserSharePermission
+    ): Promise<boolean> => {
+      try {
+        await FileService.shareFolderWithUser(folder, username, permission);
+        addToast({
+          type: 'success',
+          message: 'Folder shared',
+          description: `${folder.name} is now shared with ${username}`,
+        });
+        return true;
+      } catch (error: any) {
+        console.error('Failed to share folder:', error);
+        addToast({
+          type: 'error',
+          message: 'Share failed',
+          description: error.response?.data?.message || error.message || 'Failed to share folder',
+        });
+        return false;
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Create a public share link for a file or folder
+   */
+  const createShareLink = useCallback(
+    async (
+      target: { type: 'file' | 'folder'; id: string; name: string },
+      options: ShareLinkOptions
+    ): Promise<CreatedShareLink> => {
+      try {
+        const created = await FileService.createShareLink(target, options);
+        addToast({
+          type: 'success',
+          message: 'Share link created',
+          description: `Anyone with the link can open ${target.name}`,
+        });
+        return created;
+      } catch (error: any) {
+        console.error('Failed to create share link:', error);
+        addToast({
+          type: 'error',
+          message: 'Share link failed',
+          description:
+            error.response?.data?.message || error.message || 'Failed to create share link',
+        });
+        throw error;
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Unlock a share link locked after too many wrong passwords
+   */
+  const unlockShareLink = useCallback(
+    async (shareId: string): Promise<boolean> => {
+      try {
+        await FileService.unlockShareLink(shareId);
+        addToast({
+          type: 'success',
+          message: 'Share link unlocked',
+          description: 'The link works again with its current password',
+        });
+        return true;
+      } catch (error: any) {
+        console.error('Failed to unlock share link:', error);
+        addToast({
+          type: 'error',
+          message: 'Unlock failed',
+          description: error.message || 'Failed to unlock share link',
+        });
+        return false;
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Give a share link a new address and password
+   */
+  const rotateShareLink = useCallback(
+    async (
+      shareId: string,
+      target: { type: 'file' | 'folder'; id: string; name: string },
+      password?: string
+    ): Promise<CreatedShareLink> => {
+      try {
+        const rotated = await FileService.rotateShareLink(shareId, target, password);
+        addToast({
+          type: 'success',
+          message: 'Share link rotated',
+          description: 'The old link no longer works. Send the new one to your recipients.',
+        });
+        return rotated;
+      } catch (error: any) {
+        console.error('Failed to rotate share link:', error);
+        addToast({
+          type: 'error',
+          message: 'Rotation failed',
+          description: error.message || 'Failed to rotate share link',
+        });
+        throw error;
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Load the share links of a file or folder
+   */
+  const loadShareLinks = useCallback(
+    async (target: { type: 'file' | 'folder'; id: string }): Promise<ShareLinkSummary[]> => {
+      try {
+        return await FileService.listShareLinks(target);
+      } catch (error: any) {
+        console.error('Failed to load share links:', error);
+        addToast({
+          type: 'error',
+          message: 'Failed to load share links',
+          description: error.message || 'An error occurred while loading share links',
+        });
+        return [];
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Load the access timeline of a share link
+   */
+  const loadShareAccessLog = useCallback(
+    async (shareId: string): Promise<ShareAccessTimeline | null> => {
+      try {
+        return await FileService.getShareAccessLog(shareId);
+      } catch (error: any) {
+        console.error('Failed to load share activity:', error);
+        addToast({
+          type: 'error',
+          message: 'Failed to load link activity',
+          description: error.message || 'An error occurred while loading link activity',
+        });
+        return null;
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Create an upload-only link that collects files into a folder
+   */
+  const createFileRequest = useCallback(
+    async (
+      folder: { id: string; name: string },
+      options: FileRequestOptions
+    ): Promise<CreatedFileRequest> => {
+      try {
+        const created = await FileService.createFileRequest(folder.id, options);
+        addToast({
+          type: 'success',
+          message: 'File request created',
+          description: `Anyone with the link can add files to ${folder.name}`,
+        });
+        return created;
+      } catch (error: any) {
+        console.error('Failed to create file request:', error);
+        addToast({
+          type: 'error',
+          message: 'File request failed',
+          description:
+            error.response?.data?.message || error.message || 'Failed to create file request',
+        });
+        throw error;
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Decrypt a shared file and save it to the device
+   */
+  const downloadSharedFile = useCallback(
+    async (item: SharedFileItem) => {
+      try {
+        setBusyShareId(item.shareId);
+        const blob = await FileService.downloadSharedFile(item);
+
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = item.name;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      } catch (error: any) {
+        console.error('Failed to download shared file:', error);
+        addToast({
+          type: 'error',
+          message: 'Download failed',
+          description: error.message || 'Failed to download shared file',
+        });
+      } finally {
+        setBusyShareId(null);
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Replace the content of a file shared with write permission
+   */
+  const updateSharedFile = useCallback(
+    async (item: SharedFileItem, file: File) => {
+      try {
+        setBusyShareId(item.shareId);
+        await FileService.updateSharedFile(item, file);
+        await loadSharedWithMe();
+
+        addToast({
+          type: 'success',
+          message: 'File updated',
+          description: `A new version of ${item.name} was uploaded`,
+        });
+      } catch (error: any) {
+        console.error('Failed to update shared file:', error);
+        addToast({
+          type: 'error',
+          message: 'Update failed',
+          description: error.message || 'Failed to update shared file',
+        });
+      } finally {
+        setBusyShareId(null);
+      }
+    },
+    [loadSharedWithMe, addToast]
+  );
+
+  /**
+   * Remove a file from the shared-with-me list
+   */
+  const removeSharedFile = useCallback(
+    async (item: SharedFileItem) => {
+      try {
+        setBusyShareId(item.shareId);
+        await FileService.removeUserShare(item.shareId);
+        setSharedFiles((prev) => prev.filter((f) => f.shareId !== item.shareId));
+      } catch (error: any) {
+        console.error('Failed to remove shared file:', error);
+        addToast({
+          type: 'error',
+          message: 'Remove failed',
+          description: error.message || 'Failed to remove shared file',
+        });
+      } finally {
+        setBusyShareId(null);
+      }
+    },
+    [addToast]
+  );
+
+  return {
+    // State
+    sharedFiles,
+    isLoading,
+    busyShareId,
+
+    // Actions
+    loadSharedWithMe,
+    shareWithUser,
+    shareFolderWithUser,
+    createShareLink,
+    loadShareLinks,
+    loadShareAccessLog,
+    unlockShareLink,
+    rotateShareLink,
+    createFileRequest,
+    downloadSharedFile,
+    updateSharedFile,
+    removeSharedFile,
+  };
+};
@@ -0,0 +1,135 @@
+/**
+ * CrypticStorage - useSharedFolder Hook
+ * Custom hook for browsing a folder shared with the current user
+ */
+
+import { useCallback, useState } from 'react';
+import { useUIStore } from '../stores/ui.store';
+import FileService from '../services/file.service';
+import type { SharedFileItem, SharedFolderEntry } from '../services/file.service';
+
+export interface SharedFolderPathItem {
+  id?: string;
+  name: string;
+  key: CryptoKey;
+}
+
+export const useSharedFolder = (item: SharedFileItem | null) => {
+  const [path, setPath] = useState<SharedFolderPathItem[]>([]);
+  const [entries, setEntries] = useState<SharedFolderEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyEntryId, setBusyEntryId] = useState<string | null>(null);
+
+  const { addToast } = useUIStore();
+
+  /**
+   * List the last folder of a path, keeping the keys of the folders above it
+   */
+  const loadPath = useCallback(
+    async (folderPath: SharedFolderPathItem[]) => {
+      if (!item || folderPath.length === 0) return;
+
+      const current = folderPath[folderPath.length - 1];
+
+      try {
+        setIsLoading(true);
+        const listing = await FileService.listSharedFolder(item, current.key, current.id);
+        setPath(folderPath);
+        setEntries(listing.entries);
+      } catch (error: any) {
+        console.error('Failed to load shared folder:', error);
+        addToast({
+          type: 'error',
+          message: 'Failed to load folder',
+          description: error.message || 'An error occurred while loading the shared folder',
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [item, addToast]
+  );
+
+  /**
+   * Open the shared folder itself
+   */
+  const openRoot = useCallback(async () => {
+    if (!item) return;
+
+    try {
+      const key = await FileService.getSharedFolderKey(item);
+      await loadPath([{ name: item.name, key }]);
+    } catch (error: any) {
+      console.error('Failed to unlock shared folder:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to open folder',
+        description: error.message || 'The folder key could not be decrypted',
+      });
+    }
+  }, [item, loadPath, addToast]);
+
+  /**
+   * Open a subfolder of the current folder
+   */
+  const openFolder = useCallback(
+    (entry: SharedFolderEntry) =>
+      loadPath([...path, { id: entry.id, name: entry.name, key: entry.key }]),
+    [path, loadPath]
+  );
+
+  /**
+   * Go back to a folder in the current path
+   */
+  const navigateTo = useCallback(
+    (index: number) => loadPath(path.slice(0, index + 1)),
+    [path, loadPath]
+  );
+
+  /**
+   * Decrypt a file from the folder and save it to the device
+   */
+  const downloadFile = useCallback(
+    async (entry: SharedFolderEntry) => {
+      if (!item) return;
+
+      try {
+        setBusyEntryId(entry.id);
+        const blob = await FileService.downloadSharedFolderFile(item, entry);
+
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = entry.name;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      } catch (error: any) {
+        console.error('Failed to download shared file:', error);
+        addToast({
+          type: 'error',
+          message: 'Download failed',
+          description: error.message || 'Failed to download shared file',
+        });
+      } finally {
+        setBusyEntryId(null);
+      }
+    },
+    [item, addToast]
+  );
+
+  return {
+    // State
+    path,
+    entries,
+    isLoading,
+    busyEntryId,
+
+    // Actions
+    openRoot,
+    openFolder,
+    navigateTo,
+    downloadFile,
+  };
+};
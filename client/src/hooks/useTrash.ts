@@ -0,0 +1,157 @@
+/**
+ * CrypticStorage - useTrash Hook
+ * Custom hook for the trash bin: listing, restore and permanent deletion
+ */
+
+import { useCallback, useState } from 'react';
+import { useUIStore } from '../stores/ui.store';
+import FileService from '../services/file.service';
+import type { TrashItem } from '../services/file.service';
+
+export const useTrash = () => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+
+  const { addToast } = useUIStore();
+
+  /**
+   * Load the contents of the trash
+   */
+  const loadTrash = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const trash = await FileService.listTrash();
+      setItems(trash.items);
+      setRetentionDays(trash.retentionDays);
+    } catch (error: any) {
+      console.error('Failed to load trash:', error);
+      addToast({
+        type: 'error',
+        message: 'Failed to load trash',
+        description: error.message || 'An error occurred while loading the trash',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addToast]);
+
+  /**
+   * Restore a file or folder
+   */
+  const restoreItem = useCallback(
+    async (item: TrashItem) => {
+      try {
+        setBusyItemId(item.id);
+        const result = await FileService.restoreTrashItem(item);
+        setItems((prev) => prev.filter((i) => i.id !== item.id));
+
+        addToast({
+          type: 'success',
+          message: `${item.name} restored`,
+          description: result.movedToRoot
+            ? 'Its original folder is still in the trash, so it was moved to Home'
+            : item.type === 'folder'
+              ? `${result.restoredFiles} file(s) restored with it`
+              : undefined,
+        });
+      } catch (error: any) {
+        console.error('Failed to restore item:', error);
+        addToast({
+          type: 'error',
+          message: 'Restore failed',
+          description: error.response?.data?.message || error.message || 'Failed to restore item',
+        });
+      } finally {
+        setBusyItemId(null);
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Permanently delete a file or folder
+   */
+  const deleteItem = useCallback(
+    async (item: TrashItem) => {
+      try {
+        setBusyItemId(item.id);
+        await FileService.deleteTrashItem(item);
+        setItems((prev) => prev.filter((i) => i.id !== item.id));
+      } catch (error: any) {
+        console.error('Failed to delete item:', error);
+        addToast({
+          type: 'error',
+          message: 'Delete failed',
+          description: error.message || 'Failed to delete item',
+        });
+      } finally {
+        setBusyItemId(null);
+      }
+    },
+    [addToast]
+  );
+
+  /**
+   * Permanently delete everything in the trash
+   */
+  const emptyTrash = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await FileService.emptyTrash();
+      setItems([]);
+
+      addToast({
+        type: 'success',
+        message: 'Trash emptied',
+        description: `${result.filesDeleted} file(s) and ${result.foldersDeleted} folder(s) permanently deleted`,
+      });
+    } catch (error: any) {
+      console.error('Failed to empty trash:', error);
+      addToast({
+        type: 'error',
+        message: 'Empty trash failed',
+        description: error.message || 'Failed to empty trash',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addToast]);
+
+  /**
+   * Change how long deleted items are kept
+   */
+  const updateRetention = useCallback(
+    async (days: number) => {
+      try {
+        setRetentionDays(await FileService.setTrashRetention(days));
+        // Purge dates depend on the retention window
+        await loadTrash();
+      } catch (error: any) {
+        console.error('Failed to update trash retention:', error);
+        addToast({
+          type: 'error',
+          message: 'Update failed',
+          description: error.response?.data?.message || error.message || 'Failed to update retention',
+        });
+      }
+    },
+    [loadTrash, addToast]
+  );
+
+  return {
+    // State
+    items,
+    retentionDays,
+    isLoading,
+    busyItemId,
+
+    // Actions
+    loadTrash,
+    restoreItem,
+    deleteItem,
+    emptyTrash,
+    updateRetention,
+  };
+};
@@ -9,6 +9,8 @@ import { motion } from 'framer-motion';
 import {
   HomeIcon,
   FolderIcon,
+  UsersIcon,
+  TrashIcon,
   Cog6ToothIcon,
   ArrowRightOnRectangleIcon,
   ShieldCheckIcon,
@@ -27,6 +29,8 @@ export interface DashboardLayoutProps {
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: HomeIcon },
   { name: 'Files', href: '/files', icon: FolderIcon },
+  { name: 'Shared with me', href: '/shared', icon: UsersIcon },
+  { name: 'Trash', href: '/trash', icon: TrashIcon },
   { name: 'Settings', href: '/settings', icon: Cog6ToothIcon },
 ];
 
@@ -0,0 +1,157 @@
+/**
+ * CrypticStorage - File Request Page
+ * Public page for sending files through a file request link
+ * (no authentication required)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  ArrowUpTrayIcon,
+  ExclamationTriangleIcon,
+  LockClosedIcon,
+} from '@heroicons/react/24/outline';
+import { PublicLayout } from '../layouts/PublicLayout';
+import { Card } from '../components/common/Card';
+import { Button } from '../components/common/Button';
+import { Input } from '../components/common/Input';
+import { Spinner } from '../components/common/Spinner';
+import { FileUpload } from '../components/files/FileUpload';
+import { useFileRequest } from '../hooks/useFileRequest';
+
+// Default per-file limit when the request sets none
+const DEFAULT_MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+export const FileRequestPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { request, requiresPassword, isOpening, error, sentCount, open, sendFiles } =
+    useFileRequest(token);
+  const [password, setPassword] = useState('');
+
+  useEffect(() => {
+    open();
+  }, [open]);
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) {
+      open(password);
+    }
+  };
+
+  if (isOpening && !requiresPassword) {
+    return (
+      <PublicLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Spinner size="lg" />
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <PublicLayout>
+        <div className="max-w-2xl mx-auto">
+          <Card>
+            <div className="text-center py-12">
+              <ExclamationTriangleIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+                Link Not Available
+              </h2>
+              <p className="text-gray-600 dark:text-gray-400">{error}</p>
+            </div>
+          </Card>
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  if (requiresPassword) {
+    return (
+      <PublicLayout>
+        <div className="max-w-md mx-auto">
+          <Card>
+            <form onSubmit={handleUnlock} className="space-y-4">
+              <div className="text-center">
+                <LockClosedIcon className="h-16 w-16 text-indigo-600 dark:text-indigo-400 mx-auto mb-4" />
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+                  Password Required
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400">
+                  Enter the password you were given to send files.
+                </p>
+              </div>
+              <Input
+                type="password"
+                placeholder="Link password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isOpening}
+                autoFocus
+              />
+              <Button
+                type="submit"
+                isLoading={isOpening}
+                disabled={!password}
+                className="w-full"
+              >
+                Unlock
+              </Button>
+            </form>
+          </Card>
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  if (!request) {
+    return null;
+  }
+
+  const remainingFiles =
+    request.maxFiles !== null ? request.maxFiles - request.uploadCount - sentCount : null;
+
+  return (
+    <PublicLayout>
+      <div className="max-w-2xl mx-auto">
+        <Card>
+          <div className="text-center mb-6">
+            <ArrowUpTrayIcon className="h-16 w-16 text-indigo-600 dark:text-indigo-400 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+              Send files to {request.ownerUsername}
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {remainingFiles !== null && `${Math.max(0, remainingFiles)} more file(s) accepted. `}
+              {request.expiresAt &&
+                `This link expires on ${new Date(request.expiresAt).toLocaleDateString()}.`}
+            </p>
+          </div>
+
+          {remainingFiles !== null && remainingFiles <= 0 ? (
+            <p className="text-center text-gray-600 dark:text-gray-400">
+              This request has received all the files it accepts.
+            </p>
+          ) : (
+            <FileUpload
+              onUpload={sendFiles}
+              maxFiles={remainingFiles ?? undefined}
+              maxSize={
+                request.maxFileSize ? parseInt(request.maxFileSize, 10) : DEFAULT_MAX_FILE_SIZE
+              }
+            />
+          )}
+
+          <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+            <p className="text-xs text-center text-gray-500 dark:text-gray-500">
+              Files are encrypted in your browser so that only {request.ownerUsername} can open
+              them. You cannot see what others have sent.
+            </p>
+          </div>
+        </Card>
+      </div>
+    </PublicLayout>
+  );
+};
+
+export default FileRequestPage;
@@ -3,11 +3,18 @@
  * File manager with upload, download, and folder navigation
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { DashboardLayout } from '../layouts/DashboardLayout';
 import { FileList } from '../components/files/FileList';
 import { FileUpload } from '../components/files/FileUpload';
+import { ShareDialog } from '../components/files/ShareDialog';
+import type { ShareLink, ShareOptions } from '../components/files/ShareDialog';
+import { FileRequestDialog } from '../components/files/FileRequestDialog';
+import type { FileRequestDialogOptions } from '../components/files/FileRequestDialog';
 import { useFiles } from '../hooks/useFiles';
+import { useSharedFiles } from '../hooks/useSharedFiles';
+import { useFileSearch } from '../hooks/useFileSearch';
+import type { UserSharePermission } from '../services/api.service';
 import { useUIStore } from '../stores/ui.store';
 import { Modal } from '../components/common/Modal';
 import { Button } from '../components/common/Button';
@@ -17,8 +24,22 @@ import {
   ArrowUpTrayIcon,
   HomeIcon,
   ChevronRightIcon,
+  UsersIcon,
+  MagnifyingGlassIcon,
+  XMarkIcon,
+  LinkIcon,
+  InboxArrowDownIcon,
 } from '@heroicons/react/24/outline';
 
+const SEARCH_FILE_TYPES = [
+  { value: '', label: 'All types' },
+  { value: 'image/', label: 'Images' },
+  { value: 'video/', label: 'Videos' },
+  { value: 'audio/', label: 'Audio' },
+  { value: 'text/', label: 'Text' },
+  { value: 'application/pdf', label: 'PDF' },
+];
+
 export const FilesPage: React.FC = () => {
   const {
     files,
@@ -32,9 +53,43 @@ export const FilesPage: React.FC = () => {
     navigateToFolder,
   } = useFiles();
 
+  const {
+    shareWithUser,
+    shareFolderWithUser,
+    createShareLink,
+    loadShareLinks,
+    loadShareAccessLog,
+    unlockShareLink,
+    rotateShareLink,
+    createFileRequest,
+  } = useSharedFiles();
+  const { results, activeFilters, isSearching, isSearchActive, search, clearSearch } =
+    useFileSearch();
+
   const { openModal, closeModal, modal } = useUIStore();
   const [newFolderName, setNewFolderName] = useState('');
   const [showUpload, setShowUpload] = useState(false);
+  const [shareFileId, setShareFileId] = useState<string | null>(null);
+  const [shareFolderId, setShareFolderId] = useState<string | null>(null);
+  const [shareUsername, setShareUsername] = useState('');
+  const [sharePermission, setSharePermission] = useState<UserSharePermission>('read');
+  const [isSharing, setIsSharing] = useState(false);
+  const [linkTarget, setLinkTarget] = useState<{
+    type: 'file' | 'folder';
+    id: string;
+    name: string;
+  } | null>(null);
+  const [existingLinks, setExistingLinks] = useState<ShareLink[]>([]);
+  const [requestFolder, setRequestFolder] = useState<{ id: string; name: string } | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchType, setSearchType] = useState('');
+  const [searchDateFrom, setSearchDateFrom] = useState('');
+  const [searchDateTo, setSearchDateTo] = useState('');
+  const [searchInFolder, setSearchInFolder] = useState(false);
+
+  const shareFile = [...files, ...results].find((f) => f.id === shareFileId);
+  const shareFolder = folders.find((f) => f.id === shareFolderId);
+  const shareTarget = shareFile || shareFolder;
 
   // Get current folder and breadcrumb path
   const currentFolder = folders.find((f) => f.id === currentFolderId);
@@ -80,6 +135,132 @@ export const FilesPage: React.FC = () => {
     navigateToFolder(folderId);
   };
 
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    await search({
+      query: searchQuery,
+      fileType: searchType ? [searchType] : undefined,
+      dateFrom: searchDateFrom || undefined,
+      // Include the whole end day
+      dateTo: searchDateTo ? `${searchDateTo}T23:59:59.999` : undefined,
+      folderId: searchInFolder && currentFolderId ? currentFolderId : undefined,
+    });
+  };
+
+  const handleClearSearch = () => {
+    setSearchQuery('');
+    setSearchType('');
+    setSearchDateFrom('');
+    setSearchDateTo('');
+    clearSearch();
+  };
+
+  const handleCloseShare = () => {
+    setShareFileId(null);
+    setShareFolderId(null);
+    setShareUsername('');
+    setSharePermission('read');
+  };
+
+  const handleShareWithUser = async () => {
+    if (!shareTarget || !shareUsername.trim()) return;
+
+    setIsSharing(true);
+    // Folder shares are read-only; recipients browse and download the contents
+    const shared = shareFolder
+      ? await shareFolderWithUser(
+          { id: shareFolder.id, name: shareFolder.name },
+          shareUsername.trim(),
+          'read'
+        )
+      : await shareWithUser(
+          { id: shareTarget.id, name: shareTarget.name },
+          shareUsername.trim(),
+          sharePermission
+        );
+    setIsSharing(false);
+
+    if (shared) {
+      handleCloseShare();
+    }
+  };
+
+  const handleOpenLinkDialog = () => {
+    if (!shareTarget) return;
+
+    setLinkTarget({
+      type: shareFolder ? 'folder' : 'file',
+      id: shareTarget.id,
+      name: shareTarget.name,
+    });
+    handleCloseShare();
+  };
+
+  // Existing links of the item, for their activity
+  useEffect(() => {
+    setExistingLinks([]);
+    if (!linkTarget) return;
+
+    loadShareLinks(linkTarget).then((links) =>
+      setExistingLinks(
+        links.map((link) => ({
+          id: link.id,
+          createdAt: new Date(link.createdAt),
+          expiresAt: link.expiresAt ? new Date(link.expiresAt) : undefined,
+          maxDownloads: link.maxDownloads ?? undefined,
+          downloadCount: link.downloadCount,
+          password: link.passwordProtected,
+          lockedAt: link.lockedAt ? new Date(link.lockedAt) : undefined,
+        }))
+      )
+    );
+  }, [linkTarget, loadShareLinks]);
+
+  const handleCreateShareLink = async (options: ShareOptions): Promise<ShareLink> => {
+    const { share, url } = await createShareLink(linkTarget!, options);
+
+    return {
+      id: share.id,
+      url,
+      createdAt: new Date(share.createdAt),
+      expiresAt: share.expiresAt ? new Date(share.expiresAt) : undefined,
+      maxDownloads: share.maxDownloads ?? undefined,
+      downloadCount: share.downloadCount,
+      password: share.passwordProtected,
+    };
+  };
+
+  const handleUnlockShareLink = async (shareId: string): Promise<void> => {
+    if (await unlockShareLink(shareId)) {
+      setExistingLinks((links) =>
+        links.map((link) => (link.id === shareId ? { ...link, lockedAt: undefined } : link))
+      );
+    }
+  };
+
+  const handleRotateShareLink = async (shareId: string, password?: string): Promise<ShareLink> => {
+    const { share, url } = await rotateShareLink(shareId, linkTarget!, password);
+
+    const rotated: ShareLink = {
+      id: share.id,
+      url,
+      createdAt: new Date(share.createdAt),
+      expiresAt: share.expiresAt ? new Date(share.expiresAt) : undefined,
+      maxDownloads: share.maxDownloads ?? undefined,
+      downloadCount: share.downloadCount,
+      password: share.passwordProtected,
+    };
+    setExistingLinks((links) => links.map((link) => (link.id === shareId ? rotated : link)));
+
+    return rotated;
+  };
+
+  const handleCreateFileRequest = async (options: FileRequestDialogOptions): Promise<string> => {
+    const { url } = await createFileRequest(requestFolder!, options);
+    return url;
+  };
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -92,6 +273,24 @@ export const FilesPage: React.FC = () => {
             </p>
           </div>
           <div className="flex gap-2">
+            {currentFolder && (
+              <Button
+                onClick={() => setShareFolderId(currentFolder.id)}
+                variant="secondary"
+                leftIcon={<UsersIcon className="h-5 w-5" />}
+              >
+                Share Folder
+              </Button>
+            )}
+            {currentFolder && (
+              <Button
+                onClick={() => setRequestFolder({ id: currentFolder.id, name: currentFolder.name })}
+                variant="secondary"
+                leftIcon={<InboxArrowDownIcon className="h-5 w-5" />}
+              >
+                Request Files
+              </Button>
+            )}
             <Button
               onClick={() => openModal('createFolder')}
               variant="secondary"
@@ -130,6 +329,77 @@ export const FilesPage: React.FC = () => {
           ))}
         </nav>
 
+        {/* Search Bar */}
+        <form
+          onSubmit={handleSearch}
+          className="flex flex-col lg:flex-row gap-3 lg:items-end"
+        >
+          <div className="flex-1">
+            <Input
+              type="search"
+              placeholder="Search all files by name..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              leftIcon={<MagnifyingGlassIcon className="h-5 w-5" />}
+              aria-label="Search files"
+            />
+          </div>
+          <select
+            value={searchType}
+            onChange={(e) => setSearchType(e.target.value)}
+            aria-label="File type"
+            className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 px-3 py-2"
+          >
+            {SEARCH_FILE_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+          <Input
+            type="date"
+            value={searchDateFrom}
+            onChange={(e) => setSearchDateFrom(e.target.value)}
+            aria-label="Uploaded from"
+          />
+          <Input
+            type="date"
+            value={searchDateTo}
+            onChange={(e) => setSearchDateTo(e.target.value)}
+            aria-label="Uploaded to"
+          />
+          {currentFolderId && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={searchInFolder}
+                onChange={(e) => setSearchInFolder(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600"
+              />
+              This folder only
+            </label>
+          )}
+          <Button type="submit" isLoading={isSearching} disabled={!searchQuery.trim()}>
+            Search
+          </Button>
+        </form>
+
+        {isSearchActive && (
+          <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+            <span>
+              {results.length} result(s) for &ldquo;{activeFilters?.query}&rdquo;
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleClearSearch}
+              leftIcon={<XMarkIcon className="h-4 w-4" />}
+            >
+              Clear search
+            </Button>
+          </div>
+        )}
+
         {/* Actions Bar */}
         {selectedFileIds.size > 0 && (
           <div className="bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-lg p-4 flex items-center justify-between">
@@ -146,10 +416,90 @@ export const FilesPage: React.FC = () => {
 
         {/* File List */}
         <FileList
-          files={files}
-          folders={folders}
+          files={isSearchActive ? results : files}
+          folders={isSearchActive ? [] : folders}
           onFolderClick={handleFolderClick}
-          isLoading={isLoading}
+          onFileShare={setShareFileId}
+          isLoading={isLoading || isSearching}
+          emptyMessage={isSearchActive ? 'No files match your search' : undefined}
+        />
+
+        {/* Share With User Modal */}
+        <Modal
+          isOpen={shareTarget !== undefined}
+          onClose={handleCloseShare}
+          title={`Share: ${shareTarget?.name || ''}`}
+          description={
+            shareFolder
+              ? 'Share this folder, including files added later, with another CrypticStorage user'
+              : 'Share this file with another CrypticStorage user'
+          }
+        >
+          <div className="space-y-4">
+            <Input
+              label="Username"
+              placeholder="Enter the recipient's username"
+              value={shareUsername}
+              onChange={(e) => setShareUsername(e.target.value)}
+              autoFocus
+            />
+            {!shareFolder && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Permission
+                </label>
+                <select
+                  value={sharePermission}
+                  onChange={(e) => setSharePermission(e.target.value as UserSharePermission)}
+                  className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 px-3 py-2"
+                >
+                  <option value="read">Can view and download</option>
+                  <option value="write">Can upload new versions</option>
+                </select>
+              </div>
+            )}
+            <div className="flex justify-between gap-2">
+              <Button
+                variant="ghost"
+                onClick={handleOpenLinkDialog}
+                leftIcon={<LinkIcon className="h-5 w-5" />}
+              >
+                Create link instead
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="secondary" onClick={handleCloseShare}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleShareWithUser}
+                  isLoading={isSharing}
+                  disabled={!shareUsername.trim()}
+                >
+                  Share
+                </Button>
+              </div>
+            </div>
+          </div>
+        </Modal>
+
+        {/* Share Link Dialog */}
+        <ShareDialog
+          isOpen={linkTarget !== null}
+          onClose={() => setLinkTarget(null)}
+          file={linkTarget}
+          onCreateShare={handleCreateShareLink}
+          existingShares={existingLinks}
+          onLoadAccessLog={loadShareAccessLog}
+          onUnlockShare={handleUnlockShareLink}
+          onRotateShare={handleRotateShareLink}
+        />
+
+        {/* File Request Dialog */}
+        <FileRequestDialog
+          isOpen={requestFolder !== null}
+          onClose={() => setRequestFolder(null)}
+          folder={requestFolder}
+          onCreateRequest={handleCreateFileRequest}
         />
 
         {/* Upload Modal */}
@@ -8,12 +8,17 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { AuthLayout } from '../layouts/AuthLayout';
 import { LoginForm, LoginData } from '../components/auth/LoginForm';
 import { useAuth } from '../hooks/useAuth';
+import type { TwoFactorMethod } from '../services/api.service';
+import type { LoginError } from '../services/auth.service';
 
 export const LoginPage: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const { loginUser, isLoading } = useAuth();
   const [error, setError] = useState<string | undefined>();
+  const [requiresTwoFactor, setRequiresTwoFactor] = useState(false);
+  const [twoFactorMethods, setTwoFactorMethods] = useState<TwoFactorMethod[]>([]);
+  const [throttle, setThrottle] = useState<{ retryAt: number; isLocked: boolean } | undefined>();
 
   // Get the redirect URL from location state, default to dashboard
   const from = (location.state as any)?.from?.pathname || '/dashboard';
@@ -21,18 +26,32 @@ export const LoginPage: React.FC = () => {
   const handleLogin = async (data: LoginData) => {
     try {
       setError(undefined);
+      setThrottle(undefined);
       const result = await loginUser({
         email: data.email,
         password: data.password,
         rememberMe: false,
+        twoFactorCode: data.twoFactorCode,
+        backupCode: data.backupCode,
+        useSecurityKey: data.useSecurityKey,
       });
 
+      setRequiresTwoFactor(result.requiresTwoFactor);
+      setTwoFactorMethods(result.twoFactorMethods || []);
       if (!result.requiresTwoFactor) {
         // Redirect to the page they were trying to access or dashboard
         navigate(from, { replace: true });
       }
     } catch (err: any) {
       setError(err.message || 'Login failed. Please try again.');
+
+      const { throttle: wait } = err as LoginError;
+      if (wait) {
+        setThrottle({
+          retryAt: Date.now() + wait.retryAfter * 1000,
+          isLocked: wait.reason === 'ACCOUNT_LOCKED',
+        });
+      }
     }
   };
 
@@ -41,8 +60,7 @@ export const LoginPage: React.FC = () => {
   };
 
   const handleForgotPassword = () => {
-    // TODO: Implement forgot password flow
-    alert('Password reset functionality coming soon!');
+    navigate('/recover');
   };
 
   return (
@@ -53,6 +71,10 @@ export const LoginPage: React.FC = () => {
         onForgotPassword={handleForgotPassword}
         isLoading={isLoading}
         error={error}
+        requiresTwoFactor={requiresTwoFactor}
+        canUseSecurityKey={twoFactorMethods.includes('webauthn')}
+        retryAt={throttle?.retryAt}
+        isLocked={throttle?.isLocked}
       />
     </AuthLayout>
   );
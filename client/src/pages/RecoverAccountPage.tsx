@@ -0,0 +1,186 @@
+/**
+ * CrypticStorage - Recover Account Page
+ * Password reset with the recovery key shown at registration
+ */
+
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { EnvelopeIcon, KeyIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+import { motion } from 'framer-motion';
+import { AuthLayout } from '../layouts/AuthLayout';
+import { Button } from '../components/common/Button';
+import { Input } from '../components/common/Input';
+import { useAuth } from '../hooks/useAuth';
+
+export const RecoverAccountPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { requestRecovery, recoverAccount, isLoading } = useAuth();
+
+  const [email, setEmail] = useState('');
+  const [linkSent, setLinkSent] = useState(false);
+  const [recoveryKey, setRecoveryKey] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setError('Invalid email format');
+      return;
+    }
+
+    try {
+      setError(undefined);
+      setIsSubmitting(true);
+      await requestRecovery(email);
+      setLinkSent(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to send the recovery link');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!recoveryKey.trim()) {
+      setError('Recovery key is required');
+      return;
+    }
+    if (newPassword.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    try {
+      setError(undefined);
+      await recoverAccount({ token: token!, recoveryKey, newPassword });
+      navigate('/login', { replace: true });
+    } catch (err: any) {
+      setError(err.message || 'Account recovery failed');
+    }
+  };
+
+  const renderError = () =>
+    error && (
+      <motion.div
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3"
+      >
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      </motion.div>
+    );
+
+  return (
+    <AuthLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+        className="w-full max-w-md mx-auto"
+      >
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Recover Account</h2>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            {token
+              ? 'Enter your recovery key and choose a new password'
+              : 'We will email you a link to reset your password'}
+          </p>
+        </div>
+
+        {token ? (
+          <form onSubmit={handleReset} className="space-y-4">
+            {renderError()}
+
+            <Input
+              type="text"
+              label="Recovery Key"
+              placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+              value={recoveryKey}
+              onChange={(e) => setRecoveryKey(e.target.value)}
+              leftIcon={<KeyIcon className="h-5 w-5" />}
+              disabled={isLoading}
+              autoComplete="off"
+              className="font-mono"
+            />
+
+            <Input
+              type="password"
+              label="New Password"
+              placeholder="Choose a new password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              leftIcon={<LockClosedIcon className="h-5 w-5" />}
+              disabled={isLoading}
+              autoComplete="new-password"
+            />
+
+            <Input
+              type="password"
+              label="Confirm Password"
+              placeholder="Repeat the new password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              leftIcon={<LockClosedIcon className="h-5 w-5" />}
+              disabled={isLoading}
+              autoComplete="new-password"
+            />
+
+            <Button type="submit" isLoading={isLoading} className="w-full">
+              Reset Password
+            </Button>
+          </form>
+        ) : linkSent ? (
+          <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4 text-center">
+            <p className="text-sm text-green-800 dark:text-green-300">
+              If an account with a recovery key exists for {email}, a recovery link is on its way.
+              Check your inbox.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleRequest} className="space-y-4">
+            {renderError()}
+
+            <Input
+              type="email"
+              label="Email"
+              placeholder="Enter your email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              leftIcon={<EnvelopeIcon className="h-5 w-5" />}
+              disabled={isSubmitting}
+              autoComplete="email"
+            />
+
+            <Button type="submit" isLoading={isSubmitting} className="w-full">
+              Send Recovery Link
+            </Button>
+          </form>
+        )}
+
+        <div className="text-center mt-6">
+          <button
+            type="button"
+            onClick={() => navigate('/login')}
+            className="text-sm text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium"
+          >
+            Back to sign in
+          </button>
+        </div>
+      </motion.div>
+    </AuthLayout>
+  );
+};
+
+export default RecoverAccountPage;
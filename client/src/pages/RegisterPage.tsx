@@ -7,6 +7,7 @@ import React, { useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { AuthLayout } from '../layouts/AuthLayout';
 import { RegisterForm, RegisterData } from '../components/auth/RegisterForm';
+import { RecoveryKeyDisplay } from '../components/auth/RecoveryKeyDisplay';
 import { useAuth } from '../hooks/useAuth';
 
 export const RegisterPage: React.FC = () => {
@@ -14,6 +15,7 @@ export const RegisterPage: React.FC = () => {
   const location = useLocation();
   const { register, isLoading } = useAuth();
   const [error, setError] = useState<string | undefined>();
+  const [recovery, setRecovery] = useState<{ key: string; email: string } | null>(null);
 
   // Get the redirect URL from location state, default to dashboard
   const from = (location.state as any)?.from?.pathname || '/dashboard';
@@ -21,30 +23,43 @@ export const RegisterPage: React.FC = () => {
   const handleRegister = async (data: RegisterData) => {
     try {
       setError(undefined);
-      await register({
+      const recoveryKey = await register({
         email: data.email,
         password: data.password,
       });
 
-      // Redirect to the page they were trying to access or dashboard
-      navigate(from, { replace: true });
+      // Show the recovery key once before leaving the page
+      setRecovery({ key: recoveryKey, email: data.email });
     } catch (err: any) {
       setError(err.message || 'Registration failed. Please try again.');
     }
   };
 
+  const handleContinue = () => {
+    // Redirect to the page they were trying to access or dashboard
+    navigate(from, { replace: true });
+  };
+
   const handleLogin = () => {
     navigate('/login', { state: { from } });
   };
 
   return (
     <AuthLayout>
-      <RegisterForm
-        onSubmit={handleRegister}
-        onLogin={handleLogin}
-        isLoading={isLoading}
-        error={error}
-      />
+      {recovery ? (
+        <RecoveryKeyDisplay
+          recoveryKey={recovery.key}
+          email={recovery.email}
+          onContinue={handleContinue}
+        />
+      ) : (
+        <RegisterForm
+          onSubmit={handleRegister}
+          onLogin={handleLogin}
+          isLoading={isLoading}
+          error={error}
+        />
+      )}
     </AuthLayout>
   );
 };
@@ -3,34 +3,80 @@
  * User settings including profile, security, and 2FA
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { DashboardLayout } from '../layouts/DashboardLayout';
 import { TwoFactorSetup } from '../components/auth/TwoFactorSetup';
+import { BackupCodes } from '../components/auth/BackupCodes';
+import { SecurityKeys } from '../components/auth/SecurityKeys';
+import { ActiveSessions } from '../components/auth/ActiveSessions';
+import { DeleteAccount } from '../components/auth/DeleteAccount';
 import { Card } from '../components/common/Card';
 import { Button } from '../components/common/Button';
 import { Input } from '../components/common/Input';
 import { useAuth } from '../hooks/useAuth';
 import { useEncryption } from '../hooks/useEncryption';
+import { useSecurityKeys } from '../hooks/useSecurityKeys';
+import { useSessions } from '../hooks/useSessions';
 import { useToast } from '../hooks/useToast';
+import WebAuthnService from '../services/webauthn.service';
 import {
   UserCircleIcon,
   ShieldCheckIcon,
   KeyIcon,
   TrashIcon,
+  EnvelopeIcon,
+  ArrowUturnLeftIcon,
 } from '@heroicons/react/24/outline';
 
 type SettingsTab = 'profile' | 'security' | '2fa' | 'storage';
 
 export const SettingsPage: React.FC = () => {
-  const { user, changePassword } = useAuth();
+  const {
+    user,
+    changePassword,
+    rollbackPasswordChange,
+    getBackupCodeStatus,
+    regenerateBackupCodes,
+    refreshProfile,
+    resendVerification,
+    deleteAccount,
+    cancelAccountDeletion,
+  } = useAuth();
   const { generatePassword, generateFingerprint } = useEncryption();
+  const {
+    securityKeys,
+    isLoading: isLoadingSecurityKeys,
+    loadSecurityKeys,
+    addSecurityKey,
+    renameSecurityKey,
+    removeSecurityKey,
+  } = useSecurityKeys();
+  const {
+    sessions,
+    isLoading: isLoadingSessions,
+    loadSessions,
+    revokeSession,
+    revokeOtherSessions,
+  } = useSessions();
   const { success, error } = useToast();
 
   const [activeTab, setActiveTab] = useState<SettingsTab>('profile');
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [rollbackUntil, setRollbackUntil] = useState<string | null>(null);
+  const [previousPassword, setPreviousPassword] = useState('');
+  const [rollbackCurrentPassword, setRollbackCurrentPassword] = useState('');
+  const [isRollingBack, setIsRollingBack] = useState(false);
   const [keyFingerprint, setKeyFingerprint] = useState<string | null>(null);
+  const [emailVerified, setEmailVerified] = useState<boolean | undefined>(user?.emailVerified);
+  const [isResendingVerification, setIsResendingVerification] = useState(false);
+  const [deletionScheduledAt, setDeletionScheduledAt] = useState<string | null>(null);
+  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
+  const [backupCodeStatus, setBackupCodeStatus] = useState<{
+    enabled: boolean;
+    remaining: number;
+  } | null>(null);
 
   const tabs = [
     { id: 'profile', name: 'Profile', icon: UserCircleIcon },
@@ -39,6 +85,71 @@ export const SettingsPage: React.FC = () => {
     { id: 'storage', name: 'Storage', icon: TrashIcon },
   ];
 
+  useEffect(() => {
+    if (activeTab === 'profile') {
+      refreshProfile()
+        .then((profile) => setEmailVerified(profile.emailVerified))
+        .catch(() => undefined);
+    }
+    if (activeTab === 'security') {
+      loadSessions();
+    }
+    if (activeTab === '2fa') {
+      getBackupCodeStatus().then(setBackupCodeStatus);
+      loadSecurityKeys();
+    }
+    if (activeTab === 'storage') {
+      refreshProfile()
+        .then((profile) => {
+          setDeletionScheduledAt(profile.deletionScheduledAt ?? null);
+          setTwoFactorEnabled(profile.twoFactorEnabled);
+        })
+        .catch(() => undefined);
+    }
+  }, [activeTab]);
+
+  const handleAddSecurityKey = async (name: string) => {
+    const codes = await addSecurityKey(name);
+    getBackupCodeStatus().then(setBackupCodeStatus);
+    return codes;
+  };
+
+  const handleRemoveSecurityKey = async (id: string, password: string) => {
+    await removeSecurityKey(id, password);
+    getBackupCodeStatus().then(setBackupCodeStatus);
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      setIsResendingVerification(true);
+      await resendVerification();
+    } catch (err) {
+      // Error is handled by useAuth hook
+    } finally {
+      setIsResendingVerification(false);
+    }
+  };
+
+  const handleDeleteAccount = async (
+    password: string,
+    secondFactor: { totpCode?: string; backupCode?: string }
+  ) => {
+    const scheduledAt = await deleteAccount(password, secondFactor);
+    setDeletionScheduledAt(scheduledAt);
+    return scheduledAt;
+  };
+
+  const handleCancelAccountDeletion = async () => {
+    await cancelAccountDeletion();
+    setDeletionScheduledAt(null);
+  };
+
+  const handleRegenerateBackupCodes = async (password: string) => {
+    const codes = await regenerateBackupCodes(password);
+    setBackupCodeStatus({ enabled: true, remaining: codes.length });
+    return codes;
+  };
+
   const handleChangePassword = async () => {
     if (newPassword !== confirmPassword) {
       error('Passwords do not match');
@@ -46,15 +157,34 @@ export const SettingsPage: React.FC = () => {
     }
 
     try {
-      await changePassword(currentPassword, newPassword);
+      const result = await changePassword(currentPassword, newPassword);
+      setRollbackUntil(result.rollbackUntil);
       setCurrentPassword('');
       setNewPassword('');
       setConfirmPassword('');
+      // Other devices are signed out by the server
+      loadSessions();
+    } catch (err) {
+      // Error is handled by useAuth hook
+    }
+  };
+
+  const handleRollbackPasswordChange = async () => {
+    try {
+      setIsRollingBack(true);
+      await rollbackPasswordChange(previousPassword, rollbackCurrentPassword);
+      setRollbackUntil(null);
+      setPreviousPassword('');
+      setRollbackCurrentPassword('');
     } catch (err) {
       // Error is handled by useAuth hook
+    } finally {
+      setIsRollingBack(false);
     }
   };
 
+  const canRollbackPassword = !!rollbackUntil && new Date(rollbackUntil) > new Date();
+
   const handleGeneratePassword = () => {
     const generated = generatePassword(16);
     setNewPassword(generated);
@@ -113,6 +243,25 @@ export const SettingsPage: React.FC = () => {
                 Profile Information
               </h2>
               <div className="space-y-4">
+                {emailVerified === false && (
+                  <div className="flex items-start justify-between gap-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4">
+                    <div className="flex gap-3">
+                      <EnvelopeIcon className="h-5 w-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+                      <p className="text-sm text-amber-800 dark:text-amber-300">
+                        Your email address is not verified. Follow the link we sent to confirm it;
+                        uploads and sharing may be unavailable until you do.
+                      </p>
+                    </div>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={handleResendVerification}
+                      isLoading={isResendingVerification}
+                    >
+                      Resend
+                    </Button>
+                  </div>
+                )}
                 <Input
                   label="Email"
                   type="email"
@@ -170,9 +319,57 @@ export const SettingsPage: React.FC = () => {
                       Generate Strong Password
                     </Button>
                   </div>
+                  {canRollbackPassword && (
+                    <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4 space-y-3">
+                      <div className="flex gap-3">
+                        <ArrowUturnLeftIcon className="h-5 w-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+                        <p className="text-sm text-amber-800 dark:text-amber-300">
+                          Changed your password by mistake? You can restore the previous one until{' '}
+                          {new Date(rollbackUntil!).toLocaleString()}.
+                        </p>
+                      </div>
+                      <div className="flex items-end gap-2">
+                        <div className="flex-1">
+                          <Input
+                            label="Previous Password"
+                            type="password"
+                            value={previousPassword}
+                            onChange={(e) => setPreviousPassword(e.target.value)}
+                            placeholder="Enter previous password"
+                          />
+                        </div>
+                        <div className="flex-1">
+                          <Input
+                            label="Current Password"
+                            type="password"
+                            value={rollbackCurrentPassword}
+                            onChange={(e) => setRollbackCurrentPassword(e.target.value)}
+                            placeholder="Enter current password"
+                          />
+                        </div>
+                        <Button
+                          variant="secondary"
+                          onClick={handleRollbackPasswordChange}
+                          isLoading={isRollingBack}
+                          disabled={!previousPassword || !rollbackCurrentPassword}
+                        >
+                          Undo Change
+                        </Button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </Card>
 
+              <Card>
+                <ActiveSessions
+                  sessions={sessions}
+                  isLoading={isLoadingSessions}
+                  onRevoke={revokeSession}
+                  onRevokeOthers={revokeOtherSessions}
+                />
+              </Card>
+
               <Card>
                 <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
                   Master Key Fingerprint
@@ -194,15 +391,37 @@ export const SettingsPage: React.FC = () => {
 
           {/* 2FA Tab */}
           {activeTab === '2fa' && (
-            <Card>
-              <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-                Two-Factor Authentication
-              </h2>
-              <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
-                Add an extra layer of security to your account with two-factor authentication
-              </p>
-              <TwoFactorSetup />
-            </Card>
+            <div className="space-y-6">
+              <Card>
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                  Two-Factor Authentication
+                </h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                  Add an extra layer of security to your account with two-factor authentication
+                </p>
+                <TwoFactorSetup />
+              </Card>
+
+              <Card>
+                <SecurityKeys
+                  securityKeys={securityKeys}
+                  isLoading={isLoadingSecurityKeys}
+                  isSupported={WebAuthnService.isSupported()}
+                  onAdd={handleAddSecurityKey}
+                  onRename={renameSecurityKey}
+                  onRemove={handleRemoveSecurityKey}
+                />
+              </Card>
+
+              {backupCodeStatus?.enabled && (
+                <Card>
+                  <BackupCodes
+                    remaining={backupCodeStatus.remaining}
+                    onRegenerate={handleRegenerateBackupCodes}
+                  />
+                </Card>
+              )}
+            </div>
           )}
 
           {/* Storage Tab */}
@@ -230,11 +449,12 @@ export const SettingsPage: React.FC = () => {
                   <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
                     Danger Zone
                   </h3>
-                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                    Once you delete your account, there is no going back. All your files will be
-                    permanently deleted.
-                  </p>
-                  <Button variant="danger">Delete Account</Button>
+                  <DeleteAccount
+                    deletionScheduledAt={deletionScheduledAt}
+                    twoFactorEnabled={twoFactorEnabled}
+                    onDelete={handleDeleteAccount}
+                    onCancel={handleCancelAccountDeletion}
+                  />
                 </div>
               </div>
             </Card>
@@ -1,90 +1,836 @@
 /**
  * CrypticStorage - Shared Page
- * Public page for accessing shared files (no authentication required)
+ * Public page for opening share links (no authentication required),
+ * the "Shared with me" list of files and folders shared directly with the user,
+ * and the table for managing the user's own links
  */
 
-import React, { useEffect, useState } from 'react';
-import { useParams } from 'react-router-dom';
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation, useParams, useSearchParams } from 'react-router-dom';
 import { PublicLayout } from '../layouts/PublicLayout';
+import { DashboardLayout } from '../layouts/DashboardLayout';
 import { Card } from '../components/common/Card';
 import { Button } from '../components/common/Button';
+import { Input } from '../components/common/Input';
 import { Spinner } from '../components/common/Spinner';
-import { ArrowDownTrayIcon, DocumentIcon } from '@heroicons/react/24/outline';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  ArrowUpTrayIcon,
+  ChevronRightIcon,
+  ClockIcon,
+  DocumentIcon,
+  FolderIcon,
+  FolderOpenIcon,
+  LinkIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+  NoSymbolIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  UsersIcon,
+} from '@heroicons/react/24/outline';
+import { useSharedFiles } from '../hooks/useSharedFiles';
+import { useSharedFolder } from '../hooks/useSharedFolder';
+import { useShareLink } from '../hooks/useShareLink';
+import { useShareLinks } from '../hooks/useShareLinks';
+import type {
+  SharedFileItem,
+  SharedFolderEntry,
+  ShareLinkListItem,
+} from '../services/file.service';
+import type { ShareLinkStatus, UpdateShareLinkRequest } from '../services/api.service';
 
-interface SharedFile {
-  id: string;
-  name: string;
-  size: number;
-  mimeType: string;
-  sharedBy: string;
-  expiresAt?: string;
-}
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+};
 
-export const SharedPage: React.FC = () => {
-  const { shareId } = useParams<{ shareId: string }>();
-  const [file, setFile] = useState<SharedFile | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [downloading, setDownloading] = useState(false);
+/**
+ * Contents of a shared folder, with names already decrypted
+ */
+const SharedFolderEntries: React.FC<{
+  entries: SharedFolderEntry[];
+  isLoading: boolean;
+  busyEntryId: string | null;
+  onOpenFolder: (entry: SharedFolderEntry) => void;
+  onDownload: (entry: SharedFolderEntry) => void;
+}> = ({ entries, isLoading, busyEntryId, onOpenFolder, onDownload }) => (
+  <>
+    {isLoading ? (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size="lg" />
+      </div>
+    ) : entries.length === 0 ? (
+      <Card>
+        <div className="text-center py-12">
+          <FolderOpenIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">This folder is empty</p>
+        </div>
+      </Card>
+    ) : (
+      <Card>
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between py-3">
+              {entry.type === 'folder' ? (
+                <button
+                  onClick={() => onOpenFolder(entry)}
+                  className="flex items-center gap-3 min-w-0 text-left"
+                >
+                  <FolderIcon className="h-8 w-8 flex-shrink-0 text-indigo-600 dark:text-indigo-400" />
+                  <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {entry.name}
+                  </span>
+                </button>
+              ) : (
+                <>
+                  <div className="flex items-center gap-3 min-w-0">
+                    <DocumentIcon className="h-8 w-8 flex-shrink-0 text-indigo-600 dark:text-indigo-400" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                        {entry.name}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatFileSize(entry.size)} • Updated{' '}
+                        {new Date(entry.updatedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {busyEntryId === entry.id && <Spinner size="sm" />}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDownload(entry)}
+                      disabled={busyEntryId !== null}
+                      leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+                    >
+                      Download
+                    </Button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </Card>
+    )}
+  </>
+);
+
+/**
+ * Browser for a folder shared with the current user.
+ * Names and keys of everything inside are decrypted with the folder key.
+ */
+const SharedFolderBrowser: React.FC<{ item: SharedFileItem; onClose: () => void }> = ({
+  item,
+  onClose,
+}) => {
+  const {
+    path,
+    entries,
+    isLoading,
+    busyEntryId,
+    openRoot,
+    openFolder,
+    navigateTo,
+    downloadFile,
+  } = useSharedFolder(item);
 
   useEffect(() => {
-    loadSharedFile();
-  }, [shareId]);
-
-  const loadSharedFile = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      // TODO: Implement actual API call to get shared file metadata
-      // For now, using mock data
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      // Mock data
-      setFile({
-        id: shareId || '',
-        name: 'Example Document.pdf',
-        size: 1024 * 1024 * 2.5, // 2.5 MB
-        mimeType: 'application/pdf',
-        sharedBy: 'user@example.com',
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-      });
-    } catch (err: any) {
-      console.error('Failed to load shared file:', err);
-      setError(err.message || 'Failed to load shared file');
-    } finally {
-      setIsLoading(false);
+    openRoot();
+  }, [openRoot]);
+
+  return (
+    <div className="space-y-4">
+      {/* Breadcrumbs */}
+      <nav className="flex items-center space-x-2 text-sm">
+        <button
+          onClick={onClose}
+          className="text-gray-600 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+        >
+          Shared with me
+        </button>
+        {path.map((crumb, index) => (
+          <React.Fragment key={crumb.id || 'root'}>
+            <ChevronRightIcon className="h-4 w-4 text-gray-400" />
+            <button
+              onClick={() => navigateTo(index)}
+              className={`hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors ${
+                index === path.length - 1
+                  ? 'text-gray-900 dark:text-white font-medium'
+                  : 'text-gray-600 dark:text-gray-400'
+              }`}
+            >
+              {crumb.name}
+            </button>
+          </React.Fragment>
+        ))}
+      </nav>
+
+      <SharedFolderEntries
+        entries={entries}
+        isLoading={isLoading}
+        busyEntryId={busyEntryId}
+        onOpenFolder={openFolder}
+        onDownload={downloadFile}
+      />
+    </div>
+  );
+};
+
+const LINK_STATUS_FILTERS: Array<{ id: ShareLinkStatus | undefined; name: string }> = [
+  { id: undefined, name: 'All' },
+  { id: 'active', name: 'Active' },
+  { id: 'expired', name: 'Expired' },
+  { id: 'locked', name: 'Locked' },
+  { id: 'revoked', name: 'Revoked' },
+];
+
+const LINK_STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  active: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  expired: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  locked: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  revoked: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+};
+
+const EXTEND_DAY_OPTIONS = [1, 7, 30, 90];
+
+/**
+ * Inline editor for the expiry, download limit and (file requests) password of a link
+ */
+const ShareLinkEditor: React.FC<{
+  link: ShareLinkListItem;
+  isSaving: boolean;
+  onSave: (changes: UpdateShareLinkRequest) => void;
+  onCancel: () => void;
+}> = ({ link, isSaving, onSave, onCancel }) => {
+  // YYYY-MM-DD in local time, as date inputs use
+  const initialExpiresOn = link.expiresAt
+    ? new Date(link.expiresAt).toLocaleDateString('en-CA')
+    : '';
+  const [expiresOn, setExpiresOn] = useState(initialExpiresOn);
+  const [maxDownloads, setMaxDownloads] = useState(
+    link.maxDownloads !== null ? String(link.maxDownloads) : ''
+  );
+  const [password, setPassword] = useState('');
+  const [removePassword, setRemovePassword] = useState(false);
+
+  const handleSave = () => {
+    const changes: UpdateShareLinkRequest = {};
+
+    // Links expire at the end of the chosen day
+    if (expiresOn !== initialExpiresOn) {
+      changes.expiresAt = expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null;
     }
+
+    if (link.type === 'download') {
+      const limit = maxDownloads ? parseInt(maxDownloads, 10) : null;
+      if (limit !== link.maxDownloads) {
+        changes.maxDownloads = limit;
+      }
+    } else if (removePassword) {
+      changes.password = null;
+    } else if (password) {
+      changes.password = password;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      onCancel();
+      return;
+    }
+
+    onSave(changes);
   };
 
-  const handleDownload = async () => {
-    if (!file) return;
+  return (
+    <div className="grid gap-3 sm:grid-cols-3 items-end">
+      <div>
+        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Expires on
+        </label>
+        <Input type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+      </div>
+      {link.type === 'download' ? (
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Download limit
+          </label>
+          <Input
+            type="number"
+            min="1"
+            max="1000"
+            placeholder="Unlimited"
+            value={maxDownloads}
+            onChange={(e) => setMaxDownloads(e.target.value)}
+          />
+        </div>
+      ) : (
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+            New password
+          </label>
+          <Input
+            type="password"
+            placeholder={link.passwordProtected ? 'Keep current password' : 'No password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={removePassword}
+          />
+          {link.passwordProtected && (
+            <label className="mt-1 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={removePassword}
+                onChange={(e) => setRemovePassword(e.target.checked)}
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              />
+              Remove password
+            </label>
+          )}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} isLoading={isSaving}>
+          Save
+        </Button>
+      </div>
+      {link.type === 'download' && (
+        <p className="sm:col-span-3 text-xs text-gray-500 dark:text-gray-400">
+          The password of a download link protects its key, so it is changed by rotating the
+          link from the Share dialog in Files.
+        </p>
+      )}
+    </div>
+  );
+};
 
-    try {
-      setDownloading(true);
+/**
+ * The user's own share links and file requests, filtered by status, with
+ * editing and bulk revoke or extend
+ */
+const ManageLinks: React.FC = () => {
+  const {
+    links,
+    statusFilter,
+    isLoading,
+    isUpdating,
+    setStatusFilter,
+    loadLinks,
+    updateLink,
+    revokeLink,
+    unlockLink,
+    revokeItemLinks,
+    revokeExpired,
+    extendLinks,
+  } = useShareLinks();
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [extendDays, setExtendDays] = useState(7);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedIds([]);
+    setEditingId(null);
+    loadLinks();
+  }, [loadLinks]);
 
-      // TODO: Implement actual download with decryption
-      // For now, just simulate download
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+  // Only links that expire can be extended
+  const extendableIds = links.filter((link) => link.expiresAt).map((link) => link.id);
+  const allSelected =
+    extendableIds.length > 0 && extendableIds.every((id) => selectedIds.includes(id));
 
-      alert('File download would start here');
-    } catch (err: any) {
-      console.error('Download failed:', err);
-      alert('Download failed: ' + err.message);
-    } finally {
-      setDownloading(false);
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]
+    );
+  };
+
+  const handleExtend = async () => {
+    if (await extendLinks(selectedIds, extendDays)) {
+      setSelectedIds([]);
     }
   };
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+  const handleRevokeItemLinks = async (link: ShareLinkListItem) => {
+    const confirmed = window.confirm(
+      `Revoke every link to ${link.target.name}? Everyone you sent them to loses access.`
+    );
+
+    if (confirmed) {
+      await revokeItemLinks(link);
+    }
   };
 
-  if (isLoading) {
+  const handleSave = async (link: ShareLinkListItem, changes: UpdateShareLinkRequest) => {
+    if (await updateLink(link, changes)) {
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filters and Bulk Actions */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          {LINK_STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter.name}
+              onClick={() => setStatusFilter(filter.id)}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                statusFilter === filter.id
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+              }`}
+            >
+              {filter.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={extendDays}
+            onChange={(e) => setExtendDays(parseInt(e.target.value, 10))}
+            className="rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100"
+          >
+            {EXTEND_DAY_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days} day{days === 1 ? '' : 's'}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleExtend}
+            disabled={selectedIds.length === 0 || isUpdating}
+            leftIcon={<ClockIcon className="h-4 w-4" />}
+          >
+            Extend selected
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={revokeExpired}
+            disabled={isUpdating}
+            leftIcon={<NoSymbolIcon className="h-4 w-4" />}
+          >
+            Revoke expired
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Spinner size="lg" />
+        </div>
+      ) : links.length === 0 ? (
+        <Card>
+          <div className="text-center py-12">
+            <LinkIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">
+              {statusFilter ? `No ${statusFilter} links` : 'You have not created any links yet'}
+            </p>
+          </div>
+        </Card>
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() => setSelectedIds(allSelected ? [] : extendableIds)}
+                      disabled={extendableIds.length === 0}
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                  </th>
+                  <th className="py-2 pr-4">Item</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Expires</th>
+                  <th className="py-2 pr-4">Usage</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {links.map((link) => (
+                  <React.Fragment key={link.id}>
+                    <tr>
+                      <td className="py-3 pr-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(link.id)}
+                          onChange={() => toggleSelected(link.id)}
+                          disabled={!link.expiresAt}
+                          title={link.expiresAt ? undefined : 'This link never expires'}
+                          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                        />
+                      </td>
+                      <td className="py-3 pr-4">
+                        <div className="flex items-center gap-2 min-w-0">
+                          {link.target.type === 'folder' ? (
+                            <FolderIcon className="h-5 w-5 flex-shrink-0 text-indigo-600 dark:text-indigo-400" />
+                          ) : (
+                            <DocumentIcon className="h-5 w-5 flex-shrink-0 text-indigo-600 dark:text-indigo-400" />
+                          )}
+                          <div className="min-w-0">
+                            <p className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                              {link.target.name}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {link.type === 'upload' ? 'File request' : 'Download link'}
+                              {link.passwordProtected && ' • Password'} • Created{' '}
+                              {new Date(link.createdAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <span
+                          className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium capitalize ${
+                            LINK_STATUS_STYLES[link.status]
+                          }`}
+                        >
+                          {link.status}
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4 text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {link.expiresAt ? new Date(link.expiresAt).toLocaleDateString() : 'Never'}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {link.type === 'upload'
+                          ? `${link.uploadCount} upload(s)`
+                          : `${link.downloadCount}${
+                              link.maxDownloads !== null ? ` / ${link.maxDownloads}` : ''
+                            } download(s)`}
+                      </td>
+                      <td className="py-3">
+                        <div className="flex items-center justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditingId(editingId === link.id ? null : link.id)}
+                            disabled={isUpdating}
+                            title="Edit"
+                          >
+                            <PencilSquareIcon className="h-4 w-4" />
+                          </Button>
+                          {link.lockedAt && link.status !== 'revoked' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => unlockLink(link)}
+                              disabled={isUpdating}
+                              title="Unlock"
+                            >
+                              <LockOpenIcon className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {link.status === 'revoked' ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateLink(link, { isActive: true })}
+                              disabled={isUpdating}
+                              title="Reactivate"
+                            >
+                              <ArrowPathIcon className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => revokeLink(link)}
+                              disabled={isUpdating}
+                              title="Revoke"
+                            >
+                              <NoSymbolIcon className="h-4 w-4 text-red-600 dark:text-red-400" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevokeItemLinks(link)}
+                            disabled={isUpdating}
+                            title={`Revoke all links to this ${link.target.type}`}
+                          >
+                            <TrashIcon className="h-4 w-4 text-red-600 dark:text-red-400" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                    {editingId === link.id && (
+                      <tr>
+                        <td colSpan={6} className="pb-4">
+                          <ShareLinkEditor
+                            link={link}
+                            isSaving={isUpdating}
+                            onSave={(changes) => handleSave(link, changes)}
+                            onCancel={() => setEditingId(null)}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+const SHARING_TABS = [
+  { id: 'received', name: 'Shared with me', icon: UsersIcon },
+  { id: 'links', name: 'Manage links', icon: LinkIcon },
+] as const;
+
+/**
+ * Files and folders other users have shared directly with the current user,
+ * and the user's own links under the "Manage links" tab (?tab=links)
+ */
+const SharedWithMe: React.FC = () => {
+  const {
+    sharedFiles,
+    isLoading,
+    busyShareId,
+    loadSharedWithMe,
+    downloadSharedFile,
+    updateSharedFile,
+    removeSharedFile,
+  } = useSharedFiles();
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab = searchParams.get('tab') === 'links' ? 'links' : 'received';
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [updateTarget, setUpdateTarget] = useState<SharedFileItem | null>(null);
+  const [openFolderItem, setOpenFolderItem] = useState<SharedFileItem | null>(null);
+
+  useEffect(() => {
+    loadSharedWithMe();
+  }, [loadSharedWithMe]);
+
+  const handleUpdateClick = (item: SharedFileItem) => {
+    setUpdateTarget(item);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (selected && updateTarget) {
+      await updateSharedFile(updateTarget, selected);
+    }
+    setUpdateTarget(null);
+  };
+
+  const handleRemove = async (item: SharedFileItem) => {
+    const confirmed = window.confirm(
+      `Remove ${item.name} from your shared files? You will lose access to it.`
+    );
+
+    if (confirmed) {
+      await removeSharedFile(item);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            {activeTab === 'links' ? 'Manage links' : 'Shared with me'}
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            {activeTab === 'links'
+              ? 'Your share links and file requests: change, extend or revoke them'
+              : 'Files and folders other users have shared with you, decrypted with your private key'}
+          </p>
+        </div>
+
+        {/* Tabs */}
+        <div className="border-b border-gray-200 dark:border-gray-700">
+          <nav className="flex space-x-8">
+            {SHARING_TABS.map((tab) => {
+              const Icon = tab.icon;
+              const isActive = activeTab === tab.id;
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => setSearchParams(tab.id === 'links' ? { tab: 'links' } : {})}
+                  className={`flex items-center gap-2 py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                    isActive
+                      ? 'border-indigo-600 text-indigo-600 dark:border-indigo-400 dark:text-indigo-400'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
+                  }`}
+                >
+                  <Icon className="h-5 w-5" />
+                  {tab.name}
+                </button>
+              );
+            })}
+          </nav>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+
+        {activeTab === 'links' ? (
+          <ManageLinks />
+        ) : openFolderItem ? (
+          <SharedFolderBrowser item={openFolderItem} onClose={() => setOpenFolderItem(null)} />
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : sharedFiles.length === 0 ? (
+          <Card>
+            <div className="text-center py-12">
+              <UsersIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600 dark:text-gray-400">
+                Nothing has been shared with you yet
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <Card>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {sharedFiles.map((item) => {
+                const isBusy = busyShareId === item.shareId;
+
+                return (
+                  <li key={item.shareId} className="flex items-center justify-between py-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      {item.type === 'folder' ? (
+                        <FolderIcon className="h-8 w-8 flex-shrink-0 text-indigo-600 dark:text-indigo-400" />
+                      ) : (
+                        <DocumentIcon className="h-8 w-8 flex-shrink-0 text-indigo-600 dark:text-indigo-400" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                          {item.name}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {item.type === 'folder' ? 'Folder' : formatFileSize(item.size)} • Shared
+                          by {item.ownerUsername} on{' '}
+                          {new Date(item.sharedAt).toLocaleDateString()} •{' '}
+                          {item.permission === 'write' ? 'Can edit' : 'View only'}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {isBusy && <Spinner size="sm" />}
+                      {item.type === 'folder' ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setOpenFolderItem(item)}
+                          disabled={busyShareId !== null}
+                          leftIcon={<FolderOpenIcon className="h-4 w-4" />}
+                        >
+                          Open
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => downloadSharedFile(item)}
+                          disabled={busyShareId !== null}
+                          leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+                        >
+                          Download
+                        </Button>
+                      )}
+                      {item.type === 'file' && item.permission === 'write' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleUpdateClick(item)}
+                          disabled={busyShareId !== null}
+                          leftIcon={<ArrowUpTrayIcon className="h-4 w-4" />}
+                        >
+                          Upload version
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(item)}
+                        disabled={busyShareId !== null}
+                      >
+                        <TrashIcon className="h-4 w-4 text-red-600 dark:text-red-400" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+/**
+ * File or folder shared through a public share link.
+ * The link secret is read from the URL fragment, which never reaches the
+ * server, and everything is decrypted in the browser.
+ */
+const PublicSharedFile: React.FC = () => {
+  const { shareId } = useParams<{ shareId: string }>();
+  const { hash } = useLocation();
+  const secret = hash.replace(/^#/, '');
+  const {
+    link,
+    requiresPassword,
+    isOpening,
+    error,
+    path,
+    entries,
+    isLoading,
+    busyEntryId,
+    downloadProgress,
+    open,
+    openFolder,
+    navigateTo,
+    downloadFile,
+    downloadEntry,
+  } = useShareLink(shareId, secret);
+  const [password, setPassword] = useState('');
+
+  useEffect(() => {
+    open();
+  }, [open]);
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) {
+      open(password);
+    }
+  };
+
+  if (isOpening && !requiresPassword) {
     return (
       <PublicLayout>
         <div className="flex items-center justify-center min-h-[60vh]">
@@ -94,7 +840,7 @@ export const SharedPage: React.FC = () => {
     );
   }
 
-  if (error || !file) {
+  if (error) {
     return (
       <PublicLayout>
         <div className="max-w-2xl mx-auto">
@@ -102,11 +848,9 @@ export const SharedPage: React.FC = () => {
             <div className="text-center py-12">
               <DocumentIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
               <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
-                File Not Found
+                Link Not Available
               </h2>
-              <p className="text-gray-600 dark:text-gray-400">
-                {error || 'This shared file does not exist or has expired.'}
-              </p>
+              <p className="text-gray-600 dark:text-gray-400">{error}</p>
             </div>
           </Card>
         </div>
@@ -114,6 +858,89 @@ export const SharedPage: React.FC = () => {
     );
   }
 
+  if (requiresPassword) {
+    return (
+      <PublicLayout>
+        <div className="max-w-md mx-auto">
+          <Card>
+            <form onSubmit={handleUnlock} className="space-y-4">
+              <div className="text-center">
+                <LockClosedIcon className="h-16 w-16 text-indigo-600 dark:text-indigo-400 mx-auto mb-4" />
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+                  Password Required
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400">
+                  The sender protected this link with a password.
+                </p>
+              </div>
+              <Input
+                type="password"
+                placeholder="Link password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isOpening}
+                autoFocus
+              />
+              <Button
+                type="submit"
+                isLoading={isOpening}
+                disabled={!password}
+                className="w-full"
+              >
+                Unlock
+              </Button>
+            </form>
+          </Card>
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  if (!link) {
+    return null;
+  }
+
+  if (link.type === 'folder') {
+    return (
+      <PublicLayout>
+        <div className="max-w-4xl mx-auto space-y-4">
+          {/* Breadcrumbs */}
+          <nav className="flex items-center space-x-2 text-sm">
+            {path.map((crumb, index) => (
+              <React.Fragment key={crumb.id || 'root'}>
+                {index > 0 && <ChevronRightIcon className="h-4 w-4 text-gray-400" />}
+                <button
+                  onClick={() => navigateTo(index)}
+                  className={`hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors ${
+                    index === path.length - 1
+                      ? 'text-gray-900 dark:text-white font-medium'
+                      : 'text-gray-600 dark:text-gray-400'
+                  }`}
+                >
+                  {crumb.name}
+                </button>
+              </React.Fragment>
+            ))}
+          </nav>
+
+          <SharedFolderEntries
+            entries={entries}
+            isLoading={isLoading}
+            busyEntryId={busyEntryId}
+            onOpenFolder={openFolder}
+            onDownload={downloadEntry}
+          />
+
+          <p className="text-xs text-center text-gray-500 dark:text-gray-500">
+            Files are encrypted end-to-end and decrypted in your browser.
+            {link.expiresAt &&
+              ` This link expires on ${new Date(link.expiresAt).toLocaleDateString()}.`}
+          </p>
+        </div>
+      </PublicLayout>
+    );
+  }
+
   return (
     <PublicLayout>
       <div className="max-w-2xl mx-auto">
@@ -123,39 +950,39 @@ export const SharedPage: React.FC = () => {
               <DocumentIcon className="h-20 w-20 text-indigo-600 dark:text-indigo-400 mx-auto" />
             </div>
 
-            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
-              {file.name}
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2 break-words">
+              {link.name}
             </h1>
 
             <div className="flex items-center justify-center gap-6 text-sm text-gray-600 dark:text-gray-400 mb-8">
               <div>
-                <span className="font-medium">Size:</span> {formatFileSize(file.size)}
-              </div>
-              <div>
-                <span className="font-medium">Shared by:</span> {file.sharedBy}
+                <span className="font-medium">Size:</span> {formatFileSize(link.size)}
               </div>
             </div>
 
-            {file.expiresAt && (
+            {link.expiresAt && (
               <div className="mb-6">
                 <p className="text-sm text-gray-600 dark:text-gray-400">
-                  This link expires on {new Date(file.expiresAt).toLocaleDateString()}
+                  This link expires on {new Date(link.expiresAt).toLocaleDateString()}
                 </p>
               </div>
             )}
 
             <Button
-              onClick={handleDownload}
-              isLoading={downloading}
+              onClick={downloadFile}
+              isLoading={downloadProgress !== null}
               size="lg"
               leftIcon={<ArrowDownTrayIcon className="h-5 w-5" />}
             >
-              Download File
+              {downloadProgress !== null
+                ? `Decrypting ${Math.round(downloadProgress)}%`
+                : 'Download File'}
             </Button>
 
             <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-700">
               <p className="text-xs text-gray-500 dark:text-gray-500">
-                Files are encrypted end-to-end. Only you and the sender can access this file.
+                Files are encrypted end-to-end. The key is part of the link and is never sent
+                to the server; the file is decrypted in your browser.
               </p>
             </div>
           </div>
@@ -164,3 +991,9 @@ export const SharedPage: React.FC = () => {
     </PublicLayout>
   );
 };
+
+export const SharedPage: React.FC = () => {
+  const { shareId } = useParams<{ shareId: string }>();
+
+  return shareId ? <PublicSharedFile /> : <SharedWithMe />;
+};
@@ -0,0 +1,182 @@
+/**
+ * CrypticStorage - Trash Page
+ * Deleted files and folders, with restore, permanent deletion and the
+ * retention window after which they are purged automatically
+ */
+
+import React, { useEffect } from 'react';
+import { DashboardLayout } from '../layouts/DashboardLayout';
+import { Card } from '../components/common/Card';
+import { Button } from '../components/common/Button';
+import { Spinner } from '../components/common/Spinner';
+import {
+  ArrowUturnLeftIcon,
+  DocumentIcon,
+  FolderIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { useTrash } from '../hooks/useTrash';
+import type { TrashItem } from '../services/file.service';
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90, 180, 365];
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+};
+
+const describeItem = (item: TrashItem): string => {
+  if (item.type === 'file') {
+    return formatFileSize(item.size);
+  }
+
+  const files = item.contents?.files ?? 0;
+  const folders = item.contents?.folders ?? 0;
+  return `Folder with ${files} file(s) and ${folders} folder(s)`;
+};
+
+export const TrashPage: React.FC = () => {
+  const {
+    items,
+    retentionDays,
+    isLoading,
+    busyItemId,
+    loadTrash,
+    restoreItem,
+    deleteItem,
+    emptyTrash,
+    updateRetention,
+  } = useTrash();
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleDelete = async (item: TrashItem) => {
+    const confirmed = window.confirm(
+      `Permanently delete ${item.name}? This cannot be undone.`
+    );
+
+    if (confirmed) {
+      await deleteItem(item);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    const confirmed = window.confirm(
+      `Permanently delete all ${items.length} item(s) in the trash? This cannot be undone.`
+    );
+
+    if (confirmed) {
+      await emptyTrash();
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Trash</h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              Deleted items are permanently removed after the retention period
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {retentionDays !== null && (
+              <select
+                value={retentionDays}
+                onChange={(e) => updateRetention(Number(e.target.value))}
+                aria-label="Retention period"
+                className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 px-3 py-2 text-sm"
+              >
+                {!RETENTION_OPTIONS.includes(retentionDays) && (
+                  <option value={retentionDays}>Keep for {retentionDays} days</option>
+                )}
+                {RETENTION_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    Keep for {days} days
+                  </option>
+                ))}
+              </select>
+            )}
+            <Button
+              variant="danger"
+              onClick={handleEmptyTrash}
+              disabled={items.length === 0 || isLoading}
+              leftIcon={<TrashIcon className="h-5 w-5" />}
+            >
+              Empty Trash
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : items.length === 0 ? (
+          <Card>
+            <div className="text-center py-12">
+              <TrashIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600 dark:text-gray-400">The trash is empty</p>
+            </div>
+          </Card>
+        ) : (
+          <Card>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {items.map((item) => (
+                <li key={item.id} className="flex items-center justify-between py-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    {item.type === 'folder' ? (
+                      <FolderIcon className="h-8 w-8 flex-shrink-0 text-gray-400" />
+                    ) : (
+                      <DocumentIcon className="h-8 w-8 flex-shrink-0 text-gray-400" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                        {item.name}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {describeItem(item)}
+                        {item.deletedAt &&
+                          ` • Deleted ${new Date(item.deletedAt).toLocaleDateString()}`}
+                        {item.purgeAt &&
+                          ` • Removed on ${new Date(item.purgeAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {busyItemId === item.id && <Spinner size="sm" />}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => restoreItem(item)}
+                      disabled={busyItemId !== null}
+                      leftIcon={<ArrowUturnLeftIcon className="h-4 w-4" />}
+                    >
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(item)}
+                      disabled={busyItemId !== null}
+                    >
+                      <TrashIcon className="h-4 w-4 text-red-600 dark:text-red-400" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
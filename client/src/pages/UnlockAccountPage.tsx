@@ -0,0 +1,94 @@
+/**
+ * CrypticStorage - Unlock Account Page
+ * Lifts a sign-in lockout from the link in the lockout email
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { LockOpenIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { motion } from 'framer-motion';
+import { AuthLayout } from '../layouts/AuthLayout';
+import { Button } from '../components/common/Button';
+import { Spinner } from '../components/common/Spinner';
+import { useAuth } from '../hooks/useAuth';
+
+type UnlockState = 'unlocking' | 'unlocked' | 'failed';
+
+export const UnlockAccountPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { unlockAccount } = useAuth();
+
+  const [state, setState] = useState<UnlockState>(token ? 'unlocking' : 'failed');
+  const [error, setError] = useState<string | undefined>(
+    token ? undefined : 'The unlock link is incomplete'
+  );
+
+  // Tokens are single-use; do not submit twice when effects re-run
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    unlockAccount(token)
+      .then(() => setState('unlocked'))
+      .catch((err: any) => {
+        setError(err.message || 'The unlock link is invalid or has expired');
+        setState('failed');
+      });
+  }, [token]);
+
+  return (
+    <AuthLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+        className="w-full max-w-md mx-auto text-center"
+      >
+        {state === 'unlocking' && (
+          <div className="flex flex-col items-center gap-4">
+            <Spinner size="lg" />
+            <p className="text-gray-600 dark:text-gray-400">Unlocking your account...</p>
+          </div>
+        )}
+
+        {state === 'unlocked' && (
+          <div className="flex flex-col items-center gap-4">
+            <LockOpenIcon className="h-16 w-16 text-green-500" />
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Account Unlocked</h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              You can sign in again. If the failed attempts were not yours, change your password
+              after signing in.
+            </p>
+            <Button onClick={() => navigate('/login', { replace: true })} className="w-full">
+              Sign In
+            </Button>
+          </div>
+        )}
+
+        {state === 'failed' && (
+          <div className="flex flex-col items-center gap-4">
+            <ExclamationTriangleIcon className="h-16 w-16 text-red-500" />
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Unlock Failed</h2>
+            <p className="text-gray-600 dark:text-gray-400">{error}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              The lock expires on its own; you can also ask an administrator to lift it.
+            </p>
+            <Button
+              variant="secondary"
+              onClick={() => navigate('/login', { replace: true })}
+              className="w-full"
+            >
+              Back to sign in
+            </Button>
+          </div>
+        )}
+      </motion.div>
+    </AuthLayout>
+  );
+};
+
+export default UnlockAccountPage;
@@ -0,0 +1,101 @@
+/**
+ * CrypticStorage - Verify Email Page
+ * Confirms an email address from the link sent by email
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { motion } from 'framer-motion';
+import { AuthLayout } from '../layouts/AuthLayout';
+import { Button } from '../components/common/Button';
+import { Spinner } from '../components/common/Spinner';
+import { useAuth } from '../hooks/useAuth';
+
+type VerificationState = 'verifying' | 'verified' | 'failed';
+
+export const VerifyEmailPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { verifyEmail, isAuthenticated } = useAuth();
+
+  const [state, setState] = useState<VerificationState>(token ? 'verifying' : 'failed');
+  const [email, setEmail] = useState<string | null>(null);
+  const [error, setError] = useState<string | undefined>(
+    token ? undefined : 'The verification link is incomplete'
+  );
+
+  // Tokens are single-use; do not submit twice when effects re-run
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    verifyEmail(token)
+      .then((verifiedEmail) => {
+        setEmail(verifiedEmail);
+        setState('verified');
+      })
+      .catch((err: any) => {
+        setError(err.message || 'The verification link is invalid or has expired');
+        setState('failed');
+      });
+  }, [token]);
+
+  const continuePath = isAuthenticated ? '/dashboard' : '/login';
+
+  return (
+    <AuthLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+        className="w-full max-w-md mx-auto text-center"
+      >
+        {state === 'verifying' && (
+          <div className="flex flex-col items-center gap-4">
+            <Spinner size="lg" />
+            <p className="text-gray-600 dark:text-gray-400">Verifying your email address...</p>
+          </div>
+        )}
+
+        {state === 'verified' && (
+          <div className="flex flex-col items-center gap-4">
+            <CheckCircleIcon className="h-16 w-16 text-green-500" />
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Email Verified</h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              {email} is now confirmed for your account.
+            </p>
+            <Button onClick={() => navigate(continuePath, { replace: true })} className="w-full">
+              {isAuthenticated ? 'Go to Dashboard' : 'Sign In'}
+            </Button>
+          </div>
+        )}
+
+        {state === 'failed' && (
+          <div className="flex flex-col items-center gap-4">
+            <ExclamationTriangleIcon className="h-16 w-16 text-red-500" />
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+              Verification Failed
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400">{error}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              You can request a new link from the profile settings after signing in.
+            </p>
+            <Button
+              variant="secondary"
+              onClick={() => navigate(isAuthenticated ? '/settings' : '/login', { replace: true })}
+              className="w-full"
+            >
+              {isAuthenticated ? 'Open Settings' : 'Sign In'}
+            </Button>
+          </div>
+        )}
+      </motion.div>
+    </AuthLayout>
+  );
+};
+
+export default VerifyEmailPage;
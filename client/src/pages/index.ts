@@ -5,8 +5,13 @@
 
 export { default as LoginPage } from './LoginPage';
 export { default as RegisterPage } from './RegisterPage';
+export { default as RecoverAccountPage } from './RecoverAccountPage';
+export { default as VerifyEmailPage } from './VerifyEmailPage';
+export { default as UnlockAccountPage } from './UnlockAccountPage';
 export { default as DashboardPage } from './DashboardPage';
 export { default as FilesPage } from './FilesPage';
+export { default as FileRequestPage } from './FileRequestPage';
 export { default as NotFoundPage } from './NotFoundPage';
 export * from './SettingsPage';
 export * from './SharedPage';
+export * from './TrashPage';
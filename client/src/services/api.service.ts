@@ -5,6 +5,7 @@
 
 import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig, AxiosResponse } from 'axios';
 import StorageService from './storage.service';
+import type { KdfParams } from './crypto.service';
 
 // ============================================================================
 // Types and Interfaces
@@ -13,6 +14,8 @@ import StorageService from './storage.service';
 export interface ApiError {
   message: string;
   statusCode: number;
+  code?: string;
+  details?: Record<string, any>;
   errors?: Record<string, string[]>;
 }
 
@@ -38,6 +41,47 @@ export interface RegisterRequest {
   encryptedPrivateKey: string;
   wrappedMasterKey: string;
   salt: string;
+  kdf: KdfParams;
+  recoveryKeyEncrypted?: string;
+  recoveryVerifier?: string;
+}
+
+export interface RecoveryChallenge {
+  email: string;
+  recoveryKeyEncrypted: string;
+}
+
+export interface RecoveryResetRequest {
+  token: string;
+  recoveryVerifier: string;
+  passwordHash: string;
+  salt: string;
+  kdf: KdfParams;
+  wrappedMasterKey: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+  salt: string;
+  kdf: KdfParams;
+  masterKeyEncrypted: string;
+  privateKeyEncrypted: string;
+}
+
+export interface KdfUpgradeRequest {
+  password: string;
+  salt: string;
+  kdf: KdfParams;
+  masterKeyEncrypted: string;
+}
+
+// Credentials from before the last password change
+export interface RestoredCredentials {
+  salt: string;
+  kdf: KdfParams;
+  masterKeyEncrypted: string;
+  privateKeyEncrypted: string;
 }
 
 export interface RegisterResponse {
@@ -57,8 +101,13 @@ export interface RegisterResponse {
 export interface LoginRequest {
   email: string;
   passwordHash: string;
+  totpCode?: string;
+  backupCode?: string;
+  webauthnResponse?: WebAuthnAuthenticationResponse;
 }
 
+export type TwoFactorMethod = 'totp' | 'webauthn' | 'backup_code';
+
 export interface LoginResponse {
   user: {
     id: string;
@@ -67,6 +116,7 @@ export interface LoginResponse {
     encryptedPrivateKey: string;
     wrappedMasterKey: string;
     salt: string;
+    kdf?: KdfParams; // Absent for accounts created before descriptors were stored
     storageUsed: number;
     storageLimit: number;
     twoFactorEnabled: boolean;
@@ -78,6 +128,92 @@ export interface LoginResponse {
     expiresIn: number;
   };
   requiresTwoFactor?: boolean;
+  methods?: TwoFactorMethod[];
+  webauthnOptions?: WebAuthnAuthenticationOptions;
+  kdfUpgrade?: KdfParams | null; // Settings to re-wrap the master key under
+}
+
+// Sent in error details when sign-in attempts for an account are throttled
+export interface LoginThrottle {
+  reason: 'LOGIN_DELAYED' | 'ACCOUNT_LOCKED';
+  retryAfter: number; // Seconds
+  retryAt: string;
+}
+
+export interface BackupCodeStatus {
+  enabled: boolean;
+  remaining: number;
+}
+
+export interface WebAuthnCredentialDescriptor {
+  type: 'public-key';
+  id: string; // base64url
+  transports: string[];
+}
+
+export interface WebAuthnRegistrationOptions {
+  challenge: string; // base64url
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: 'none';
+  excludeCredentials: WebAuthnCredentialDescriptor[];
+  authenticatorSelection: {
+    residentKey: 'discouraged' | 'preferred' | 'required';
+    userVerification: 'discouraged' | 'preferred' | 'required';
+  };
+}
+
+export interface WebAuthnAuthenticationOptions {
+  challenge: string; // base64url
+  rpId: string;
+  timeout: number;
+  allowCredentials: WebAuthnCredentialDescriptor[];
+  userVerification: 'discouraged' | 'preferred' | 'required';
+}
+
+export interface WebAuthnRegistrationResponse {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    publicKey: string; // SPKI, base64url
+    publicKeyAlgorithm: number;
+    transports?: string[];
+  };
+}
+
+export interface WebAuthnAuthenticationResponse {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string;
+  };
+}
+
+export interface SecurityKey {
+  id: string;
+  name: string;
+  transports: string[];
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface ActiveSession {
+  id: string;
+  browser: string;
+  os: string;
+  deviceType: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+  ipAddress: string | null;
+  createdAt: string;
+  lastActivity: string;
+  expiresAt: string;
+  current: boolean;
 }
 
 export interface TwoFactorSetupResponse {
@@ -98,6 +234,10 @@ export interface RefreshTokenResponse {
 }
 
 // File types
+// MASTER: wrapped with the master key; RSA-OAEP: received through a file
+// request and wrapped with the owner's public key until claimed
+export type FileKeyWrapping = 'MASTER' | 'RSA-OAEP';
+
 export interface FileMetadata {
   id: string;
   encryptedName: string;
@@ -106,6 +246,9 @@ export interface FileMetadata {
   mimeType: string;
   storageKey: string;
   iv: string;
+  encryptionAlgorithm?: string;
+  fileKeyEncrypted?: string;
+  keyWrapping?: FileKeyWrapping;
   folderId?: string;
   userId: string;
   createdAt: string;
@@ -118,6 +261,7 @@ export interface UploadRequest {
   encryptedSize: number;
   mimeType: string;
   iv: string;
+  encryptionAlgorithm?: string;
   folderId?: string;
 }
 
@@ -127,6 +271,109 @@ export interface UploadUrlResponse {
   storageKey: string;
 }
 
+// Resumable upload types
+export interface CreateUploadSessionRequest extends ParentKeyFields {
+  filenameEncrypted: string;
+  filenameIv: string;
+  fileKeyEncrypted: string;
+  fileSize: number;
+  encryptedSize: number;
+  totalParts: number;
+  mimeType: string;
+  encryptionAlgorithm: string;
+  parentFolderId?: string;
+  searchTokens?: string[];
+}
+
+export interface UploadSession {
+  id: string;
+  fileId: string;
+  parentFolderId?: string;
+  filenameEncrypted: string;
+  filenameIv: string;
+  fileKeyEncrypted: string;
+  fileSize: string;
+  encryptedSize: string;
+  mimeType?: string;
+  encryptionAlgorithm: string;
+  totalParts: number;
+  maxPartSize: number;
+  status: 'active' | 'completed' | 'aborted';
+  expiresAt: string;
+  createdAt: string;
+  parts: Array<{ partNumber: number; size: string }>;
+}
+
+export interface UploadedFile {
+  id: string;
+  filenameEncrypted: string;
+  filenameIv: string;
+  fileKeyEncrypted: string;
+  fileSize: string;
+  encryptedSize: string;
+  mimeType?: string;
+  encryptionAlgorithm: string;
+  fileHash: string;
+  parentFolderId?: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FileVersion {
+  id: string;
+  versionNumber: number;
+  fileKeyEncrypted: string;
+  fileSize: string;
+  encryptedSize: string;
+  encryptionAlgorithm: string;
+  createdAt: string;
+}
+
+export interface FileVersionList {
+  currentVersion: number;
+  versions: FileVersion[];
+}
+
+export interface DeleteFileVersionsResult {
+  deletedCount: number;
+  freedBytes: string;
+}
+
+// Search types (blind-index tokens, see CryptoService.generateQueryTokens)
+export interface FileSearchParams {
+  tokens: string[];
+  folderId?: string;
+  recursive?: boolean;
+  mimeType?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface SearchedFile {
+  id: string;
+  filenameEncrypted: string;
+  filenameIv: string;
+  fileSize: string;
+  encryptedSize: string;
+  mimeType?: string;
+  parentFolder: { id: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FileSearchResult {
+  files: SearchedFile[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
 // Folder types
 export interface FolderMetadata {
   id: string;
@@ -138,10 +385,129 @@ export interface FolderMetadata {
   updatedAt: string;
 }
 
-export interface CreateFolderRequest {
+export interface CreateFolderRequest extends ParentKeyFields {
   encryptedName: string;
   encryptedNameIV: string;
   parentId?: string;
+  folderKeyEncrypted?: string;
+}
+
+// Folder key hierarchy types
+export interface ParentKeyFields {
+  parentKeyEncrypted?: string;
+  parentNameEncrypted?: string;
+  parentNameIv?: string;
+}
+
+export interface FolderKeyTree {
+  folder: {
+    id: string;
+    nameEncrypted: string;
+    nameIv: string;
+    folderKeyEncrypted: string | null;
+  };
+  folders: Array<{
+    id: string;
+    parentFolderId: string;
+    nameEncrypted: string;
+    nameIv: string;
+    folderKeyEncrypted: string | null;
+    parentKeyEncrypted: string | null;
+  }>;
+  files: Array<{
+    id: string;
+    parentFolderId: string;
+    filenameEncrypted: string;
+    filenameIv: string;
+    fileKeyEncrypted: string;
+    parentKeyEncrypted: string | null;
+  }>;
+}
+
+export interface ItemKeyUpdate extends Required<ParentKeyFields> {
+  id: string;
+  folderKeyEncrypted?: string;
+}
+
+export interface UpdateFolderKeysRequest {
+  folderKeyEncrypted?: string;
+  folders: ItemKeyUpdate[];
+  files: ItemKeyUpdate[];
+}
+
+export interface SharedFolderContents {
+  folderId: string;
+  parentFolderId: string | null;
+  breadcrumbs: Array<{
+    id: string;
+    parentNameEncrypted: string | null;
+    parentNameIv: string | null;
+  }>;
+  subFolders: Array<{
+    id: string;
+    parentKeyEncrypted: string;
+    parentNameEncrypted: string;
+    parentNameIv: string;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+  files: Array<{
+    id: string;
+    parentKeyEncrypted: string;
+    parentNameEncrypted: string;
+    parentNameIv: string;
+    fileSize: string;
+    encryptedSize: string;
+    mimeType?: string;
+    encryptionAlgorithm: string;
+    version: number;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+}
+
+// Trash types
+export interface TrashFolder {
+  id: string;
+  parentFolderId: string | null;
+  nameEncrypted: string;
+  nameIv: string;
+  deletedAt: string;
+  purgeAt: string | null;
+  contents: { files: number; folders: number };
+}
+
+export interface TrashFile {
+  id: string;
+  parentFolderId: string | null;
+  filenameEncrypted: string;
+  filenameIv: string;
+  fileSize: string;
+  encryptedSize: string;
+  mimeType?: string;
+  deletedAt: string | null;
+  purgeAt: string | null;
+}
+
+export interface TrashContents {
+  retentionDays: number;
+  folders: TrashFolder[];
+  files: TrashFile[];
+}
+
+export interface TrashRestoreResult {
+  id: string;
+  parentFolderId: string | null;
+  movedToRoot: boolean;
+  restoredFiles: number;
+  restoredFolders: number;
+  restoredBytes: string;
+}
+
+export interface EmptyTrashResult {
+  filesDeleted: number;
+  foldersDeleted: number;
+  freedBytes: string;
 }
 
 // User types
@@ -152,10 +518,18 @@ export interface UserProfile {
   storageUsed: number;
   storageLimit: number;
   twoFactorEnabled: boolean;
+  emailVerified?: boolean;
+  deletionScheduledAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface DeleteAccountRequest {
+  password: string;
+  totpCode?: string;
+  backupCode?: string;
+}
+
 export interface UpdateProfileRequest {
   email?: string;
   currentPasswordHash?: string;
@@ -183,6 +557,232 @@ export interface ShareResponse {
   createdAt: string;
 }
 
+// Public share links: the key is wrapped with a secret from the URL fragment
+export interface CreateShareLinkRequest {
+  fileId?: string;
+  folderId?: string;
+  fileKeyEncrypted: string;
+  filenameEncrypted: string;
+  filenameIv: string;
+  password?: string; // Verifier derived from the link password, never the password
+  passwordSalt?: string;
+  kdf?: KdfParams;
+  expiresAt?: string;
+  maxDownloads?: number;
+}
+
+export interface ShareLinkSummary {
+  id: string;
+  shareToken: string;
+  fileId: string | null;
+  folderId: string | null;
+  passwordProtected: boolean;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  lockedAt?: string | null; // Set after too many wrong passwords
+  createdAt: string;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'locked' | 'revoked';
+
+// Share links as listed for management, with the encrypted item name
+export interface ManagedShareLink extends ShareLinkSummary {
+  type: 'download' | 'upload';
+  file: { id: string; filenameEncrypted: string; filenameIv: string } | null;
+  folder: { id: string; nameEncrypted: string; nameIv: string } | null;
+  isActive: boolean;
+  uploadCount: number;
+  maxFiles: number | null;
+  lastAccessed: string | null;
+}
+
+export interface UpdateShareLinkRequest {
+  expiresAt?: string | null;
+  maxDownloads?: number | null;
+  isActive?: boolean;
+  password?: string | null; // File requests only; download links are rotated instead
+}
+
+// Rotation gives a link a new token; download links also get a new secret
+export interface RotateShareLinkRequest {
+  fileKeyEncrypted: string;
+  filenameEncrypted: string;
+  filenameIv: string;
+  password?: string; // Verifier derived from the new link password
+  passwordSalt?: string;
+  kdf?: KdfParams;
+}
+
+export type ShareAccessOutcome =
+  | 'ok'
+  | 'password_required'
+  | 'wrong_password'
+  | 'expired'
+  | 'limit_reached'
+  | 'disabled'
+  | 'deleted'
+  | 'throttled'
+  | 'locked';
+
+export interface ShareAccessEvent {
+  id: string;
+  event: 'view' | 'download' | 'upload';
+  outcome: ShareAccessOutcome;
+  ipAddress: string | null; // Truncated to the network
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface ShareAccessTimeline {
+  shareId: string;
+  since: string;
+  days: number;
+  totals: {
+    ok: number;
+    denied: number;
+    byOutcome: Partial<Record<ShareAccessOutcome, number>>;
+  };
+  series: Array<{ date: string; ok: number; denied: number }>; // One entry per day
+  events: ShareAccessEvent[]; // Most recent first
+}
+
+export interface PublicShareLink {
+  id: string;
+  fileId: string | null;
+  folderId: string | null;
+  fileKeyEncrypted: string;
+  filenameEncrypted: string | null;
+  filenameIv: string | null;
+  passwordSalt: string | null;
+  kdf: KdfParams | null;
+  file: {
+    id: string;
+    fileSize: string;
+    mimeType?: string;
+    encryptionAlgorithm: string;
+    createdAt: string;
+  } | null;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+}
+
+export type PublicShareLinkResponse =
+  | {
+      requiresPassword: true;
+      share: Pick<
+        PublicShareLink,
+        'id' | 'passwordSalt' | 'kdf' | 'expiresAt' | 'maxDownloads' | 'downloadCount'
+      >;
+    }
+  | { requiresPassword?: undefined; share: PublicShareLink };
+
+// File requests: upload-only links that collect files into a folder
+export interface CreateFileRequestRequest {
+  folderId: string;
+  password?: string;
+  expiresAt?: string;
+  maxFiles?: number;
+  maxFileSize?: number;
+}
+
+export interface FileRequestSummary {
+  id: string;
+  shareToken: string;
+  folderId: string;
+  passwordProtected: boolean;
+  expiresAt: string | null;
+  maxFiles: number | null;
+  maxFileSize: string | null;
+  uploadCount: number;
+  createdAt: string;
+}
+
+export interface PublicFileRequest {
+  id: string;
+  ownerUsername: string;
+  publicKey: string;
+  expiresAt: string | null;
+  maxFiles: number | null;
+  maxFileSize: string | null;
+  uploadCount: number;
+}
+
+export type PublicFileRequestResponse =
+  | { requiresPassword: true; request: Pick<PublicFileRequest, 'id' | 'expiresAt'> }
+  | { requiresPassword?: undefined; request: PublicFileRequest };
+
+export interface FileRequestUpload {
+  fileSize: number;
+  fileHash: string;
+  fileKeyEncrypted: string;
+  filenameEncrypted: string;
+  filenameIv: string;
+  mimeType: string;
+  encryptionAlgorithm: string;
+}
+
+export interface ClaimFileRequest {
+  fileKeyEncrypted: string;
+  filenameEncrypted: string;
+  filenameIv: string;
+  parentKeyEncrypted?: string;
+  parentNameEncrypted?: string;
+  parentNameIv?: string;
+  searchTokens?: string[];
+}
+
+export type UserSharePermission = 'read' | 'write';
+
+export interface UserPublicKey {
+  id: string;
+  username: string;
+  publicKey: string;
+}
+
+export interface CreateUserShareRequest {
+  fileId?: string;
+  folderId?: string;
+  recipientUsername: string;
+  fileKeyEncrypted: string;
+  filenameEncrypted: string;
+  filenameIv: string;
+  permission: UserSharePermission;
+}
+
+export interface UserShare {
+  id: string;
+  fileId: string | null;
+  folderId: string | null;
+  permission: UserSharePermission;
+  sharedWith: { id: string; username: string };
+  createdAt: string;
+}
+
+export interface ReceivedUserShare {
+  id: string;
+  permission: UserSharePermission;
+  fileKeyEncrypted: string;
+  filenameEncrypted: string | null;
+  filenameIv: string | null;
+  owner: { id: string; username: string };
+  createdAt: string;
+  file: {
+    id: string;
+    fileSize: string;
+    encryptedSize: string;
+    mimeType?: string;
+    encryptionAlgorithm: string;
+    version: number;
+    updatedAt: string;
+  } | null;
+  folder: {
+    id: string;
+    updatedAt: string;
+  } | null;
+}
+
 // ============================================================================
 // API Configuration
 // ============================================================================
@@ -190,6 +790,20 @@ export interface ShareResponse {
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
 const API_TIMEOUT = 30000; // 30 seconds
 
+// Endpoints used without a session, whose 401 responses must not trigger a refresh
+const PUBLIC_AUTH_ENDPOINTS = new Set([
+  '/auth/login',
+  '/auth/register',
+  '/auth/unlock',
+  '/auth/email/verify',
+  '/auth/recovery/request',
+  '/auth/recovery/verify',
+  '/auth/recovery/reset',
+]);
+
+// Share link endpoints are used by visitors without an account
+const PUBLIC_SHARE_ENDPOINT_PREFIX = '/shares/public/';
+
 // ============================================================================
 // Axios Instance
 // ============================================================================
@@ -240,8 +854,13 @@ class ApiService {
           _retry?: boolean;
         };
 
-        // Handle 401 Unauthorized errors
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        // Handle 401 Unauthorized errors; public endpoints report their own failures
+        if (
+          error.response?.status === 401 &&
+          !originalRequest._retry &&
+          !PUBLIC_AUTH_ENDPOINTS.has(originalRequest.url || '') &&
+          !originalRequest.url?.startsWith(PUBLIC_SHARE_ENDPOINT_PREFIX)
+        ) {
           if (this.isRefreshing) {
             // Wait for token refresh
             return new Promise((resolve) => {
@@ -312,6 +931,8 @@ class ApiService {
       return {
         message: data?.message || error.message || 'An error occurred',
         statusCode: error.response.status,
+        code: data?.code,
+        details: data?.details,
         errors: data?.errors,
       };
     } else if (error.request) {
@@ -366,6 +987,65 @@ class ApiService {
     return response.data.data;
   }
 
+  async requestRecovery(email: string): Promise<void> {
+    await this.client.post('/auth/recovery/request', { email });
+  }
+
+  async verifyRecoveryLink(token: string): Promise<RecoveryChallenge> {
+    const response = await this.client.post<ApiResponse<RecoveryChallenge>>(
+      '/auth/recovery/verify',
+      { token }
+    );
+    return response.data.data;
+  }
+
+  async resetPasswordWithRecoveryKey(data: RecoveryResetRequest): Promise<void> {
+    await this.client.post('/auth/recovery/reset', data);
+  }
+
+  async changePassword(data: ChangePasswordRequest): Promise<{ rollbackUntil: string }> {
+    const response = await this.client.post<ApiResponse<{ rollbackUntil: string }>>(
+      '/auth/password/change',
+      data
+    );
+    return response.data.data;
+  }
+
+  async rollbackPasswordChange(
+    previousPasswordHash: string,
+    currentPasswordHash: string
+  ): Promise<RestoredCredentials> {
+    const response = await this.client.post<ApiResponse<RestoredCredentials>>(
+      '/auth/password/rollback',
+      { previousPassword: previousPasswordHash, currentPassword: currentPasswordHash }
+    );
+    return response.data.data;
+  }
+
+  async upgradeKdf(data: KdfUpgradeRequest): Promise<{ kdf: KdfParams }> {
+    const response = await this.client.post<ApiResponse<{ kdf: KdfParams }>>(
+      '/auth/password/kdf',
+      data
+    );
+    return response.data.data;
+  }
+
+  async unlockAccount(token: string): Promise<void> {
+    await this.client.post('/auth/unlock', { token });
+  }
+
+  async verifyEmail(token: string): Promise<{ email: string }> {
+    const response = await this.client.post<ApiResponse<{ email: string }>>(
+      '/auth/email/verify',
+      { token }
+    );
+    return response.data.data;
+  }
+
+  async resendVerification(): Promise<void> {
+    await this.client.post('/auth/email/verify/resend');
+  }
+
   // ============================================================================
   // User Endpoints
   // ============================================================================
@@ -380,10 +1060,36 @@ class ApiService {
     return response.data.data;
   }
 
-  async deleteAccount(passwordHash: string): Promise<void> {
-    await this.client.delete('/users/profile', {
-      data: { passwordHash },
-    });
+  async deleteAccount(data: DeleteAccountRequest): Promise<{ deletionScheduledAt: string }> {
+    const response = await this.client.delete<ApiResponse<{ deletionScheduledAt: string }>>(
+      '/users/profile',
+      { data }
+    );
+    return response.data.data;
+  }
+
+  async cancelAccountDeletion(): Promise<void> {
+    await this.client.delete('/users/profile/deletion');
+  }
+
+  // ============================================================================
+  // Session Endpoints
+  // ============================================================================
+
+  async getSessions(): Promise<ActiveSession[]> {
+    const response = await this.client.get<ApiResponse<ActiveSession[]>>('/auth/sessions');
+    return response.data.data;
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    await this.client.delete(`/auth/sessions/${id}`);
+  }
+
+  async revokeOtherSessions(): Promise<{ count: number }> {
+    const response = await this.client.post<ApiResponse<{ count: number }>>(
+      '/auth/sessions/revoke-others'
+    );
+    return response.data.data;
   }
 
   // ============================================================================
@@ -409,14 +1115,63 @@ class ApiService {
     await this.client.post('/users/2fa/disable', { token, passwordHash });
   }
 
+  async getBackupCodeStatus(): Promise<BackupCodeStatus> {
+    const response = await this.client.get<ApiResponse<BackupCodeStatus>>(
+      '/auth/2fa/backup-codes'
+    );
+    return response.data.data;
+  }
+
   async regenerateBackupCodes(passwordHash: string): Promise<{ backupCodes: string[] }> {
     const response = await this.client.post<ApiResponse<{ backupCodes: string[] }>>(
-      '/users/2fa/backup-codes',
-      { passwordHash }
+      '/auth/2fa/backup-codes',
+      { password: passwordHash }
     );
     return response.data.data;
   }
 
+  // ============================================================================
+  // Security Key (WebAuthn) Endpoints
+  // ============================================================================
+
+  async getSecurityKeys(): Promise<SecurityKey[]> {
+    const response = await this.client.get<ApiResponse<SecurityKey[]>>(
+      '/auth/webauthn/credentials'
+    );
+    return response.data.data;
+  }
+
+  async getSecurityKeyRegistrationOptions(): Promise<WebAuthnRegistrationOptions> {
+    const response = await this.client.post<ApiResponse<WebAuthnRegistrationOptions>>(
+      '/auth/webauthn/register/options'
+    );
+    return response.data.data;
+  }
+
+  async registerSecurityKey(
+    name: string,
+    credential: WebAuthnRegistrationResponse
+  ): Promise<{ credential: SecurityKey; backupCodes?: string[] }> {
+    const response = await this.client.post<
+      ApiResponse<{ credential: SecurityKey; backupCodes?: string[] }>
+    >('/auth/webauthn/register', { name, credential });
+    return response.data.data;
+  }
+
+  async renameSecurityKey(id: string, name: string): Promise<SecurityKey> {
+    const response = await this.client.patch<ApiResponse<SecurityKey>>(
+      `/auth/webauthn/credentials/${id}`,
+      { name }
+    );
+    return response.data.data;
+  }
+
+  async deleteSecurityKey(id: string, passwordHash: string): Promise<void> {
+    await this.client.delete(`/auth/webauthn/credentials/${id}`, {
+      data: { password: passwordHash },
+    });
+  }
+
   // ============================================================================
   // File Endpoints
   // ============================================================================
@@ -428,6 +1183,13 @@ class ApiService {
     return response.data.data;
   }
 
+  async searchFiles(params: FileSearchParams): Promise<FileSearchResult> {
+    const response = await this.client.get<ApiResponse<FileSearchResult>>('/files/search', {
+      params: { ...params, tokens: params.tokens.join(',') },
+    });
+    return response.data.data;
+  }
+
   async getFile(fileId: string): Promise<FileMetadata> {
     const response = await this.client.get<ApiResponse<FileMetadata>>(`/files/${fileId}`);
     return response.data.data;
@@ -456,6 +1218,91 @@ class ApiService {
     return response.data.data;
   }
 
+  async createUploadSession(data: CreateUploadSessionRequest): Promise<UploadSession> {
+    const response = await this.client.post<ApiResponse<{ session: UploadSession }>>(
+      '/files/uploads',
+      data
+    );
+    return response.data.data.session;
+  }
+
+  async getUploadSession(sessionId: string): Promise<UploadSession> {
+    const response = await this.client.get<ApiResponse<{ session: UploadSession }>>(
+      `/files/uploads/${sessionId}`
+    );
+    return response.data.data.session;
+  }
+
+  async uploadFilePart(
+    sessionId: string,
+    partNumber: number,
+    data: Blob | ArrayBuffer,
+    onProgress?: (loaded: number) => void
+  ): Promise<void> {
+    await this.client.put(`/files/uploads/${sessionId}/parts/${partNumber}`, data, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+      },
+      timeout: 0, // Parts can take longer than the default timeout
+      onUploadProgress: (event) => onProgress?.(event.loaded),
+    });
+  }
+
+  async completeUploadSession(sessionId: string, fileHash: string): Promise<UploadedFile> {
+    const response = await this.client.post<ApiResponse<{ file: UploadedFile }>>(
+      `/files/uploads/${sessionId}/complete`,
+      { fileHash }
+    );
+    return response.data.data.file;
+  }
+
+  async abortUploadSession(sessionId: string): Promise<void> {
+    await this.client.delete(`/files/uploads/${sessionId}`);
+  }
+
+  async getFileVersions(fileId: string): Promise<FileVersionList> {
+    const response = await this.client.get<ApiResponse<FileVersionList>>(
+      `/files/${fileId}/versions`
+    );
+    return response.data.data;
+  }
+
+  async downloadFileVersion(fileId: string, versionNumber: number): Promise<Blob> {
+    const response = await this.client.get(
+      `/files/${fileId}/versions/${versionNumber}/download`,
+      {
+        responseType: 'blob',
+        timeout: 0,
+      }
+    );
+    return response.data;
+  }
+
+  async restoreFileVersion(fileId: string, versionNumber: number): Promise<UploadedFile> {
+    const response = await this.client.post<ApiResponse<{ file: UploadedFile }>>(
+      `/files/${fileId}/versions/${versionNumber}/restore`
+    );
+    return response.data.data.file;
+  }
+
+  async deleteFileVersion(
+    fileId: string,
+    versionNumber: number
+  ): Promise<DeleteFileVersionsResult> {
+    const response = await this.client.delete<ApiResponse<DeleteFileVersionsResult>>(
+      `/files/${fileId}/versions/${versionNumber}`
+    );
+    return response.data.data;
+  }
+
+  async deleteOldFileVersions(fileId: string, keep: number): Promise<DeleteFileVersionsResult> {
+    const response = await this.client.delete<ApiResponse<DeleteFileVersionsResult>>(
+      `/files/${fileId}/versions`,
+      { params: { keep } }
+    );
+    return response.data.data;
+  }
+
   async getDownloadUrl(fileId: string): Promise<{ downloadUrl: string }> {
     const response = await this.client.get<ApiResponse<{ downloadUrl: string }>>(
       `/files/${fileId}/download-url`
@@ -476,7 +1323,12 @@ class ApiService {
 
   async updateFileMetadata(
     fileId: string,
-    data: { encryptedName?: string; encryptedNameIV?: string; folderId?: string }
+    data: {
+      encryptedName?: string;
+      encryptedNameIV?: string;
+      folderId?: string;
+      searchTokens?: string[];
+    }
   ): Promise<FileMetadata> {
     const response = await this.client.patch<ApiResponse<FileMetadata>>(
       `/files/${fileId}`,
@@ -533,6 +1385,24 @@ class ApiService {
     return response.data.data;
   }
 
+  async getFolderKey(folderId: string): Promise<string | null> {
+    const response = await this.client.get<
+      ApiResponse<{ folder: { folderKeyEncrypted: string | null } }>
+    >(`/folders/${folderId}`);
+    return response.data.data.folder.folderKeyEncrypted;
+  }
+
+  async getFolderKeys(folderId: string): Promise<FolderKeyTree> {
+    const response = await this.client.get<ApiResponse<FolderKeyTree>>(
+      `/folders/${folderId}/keys`
+    );
+    return response.data.data;
+  }
+
+  async updateFolderKeys(folderId: string, data: UpdateFolderKeysRequest): Promise<void> {
+    await this.client.put(`/folders/${folderId}/keys`, data);
+  }
+
   async deleteFolder(folderId: string): Promise<void> {
     await this.client.delete(`/folders/${folderId}`);
   }
@@ -545,6 +1415,56 @@ class ApiService {
     return response.data.data;
   }
 
+  // ============================================================================
+  // Trash Endpoints
+  // ============================================================================
+
+  async getTrash(): Promise<TrashContents> {
+    const response = await this.client.get<ApiResponse<TrashContents>>('/trash');
+    return response.data.data;
+  }
+
+  async restoreTrashedFile(fileId: string): Promise<TrashRestoreResult> {
+    const response = await this.client.post<ApiResponse<TrashRestoreResult>>(
+      `/trash/files/${fileId}/restore`
+    );
+    return response.data.data;
+  }
+
+  async restoreTrashedFolder(folderId: string): Promise<TrashRestoreResult> {
+    const response = await this.client.post<ApiResponse<TrashRestoreResult>>(
+      `/trash/folders/${folderId}/restore`
+    );
+    return response.data.data;
+  }
+
+  async deleteTrashedFile(fileId: string): Promise<EmptyTrashResult> {
+    const response = await this.client.delete<ApiResponse<EmptyTrashResult>>(
+      `/trash/files/${fileId}`
+    );
+    return response.data.data;
+  }
+
+  async deleteTrashedFolder(folderId: string): Promise<EmptyTrashResult> {
+    const response = await this.client.delete<ApiResponse<EmptyTrashResult>>(
+      `/trash/folders/${folderId}`
+    );
+    return response.data.data;
+  }
+
+  async emptyTrash(): Promise<EmptyTrashResult> {
+    const response = await this.client.delete<ApiResponse<EmptyTrashResult>>('/trash');
+    return response.data.data;
+  }
+
+  async updateTrashSettings(retentionDays: number): Promise<number> {
+    const response = await this.client.put<ApiResponse<{ retentionDays: number }>>(
+      '/trash/settings',
+      { retentionDays }
+    );
+    return response.data.data.retentionDays;
+  }
+
   // ============================================================================
   // Sharing Endpoints
   // ============================================================================
@@ -563,11 +1483,276 @@ class ApiService {
     await this.client.delete(`/shares/${shareId}`);
   }
 
-  async getSharedWithMe(): Promise<FileMetadata[]> {
-    const response = await this.client.get<ApiResponse<FileMetadata[]>>('/shares/with-me');
+  async createShareLink(data: CreateShareLinkRequest): Promise<ShareLinkSummary> {
+    const response = await this.client.post<ApiResponse<{ share: ShareLinkSummary }>>(
+      '/shares',
+      data
+    );
+    return response.data.data.share;
+  }
+
+  async listShareLinks(params: {
+    fileId?: string;
+    folderId?: string;
+  }): Promise<ShareLinkSummary[]> {
+    const response = await this.client.get<ApiResponse<{ shares: ShareLinkSummary[] }>>(
+      '/shares',
+      { params: { ...params, type: 'download' } }
+    );
+    return response.data.data.shares;
+  }
+
+  async listManagedShareLinks(status?: ShareLinkStatus): Promise<ManagedShareLink[]> {
+    const response = await this.client.get<ApiResponse<{ shares: ManagedShareLink[] }>>(
+      '/shares',
+      { params: { status, active: 'all', limit: 200 } }
+    );
+    return response.data.data.shares;
+  }
+
+  async updateShareLink(
+    shareId: string,
+    data: UpdateShareLinkRequest
+  ): Promise<ShareLinkSummary & { isActive: boolean }> {
+    const response = await this.client.patch<
+      ApiResponse<{ share: ShareLinkSummary & { isActive: boolean } }>
+    >(`/shares/${shareId}`, data);
+    return response.data.data.share;
+  }
+
+  async revokeItemShareLinks(target: { fileId?: string; folderId?: string }): Promise<number> {
+    const response = await this.client.post<ApiResponse<{ revoked: number }>>(
+      '/shares/bulk/revoke',
+      target
+    );
+    return response.data.data.revoked;
+  }
+
+  async revokeExpiredShareLinks(): Promise<number> {
+    const response = await this.client.post<ApiResponse<{ revoked: number }>>(
+      '/shares/bulk/revoke-expired'
+    );
+    return response.data.data.revoked;
+  }
+
+  async extendShareLinks(
+    shareIds: string[],
+    days: number
+  ): Promise<Array<{ id: string; expiresAt: string | null }>> {
+    const response = await this.client.post<
+      ApiResponse<{ shares: Array<{ id: string; expiresAt: string | null }> }>
+    >('/shares/bulk/extend', { shareIds, days });
+    return response.data.data.shares;
+  }
+
+  async unlockShareLink(shareId: string): Promise<void> {
+    await this.client.post(`/shares/${shareId}/unlock`);
+  }
+
+  async rotateShareLink(
+    shareId: string,
+    data: RotateShareLinkRequest
+  ): Promise<ShareLinkSummary> {
+    const response = await this.client.post<ApiResponse<{ share: ShareLinkSummary }>>(
+      `/shares/${shareId}/rotate`,
+      data
+    );
+    return response.data.data.share;
+  }
+
+  async getShareAccessLog(shareId: string, days?: number): Promise<ShareAccessTimeline> {
+    const response = await this.client.get<ApiResponse<ShareAccessTimeline>>(
+      `/shares/${shareId}/access-log`,
+      { params: { days } }
+    );
     return response.data.data;
   }
 
+  async getPublicShareLink(token: string, password?: string): Promise<PublicShareLinkResponse> {
+    const response = await this.client.get<ApiResponse<PublicShareLinkResponse>>(
+      `/shares/public/${token}`,
+      { params: { password } }
+    );
+    return response.data.data;
+  }
+
+  async downloadPublicShareLink(token: string, password?: string): Promise<Blob> {
+    const response = await this.client.get(`/shares/public/${token}/download`, {
+      params: { password },
+      responseType: 'blob',
+      timeout: 0,
+    });
+    return response.data;
+  }
+
+  async getPublicSharedFolder(
+    token: string,
+    password?: string,
+    folderId?: string
+  ): Promise<SharedFolderContents> {
+    const response = await this.client.get<ApiResponse<{ folder: SharedFolderContents }>>(
+      `/shares/public/${token}/folder`,
+      { params: { password, folderId } }
+    );
+    return response.data.data.folder;
+  }
+
+  async downloadPublicSharedFolderFile(
+    token: string,
+    fileId: string,
+    password?: string
+  ): Promise<Blob> {
+    const response = await this.client.get(`/shares/public/${token}/files/${fileId}/download`, {
+      params: { password },
+      responseType: 'blob',
+      timeout: 0,
+    });
+    return response.data;
+  }
+
+  async createFileRequest(data: CreateFileRequestRequest): Promise<FileRequestSummary> {
+    const response = await this.client.post<ApiResponse<{ request: FileRequestSummary }>>(
+      '/shares/requests',
+      data
+    );
+    return response.data.data.request;
+  }
+
+  async getPublicFileRequest(
+    token: string,
+    password?: string
+  ): Promise<PublicFileRequestResponse> {
+    const response = await this.client.get<ApiResponse<PublicFileRequestResponse>>(
+      `/shares/public/${token}/request`,
+      { params: { password } }
+    );
+    return response.data.data;
+  }
+
+  async uploadToFileRequest(
+    token: string,
+    encryptedBlob: Blob,
+    data: FileRequestUpload,
+    password?: string,
+    onProgress?: (loaded: number) => void
+  ): Promise<void> {
+    const formData = new FormData();
+    formData.append('file', encryptedBlob);
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        formData.append(key, value.toString());
+      }
+    });
+
+    // The password goes in the query so the link is checked before the file is sent
+    await this.client.post(`/shares/public/${token}/request/files`, formData, {
+      params: { password },
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: 0,
+      onUploadProgress: (event) => onProgress?.(event.loaded),
+    });
+  }
+
+  async claimReceivedFile(fileId: string, data: ClaimFileRequest): Promise<void> {
+    await this.client.post(`/files/${fileId}/claim`, data);
+  }
+
+  async getUserPublicKey(username: string): Promise<UserPublicKey> {
+    const response = await this.client.get<ApiResponse<{ user: UserPublicKey }>>(
+      `/users/${encodeURIComponent(username)}/public-key`
+    );
+    return response.data.data.user;
+  }
+
+  async shareFileWithUser(data: CreateUserShareRequest): Promise<UserShare> {
+    const response = await this.client.post<ApiResponse<{ share: UserShare }>>(
+      '/shares/users',
+      data
+    );
+    return response.data.data.share;
+  }
+
+  async getUserShares(fileId?: string): Promise<UserShare[]> {
+    const response = await this.client.get<ApiResponse<{ shares: UserShare[] }>>(
+      '/shares/users/sent',
+      { params: { fileId } }
+    );
+    return response.data.data.shares;
+  }
+
+  async getSharedWithMe(): Promise<ReceivedUserShare[]> {
+    const response = await this.client.get<ApiResponse<{ shares: ReceivedUserShare[] }>>(
+      '/shares/users/received'
+    );
+    return response.data.data.shares;
+  }
+
+  async downloadSharedWithMe(shareId: string): Promise<Blob> {
+    const response = await this.client.get(`/shares/users/received/${shareId}/download`, {
+      responseType: 'blob',
+      timeout: 0,
+    });
+    return response.data;
+  }
+
+  async getSharedFolderWithMe(
+    shareId: string,
+    folderId?: string
+  ): Promise<SharedFolderContents> {
+    const response = await this.client.get<ApiResponse<{ folder: SharedFolderContents }>>(
+      `/shares/users/received/${shareId}/folder`,
+      { params: { folderId } }
+    );
+    return response.data.data.folder;
+  }
+
+  async downloadSharedFolderFileWithMe(shareId: string, fileId: string): Promise<Blob> {
+    const response = await this.client.get(
+      `/shares/users/received/${shareId}/files/${fileId}/download`,
+      {
+        responseType: 'blob',
+        timeout: 0,
+      }
+    );
+    return response.data;
+  }
+
+  async updateSharedWithMeContent(
+    shareId: string,
+    encryptedBlob: Blob,
+    data: { fileSize: number; fileHash: string; encryptionAlgorithm: string }
+  ): Promise<void> {
+    const formData = new FormData();
+    formData.append('file', encryptedBlob);
+    formData.append('fileSize', data.fileSize.toString());
+    formData.append('fileHash', data.fileHash);
+    formData.append('encryptionAlgorithm', data.encryptionAlgorithm);
+
+    await this.client.put(`/shares/users/received/${shareId}/content`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: 0,
+    });
+  }
+
+  async updateUserShare(
+    shareId: string,
+    permission: UserSharePermission
+  ): Promise<UserShare> {
+    const response = await this.client.patch<ApiResponse<{ share: UserShare }>>(
+      `/shares/users/${shareId}`,
+      { permission }
+    );
+    return response.data.data.share;
+  }
+
+  async deleteUserShare(shareId: string): Promise<void> {
+    await this.client.delete(`/shares/users/${shareId}`);
+  }
+
   // ============================================================================
   // Storage Endpoints
   // ============================================================================
@@ -3,8 +3,17 @@
  * Handles user registration, login, and authentication operations
  */
 
-import CryptoService from './crypto.service';
+import CryptoService, { DEFAULT_KDF_PARAMS, LEGACY_KDF_PARAMS } from './crypto.service';
+import type { KdfParams, RecoveryKeys } from './crypto.service';
 import ApiService from './api.service';
+import type {
+  ActiveSession,
+  BackupCodeStatus,
+  LoginThrottle,
+  SecurityKey,
+  TwoFactorMethod,
+} from './api.service';
+import WebAuthnService from './webauthn.service';
 import StorageService from './storage.service';
 import type { UserData } from './storage.service';
 
@@ -21,6 +30,23 @@ export interface LoginData {
   email: string;
   password: string;
   rememberMe?: boolean;
+  twoFactorCode?: string;
+  backupCode?: string; // Used in place of twoFactorCode
+  useSecurityKey?: boolean; // Sign the login challenge with a security key
+}
+
+// Thrown by login; carries the wait imposed after repeated failures
+export interface LoginError extends Error {
+  throttle?: LoginThrottle;
+}
+
+export type LoginResult =
+  | { requiresTwoFactor: true; twoFactorMethods: TwoFactorMethod[] }
+  | { requiresTwoFactor: false; user: AuthUser };
+
+export interface AddedSecurityKey {
+  securityKey: SecurityKey;
+  backupCodes?: string[]; // Only when this is the first second factor
 }
 
 export interface TwoFactorData {
@@ -33,6 +59,10 @@ export interface ChangePasswordData {
   newPassword: string;
 }
 
+export interface ChangePasswordResult {
+  rollbackUntil: string; // The change can be undone with the old password until then
+}
+
 export interface AuthUser {
   id: string;
   email: string;
@@ -40,9 +70,21 @@ export interface AuthUser {
   storageUsed: number;
   storageLimit: number;
   twoFactorEnabled: boolean;
+  emailVerified?: boolean;
+  deletionScheduledAt?: string | null;
   createdAt: string;
 }
 
+export interface RegisteredUser extends AuthUser {
+  recoveryKey: string; // Shown to the user once; never stored or sent
+}
+
+export interface RecoverAccountData {
+  token: string;
+  recoveryKey: string;
+  newPassword: string;
+}
+
 export interface TwoFactorSetup {
   secret: string;
   qrCode: string;
@@ -56,14 +98,18 @@ export interface TwoFactorSetup {
 /**
  * Register a new user with client-side key generation
  * @param data - Registration data (email and password)
- * @returns Authenticated user
+ * @returns Authenticated user and the recovery key to show once
  */
-export async function register(data: RegisterData): Promise<AuthUser> {
+export async function register(data: RegisterData): Promise<RegisteredUser> {
   try {
     const { email, password } = data;
 
     // 1. Derive key from password
-    const { key: passwordDerivedKey, salt } = await CryptoService.deriveKeyFromPassword(password);
+    const { key: passwordDerivedKey, salt } = await CryptoService.deriveKeyFromPassword(
+      password,
+      undefined,
+      DEFAULT_KDF_PARAMS
+    );
 
     // 2. Generate master encryption key
     const masterKey = await CryptoService.generateMasterKey();
@@ -88,7 +134,12 @@ export async function register(data: RegisterData): Promise<AuthUser> {
     // 7. Create password hash for server authentication
     const passwordHash = await CryptoService.sha256(password + email.toLowerCase());
 
-    // 8. Register with server
+    // 8. Wrap a second copy of the master key with a recovery key
+    const recoveryKey = CryptoService.generateRecoveryKey();
+    const { wrappingKey, verifier } = await CryptoService.deriveRecoveryKeys(recoveryKey);
+    const recoveryWrappedMasterKey = await CryptoService.wrapKey(masterKey, wrappingKey);
+
+    // 9. Register with server
     const response = await ApiService.register({
       email,
       passwordHash,
@@ -96,16 +147,19 @@ export async function register(data: RegisterData): Promise<AuthUser> {
       encryptedPrivateKey: JSON.stringify(encryptedPrivateKey),
       wrappedMasterKey: JSON.stringify(wrappedMasterKey),
       salt: CryptoService.arrayBufferToBase64(salt),
+      kdf: DEFAULT_KDF_PARAMS,
+      recoveryKeyEncrypted: JSON.stringify(recoveryWrappedMasterKey),
+      recoveryVerifier: verifier,
     });
 
-    // 9. Store tokens
+    // 10. Store tokens
     StorageService.setTokens({
       accessToken: response.tokens.accessToken,
       refreshToken: response.tokens.refreshToken,
       expiresAt: Date.now() + response.tokens.expiresIn * 1000,
     });
 
-    // 10. Store user data
+    // 11. Store user data
     const userData: UserData = {
       id: response.user.id,
       email: response.user.email,
@@ -117,12 +171,12 @@ export async function register(data: RegisterData): Promise<AuthUser> {
     };
     StorageService.setUserData(userData);
 
-    // 11. Store wrapped master key and encrypted private key
+    // 12. Store wrapped master key and encrypted private key
     StorageService.setWrappedMasterKey(JSON.stringify(wrappedMasterKey));
     StorageService.setEncryptedPrivateKey(JSON.stringify(encryptedPrivateKey));
     StorageService.setPublicKey(publicKey);
 
-    // 12. Store master key and private key in memory
+    // 13. Store master key and private key in memory
     StorageService.setMasterKey(masterKey);
     StorageService.setPrivateKey(rsaKeyPair.privateKey);
 
@@ -134,6 +188,7 @@ export async function register(data: RegisterData): Promise<AuthUser> {
       storageLimit: 10 * 1024 * 1024 * 1024,
       twoFactorEnabled: false,
       createdAt: response.user.createdAt,
+      recoveryKey,
     };
   } catch (error: any) {
     console.error('Registration failed:', error);
@@ -150,52 +205,43 @@ export async function register(data: RegisterData): Promise<AuthUser> {
  * @param data - Login data (email, password, rememberMe)
  * @returns Authenticated user or requires 2FA
  */
-export async function login(
-  data: LoginData
-): Promise<{ user: AuthUser; requiresTwoFactor: boolean }> {
+export async function login(data: LoginData): Promise<LoginResult> {
   try {
-    const { email, password, rememberMe = false } = data;
+    const { email, password, rememberMe = false, twoFactorCode, backupCode, useSecurityKey } = data;
 
     // 1. Create password hash for server authentication
     const passwordHash = await CryptoService.sha256(password + email.toLowerCase());
 
     // 2. Login with server
-    const response = await ApiService.login({
+    let response = await ApiService.login({
       email,
       passwordHash,
+      totpCode: twoFactorCode,
+      backupCode,
     });
 
-    // 3. Check if 2FA is required
-    if (response.requiresTwoFactor) {
-      // Store temporary data for 2FA verification
-      StorageService.setTokens({
-        accessToken: response.tokens.accessToken,
-        refreshToken: response.tokens.refreshToken,
-        expiresAt: Date.now() + response.tokens.expiresIn * 1000,
-      });
+    // 3. Answer the security key challenge when asked to
+    if (response.requiresTwoFactor && useSecurityKey && response.webauthnOptions) {
+      const webauthnResponse = await WebAuthnService.getAssertion(response.webauthnOptions);
+      response = await ApiService.login({ email, passwordHash, webauthnResponse });
+    }
 
+    // 4. Check if 2FA is required
+    if (response.requiresTwoFactor) {
       return {
-        user: {
-          id: response.user.id,
-          email: response.user.email,
-          publicKey: response.user.publicKey,
-          storageUsed: response.user.storageUsed,
-          storageLimit: response.user.storageLimit,
-          twoFactorEnabled: response.user.twoFactorEnabled,
-          createdAt: response.user.createdAt,
-        },
         requiresTwoFactor: true,
+        twoFactorMethods: response.methods || ['totp'],
       };
     }
 
-    // 4. Store tokens
+    // 5. Store tokens
     StorageService.setTokens({
       accessToken: response.tokens.accessToken,
       refreshToken: response.tokens.refreshToken,
       expiresAt: Date.now() + response.tokens.expiresIn * 1000,
     });
 
-    // 5. Store user data
+    // 6. Store user data
     const userData: UserData = {
       id: response.user.id,
       email: response.user.email,
@@ -207,32 +253,39 @@ export async function login(
     };
     StorageService.setUserData(userData);
 
-    // 6. Store wrapped master key and encrypted private key
+    // 7. Store wrapped master key and encrypted private key
     StorageService.setWrappedMasterKey(response.user.wrappedMasterKey);
     StorageService.setEncryptedPrivateKey(response.user.encryptedPrivateKey);
     StorageService.setPublicKey(response.user.publicKey);
 
-    // 7. Derive key from password
+    // 8. Derive key from password with the account's KDF settings
     const salt = CryptoService.base64ToArrayBuffer(response.user.salt);
-    const { key: passwordDerivedKey } = await CryptoService.deriveKeyFromPassword(password, new Uint8Array(salt));
+    const { key: passwordDerivedKey } = await CryptoService.deriveKeyFromPassword(
+      password,
+      new Uint8Array(salt),
+      response.user.kdf ?? LEGACY_KDF_PARAMS
+    );
 
-    // 8. Unwrap master key
+    // 9. Unwrap master key
     const wrappedMasterKey = JSON.parse(response.user.wrappedMasterKey);
     const masterKey = await CryptoService.unwrapKey(wrappedMasterKey, passwordDerivedKey);
 
-    // 9. Decrypt private key
+    // 10. Decrypt private key
     const encryptedPrivateKey = JSON.parse(response.user.encryptedPrivateKey);
     const privateKeyBase64 = await CryptoService.decryptString(encryptedPrivateKey, masterKey);
     const privateKeyRaw = CryptoService.base64ToArrayBuffer(privateKeyBase64);
     const privateKey = await CryptoService.importPrivateKey(privateKeyRaw);
 
-    // 10. Store keys in memory
+    // 11. Store keys in memory
     StorageService.setMasterKey(masterKey);
     StorageService.setPrivateKey(privateKey);
 
-    // 11. Store remember me preference
+    // 12. Store remember me preference
     StorageService.setRememberMe(rememberMe);
 
+    // 13. Move to stronger KDF settings if the server asks
+    await upgradeKdfIfOutdated(password, passwordHash, masterKey, response.kdfUpgrade);
+
     return {
       user: {
         id: response.user.id,
@@ -247,7 +300,52 @@ export async function login(
     };
   } catch (error: any) {
     console.error('Login failed:', error);
-    throw new Error(error.message || 'Login failed');
+    const loginError: LoginError = new Error(error.message || 'Login failed');
+    if (error.statusCode === 429 && error.details?.retryAfter) {
+      loginError.throttle = error.details as LoginThrottle;
+    }
+    throw loginError;
+  }
+}
+
+/**
+ * Re-wrap the master key under stronger KDF settings after sign-in.
+ * Failures are not fatal: the old wrap stays valid and the upgrade is
+ * offered again at the next sign-in.
+ * @param kdfUpgrade - Settings requested by the server, if any
+ */
+async function upgradeKdfIfOutdated(
+  password: string,
+  passwordHash: string,
+  masterKey: CryptoKey,
+  kdfUpgrade?: KdfParams | null
+): Promise<void> {
+  if (!kdfUpgrade) {
+    return;
+  }
+
+  try {
+    const { key, salt } = await CryptoService.deriveKeyFromPassword(
+      password,
+      undefined,
+      kdfUpgrade
+    );
+    const wrappedMasterKey = await CryptoService.wrapKey(masterKey, key);
+
+    // Never replace a wrap with one that does not open
+    await CryptoService.unwrapKey(wrappedMasterKey, key);
+
+    const masterKeyEncrypted = JSON.stringify(wrappedMasterKey);
+    await ApiService.upgradeKdf({
+      password: passwordHash,
+      salt: CryptoService.arrayBufferToBase64(salt.buffer as ArrayBuffer),
+      kdf: kdfUpgrade,
+      masterKeyEncrypted,
+    });
+
+    StorageService.setWrappedMasterKey(masterKeyEncrypted);
+  } catch (error) {
+    console.error('KDF upgrade failed:', error);
   }
 }
 
@@ -284,7 +382,8 @@ export async function verifyTwoFactor(
     const salt = CryptoService.base64ToArrayBuffer(response.user.salt);
     const { key: passwordDerivedKey } = await CryptoService.deriveKeyFromPassword(
       password,
-      new Uint8Array(salt)
+      new Uint8Array(salt),
+      response.user.kdf ?? LEGACY_KDF_PARAMS
     );
 
     // 4. Unwrap master key
@@ -304,6 +403,10 @@ export async function verifyTwoFactor(
     // 7. Store remember me preference
     StorageService.setRememberMe(rememberMe);
 
+    // 8. Move to stronger KDF settings if the server asks
+    const passwordHash = await CryptoService.sha256(password + email.toLowerCase());
+    await upgradeKdfIfOutdated(password, passwordHash, masterKey, response.kdfUpgrade);
+
     return {
       id: response.user.id,
       email: response.user.email,
@@ -376,6 +479,18 @@ export async function disableTwoFactor(token: string, password: string): Promise
   }
 }
 
+/**
+ * Get whether 2FA is enabled and how many backup codes are unused
+ */
+export async function getBackupCodeStatus(): Promise<BackupCodeStatus> {
+  try {
+    return await ApiService.getBackupCodeStatus();
+  } catch (error: any) {
+    console.error('Failed to get backup code status:', error);
+    throw new Error(error.message || 'Failed to get backup code status');
+  }
+}
+
 /**
  * Regenerate backup codes
  * @param password - User password for verification
@@ -398,6 +513,240 @@ export async function regenerateBackupCodes(password: string): Promise<string[]>
   }
 }
 
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/**
+ * List the devices the current user is signed in on
+ */
+export async function getSessions(): Promise<ActiveSession[]> {
+  try {
+    return await ApiService.getSessions();
+  } catch (error: any) {
+    console.error('Failed to get sessions:', error);
+    throw new Error(error.message || 'Failed to get sessions');
+  }
+}
+
+/**
+ * Sign out another device
+ * @param id - Session ID
+ */
+export async function revokeSession(id: string): Promise<void> {
+  try {
+    await ApiService.revokeSession(id);
+  } catch (error: any) {
+    console.error('Session revocation failed:', error);
+    throw new Error(error.message || 'Failed to sign out device');
+  }
+}
+
+/**
+ * Sign out every device except this one
+ * @returns Number of devices signed out
+ */
+export async function revokeOtherSessions(): Promise<number> {
+  try {
+    const response = await ApiService.revokeOtherSessions();
+    return response.count;
+  } catch (error: any) {
+    console.error('Session revocation failed:', error);
+    throw new Error(error.message || 'Failed to sign out other devices');
+  }
+}
+
+// ============================================================================
+// Security Keys
+// ============================================================================
+
+/**
+ * List the security keys registered for the current user
+ */
+export async function getSecurityKeys(): Promise<SecurityKey[]> {
+  try {
+    return await ApiService.getSecurityKeys();
+  } catch (error: any) {
+    console.error('Failed to get security keys:', error);
+    throw new Error(error.message || 'Failed to get security keys');
+  }
+}
+
+/**
+ * Register a new security key
+ * @param name - Label shown in the key list
+ * @returns The new key, plus backup codes if it is the first second factor
+ */
+export async function addSecurityKey(name: string): Promise<AddedSecurityKey> {
+  try {
+    const options = await ApiService.getSecurityKeyRegistrationOptions();
+    const credential = await WebAuthnService.createCredential(options);
+    const response = await ApiService.registerSecurityKey(name, credential);
+
+    StorageService.updateUserData({ twoFactorEnabled: true });
+
+    return {
+      securityKey: response.credential,
+      backupCodes: response.backupCodes,
+    };
+  } catch (error: any) {
+    console.error('Security key registration failed:', error);
+    throw new Error(error.message || 'Failed to register security key');
+  }
+}
+
+/**
+ * Rename a security key
+ * @param id - Security key ID
+ * @param name - New label
+ */
+export async function renameSecurityKey(id: string, name: string): Promise<SecurityKey> {
+  try {
+    return await ApiService.renameSecurityKey(id, name);
+  } catch (error: any) {
+    console.error('Security key rename failed:', error);
+    throw new Error(error.message || 'Failed to rename security key');
+  }
+}
+
+/**
+ * Remove a security key
+ * @param id - Security key ID
+ * @param password - User password for verification
+ */
+export async function removeSecurityKey(id: string, password: string): Promise<void> {
+  try {
+    const userData = StorageService.getUserData();
+    if (!userData) {
+      throw new Error('User not authenticated');
+    }
+
+    const passwordHash = await CryptoService.sha256(password + userData.email.toLowerCase());
+
+    await ApiService.deleteSecurityKey(id, passwordHash);
+  } catch (error: any) {
+    console.error('Security key removal failed:', error);
+    throw new Error(error.message || 'Failed to remove security key');
+  }
+}
+
+// ============================================================================
+// Account Lockout
+// ============================================================================
+
+/**
+ * Unlock an account with the token from the lockout email
+ * @param token - Token from the link
+ */
+export async function unlockAccount(token: string): Promise<void> {
+  try {
+    await ApiService.unlockAccount(token);
+  } catch (error: any) {
+    console.error('Account unlock failed:', error);
+    throw new Error(error.message || 'Failed to unlock account');
+  }
+}
+
+// ============================================================================
+// Email Verification
+// ============================================================================
+
+/**
+ * Confirm an email address with the token from a verification link
+ * @param token - Token from the link
+ * @returns The verified address
+ */
+export async function verifyEmail(token: string): Promise<string> {
+  try {
+    const response = await ApiService.verifyEmail(token);
+    return response.email;
+  } catch (error: any) {
+    console.error('Email verification failed:', error);
+    throw new Error(error.message || 'Failed to verify email address');
+  }
+}
+
+/**
+ * Send a new verification link to the current user's email
+ */
+export async function resendVerification(): Promise<void> {
+  try {
+    await ApiService.resendVerification();
+  } catch (error: any) {
+    console.error('Resending verification failed:', error);
+    throw new Error(error.message || 'Failed to send verification email');
+  }
+}
+
+// ============================================================================
+// Account Recovery
+// ============================================================================
+
+/**
+ * Request a recovery link by email
+ * @param email - Account email
+ */
+export async function requestRecovery(email: string): Promise<void> {
+  try {
+    await ApiService.requestRecovery(email);
+  } catch (error: any) {
+    console.error('Recovery request failed:', error);
+    throw new Error(error.message || 'Failed to request account recovery');
+  }
+}
+
+/**
+ * Reset the password with the recovery key. The master key is unwrapped and
+ * re-wrapped under the new password locally, so the server never sees it.
+ * @param data - Recovery link token, recovery key and new password
+ */
+export async function recoverAccount(data: RecoverAccountData): Promise<void> {
+  try {
+    const { token, recoveryKey, newPassword } = data;
+
+    // 1. Exchange the emailed link for the recovery copy of the master key
+    const challenge = await ApiService.verifyRecoveryLink(token);
+
+    // 2. Unwrap the master key with the recovery key
+    let recoveryKeys: RecoveryKeys;
+    let masterKey: CryptoKey;
+    try {
+      recoveryKeys = await CryptoService.deriveRecoveryKeys(recoveryKey);
+      masterKey = await CryptoService.unwrapKey(
+        JSON.parse(challenge.recoveryKeyEncrypted),
+        recoveryKeys.wrappingKey
+      );
+    } catch {
+      throw new Error('Invalid recovery key');
+    }
+
+    // 3. Re-wrap the master key under the new password
+    const { key: passwordDerivedKey, salt } = await CryptoService.deriveKeyFromPassword(
+      newPassword,
+      undefined,
+      DEFAULT_KDF_PARAMS
+    );
+    const wrappedMasterKey = await CryptoService.wrapKey(masterKey, passwordDerivedKey);
+
+    // 4. Store the new password and wrapped key
+    const passwordHash = await CryptoService.sha256(
+      newPassword + challenge.email.toLowerCase()
+    );
+
+    await ApiService.resetPasswordWithRecoveryKey({
+      token,
+      recoveryVerifier: recoveryKeys.verifier,
+      passwordHash,
+      salt: CryptoService.arrayBufferToBase64(salt.buffer as ArrayBuffer),
+      kdf: DEFAULT_KDF_PARAMS,
+      wrappedMasterKey: JSON.stringify(wrappedMasterKey),
+    });
+  } catch (error: any) {
+    console.error('Account recovery failed:', error);
+    throw new Error(error.message || 'Account recovery failed');
+  }
+}
+
 // ============================================================================
 // Logout
 // ============================================================================
@@ -459,10 +808,14 @@ export async function unlockSession(password: string): Promise<AuthUser> {
     const salt = CryptoService.base64ToArrayBuffer(response.user.salt);
     const { key: passwordDerivedKey } = await CryptoService.deriveKeyFromPassword(
       password,
-      new Uint8Array(salt)
+      new Uint8Array(salt),
+      response.user.kdf ?? LEGACY_KDF_PARAMS
     );
 
-    const wrappedMasterKey = JSON.parse(wrappedMasterKeyData);
+    // The salt and KDF settings belong to the server's wrap, which another
+    // device may have upgraded since this one stored its copy
+    StorageService.setWrappedMasterKey(response.user.wrappedMasterKey);
+    const wrappedMasterKey = JSON.parse(response.user.wrappedMasterKey);
     const masterKey = await CryptoService.unwrapKey(wrappedMasterKey, passwordDerivedKey);
 
     const encryptedPrivateKey = JSON.parse(encryptedPrivateKeyData);
@@ -474,6 +827,8 @@ export async function unlockSession(password: string): Promise<AuthUser> {
     StorageService.setMasterKey(masterKey);
     StorageService.setPrivateKey(privateKey);
 
+    await upgradeKdfIfOutdated(password, passwordHash, masterKey, response.kdfUpgrade);
+
     return {
       id: userData.id,
       email: userData.email,
@@ -545,9 +900,11 @@ export async function updateEmail(newEmail: string, password: string): Promise<A
 
 /**
  * Change password and re-encrypt keys
+ * The new salt and both re-wrapped keys are sent in one request, so the
+ * server never holds a password that does not match the stored keys.
  * @param data - Current and new password
  */
-export async function changePassword(data: ChangePasswordData): Promise<void> {
+export async function changePassword(data: ChangePasswordData): Promise<ChangePasswordResult> {
   try {
     const userData = StorageService.getUserData();
     const masterKey = StorageService.getMasterKey();
@@ -559,12 +916,27 @@ export async function changePassword(data: ChangePasswordData): Promise<void> {
 
     // 1. Derive new key from new password
     const { key: newPasswordDerivedKey, salt: newSalt } =
-      await CryptoService.deriveKeyFromPassword(data.newPassword);
+      await CryptoService.deriveKeyFromPassword(data.newPassword, undefined, DEFAULT_KDF_PARAMS);
 
     // 2. Re-wrap master key with new password-derived key
     const newWrappedMasterKey = await CryptoService.wrapKey(masterKey, newPasswordDerivedKey);
 
-    // 3. Create password hashes
+    // 3. Re-encrypt private key under the master key
+    const privateKeyRaw = await CryptoService.exportPrivateKey(privateKey);
+    const newEncryptedPrivateKey = await CryptoService.encryptString(
+      CryptoService.arrayBufferToBase64(privateKeyRaw),
+      masterKey
+    );
+
+    // 4. Make sure the new blobs open before the old ones are replaced
+    try {
+      const unwrapped = await CryptoService.unwrapKey(newWrappedMasterKey, newPasswordDerivedKey);
+      await CryptoService.decryptString(newEncryptedPrivateKey, unwrapped);
+    } catch {
+      throw new Error('Failed to re-encrypt keys; your password was not changed');
+    }
+
+    // 5. Create password hashes
     const currentPasswordHash = await CryptoService.sha256(
       data.currentPassword + userData.email.toLowerCase()
     );
@@ -572,16 +944,23 @@ export async function changePassword(data: ChangePasswordData): Promise<void> {
       data.newPassword + userData.email.toLowerCase()
     );
 
-    // 4. Update on server
-    await ApiService.updateProfile({
-      currentPasswordHash,
-      newPasswordHash,
-      salt: CryptoService.arrayBufferToBase64(newSalt),
-      wrappedMasterKey: JSON.stringify(newWrappedMasterKey),
+    // 6. Replace password and keys on server in one transaction
+    const masterKeyEncrypted = JSON.stringify(newWrappedMasterKey);
+    const privateKeyEncrypted = JSON.stringify(newEncryptedPrivateKey);
+    const result = await ApiService.changePassword({
+      currentPassword: currentPasswordHash,
+      newPassword: newPasswordHash,
+      salt: CryptoService.arrayBufferToBase64(newSalt.buffer as ArrayBuffer),
+      kdf: DEFAULT_KDF_PARAMS,
+      masterKeyEncrypted,
+      privateKeyEncrypted,
     });
 
-    // 5. Update local storage
-    StorageService.setWrappedMasterKey(JSON.stringify(newWrappedMasterKey));
+    // 7. Update local storage
+    StorageService.setWrappedMasterKey(masterKeyEncrypted);
+    StorageService.setEncryptedPrivateKey(privateKeyEncrypted);
+
+    return result;
   } catch (error: any) {
     console.error('Change password failed:', error);
     throw new Error(error.message || 'Failed to change password');
@@ -589,10 +968,52 @@ export async function changePassword(data: ChangePasswordData): Promise<void> {
 }
 
 /**
- * Delete user account
+ * Undo the last password change while the rollback window is open
+ * @param previousPassword - Password from before the change
+ * @param currentPassword - Password set by the change
+ */
+export async function rollbackPasswordChange(
+  previousPassword: string,
+  currentPassword: string
+): Promise<void> {
+  try {
+    const userData = StorageService.getUserData();
+    if (!userData) {
+      throw new Error('User not authenticated');
+    }
+
+    const previousPasswordHash = await CryptoService.sha256(
+      previousPassword + userData.email.toLowerCase()
+    );
+    const currentPasswordHash = await CryptoService.sha256(
+      currentPassword + userData.email.toLowerCase()
+    );
+
+    const restored = await ApiService.rollbackPasswordChange(
+      previousPasswordHash,
+      currentPasswordHash
+    );
+
+    // The master key is unchanged, so the in-memory keys stay valid
+    StorageService.setWrappedMasterKey(restored.masterKeyEncrypted);
+    StorageService.setEncryptedPrivateKey(restored.privateKeyEncrypted);
+  } catch (error: any) {
+    console.error('Password change rollback failed:', error);
+    throw new Error(error.message || 'Failed to undo password change');
+  }
+}
+
+/**
+ * Schedule account deletion. The account stays usable until the grace period
+ * ends, so local data is kept.
  * @param password - User password for verification
+ * @param secondFactor - TOTP or backup code when two-factor is enabled
+ * @returns When the account will be erased
  */
-export async function deleteAccount(password: string): Promise<void> {
+export async function deleteAccount(
+  password: string,
+  secondFactor: { totpCode?: string; backupCode?: string } = {}
+): Promise<string> {
   try {
     const userData = StorageService.getUserData();
     if (!userData) {
@@ -601,16 +1022,30 @@ export async function deleteAccount(password: string): Promise<void> {
 
     const passwordHash = await CryptoService.sha256(password + userData.email.toLowerCase());
 
-    await ApiService.deleteAccount(passwordHash);
+    const { deletionScheduledAt } = await ApiService.deleteAccount({
+      password: passwordHash,
+      ...secondFactor,
+    });
 
-    // Clear all data
-    StorageService.clearAllData();
+    return deletionScheduledAt;
   } catch (error: any) {
     console.error('Delete account failed:', error);
     throw new Error(error.message || 'Failed to delete account');
   }
 }
 
+/**
+ * Cancel a scheduled account deletion
+ */
+export async function cancelAccountDeletion(): Promise<void> {
+  try {
+    await ApiService.cancelAccountDeletion();
+  } catch (error: any) {
+    console.error('Cancel account deletion failed:', error);
+    throw new Error(error.message || 'Failed to cancel account deletion');
+  }
+}
+
 // ============================================================================
 // Session Management
 // ============================================================================
@@ -655,14 +1090,29 @@ const AuthService = {
   setupTwoFactor,
   enableTwoFactor,
   disableTwoFactor,
+  getBackupCodeStatus,
   regenerateBackupCodes,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  getSecurityKeys,
+  addSecurityKey,
+  renameSecurityKey,
+  removeSecurityKey,
+  unlockAccount,
+  verifyEmail,
+  resendVerification,
+  requestRecovery,
+  recoverAccount,
   logout,
   lockSession,
   unlockSession,
   getProfile,
   updateEmail,
   changePassword,
+  rollbackPasswordChange,
   deleteAccount,
+  cancelAccountDeletion,
   isAuthenticated,
   hasValidSession,
   getCurrentUser,
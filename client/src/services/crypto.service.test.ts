@@ -0,0 +1,188 @@
+/**
+ * Tests for the streaming AES-GCM file container
+ * Round-trips files and checks that truncated, reordered and altered
+ * containers are rejected
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  ENCRYPTION_ALGORITHM_STREAM,
+  decryptFile,
+  encryptFile,
+  generateFileKey,
+  getStreamEncryptedSize,
+} from './crypto.service';
+
+// Plaintext chunk size of the container, as written to its header
+const CHUNK_SIZE = 64 * 1024 * 1024;
+const HEADER_LENGTH = 22;
+const TAG_LENGTH = 16;
+const ENCRYPTED_CHUNK_SIZE = CHUNK_SIZE + TAG_LENGTH;
+
+// Multi-chunk files take a few seconds to encrypt
+const LARGE_FILE_TIMEOUT = 120_000;
+
+/**
+ * Build a plaintext whose bytes depend on their position
+ */
+function makePlaintext(size: number) {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    bytes[i] = (i * 31 + (i >>> 16)) & 0xff;
+  }
+  return bytes;
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+async function toBytes(blob: Blob) {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Copy a container with one bit of the given byte flipped
+ */
+async function flipBit(blob: Blob, position: number): Promise<Blob> {
+  const byte = await toBytes(blob.slice(position, position + 1));
+  byte[0] ^= 0x01;
+  return new Blob([blob.slice(0, position), byte, blob.slice(position + 1)]);
+}
+
+function decrypt(encrypted: Blob, key: CryptoKey): Promise<Blob> {
+  return decryptFile(encrypted, '', key, undefined, ENCRYPTION_ALGORITHM_STREAM);
+}
+
+describe('streaming file container', () => {
+  let key: CryptoKey;
+
+  beforeAll(async () => {
+    key = await generateFileKey();
+  });
+
+  describe('single chunk', () => {
+    it('should round-trip a small file', async () => {
+      const plaintext = makePlaintext(1000);
+
+      const { encryptedBlob } = await encryptFile(new Blob([plaintext]), key);
+
+      expect(encryptedBlob.size).toBe(getStreamEncryptedSize(plaintext.length));
+      expect(await toBytes(await decrypt(encryptedBlob, key))).toEqual(plaintext);
+    });
+
+    it('should round-trip an empty file', async () => {
+      const { encryptedBlob } = await encryptFile(new Blob([]), key);
+
+      expect(encryptedBlob.size).toBe(HEADER_LENGTH + TAG_LENGTH);
+      expect((await decrypt(encryptedBlob, key)).size).toBe(0);
+    });
+
+    it('should detect the container without the stored algorithm', async () => {
+      const plaintext = makePlaintext(100);
+      const { encryptedBlob } = await encryptFile(new Blob([plaintext]), key);
+
+      const decrypted = await decryptFile(encryptedBlob, '', key);
+
+      expect(await toBytes(decrypted)).toEqual(plaintext);
+    });
+
+    it('should reject a container cut down to its header', async () => {
+      const { encryptedBlob } = await encryptFile(new Blob([makePlaintext(100)]), key);
+
+      await expect(decrypt(encryptedBlob.slice(0, HEADER_LENGTH), key)).rejects.toThrow(
+        'truncated'
+      );
+    });
+
+    it('should reject an altered ciphertext byte', async () => {
+      const { encryptedBlob } = await encryptFile(new Blob([makePlaintext(100)]), key);
+
+      await expect(
+        decrypt(await flipBit(encryptedBlob, HEADER_LENGTH + 10), key)
+      ).rejects.toThrow();
+    });
+
+    it('should reject an altered header', async () => {
+      const { encryptedBlob } = await encryptFile(new Blob([makePlaintext(100)]), key);
+
+      // Last byte of the base nonce
+      await expect(decrypt(await flipBit(encryptedBlob, HEADER_LENGTH - 1), key)).rejects.toThrow();
+    });
+
+    it('should reject another key', async () => {
+      const { encryptedBlob } = await encryptFile(new Blob([makePlaintext(100)]), key);
+
+      await expect(decrypt(encryptedBlob, await generateFileKey())).rejects.toThrow();
+    });
+  });
+
+  describe('several chunks', () => {
+    let plaintext = new Uint8Array(0);
+    let encrypted: Blob;
+
+    const chunkStart = (index: number) => HEADER_LENGTH + index * ENCRYPTED_CHUNK_SIZE;
+
+    beforeAll(async () => {
+      // Two full chunks and a short final one
+      plaintext = makePlaintext(2 * CHUNK_SIZE + 100);
+      ({ encryptedBlob: encrypted } = await encryptFile(new Blob([plaintext]), key));
+    }, LARGE_FILE_TIMEOUT);
+
+    it(
+      'should round-trip every chunk',
+      async () => {
+        expect(encrypted.size).toBe(getStreamEncryptedSize(plaintext.length));
+
+        const decrypted = await toBytes(await decrypt(encrypted, key));
+
+        expect(decrypted.length).toBe(plaintext.length);
+        expect(sameBytes(decrypted, plaintext)).toBe(true);
+      },
+      LARGE_FILE_TIMEOUT
+    );
+
+    it(
+      'should reject a container missing its final chunk',
+      async () => {
+        const truncated = encrypted.slice(0, chunkStart(2));
+
+        await expect(decrypt(truncated, key)).rejects.toThrow('truncated');
+      },
+      LARGE_FILE_TIMEOUT
+    );
+
+    it(
+      'should reject swapped chunks',
+      async () => {
+        const reordered = new Blob([
+          encrypted.slice(0, chunkStart(0)),
+          encrypted.slice(chunkStart(1), chunkStart(2)),
+          encrypted.slice(chunkStart(0), chunkStart(1)),
+          encrypted.slice(chunkStart(2)),
+        ]);
+
+        await expect(decrypt(reordered, key)).rejects.toThrow('failed authentication');
+      },
+      LARGE_FILE_TIMEOUT
+    );
+
+    it(
+      'should reject an altered byte in a middle chunk',
+      async () => {
+        const tampered = await flipBit(encrypted, chunkStart(1) + 1234);
+
+        await expect(decrypt(tampered, key)).rejects.toThrow('failed authentication');
+      },
+      LARGE_FILE_TIMEOUT
+    );
+  });
+});
@@ -23,16 +23,78 @@ export interface DerivedKeyResult {
   salt: Uint8Array;
 }
 
+export type KdfAlgorithm = 'PBKDF2-SHA256' | 'ARGON2ID';
+
+// Password KDF settings, stored per user next to the salt
+export interface KdfParams {
+  algorithm: KdfAlgorithm;
+  iterations: number;
+  memoryKib?: number; // Argon2id only
+  parallelism?: number; // Argon2id only
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
 
 const PBKDF2_ITERATIONS = 100000;
+const KDF_SALT_LENGTH = 32;
 const AES_KEY_LENGTH = 256;
 const RSA_KEY_LENGTH = 4096;
 const AES_ALGORITHM = 'AES-GCM';
 const IV_LENGTH = 12; // 96 bits for GCM
 const CHUNK_SIZE = 64 * 1024 * 1024; // 64MB chunks for large files
+const GCM_TAG_LENGTH = 16; // 128-bit authentication tag
+
+/**
+ * Encryption algorithm identifiers as stored in File.encryptionAlgorithm
+ */
+export const ENCRYPTION_ALGORITHM_LEGACY = 'AES-256-GCM';
+export const ENCRYPTION_ALGORITHM_STREAM = 'AES-256-GCM-STREAM-V1';
+
+// Streaming container header:
+// magic (4) | version (1) | algorithm (1) | chunk size (4, big-endian) | base nonce (12)
+const STREAM_MAGIC = new Uint8Array([0x43, 0x53, 0x45, 0x46]); // "CSEF"
+const STREAM_VERSION = 1;
+const STREAM_ALGORITHM_AES_256_GCM = 1;
+const STREAM_HEADER_LENGTH = 10 + IV_LENGTH;
+
+// Filename search (blind index): HMAC tokens truncated to 128 bits
+const SEARCH_KEY_INFO = 'CrypticStorage filename search v1';
+const SEARCH_NGRAM_LENGTH = 3;
+const SEARCH_TOKEN_BYTES = 16;
+const MAX_SEARCH_TOKENS = 1024;
+const MAX_QUERY_TOKENS = 64;
+
+// Account recovery: 160-bit key shown to the user as base32 in groups of four
+const RECOVERY_KEY_BYTES = 20;
+const RECOVERY_KEY_GROUP_LENGTH = 4;
+const RECOVERY_WRAP_INFO = 'CrypticStorage recovery wrap v1';
+const RECOVERY_VERIFIER_INFO = 'CrypticStorage recovery verifier v1';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Public share links: 256-bit secret carried only in the URL fragment
+const SHARE_LINK_SECRET_BYTES = 32;
+const SHARE_LINK_WRAP_INFO = 'CrypticStorage share link wrap v1';
+const SHARE_LINK_VERIFIER_INFO = 'CrypticStorage share link verifier v1';
+
+/**
+ * Settings of accounts created before KDF descriptors were stored
+ */
+export const LEGACY_KDF_PARAMS: KdfParams = {
+  algorithm: 'PBKDF2-SHA256',
+  iterations: PBKDF2_ITERATIONS,
+};
+
+/**
+ * Settings for new wraps (OWASP-recommended Argon2id, 64 MiB)
+ */
+export const DEFAULT_KDF_PARAMS: KdfParams = {
+  algorithm: 'ARGON2ID',
+  iterations: 3,
+  memoryKib: 64 * 1024,
+  parallelism: 1,
+};
 
 // ============================================================================
 // Helper Functions - ArrayBuffer/Base64 Conversions
@@ -90,46 +152,115 @@ export function generateRandomBytes(length: number): Uint8Array {
 // ============================================================================
 
 /**
- * Derive a cryptographic key from a password using PBKDF2
+ * Derive a cryptographic key from a password
  * @param password - User password
  * @param salt - Salt (if not provided, a new one will be generated)
- * @param iterations - Number of iterations (default: 100,000)
+ * @param params - KDF settings (default: Argon2id)
  * @returns Derived key and salt
  */
 export async function deriveKeyFromPassword(
   password: string,
   salt?: Uint8Array,
-  iterations: number = PBKDF2_ITERATIONS
+  params: KdfParams = DEFAULT_KDF_PARAMS
 ): Promise<DerivedKeyResult> {
-  const usedSalt = salt || generateRandomBytes(32);
+  const usedSalt = salt || generateRandomBytes(KDF_SALT_LENGTH);
+  const keyBytes = await derivePasswordBits(password, usedSalt, params);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    keyBytes,
+    {
+      name: AES_ALGORITHM,
+      length: AES_KEY_LENGTH,
+    },
+    true,
+    ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+  );
+
+  return { key, salt: usedSalt };
+}
+
+/**
+ * Run the password KDF described by the settings
+ */
+async function derivePasswordBits(
+  password: string,
+  salt: Uint8Array,
+  params: KdfParams
+): Promise<ArrayBuffer> {
+  return params.algorithm === 'ARGON2ID'
+    ? deriveArgon2idBits(password, salt, params)
+    : derivePbkdf2Bits(password, salt, params.iterations);
+}
 
+/**
+ * PBKDF2-HMAC-SHA256 through Web Crypto
+ */
+async function derivePbkdf2Bits(
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<ArrayBuffer> {
   // Import password as key material
   const passwordKey = await crypto.subtle.importKey(
     'raw',
     stringToArrayBuffer(password),
     'PBKDF2',
     false,
-    ['deriveBits', 'deriveKey']
+    ['deriveBits']
   );
 
-  // Derive key using PBKDF2
-  const key = await crypto.subtle.deriveKey(
+  return await crypto.subtle.deriveBits(
     {
       name: 'PBKDF2',
-      salt: usedSalt,
+      salt,
       iterations,
       hash: 'SHA-256',
     },
     passwordKey,
-    {
-      name: AES_ALGORITHM,
-      length: AES_KEY_LENGTH,
-    },
-    true,
-    ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+    AES_KEY_LENGTH
   );
+}
 
-  return { key, salt: usedSalt };
+/**
+ * Argon2id through WebAssembly; Web Crypto has no memory-hard KDF.
+ * The module is loaded on first use to keep it out of the main bundle.
+ */
+async function deriveArgon2idBits(
+  password: string,
+  salt: Uint8Array,
+  params: KdfParams
+): Promise<ArrayBuffer> {
+  if (!params.memoryKib || !params.parallelism) {
+    throw new Error('Argon2id requires memory and parallelism settings');
+  }
+
+  const { argon2id } = await import('hash-wasm');
+  const hash = await argon2id({
+    password,
+    salt,
+    iterations: params.iterations,
+    memorySize: params.memoryKib,
+    parallelism: params.parallelism,
+    hashLength: AES_KEY_LENGTH / 8,
+    outputType: 'binary',
+  });
+
+  return hash.buffer.slice(hash.byteOffset, hash.byteOffset + hash.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Whether a stored descriptor is weaker than the default settings
+ */
+export function isKdfOutdated(params: KdfParams): boolean {
+  if (params.algorithm !== DEFAULT_KDF_PARAMS.algorithm) {
+    return true;
+  }
+
+  return (
+    params.iterations < DEFAULT_KDF_PARAMS.iterations ||
+    (params.memoryKib ?? 0) < DEFAULT_KDF_PARAMS.memoryKib!
+  );
 }
 
 // ============================================================================
@@ -305,6 +436,127 @@ export async function unwrapKey(
   );
 }
 
+// ============================================================================
+// File Keys
+// ============================================================================
+
+/**
+ * Generate a random per-file AES-256 key
+ * @returns CryptoKey for AES-256-GCM
+ */
+export async function generateFileKey(): Promise<CryptoKey> {
+  return await generateMasterKey();
+}
+
+/**
+ * Wrap a file key with the master key for storage as File.fileKeyEncrypted
+ * @param fileKey - Per-file key
+ * @param masterKey - User's master key
+ * @returns Serialized wrapped key
+ */
+export async function wrapFileKey(
+  fileKey: CryptoKey,
+  masterKey: CryptoKey
+): Promise<string> {
+  return JSON.stringify(await wrapKey(fileKey, masterKey));
+}
+
+/**
+ * Unwrap a file key stored as File.fileKeyEncrypted
+ * @param fileKeyEncrypted - Serialized wrapped key
+ * @param masterKey - User's master key
+ * @returns Per-file key
+ */
+export async function unwrapFileKey(
+  fileKeyEncrypted: string,
+  masterKey: CryptoKey
+): Promise<CryptoKey> {
+  return await unwrapKey(JSON.parse(fileKeyEncrypted) as EncryptedData, masterKey);
+}
+
+/**
+ * Wrap a file key with another user's RSA public key for a direct share
+ * @param fileKey - Per-file key
+ * @param publicKeyData - Recipient's Base64 encoded public key
+ * @returns Base64 encoded RSA-OAEP wrapped key
+ */
+export async function wrapFileKeyForRecipient(
+  fileKey: CryptoKey,
+  publicKeyData: string
+): Promise<string> {
+  const publicKey = await importPublicKey(publicKeyData);
+  const wrappedKey = await crypto.subtle.wrapKey('raw', fileKey, publicKey, {
+    name: 'RSA-OAEP',
+  });
+  return arrayBufferToBase64(wrappedKey);
+}
+
+/**
+ * Unwrap a file key shared with the current user
+ * @param wrappedKeyData - Base64 encoded RSA-OAEP wrapped key
+ * @param privateKey - Current user's RSA private key
+ * @returns Per-file key
+ */
+export async function unwrapSharedFileKey(
+  wrappedKeyData: string,
+  privateKey: CryptoKey
+): Promise<CryptoKey> {
+  return await crypto.subtle.unwrapKey(
+    'raw',
+    base64ToArrayBuffer(wrappedKeyData),
+    privateKey,
+    {
+      name: 'RSA-OAEP',
+    },
+    {
+      name: AES_ALGORITHM,
+      length: AES_KEY_LENGTH,
+    },
+    true,
+    ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+  );
+}
+
+// ============================================================================
+// Folder Keys
+// ============================================================================
+
+/**
+ * Generate a random per-folder AES-256 key.
+ * Every item in a folder also has its key wrapped with the folder key, so the
+ * key of a shared folder unlocks the whole subtree below it.
+ * @returns CryptoKey for AES-256-GCM
+ */
+export async function generateFolderKey(): Promise<CryptoKey> {
+  return await generateMasterKey();
+}
+
+/**
+ * Wrap a file or folder key with its parent folder's key (parentKeyEncrypted)
+ * @param key - File or folder key
+ * @param parentFolderKey - Key of the containing folder
+ * @returns Serialized wrapped key
+ */
+export async function wrapKeyForParent(
+  key: CryptoKey,
+  parentFolderKey: CryptoKey
+): Promise<string> {
+  return JSON.stringify(await wrapKey(key, parentFolderKey));
+}
+
+/**
+ * Unwrap a file or folder key stored as parentKeyEncrypted
+ * @param parentKeyEncrypted - Serialized wrapped key
+ * @param parentFolderKey - Key of the containing folder
+ * @returns File or folder key
+ */
+export async function unwrapKeyFromParent(
+  parentKeyEncrypted: string,
+  parentFolderKey: CryptoKey
+): Promise<CryptoKey> {
+  return await unwrapKey(JSON.parse(parentKeyEncrypted) as EncryptedData, parentFolderKey);
+}
+
 // ============================================================================
 // String Encryption/Decryption (for filenames, folder names)
 // ============================================================================
@@ -362,67 +614,646 @@ export async function decryptString(
   return arrayBufferToString(decryptedData);
 }
 
+// ============================================================================
+// Account Recovery
+// ============================================================================
+
+export interface RecoveryKeys {
+  wrappingKey: CryptoKey; // Wraps the recovery copy of the master key
+  verifier: string; // Lets the server check the recovery key without learning it
+}
+
+/**
+ * Generate a random recovery key, formatted for the user to write down
+ * @returns Recovery key such as ABCD-EFGH-...
+ */
+export function generateRecoveryKey(): string {
+  const bytes = generateRandomBytes(RECOVERY_KEY_BYTES);
+  let bits = 0;
+  let value = 0;
+  let encoded = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      encoded += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  return encoded.match(new RegExp(`.{1,${RECOVERY_KEY_GROUP_LENGTH}}`, 'g'))!.join('-');
+}
+
+/**
+ * Parse a recovery key as typed by the user (case, spaces and dashes ignored)
+ * @throws If the key is not a well-formed recovery key
+ */
+function parseRecoveryKey(recoveryKey: string): ArrayBuffer {
+  const normalized = recoveryKey.toUpperCase().replace(/[\s-]/g, '');
+  const bytes = new Uint8Array(RECOVERY_KEY_BYTES);
+  let bits = 0;
+  let value = 0;
+  let index = 0;
+
+  if (normalized.length !== Math.ceil((RECOVERY_KEY_BYTES * 8) / 5)) {
+    throw new Error('Invalid recovery key');
+  }
+
+  for (const char of normalized) {
+    const digit = BASE32_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error('Invalid recovery key');
+    }
+    value = (value << 5) | digit;
+    bits += 5;
+    if (bits >= 8) {
+      bytes[index++] = (value >>> (bits - 8)) & 255;
+      bits -= 8;
+    }
+  }
+
+  return bytes.buffer;
+}
+
+/**
+ * Derive the wrapping key and server verifier from a recovery key.
+ * Both come from HKDF with different labels, so the verifier reveals nothing
+ * about the wrapping key.
+ * @param recoveryKey - Recovery key as shown to or typed by the user
+ */
+export async function deriveRecoveryKeys(recoveryKey: string): Promise<RecoveryKeys> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    parseRecoveryKey(recoveryKey),
+    'HKDF',
+    false,
+    ['deriveKey', 'deriveBits']
+  );
+
+  const hkdf = (info: string) => ({
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt: new Uint8Array(0),
+    info: stringToArrayBuffer(info),
+  });
+
+  const wrappingKey = await crypto.subtle.deriveKey(
+    hkdf(RECOVERY_WRAP_INFO),
+    keyMaterial,
+    { name: AES_ALGORITHM, length: AES_KEY_LENGTH },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+
+  const verifierBits = await crypto.subtle.deriveBits(hkdf(RECOVERY_VERIFIER_INFO), keyMaterial, 256);
+
+  return {
+    wrappingKey,
+    verifier: arrayBufferToBase64(verifierBits)
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, ''),
+  };
+}
+
+// ============================================================================
+// Share Links
+// ============================================================================
+
+export interface ShareLinkKeys {
+  wrappingKey: CryptoKey; // Wraps the file or folder key stored on the share
+  verifier?: string; // Password check sent to the server; only for password links
+}
+
+/**
+ * Encode bytes as unpadded base64url, safe in URL fragments and query strings
+ */
+function toBase64Url(buffer: ArrayBuffer): string {
+  return arrayBufferToBase64(buffer).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToArrayBuffer(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+/**
+ * Generate the secret of a new share link. It only ever travels in the URL
+ * fragment, which browsers do not send to the server.
+ * @returns Base64url encoded secret
+ */
+export function generateShareLinkSecret(): string {
+  return toBase64Url(generateRandomBytes(SHARE_LINK_SECRET_BYTES).buffer as ArrayBuffer);
+}
+
+/**
+ * Generate the salt for a password-protected share link
+ * @returns Base64url encoded salt
+ */
+export function generateShareLinkSalt(): string {
+  return toBase64Url(generateRandomBytes(KDF_SALT_LENGTH).buffer as ArrayBuffer);
+}
+
+/**
+ * Derive the keys of a share link from its secret and, for password links,
+ * the password. Both keys need the secret, so neither the stored wrapped key
+ * nor the verifier the server sees helps it guess the password offline.
+ * @param secret - Link secret from the URL fragment
+ * @param password - Link password, if the link has one
+ * @param salt - Password salt stored on the share
+ * @param params - Password KDF settings stored on the share
+ */
+export async function deriveShareLinkKeys(
+  secret: string,
+  password?: string,
+  salt?: string,
+  params: KdfParams = DEFAULT_KDF_PARAMS
+): Promise<ShareLinkKeys> {
+  const secretBytes = new Uint8Array(fromBase64Url(secret));
+  if (secretBytes.length !== SHARE_LINK_SECRET_BYTES) {
+    throw new Error('Invalid share link');
+  }
+
+  let ikm = secretBytes;
+  if (password) {
+    if (!salt) {
+      throw new Error('Share link password salt is missing');
+    }
+
+    const passwordBytes = new Uint8Array(
+      await derivePasswordBits(password, new Uint8Array(fromBase64Url(salt)), params)
+    );
+    ikm = new Uint8Array(secretBytes.length + passwordBytes.length);
+    ikm.set(secretBytes);
+    ikm.set(passwordBytes, secretBytes.length);
+  }
+
+  const keyMaterial = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, [
+    'deriveKey',
+    'deriveBits',
+  ]);
+
+  const hkdf = (info: string) => ({
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt: new Uint8Array(0),
+    info: stringToArrayBuffer(info),
+  });
+
+  const wrappingKey = await crypto.subtle.deriveKey(
+    hkdf(SHARE_LINK_WRAP_INFO),
+    keyMaterial,
+    { name: AES_ALGORITHM, length: AES_KEY_LENGTH },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+
+  if (!password) {
+    return { wrappingKey };
+  }
+
+  const verifierBits = await crypto.subtle.deriveBits(
+    hkdf(SHARE_LINK_VERIFIER_INFO),
+    keyMaterial,
+    256
+  );
+
+  return { wrappingKey, verifier: toBase64Url(verifierBits) };
+}
+
+// ============================================================================
+// Filename Search (blind index)
+// ============================================================================
+
+/**
+ * Derive the HMAC key used for filename search tokens from the master key.
+ * The server only ever sees HMAC outputs, never the n-grams themselves.
+ * @param masterKey - User's master key
+ * @returns HMAC-SHA-256 key
+ */
+export async function deriveSearchKey(masterKey: CryptoKey): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    await exportMasterKey(masterKey),
+    'HKDF',
+    false,
+    ['deriveKey']
+  );
+
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(0),
+      info: stringToArrayBuffer(SEARCH_KEY_INFO),
+    },
+    keyMaterial,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign']
+  );
+}
+
+/**
+ * Split a filename or query into normalized words
+ */
+function getSearchWords(text: string): string[] {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Get the n-grams of a word
+ */
+function getNgrams(word: string): string[] {
+  const chars = Array.from(word);
+  const ngrams: string[] = [];
+
+  for (let i = 0; i + SEARCH_NGRAM_LENGTH <= chars.length; i++) {
+    ngrams.push(chars.slice(i, i + SEARCH_NGRAM_LENGTH).join(''));
+  }
+
+  return ngrams;
+}
+
+/**
+ * HMAC each term and encode it as a truncated base64url token
+ */
+async function hmacSearchTerms(terms: Set<string>, searchKey: CryptoKey): Promise<string[]> {
+  const tokens = await Promise.all(
+    Array.from(terms)
+      .slice(0, MAX_SEARCH_TOKENS)
+      .map(async (term) => {
+        const mac = await crypto.subtle.sign('HMAC', searchKey, stringToArrayBuffer(term));
+        return arrayBufferToBase64(mac.slice(0, SEARCH_TOKEN_BYTES))
+          .replace(/\+/g, '-')
+          .replace(/\//g, '_')
+          .replace(/=+$/, '');
+      })
+  );
+
+  return Array.from(new Set(tokens));
+}
+
+/**
+ * Compute the blind-index tokens stored with a file.
+ * Each word contributes its trigrams and its one- and two-character prefixes,
+ * so any substring of a word (or a short word prefix) can be searched.
+ * @param filename - Plaintext filename
+ * @param searchKey - Key from deriveSearchKey
+ * @returns Deduplicated tokens
+ */
+export async function generateSearchTokens(
+  filename: string,
+  searchKey: CryptoKey
+): Promise<string[]> {
+  const terms = new Set<string>();
+
+  for (const word of getSearchWords(filename)) {
+    const chars = Array.from(word);
+    terms.add(`p:${chars.slice(0, 1).join('')}`);
+    if (chars.length >= 2) {
+      terms.add(`p:${chars.slice(0, 2).join('')}`);
+    }
+    getNgrams(word).forEach((ngram) => terms.add(`g:${ngram}`));
+  }
+
+  return await hmacSearchTerms(terms, searchKey);
+}
+
+/**
+ * Compute the tokens for a search query. A file matches when it has all of them.
+ * @param query - Plaintext search query
+ * @param searchKey - Key from deriveSearchKey
+ * @returns Deduplicated tokens (empty if the query has no searchable words)
+ */
+export async function generateQueryTokens(
+  query: string,
+  searchKey: CryptoKey
+): Promise<string[]> {
+  const terms = new Set<string>();
+
+  for (const word of getSearchWords(query)) {
+    if (Array.from(word).length < SEARCH_NGRAM_LENGTH) {
+      terms.add(`p:${word}`);
+    } else {
+      getNgrams(word).forEach((ngram) => terms.add(`g:${ngram}`));
+    }
+  }
+
+  return (await hmacSearchTerms(terms, searchKey)).slice(0, MAX_QUERY_TOKENS);
+}
+
 // ============================================================================
 // File Encryption/Decryption (chunked for large files)
 // ============================================================================
 
 /**
- * Encrypt a file with chunked processing for large files
+ * Build the streaming container header
+ * @param chunkSize - Plaintext chunk size in bytes
+ * @param baseNonce - Random per-file base nonce
+ * @returns Serialized header
+ */
+function buildStreamHeader(chunkSize: number, baseNonce: Uint8Array): ArrayBuffer {
+  const header = new ArrayBuffer(STREAM_HEADER_LENGTH);
+  const view = new DataView(header);
+
+  new Uint8Array(header).set(STREAM_MAGIC, 0);
+  view.setUint8(4, STREAM_VERSION);
+  view.setUint8(5, STREAM_ALGORITHM_AES_256_GCM);
+  view.setUint32(6, chunkSize);
+  new Uint8Array(header).set(baseNonce, 10);
+
+  return header;
+}
+
+/**
+ * Parse and validate a streaming container header
+ * @param header - Raw header bytes
+ * @returns Plaintext chunk size and base nonce declared by the header
+ */
+function parseStreamHeader(
+  header: ArrayBuffer
+): { chunkSize: number; baseNonce: Uint8Array } {
+  if (
+    header.byteLength < STREAM_HEADER_LENGTH ||
+    !hasStreamMagic(new Uint8Array(header))
+  ) {
+    throw new Error('Invalid encrypted file header');
+  }
+
+  const view = new DataView(header);
+  const version = view.getUint8(4);
+  const algorithm = view.getUint8(5);
+  const chunkSize = view.getUint32(6);
+
+  if (version !== STREAM_VERSION) {
+    throw new Error(`Unsupported encrypted file version: ${version}`);
+  }
+
+  if (algorithm !== STREAM_ALGORITHM_AES_256_GCM) {
+    throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
+  }
+
+  if (chunkSize === 0) {
+    throw new Error('Invalid chunk size in encrypted file header');
+  }
+
+  return {
+    chunkSize,
+    baseNonce: new Uint8Array(header.slice(10, STREAM_HEADER_LENGTH)),
+  };
+}
+
+/**
+ * Check whether bytes start with the streaming container magic
+ */
+function hasStreamMagic(bytes: Uint8Array): boolean {
+  return STREAM_MAGIC.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Derive the nonce for a chunk by XORing the counter into the base nonce
+ * @param baseNonce - Random per-file base nonce
+ * @param counter - Zero-based chunk index
+ * @returns Unique nonce for the chunk
+ */
+function deriveChunkNonce(baseNonce: Uint8Array, counter: number): ArrayBuffer {
+  const nonce = new ArrayBuffer(IV_LENGTH);
+  const view = new DataView(nonce);
+
+  new Uint8Array(nonce).set(baseNonce);
+  view.setUint32(IV_LENGTH - 4, view.getUint32(IV_LENGTH - 4) ^ counter);
+
+  return nonce;
+}
+
+/**
+ * Build the additional authenticated data for a chunk.
+ * Binds the header, chunk index and final-chunk flag so that reordered,
+ * truncated or extended streams fail authentication.
+ */
+function buildChunkAad(
+  header: ArrayBuffer,
+  counter: number,
+  isFinal: boolean
+): ArrayBuffer {
+  const aad = new ArrayBuffer(STREAM_HEADER_LENGTH + 5);
+  const view = new DataView(aad);
+
+  new Uint8Array(aad).set(new Uint8Array(header), 0);
+  view.setUint32(STREAM_HEADER_LENGTH, counter);
+  view.setUint8(STREAM_HEADER_LENGTH + 4, isFinal ? 1 : 0);
+
+  return aad;
+}
+
+/**
+ * Generate a random base nonce for the streaming container
+ * @returns Base nonce (base64)
+ */
+export function generateStreamNonce(): string {
+  return arrayBufferToBase64(generateRandomBytes(IV_LENGTH));
+}
+
+/**
+ * Get the number of chunks a file is split into by the streaming container
+ * @param fileSize - Plaintext size in bytes
+ * @returns Chunk count (at least one, even for empty files)
+ */
+export function getStreamChunkCount(fileSize: number): number {
+  return Math.max(1, Math.ceil(fileSize / CHUNK_SIZE));
+}
+
+/**
+ * Get the size of a file once encrypted into the streaming container
+ * @param fileSize - Plaintext size in bytes
+ * @returns Encrypted size in bytes (header + chunks + tags)
+ */
+export function getStreamEncryptedSize(fileSize: number): number {
+  return STREAM_HEADER_LENGTH + fileSize + getStreamChunkCount(fileSize) * GCM_TAG_LENGTH;
+}
+
+/**
+ * Encrypt a single chunk of a file into the streaming container.
+ * Output is deterministic for a given key and base nonce, so chunks can be
+ * produced independently (e.g. when resuming an upload). The first chunk is
+ * prefixed with the container header.
+ * @param file - File or Blob to encrypt
+ * @param key - Encryption key
+ * @param iv - Base nonce (base64)
+ * @param index - Zero-based chunk index
+ * @returns Encrypted chunk bytes
+ */
+export async function encryptFileChunk(
+  file: File | Blob,
+  key: CryptoKey,
+  iv: string,
+  index: number
+): Promise<Blob> {
+  const baseNonce = new Uint8Array(base64ToArrayBuffer(iv));
+  const header = buildStreamHeader(CHUNK_SIZE, baseNonce);
+  const offset = index * CHUNK_SIZE;
+  const isFinal = index === getStreamChunkCount(file.size) - 1;
+
+  const chunkBuffer = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+
+  const encryptedChunk = await crypto.subtle.encrypt(
+    {
+      name: AES_ALGORITHM,
+      iv: deriveChunkNonce(baseNonce, index),
+      additionalData: buildChunkAad(header, index, isFinal),
+    },
+    key,
+    chunkBuffer
+  );
+
+  return index === 0
+    ? new Blob([header, encryptedChunk])
+    : new Blob([encryptedChunk]);
+}
+
+/**
+ * Encrypt a file into the versioned streaming container.
+ * Each chunk is sealed with its own nonce (base nonce + counter) and the
+ * last chunk carries an authenticated final flag.
  * @param file - File or Blob to encrypt
  * @param key - Encryption key
  * @param onProgress - Progress callback (0-100)
- * @returns Encrypted file blob and IV
+ * @returns Encrypted file blob and base nonce
  */
 export async function encryptFile(
   file: File | Blob,
   key: CryptoKey,
   onProgress?: (progress: number) => void
 ): Promise<{ encryptedBlob: Blob; iv: string }> {
-  const iv = generateRandomBytes(IV_LENGTH);
-  const fileSize = file.size;
+  const iv = generateStreamNonce();
+  const chunkCount = getStreamChunkCount(file.size);
   const chunks: Blob[] = [];
 
-  let offset = 0;
-
-  while (offset < fileSize) {
-    const chunk = file.slice(offset, offset + CHUNK_SIZE);
-    const chunkBuffer = await chunk.arrayBuffer();
-
-    const encryptedChunk = await crypto.subtle.encrypt(
-      {
-        name: AES_ALGORITHM,
-        iv,
-      },
-      key,
-      chunkBuffer
-    );
-
-    chunks.push(new Blob([encryptedChunk]));
-    offset += CHUNK_SIZE;
+  // Always emit at least one (possibly empty) final chunk so that an
+  // empty file cannot be confused with a truncated one
+  for (let index = 0; index < chunkCount; index++) {
+    chunks.push(await encryptFileChunk(file, key, iv, index));
 
     if (onProgress) {
-      const progress = Math.min(100, (offset / fileSize) * 100);
-      onProgress(progress);
+      onProgress(((index + 1) / chunkCount) * 100);
     }
   }
 
-  const encryptedBlob = new Blob(chunks);
-
   return {
-    encryptedBlob,
-    iv: arrayBufferToBase64(iv),
+    encryptedBlob: new Blob(chunks),
+    iv,
   };
 }
 
 /**
- * Decrypt a file with chunked processing for large files
+ * Decrypt a file with chunked processing for large files.
+ * Handles both the streaming container and the legacy layout; the format is
+ * chosen from the stored algorithm, or detected from the header if omitted.
  * @param encryptedBlob - Encrypted file blob
- * @param iv - Initialization vector (base64)
+ * @param iv - Initialization vector (base64, legacy layout only)
  * @param key - Decryption key
  * @param onProgress - Progress callback (0-100)
+ * @param algorithm - Value of File.encryptionAlgorithm
  * @returns Decrypted file blob
  */
 export async function decryptFile(
+  encryptedBlob: Blob,
+  iv: string,
+  key: CryptoKey,
+  onProgress?: (progress: number) => void,
+  algorithm?: string
+): Promise<Blob> {
+  let isStream: boolean;
+
+  if (algorithm) {
+    if (algorithm === ENCRYPTION_ALGORITHM_STREAM) {
+      isStream = true;
+    } else if (algorithm === ENCRYPTION_ALGORITHM_LEGACY) {
+      isStream = false;
+    } else {
+      throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
+    }
+  } else {
+    const magic = new Uint8Array(
+      await encryptedBlob.slice(0, STREAM_MAGIC.length).arrayBuffer()
+    );
+    isStream = hasStreamMagic(magic);
+  }
+
+  return isStream
+    ? decryptFileStream(encryptedBlob, key, onProgress)
+    : decryptFileLegacy(encryptedBlob, iv, key, onProgress);
+}
+
+/**
+ * Decrypt a file stored in the versioned streaming container.
+ * The base nonce is read from the (authenticated) header.
+ */
+async function decryptFileStream(
+  encryptedBlob: Blob,
+  key: CryptoKey,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const header = await encryptedBlob.slice(0, STREAM_HEADER_LENGTH).arrayBuffer();
+  const { chunkSize, baseNonce } = parseStreamHeader(header);
+  const encryptedChunkSize = chunkSize + GCM_TAG_LENGTH;
+  const fileSize = encryptedBlob.size;
+  const chunks: Blob[] = [];
+
+  let offset = STREAM_HEADER_LENGTH;
+  let counter = 0;
+
+  if (offset >= fileSize) {
+    throw new Error('Encrypted file is truncated');
+  }
+
+  while (offset < fileSize) {
+    const chunk = encryptedBlob.slice(offset, offset + encryptedChunkSize);
+    const chunkBuffer = await chunk.arrayBuffer();
+    const isFinal = offset + encryptedChunkSize >= fileSize;
+
+    let decryptedChunk: ArrayBuffer;
+    try {
+      decryptedChunk = await crypto.subtle.decrypt(
+        {
+          name: AES_ALGORITHM,
+          iv: deriveChunkNonce(baseNonce, counter),
+          additionalData: buildChunkAad(header, counter, isFinal),
+        },
+        key,
+        chunkBuffer
+      );
+    } catch {
+      throw new Error(
+        isFinal
+          ? 'Encrypted file is truncated or has been tampered with'
+          : 'Encrypted file chunk failed authentication'
+      );
+    }
+
+    chunks.push(new Blob([decryptedChunk]));
+    offset += encryptedChunkSize;
+    counter++;
+
+    if (onProgress) {
+      const progress = Math.min(100, (offset / fileSize) * 100);
+      onProgress(progress);
+    }
+  }
+
+  return new Blob(chunks);
+}
+
+/**
+ * Decrypt a file stored in the legacy layout (headerless chunks sharing one IV)
+ */
+async function decryptFileLegacy(
   encryptedBlob: Blob,
   iv: string,
   key: CryptoKey,
@@ -435,7 +1266,7 @@ export async function decryptFile(
   let offset = 0;
 
   // AES-GCM adds 16 bytes authentication tag
-  const encryptedChunkSize = CHUNK_SIZE + 16;
+  const encryptedChunkSize = CHUNK_SIZE + GCM_TAG_LENGTH;
 
   while (offset < fileSize) {
     const chunk = encryptedBlob.slice(offset, offset + encryptedChunkSize);
@@ -563,6 +1394,7 @@ const CryptoService = {
 
   // Key derivation
   deriveKeyFromPassword,
+  isKdfOutdated,
 
   // Master key
   generateMasterKey,
@@ -580,12 +1412,40 @@ const CryptoService = {
   wrapKey,
   unwrapKey,
 
+  // File keys
+  generateFileKey,
+  wrapFileKey,
+  unwrapFileKey,
+  wrapFileKeyForRecipient,
+  unwrapSharedFileKey,
+  generateFolderKey,
+  wrapKeyForParent,
+  unwrapKeyFromParent,
+
   // String encryption
   encryptString,
   decryptString,
 
+  // Account recovery
+  generateRecoveryKey,
+  deriveRecoveryKeys,
+
+  // Share links
+  generateShareLinkSecret,
+  generateShareLinkSalt,
+  deriveShareLinkKeys,
+
+  // Filename search
+  deriveSearchKey,
+  generateSearchTokens,
+  generateQueryTokens,
+
   // File encryption
   encryptFile,
+  encryptFileChunk,
+  generateStreamNonce,
+  getStreamChunkCount,
+  getStreamEncryptedSize,
   decryptFile,
   encryptFileSingle,
   decryptFileSingle,
@@ -3,10 +3,29 @@
  * Handles file operations with client-side encryption
  */
 
-import CryptoService from './crypto.service';
+import CryptoService, { DEFAULT_KDF_PARAMS, ENCRYPTION_ALGORITHM_STREAM } from './crypto.service';
 import ApiService from './api.service';
 import StorageService from './storage.service';
-import type { FileMetadata, FolderMetadata } from './api.service';
+import type { PendingUpload } from './storage.service';
+import type { FileMetadata } from './api.service';
+import type { UploadSession } from './api.service';
+import type { FileVersion } from './api.service';
+import type { ReceivedUserShare, UserShare, UserSharePermission } from './api.service';
+import type { ParentKeyFields, UpdateFolderKeysRequest } from './api.service';
+import type {
+  SharedFolderContents,
+  PublicShareLink,
+  ShareLinkSummary,
+  ShareAccessTimeline,
+  RotateShareLinkRequest,
+  ManagedShareLink,
+  ShareLinkStatus,
+  UpdateShareLinkRequest,
+} from './api.service';
+import type { FileRequestSummary, PublicFileRequest } from './api.service';
+import type { TrashRestoreResult } from './api.service';
+import type { SearchFilters } from '../types';
+import type { EncryptedData } from './crypto.service';
 
 // ============================================================================
 // Types and Interfaces
@@ -69,12 +88,105 @@ export interface FolderListItem {
   updatedAt: string;
 }
 
+// ============================================================================
+// Folder Keys
+// ============================================================================
+
+/**
+ * Unwrap the key of one of the current user's folders
+ * @returns Folder key, or null if the folder has no key yet
+ */
+async function getFolderKey(folderId: string, masterKey: CryptoKey): Promise<CryptoKey | null> {
+  const folderKeyEncrypted = await ApiService.getFolderKey(folderId);
+  return folderKeyEncrypted ? CryptoService.unwrapFileKey(folderKeyEncrypted, masterKey) : null;
+}
+
+/**
+ * Wrap an item's key and encrypt its name with the key of its parent folder
+ * @param key - File or folder key
+ * @param name - Plaintext name
+ * @param parentFolderKey - Key of the containing folder
+ */
+async function buildParentKeyFields(
+  key: CryptoKey,
+  name: string,
+  parentFolderKey: CryptoKey
+): Promise<Required<ParentKeyFields>> {
+  const encryptedName = await CryptoService.encryptString(name, parentFolderKey);
+
+  return {
+    parentKeyEncrypted: await CryptoService.wrapKeyForParent(key, parentFolderKey),
+    parentNameEncrypted: encryptedName.data,
+    parentNameIv: encryptedName.iv,
+  };
+}
+
+/**
+ * Build the parent-scoped key material for a new item, so that users the
+ * folder is shared with see it without the share being updated
+ * @param key - File or folder key of the new item
+ * @param name - Plaintext name of the new item
+ * @param parentFolderId - Folder the item is created in
+ * @param masterKey - User's master key
+ */
+async function getParentKeyFields(
+  key: CryptoKey,
+  name: string,
+  parentFolderId: string | undefined,
+  masterKey: CryptoKey
+): Promise<ParentKeyFields> {
+  if (!parentFolderId) {
+    return {};
+  }
+
+  const parentFolderKey = await getFolderKey(parentFolderId, masterKey);
+  if (!parentFolderKey) {
+    return {};
+  }
+
+  return buildParentKeyFields(key, name, parentFolderKey);
+}
+
 // ============================================================================
 // File Upload
 // ============================================================================
 
 /**
- * Upload a file with client-side encryption
+ * Build a fingerprint identifying a local file across page reloads
+ */
+function getUploadFingerprint(file: File, folderId?: string): string {
+  return [file.name, file.size, file.lastModified, folderId || 'root'].join(':');
+}
+
+/**
+ * Find a resumable session for a file, discarding stale resume state
+ */
+async function findResumableSession(
+  fingerprint: string
+): Promise<{ session: UploadSession; pending: PendingUpload } | null> {
+  const pending = StorageService.getPendingUpload(fingerprint);
+  if (!pending) {
+    return null;
+  }
+
+  try {
+    const session = await ApiService.getUploadSession(pending.sessionId);
+    if (session.status === 'active' && new Date(session.expiresAt) > new Date()) {
+      return { session, pending };
+    }
+  } catch (error) {
+    console.warn('Upload session could not be resumed, starting over:', error);
+  }
+
+  StorageService.removePendingUpload(fingerprint);
+  return null;
+}
+
+/**
+ * Upload a file with client-side encryption.
+ * The file is encrypted chunk by chunk and sent as parts of a resumable
+ * upload session; if the page is reloaded, uploading the same file again
+ * resumes from the parts the server already has.
  * @param file - File to upload
  * @param folderId - Optional folder ID
  * @param onProgress - Progress callback
@@ -101,62 +213,119 @@ export async function uploadFile(
     };
     onProgress?.(progress);
 
-    // 1. Encrypt file name
-    progress.status = 'encrypting';
-    onProgress?.(progress);
+    const fingerprint = getUploadFingerprint(file, folderId);
+    const encryptedSize = CryptoService.getStreamEncryptedSize(file.size);
+    const totalParts = CryptoService.getStreamChunkCount(file.size);
+
+    // 1. Resume an existing session or create a new one
+    let session: UploadSession;
+    let pending: PendingUpload;
+    let fileKey: CryptoKey;
+
+    const resumable = await findResumableSession(fingerprint);
+
+    if (resumable) {
+      session = resumable.session;
+      pending = resumable.pending;
+      fileKey = await CryptoService.unwrapFileKey(session.fileKeyEncrypted, masterKey);
+    } else {
+      progress.status = 'encrypting';
+      onProgress?.(progress);
+
+      fileKey = await CryptoService.generateFileKey();
+      const encryptedFileName = await CryptoService.encryptString(file.name, masterKey);
+
+      session = await ApiService.createUploadSession({
+        filenameEncrypted: encryptedFileName.data,
+        filenameIv: encryptedFileName.iv,
+        fileKeyEncrypted: await CryptoService.wrapFileKey(fileKey, masterKey),
+        fileSize: file.size,
+        encryptedSize,
+        totalParts,
+        mimeType: file.type || 'application/octet-stream',
+        encryptionAlgorithm: ENCRYPTION_ALGORITHM_STREAM,
+        parentFolderId: folderId,
+        ...(await getParentKeyFields(fileKey, file.name, folderId, masterKey)),
+        searchTokens: await getSearchTokens(file.name, masterKey),
+      });
 
-    const encryptedFileName = await CryptoService.encryptString(file.name, masterKey);
+      pending = {
+        sessionId: session.id,
+        iv: CryptoService.generateStreamNonce(),
+        partHashes: {},
+        createdAt: Date.now(),
+      };
+      StorageService.setPendingUpload(fingerprint, pending);
+    }
 
-    // 2. Encrypt file content
-    const { encryptedBlob, iv } = await CryptoService.encryptFile(
-      file,
-      masterKey,
-      (encryptionProgress) => {
-        progress.percentage = encryptionProgress * 0.3; // 0-30% for encryption
-        onProgress?.(progress);
-      }
-    );
+    progress.fileId = session.fileId;
+
+    // 2. Encrypt and upload the parts the server does not have yet
+    const uploadedParts = new Set(session.parts.map((part) => part.partNumber));
+    let uploadedSize = session.parts.reduce((sum, part) => sum + Number(part.size), 0);
 
-    // 3. Create upload URL
     progress.status = 'uploading';
-    progress.percentage = 30;
+    progress.uploadedSize = Math.min(file.size, uploadedSize);
+    progress.percentage = (uploadedSize / encryptedSize) * 95;
     onProgress?.(progress);
 
-    const uploadData = await ApiService.createUploadUrl({
-      encryptedName: encryptedFileName.data,
-      encryptedNameIV: encryptedFileName.iv,
-      encryptedSize: encryptedBlob.size,
-      mimeType: file.type || 'application/octet-stream',
-      iv,
-      folderId,
-    });
+    for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+      if (uploadedParts.has(partNumber) && pending.partHashes[partNumber]) {
+        continue;
+      }
 
-    progress.fileId = uploadData.fileId;
+      const encryptedPart = await CryptoService.encryptFileChunk(
+        file,
+        fileKey,
+        pending.iv,
+        partNumber - 1
+      );
+
+      // Parts already on the server only need their hash recomputed
+      if (!uploadedParts.has(partNumber)) {
+        await ApiService.uploadFilePart(session.id, partNumber, encryptedPart, (loaded) => {
+          const current = uploadedSize + loaded;
+          progress.uploadedSize = Math.min(file.size, current);
+          progress.percentage = (current / encryptedSize) * 95; // 0-95% for upload
+          onProgress?.(progress);
+        });
+        uploadedSize += encryptedPart.size;
+      }
 
-    // 4. Upload encrypted file
-    await ApiService.uploadFile(uploadData.uploadUrl, encryptedBlob);
+      pending.partHashes[partNumber] = await CryptoService.sha256(
+        await encryptedPart.arrayBuffer()
+      );
+      StorageService.setPendingUpload(fingerprint, pending);
+    }
 
-    progress.percentage = 90;
+    // 3. Complete upload (hash of the ordered part hashes)
     progress.status = 'confirming';
+    progress.percentage = 95;
     onProgress?.(progress);
 
-    // 5. Confirm upload
-    const metadata = await ApiService.confirmUpload(uploadData.fileId);
+    const partHashes = Array.from(
+      { length: totalParts },
+      (_, index) => pending.partHashes[index + 1]
+    );
+    const fileHash = await CryptoService.sha256(partHashes.join(''));
+    const uploaded = await ApiService.completeUploadSession(session.id, fileHash);
+
+    StorageService.removePendingUpload(fingerprint);
 
-    // 6. Complete
+    // 4. Complete
     progress.percentage = 100;
     progress.status = 'completed';
     progress.uploadedSize = file.size;
     onProgress?.(progress);
 
     return {
-      id: metadata.id,
+      id: uploaded.id,
       name: file.name,
       size: file.size,
       mimeType: file.type || 'application/octet-stream',
-      folderId: metadata.folderId,
-      createdAt: metadata.createdAt,
-      updatedAt: metadata.updatedAt,
+      folderId: uploaded.parentFolderId,
+      createdAt: uploaded.createdAt,
+      updatedAt: uploaded.updatedAt,
     };
   } catch (error: any) {
     console.error('File upload failed:', error);
@@ -176,6 +345,25 @@ export async function uploadFile(
   }
 }
 
+/**
+ * Abort an interrupted upload and forget its resume state
+ * @param file - File whose upload should be discarded
+ * @param folderId - Folder the file was being uploaded to
+ */
+export async function abortPendingUpload(file: File, folderId?: string): Promise<void> {
+  const fingerprint = getUploadFingerprint(file, folderId);
+  const pending = StorageService.getPendingUpload(fingerprint);
+
+  if (pending) {
+    try {
+      await ApiService.abortUploadSession(pending.sessionId);
+    } catch (error) {
+      console.warn('Failed to abort upload session:', error);
+    }
+    StorageService.removePendingUpload(fingerprint);
+  }
+}
+
 /**
  * Upload multiple files
  * @param files - Files to upload
@@ -266,14 +454,20 @@ export async function downloadFile(
     progress.status = 'decrypting';
     onProgress?.(progress);
 
+    // Files uploaded with a per-file key carry it wrapped by the master key
+    const fileKey = metadata.fileKeyEncrypted
+      ? await CryptoService.unwrapFileKey(metadata.fileKeyEncrypted, masterKey)
+      : masterKey;
+
     const decryptedBlob = await CryptoService.decryptFile(
       encryptedBlob,
       metadata.iv,
-      masterKey,
+      fileKey,
       (decryptionProgress) => {
         progress.percentage = 50 + decryptionProgress * 0.5; // 50-100%
         onProgress?.(progress);
-      }
+      },
+      metadata.encryptionAlgorithm
     );
 
     // 6. Calculate actual file size (encrypted size - GCM tag)
@@ -337,6 +531,1096 @@ export async function downloadFileToDevice(
   URL.revokeObjectURL(url);
 }
 
+// ============================================================================
+// File Versions
+// ============================================================================
+
+export interface FileVersionItem {
+  id: string;
+  versionNumber: number;
+  size: number;
+  fileKeyEncrypted: string;
+  encryptionAlgorithm: string;
+  createdAt: string;
+}
+
+export interface FileVersionHistory {
+  currentVersion: number;
+  versions: FileVersionItem[];
+}
+
+/**
+ * List the previous versions of a file
+ * @param fileId - File ID
+ * @returns Current version number and previous versions, newest first
+ */
+export async function listFileVersions(fileId: string): Promise<FileVersionHistory> {
+  const { currentVersion, versions } = await ApiService.getFileVersions(fileId);
+
+  return {
+    currentVersion,
+    versions: versions.map((version: FileVersion) => ({
+      id: version.id,
+      versionNumber: version.versionNumber,
+      size: parseInt(version.fileSize, 10),
+      fileKeyEncrypted: version.fileKeyEncrypted,
+      encryptionAlgorithm: version.encryptionAlgorithm,
+      createdAt: version.createdAt,
+    })),
+  };
+}
+
+/**
+ * Download and decrypt a previous version of a file.
+ * Each version is decrypted with its own wrapped file key.
+ * @param fileId - File ID
+ * @param version - Version to download
+ * @param onProgress - Decryption progress callback (0-100)
+ * @returns Decrypted version content
+ */
+export async function downloadFileVersion(
+  fileId: string,
+  version: FileVersionItem,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const masterKey = StorageService.getMasterKey();
+  if (!masterKey) {
+    throw new Error('Master key not available. Please login again.');
+  }
+
+  // Legacy versions share the file's IV; streamed versions carry their own nonce
+  const metadata = await ApiService.getFile(fileId);
+  const encryptedBlob = await ApiService.downloadFileVersion(fileId, version.versionNumber);
+
+  const fileKey = await CryptoService.unwrapFileKey(version.fileKeyEncrypted, masterKey);
+
+  return CryptoService.decryptFile(
+    encryptedBlob,
+    metadata.iv,
+    fileKey,
+    onProgress,
+    version.encryptionAlgorithm
+  );
+}
+
+/**
+ * Restore a previous version as the current content.
+ * The current content is kept as a new version.
+ * @param fileId - File ID
+ * @param versionNumber - Version to restore
+ */
+export async function restoreFileVersion(fileId: string, versionNumber: number): Promise<void> {
+  await ApiService.restoreFileVersion(fileId, versionNumber);
+}
+
+/**
+ * Delete a previous version
+ * @param fileId - File ID
+ * @param versionNumber - Version to delete
+ */
+export async function deleteFileVersion(fileId: string, versionNumber: number): Promise<void> {
+  await ApiService.deleteFileVersion(fileId, versionNumber);
+}
+
+/**
+ * Delete all but the newest previous versions
+ * @param fileId - File ID
+ * @param keep - Number of versions to keep
+ * @returns Number of deleted versions
+ */
+export async function deleteOldFileVersions(fileId: string, keep: number = 1): Promise<number> {
+  const { deletedCount } = await ApiService.deleteOldFileVersions(fileId, keep);
+  return deletedCount;
+}
+
+// ============================================================================
+// User Sharing
+// ============================================================================
+
+export interface SharedFileItem {
+  shareId: string;
+  type: 'file' | 'folder';
+  fileId?: string;
+  folderId?: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  permission: UserSharePermission;
+  ownerUsername: string;
+  sharedAt: string;
+  updatedAt: string;
+  encryptionAlgorithm: string;
+  fileKeyEncrypted: string;
+}
+
+/**
+ * Share a file with another user.
+ * The file key is wrapped with the recipient's RSA public key and the file
+ * name is encrypted with the file key, so the server learns neither.
+ * @param file - File to share (ID and decrypted name)
+ * @param username - Recipient's username
+ * @param permission - Read or write access
+ * @returns Created share
+ */
+export async function shareFileWithUser(
+  file: { id: string; name: string },
+  username: string,
+  permission: UserSharePermission = 'read'
+): Promise<UserShare> {
+  const masterKey = StorageService.getMasterKey();
+  if (!masterKey) {
+    throw new Error('Master key not available. Please login again.');
+  }
+
+  const metadata = await ApiService.getFile(file.id);
+  if (!metadata.fileKeyEncrypted) {
+    throw new Error('This file has no file key and cannot be shared with other users');
+  }
+
+  const recipient = await ApiService.getUserPublicKey(username);
+
+  const fileKey = await CryptoService.unwrapFileKey(metadata.fileKeyEncrypted, masterKey);
+  const fileKeyEncrypted = await CryptoService.wrapFileKeyForRecipient(
+    fileKey,
+    recipient.publicKey
+  );
+  const encryptedName = await CryptoService.encryptString(file.name, fileKey);
+
+  return ApiService.shareFileWithUser({
+    fileId: file.id,
+    recipientUsername: recipient.username,
+    fileKeyEncrypted,
+    filenameEncrypted: encryptedName.data,
+    filenameIv: encryptedName.iv,
+    permission,
+  });
+}
+
+/**
+ * Unwrap the file key of a file shared with the current user
+ */
+async function getSharedFileKey(fileKeyEncrypted: string): Promise<CryptoKey> {
+  const privateKey = StorageService.getPrivateKey();
+  if (!privateKey) {
+    throw new Error('Private key not available. Please login again.');
+  }
+
+  return CryptoService.unwrapSharedFileKey(fileKeyEncrypted, privateKey);
+}
+
+/**
+ * List files and folders shared with the current user
+ * @returns Shared items with decrypted names
+ */
+export async function listSharedWithMe(): Promise<SharedFileItem[]> {
+  const shares = await ApiService.getSharedWithMe();
+
+  return Promise.all(
+    shares.map(async (share: ReceivedUserShare) => {
+      let name = '(encrypted)';
+      try {
+        const fileKey = await getSharedFileKey(share.fileKeyEncrypted);
+        if (share.filenameEncrypted && share.filenameIv) {
+          name = await CryptoService.decryptString(
+            { data: share.filenameEncrypted, iv: share.filenameIv },
+            fileKey
+          );
+        }
+      } catch (error) {
+        console.error('Failed to decrypt shared file name:', error);
+        name = '(decryption failed)';
+      }
+
+      const common = {
+        shareId: share.id,
+        name,
+        permission: share.permission,
+        ownerUsername: share.owner.username,
+        sharedAt: share.createdAt,
+        fileKeyEncrypted: share.fileKeyEncrypted,
+      };
+
+      if (!share.file) {
+        return {
+          ...common,
+          type: 'folder' as const,
+          folderId: share.folder?.id,
+          size: 0,
+          mimeType: 'inode/directory',
+          updatedAt: share.folder?.updatedAt || share.createdAt,
+          encryptionAlgorithm: '',
+        };
+      }
+
+      return {
+        ...common,
+        type: 'file' as const,
+        fileId: share.file.id,
+        size: parseInt(share.file.fileSize, 10),
+        mimeType: share.file.mimeType || 'application/octet-stream',
+        updatedAt: share.file.updatedAt,
+        encryptionAlgorithm: share.file.encryptionAlgorithm,
+      };
+    })
+  );
+}
+
+/**
+ * Download and decrypt a file shared with the current user
+ * @param item - Shared file
+ * @param onProgress - Decryption progress callback (0-100)
+ * @returns Decrypted content
+ */
+export async function downloadSharedFile(
+  item: SharedFileItem,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const fileKey = await getSharedFileKey(item.fileKeyEncrypted);
+  const encryptedBlob = await ApiService.downloadSharedWithMe(item.shareId);
+
+  // Files with per-file keys use the streaming format, whose nonce is in the header
+  return CryptoService.decryptFile(
+    encryptedBlob,
+    '',
+    fileKey,
+    onProgress,
+    item.encryptionAlgorithm
+  );
+}
+
+/**
+ * Replace the content of a file shared with write permission.
+ * The new content is encrypted with the same file key so the owner's and
+ * other recipients' wrapped keys remain valid.
+ * @param item - Shared file
+ * @param file - New content
+ */
+export async function updateSharedFile(item: SharedFileItem, file: File): Promise<void> {
+  if (item.permission !== 'write') {
+    throw new Error('You do not have write access to this file');
+  }
+
+  const fileKey = await getSharedFileKey(item.fileKeyEncrypted);
+  const { encryptedBlob } = await CryptoService.encryptFile(file, fileKey);
+  const fileHash = await CryptoService.sha256(await encryptedBlob.arrayBuffer());
+
+  await ApiService.updateSharedWithMeContent(item.shareId, encryptedBlob, {
+    fileSize: file.size,
+    fileHash,
+    encryptionAlgorithm: ENCRYPTION_ALGORITHM_STREAM,
+  });
+}
+
+/**
+ * List the users a file is shared with
+ * @param fileId - File ID
+ */
+export async function listFileUserShares(fileId: string): Promise<UserShare[]> {
+  return ApiService.getUserShares(fileId);
+}
+
+/**
+ * Change what a user can do with a shared file
+ * @param shareId - User share ID
+ * @param permission - New permission
+ */
+export async function updateUserSharePermission(
+  shareId: string,
+  permission: UserSharePermission
+): Promise<UserShare> {
+  return ApiService.updateUserShare(shareId, permission);
+}
+
+/**
+ * Revoke a user share, or remove a file shared with the current user
+ * @param shareId - User share ID
+ */
+export async function removeUserShare(shareId: string): Promise<void> {
+  await ApiService.deleteUserShare(shareId);
+}
+
+// ============================================================================
+// Folder Sharing
+// ============================================================================
+
+export interface SharedFolderEntry {
+  id: string;
+  type: 'file' | 'folder';
+  name: string;
+  size: number;
+  mimeType: string;
+  encryptionAlgorithm: string;
+  updatedAt: string;
+  key: CryptoKey;
+}
+
+export interface SharedFolderListing {
+  folderId: string;
+  parentFolderId: string | null;
+  entries: SharedFolderEntry[];
+}
+
+/**
+ * Make sure every item below a folder has its key wrapped with the key of its
+ * parent folder. Items created before folder keys existed, or moved into the
+ * folder since, are keyed here before the folder key is handed out.
+ * @param folderId - Folder to share
+ * @param masterKey - User's master key
+ * @returns Key of the folder
+ */
+async function prepareFolderForSharing(
+  folderId: string,
+  masterKey: CryptoKey
+): Promise<CryptoKey> {
+  const tree = await ApiService.getFolderKeys(folderId);
+  const update: UpdateFolderKeysRequest = { folders: [], files: [] };
+  const folderKeys = new Map<string, CryptoKey>();
+  const newKeys = new Set<string>();
+
+  // Folders without a key of their own get one now
+  const loadFolderKey = async (
+    id: string,
+    folderKeyEncrypted: string | null
+  ): Promise<string | undefined> => {
+    if (folderKeyEncrypted) {
+      folderKeys.set(id, await CryptoService.unwrapFileKey(folderKeyEncrypted, masterKey));
+      return undefined;
+    }
+
+    const key = await CryptoService.generateFolderKey();
+    folderKeys.set(id, key);
+    newKeys.add(id);
+    return CryptoService.wrapFileKey(key, masterKey);
+  };
+
+  const rewrap = async (key: CryptoKey, name: EncryptedData, parentFolderId: string) =>
+    buildParentKeyFields(
+      key,
+      await CryptoService.decryptString(name, masterKey),
+      folderKeys.get(parentFolderId)!
+    );
+
+  update.folderKeyEncrypted = await loadFolderKey(tree.folder.id, tree.folder.folderKeyEncrypted);
+
+  // The server lists parents before their children
+  for (const folder of tree.folders) {
+    const folderKeyEncrypted = await loadFolderKey(folder.id, folder.folderKeyEncrypted);
+
+    if (folderKeyEncrypted || !folder.parentKeyEncrypted || newKeys.has(folder.parentFolderId)) {
+      update.folders.push({
+        id: folder.id,
+        folderKeyEncrypted,
+        ...(await rewrap(
+          folderKeys.get(folder.id)!,
+          { data: folder.nameEncrypted, iv: folder.nameIv },
+          folder.parentFolderId
+        )),
+      });
+    }
+  }
+
+  for (const file of tree.files) {
+    if (file.parentKeyEncrypted && !newKeys.has(file.parentFolderId)) {
+      continue;
+    }
+
+    try {
+      const fileKey = await CryptoService.unwrapFileKey(file.fileKeyEncrypted, masterKey);
+      update.files.push({
+        id: file.id,
+        ...(await rewrap(
+          fileKey,
+          { data: file.filenameEncrypted, iv: file.filenameIv },
+          file.parentFolderId
+        )),
+      });
+    } catch (error) {
+      // Legacy files without a per-file key stay invisible to recipients
+      console.warn('Skipping file without a usable file key:', file.id, error);
+    }
+  }
+
+  if (update.folderKeyEncrypted || update.folders.length > 0 || update.files.length > 0) {
+    await ApiService.updateFolderKeys(folderId, update);
+  }
+
+  return folderKeys.get(tree.folder.id)!;
+}
+
+/**
+ * Share a folder, including everything added to it later, with another user.
+ * Only the folder key is wrapped for the recipient; the keys of items below
+ * it are reachable through the folder key hierarchy.
+ * @param folder - Folder to share (ID and decrypted name)
+ * @param username - Recipient's username
+ * @param permission - Read or write access
+ * @returns Created share
+ */
+export async function shareFolderWithUser(
+  folder: { id: string; name: string },
+  username: string,
+  permission: UserSharePermission = 'read'
+): Promise<UserShare> {
+  const masterKey = StorageService.getMasterKey();
+  if (!masterKey) {
+    throw new Error('Master key not available. Please login again.');
+  }
+
+  const recipient = await ApiService.getUserPublicKey(username);
+  const folderKey = await prepareFolderForSharing(folder.id, masterKey);
+  const encryptedName = await CryptoService.encryptString(folder.name, folderKey);
+
+  return ApiService.shareFileWithUser({
+    folderId: folder.id,
+    recipientUsername: recipient.username,
+    fileKeyEncrypted: await CryptoService.wrapFileKeyForRecipient(folderKey, recipient.publicKey),
+    filenameEncrypted: encryptedName.data,
+    filenameIv: encryptedName.iv,
+    permission,
+  });
+}
+
+/**
+ * Unwrap the key of a folder shared with the current user
+ * @param item - Shared folder
+ */
+export async function getSharedFolderKey(item: SharedFileItem): Promise<CryptoKey> {
+  return getSharedFileKey(item.fileKeyEncrypted);
+}
+
+/**
+ * Decrypt a shared folder listing with the key of the listed folder
+ * @param contents - Listing returned by the server
+ * @param folderKey - Key of the folder being listed
+ * @returns Entries with decrypted names and their keys
+ */
+async function decryptSharedFolderContents(
+  contents: SharedFolderContents,
+  folderKey: CryptoKey
+): Promise<SharedFolderListing> {
+  const decryptEntry = async (entry: {
+    parentKeyEncrypted: string;
+    parentNameEncrypted: string;
+    parentNameIv: string;
+  }) => ({
+    key: await CryptoService.unwrapKeyFromParent(entry.parentKeyEncrypted, folderKey),
+    name: await CryptoService.decryptString(
+      { data: entry.parentNameEncrypted, iv: entry.parentNameIv },
+      folderKey
+    ),
+  });
+
+  const folders = await Promise.all(
+    contents.subFolders.map(async (folder) => ({
+      id: folder.id,
+      type: 'folder' as const,
+      size: 0,
+      mimeType: 'inode/directory',
+      encryptionAlgorithm: '',
+      updatedAt: folder.updatedAt,
+      ...(await decryptEntry(folder)),
+    }))
+  );
+
+  const files = await Promise.all(
+    contents.files.map(async (file) => ({
+      id: file.id,
+      type: 'file' as const,
+      size: parseInt(file.fileSize, 10),
+      mimeType: file.mimeType || 'application/octet-stream',
+      encryptionAlgorithm: file.encryptionAlgorithm,
+      updatedAt: file.updatedAt,
+      ...(await decryptEntry(file)),
+    }))
+  );
+
+  return {
+    folderId: contents.folderId,
+    parentFolderId: contents.parentFolderId,
+    entries: [...folders, ...files],
+  };
+}
+
+/**
+ * List the contents of a shared folder or one of its subfolders
+ * @param item - Shared folder
+ * @param folderKey - Key of the folder being listed
+ * @param folderId - Subfolder to list (defaults to the shared folder)
+ * @returns Entries with decrypted names and their keys
+ */
+export async function listSharedFolder(
+  item: SharedFileItem,
+  folderKey: CryptoKey,
+  folderId?: string
+): Promise<SharedFolderListing> {
+  const contents = await ApiService.getSharedFolderWithMe(item.shareId, folderId);
+  return decryptSharedFolderContents(contents, folderKey);
+}
+
+/**
+ * Download and decrypt a file inside a folder shared with the current user
+ * @param item - Shared folder
+ * @param entry - File inside the folder
+ * @param onProgress - Decryption progress callback (0-100)
+ * @returns Decrypted content
+ */
+export async function downloadSharedFolderFile(
+  item: SharedFileItem,
+  entry: SharedFolderEntry,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const encryptedBlob = await ApiService.downloadSharedFolderFileWithMe(item.shareId, entry.id);
+
+  return CryptoService.decryptFile(
+    encryptedBlob,
+    '',
+    entry.key,
+    onProgress,
+    entry.encryptionAlgorithm
+  );
+}
+
+// ============================================================================
+// Share Links
+// ============================================================================
+
+export interface ShareLinkOptions {
+  password?: string;
+  expiresAt?: Date;
+  maxDownloads?: number;
+}
+
+export interface CreatedShareLink {
+  share: ShareLinkSummary;
+  url: string; // Includes the link secret; shown to the owner once
+}
+
+export interface OpenedShareLink {
+  token: string;
+  type: 'file' | 'folder';
+  name: string;
+  size: number;
+  mimeType: string;
+  encryptionAlgorithm: string;
+  expiresAt: string | null;
+  key: CryptoKey; // File or folder key
+  verifier?: string; // Password check for the link's download requests
+}
+
+/**
+ * Wrap the key of a file or folder for a fresh link secret (and the
+ * password, when set)
+ * @returns Link secret for the URL fragment and the fields for the server
+ */
+async function wrapKeyForNewLink(
+  target: { type: 'file' | 'folder'; id: string; name: string },
+  password?: string
+): Promise<{ secret: string; fields: RotateShareLinkRequest }> {
+  const masterKey = StorageService.getMasterKey();
+  if (!masterKey) {
+    throw new Error('Master key not available. Please login again.');
+  }
+
+  let key: CryptoKey;
+  if (target.type === 'folder') {
+    key = await prepareFolderForSharing(target.id, masterKey);
+  } else {
+    const metadata = await ApiService.getFile(target.id);
+    if (!metadata.fileKeyEncrypted) {
+      throw new Error('This file has no file key and cannot be shared by link');
+    }
+    key = await CryptoService.unwrapFileKey(metadata.fileKeyEncrypted, masterKey);
+  }
+
+  const secret = CryptoService.generateShareLinkSecret();
+  const passwordSalt = password ? CryptoService.generateShareLinkSalt() : undefined;
+  const { wrappingKey, verifier } = await CryptoService.deriveShareLinkKeys(
+    secret,
+    password,
+    passwordSalt,
+    DEFAULT_KDF_PARAMS
+  );
+  const encryptedName = await CryptoService.encryptString(target.name, key);
+
+  return {
+    secret,
+    fields: {
+      fileKeyEncrypted: JSON.stringify(await CryptoService.wrapKey(key, wrappingKey)),
+      filenameEncrypted: encryptedName.data,
+      filenameIv: encryptedName.iv,
+      ...(verifier && { password: verifier, passwordSalt, kdf: DEFAULT_KDF_PARAMS }),
+    },
+  };
+}
+
+/**
+ * Build the full address of a share link
+ */
+function getShareLinkUrl(shareToken: string, secret: string): string {
+  return `${window.location.origin}/shared/${shareToken}#${secret}`;
+}
+
+/**
+ * Create a public share link for a file or folder.
+ * The item key is wrapped with a key derived from a random link secret (and
+ * the password, when set). The secret only goes into the URL fragment, so
+ * the server stores a key it cannot unwrap.
+ * @param target - File or folder to share (ID and decrypted name)
+ * @param options - Password, expiry and download limit
+ * @returns Created share and the full link
+ */
+export async function createShareLink(
+  target: { type: 'file' | 'folder'; id: string; name: string },
+  options: ShareLinkOptions = {}
+): Promise<CreatedShareLink> {
+  const { secret, fields } = await wrapKeyForNewLink(target, options.password);
+
+  const share = await ApiService.createShareLink({
+    ...(target.type === 'folder' ? { folderId: target.id } : { fileId: target.id }),
+    ...fields,
+    expiresAt: options.expiresAt?.toISOString(),
+    maxDownloads: options.maxDownloads,
+  });
+
+  return { share, url: getShareLinkUrl(share.shareToken, secret) };
+}
+
+/**
+ * Give a share link a new address, secret and password. The old link stops
+ * working, and a lock from wrong passwords is lifted.
+ * @param shareId - Share link ID
+ * @param target - File or folder the link shares (ID and decrypted name)
+ * @param password - New link password, if any
+ * @returns Rotated share and its new full link
+ */
+export async function rotateShareLink(
+  shareId: string,
+  target: { type: 'file' | 'folder'; id: string; name: string },
+  password?: string
+): Promise<CreatedShareLink> {
+  const { secret, fields } = await wrapKeyForNewLink(target, password);
+
+  const share = await ApiService.rotateShareLink(shareId, fields);
+
+  return { share, url: getShareLinkUrl(share.shareToken, secret) };
+}
+
+/**
+ * Unlock a share link locked after too many wrong passwords
+ * @param shareId - Share link ID
+ */
+export async function unlockShareLink(shareId: string): Promise<void> {
+  await ApiService.unlockShareLink(shareId);
+}
+
+export interface ShareLinkListItem {
+  id: string;
+  type: 'download' | 'upload';
+  target: { type: 'file' | 'folder'; id: string; name: string };
+  status: ShareLinkStatus;
+  passwordProtected: boolean;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  uploadCount: number;
+  lockedAt: string | null;
+  createdAt: string;
+  lastAccessed: string | null;
+}
+
+/**
+ * Status of a link as the owner sees it; revoked wins over locked, locked
+ * over expired
+ */
+function getShareLinkStatus(link: ManagedShareLink): ShareLinkStatus {
+  if (!link.isActive) return 'revoked';
+  if (link.lockedAt) return 'locked';
+  if (link.expiresAt && new Date(link.expiresAt) <= new Date()) return 'expired';
+  return 'active';
+}
+
+/**
+ * List the user's share links and file requests with decrypted item names
+ * @param status - Only links with this status
+ */
+export async function listShareLinksForManagement(
+  status?: ShareLinkStatus
+): Promise<ShareLinkListItem[]> {
+  const masterKey = StorageService.getMasterKey();
+  if (!masterKey) {
+    throw new Error('Master key not available. Please login again.');
+  }
+
+  const links = await ApiService.listManagedShareLinks(status);
+
+  const decryptName = async (name: EncryptedData): Promise<string> => {
+    try {
+      return await CryptoService.decryptString(name, masterKey);
+    } catch (error) {
+      console.error('Failed to decrypt shared item name:', error);
+      return '(decryption failed)';
+    }
+  };
+
+  return Promise.all(
+    links.map(async (link) => ({
+      id: link.id,
+      type: link.type,
+      target: link.file
+        ? {
+            type: 'file' as const,
+            id: link.file.id,
+            name: await decryptName({ data: link.file.filenameEncrypted, iv: link.file.filenameIv }),
+          }
+        : {
+            type: 'folder' as const,
+            id: link.folder?.id ?? link.folderId ?? '',
+            name: link.folder
+              ? await decryptName({ data: link.folder.nameEncrypted, iv: link.folder.nameIv })
+              : '(deleted folder)',
+          },
+      status: getShareLinkStatus(link),
+      passwordProtected: link.passwordProtected,
+      expiresAt: link.expiresAt,
+      maxDownloads: link.maxDownloads,
+      downloadCount: link.downloadCount,
+      uploadCount: link.uploadCount,
+      lockedAt: link.lockedAt ?? null,
+      createdAt: link.createdAt,
+      lastAccessed: link.lastAccessed,
+    }))
+  );
+}
+
+/**
+ * Change the expiry, download limit or status of a share link, or the
+ * password of a file request
+ * @param shareId - Share link ID
+ * @param changes - Fields to change; null clears a limit
+ */
+export async function updateShareLink(
+  shareId: string,
+  changes: UpdateShareLinkRequest
+): Promise<void> {
+  await ApiService.updateShareLink(shareId, changes);
+}
+
+/**
+ * Revoke a share link; the address stops working
+ * @param shareId - Share link ID
+ */
+export async function revokeShareLink(shareId: string): Promise<void> {
+  await ApiService.revokeShare(shareId);
+}
+
+/**
+ * Revoke every link of a file or folder
+ * @returns Number of links revoked
+ */
+export async function revokeItemShareLinks(target: {
+  type: 'file' | 'folder';
+  id: string;
+}): Promise<number> {
+  return ApiService.revokeItemShareLinks(
+    target.type === 'folder' ? { folderId: target.id } : { fileId: target.id }
+  );
+}
+
+/**
+ * Revoke every expired link
+ * @returns Number of links revoked
+ */
+export async function revokeExpiredShareLinks(): Promise<number> {
+  return ApiService.revokeExpiredShareLinks();
+}
+
+/**
+ * Push back the expiry of several links; links that never expire are left alone
+ * @param shareIds - Share link IDs
+ * @param days - Days to add
+ */
+export async function extendShareLinks(shareIds: string[], days: number): Promise<void> {
+  await ApiService.extendShareLinks(shareIds, days);
+}
+
+/**
+ * Open a share link with the secret from its URL fragment
+ * @param token - Share token from the URL path
+ * @param secret - Link secret from the URL fragment
+ * @param password - Link password, once the visitor has entered it
+ * @returns Decrypted link, or null when the link needs a password
+ */
+export async function openShareLink(
+  token: string,
+  secret: string,
+  password?: string
+): Promise<OpenedShareLink | null> {
+  let response = await ApiService.getPublicShareLink(token);
+  let verifier: string | undefined;
+  let wrappingKey: CryptoKey;
+
+  if (response.requiresPassword) {
+    if (!password) {
+      return null;
+    }
+
+    const keys = await CryptoService.deriveShareLinkKeys(
+      secret,
+      password,
+      response.share.passwordSalt ?? undefined,
+      response.share.kdf ?? undefined
+    );
+    verifier = keys.verifier;
+    wrappingKey = keys.wrappingKey;
+    response = await ApiService.getPublicShareLink(token, verifier);
+  } else {
+    ({ wrappingKey } = await CryptoService.deriveShareLinkKeys(secret));
+  }
+
+  const share = response.share as PublicShareLink;
+  if (!share.filenameEncrypted || !share.filenameIv) {
+    throw new Error('This link was created before end-to-end encrypted links and cannot be opened');
+  }
+
+  let key: CryptoKey;
+  try {
+    key = await CryptoService.unwrapKey(JSON.parse(share.fileKeyEncrypted), wrappingKey);
+  } catch (error) {
+    throw new Error('This link is incomplete. Ask the sender for the full link.');
+  }
+
+  const name = await CryptoService.decryptString(
+    { data: share.filenameEncrypted, iv: share.filenameIv },
+    key
+  );
+
+  return {
+    token,
+    type: share.file ? 'file' : 'folder',
+    name,
+    size: share.file ? parseInt(share.file.fileSize, 10) : 0,
+    mimeType: share.file?.mimeType || (share.file ? 'application/octet-stream' : 'inode/directory'),
+    encryptionAlgorithm: share.file?.encryptionAlgorithm || '',
+    expiresAt: share.expiresAt,
+    key,
+    verifier,
+  };
+}
+
+/**
+ * Download and decrypt the file behind a share link
+ * @param link - Opened share link
+ * @param onProgress - Decryption progress callback (0-100)
+ * @returns Decrypted content
+ */
+export async function downloadShareLinkFile(
+  link: OpenedShareLink,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const encryptedBlob = await ApiService.downloadPublicShareLink(link.token, link.verifier);
+
+  return CryptoService.decryptFile(
+    encryptedBlob,
+    '',
+    link.key,
+    onProgress,
+    link.encryptionAlgorithm
+  );
+}
+
+/**
+ * List a folder shared by link, or one of its subfolders
+ * @param link - Opened share link
+ * @param folderKey - Key of the folder being listed
+ * @param folderId - Subfolder to list (defaults to the shared folder)
+ * @returns Entries with decrypted names and their keys
+ */
+export async function listShareLinkFolder(
+  link: OpenedShareLink,
+  folderKey: CryptoKey,
+  folderId?: string
+): Promise<SharedFolderListing> {
+  const contents = await ApiService.getPublicSharedFolder(link.token, link.verifier, folderId);
+  return decryptSharedFolderContents(contents, folderKey);
+}
+
+/**
+ * Download and decrypt a file inside a folder shared by link
+ * @param link - Opened share link
+ * @param entry - File inside the folder
+ * @param onProgress - Decryption progress callback (0-100)
+ * @returns Decrypted content
+ */
+export async function downloadShareLinkFolderFile(
+  link: OpenedShareLink,
+  entry: SharedFolderEntry,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const encryptedBlob = await ApiService.downloadPublicSharedFolderFile(
+    link.token,
+    entry.id,
+    link.verifier
+  );
+
+  return CryptoService.decryptFile(
+    encryptedBlob,
+    '',
+    entry.key,
+    onProgress,
+    entry.encryptionAlgorithm
+  );
+}
+
+/**
+ * List the share links of a file or folder.
+ * Their URLs cannot be rebuilt: the link secret is never stored.
+ * @param target - File or folder
+ */
+export async function listShareLinks(target: {
+  type: 'file' | 'folder';
+  id: string;
+}): Promise<ShareLinkSummary[]> {
+  return ApiService.listShareLinks(
+    target.type === 'folder' ? { folderId: target.id } : { fileId: target.id }
+  );
+}
+
+/**
+ * Get who opened a share link, and how it went, day by day
+ * @param shareId - Share link ID
+ * @param days - Days to cover, ending today
+ */
+export async function getShareAccessLog(
+  shareId: string,
+  days?: number
+): Promise<ShareAccessTimeline> {
+  return ApiService.getShareAccessLog(shareId, days);
+}
+
+// ============================================================================
+// File Requests
+// ============================================================================
+
+export interface FileRequestOptions {
+  password?: string;
+  expiresAt?: Date;
+  maxFiles?: number;
+  maxFileSize?: number; // Bytes
+}
+
+export interface CreatedFileRequest {
+  request: FileRequestSummary;
+  url: string;
+}
+
+/**
+ * Create an upload-only link that collects files into a folder
+ * @param folderId - Folder the files land in
+ * @param options - Password, expiry and limits
+ * @returns Created request and its link
+ */
+export async function createFileRequest(
+  folderId: string,
+  options: FileRequestOptions = {}
+): Promise<CreatedFileRequest> {
+  const request = await ApiService.createFileRequest({
+    folderId,
+    password: options.password,
+    expiresAt: options.expiresAt?.toISOString(),
+    maxFiles: options.maxFiles,
+    maxFileSize: options.maxFileSize,
+  });
+
+  return {
+    request,
+    url: `${window.location.origin}/request/${request.shareToken}`,
+  };
+}
+
+/**
+ * Open a file request
+ * @param token - Share token from the URL path
+ * @param password - Link password, once the visitor has entered it
+ * @returns Request with the owner's public key, or null when it needs a password
+ */
+export async function openFileRequest(
+  token: string,
+  password?: string
+): Promise<PublicFileRequest | null> {
+  const response = await ApiService.getPublicFileRequest(token, password);
+  return response.requiresPassword ? null : response.request;
+}
+
+/**
+ * Encrypt a file for the owner of a file request and upload it.
+ * The file key is wrapped with the owner's public key, so neither the server
+ * nor the uploader (once the page is closed) can read the file again.
+ * @param token - Share token of the request
+ * @param request - Opened request
+ * @param file - File to send
+ * @param password - Link password, if the request has one
+ * @param onProgress - Upload progress callback (0-100)
+ */
+export async function sendFileToRequest(
+  token: string,
+  request: PublicFileRequest,
+  file: File,
+  password?: string,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  const maxFileSize = request.maxFileSize ? parseInt(request.maxFileSize, 10) : null;
+  if (maxFileSize !== null && CryptoService.getStreamEncryptedSize(file.size) > maxFileSize) {
+    throw new Error(`Files can be at most ${formatFileSize(maxFileSize)}`);
+  }
+
+  const fileKey = await CryptoService.generateFileKey();
+  const encryptedName = await CryptoService.encryptString(file.name, fileKey);
+  const { encryptedBlob } = await CryptoService.encryptFile(file, fileKey);
+  const fileHash = await CryptoService.sha256(await encryptedBlob.arrayBuffer());
+
+  await ApiService.uploadToFileRequest(
+    token,
+    encryptedBlob,
+    {
+      fileSize: file.size,
+      fileHash,
+      fileKeyEncrypted: await CryptoService.wrapFileKeyForRecipient(fileKey, request.publicKey),
+      filenameEncrypted: encryptedName.data,
+      filenameIv: encryptedName.iv,
+      mimeType: file.type || 'application/octet-stream',
+      encryptionAlgorithm: ENCRYPTION_ALGORITHM_STREAM,
+    },
+    password,
+    (loaded) => onProgress?.(Math.min(100, (loaded / encryptedBlob.size) * 100))
+  );
+}
+
+/**
+ * Claim a file received through a file request: unwrap its key with the
+ * private key and store it wrapped like any other file of the owner
+ * @param file - Received file
+ * @param masterKey - User's master key
+ * @returns Decrypted file name
+ */
+async function claimReceivedFile(file: FileMetadata, masterKey: CryptoKey): Promise<string> {
+  const fileKey = await getSharedFileKey(file.fileKeyEncrypted!);
+  const name = await CryptoService.decryptString(
+    { data: file.encryptedName, iv: file.encryptedNameIV },
+    fileKey
+  );
+  const encryptedName = await CryptoService.encryptString(name, masterKey);
+
+  await ApiService.claimReceivedFile(file.id, {
+    fileKeyEncrypted: await CryptoService.wrapFileKey(fileKey, masterKey),
+    filenameEncrypted: encryptedName.data,
+    filenameIv: encryptedName.iv,
+    ...(await getParentKeyFields(fileKey, name, file.folderId, masterKey)),
+    searchTokens: await getSearchTokens(name, masterKey),
+  });
+
+  return name;
+}
+
 // ============================================================================
 // File Listing
 // ============================================================================
@@ -359,13 +1643,17 @@ export async function listFiles(folderId?: string): Promise<FileListItem[]> {
     const decryptedFiles = await Promise.all(
       files.map(async (file) => {
         try {
-          const name = await CryptoService.decryptString(
-            {
-              data: file.encryptedName,
-              iv: file.encryptedNameIV,
-            },
-            masterKey
-          );
+          // Files received through a file request are claimed on first sight
+          const name =
+            file.keyWrapping === 'RSA-OAEP'
+              ? await claimReceivedFile(file, masterKey)
+              : await CryptoService.decryptString(
+                  {
+                    data: file.encryptedName,
+                    iv: file.encryptedNameIV,
+                  },
+                  masterKey
+                );
 
           // Calculate approximate original size (subtract GCM tag size)
           const approximateSize = Math.max(0, file.encryptedSize - 16);
@@ -401,6 +1689,95 @@ export async function listFiles(folderId?: string): Promise<FileListItem[]> {
   }
 }
 
+// ============================================================================
+// File Search
+// ============================================================================
+
+/**
+ * Compute the blind-index tokens stored with a file name
+ * @param name - Plaintext file name
+ * @param masterKey - User's master key
+ */
+async function getSearchTokens(name: string, masterKey: CryptoKey): Promise<string[]> {
+  const searchKey = await CryptoService.deriveSearchKey(masterKey);
+  return await CryptoService.generateSearchTokens(name, searchKey);
+}
+
+/**
+ * Search files by name without revealing the name to the server.
+ * The query is turned into HMAC tokens that the server matches against the
+ * tokens stored at upload; results are decrypted and checked locally.
+ * @param filters - Query, optional folder (searched recursively), type and dates
+ * @returns Matching files, newest first
+ */
+export async function searchFiles(filters: SearchFilters): Promise<FileListItem[]> {
+  try {
+    const masterKey = StorageService.getMasterKey();
+    if (!masterKey) {
+      throw new Error('Master key not available. Please login again.');
+    }
+
+    const query = (filters.query || '').trim();
+    const searchKey = await CryptoService.deriveSearchKey(masterKey);
+    const tokens = await CryptoService.generateQueryTokens(query, searchKey);
+
+    if (tokens.length === 0) {
+      return [];
+    }
+
+    const result = await ApiService.searchFiles({
+      tokens,
+      folderId: filters.folderId,
+      recursive: filters.folderId ? true : undefined,
+      mimeType: filters.fileType?.[0],
+      dateFrom: filters.dateFrom ? new Date(filters.dateFrom).toISOString() : undefined,
+      dateTo: filters.dateTo ? new Date(filters.dateTo).toISOString() : undefined,
+    });
+
+    const files = await Promise.all(
+      result.files.map(async (file): Promise<FileListItem | null> => {
+        try {
+          const name = await CryptoService.decryptString(
+            { data: file.filenameEncrypted, iv: file.filenameIv },
+            masterKey
+          );
+
+          return {
+            id: file.id,
+            name,
+            size: Number(file.fileSize),
+            mimeType: file.mimeType || 'application/octet-stream',
+            folderId: file.parentFolder?.id,
+            createdAt: file.createdAt,
+            updatedAt: file.updatedAt,
+          };
+        } catch (error) {
+          console.error('Failed to decrypt file metadata:', error);
+          return null;
+        }
+      })
+    );
+
+    // Trigrams can match out of order, so confirm each query word locally
+    const words = query
+      .normalize('NFKC')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 0);
+
+    return files.filter((file): file is FileListItem => {
+      if (!file) {
+        return false;
+      }
+      const name = file.name.normalize('NFKC').toLowerCase();
+      return words.every((word) => name.includes(word));
+    });
+  } catch (error: any) {
+    console.error('File search failed:', error);
+    throw new Error(error.message || 'Failed to search files');
+  }
+}
+
 // ============================================================================
 // File Operations
 // ============================================================================
@@ -437,6 +1814,7 @@ export async function renameFile(fileId: string, newName: string): Promise<FileL
     const metadata = await ApiService.updateFileMetadata(fileId, {
       encryptedName: encryptedName.data,
       encryptedNameIV: encryptedName.iv,
+      searchTokens: await getSearchTokens(newName, masterKey),
     });
 
     return {
@@ -603,11 +1981,16 @@ export async function createFolder(name: string, parentId?: string): Promise<Fol
     // Encrypt folder name
     const encryptedName = await CryptoService.encryptString(name, masterKey);
 
+    // Every folder gets its own key so it can be shared later
+    const folderKey = await CryptoService.generateFolderKey();
+
     // Create folder
     const metadata = await ApiService.createFolder({
       encryptedName: encryptedName.data,
       encryptedNameIV: encryptedName.iv,
       parentId,
+      folderKeyEncrypted: await CryptoService.wrapFileKey(folderKey, masterKey),
+      ...(await getParentKeyFields(folderKey, name, parentId, masterKey)),
     });
 
     return {
@@ -706,6 +2089,119 @@ export async function moveFolder(folderId: string, parentId?: string): Promise<F
   }
 }
 
+// ============================================================================
+// Trash
+// ============================================================================
+
+export interface TrashItem {
+  id: string;
+  type: 'file' | 'folder';
+  name: string;
+  size: number;
+  mimeType: string;
+  deletedAt: string | null;
+  purgeAt: string | null;
+  contents?: { files: number; folders: number };
+}
+
+export interface TrashListing {
+  retentionDays: number;
+  items: TrashItem[];
+}
+
+/**
+ * List deleted files and folders, newest first
+ * @returns Retention window and decrypted trash items
+ */
+export async function listTrash(): Promise<TrashListing> {
+  const masterKey = StorageService.getMasterKey();
+  if (!masterKey) {
+    throw new Error('Master key not available. Please login again.');
+  }
+
+  const trash = await ApiService.getTrash();
+
+  const decryptName = async (name: EncryptedData): Promise<string> => {
+    try {
+      return await CryptoService.decryptString(name, masterKey);
+    } catch (error) {
+      console.error('Failed to decrypt trash item name:', error);
+      return '(decryption failed)';
+    }
+  };
+
+  const folders: TrashItem[] = await Promise.all(
+    trash.folders.map(async (folder) => ({
+      id: folder.id,
+      type: 'folder' as const,
+      name: await decryptName({ data: folder.nameEncrypted, iv: folder.nameIv }),
+      size: 0,
+      mimeType: 'inode/directory',
+      deletedAt: folder.deletedAt,
+      purgeAt: folder.purgeAt,
+      contents: folder.contents,
+    }))
+  );
+
+  const files: TrashItem[] = await Promise.all(
+    trash.files.map(async (file) => ({
+      id: file.id,
+      type: 'file' as const,
+      name: await decryptName({ data: file.filenameEncrypted, iv: file.filenameIv }),
+      size: Number(file.fileSize),
+      mimeType: file.mimeType || 'application/octet-stream',
+      deletedAt: file.deletedAt,
+      purgeAt: file.purgeAt,
+    }))
+  );
+
+  const items = [...folders, ...files].sort(
+    (a, b) => new Date(b.deletedAt || 0).getTime() - new Date(a.deletedAt || 0).getTime()
+  );
+
+  return { retentionDays: trash.retentionDays, items };
+}
+
+/**
+ * Restore a file or folder from the trash
+ * @param item - Trash item to restore
+ * @returns Restore result
+ */
+export async function restoreTrashItem(item: TrashItem): Promise<TrashRestoreResult> {
+  return item.type === 'folder'
+    ? ApiService.restoreTrashedFolder(item.id)
+    : ApiService.restoreTrashedFile(item.id);
+}
+
+/**
+ * Permanently delete a file or folder from the trash
+ * @param item - Trash item to delete
+ */
+export async function deleteTrashItem(item: TrashItem): Promise<void> {
+  if (item.type === 'folder') {
+    await ApiService.deleteTrashedFolder(item.id);
+  } else {
+    await ApiService.deleteTrashedFile(item.id);
+  }
+}
+
+/**
+ * Permanently delete everything in the trash
+ * @returns Number of files and folders deleted
+ */
+export async function emptyTrash(): Promise<{ filesDeleted: number; foldersDeleted: number }> {
+  return ApiService.emptyTrash();
+}
+
+/**
+ * Set how many days deleted items are kept before being purged
+ * @param retentionDays - Retention window in days
+ * @returns Saved retention window
+ */
+export async function setTrashRetention(retentionDays: number): Promise<number> {
+  return ApiService.updateTrashSettings(retentionDays);
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -775,13 +2271,59 @@ const FileService = {
   // Upload
   uploadFile,
   uploadMultipleFiles,
+  abortPendingUpload,
 
   // Download
   downloadFile,
   downloadFileToDevice,
 
+  // Versions
+  listFileVersions,
+  downloadFileVersion,
+  restoreFileVersion,
+  deleteFileVersion,
+  deleteOldFileVersions,
+
+  // User sharing
+  shareFileWithUser,
+  listSharedWithMe,
+  downloadSharedFile,
+  updateSharedFile,
+  listFileUserShares,
+  updateUserSharePermission,
+  removeUserShare,
+
+  // Folder sharing
+  shareFolderWithUser,
+  getSharedFolderKey,
+  listSharedFolder,
+  downloadSharedFolderFile,
+
+  // Share links
+  createShareLink,
+  openShareLink,
+  downloadShareLinkFile,
+  listShareLinkFolder,
+  downloadShareLinkFolderFile,
+  listShareLinks,
+  getShareAccessLog,
+  rotateShareLink,
+  unlockShareLink,
+  listShareLinksForManagement,
+  updateShareLink,
+  revokeShareLink,
+  revokeItemShareLinks,
+  revokeExpiredShareLinks,
+  extendShareLinks,
+
+  // File requests
+  createFileRequest,
+  openFileRequest,
+  sendFileToRequest,
+
   // File listing
   listFiles,
+  searchFiles,
 
   // File operations
   deleteFile,
@@ -796,6 +2338,13 @@ const FileService = {
   deleteFolder,
   moveFolder,
 
+  // Trash
+  listTrash,
+  restoreTrashItem,
+  deleteTrashItem,
+  emptyTrash,
+  setTrashRetention,
+
   // Utilities
   getFileExtension,
   getFileIcon,
@@ -8,12 +8,16 @@ export { default as StorageService } from './storage.service';
 export { default as ApiService } from './api.service';
 export { default as AuthService } from './auth.service';
 export { default as FileService } from './file.service';
+export { default as WebAuthnService } from './webauthn.service';
 
 // Re-export types
 export type {
   EncryptedData,
   KeyPair,
   DerivedKeyResult,
+  KdfAlgorithm,
+  KdfParams,
+  ShareLinkKeys,
 } from './crypto.service';
 
 export type {
@@ -31,6 +35,9 @@ export type {
   LoginResponse,
   TwoFactorSetupResponse,
   TwoFactorVerifyRequest,
+  TwoFactorMethod,
+  SecurityKey,
+  ActiveSession,
   RefreshTokenResponse,
   FileMetadata,
   UploadRequest,
@@ -41,13 +48,36 @@ export type {
   UpdateProfileRequest,
   ShareFileRequest,
   ShareResponse,
+  UserSharePermission,
+  UserShare,
+  ReceivedUserShare,
+  FolderKeyTree,
+  SharedFolderContents,
+  CreateShareLinkRequest,
+  ShareLinkSummary,
+  RotateShareLinkRequest,
+  ManagedShareLink,
+  ShareLinkStatus,
+  UpdateShareLinkRequest,
+  ShareAccessOutcome,
+  ShareAccessEvent,
+  ShareAccessTimeline,
+  PublicShareLink,
+  FileKeyWrapping,
+  FileRequestSummary,
+  PublicFileRequest,
+  TrashContents,
+  TrashRestoreResult,
 } from './api.service';
 
 export type {
   RegisterData,
   LoginData,
+  LoginResult,
+  AddedSecurityKey,
   TwoFactorData,
   ChangePasswordData,
+  ChangePasswordResult,
   AuthUser,
   TwoFactorSetup,
 } from './auth.service';
@@ -59,4 +89,13 @@ export type {
   DecryptedFolder,
   FileListItem,
   FolderListItem,
+  SharedFileItem,
+  SharedFolderEntry,
+  ShareLinkOptions,
+  CreatedShareLink,
+  ShareLinkListItem,
+  OpenedShareLink,
+  FileRequestOptions,
+  CreatedFileRequest,
+  TrashItem,
 } from './file.service';
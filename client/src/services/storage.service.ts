@@ -23,6 +23,13 @@ export interface TokenData {
   expiresAt: number;
 }
 
+export interface PendingUpload {
+  sessionId: string;
+  iv: string;
+  partHashes: Record<number, string>;
+  createdAt: number;
+}
+
 // ============================================================================
 // Storage Keys
 // ============================================================================
@@ -36,6 +43,7 @@ const STORAGE_KEYS = {
   ENCRYPTED_PRIVATE_KEY: 'crypticstorage_encrypted_private_key',
   PUBLIC_KEY: 'crypticstorage_public_key',
   REMEMBER_ME: 'crypticstorage_remember_me',
+  PENDING_UPLOADS: 'crypticstorage_pending_uploads',
 } as const;
 
 // ============================================================================
@@ -411,6 +419,57 @@ export function hasValidSession(): boolean {
   return tokens !== null && !isTokenExpired();
 }
 
+// ============================================================================
+// Pending Uploads (resumable upload state)
+// ============================================================================
+
+/**
+ * Read all pending uploads keyed by file fingerprint
+ */
+function readPendingUploads(): Record<string, PendingUpload> {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.PENDING_UPLOADS);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error('Failed to read pending uploads:', error);
+    return {};
+  }
+}
+
+/**
+ * Store the resume state of an in-progress upload
+ * Only non-secret data is persisted (session ID, base nonce, part hashes)
+ */
+export function setPendingUpload(fingerprint: string, upload: PendingUpload): void {
+  try {
+    const uploads = readPendingUploads();
+    uploads[fingerprint] = upload;
+    localStorage.setItem(STORAGE_KEYS.PENDING_UPLOADS, JSON.stringify(uploads));
+  } catch (error) {
+    console.error('Failed to store pending upload:', error);
+  }
+}
+
+/**
+ * Get the resume state of an in-progress upload
+ */
+export function getPendingUpload(fingerprint: string): PendingUpload | null {
+  return readPendingUploads()[fingerprint] || null;
+}
+
+/**
+ * Remove the resume state of an upload
+ */
+export function removePendingUpload(fingerprint: string): void {
+  try {
+    const uploads = readPendingUploads();
+    delete uploads[fingerprint];
+    localStorage.setItem(STORAGE_KEYS.PENDING_UPLOADS, JSON.stringify(uploads));
+  } catch (error) {
+    console.error('Failed to remove pending upload:', error);
+  }
+}
+
 // ============================================================================
 // Clear All Data
 // ============================================================================
@@ -427,6 +486,7 @@ export function clearAllData(): void {
     localStorage.removeItem(STORAGE_KEYS.ENCRYPTED_PRIVATE_KEY);
     localStorage.removeItem(STORAGE_KEYS.PUBLIC_KEY);
     localStorage.removeItem(STORAGE_KEYS.REMEMBER_ME);
+    localStorage.removeItem(STORAGE_KEYS.PENDING_UPLOADS);
 
     // Clear in-memory storage
     memoryStorage.clear();
@@ -535,6 +595,11 @@ const StorageService = {
   isAuthenticated,
   hasValidSession,
 
+  // Pending uploads
+  setPendingUpload,
+  getPendingUpload,
+  removePendingUpload,
+
   // Clear data
   clearAllData,
   clearInMemoryData,
@@ -0,0 +1,152 @@
+/**
+ * CrypticStorage - WebAuthn Service
+ * Runs security key ceremonies in the browser and converts them to and from JSON
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from './crypto.service';
+import type {
+  WebAuthnAuthenticationOptions,
+  WebAuthnAuthenticationResponse,
+  WebAuthnCredentialDescriptor,
+  WebAuthnRegistrationOptions,
+  WebAuthnRegistrationResponse,
+} from './api.service';
+
+// ============================================================================
+// Helper Functions - Base64url Conversions
+// ============================================================================
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  return arrayBufferToBase64(buffer).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToArrayBuffer(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+}
+
+function toCredentialDescriptor(
+  descriptor: WebAuthnCredentialDescriptor
+): PublicKeyCredentialDescriptor {
+  return {
+    type: descriptor.type,
+    id: fromBase64Url(descriptor.id),
+    transports: descriptor.transports as AuthenticatorTransport[],
+  };
+}
+
+// ============================================================================
+// Ceremonies
+// ============================================================================
+
+/**
+ * Check whether the browser can use security keys
+ */
+export function isSupported(): boolean {
+  return typeof window !== 'undefined' && typeof window.PublicKeyCredential === 'function';
+}
+
+/**
+ * Create a new credential on a security key
+ * @param options - Registration options from the server
+ * @returns Attestation encoded for the server
+ */
+export async function createCredential(
+  options: WebAuthnRegistrationOptions
+): Promise<WebAuthnRegistrationResponse> {
+  if (!isSupported()) {
+    throw new Error('This browser does not support security keys');
+  }
+
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      challenge: fromBase64Url(options.challenge),
+      rp: options.rp,
+      user: {
+        id: fromBase64Url(options.user.id),
+        name: options.user.name,
+        displayName: options.user.displayName,
+      },
+      pubKeyCredParams: options.pubKeyCredParams,
+      timeout: options.timeout,
+      attestation: options.attestation,
+      excludeCredentials: options.excludeCredentials.map(toCredentialDescriptor),
+      authenticatorSelection: options.authenticatorSelection,
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('Security key registration was cancelled');
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  const publicKey = response.getPublicKey();
+
+  if (!publicKey) {
+    throw new Error('This security key uses an unsupported algorithm');
+  }
+
+  return {
+    id: toBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.getAuthenticatorData()),
+      publicKey: toBase64Url(publicKey),
+      publicKeyAlgorithm: response.getPublicKeyAlgorithm(),
+      transports: response.getTransports(),
+    },
+  };
+}
+
+/**
+ * Sign a login challenge with one of the user's security keys
+ * @param options - Authentication options from the server
+ * @returns Assertion encoded for the server
+ */
+export async function getAssertion(
+  options: WebAuthnAuthenticationOptions
+): Promise<WebAuthnAuthenticationResponse> {
+  if (!isSupported()) {
+    throw new Error('This browser does not support security keys');
+  }
+
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      challenge: fromBase64Url(options.challenge),
+      rpId: options.rpId,
+      timeout: options.timeout,
+      allowCredentials: options.allowCredentials.map(toCredentialDescriptor),
+      userVerification: options.userVerification,
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('Security key sign-in was cancelled');
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+
+  return {
+    id: toBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : undefined,
+    },
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const WebAuthnService = {
+  isSupported,
+  createCredential,
+  getAssertion,
+};
+
+export default WebAuthnService;
@@ -6,6 +6,7 @@ interface User {
   username: string;
   createdAt: string;
   updatedAt: string;
+  emailVerified?: boolean;
 }
 
 interface AuthState {
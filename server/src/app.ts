@@ -9,7 +9,9 @@ import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 import routes from './routes';
 import { prisma } from './config/database';
 import { redisClient } from './config/redis';
-import { storageClient } from './config/storage';
+import { initializeStorage, isStorageHealthy } from './config/storage';
+import { startScheduler, stopScheduler } from './services/scheduler.service';
+import { registerMaintenanceJobs } from './services/maintenance.service';
 import { register, collectDefaultMetrics } from 'prom-client';
 
 // Load environment variables
@@ -86,7 +88,7 @@ app.get('/health', async (req: Request, res: Response) => {
       services: {
         database: 'connected',
         redis: redisHealthy ? 'connected' : 'disconnected',
-        storage: 'connected',
+        storage: isStorageHealthy() ? 'connected' : 'disconnected',
       },
       uptime: process.uptime(),
       memory: process.memoryUsage(),
@@ -145,9 +147,9 @@ async function startServer() {
     await redisClient.ping();
     logger.info('Redis connected successfully');
 
-    // Initialize MinIO storage
+    // Initialize storage (MinIO bucket or local directories)
     logger.info('Initializing storage...');
-    // Storage client initializes bucket on first use
+    await initializeStorage();
     logger.info('Storage initialized successfully');
 
     // Start HTTP server
@@ -157,10 +159,20 @@ async function startServer() {
       logger.info(`API URL: ${process.env.API_URL || `http://localhost:${PORT}`}`);
     });
 
+    // Start background maintenance jobs
+    if (process.env.JOBS_ENABLED !== 'false') {
+      registerMaintenanceJobs();
+      startScheduler(
+        parseInt(process.env.JOB_TICK_INTERVAL_SECONDS || '30', 10) * 1000
+      );
+    }
+
     // Graceful shutdown handler
     const gracefulShutdown = async (signal: string) => {
       logger.info(`${signal} received. Starting graceful shutdown...`);
 
+      stopScheduler();
+
       // Stop accepting new connections
       server.close(async () => {
         logger.info('HTTP server closed');
@@ -0,0 +1,20 @@
+import logger from '../../utils/logger';
+import { MailMessage, MailTransport } from './types';
+
+/**
+ * Console Mail Transport
+ * Writes messages to the application log instead of delivering them.
+ * Intended for local development.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console' as const;
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    logger.info('Sending email', {
+      from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import logger from '../../utils/logger';
+import { buildMimeMessage } from './mime';
+import { MailMessage, MailTransport } from './types';
+
+/**
+ * File Mail Transport
+ * Stores each message as an .eml file in a directory. Intended for tests and
+ * staging environments where mail must be inspected but not delivered.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file' as const;
+
+  constructor(private readonly directory: string) {}
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    const filePath = path.join(this.directory, fileName);
+    await fs.writeFile(filePath, buildMimeMessage(from, message), 'utf8');
+
+    logger.debug('Email written to file', { to: message.to, filePath });
+  }
+}
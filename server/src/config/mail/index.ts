@@ -0,0 +1,83 @@
+import logger from '../../utils/logger';
+import { ExternalServiceError } from '../../utils/errors';
+import { ConsoleMailTransport } from './console.transport';
+import { FileMailTransport } from './file.transport';
+import { SmtpMailTransport } from './smtp.transport';
+import { MailTransport, MailTransportName } from './types';
+
+/**
+ * Mail Configuration
+ * Selects the mail transport with MAIL_TRANSPORT:
+ *   console - write messages to the application log (default)
+ *   file    - store .eml files under MAIL_FILE_PATH
+ *   smtp    - deliver through SMTP_HOST
+ */
+
+const MAIL_TRANSPORTS: MailTransportName[] = ['console', 'file', 'smtp'];
+
+let transport: MailTransport | null = null;
+
+/**
+ * Get the configured mail transport name
+ */
+export const getMailTransportName = (): MailTransportName => {
+  const name = (process.env.MAIL_TRANSPORT || 'console').toLowerCase() as MailTransportName;
+
+  if (!MAIL_TRANSPORTS.includes(name)) {
+    throw new ExternalServiceError(`Unknown mail transport: ${name}`, 'mail', {
+      supported: MAIL_TRANSPORTS,
+    });
+  }
+
+  return name;
+};
+
+/**
+ * Create a mail transport by name
+ */
+export const createMailTransport = (
+  name: MailTransportName = getMailTransportName()
+): MailTransport => {
+  if (name === 'file') {
+    return new FileMailTransport(process.env.MAIL_FILE_PATH || './data/mail');
+  }
+
+  if (name === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      throw new ExternalServiceError('SMTP_HOST is required for the smtp mail transport', 'mail');
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    return new SmtpMailTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      requireTls: process.env.SMTP_REQUIRE_TLS !== 'false',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASS,
+      timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '30000', 10),
+    });
+  }
+
+  return new ConsoleMailTransport();
+};
+
+/**
+ * Get the mail transport (singleton pattern)
+ */
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    transport = createMailTransport();
+    logger.info('Mail transport selected', { transport: transport.name });
+  }
+  return transport;
+};
+
+/**
+ * Sender address for outgoing mail
+ */
+export const getMailFrom = (): string =>
+  process.env.MAIL_FROM || 'CrypticStorage <noreply@crypticstorage.local>';
+
+export * from './types';
+export { ConsoleMailTransport, FileMailTransport, SmtpMailTransport };
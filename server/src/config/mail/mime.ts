@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { MailMessage } from './types';
+
+/**
+ * Encode a header value that may contain non-ASCII characters (RFC 2047)
+ */
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+/**
+ * Base64-encode a body part, wrapped at 76 characters
+ */
+const encodeBody = (value: string): string =>
+  Buffer.from(value, 'utf8')
+    .toString('base64')
+    .replace(/.{76}/g, '$&\r\n');
+
+/**
+ * Build an RFC 5322 message with CRLF line endings
+ */
+export const buildMimeMessage = (from: string, message: MailMessage): string => {
+  const domain = from.split('@')[1]?.replace(/>.*$/, '') || 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text),
+    ].join('\r\n');
+  }
+
+  const boundary = `=_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+};
+
+/**
+ * Extract the bare address from "Name <address>" or "address"
+ */
+export const extractAddress = (value: string): string => {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+};
@@ -0,0 +1,66 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import logger from '../../utils/logger';
+import { ExternalServiceError } from '../../utils/errors';
+import { buildMimeMessage, extractAddress } from './mime';
+import { MailMessage, MailTransport } from './types';
+
+/**
+ * SMTP Mail Transport
+ * Delivers the MIME message built by mime.ts through nodemailer. Credentials
+ * are only ever sent over TLS: implicit TLS, or STARTTLS that the server must
+ * offer. Transactional mail volume is low, so connections are not pooled.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS
+  secure: boolean;
+  // Fail unless STARTTLS succeeds; always on when credentials are set
+  requireTls: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs: number;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp' as const;
+
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpOptions) {
+    const { host, port, secure, requireTls, user, password, timeoutMs } = options;
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      // A server that drops STARTTLS must not get the credentials in cleartext
+      requireTLS: !secure && (requireTls || !!user),
+      auth: user ? { user, pass: password || '' } : undefined,
+      connectionTimeout: timeoutMs,
+      greetingTimeout: timeoutMs,
+      socketTimeout: timeoutMs,
+    });
+  }
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        envelope: { from: extractAddress(from), to: extractAddress(message.to) },
+        raw: buildMimeMessage(from, message),
+      });
+    } catch (error) {
+      logger.error('SMTP delivery failed', {
+        host: this.options.host,
+        to: message.to,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new ExternalServiceError(
+        'Failed to send email',
+        'smtp',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+}
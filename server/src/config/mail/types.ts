@@ -0,0 +1,23 @@
+/**
+ * Mail Transport Types
+ * Shared by every mail transport. Messages are plain text with an optional
+ * HTML alternative; the transport builds the MIME envelope.
+ */
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: MailTransportName;
+
+  /**
+   * Deliver a message. Resolves once the transport has accepted it.
+   */
+  send(from: string, message: MailMessage): Promise<void>;
+}
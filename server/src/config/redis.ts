@@ -339,6 +339,30 @@ export const deleteCache = async (key: string): Promise<void> => {
   }
 };
 
+/**
+ * Get a value from cache and delete it in one step (GETDEL), so only one
+ * caller can take it
+ */
+export const takeCache = async <T = any>(key: string): Promise<T | null> => {
+  try {
+    const client = RedisClient.getInstance();
+    const value = await client.getdel(key);
+
+    logger.debug('Cache taken', { key, hit: !!value });
+    return value ? (JSON.parse(value) as T) : null;
+  } catch (error) {
+    logger.error('Failed to take cache', {
+      key,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new ExternalServiceError(
+      'Failed to take cache value',
+      'redis',
+      error instanceof Error ? { originalError: error.message } : undefined
+    );
+  }
+};
+
 /**
  * Delete multiple cache keys by pattern
  */
@@ -425,11 +449,28 @@ export const setCacheNX = async (
 
 /**
  * Increment a counter in cache
+ * @param ttlSeconds - Optional expiry, refreshed on every increment
  */
-export const incrementCache = async (key: string, amount: number = 1): Promise<number> => {
+export const incrementCache = async (
+  key: string,
+  amount: number = 1,
+  ttlSeconds?: number
+): Promise<number> => {
   try {
     const client = RedisClient.getInstance();
-    const result = await client.incrby(key, amount);
+
+    let result: number;
+    if (ttlSeconds) {
+      const replies = await client.multi().incrby(key, amount).expire(key, ttlSeconds).exec();
+      const [error, value] = replies![0];
+      if (error) {
+        throw error;
+      }
+      result = value as number;
+    } else {
+      result = await client.incrby(key, amount);
+    }
+
     logger.debug('Cache incremented', { key, amount, result });
     return result;
   } catch (error) {
@@ -0,0 +1,95 @@
+import logger from '../../utils/logger';
+import { StorageError } from '../../utils/errors';
+import { MinioStorageBackend } from './minio.backend';
+import { LocalStorageBackend } from './local.backend';
+import { StorageBackend, StorageDriver } from './types';
+
+/**
+ * Storage Configuration
+ * Selects the storage driver with STORAGE_DRIVER:
+ *   minio - MinIO/S3 bucket (default)
+ *   local - files under STORAGE_LOCAL_PATH
+ */
+
+const STORAGE_DRIVERS: StorageDriver[] = ['minio', 'local'];
+
+let backend: StorageBackend | null = null;
+
+/**
+ * Get the configured storage driver
+ */
+export const getStorageDriver = (): StorageDriver => {
+  const driver = (process.env.STORAGE_DRIVER || 'minio').toLowerCase() as StorageDriver;
+
+  if (!STORAGE_DRIVERS.includes(driver)) {
+    throw new StorageError(`Unknown storage driver: ${driver}`, {
+      supported: STORAGE_DRIVERS,
+    });
+  }
+
+  return driver;
+};
+
+/**
+ * Create a storage backend for a driver
+ */
+export const createStorageBackend = (
+  driver: StorageDriver = getStorageDriver()
+): StorageBackend => {
+  if (driver === 'local') {
+    return new LocalStorageBackend(process.env.STORAGE_LOCAL_PATH || './data/storage');
+  }
+
+  return new MinioStorageBackend();
+};
+
+/**
+ * Get the storage backend (singleton pattern)
+ */
+export const getStorageBackend = (): StorageBackend => {
+  if (!backend) {
+    backend = createStorageBackend();
+    logger.info('Storage backend selected', { driver: backend.driver });
+  }
+  return backend;
+};
+
+/**
+ * Initialize the storage backend
+ */
+export const initializeStorage = async (): Promise<void> => {
+  await getStorageBackend().initialize();
+};
+
+/**
+ * Check if storage is healthy
+ */
+export const isStorageHealthy = (): boolean => getStorageBackend().isHealthy();
+
+/**
+ * Get storage usage statistics
+ */
+export const getStorageStats = async (): Promise<{
+  totalObjects: number;
+  totalSize: number;
+}> => {
+  try {
+    const objects = await getStorageBackend().listObjects(undefined, true);
+
+    return {
+      totalObjects: objects.length,
+      totalSize: objects.reduce((sum, obj) => sum + (obj.size || 0), 0),
+    };
+  } catch (error) {
+    logger.error('Failed to get storage stats', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to get storage statistics',
+      error instanceof Error ? { originalError: error.message } : undefined
+    );
+  }
+};
+
+export * from './types';
+export { MinioStorageBackend, LocalStorageBackend };
@@ -0,0 +1,617 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../../utils/logger';
+import { StorageError, ValidationError } from '../../utils/errors';
+import {
+  ListedObject,
+  ObjectStat,
+  PutObjectResult,
+  StorageBackend,
+  UploadedPart,
+} from './types';
+
+/**
+ * Local Filesystem Storage Backend
+ * Stores objects as files under a root directory, for deployments without
+ * MinIO. Layout:
+ *
+ *   objects/{shard}/{shard}/{key segments...}.obj   object data
+ *   objects/{shard}/{shard}/{key segments...}.meta  etag and metadata
+ *   uploads/{uploadId}/                             multipart parts
+ *   tmp/                                            writes in progress
+ *
+ * Objects are spread over 65536 shard directories by a hash of their first
+ * two key segments (e.g. users/{userId}), so one user's objects stay together
+ * and can be listed without scanning the whole tree. Every write goes to tmp/
+ * first and is renamed into place, so readers never see a partial object.
+ */
+
+const DATA_SUFFIX = '.obj';
+const META_SUFFIX = '.meta';
+
+interface ObjectMeta {
+  key: string;
+  etag: string;
+  metadata: Record<string, string>;
+}
+
+interface ObjectLocation {
+  dir: string;
+  dataPath: string;
+  metaPath: string;
+}
+
+const isNotFound = (error: any): boolean => error?.code === 'ENOENT';
+
+/**
+ * Passes data through while computing its MD5 and length
+ */
+class DigestStream extends Transform {
+  private readonly hash = crypto.createHash('md5');
+  public bytes = 0;
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: () => void): void {
+    this.hash.update(chunk);
+    this.bytes += chunk.length;
+    this.push(chunk);
+    callback();
+  }
+
+  digest(): string {
+    return this.hash.digest('hex');
+  }
+}
+
+export class LocalStorageBackend implements StorageBackend {
+  public readonly driver = 'local' as const;
+  private healthy = false;
+
+  private readonly objectsPath: string;
+  private readonly uploadsPath: string;
+  private readonly tmpPath: string;
+
+  constructor(rootPath: string) {
+    const root = path.resolve(rootPath);
+    this.objectsPath = path.join(root, 'objects');
+    this.uploadsPath = path.join(root, 'uploads');
+    this.tmpPath = path.join(root, 'tmp');
+  }
+
+  /**
+   * Split a key into segments, rejecting keys that could escape the root
+   */
+  private parseKey(key: string): string[] {
+    const segments = key.split('/');
+
+    if (
+      key.length === 0 ||
+      segments.some((s) => s.length === 0 || s === '.' || s === '..' || s.includes('\0'))
+    ) {
+      throw new ValidationError('Invalid storage key', { key });
+    }
+
+    return segments;
+  }
+
+  /**
+   * Get the shard directory for an object's namespace (its first two segments)
+   */
+  private shardPath(namespace: string): string {
+    const hash = crypto.createHash('sha256').update(namespace).digest('hex');
+    return path.join(this.objectsPath, hash.slice(0, 2), hash.slice(2, 4));
+  }
+
+  /**
+   * Map a key to its files on disk
+   */
+  private locate(key: string): ObjectLocation {
+    const segments = this.parseKey(key);
+    const namespace = segments.slice(0, Math.min(2, segments.length - 1)).join('/');
+    const encoded = segments.map(encodeURIComponent);
+
+    const dir = path.join(this.shardPath(namespace), ...encoded.slice(0, -1));
+    const name = encoded[encoded.length - 1];
+
+    return {
+      dir,
+      dataPath: path.join(dir, name + DATA_SUFFIX),
+      metaPath: path.join(dir, name + META_SUFFIX),
+    };
+  }
+
+  /**
+   * Write data to a new file in tmp/ and sync it to disk
+   */
+  private async writeTemp(
+    data: Buffer | Readable
+  ): Promise<{ tmpFile: string; etag: string; bytes: number }> {
+    await fsp.mkdir(this.tmpPath, { recursive: true });
+
+    const tmpFile = path.join(this.tmpPath, uuidv4());
+    const digest = new DigestStream();
+
+    try {
+      const source = Buffer.isBuffer(data) ? Readable.from([data]) : data;
+      await pipeline(source, digest, fs.createWriteStream(tmpFile, { flags: 'wx' }));
+
+      const handle = await fsp.open(tmpFile, 'r+');
+      try {
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+
+      return { tmpFile, etag: digest.digest(), bytes: digest.bytes };
+    } catch (error) {
+      await fsp.rm(tmpFile, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically move a finished temporary file to its final path
+   */
+  private async moveIntoPlace(tmpFile: string, targetPath: string): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      await fsp.mkdir(path.dirname(targetPath), { recursive: true });
+      try {
+        await fsp.rename(tmpFile, targetPath);
+        return;
+      } catch (error) {
+        // A concurrent delete may have pruned the directory we just created
+        if (!isNotFound(error) || attempt > 0) {
+          await fsp.rm(tmpFile, { force: true });
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Write data to a temporary file and rename it into place
+   */
+  private async writeAtomic(
+    targetPath: string,
+    data: Buffer | Readable
+  ): Promise<{ etag: string; bytes: number }> {
+    const { tmpFile, etag, bytes } = await this.writeTemp(data);
+    await this.moveIntoPlace(tmpFile, targetPath);
+    return { etag, bytes };
+  }
+
+  /**
+   * Read an object's metadata file
+   */
+  private async readMeta(metaPath: string): Promise<ObjectMeta | null> {
+    try {
+      return JSON.parse(await fsp.readFile(metaPath, 'utf8')) as ObjectMeta;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove empty directories left behind after a delete, up to the shard root
+   */
+  private async pruneEmptyDirs(dir: string): Promise<void> {
+    let current = dir;
+
+    while (current.startsWith(this.objectsPath + path.sep) && current !== this.objectsPath) {
+      try {
+        await fsp.rmdir(current);
+      } catch {
+        // Not empty (or already gone)
+        return;
+      }
+      current = path.dirname(current);
+    }
+  }
+
+  public async initialize(): Promise<void> {
+    try {
+      logger.info('Initializing local storage...', { objectsPath: this.objectsPath });
+
+      await Promise.all([
+        fsp.mkdir(this.objectsPath, { recursive: true }),
+        fsp.mkdir(this.uploadsPath, { recursive: true }),
+        fsp.mkdir(this.tmpPath, { recursive: true }),
+      ]);
+
+      // Anything left in tmp/ is from writes interrupted by a crash
+      const leftovers = await fsp.readdir(this.tmpPath);
+      await Promise.all(
+        leftovers.map((name) => fsp.rm(path.join(this.tmpPath, name), { force: true }))
+      );
+
+      this.healthy = true;
+      logger.info('Local storage initialized successfully');
+    } catch (error) {
+      this.healthy = false;
+      logger.error('Failed to initialize local storage', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new StorageError(
+        'Failed to initialize storage',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  public isHealthy(): boolean {
+    return this.healthy;
+  }
+
+  public async putObject(
+    key: string,
+    data: Buffer | Readable,
+    size: number,
+    metadata: Record<string, string> = {}
+  ): Promise<PutObjectResult> {
+    const location = this.locate(key);
+
+    try {
+      const { tmpFile, etag, bytes } = await this.writeTemp(data);
+
+      if (bytes !== size) {
+        await fsp.rm(tmpFile, { force: true });
+        throw new StorageError('Uploaded data does not match the declared size', {
+          key,
+          expected: size,
+          received: bytes,
+        });
+      }
+
+      // Metadata goes first, so a visible object always has its metadata
+      const meta: ObjectMeta = { key, etag, metadata };
+      await this.writeAtomic(location.metaPath, Buffer.from(JSON.stringify(meta)));
+      await this.moveIntoPlace(tmpFile, location.dataPath);
+
+      logger.info('File uploaded successfully', { objectName: key, etag });
+
+      return { etag };
+    } catch (error) {
+      if (error instanceof StorageError) {
+        throw error;
+      }
+      logger.error('Failed to upload file', {
+        objectName: key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new StorageError(
+        'Failed to upload file to storage',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  public async getObject(key: string): Promise<Buffer> {
+    try {
+      return await fsp.readFile(this.locate(key).dataPath);
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new StorageError('File not found in storage', { key });
+      }
+      throw new StorageError(
+        'Failed to download file from storage',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  public async getObjectStream(key: string): Promise<Readable> {
+    const { dataPath } = this.locate(key);
+
+    try {
+      // Open before returning so a missing object fails here, not mid-stream
+      const handle = await fsp.open(dataPath, 'r');
+      return handle.createReadStream();
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new StorageError('File not found in storage', { key });
+      }
+      throw new StorageError(
+        'Failed to download file from storage',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  public async deleteObject(key: string): Promise<void> {
+    const location = this.locate(key);
+
+    try {
+      await fsp.rm(location.dataPath, { force: true });
+      await fsp.rm(location.metaPath, { force: true });
+      await this.pruneEmptyDirs(location.dir);
+    } catch (error) {
+      logger.error('Failed to delete file', {
+        objectName: key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new StorageError(
+        'Failed to delete file from storage',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  public async deleteObjects(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.deleteObject(key);
+    }
+  }
+
+  public async copyObject(sourceKey: string, destinationKey: string): Promise<void> {
+    const source = this.locate(sourceKey);
+    const destination = this.locate(destinationKey);
+
+    try {
+      const meta = await this.readMeta(source.metaPath);
+      const { tmpFile } = await this.writeTemp(fs.createReadStream(source.dataPath));
+
+      await this.writeAtomic(
+        destination.metaPath,
+        Buffer.from(JSON.stringify({ ...meta, key: destinationKey }))
+      );
+      await this.moveIntoPlace(tmpFile, destination.dataPath);
+    } catch (error) {
+      logger.error('Failed to copy file', {
+        source: sourceKey,
+        destination: destinationKey,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new StorageError(
+        isNotFound(error) ? 'File not found in storage' : 'Failed to copy file in storage',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  public async statObject(key: string): Promise<ObjectStat | null> {
+    const location = this.locate(key);
+
+    try {
+      const stat = await fsp.stat(location.dataPath);
+      const meta = await this.readMeta(location.metaPath);
+
+      return {
+        size: stat.size,
+        etag: meta?.etag ?? '',
+        lastModified: stat.mtime,
+        metadata: meta?.metadata ?? {},
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw new StorageError(
+        'Failed to get file metadata from storage',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  /**
+   * List a directory's entries, or none if it doesn't exist
+   */
+  private async readDirIfExists(dir: string): Promise<string[]> {
+    try {
+      return await fsp.readdir(dir);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Collect every object below a directory, with keys rebuilt from the path
+   */
+  private async walk(dir: string, segments: string[], results: ListedObject[]): Promise<void> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fsp.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        await this.walk(entryPath, [...segments, decodeURIComponent(entry.name)], results);
+      } else if (entry.name.endsWith(DATA_SUFFIX)) {
+        const stat = await fsp.stat(entryPath);
+        const name = decodeURIComponent(entry.name.slice(0, -DATA_SUFFIX.length));
+        results.push({
+          name: [...segments, name].join('/'),
+          size: stat.size,
+          lastModified: stat.mtime,
+        });
+      }
+    }
+  }
+
+  public async listObjects(prefix: string = '', recursive: boolean = false): Promise<ListedObject[]> {
+    try {
+      const objects: ListedObject[] = [];
+      const complete = prefix.split('/').slice(0, -1);
+
+      if (complete.length >= 2) {
+        // Every match shares the prefix's namespace, so only one shard is read
+        const namespace = complete.slice(0, 2).join('/');
+        const dir = path.join(this.shardPath(namespace), ...complete.map(encodeURIComponent));
+        await this.walk(dir, complete, objects);
+      } else {
+        for (const shard of await this.readDirIfExists(this.objectsPath)) {
+          const shardPath = path.join(this.objectsPath, shard);
+          for (const subShard of await this.readDirIfExists(shardPath)) {
+            await this.walk(path.join(shardPath, subShard), [], objects);
+          }
+        }
+      }
+
+      const matches = objects
+        .filter((obj) => obj.name!.startsWith(prefix))
+        .sort((a, b) => a.name!.localeCompare(b.name!));
+
+      if (recursive) {
+        return matches;
+      }
+
+      // Collapse deeper keys into their next-level prefix, like S3
+      const results: ListedObject[] = [];
+      const prefixes = new Set<string>();
+
+      for (const obj of matches) {
+        const rest = obj.name!.slice(prefix.length);
+        const slash = rest.indexOf('/');
+
+        if (slash === -1) {
+          results.push(obj);
+        } else {
+          const commonPrefix = prefix + rest.slice(0, slash + 1);
+          if (!prefixes.has(commonPrefix)) {
+            prefixes.add(commonPrefix);
+            results.push({ prefix: commonPrefix, size: 0 });
+          }
+        }
+      }
+
+      return results;
+    } catch (error) {
+      logger.error('Failed to list files', {
+        prefix,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new StorageError(
+        'Failed to list files in storage',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the directory of a multipart upload, checking it belongs to the key
+   */
+  private async getUploadDir(key: string, uploadId: string): Promise<string> {
+    if (!/^[0-9a-f-]{36}$/.test(uploadId)) {
+      throw new StorageError('Multipart upload not found', { uploadId });
+    }
+
+    const dir = path.join(this.uploadsPath, uploadId);
+
+    try {
+      const info = JSON.parse(await fsp.readFile(path.join(dir, 'upload.json'), 'utf8'));
+      if (info.key !== key) {
+        throw new StorageError('Multipart upload not found', { uploadId });
+      }
+      return dir;
+    } catch (error) {
+      if (error instanceof StorageError) {
+        throw error;
+      }
+      throw new StorageError('Multipart upload not found', { uploadId });
+    }
+  }
+
+  public async createMultipartUpload(key: string): Promise<string> {
+    this.parseKey(key);
+    const uploadId = uuidv4();
+
+    try {
+      const dir = path.join(this.uploadsPath, uploadId);
+      await fsp.mkdir(dir, { recursive: true });
+      await fsp.writeFile(
+        path.join(dir, 'upload.json'),
+        JSON.stringify({ key, createdAt: new Date().toISOString() })
+      );
+
+      return uploadId;
+    } catch (error) {
+      throw new StorageError(
+        'Failed to create multipart upload',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  public async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    data: Buffer
+  ): Promise<UploadedPart> {
+    const dir = await this.getUploadDir(key, uploadId);
+
+    try {
+      const { etag } = await this.writeAtomic(path.join(dir, `${partNumber}.part`), data);
+      return { etag, partNumber };
+    } catch (error) {
+      throw new StorageError(
+        'Failed to upload part',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  public async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<void> {
+    const dir = await this.getUploadDir(key, uploadId);
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    const partPaths = ordered.map((p) => path.join(dir, `${p.partNumber}.part`));
+
+    try {
+      // Concatenate the parts as a single stream into the final object
+      async function* concatParts() {
+        for (const partPath of partPaths) {
+          for await (const chunk of fs.createReadStream(partPath)) {
+            yield chunk as Buffer;
+          }
+        }
+      }
+
+      const location = this.locate(key);
+      const { tmpFile, etag } = await this.writeTemp(Readable.from(concatParts()));
+
+      const meta: ObjectMeta = { key, etag: `${etag}-${ordered.length}`, metadata: {} };
+      await this.writeAtomic(location.metaPath, Buffer.from(JSON.stringify(meta)));
+      await this.moveIntoPlace(tmpFile, location.dataPath);
+
+      await fsp.rm(dir, { recursive: true, force: true });
+    } catch (error) {
+      throw new StorageError(
+        isNotFound(error) ? 'Multipart upload is missing parts' : 'Failed to complete multipart upload',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  public async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const dir = await this.getUploadDir(key, uploadId);
+
+    try {
+      await fsp.rm(dir, { recursive: true, force: true });
+    } catch (error) {
+      throw new StorageError(
+        'Failed to abort multipart upload',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+}
@@ -0,0 +1,484 @@
+import * as Minio from 'minio';
+import { Readable } from 'stream';
+import logger from '../../utils/logger';
+import { StorageError, ExternalServiceError } from '../../utils/errors';
+import {
+  ListedObject,
+  ObjectStat,
+  PutObjectResult,
+  StorageBackend,
+  UploadedPart,
+} from './types';
+
+/**
+ * MinIO/S3 Configuration
+ */
+const MINIO_CONFIG = {
+  endPoint: process.env.MINIO_ENDPOINT || 'localhost',
+  port: parseInt(process.env.MINIO_PORT || '9000'),
+  useSSL: process.env.MINIO_USE_SSL === 'true',
+  accessKey: process.env.MINIO_ACCESS_KEY || 'minioadmin',
+  secretKey: process.env.MINIO_SECRET_KEY || 'minioadmin',
+};
+
+const BUCKET_NAME = process.env.MINIO_BUCKET || 'crypticstorage';
+
+/**
+ * Storage Client Manager
+ */
+export class StorageClient {
+  private static instance: Minio.Client | null = null;
+  private static isConnected: boolean = false;
+  private static bucketInitialized: boolean = false;
+
+  /**
+   * Get MinIO client instance (singleton pattern)
+   */
+  public static getInstance(): Minio.Client {
+    if (!StorageClient.instance) {
+      try {
+        StorageClient.instance = new Minio.Client(MINIO_CONFIG);
+        logger.info('MinIO client instance created', {
+          endPoint: MINIO_CONFIG.endPoint,
+          port: MINIO_CONFIG.port,
+          useSSL: MINIO_CONFIG.useSSL,
+        });
+      } catch (error) {
+        logger.error('Failed to create MinIO client', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new StorageError(
+          'Failed to create storage client',
+          error instanceof Error ? { originalError: error.message } : undefined
+        );
+      }
+    }
+    return StorageClient.instance;
+  }
+
+  /**
+   * Initialize storage (connect and setup bucket)
+   */
+  public static async initialize(): Promise<void> {
+    try {
+      logger.info('Initializing storage...');
+
+      // Test connection
+      await StorageClient.testConnection();
+      StorageClient.isConnected = true;
+
+      // Ensure bucket exists
+      await StorageClient.ensureBucket();
+      StorageClient.bucketInitialized = true;
+
+      logger.info('Storage initialized successfully', { bucket: BUCKET_NAME });
+    } catch (error) {
+      StorageClient.isConnected = false;
+      StorageClient.bucketInitialized = false;
+      logger.error('Failed to initialize storage', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new StorageError(
+        'Failed to initialize storage',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  /**
+   * Test storage connection
+   */
+  public static async testConnection(): Promise<void> {
+    try {
+      const client = StorageClient.getInstance();
+      await client.listBuckets();
+      logger.debug('Storage connection test successful');
+    } catch (error) {
+      logger.error('Storage connection test failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new ExternalServiceError(
+        'Storage connection test failed',
+        'minio',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  /**
+   * Ensure bucket exists, create if it doesn't
+   */
+  public static async ensureBucket(): Promise<void> {
+    try {
+      const client = StorageClient.getInstance();
+      const exists = await client.bucketExists(BUCKET_NAME);
+
+      if (!exists) {
+        logger.info('Creating storage bucket...', { bucket: BUCKET_NAME });
+        await client.makeBucket(BUCKET_NAME, 'us-east-1');
+        logger.info('Storage bucket created', { bucket: BUCKET_NAME });
+
+        // Set bucket lifecycle policy for cleanup (optional)
+        await StorageClient.setBucketLifecycle();
+      } else {
+        logger.debug('Storage bucket already exists', { bucket: BUCKET_NAME });
+      }
+    } catch (error) {
+      logger.error('Failed to ensure bucket exists', {
+        bucket: BUCKET_NAME,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new StorageError(
+        'Failed to ensure storage bucket exists',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
+  }
+
+  /**
+   * Set bucket lifecycle policy (optional - for auto-cleanup)
+   */
+  private static async setBucketLifecycle(): Promise<void> {
+    try {
+      // Example: Auto-delete incomplete multipart uploads after 7 days.
+      // MinIO client doesn't have direct lifecycle methods, so this would
+      // need to be set via AWS SDK or MinIO Admin API
+      logger.debug('Bucket lifecycle policy would be set here');
+    } catch (error) {
+      // Non-critical error, just log it
+      logger.warn('Failed to set bucket lifecycle policy', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Check if storage is healthy
+   */
+  public static isHealthy(): boolean {
+    return StorageClient.isConnected && StorageClient.bucketInitialized;
+  }
+
+  /**
+   * Get storage bucket name
+   */
+  public static getBucketName(): string {
+    return BUCKET_NAME;
+  }
+}
+
+/**
+ * Whether a MinIO error means the object doesn't exist
+ */
+const isNotFoundError = (error: any): boolean =>
+  error?.code === 'NotFound' || error?.code === 'NoSuchKey';
+
+/**
+ * Whether a MinIO error means the multipart upload doesn't exist
+ */
+const isNoSuchUploadError = (error: any): boolean => error?.code === 'NoSuchUpload';
+
+/**
+ * Wrap a MinIO error in a StorageError
+ */
+const toStorageError = (message: string, error: unknown): StorageError =>
+  new StorageError(
+    message,
+    error instanceof Error ? { originalError: error.message } : undefined
+  );
+
+/**
+ * MinIO Storage Backend
+ * Stores objects in a MinIO/S3 bucket
+ */
+export class MinioStorageBackend implements StorageBackend {
+  public readonly driver = 'minio' as const;
+
+  private get client(): Minio.Client {
+    return StorageClient.getInstance();
+  }
+
+  private get bucket(): string {
+    return StorageClient.getBucketName();
+  }
+
+  public async initialize(): Promise<void> {
+    await StorageClient.initialize();
+  }
+
+  public isHealthy(): boolean {
+    return StorageClient.isHealthy();
+  }
+
+  public async putObject(
+    key: string,
+    data: Buffer | Readable,
+    size: number,
+    metadata?: Record<string, string>
+  ): Promise<PutObjectResult> {
+    try {
+      logger.debug('Uploading file to storage', { bucket: this.bucket, objectName: key, size });
+
+      const result = await this.client.putObject(this.bucket, key, data, size, metadata);
+
+      logger.info('File uploaded successfully', {
+        bucket: this.bucket,
+        objectName: key,
+        etag: result.etag,
+      });
+
+      return { etag: result.etag };
+    } catch (error) {
+      logger.error('Failed to upload file', {
+        objectName: key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw toStorageError('Failed to upload file to storage', error);
+    }
+  }
+
+  public async getObject(key: string): Promise<Buffer> {
+    const stream = await this.getObjectStream(key);
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  public async getObjectStream(key: string): Promise<Readable> {
+    try {
+      logger.debug('Downloading file from storage', { bucket: this.bucket, objectName: key });
+
+      const stream = await this.client.getObject(this.bucket, key);
+
+      logger.info('File download stream created', { bucket: this.bucket, objectName: key });
+
+      return stream;
+    } catch (error) {
+      logger.error('Failed to download file', {
+        objectName: key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw toStorageError('Failed to download file from storage', error);
+    }
+  }
+
+  public async deleteObject(key: string): Promise<void> {
+    try {
+      logger.debug('Deleting file from storage', { bucket: this.bucket, objectName: key });
+
+      await this.client.removeObject(this.bucket, key);
+
+      logger.info('File deleted successfully', { bucket: this.bucket, objectName: key });
+    } catch (error) {
+      logger.error('Failed to delete file', {
+        objectName: key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw toStorageError('Failed to delete file from storage', error);
+    }
+  }
+
+  public async deleteObjects(keys: string[]): Promise<void> {
+    try {
+      logger.debug('Deleting multiple files from storage', {
+        bucket: this.bucket,
+        count: keys.length,
+      });
+
+      await this.client.removeObjects(this.bucket, keys);
+
+      logger.info('Files deleted successfully', { bucket: this.bucket, count: keys.length });
+    } catch (error) {
+      logger.error('Failed to delete files', {
+        count: keys.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw toStorageError('Failed to delete files from storage', error);
+    }
+  }
+
+  public async copyObject(sourceKey: string, destinationKey: string): Promise<void> {
+    try {
+      logger.debug('Copying file in storage', {
+        bucket: this.bucket,
+        source: sourceKey,
+        destination: destinationKey,
+      });
+
+      await this.client.copyObject(
+        this.bucket,
+        destinationKey,
+        `/${this.bucket}/${sourceKey}`,
+        new Minio.CopyConditions()
+      );
+
+      logger.info('File copied successfully', {
+        bucket: this.bucket,
+        source: sourceKey,
+        destination: destinationKey,
+      });
+    } catch (error) {
+      logger.error('Failed to copy file', {
+        source: sourceKey,
+        destination: destinationKey,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw toStorageError('Failed to copy file in storage', error);
+    }
+  }
+
+  public async statObject(key: string): Promise<ObjectStat | null> {
+    try {
+      const stat = await this.client.statObject(this.bucket, key);
+
+      return {
+        size: stat.size,
+        etag: stat.etag,
+        lastModified: stat.lastModified,
+        metadata: stat.metaData ?? {},
+      };
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      logger.error('Failed to get file metadata', {
+        objectName: key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw toStorageError('Failed to get file metadata from storage', error);
+    }
+  }
+
+  public async listObjects(prefix?: string, recursive: boolean = false): Promise<ListedObject[]> {
+    logger.debug('Listing files in storage', { bucket: this.bucket, prefix, recursive });
+
+    const objects: ListedObject[] = [];
+    const stream = this.client.listObjects(this.bucket, prefix, recursive);
+
+    return new Promise((resolve, reject) => {
+      stream.on('data', (obj) =>
+        objects.push({
+          name: obj.name,
+          prefix: obj.prefix,
+          size: obj.size,
+          lastModified: obj.lastModified,
+        })
+      );
+      stream.on('end', () => {
+        logger.debug('Files listed successfully', { bucket: this.bucket, count: objects.length });
+        resolve(objects);
+      });
+      stream.on('error', (err) => {
+        logger.error('Failed to list files', {
+          bucket: this.bucket,
+          prefix,
+          error: err.message,
+        });
+        reject(toStorageError('Failed to list files in storage', err));
+      });
+    });
+  }
+
+  public async createMultipartUpload(key: string): Promise<string> {
+    try {
+      return await this.client.initiateNewMultipartUpload(this.bucket, key, {});
+    } catch (error) {
+      throw toStorageError('Failed to create multipart upload', error);
+    }
+  }
+
+  public async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    data: Buffer
+  ): Promise<UploadedPart> {
+    try {
+      // The MinIO client has no public UploadPart call, so issue the S3
+      // request directly against the multipart upload
+      const response = await this.client.makeRequestAsync(
+        {
+          method: 'PUT',
+          bucketName: this.bucket,
+          objectName: key,
+          query: `partNumber=${partNumber}&uploadId=${encodeURIComponent(uploadId)}`,
+          headers: { 'Content-Length': data.length },
+        },
+        data
+      );
+      response.resume();
+
+      const etag = String(response.headers.etag || '').replace(/^"|"$/g, '');
+
+      return { etag, partNumber };
+    } catch (error) {
+      throw toStorageError('Failed to upload part', error);
+    }
+  }
+
+  public async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<void> {
+    try {
+      await this.client.completeMultipartUpload(
+        this.bucket,
+        key,
+        uploadId,
+        parts.map((p) => ({ etag: p.etag, part: p.partNumber }))
+      );
+    } catch (error) {
+      throw toStorageError('Failed to complete multipart upload', error);
+    }
+  }
+
+  public async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await this.client.abortMultipartUpload(this.bucket, key, uploadId);
+    } catch (error) {
+      // Already completed or aborted; the local backend ignores this too
+      if (isNoSuchUploadError(error)) {
+        return;
+      }
+      throw toStorageError('Failed to abort multipart upload', error);
+    }
+  }
+
+  /**
+   * Generate a presigned URL for temporary file access
+   */
+  public async generatePresignedUrl(key: string, expirySeconds: number = 3600): Promise<string> {
+    try {
+      return await this.client.presignedGetObject(this.bucket, key, expirySeconds);
+    } catch (error) {
+      logger.error('Failed to generate presigned URL', {
+        objectName: key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw toStorageError('Failed to generate presigned URL', error);
+    }
+  }
+
+  /**
+   * Generate a presigned URL for uploading
+   */
+  public async generatePresignedUploadUrl(
+    key: string,
+    expirySeconds: number = 3600
+  ): Promise<string> {
+    try {
+      return await this.client.presignedPutObject(this.bucket, key, expirySeconds);
+    } catch (error) {
+      logger.error('Failed to generate presigned upload URL', {
+        objectName: key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw toStorageError('Failed to generate presigned upload URL', error);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { Readable } from 'stream';
+
+/**
+ * Storage Backend Types
+ * Shared by every storage driver. Object keys are '/'-separated paths such as
+ * users/{userId}/files/{fileId}/current.
+ */
+
+export type StorageDriver = 'minio' | 'local';
+
+export interface ObjectStat {
+  size: number;
+  etag: string;
+  lastModified: Date;
+  metadata: Record<string, string>;
+}
+
+export interface ListedObject {
+  // Set for objects
+  name?: string;
+  // Set for common prefixes in non-recursive listings
+  prefix?: string;
+  size: number;
+  lastModified?: Date;
+}
+
+export interface PutObjectResult {
+  etag: string;
+}
+
+export interface UploadedPart {
+  etag: string;
+  partNumber: number;
+}
+
+export interface StorageBackend {
+  readonly driver: StorageDriver;
+
+  /**
+   * Prepare the backend (create the bucket or directories) and check it is reachable
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Whether initialize() has succeeded
+   */
+  isHealthy(): boolean;
+
+  /**
+   * Store an object, replacing any existing object with the same key
+   */
+  putObject(
+    key: string,
+    data: Buffer | Readable,
+    size: number,
+    metadata?: Record<string, string>
+  ): Promise<PutObjectResult>;
+
+  /**
+   * Read a whole object into memory
+   */
+  getObject(key: string): Promise<Buffer>;
+
+  /**
+   * Open a read stream for an object
+   */
+  getObjectStream(key: string): Promise<Readable>;
+
+  /**
+   * Delete an object. Deleting a missing object is not an error.
+   */
+  deleteObject(key: string): Promise<void>;
+
+  /**
+   * Delete several objects
+   */
+  deleteObjects(keys: string[]): Promise<void>;
+
+  /**
+   * Copy an object to a new key
+   */
+  copyObject(sourceKey: string, destinationKey: string): Promise<void>;
+
+  /**
+   * Get an object's size and metadata, or null if it doesn't exist
+   */
+  statObject(key: string): Promise<ObjectStat | null>;
+
+  /**
+   * List objects whose key starts with a prefix. Non-recursive listings
+   * return the next level of sub-prefixes instead of their contents.
+   */
+  listObjects(prefix?: string, recursive?: boolean): Promise<ListedObject[]>;
+
+  /**
+   * Start a multipart upload and return its upload ID
+   */
+  createMultipartUpload(key: string): Promise<string>;
+
+  /**
+   * Store one part of a multipart upload
+   */
+  uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    data: Buffer
+  ): Promise<UploadedPart>;
+
+  /**
+   * Assemble the parts of a multipart upload into the final object
+   */
+  completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<void>;
+
+  /**
+   * Discard a multipart upload and its parts
+   */
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
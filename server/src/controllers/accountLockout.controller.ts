@@ -0,0 +1,23 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import * as accountLockoutService from '../services/accountLockout.service';
+
+/**
+ * Unlock an account from the link in the lockout email
+ * POST /api/auth/unlock
+ */
+export const unlockAccount = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    await accountLockoutService.unlockWithToken(
+      req.body.token,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Account unlocked. You can sign in again.',
+    });
+  }
+);
@@ -0,0 +1,89 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import * as schedulerService from '../services/scheduler.service';
+import * as reconciliationService from '../services/reconciliation.service';
+import * as accountLockoutService from '../services/accountLockout.service';
+
+/**
+ * List background jobs with their last run and status
+ * GET /api/admin/jobs
+ */
+export const listJobs = asyncHandler(
+  async (_req: AuthRequest, res: Response) => {
+    const jobs = await schedulerService.getJobStates();
+
+    res.json({
+      success: true,
+      message: 'Jobs retrieved successfully',
+      data: { jobs },
+    });
+  }
+);
+
+/**
+ * Schedule a background job to run on the next scheduler tick
+ * POST /api/admin/jobs/:name/run
+ */
+export const runJob = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const job = await schedulerService.triggerJob(req.params.name);
+
+    res.status(202).json({
+      success: true,
+      message: 'Job scheduled to run',
+      data: job,
+    });
+  }
+);
+
+/**
+ * Compare storage with the database and optionally repair the differences
+ * POST /api/admin/storage/reconcile
+ */
+export const reconcileStorage = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const { userId, deleteOrphans, markBroken, recomputeUsage } = req.body;
+
+    const report = await reconciliationService.reconcileStorage({
+      userId,
+      deleteOrphans,
+      markBroken,
+      recomputeUsage,
+    });
+
+    res.json({
+      success: true,
+      message: 'Storage reconciled successfully',
+      data: {
+        ...report,
+        orphanedBytes: report.orphanedBytes.toString(),
+        usageCorrections: report.usageCorrections.map((c) => ({
+          userId: c.userId,
+          previous: c.previous.toString(),
+          actual: c.actual.toString(),
+        })),
+      },
+    });
+  }
+);
+
+/**
+ * Lift a sign-in lockout and clear failed attempts for a user
+ * POST /api/admin/users/:id/unlock
+ */
+export const unlockUser = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    await accountLockoutService.unlockAccount(
+      req.params.id,
+      req.user!.userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Account unlocked successfully',
+    });
+  }
+);
@@ -8,6 +8,7 @@ import {
 } from '../middleware/error.middleware';
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import speakeasy from 'speakeasy';
 import QRCode from 'qrcode';
@@ -15,6 +16,15 @@ import {
   generateAccessToken,
   generateRefreshToken,
 } from '../middleware/auth.middleware';
+import * as authService from '../services/auth.service';
+import * as webauthnService from '../services/webauthn.service';
+import * as refreshTokenService from '../services/refreshToken.service';
+import * as sessionService from '../services/session.service';
+import * as emailVerificationService from '../services/emailVerification.service';
+import * as accountLockoutService from '../services/accountLockout.service';
+import * as kdfService from '../services/kdf.service';
+import logger from '../utils/logger';
+import { hashSecret } from '../utils/hash';
 
 const prisma = new PrismaClient();
 
@@ -28,9 +38,13 @@ export const register = asyncHandler(
       email,
       username,
       password,
+      salt,
+      kdf,
       masterKey,
       publicKey,
       privateKeyEncrypted,
+      recoveryKeyEncrypted,
+      recoveryVerifier,
     } = req.body;
 
     // Check if user already exists
@@ -47,9 +61,8 @@ export const register = asyncHandler(
       throw new ConflictError('Username already taken');
     }
 
-    // Generate salt and hash password
-    const salt = bcrypt.genSaltSync(12);
-    const passwordHash = await bcrypt.hash(password, salt);
+    // Hash password; the bcrypt salt is embedded in the hash
+    const passwordHash = await bcrypt.hash(password, bcrypt.genSaltSync(12));
 
     // Create user
     const user = await prisma.user.create({
@@ -58,30 +71,41 @@ export const register = asyncHandler(
         email,
         username,
         passwordHash,
+        // KDF salt and settings the client wrapped the master key under
         salt,
+        ...kdfService.toKdfColumns(kdf),
         masterKeyEncrypted: masterKey,
         publicKey,
         privateKeyEncrypted,
+        // Optional recovery key: the server keeps only the wrapped copy and a verifier hash
+        ...(recoveryKeyEncrypted && {
+          recoveryKeyEncrypted,
+          recoveryVerifierHash: hashSecret(recoveryVerifier),
+        }),
         storageQuota: BigInt(10737418240), // 10GB default
         storageUsed: BigInt(0),
       },
     });
 
-    // Generate tokens
+    // Generate tokens bound to the new session
+    const sessionId = uuidv4();
     const accessToken = generateAccessToken({
       userId: user.id,
       email: user.email,
+      sessionId,
     });
     const refreshToken = generateRefreshToken({
       userId: user.id,
       email: user.email,
+      sessionId,
+      jti: await refreshTokenService.createTokenFamily(user.id, sessionId),
     });
 
     // Create session
     const tokenHash = await bcrypt.hash(refreshToken, 10);
     await prisma.session.create({
       data: {
-        id: uuidv4(),
+        id: sessionId,
         userId: user.id,
         tokenHash,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
@@ -104,6 +128,16 @@ export const register = asyncHandler(
       },
     });
 
+    // A failed email must not fail the registration; the user can resend
+    try {
+      await emailVerificationService.sendVerification(user.id);
+    } catch (error) {
+      logger.error('Failed to send verification email', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
     res.status(201).json({
       success: true,
       message: 'User registered successfully',
@@ -128,7 +162,29 @@ export const register = asyncHandler(
  */
 export const login = asyncHandler(
   async (req: AuthRequest, res: Response, next: NextFunction) => {
-    const { email, password } = req.body;
+    const { email, password, totpCode, backupCode, webauthnResponse } = req.body;
+
+    // Counted before the password is checked, so parallel guesses cannot
+    // slip in before the first one fails; refused while delayed or locked
+    await accountLockoutService.reserveLoginAttempt(email);
+
+    // Settles the attempt as failed and reports the delay it imposes, if any
+    const rejectLogin = async (userId: string | null, message: string) => {
+      const throttle = await accountLockoutService.recordFailedLogin(
+        email,
+        userId,
+        req.ip,
+        req.get('user-agent')
+      );
+
+      if (throttle) {
+        throw accountLockoutService.toThrottleError(
+          throttle,
+          throttle.reason === 'ACCOUNT_LOCKED' ? undefined : message
+        );
+      }
+      throw new UnauthorizedError(message);
+    };
 
     // Find user
     const user = await prisma.user.findUnique({
@@ -136,7 +192,7 @@ export const login = asyncHandler(
     });
 
     if (!user) {
-      throw new UnauthorizedError('Invalid email or password');
+      return rejectLogin(null, 'Invalid email or password');
     }
 
     // Verify password
@@ -157,42 +213,69 @@ export const login = asyncHandler(
         },
       });
 
-      throw new UnauthorizedError('Invalid email or password');
+      return rejectLogin(user.id, 'Invalid email or password');
     }
 
     // Check if user is active
     if (!user.isActive) {
+      await accountLockoutService.releaseLoginAttempt(email);
       throw new UnauthorizedError('Account is deactivated');
     }
 
     // Check if 2FA is enabled
-    if (user.totpSecretEncrypted) {
-      res.json({
-        success: true,
-        message: '2FA required',
-        data: {
-          requiresTwoFactor: true,
-          userId: user.id,
-        },
-      });
-      return;
+    const methods = await authService.getSecondFactorMethods(user);
+    if (methods.length > 0) {
+      if (!totpCode && !backupCode && !webauthnResponse) {
+        await accountLockoutService.releaseLoginAttempt(email);
+        res.json({
+          success: true,
+          message: '2FA required',
+          data: {
+            requiresTwoFactor: true,
+            userId: user.id,
+            methods,
+            webauthnOptions: methods.includes('webauthn')
+              ? await webauthnService.generateAuthenticationOptions(user.id)
+              : undefined,
+          },
+        });
+        return;
+      }
+
+      // A security key or a backup code is accepted in place of the TOTP code
+      const verified = await authService.verifySecondFactor(
+        user,
+        { totpToken: totpCode, backupCode, webauthnResponse },
+        req.ip,
+        req.get('user-agent')
+      );
+
+      if (!verified) {
+        return rejectLogin(user.id, 'Invalid two-factor authentication code');
+      }
     }
 
-    // Generate tokens
+    await accountLockoutService.clearFailedLogins(email);
+
+    // Generate tokens bound to the new session
+    const sessionId = uuidv4();
     const accessToken = generateAccessToken({
       userId: user.id,
       email: user.email,
+      sessionId,
     });
     const refreshToken = generateRefreshToken({
       userId: user.id,
       email: user.email,
+      sessionId,
+      jti: await refreshTokenService.createTokenFamily(user.id, sessionId),
     });
 
     // Create session
     const tokenHash = await bcrypt.hash(refreshToken, 10);
     await prisma.session.create({
       data: {
-        id: uuidv4(),
+        id: sessionId,
         userId: user.id,
         tokenHash,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
@@ -201,6 +284,16 @@ export const login = asyncHandler(
       },
     });
 
+    // Alert on an unfamiliar device before this login is recorded
+    try {
+      await sessionService.notifyNewDevice(user.id, user.email, req.ip, req.get('user-agent'));
+    } catch (error) {
+      logger.error('Failed to send new device alert', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
     // Update last login
     await prisma.user.update({
       where: { id: user.id },
@@ -221,6 +314,8 @@ export const login = asyncHandler(
       },
     });
 
+    const kdf = kdfService.fromKdfColumns(user);
+
     res.json({
       success: true,
       message: 'Login successful',
@@ -231,10 +326,14 @@ export const login = asyncHandler(
           username: user.username,
           storageQuota: user.storageQuota.toString(),
           storageUsed: user.storageUsed.toString(),
+          salt: user.salt,
+          kdf,
           masterKeyEncrypted: user.masterKeyEncrypted,
           publicKey: user.publicKey,
           privateKeyEncrypted: user.privateKeyEncrypted,
         },
+        // Present when the client should re-wrap the master key under stronger settings
+        kdfUpgrade: kdfService.getKdfUpgrade(kdf),
         accessToken,
         refreshToken,
       },
@@ -249,8 +348,12 @@ export const login = asyncHandler(
 export const logout = asyncHandler(
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     const { refreshToken } = req.body;
+    const sessionId = req.user!.sessionId;
 
-    if (refreshToken) {
+    if (sessionId) {
+      // Ends the session together with its refresh token family
+      await refreshTokenService.revokeTokenFamily(sessionId);
+    } else if (refreshToken) {
       // Find and delete session
       const sessions = await prisma.session.findMany({
         where: { userId: req.user!.userId },
@@ -294,7 +397,7 @@ export const logout = asyncHandler(
  */
 export const refreshToken = asyncHandler(
   async (req: AuthRequest, res: Response, next: NextFunction) => {
-    const userId = req.user!.userId;
+    const { userId, sessionId, jti } = req.user!;
 
     // Find user
     const user = await prisma.user.findUnique({
@@ -305,17 +408,54 @@ export const refreshToken = asyncHandler(
       throw new UnauthorizedError('User not found or inactive');
     }
 
-    // Generate new access token
+    // A revoked or expired session can no longer mint access tokens
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId! },
+    });
+
+    if (!session || session.userId !== user.id || session.expiresAt < new Date()) {
+      throw new UnauthorizedError('Session has been revoked');
+    }
+
+    // Claim the presented refresh token; a replayed one revokes the session
+    const nextTokenId = await refreshTokenService.rotateRefreshToken(
+      user.id,
+      sessionId!,
+      jti!,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    // Generate new tokens in the same family
     const accessToken = generateAccessToken({
       userId: user.id,
       email: user.email,
+      sessionId,
+    });
+    const newRefreshToken = generateRefreshToken({
+      userId: user.id,
+      email: user.email,
+      sessionId,
+      jti: nextTokenId,
+    });
+
+    await prisma.session.update({
+      where: { id: session.id },
+      data: {
+        tokenHash: await bcrypt.hash(newRefreshToken, 10),
+        lastActivity: new Date(),
+      },
     });
 
+    const { exp, iat } = jwt.decode(accessToken) as { exp: number; iat: number };
+
     res.json({
       success: true,
       message: 'Token refreshed successfully',
       data: {
         accessToken,
+        refreshToken: newRefreshToken,
+        expiresIn: exp - iat,
       },
     });
   }
@@ -399,6 +539,9 @@ export const verify2FA = asyncHandler(
       },
     });
 
+    // Issue backup codes; they are only ever shown here
+    const backupCodes = await authService.generateBackupCodes(userId);
+
     // Log 2FA enabled
     await prisma.auditLog.create({
       data: {
@@ -416,6 +559,9 @@ export const verify2FA = asyncHandler(
     res.json({
       success: true,
       message: '2FA enabled successfully',
+      data: {
+        backupCodes,
+      },
     });
   }
 );
@@ -472,6 +618,7 @@ export const disable2FA = asyncHandler(
         totpSecretEncrypted: null,
       },
     });
+    await authService.removeOrphanedBackupCodes(userId);
 
     // Log 2FA disabled
     await prisma.auditLog.create({
@@ -493,3 +640,57 @@ export const disable2FA = asyncHandler(
     });
   }
 );
+
+/**
+ * Get the number of unused backup codes
+ * GET /api/auth/2fa/backup-codes
+ */
+export const getBackupCodeStatus = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecretEncrypted: true },
+    });
+
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    const methods = await authService.getSecondFactorMethods({ id: userId, ...user });
+    const remaining = await authService.getBackupCodeCount(userId);
+
+    res.json({
+      success: true,
+      message: 'Backup code status retrieved successfully',
+      data: {
+        enabled: methods.some((method) => method !== 'backup_code'),
+        remaining,
+      },
+    });
+  }
+);
+
+/**
+ * Replace the backup codes
+ * POST /api/auth/2fa/backup-codes
+ */
+export const regenerateBackupCodes = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const backupCodes = await authService.regenerateBackupCodes(
+      req.user!.userId,
+      req.body.password,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Backup codes regenerated successfully',
+      data: {
+        backupCodes,
+      },
+    });
+  }
+);
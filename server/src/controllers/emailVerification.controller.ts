@@ -0,0 +1,39 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import * as emailVerificationService from '../services/emailVerification.service';
+
+/**
+ * Confirm an email address from a verification link
+ * POST /api/auth/email/verify
+ */
+export const verifyEmail = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const email = await emailVerificationService.verifyEmail(
+      req.body.token,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Email address verified successfully',
+      data: { email },
+    });
+  }
+);
+
+/**
+ * Send a new verification link to the signed-in user
+ * POST /api/auth/email/verify/resend
+ */
+export const resendVerification = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    await emailVerificationService.sendVerification(req.user!.userId);
+
+    res.json({
+      success: true,
+      message: 'Verification email sent',
+    });
+  }
+);
@@ -12,6 +12,7 @@ import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 import path from 'path';
 import { formatBytes } from '../middleware/upload.middleware';
+import * as fileService from '../services/file.service';
 
 const prisma = new PrismaClient();
 
@@ -34,6 +35,10 @@ export const uploadFile = asyncHandler(
       fileKeyEncrypted,
       parentFolderId,
       mimeType,
+      encryptionAlgorithm,
+      parentKeyEncrypted,
+      parentNameEncrypted,
+      parentNameIv,
     } = req.body;
 
     // Validate required fields
@@ -91,12 +96,18 @@ export const uploadFile = asyncHandler(
         filenameEncrypted,
         filenameIv,
         fileKeyEncrypted,
+        // Parent-scoped keys only make sense inside a folder
+        ...(parentFolderId && {
+          parentKeyEncrypted,
+          parentNameEncrypted,
+          parentNameIv,
+        }),
         fileSize: BigInt(file.size),
         encryptedSize: BigInt(file.buffer.length),
         mimeType: mimeType || file.mimetype,
         storagePath,
         fileHash,
-        encryptionAlgorithm: 'AES-256-GCM',
+        encryptionAlgorithm: encryptionAlgorithm || 'AES-256-GCM',
         version: 1,
       },
     });
@@ -135,6 +146,7 @@ export const uploadFile = asyncHandler(
           fileSize: newFile.fileSize.toString(),
           encryptedSize: newFile.encryptedSize.toString(),
           mimeType: newFile.mimeType,
+          encryptionAlgorithm: newFile.encryptionAlgorithm,
           fileHash: newFile.fileHash,
           version: newFile.version,
           createdAt: newFile.createdAt,
@@ -207,9 +219,11 @@ export const listFiles = asyncHandler(
           filenameEncrypted: file.filenameEncrypted,
           filenameIv: file.filenameIv,
           fileKeyEncrypted: file.fileKeyEncrypted,
+          keyWrapping: file.keyWrapping,
           fileSize: file.fileSize.toString(),
           encryptedSize: file.encryptedSize.toString(),
           mimeType: file.mimeType,
+          encryptionAlgorithm: file.encryptionAlgorithm,
           fileHash: file.fileHash,
           version: file.version,
           thumbnailPath: file.thumbnailPath,
@@ -228,6 +242,69 @@ export const listFiles = asyncHandler(
   }
 );
 
+/**
+ * Search user's files by blind-index tokens
+ * GET /api/files/search
+ */
+export const searchFiles = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { tokens, folderId, recursive, mimeType, dateFrom, dateTo, page, limit } =
+      req.query as unknown as {
+        tokens: string[];
+        folderId?: string;
+        recursive: boolean;
+        mimeType?: string;
+        dateFrom?: Date;
+        dateTo?: Date;
+        page: number;
+        limit: number;
+      };
+
+    const result = await fileService.searchFiles({
+      userId,
+      tokens,
+      folderId,
+      recursive,
+      mimeType,
+      dateFrom,
+      dateTo,
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    res.json({
+      success: true,
+      message: 'Search completed successfully',
+      data: {
+        files: result.files.map((file) => ({
+          id: file.id,
+          filenameEncrypted: file.filenameEncrypted,
+          filenameIv: file.filenameIv,
+          fileKeyEncrypted: file.fileKeyEncrypted,
+          keyWrapping: file.keyWrapping,
+          fileSize: file.fileSize.toString(),
+          encryptedSize: file.encryptedSize.toString(),
+          mimeType: file.mimeType,
+          encryptionAlgorithm: file.encryptionAlgorithm,
+          fileHash: file.fileHash,
+          version: file.version,
+          thumbnailPath: file.thumbnailPath,
+          parentFolder: file.parentFolder,
+          createdAt: file.createdAt,
+          updatedAt: file.updatedAt,
+        })),
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / limit),
+        },
+      },
+    });
+  }
+);
+
 /**
  * Get file details
  * GET /api/files/:id
@@ -272,9 +349,11 @@ export const getFile = asyncHandler(
           filenameEncrypted: file.filenameEncrypted,
           filenameIv: file.filenameIv,
           fileKeyEncrypted: file.fileKeyEncrypted,
+          keyWrapping: file.keyWrapping,
           fileSize: file.fileSize.toString(),
           encryptedSize: file.encryptedSize.toString(),
           mimeType: file.mimeType,
+          encryptionAlgorithm: file.encryptionAlgorithm,
           storagePath: file.storagePath,
           fileHash: file.fileHash,
           version: file.version,
@@ -341,6 +420,40 @@ export const downloadFile = asyncHandler(
           fileKeyEncrypted: file.fileKeyEncrypted,
           fileSize: file.fileSize.toString(),
           mimeType: file.mimeType,
+          encryptionAlgorithm: file.encryptionAlgorithm,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Claim a file received through a file request, re-wrapping its key with the
+ * owner's master key
+ * POST /api/files/:id/claim
+ */
+export const claimReceivedFile = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const file = await fileService.claimReceivedFile(id, userId, {
+      ...req.body,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'File claimed successfully',
+      data: {
+        file: {
+          id: file.id,
+          filenameEncrypted: file.filenameEncrypted,
+          filenameIv: file.filenameIv,
+          fileKeyEncrypted: file.fileKeyEncrypted,
+          keyWrapping: file.keyWrapping,
+          updatedAt: file.updatedAt,
         },
       },
     });
@@ -360,6 +473,10 @@ export const updateFile = asyncHandler(
       filenameIv,
       parentFolderId,
       newVersion,
+      parentKeyEncrypted,
+      parentNameEncrypted,
+      parentNameIv,
+      searchTokens,
     } = req.body;
 
     // Find file
@@ -399,8 +516,18 @@ export const updateFile = asyncHandler(
 
     if (filenameEncrypted) updateData.filenameEncrypted = filenameEncrypted;
     if (filenameIv) updateData.filenameIv = filenameIv;
+    if (searchTokens) updateData.searchTokens = searchTokens;
     if (parentFolderId !== undefined)
       updateData.parentFolderId = parentFolderId;
+
+    // Parent-scoped keys belong to the old parent; drop them on move unless
+    // the client re-wrapped them for the new one
+    if (parentFolderId !== undefined)
+      updateData.parentKeyEncrypted = parentKeyEncrypted ?? null;
+    if (parentFolderId !== undefined || parentNameEncrypted !== undefined) {
+      updateData.parentNameEncrypted = parentNameEncrypted ?? null;
+      updateData.parentNameIv = parentNameIv ?? null;
+    }
     if (newVersion) updateData.version = file.version + 1;
 
     const updatedFile = await prisma.file.update({
@@ -450,80 +577,18 @@ export const deleteFile = asyncHandler(
     const { id } = req.params;
     const { permanent = 'false' } = req.query;
 
-    // Find file
-    const file = await prisma.file.findFirst({
-      where: {
-        id,
-        userId,
-      },
-    });
-
-    if (!file) {
-      throw new NotFoundError('File');
-    }
-
-    if (permanent === 'true') {
-      // Permanent delete
-      await prisma.file.delete({
-        where: { id },
-      });
-
-      // Update user storage
-      await prisma.user.update({
-        where: { id: userId },
-        data: {
-          storageUsed: {
-            decrement: file.fileSize,
-          },
-        },
-      });
-
-      // Log permanent deletion
-      await prisma.auditLog.create({
-        data: {
-          id: uuidv4(),
-          userId,
-          action: 'FILE_DELETED_PERMANENT',
-          resourceType: 'File',
-          resourceId: file.id,
-          ipAddress: req.ip,
-          userAgent: req.get('user-agent'),
-          success: true,
-        },
-      });
-
-      res.json({
-        success: true,
-        message: 'File permanently deleted',
-      });
-    } else {
-      // Soft delete
-      await prisma.file.update({
-        where: { id },
-        data: {
-          isDeleted: true,
-          deletedAt: new Date(),
-        },
-      });
-
-      // Log soft deletion
-      await prisma.auditLog.create({
-        data: {
-          id: uuidv4(),
-          userId,
-          action: 'FILE_DELETED',
-          resourceType: 'File',
-          resourceId: file.id,
-          ipAddress: req.ip,
-          userAgent: req.get('user-agent'),
-          success: true,
-        },
-      });
+    await fileService.deleteFile(
+      id,
+      userId,
+      permanent === 'true',
+      req.ip,
+      req.get('user-agent')
+    );
 
-      res.json({
-        success: true,
-        message: 'File moved to trash',
-      });
-    }
+    res.json({
+      success: true,
+      message:
+        permanent === 'true' ? 'File permanently deleted' : 'File moved to trash',
+    });
   }
 );
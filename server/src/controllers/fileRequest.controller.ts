@@ -0,0 +1,165 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler, BadRequestError } from '../middleware/error.middleware';
+import { uploadSingleFileWithLimit } from '../middleware/upload.middleware';
+import * as fileRequestService from '../services/fileRequest.service';
+
+/**
+ * Create a file request (upload-only link) for a folder
+ * POST /api/shares/requests
+ */
+export const createFileRequest = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { folderId, password, expiresAt, maxFiles, maxFileSize } = req.body;
+
+    const share = await fileRequestService.createFileRequest({
+      folderId,
+      ownerId: userId,
+      password,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      maxFiles,
+      maxFileSize,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'File request created successfully',
+      data: {
+        request: {
+          id: share.id,
+          shareToken: share.shareToken,
+          folderId: share.folderId,
+          passwordProtected: !!share.passwordHash,
+          expiresAt: share.expiresAt,
+          maxFiles: share.maxFiles,
+          maxFileSize: share.maxFileSize?.toString() ?? null,
+          uploadCount: share.uploadCount,
+          createdAt: share.createdAt,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Get a file request, with the owner's public key to encrypt for (public endpoint)
+ * GET /api/shares/public/:token/request
+ */
+export const getFileRequest = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { token } = req.params;
+    const { password } = req.query as { password?: string };
+
+    const { requiresPassword, share } = await fileRequestService.getFileRequest(
+      token,
+      password,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    if (requiresPassword) {
+      res.json({
+        success: true,
+        message: 'Password required',
+        data: {
+          requiresPassword: true,
+          request: {
+            id: share.id,
+            expiresAt: share.expiresAt,
+          },
+        },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'File request retrieved',
+      data: {
+        request: {
+          id: share.id,
+          ownerUsername: share.owner.username,
+          publicKey: share.owner.publicKey,
+          expiresAt: share.expiresAt,
+          maxFiles: share.maxFiles,
+          maxFileSize: share.maxFileSize?.toString() ?? null,
+          uploadCount: share.uploadCount,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Check a file request, then receive the file within the request's size limit
+ * POST /api/shares/public/:token/request/files
+ */
+export const receiveFileRequestUpload = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { token } = req.params;
+    const { password } = req.query as { password?: string };
+
+    const share = await fileRequestService.checkFileRequestUpload(
+      token,
+      password,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    const maxFileSize =
+      share.maxFileSize !== null ? Number(share.maxFileSize) : Number.MAX_SAFE_INTEGER;
+    uploadSingleFileWithLimit(maxFileSize)(req, res, next);
+  }
+);
+
+/**
+ * Upload a file through a file request (public endpoint)
+ * POST /api/shares/public/:token/request/files
+ */
+export const uploadToFileRequest = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { token } = req.params;
+    const { password } = req.query as { password?: string };
+    const upload = req.file;
+
+    if (!upload) {
+      throw new BadRequestError('No file uploaded');
+    }
+
+    const {
+      fileSize,
+      fileHash,
+      fileKeyEncrypted,
+      filenameEncrypted,
+      filenameIv,
+      mimeType,
+      encryptionAlgorithm,
+    } = req.body;
+
+    const file = await fileRequestService.uploadToFileRequest(token, password, {
+      fileData: upload.buffer,
+      fileSize,
+      encryptedSize: upload.size,
+      fileHash,
+      fileKeyEncrypted,
+      filenameEncrypted,
+      filenameIv,
+      mimeType,
+      encryptionAlgorithm,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    // Only acknowledge the upload; the uploader learns nothing about the folder
+    res.status(201).json({
+      success: true,
+      message: 'File uploaded successfully',
+      data: {
+        receivedAt: file.createdAt,
+      },
+    });
+  }
+);
@@ -0,0 +1,158 @@
+import { Response } from 'express';
+import { FileVersion } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import * as fileService from '../services/file.service';
+
+/**
+ * Format a file version for API responses
+ */
+const formatVersion = (version: FileVersion) => ({
+  id: version.id,
+  versionNumber: version.versionNumber,
+  fileKeyEncrypted: version.fileKeyEncrypted,
+  fileSize: (version.originalSize ?? version.fileSize).toString(),
+  encryptedSize: version.fileSize.toString(),
+  encryptionAlgorithm: version.encryptionAlgorithm,
+  createdAt: version.createdAt,
+});
+
+/**
+ * List the version history of a file
+ * GET /api/files/:id/versions
+ */
+export const listFileVersions = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const file = await fileService.listFileVersions(id, userId);
+
+    res.json({
+      success: true,
+      message: 'File versions retrieved successfully',
+      data: {
+        currentVersion: file.version,
+        versions: file.versions.map(formatVersion),
+      },
+    });
+  }
+);
+
+/**
+ * Download the encrypted content of a file version
+ * GET /api/files/:id/versions/:versionNumber/download
+ */
+export const downloadFileVersion = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const versionNumber = parseInt(req.params.versionNumber, 10);
+
+    const { stream, version } = await fileService.downloadFileVersion(
+      id,
+      versionNumber,
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Length', version.fileSize.toString());
+    stream.pipe(res);
+  }
+);
+
+/**
+ * Restore a file version as the current content
+ * POST /api/files/:id/versions/:versionNumber/restore
+ */
+export const restoreFileVersion = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const versionNumber = parseInt(req.params.versionNumber, 10);
+
+    const file = await fileService.restoreFileVersion(
+      id,
+      versionNumber,
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'File version restored successfully',
+      data: {
+        file: {
+          id: file.id,
+          fileKeyEncrypted: file.fileKeyEncrypted,
+          fileSize: file.fileSize.toString(),
+          encryptedSize: file.encryptedSize.toString(),
+          encryptionAlgorithm: file.encryptionAlgorithm,
+          version: file.version,
+          updatedAt: file.updatedAt,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Delete a single file version
+ * DELETE /api/files/:id/versions/:versionNumber
+ */
+export const deleteFileVersion = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const versionNumber = parseInt(req.params.versionNumber, 10);
+
+    const result = await fileService.deleteFileVersions(
+      id,
+      userId,
+      { versionNumber },
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'File version deleted successfully',
+      data: {
+        deletedCount: result.deletedCount,
+        freedBytes: result.freedBytes.toString(),
+      },
+    });
+  }
+);
+
+/**
+ * Delete old file versions, keeping the newest `keep` versions
+ * DELETE /api/files/:id/versions
+ */
+export const deleteOldFileVersions = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { keep } = req.query as unknown as { keep: number };
+
+    const result = await fileService.deleteFileVersions(
+      id,
+      userId,
+      { keep },
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'File versions deleted successfully',
+      data: {
+        deletedCount: result.deletedCount,
+        freedBytes: result.freedBytes.toString(),
+      },
+    });
+  }
+);
@@ -8,6 +8,7 @@ import {
 } from '../middleware/error.middleware';
 import { PrismaClient } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
+import * as folderService from '../services/folder.service';
 
 const prisma = new PrismaClient();
 
@@ -18,7 +19,15 @@ const prisma = new PrismaClient();
 export const createFolder = asyncHandler(
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     const userId = req.user!.userId;
-    const { nameEncrypted, nameIv, parentFolderId } = req.body;
+    const {
+      nameEncrypted,
+      nameIv,
+      parentFolderId,
+      folderKeyEncrypted,
+      parentKeyEncrypted,
+      parentNameEncrypted,
+      parentNameIv,
+    } = req.body;
 
     if (!nameEncrypted || !nameIv) {
       throw new BadRequestError('Folder name encryption metadata required');
@@ -47,6 +56,13 @@ export const createFolder = asyncHandler(
         parentFolderId: parentFolderId || null,
         nameEncrypted,
         nameIv,
+        folderKeyEncrypted,
+        // Parent-scoped keys only make sense below another folder
+        ...(parentFolderId && {
+          parentKeyEncrypted,
+          parentNameEncrypted,
+          parentNameIv,
+        }),
       },
     });
 
@@ -72,6 +88,7 @@ export const createFolder = asyncHandler(
           id: folder.id,
           nameEncrypted: folder.nameEncrypted,
           nameIv: folder.nameIv,
+          folderKeyEncrypted: folder.folderKeyEncrypted,
           parentFolderId: folder.parentFolderId,
           createdAt: folder.createdAt,
           updatedAt: folder.updatedAt,
@@ -152,6 +169,7 @@ export const listFolders = asyncHandler(
           id: folder.id,
           nameEncrypted: folder.nameEncrypted,
           nameIv: folder.nameIv,
+          folderKeyEncrypted: folder.folderKeyEncrypted,
           parentFolderId: folder.parentFolderId,
           parentFolder: folder.parentFolder,
           fileCount: folder._count.files,
@@ -240,6 +258,7 @@ export const getFolder = asyncHandler(
           id: folder.id,
           nameEncrypted: folder.nameEncrypted,
           nameIv: folder.nameIv,
+          folderKeyEncrypted: folder.folderKeyEncrypted,
           parentFolderId: folder.parentFolderId,
           parentFolder: folder.parentFolder,
           subFolders: folder.subFolders,
@@ -265,7 +284,14 @@ export const updateFolder = asyncHandler(
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     const userId = req.user!.userId;
     const { id } = req.params;
-    const { nameEncrypted, nameIv, parentFolderId } = req.body;
+    const {
+      nameEncrypted,
+      nameIv,
+      parentFolderId,
+      parentKeyEncrypted,
+      parentNameEncrypted,
+      parentNameIv,
+    } = req.body;
 
     // Find folder
     const folder = await prisma.folder.findFirst({
@@ -337,6 +363,15 @@ export const updateFolder = asyncHandler(
     if (parentFolderId !== undefined)
       updateData.parentFolderId = parentFolderId;
 
+    // Parent-scoped keys belong to the old parent; drop them on move unless
+    // the client re-wrapped them for the new one
+    if (parentFolderId !== undefined)
+      updateData.parentKeyEncrypted = parentKeyEncrypted ?? null;
+    if (parentFolderId !== undefined || parentNameEncrypted !== undefined) {
+      updateData.parentNameEncrypted = parentNameEncrypted ?? null;
+      updateData.parentNameIv = parentNameIv ?? null;
+    }
+
     const updatedFolder = await prisma.folder.update({
       where: { id },
       data: updateData,
@@ -382,185 +417,19 @@ export const deleteFolder = asyncHandler(
     const { id } = req.params;
     const { permanent = 'false', cascade = 'false' } = req.query;
 
-    // Find folder
-    const folder = await prisma.folder.findFirst({
-      where: {
-        id,
-        userId,
-      },
-      include: {
-        _count: {
-          select: {
-            files: {
-              where: { isDeleted: false },
-            },
-            subFolders: {
-              where: { isDeleted: false },
-            },
-          },
-        },
-      },
-    });
-
-    if (!folder) {
-      throw new NotFoundError('Folder');
-    }
-
-    // Check if folder is empty (unless cascade delete is requested)
-    if (cascade !== 'true') {
-      if (folder._count.files > 0 || folder._count.subFolders > 0) {
-        throw new BadRequestError(
-          'Folder is not empty. Use cascade=true to delete all contents.'
-        );
-      }
-    }
-
-    if (permanent === 'true') {
-      // Permanent delete
-      if (cascade === 'true') {
-        // Delete all files in folder and subfolders recursively
-        const deleteRecursive = async (folderId: string): Promise<void> => {
-          // Get all files in this folder
-          const files = await prisma.file.findMany({
-            where: { parentFolderId: folderId },
-          });
-
-          // Delete files
-          await prisma.file.deleteMany({
-            where: { parentFolderId: folderId },
-          });
-
-          // Update user storage
-          const totalSize = files.reduce(
-            (sum, file) => sum + file.fileSize,
-            BigInt(0)
-          );
-          if (totalSize > 0) {
-            await prisma.user.update({
-              where: { id: userId },
-              data: {
-                storageUsed: {
-                  decrement: totalSize,
-                },
-              },
-            });
-          }
-
-          // Get subfolders
-          const subFolders = await prisma.folder.findMany({
-            where: { parentFolderId: folderId },
-          });
-
-          // Recursively delete subfolders
-          for (const subFolder of subFolders) {
-            await deleteRecursive(subFolder.id);
-          }
-
-          // Delete subfolders
-          await prisma.folder.deleteMany({
-            where: { parentFolderId: folderId },
-          });
-        };
-
-        await deleteRecursive(id);
-      }
-
-      // Delete the folder itself
-      await prisma.folder.delete({
-        where: { id },
-      });
-
-      // Log permanent deletion
-      await prisma.auditLog.create({
-        data: {
-          id: uuidv4(),
-          userId,
-          action: 'FOLDER_DELETED_PERMANENT',
-          resourceType: 'Folder',
-          resourceId: folder.id,
-          ipAddress: req.ip,
-          userAgent: req.get('user-agent'),
-          success: true,
-        },
-      });
-
-      res.json({
-        success: true,
-        message: 'Folder permanently deleted',
-      });
-    } else {
-      // Soft delete
-      if (cascade === 'true') {
-        // Soft delete all files and subfolders
-        const softDeleteRecursive = async (
-          folderId: string
-        ): Promise<void> => {
-          // Soft delete files
-          await prisma.file.updateMany({
-            where: {
-              parentFolderId: folderId,
-              isDeleted: false,
-            },
-            data: {
-              isDeleted: true,
-              deletedAt: new Date(),
-            },
-          });
-
-          // Get subfolders
-          const subFolders = await prisma.folder.findMany({
-            where: {
-              parentFolderId: folderId,
-              isDeleted: false,
-            },
-          });
-
-          // Recursively soft delete subfolders
-          for (const subFolder of subFolders) {
-            await softDeleteRecursive(subFolder.id);
-          }
-
-          // Soft delete subfolders
-          await prisma.folder.updateMany({
-            where: {
-              parentFolderId: folderId,
-              isDeleted: false,
-            },
-            data: {
-              isDeleted: true,
-            },
-          });
-        };
-
-        await softDeleteRecursive(id);
-      }
-
-      // Soft delete the folder itself
-      await prisma.folder.update({
-        where: { id },
-        data: {
-          isDeleted: true,
-        },
-      });
-
-      // Log soft deletion
-      await prisma.auditLog.create({
-        data: {
-          id: uuidv4(),
-          userId,
-          action: 'FOLDER_DELETED',
-          resourceType: 'Folder',
-          resourceId: folder.id,
-          ipAddress: req.ip,
-          userAgent: req.get('user-agent'),
-          success: true,
-        },
-      });
+    await folderService.deleteFolder(
+      id,
+      userId,
+      cascade === 'true',
+      permanent === 'true',
+      req.ip,
+      req.get('user-agent')
+    );
 
-      res.json({
-        success: true,
-        message: 'Folder moved to trash',
-      });
-    }
+    res.json({
+      success: true,
+      message:
+        permanent === 'true' ? 'Folder permanently deleted' : 'Folder moved to trash',
+    });
   }
 );
@@ -0,0 +1,48 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import * as folderService from '../services/folder.service';
+
+/**
+ * Get the key material of a folder subtree
+ * GET /api/folders/:id/keys
+ */
+export const getFolderKeys = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const tree = await folderService.getFolderKeyTree(id, userId);
+
+    res.json({
+      success: true,
+      message: 'Folder keys retrieved successfully',
+      data: tree,
+    });
+  }
+);
+
+/**
+ * Store the key hierarchy of a folder subtree
+ * PUT /api/folders/:id/keys
+ */
+export const updateFolderKeys = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const result = await folderService.updateFolderKeys(
+      id,
+      userId,
+      req.body,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Folder keys updated successfully',
+      data: result,
+    });
+  }
+);
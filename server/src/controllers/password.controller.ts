@@ -0,0 +1,81 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import * as authService from '../services/auth.service';
+
+/**
+ * Change the password and the key material wrapped under it
+ * POST /api/auth/password/change
+ */
+export const changePassword = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const { currentPassword, newPassword, salt, kdf, masterKeyEncrypted, privateKeyEncrypted } =
+      req.body;
+
+    const { rollbackUntil } = await authService.changePassword(req.user!.userId, {
+      currentPassword,
+      newPassword,
+      salt,
+      kdf,
+      masterKeyEncrypted,
+      privateKeyEncrypted,
+      currentSessionId: req.user!.sessionId,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully. Other devices have been signed out.',
+      data: { rollbackUntil },
+    });
+  }
+);
+
+/**
+ * Restore the password and keys from before the last change
+ * POST /api/auth/password/rollback
+ */
+export const rollbackPasswordChange = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const credentials = await authService.rollbackPasswordChange(
+      req.user!.userId,
+      req.body.previousPassword,
+      req.body.currentPassword,
+      req.user!.sessionId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Password change undone',
+      data: credentials,
+    });
+  }
+);
+
+/**
+ * Re-wrap the master key under stronger key derivation settings
+ * POST /api/auth/password/kdf
+ */
+export const upgradeKdf = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const { password, salt, kdf, masterKeyEncrypted } = req.body;
+
+    const upgraded = await authService.upgradeKdf(req.user!.userId, {
+      password,
+      salt,
+      kdf,
+      masterKeyEncrypted,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Key derivation settings upgraded',
+      data: { kdf: upgraded },
+    });
+  }
+);
@@ -0,0 +1,86 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import * as recoveryService from '../services/recovery.service';
+
+/**
+ * Replace the recovery key of the signed-in user
+ * PUT /api/auth/recovery
+ */
+export const setRecoveryKey = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { password, recoveryKeyEncrypted, recoveryVerifier } = req.body;
+
+    await recoveryService.updateRecoveryKey(
+      userId,
+      password,
+      { recoveryKeyEncrypted, recoveryVerifier },
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Recovery key updated successfully',
+    });
+  }
+);
+
+/**
+ * Email a recovery link
+ * POST /api/auth/recovery/request
+ */
+export const requestRecovery = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    await recoveryService.requestRecovery(req.body.email, req.ip, req.get('user-agent'));
+
+    // Same response whether or not the account exists
+    res.json({
+      success: true,
+      message: 'If the account can be recovered, a recovery link has been sent',
+    });
+  }
+);
+
+/**
+ * Get the wrapped master key copy for a recovery link
+ * POST /api/auth/recovery/verify
+ */
+export const verifyRecoveryLink = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const challenge = await recoveryService.getRecoveryChallenge(req.body.token);
+
+    res.json({
+      success: true,
+      message: 'Recovery link verified',
+      data: challenge,
+    });
+  }
+);
+
+/**
+ * Reset the password with the recovery key
+ * POST /api/auth/recovery/reset
+ */
+export const resetPassword = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const { token, recoveryVerifier, password, salt, kdf, masterKeyEncrypted } = req.body;
+
+    await recoveryService.resetPassword({
+      token,
+      recoveryVerifier,
+      password,
+      salt,
+      kdf,
+      masterKeyEncrypted,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully. Please log in with your new password.',
+    });
+  }
+);
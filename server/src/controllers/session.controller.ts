@@ -0,0 +1,65 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import * as sessionService from '../services/session.service';
+
+/**
+ * List the devices the user is signed in on
+ * GET /api/auth/sessions
+ */
+export const listSessions = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const sessions = await sessionService.listSessions(
+      req.user!.userId,
+      req.user!.sessionId
+    );
+
+    res.json({
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: sessions,
+    });
+  }
+);
+
+/**
+ * Sign out one device
+ * DELETE /api/auth/sessions/:id
+ */
+export const revokeSession = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    await sessionService.revokeSession(
+      req.user!.userId,
+      req.params.id,
+      req.user!.sessionId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+  }
+);
+
+/**
+ * Sign out every device except this one
+ * POST /api/auth/sessions/revoke-others
+ */
+export const revokeOtherSessions = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const count = await sessionService.revokeOtherSessions(
+      req.user!.userId,
+      req.user!.sessionId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: `Signed out of ${count} other ${count === 1 ? 'device' : 'devices'}`,
+      data: { count },
+    });
+  }
+);
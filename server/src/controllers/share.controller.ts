@@ -11,6 +11,11 @@ import { PrismaClient } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
+import * as shareService from '../services/share.service';
+import * as kdfService from '../services/kdf.service';
+import * as shareAccessLogService from '../services/shareAccessLog.service';
+import * as shareLockoutService from '../services/shareLockout.service';
+import { formatSharedFolderContents } from './userShare.controller';
 
 const prisma = new PrismaClient();
 
@@ -22,7 +27,24 @@ const generateShareToken = (): string => {
 };
 
 /**
- * Create a share link for a file
+ * Add a visit of a share link to its access log
+ */
+const recordView = (
+  share: { id: string; ownerId: string },
+  req: Request,
+  outcome: shareAccessLogService.ShareAccessOutcome
+) =>
+  shareAccessLogService.recordShareAccess({
+    shareId: share.id,
+    ownerId: share.ownerId,
+    event: shareAccessLogService.SHARE_ACCESS_EVENTS.VIEW,
+    outcome,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+  });
+
+/**
+ * Create a share link for a file or folder
  * POST /api/shares
  */
 export const createShare = asyncHandler(
@@ -30,27 +52,51 @@ export const createShare = asyncHandler(
     const userId = req.user!.userId;
     const {
       fileId,
+      folderId,
       fileKeyEncrypted,
+      filenameEncrypted,
+      filenameIv,
       password,
+      passwordSalt,
+      kdf,
       expiresAt,
       maxDownloads,
     } = req.body;
 
-    if (!fileId || !fileKeyEncrypted) {
-      throw new BadRequestError('File ID and encrypted file key are required');
+    if ((!fileId && !folderId) || !fileKeyEncrypted) {
+      throw new BadRequestError('File or folder ID and encrypted key are required');
     }
 
-    // Verify file exists and belongs to user
-    const file = await prisma.file.findFirst({
-      where: {
-        id: fileId,
-        userId,
-        isDeleted: false,
-      },
-    });
+    if (folderId) {
+      // Verify folder exists, belongs to user and has its key hierarchy
+      const folder = await prisma.folder.findFirst({
+        where: {
+          id: folderId,
+          userId,
+          isDeleted: false,
+        },
+      });
+
+      if (!folder) {
+        throw new NotFoundError('Folder');
+      }
+
+      if (!folder.folderKeyEncrypted) {
+        throw new BadRequestError('Folder keys must be set up before sharing');
+      }
+    } else {
+      // Verify file exists and belongs to user
+      const file = await prisma.file.findFirst({
+        where: {
+          id: fileId,
+          userId,
+          isDeleted: false,
+        },
+      });
 
-    if (!file) {
-      throw new NotFoundError('File');
+      if (!file) {
+        throw new NotFoundError('File');
+      }
     }
 
     // Generate share token
@@ -84,11 +130,15 @@ export const createShare = asyncHandler(
     const share = await prisma.share.create({
       data: {
         id: uuidv4(),
-        fileId,
+        fileId: folderId ? null : fileId,
+        folderId: folderId || null,
         ownerId: userId,
         shareToken,
         fileKeyEncrypted,
+        filenameEncrypted,
+        filenameIv,
         passwordHash,
+        ...(passwordHash && { passwordSalt, ...kdfService.toKdfColumns(kdf) }),
         expiresAt: expirationDate,
         maxDownloads: maxDownloadsNum,
         downloadCount: 0,
@@ -118,6 +168,7 @@ export const createShare = asyncHandler(
           id: share.id,
           shareToken: share.shareToken,
           fileId: share.fileId,
+          folderId: share.folderId,
           passwordProtected: !!passwordHash,
           expiresAt: share.expiresAt,
           maxDownloads: share.maxDownloads,
@@ -150,24 +201,45 @@ export const getShare = asyncHandler(
             filenameIv: true,
             fileSize: true,
             mimeType: true,
+            encryptionAlgorithm: true,
             createdAt: true,
           },
         },
+        folder: {
+          select: {
+            id: true,
+            isDeleted: true,
+          },
+        },
       },
     });
 
-    if (!share || !share.isActive) {
+    if (
+      !share ||
+      share.type !== shareService.SHARE_TYPES.DOWNLOAD ||
+      !share.isActive ||
+      share.folder?.isDeleted
+    ) {
+      if (share?.type === shareService.SHARE_TYPES.DOWNLOAD) {
+        await recordView(
+          share,
+          req,
+          share.isActive
+            ? shareAccessLogService.SHARE_ACCESS_OUTCOMES.DELETED
+            : shareAccessLogService.SHARE_ACCESS_OUTCOMES.DISABLED
+        );
+      }
       throw new NotFoundError('Share link');
     }
 
-    // Check if share has expired
-    if (share.expiresAt && share.expiresAt < new Date()) {
-      // Deactivate expired share
-      await prisma.share.update({
-        where: { id: share.id },
-        data: { isActive: false },
-      });
+    if (share.lockedAt) {
+      await recordView(share, req, shareAccessLogService.SHARE_ACCESS_OUTCOMES.LOCKED);
+      throw new ForbiddenError('Share link is locked');
+    }
 
+    // Expired links stay active so their owner can still extend them
+    if (share.expiresAt && share.expiresAt < new Date()) {
+      await recordView(share, req, shareAccessLogService.SHARE_ACCESS_OUTCOMES.EXPIRED);
       throw new BadRequestError('Share link has expired');
     }
 
@@ -176,12 +248,14 @@ export const getShare = asyncHandler(
       share.maxDownloads !== null &&
       share.downloadCount >= share.maxDownloads
     ) {
+      await recordView(share, req, shareAccessLogService.SHARE_ACCESS_OUTCOMES.LIMIT_REACHED);
       throw new BadRequestError('Share link has reached maximum downloads');
     }
 
     // Check password if required
     if (share.passwordHash) {
       if (!password) {
+        await recordView(share, req, shareAccessLogService.SHARE_ACCESS_OUTCOMES.PASSWORD_REQUIRED);
         res.json({
           success: true,
           message: 'Password required',
@@ -189,6 +263,9 @@ export const getShare = asyncHandler(
             requiresPassword: true,
             share: {
               id: share.id,
+              // Needed to derive the verifier and the link key from the password
+              passwordSalt: share.passwordSalt,
+              kdf: share.kdfAlgorithm && kdfService.fromKdfColumns(share as kdfService.KdfColumns),
               expiresAt: share.expiresAt,
               maxDownloads: share.maxDownloads,
               downloadCount: share.downloadCount,
@@ -198,12 +275,20 @@ export const getShare = asyncHandler(
         return;
       }
 
-      const isPasswordValid = await bcrypt.compare(
-        password as string,
-        share.passwordHash
+      const check = await shareLockoutService.verifySharePassword(
+        { ...share, passwordHash: share.passwordHash },
+        password as string
       );
 
-      if (!isPasswordValid) {
+      if (check.outcome !== shareAccessLogService.SHARE_ACCESS_OUTCOMES.OK) {
+        await recordView(share, req, check.outcome);
+
+        if (check.throttle) {
+          throw shareLockoutService.toThrottleError(check.throttle);
+        }
+        if (check.outcome === shareAccessLogService.SHARE_ACCESS_OUTCOMES.LOCKED) {
+          throw new ForbiddenError('Share link is locked');
+        }
         throw new UnauthorizedError('Invalid password');
       }
     }
@@ -213,6 +298,7 @@ export const getShare = asyncHandler(
       where: { id: share.id },
       data: { lastAccessed: new Date() },
     });
+    await recordView(share, req, shareAccessLogService.SHARE_ACCESS_OUTCOMES.OK);
 
     res.json({
       success: true,
@@ -221,13 +307,17 @@ export const getShare = asyncHandler(
         share: {
           id: share.id,
           fileId: share.fileId,
+          folderId: share.folderId,
           fileKeyEncrypted: share.fileKeyEncrypted,
-          file: {
+          filenameEncrypted: share.filenameEncrypted,
+          filenameIv: share.filenameIv,
+          passwordSalt: share.passwordSalt,
+          kdf: share.kdfAlgorithm && kdfService.fromKdfColumns(share as kdfService.KdfColumns),
+          file: share.file && {
             id: share.file.id,
-            filenameEncrypted: share.file.filenameEncrypted,
-            filenameIv: share.file.filenameIv,
             fileSize: share.file.fileSize.toString(),
             mimeType: share.file.mimeType,
+            encryptionAlgorithm: share.file.encryptionAlgorithm,
             createdAt: share.file.createdAt,
           },
           expiresAt: share.expiresAt,
@@ -241,99 +331,80 @@ export const getShare = asyncHandler(
 
 /**
  * Download shared file (public endpoint)
- * GET /api/shares/:token/download
+ * GET /api/shares/public/:token/download
  */
 export const downloadSharedFile = asyncHandler(
-  async (req: Request, res: Response, next: NextFunction) => {
+  async (req: Request, res: Response) => {
     const { token } = req.params;
-    const { password } = req.query;
-
-    // Find share
-    const share = await prisma.share.findUnique({
-      where: { shareToken: token },
-      include: {
-        file: true,
-      },
-    });
-
-    if (!share || !share.isActive) {
-      throw new NotFoundError('Share link');
-    }
-
-    // Check if share has expired
-    if (share.expiresAt && share.expiresAt < new Date()) {
-      await prisma.share.update({
-        where: { id: share.id },
-        data: { isActive: false },
-      });
+    const { password } = req.query as { password?: string };
 
-      throw new BadRequestError('Share link has expired');
-    }
-
-    // Check if max downloads reached
-    if (
-      share.maxDownloads !== null &&
-      share.downloadCount >= share.maxDownloads
-    ) {
-      throw new BadRequestError('Share link has reached maximum downloads');
-    }
-
-    // Check password if required
-    if (share.passwordHash) {
-      if (!password) {
-        throw new UnauthorizedError('Password required');
-      }
-
-      const isPasswordValid = await bcrypt.compare(
-        password as string,
-        share.passwordHash
-      );
-
-      if (!isPasswordValid) {
-        throw new UnauthorizedError('Invalid password');
-      }
-    }
+    const { stream, file } = await shareService.downloadSharedFile(
+      token,
+      password,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    // The content stays encrypted; the recipient decrypts it with the link key
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Length', file.encryptedSize.toString());
+    stream.pipe(res);
+  }
+);
 
-    // Increment download count
-    await prisma.share.update({
-      where: { id: share.id },
-      data: {
-        downloadCount: share.downloadCount + 1,
-        lastAccessed: new Date(),
-      },
-    });
+/**
+ * Browse a shared folder (public endpoint)
+ * GET /api/shares/public/:token/folder
+ */
+export const getSharedFolder = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { token } = req.params;
+    const { password, folderId } = req.query as {
+      password?: string;
+      folderId?: string;
+    };
 
-    // Log share download
-    await prisma.auditLog.create({
-      data: {
-        id: uuidv4(),
-        userId: share.ownerId,
-        action: 'SHARE_DOWNLOADED',
-        resourceType: 'Share',
-        resourceId: share.id,
-        ipAddress: req.ip,
-        userAgent: req.get('user-agent'),
-        success: true,
-      },
-    });
+    const contents = await shareService.getSharedFolderContents(
+      token,
+      password,
+      folderId,
+      req.ip,
+      req.get('user-agent')
+    );
 
-    // In production, this would stream from S3/MinIO
     res.json({
       success: true,
-      message: 'File download initiated',
+      message: 'Shared folder retrieved successfully',
       data: {
-        file: {
-          id: share.file.id,
-          storagePath: share.file.storagePath,
-          fileKeyEncrypted: share.fileKeyEncrypted,
-          fileSize: share.file.fileSize.toString(),
-          mimeType: share.file.mimeType,
-        },
+        folder: formatSharedFolderContents(contents),
       },
     });
   }
 );
 
+/**
+ * Download a file from a shared folder (public endpoint)
+ * GET /api/shares/public/:token/files/:fileId/download
+ */
+export const downloadSharedFolderFile = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { token, fileId } = req.params;
+    const { password } = req.query as { password?: string };
+
+    const { stream, file } = await shareService.downloadSharedFolderFile(
+      token,
+      fileId,
+      password,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Length', file.encryptedSize.toString());
+    stream.pipe(res);
+  }
+);
+
 /**
  * Revoke a share link
  * DELETE /api/shares/:id
@@ -382,6 +453,216 @@ export const revokeShare = asyncHandler(
   }
 );
 
+/**
+ * Change the expiry, download limit, status or (upload links) password of a share link
+ * PATCH /api/shares/:id
+ */
+export const updateShare = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { password, expiresAt, maxDownloads, isActive } = req.body;
+
+    const share = await shareService.updateShare(
+      id,
+      userId,
+      {
+        password,
+        expiresAt: expiresAt === undefined || expiresAt === null ? expiresAt : new Date(expiresAt),
+        maxDownloads,
+        isActive,
+      },
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Share link updated',
+      data: {
+        share: {
+          id: share.id,
+          shareToken: share.shareToken,
+          type: share.type,
+          fileId: share.fileId,
+          folderId: share.folderId,
+          passwordProtected: share.hasPassword,
+          expiresAt: share.expiresAt,
+          maxDownloads: share.maxDownloads,
+          downloadCount: share.downloadCount,
+          isActive: share.isActive,
+          lockedAt: share.lockedAt,
+          createdAt: share.createdAt,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Revoke every link of a file or folder
+ * POST /api/shares/bulk/revoke
+ */
+export const revokeItemShares = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { fileId, folderId } = req.body;
+
+    const revoked = await shareService.revokeSharesForItem(
+      { fileId, folderId },
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: `${revoked} share link(s) revoked`,
+      data: { revoked },
+    });
+  }
+);
+
+/**
+ * Revoke every expired link
+ * POST /api/shares/bulk/revoke-expired
+ */
+export const revokeExpiredShares = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const revoked = await shareService.revokeExpiredShares(
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: `${revoked} expired share link(s) revoked`,
+      data: { revoked },
+    });
+  }
+);
+
+/**
+ * Extend the expiry of several share links
+ * POST /api/shares/bulk/extend
+ */
+export const extendShares = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { shareIds, days } = req.body;
+
+    const shares = await shareService.extendShareExpiry(
+      shareIds,
+      userId,
+      days,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Share link expiry extended',
+      data: {
+        shares: shares.map((share) => ({
+          id: share.id,
+          expiresAt: share.expiresAt,
+        })),
+      },
+    });
+  }
+);
+
+/**
+ * Unlock a share link locked after too many wrong passwords
+ * POST /api/shares/:id/unlock
+ */
+export const unlockShare = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const share = await shareService.unlockShare(id, userId, req.ip, req.get('user-agent'));
+
+    res.json({
+      success: true,
+      message: 'Share link unlocked',
+      data: {
+        share: {
+          id: share.id,
+          lockedAt: share.lockedAt,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Rotate a share link to a new address and password
+ * POST /api/shares/:id/rotate
+ */
+export const rotateShare = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { fileKeyEncrypted, filenameEncrypted, filenameIv, password, passwordSalt, kdf } =
+      req.body;
+
+    const share = await shareService.rotateShare(id, userId, {
+      fileKeyEncrypted,
+      filenameEncrypted,
+      filenameIv,
+      password,
+      passwordSalt,
+      kdf,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Share link rotated',
+      data: {
+        share: {
+          id: share.id,
+          shareToken: share.shareToken,
+          type: share.type,
+          fileId: share.fileId,
+          folderId: share.folderId,
+          passwordProtected: !!share.passwordHash,
+          expiresAt: share.expiresAt,
+          maxDownloads: share.maxDownloads,
+          downloadCount: share.downloadCount,
+          lockedAt: share.lockedAt,
+          createdAt: share.createdAt,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Get the access timeline of a share link
+ * GET /api/shares/:id/access-log
+ */
+export const getShareAccessLog = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { days } = req.query as { days?: number };
+
+    const timeline = await shareAccessLogService.getShareAccessTimeline(id, userId, days);
+
+    res.json({
+      success: true,
+      message: 'Share access log retrieved',
+      data: timeline,
+    });
+  }
+);
+
 /**
  * List user's shares
  * GET /api/shares
@@ -391,7 +672,10 @@ export const listShares = asyncHandler(
     const userId = req.user!.userId;
     const {
       fileId,
+      folderId,
+      type,
       active = 'true',
+      status,
       page = '1',
       limit = '50',
       sortBy = 'createdAt',
@@ -411,7 +695,31 @@ export const listShares = asyncHandler(
       where.fileId = fileId as string;
     }
 
-    if (active === 'true') {
+    if (folderId) {
+      where.folderId = folderId as string;
+    }
+
+    if (type) {
+      where.type = type as string;
+    }
+
+    // A status filter takes precedence over the plain active flag
+    if (status) {
+      const now = new Date();
+      if (status === 'active') {
+        where.isActive = true;
+        where.lockedAt = null;
+        where.OR = [{ expiresAt: null }, { expiresAt: { gt: now } }];
+      } else if (status === 'expired') {
+        where.isActive = true;
+        where.expiresAt = { lte: now };
+      } else if (status === 'locked') {
+        where.isActive = true;
+        where.lockedAt = { not: null };
+      } else if (status === 'revoked') {
+        where.isActive = false;
+      }
+    } else if (active === 'true') {
       where.isActive = true;
     } else if (active === 'false') {
       where.isActive = false;
@@ -436,6 +744,13 @@ export const listShares = asyncHandler(
               mimeType: true,
             },
           },
+          folder: {
+            select: {
+              id: true,
+              nameEncrypted: true,
+              nameIv: true,
+            },
+          },
         },
       }),
       prisma.share.count({ where }),
@@ -448,16 +763,23 @@ export const listShares = asyncHandler(
         shares: shares.map((share) => ({
           id: share.id,
           shareToken: share.shareToken,
+          type: share.type,
           fileId: share.fileId,
-          file: {
+          folderId: share.folderId,
+          file: share.file && {
             ...share.file,
             fileSize: share.file.fileSize.toString(),
           },
+          folder: share.folder,
           passwordProtected: !!share.passwordHash,
           expiresAt: share.expiresAt,
           maxDownloads: share.maxDownloads,
           downloadCount: share.downloadCount,
+          maxFiles: share.maxFiles,
+          maxFileSize: share.maxFileSize?.toString() ?? null,
+          uploadCount: share.uploadCount,
           isActive: share.isActive,
+          lockedAt: share.lockedAt,
           createdAt: share.createdAt,
           lastAccessed: share.lastAccessed,
           shareUrl: `${process.env.APP_URL || 'http://localhost:3000'}/share/${share.shareToken}`,
@@ -0,0 +1,198 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import * as trashService from '../services/trash.service';
+import { PurgeResult, RestoreResult } from '../services/trash.service';
+
+/**
+ * Format a restore result for API responses
+ */
+const formatRestoreResult = (result: RestoreResult) => ({
+  id: result.id,
+  isDeleted: false,
+  parentFolderId: result.parentFolderId,
+  movedToRoot: result.movedToRoot,
+  restoredFiles: result.restoredFiles,
+  restoredFolders: result.restoredFolders,
+  restoredBytes: result.restoredBytes.toString(),
+});
+
+/**
+ * Format a purge result for API responses
+ */
+const formatPurgeResult = (result: PurgeResult) => ({
+  filesDeleted: result.filesDeleted,
+  foldersDeleted: result.foldersDeleted,
+  freedBytes: result.freedBytes.toString(),
+});
+
+/**
+ * List the contents of the trash
+ * GET /api/trash
+ */
+export const listTrash = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const trash = await trashService.getTrash(userId);
+
+    res.json({
+      success: true,
+      message: 'Trash retrieved successfully',
+      data: {
+        retentionDays: trash.retentionDays,
+        folders: trash.folders,
+        files: trash.files.map((file) => ({
+          ...file,
+          fileSize: file.fileSize.toString(),
+          encryptedSize: file.encryptedSize.toString(),
+        })),
+      },
+    });
+  }
+);
+
+/**
+ * Restore a file from the trash
+ * POST /api/trash/files/:id/restore
+ */
+export const restoreTrashedFile = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const result = await trashService.restoreFile(
+      id,
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: result.movedToRoot
+        ? 'File restored to the root folder'
+        : 'File restored successfully',
+      data: formatRestoreResult(result),
+    });
+  }
+);
+
+/**
+ * Restore a folder and the contents deleted with it from the trash
+ * POST /api/trash/folders/:id/restore
+ */
+export const restoreTrashedFolder = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const result = await trashService.restoreFolder(
+      id,
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: result.movedToRoot
+        ? 'Folder restored to the root folder'
+        : 'Folder restored successfully',
+      data: formatRestoreResult(result),
+    });
+  }
+);
+
+/**
+ * Permanently delete a file from the trash
+ * DELETE /api/trash/files/:id
+ */
+export const deleteTrashedFile = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const result = await trashService.deleteTrashedFile(
+      id,
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'File permanently deleted',
+      data: formatPurgeResult(result),
+    });
+  }
+);
+
+/**
+ * Permanently delete a folder and its contents from the trash
+ * DELETE /api/trash/folders/:id
+ */
+export const deleteTrashedFolder = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const result = await trashService.deleteTrashedFolder(
+      id,
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Folder permanently deleted',
+      data: formatPurgeResult(result),
+    });
+  }
+);
+
+/**
+ * Permanently delete everything in the trash
+ * DELETE /api/trash
+ */
+export const emptyTrash = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const result = await trashService.emptyTrash(
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Trash emptied successfully',
+      data: formatPurgeResult(result),
+    });
+  }
+);
+
+/**
+ * Change how long items stay in the trash before they are purged
+ * PUT /api/trash/settings
+ */
+export const updateTrashSettings = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const retentionDays = await trashService.updateRetentionDays(
+      userId,
+      req.body.retentionDays,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Trash settings updated successfully',
+      data: { retentionDays },
+    });
+  }
+);
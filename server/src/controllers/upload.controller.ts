@@ -0,0 +1,172 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler, BadRequestError } from '../middleware/error.middleware';
+import * as uploadService from '../services/upload.service';
+
+/**
+ * Format an upload session for API responses
+ */
+const formatSession = (session: Awaited<ReturnType<typeof uploadService.getUploadSession>>) => ({
+  id: session.id,
+  fileId: session.fileId,
+  parentFolderId: session.parentFolderId,
+  filenameEncrypted: session.filenameEncrypted,
+  filenameIv: session.filenameIv,
+  fileKeyEncrypted: session.fileKeyEncrypted,
+  fileSize: session.fileSize.toString(),
+  encryptedSize: session.encryptedSize.toString(),
+  mimeType: session.mimeType,
+  encryptionAlgorithm: session.encryptionAlgorithm,
+  totalParts: session.totalParts,
+  maxPartSize: uploadService.getMaxPartSize(),
+  status: session.status,
+  expiresAt: session.expiresAt,
+  createdAt: session.createdAt,
+  parts: session.parts.map((part) => ({
+    partNumber: part.partNumber,
+    size: part.size.toString(),
+  })),
+});
+
+/**
+ * Create a resumable upload session
+ * POST /api/files/uploads
+ */
+export const createUploadSession = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const session = await uploadService.createUploadSession({
+      ...req.body,
+      userId,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Upload session created successfully',
+      data: {
+        session: formatSession(session),
+      },
+    });
+  }
+);
+
+/**
+ * Get upload session status, including the parts already received
+ * GET /api/files/uploads/:sessionId
+ */
+export const getUploadSession = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { sessionId } = req.params;
+
+    const session = await uploadService.getUploadSession(sessionId, userId);
+
+    res.json({
+      success: true,
+      message: 'Upload session retrieved successfully',
+      data: {
+        session: formatSession(session),
+      },
+    });
+  }
+);
+
+/**
+ * Upload a single part of an upload session
+ * PUT /api/files/uploads/:sessionId/parts/:partNumber
+ */
+export const uploadPart = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { sessionId } = req.params;
+    const partNumber = parseInt(req.params.partNumber, 10);
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      throw new BadRequestError('Part body must be application/octet-stream');
+    }
+
+    const part = await uploadService.uploadSessionPart(
+      sessionId,
+      userId,
+      partNumber,
+      req.body
+    );
+
+    res.json({
+      success: true,
+      message: 'Part uploaded successfully',
+      data: {
+        part: {
+          partNumber: part.partNumber,
+          size: part.size.toString(),
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Complete an upload session
+ * POST /api/files/uploads/:sessionId/complete
+ */
+export const completeUploadSession = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { sessionId } = req.params;
+    const { fileHash } = req.body;
+
+    const file = await uploadService.completeUploadSession(sessionId, userId, {
+      fileHash,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'File uploaded successfully',
+      data: {
+        file: {
+          id: file.id,
+          filenameEncrypted: file.filenameEncrypted,
+          filenameIv: file.filenameIv,
+          fileKeyEncrypted: file.fileKeyEncrypted,
+          fileSize: file.fileSize.toString(),
+          encryptedSize: file.encryptedSize.toString(),
+          mimeType: file.mimeType,
+          encryptionAlgorithm: file.encryptionAlgorithm,
+          fileHash: file.fileHash,
+          parentFolderId: file.parentFolderId,
+          version: file.version,
+          createdAt: file.createdAt,
+          updatedAt: file.updatedAt,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Abort an upload session
+ * DELETE /api/files/uploads/:sessionId
+ */
+export const abortUploadSession = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { sessionId } = req.params;
+
+    await uploadService.abortUploadSession(
+      sessionId,
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Upload session aborted successfully',
+    });
+  }
+);
@@ -1,15 +1,13 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
-import {
-  BadRequestError,
-  NotFoundError,
-  UnauthorizedError,
-} from '../middleware/error.middleware';
+import { BadRequestError, NotFoundError } from '../middleware/error.middleware';
 import { PrismaClient } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
-import bcrypt from 'bcryptjs';
 import { formatBytes } from '../middleware/upload.middleware';
+import * as emailVerificationService from '../services/emailVerification.service';
+import * as accountDeletionService from '../services/accountDeletion.service';
+import logger from '../utils/logger';
 
 const prisma = new PrismaClient();
 
@@ -36,6 +34,7 @@ export const getProfile = asyncHandler(
         emailVerified: true,
         totpSecretEncrypted: true,
         publicKey: true,
+        deletionScheduledAt: true,
       },
     });
 
@@ -65,6 +64,7 @@ export const getProfile = asyncHandler(
           emailVerified: user.emailVerified,
           twoFactorEnabled: !!user.totpSecretEncrypted,
           publicKey: user.publicKey,
+          deletionScheduledAt: user.deletionScheduledAt,
         },
       },
     });
@@ -81,8 +81,6 @@ export const updateProfile = asyncHandler(
     const {
       username,
       email,
-      currentPassword,
-      newPassword,
       publicKey,
       privateKeyEncrypted,
     } = req.body;
@@ -129,40 +127,6 @@ export const updateProfile = asyncHandler(
       updateData.emailVerified = false; // Require re-verification
     }
 
-    // Update password if provided
-    if (newPassword) {
-      if (!currentPassword) {
-        throw new BadRequestError('Current password is required');
-      }
-
-      // Verify current password
-      const isPasswordValid = await bcrypt.compare(
-        currentPassword,
-        user.passwordHash
-      );
-
-      if (!isPasswordValid) {
-        throw new UnauthorizedError('Current password is incorrect');
-      }
-
-      // Hash new password
-      const salt = bcrypt.genSaltSync(12);
-      const passwordHash = await bcrypt.hash(newPassword, salt);
-
-      updateData.passwordHash = passwordHash;
-      updateData.salt = salt;
-
-      // Invalidate all sessions except current one
-      await prisma.session.deleteMany({
-        where: {
-          userId,
-          expiresAt: {
-            lt: new Date(),
-          },
-        },
-      });
-    }
-
     // Update encryption keys if provided
     if (publicKey) updateData.publicKey = publicKey;
     if (privateKeyEncrypted)
@@ -181,6 +145,22 @@ export const updateProfile = asyncHandler(
       },
     });
 
+    // Confirm the new address and tell the old one about the change
+    if (updateData.email) {
+      try {
+        await emailVerificationService.sendEmailChangeVerification(
+          userId,
+          updatedUser.email,
+          user.email
+        );
+      } catch (error) {
+        logger.error('Failed to send email change confirmation', {
+          userId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
     // Log profile update
     await prisma.auditLog.create({
       data: {
@@ -428,3 +408,49 @@ export const getActivity = asyncHandler(
     });
   }
 );
+
+/**
+ * Schedule the account for deletion
+ * DELETE /api/users/profile
+ */
+export const deleteAccount = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const { password, totpCode, backupCode } = req.body;
+
+    const scheduledFor = await accountDeletionService.requestAccountDeletion(
+      req.user!.userId,
+      {
+        password,
+        totpToken: totpCode,
+        backupCode,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      }
+    );
+
+    res.json({
+      success: true,
+      message: 'Account scheduled for deletion',
+      data: { deletionScheduledAt: scheduledFor },
+    });
+  }
+);
+
+/**
+ * Cancel a scheduled account deletion
+ * DELETE /api/users/profile/deletion
+ */
+export const cancelAccountDeletion = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    await accountDeletionService.cancelAccountDeletion(
+      req.user!.userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Account deletion cancelled',
+    });
+  }
+);
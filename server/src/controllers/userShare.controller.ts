@@ -0,0 +1,313 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler, BadRequestError } from '../middleware/error.middleware';
+import * as userShareService from '../services/userShare.service';
+import { getSharedFolderContents } from '../services/folder.service';
+
+/**
+ * Format a user share created by the current user
+ */
+const formatSentShare = (
+  userShare: Awaited<ReturnType<typeof userShareService.createUserShare>>
+) => ({
+  id: userShare.id,
+  fileId: userShare.fileId,
+  folderId: userShare.folderId,
+  permission: userShare.permission,
+  sharedWith: userShare.sharedWithUser,
+  createdAt: userShare.createdAt,
+});
+
+/**
+ * Format the contents of a shared folder for API responses.
+ * Used for both user shares and public folder links.
+ */
+export const formatSharedFolderContents = (
+  contents: Awaited<ReturnType<typeof getSharedFolderContents>>
+) => ({
+  ...contents,
+  files: contents.files.map((file) => ({
+    ...file,
+    fileSize: file.fileSize.toString(),
+    encryptedSize: file.encryptedSize.toString(),
+  })),
+});
+
+/**
+ * Get a user's public key for sharing
+ * GET /api/users/:username/public-key
+ */
+export const getPublicKey = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const { username } = req.params;
+
+    const user = await userShareService.getPublicKeyByUsername(username);
+
+    res.json({
+      success: true,
+      message: 'Public key retrieved successfully',
+      data: {
+        user: {
+          id: user.id,
+          username: user.username,
+          publicKey: user.publicKey,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Share a file or folder with another user
+ * POST /api/shares/users
+ */
+export const createUserShare = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const ownerId = req.user!.userId;
+
+    const userShare = await userShareService.createUserShare({
+      ...req.body,
+      ownerId,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `${userShare.folderId ? 'Folder' : 'File'} shared successfully`,
+      data: {
+        share: formatSentShare(userShare),
+      },
+    });
+  }
+);
+
+/**
+ * List user shares created by the current user
+ * GET /api/shares/users/sent
+ */
+export const listSentUserShares = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const ownerId = req.user!.userId;
+    const { fileId, folderId } = req.query as {
+      fileId?: string;
+      folderId?: string;
+    };
+
+    const userShares = await userShareService.getSharedByUser(
+      ownerId,
+      fileId,
+      folderId
+    );
+
+    res.json({
+      success: true,
+      message: 'Shares retrieved successfully',
+      data: {
+        shares: userShares.map(formatSentShare),
+      },
+    });
+  }
+);
+
+/**
+ * List files and folders shared with the current user
+ * GET /api/shares/users/received
+ */
+export const listReceivedUserShares = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const userShares = await userShareService.getSharedWithUser(userId);
+
+    res.json({
+      success: true,
+      message: 'Shared files retrieved successfully',
+      data: {
+        shares: userShares.map((userShare) => ({
+          id: userShare.id,
+          permission: userShare.permission,
+          fileKeyEncrypted: userShare.fileKeyEncrypted,
+          filenameEncrypted: userShare.filenameEncrypted,
+          filenameIv: userShare.filenameIv,
+          owner: userShare.owner,
+          createdAt: userShare.createdAt,
+          file: userShare.file && {
+            id: userShare.file.id,
+            fileSize: userShare.file.fileSize.toString(),
+            encryptedSize: userShare.file.encryptedSize.toString(),
+            mimeType: userShare.file.mimeType,
+            encryptionAlgorithm: userShare.file.encryptionAlgorithm,
+            version: userShare.file.version,
+            updatedAt: userShare.file.updatedAt,
+          },
+          folder: userShare.folder,
+        })),
+      },
+    });
+  }
+);
+
+/**
+ * Download the encrypted content of a file shared with the current user
+ * GET /api/shares/users/received/:id/download
+ */
+export const downloadReceivedUserShare = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const { stream, file } = await userShareService.downloadReceivedShare(
+      id,
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Length', file.encryptedSize.toString());
+    stream.pipe(res);
+  }
+);
+
+/**
+ * Replace the content of a file shared with write permission
+ * PUT /api/shares/users/received/:id/content
+ */
+export const replaceReceivedUserShareContent = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const upload = req.file;
+
+    if (!upload) {
+      throw new BadRequestError('No file uploaded');
+    }
+
+    const { fileSize, fileHash, encryptionAlgorithm } = req.body;
+
+    const file = await userShareService.replaceReceivedShareContent(id, userId, {
+      fileData: upload.buffer,
+      fileSize,
+      encryptedSize: upload.size,
+      fileHash,
+      encryptionAlgorithm,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'File content updated successfully',
+      data: {
+        file: {
+          id: file.id,
+          fileSize: file.fileSize.toString(),
+          encryptedSize: file.encryptedSize.toString(),
+          encryptionAlgorithm: file.encryptionAlgorithm,
+          version: file.version,
+          updatedAt: file.updatedAt,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Browse a folder shared with the current user
+ * GET /api/shares/users/received/:id/folder
+ */
+export const getReceivedUserShareFolder = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { folderId } = req.query as { folderId?: string };
+
+    const contents = await userShareService.getReceivedFolderContents(
+      id,
+      userId,
+      folderId
+    );
+
+    res.json({
+      success: true,
+      message: 'Shared folder retrieved successfully',
+      data: {
+        folder: formatSharedFolderContents(contents),
+      },
+    });
+  }
+);
+
+/**
+ * Download the encrypted content of a file inside a folder shared with the current user
+ * GET /api/shares/users/received/:id/files/:fileId/download
+ */
+export const downloadReceivedUserShareFolderFile = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id, fileId } = req.params;
+
+    const { stream, file } = await userShareService.downloadReceivedFolderFile(
+      id,
+      userId,
+      fileId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Length', file.encryptedSize.toString());
+    stream.pipe(res);
+  }
+);
+
+/**
+ * Change the permission of a user share
+ * PATCH /api/shares/users/:id
+ */
+export const updateUserShare = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const ownerId = req.user!.userId;
+    const { id } = req.params;
+
+    const userShare = await userShareService.updateUserSharePermission(
+      id,
+      ownerId,
+      req.body.permission,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Share updated successfully',
+      data: {
+        share: formatSentShare(userShare),
+      },
+    });
+  }
+);
+
+/**
+ * Revoke a user share (owner) or remove it from the shared list (recipient)
+ * DELETE /api/shares/users/:id
+ */
+export const deleteUserShare = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    await userShareService.deleteUserShare(
+      id,
+      userId,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Share removed successfully',
+    });
+  }
+);
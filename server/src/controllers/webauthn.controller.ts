@@ -0,0 +1,114 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import * as authService from '../services/auth.service';
+import * as webauthnService from '../services/webauthn.service';
+
+/**
+ * List the security keys of the signed-in user
+ * GET /api/auth/webauthn/credentials
+ */
+export const listCredentials = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const credentials = await webauthnService.listCredentials(req.user!.userId);
+
+    res.json({
+      success: true,
+      message: 'Security keys retrieved successfully',
+      data: credentials,
+    });
+  }
+);
+
+/**
+ * Start registering a security key
+ * POST /api/auth/webauthn/register/options
+ */
+export const getRegistrationOptions = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const options = await webauthnService.generateRegistrationOptions(req.user!.userId);
+
+    res.json({
+      success: true,
+      message: 'Registration options generated',
+      data: options,
+    });
+  }
+);
+
+/**
+ * Finish registering a security key
+ * POST /api/auth/webauthn/register
+ */
+export const registerCredential = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { name, credential } = req.body;
+
+    const user = await authService.getUserById(userId);
+    const hadSecondFactor = user.hasTOTP || (await webauthnService.hasCredentials(userId));
+
+    const registered = await webauthnService.verifyRegistration(
+      userId,
+      name,
+      credential,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    // The first second factor comes with a set of backup codes
+    const backupCodes = hadSecondFactor
+      ? undefined
+      : await authService.generateBackupCodes(userId);
+
+    res.status(201).json({
+      success: true,
+      message: 'Security key registered successfully',
+      data: {
+        credential: registered,
+        backupCodes,
+      },
+    });
+  }
+);
+
+/**
+ * Rename a security key
+ * PATCH /api/auth/webauthn/credentials/:id
+ */
+export const renameCredential = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    const credential = await webauthnService.renameCredential(
+      req.user!.userId,
+      req.params.id,
+      req.body.name
+    );
+
+    res.json({
+      success: true,
+      message: 'Security key renamed successfully',
+      data: credential,
+    });
+  }
+);
+
+/**
+ * Remove a security key
+ * DELETE /api/auth/webauthn/credentials/:id
+ */
+export const deleteCredential = asyncHandler(
+  async (req: AuthRequest, res: Response) => {
+    await webauthnService.deleteCredential(
+      req.user!.userId,
+      req.params.id,
+      req.body.password,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      message: 'Security key removed successfully',
+    });
+  }
+);
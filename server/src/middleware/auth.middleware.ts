@@ -1,25 +1,60 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { prisma } from '../config/database';
+import { getCache, setCache } from '../config/redis';
+import { isVerificationRequired } from '../services/emailVerification.service';
+
+// How long a session found in the database is trusted from the cache.
+// Revoking a session deletes its cache entry, so this only bounds staleness.
+const SESSION_CACHE_SECONDS = 5 * 60;
 
 // Extend Express Request type to include user
 export interface AuthRequest extends Request {
   user?: {
     userId: string;
     email: string;
+    sessionId?: string;
+    jti?: string;
     iat?: number;
     exp?: number;
   };
 }
 
+/**
+ * Check that a token's session still exists, so revoked devices are signed
+ * out at once instead of when their access token expires
+ */
+const isSessionActive = async (sessionId: string, userId: string): Promise<boolean> => {
+  const key = `session:${sessionId}`;
+  const cached = await getCache<{ userId: string; expiresAt: string }>(key);
+  const session =
+    cached ??
+    (await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, expiresAt: true },
+    }));
+
+  if (!session || session.userId !== userId || new Date(session.expiresAt) <= new Date()) {
+    return false;
+  }
+
+  if (!cached) {
+    await setCache(key, { userId, sessionId, expiresAt: session.expiresAt }, SESSION_CACHE_SECONDS);
+  }
+
+  return true;
+};
+
 /**
  * JWT Authentication Middleware
- * Verifies JWT tokens from Authorization header and attaches user info to request
+ * Verifies JWT tokens from Authorization header, checks that their session
+ * has not been revoked and attaches user info to request
  */
-export const authenticateToken = (
+export const authenticateToken = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     // Extract token from Authorization header
     const authHeader = req.headers.authorization;
@@ -44,10 +79,21 @@ export const authenticateToken = (
     const decoded = jwt.verify(token, jwtSecret) as {
       userId: string;
       email: string;
+      sessionId?: string;
       iat?: number;
       exp?: number;
     };
 
+    if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId, decoded.userId))) {
+      res.status(401).json({
+        success: false,
+        error: 'Session revoked',
+        message: 'This session has been signed out. Please login again.',
+        code: 'SESSION_REVOKED',
+      });
+      return;
+    }
+
     // Attach user info to request
     req.user = decoded;
 
@@ -122,6 +168,7 @@ export const optionalAuth = (
     const decoded = jwt.verify(token, jwtSecret) as {
       userId: string;
       email: string;
+      sessionId?: string;
       iat?: number;
       exp?: number;
     };
@@ -134,9 +181,94 @@ export const optionalAuth = (
   }
 };
 
+/**
+ * Admin Authorization Middleware
+ * Must run after authenticateToken. Rejects users without the admin flag.
+ */
+export const requireAdmin = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        message: 'No token provided',
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: { isAdmin: true, isActive: true },
+    });
+
+    if (!user || !user.isActive || !user.isAdmin) {
+      res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        message: 'Administrator access required.',
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Authorization failed',
+      message: 'An error occurred during authorization.',
+    });
+  }
+};
+
+/**
+ * Verified Email Middleware
+ * Must run after authenticateToken. When REQUIRE_VERIFIED_EMAIL is enabled,
+ * rejects users who have not confirmed their email address yet.
+ */
+export const requireVerifiedEmail = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!isVerificationRequired()) {
+    next();
+    return;
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { emailVerified: true },
+    });
+
+    if (!user || !user.emailVerified) {
+      res.status(403).json({
+        success: false,
+        error: 'Email not verified',
+        message: 'Please verify your email address before continuing.',
+        code: 'EMAIL_NOT_VERIFIED',
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Authorization failed',
+      message: 'An error occurred during authorization.',
+    });
+  }
+};
+
 /**
  * Refresh Token Validator
- * Validates refresh tokens (typically with longer expiry)
+ * Validates refresh tokens (typically with longer expiry). Rotation and reuse
+ * detection happen in the refresh controller via refreshToken.service.
  */
 export const validateRefreshToken = (
   req: Request,
@@ -164,6 +296,8 @@ export const validateRefreshToken = (
     const decoded = jwt.verify(refreshToken, jwtRefreshSecret) as {
       userId: string;
       email: string;
+      sessionId?: string;
+      jti?: string;
       type?: string;
     };
 
@@ -177,10 +311,23 @@ export const validateRefreshToken = (
       return;
     }
 
+    // Tokens must belong to a session's token family to be rotated
+    if (!decoded.sessionId || !decoded.jti) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid refresh token',
+        message: 'This refresh token can no longer be used. Please login again.',
+        code: 'INVALID_REFRESH_TOKEN',
+      });
+      return;
+    }
+
     // Attach user info to request
     (req as AuthRequest).user = {
       userId: decoded.userId,
       email: decoded.email,
+      sessionId: decoded.sessionId,
+      jti: decoded.jti,
     };
 
     next();
@@ -220,6 +367,7 @@ export const validateRefreshToken = (
 export const generateAccessToken = (payload: {
   userId: string;
   email: string;
+  sessionId?: string;
 }): string => {
   const jwtSecret = process.env.JWT_SECRET;
   if (!jwtSecret) {
@@ -238,6 +386,8 @@ export const generateAccessToken = (payload: {
 export const generateRefreshToken = (payload: {
   userId: string;
   email: string;
+  sessionId?: string;
+  jti?: string;
 }): string => {
   const jwtRefreshSecret = process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET;
   if (!jwtRefreshSecret) {
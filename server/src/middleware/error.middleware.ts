@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
 import { Prisma } from '@prisma/client';
+import { AppError as ServiceError } from '../utils/errors';
 
 /**
  * Custom Application Error
@@ -215,6 +216,28 @@ const handleMulterError = (error: any): AppError => {
   return new BadRequestError('File upload error');
 };
 
+/**
+ * Handle errors thrown by the service layer (utils/errors)
+ * Preserves the status code and exposes metadata as details
+ */
+const handleServiceError = (error: ServiceError): AppError => {
+  const code = error.name
+    .replace(/Error$/, '')
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .toUpperCase();
+
+  const appError = new AppError(
+    error.message,
+    error.statusCode,
+    code,
+    error.isOperational
+  );
+  if (error.metadata) {
+    (appError as any).details = error.metadata;
+  }
+  return appError;
+};
+
 /**
  * Convert any error to AppError
  */
@@ -224,6 +247,11 @@ const normalizeError = (error: any): AppError => {
     return error;
   }
 
+  // Service layer errors
+  if (error instanceof ServiceError) {
+    return handleServiceError(error);
+  }
+
   // Prisma errors
   if (
     error instanceof Prisma.PrismaClientKnownRequestError ||
@@ -294,6 +322,11 @@ export const errorHandler = (
   // Add details if available (e.g., validation errors)
   if ((appError as any).details) {
     errorResponse.details = (appError as any).details;
+
+    // Rate limit errors tell clients when to try again
+    if (typeof errorResponse.details.retryAfter === 'number') {
+      res.set('Retry-After', String(errorResponse.details.retryAfter));
+    }
   }
 
   // Add stack trace in development
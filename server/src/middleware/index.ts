@@ -7,6 +7,8 @@
 export {
   authenticateToken,
   optionalAuth,
+  requireAdmin,
+  requireVerifiedEmail,
   validateRefreshToken,
   generateAccessToken,
   generateRefreshToken,
@@ -61,6 +63,7 @@ export {
   uploadMemory,
   uploadDisk,
   uploadSingleFile,
+  uploadSingleFileWithLimit,
   uploadMultipleFiles,
   uploadFields,
   uploadSingleFileToDisk,
@@ -196,6 +196,29 @@ export const uploadLimiter = rateLimit({
   },
 });
 
+/**
+ * Rate limiter for resumable upload parts
+ * 1000 parts per hour (a single large upload is made of many parts)
+ */
+export const uploadPartLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 1000, // Limit each user to 1000 parts per hour
+  message: {
+    success: false,
+    error: 'Too many upload parts',
+    message: 'Upload part limit exceeded. Please try again later.',
+    retryAfter: '1 hour',
+    code: 'UPLOAD_PART_RATE_LIMIT',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  store: process.env.REDIS_URL ? new RedisStore('rl:upload-part:') as any : undefined,
+  keyGenerator: (req) => {
+    const user = (req as any).user;
+    return user ? `user:${user.userId}` : req.ip || 'unknown';
+  },
+});
+
 /**
  * Very strict rate limiter for password reset/sensitive operations
  * 3 requests per hour
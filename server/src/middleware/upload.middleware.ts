@@ -1,5 +1,5 @@
 import multer, { FileFilterCallback, StorageEngine } from 'multer';
-import { Request } from 'express';
+import express, { Request } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import { PayloadTooLargeError, BadRequestError } from './error.middleware';
@@ -11,6 +11,9 @@ const UPLOAD_CONFIG = {
   // Maximum file size (5GB)
   MAX_FILE_SIZE: parseInt(process.env.MAX_FILE_SIZE || '5368709120', 10),
 
+  // Maximum size of a single resumable upload part (128MB)
+  MAX_PART_SIZE: parseInt(process.env.UPLOAD_MAX_PART_SIZE || '134217728', 10),
+
   // Maximum number of files per upload
   MAX_FILES: parseInt(process.env.MAX_FILES_PER_UPLOAD || '10', 10),
 
@@ -176,6 +179,23 @@ export const uploadDisk = multer({
  */
 export const uploadSingleFile = uploadMemory.single('file');
 
+/**
+ * Single file upload middleware (memory storage) with a tighter size limit,
+ * e.g. the one set on a file request
+ */
+export const uploadSingleFileWithLimit = (maxFileSize: number) =>
+  multer({
+    storage: memoryStorage,
+    limits: {
+      fileSize: Math.min(maxFileSize, UPLOAD_CONFIG.MAX_FILE_SIZE),
+      files: 1,
+      fields: 20,
+      fieldSize: 1024 * 1024,
+      fieldNameSize: 100,
+    },
+    fileFilter,
+  }).single('file');
+
 /**
  * Multiple files upload middleware (memory storage)
  */
@@ -205,6 +225,15 @@ export const uploadMultipleFilesToDisk = uploadDisk.array(
   UPLOAD_CONFIG.MAX_FILES
 );
 
+/**
+ * Raw binary body parser for resumable upload parts
+ * The part is available as a Buffer on req.body
+ */
+export const uploadRawPart = express.raw({
+  type: 'application/octet-stream',
+  limit: UPLOAD_CONFIG.MAX_PART_SIZE,
+});
+
 /**
  * Validate file size after upload
  * Useful for additional checks beyond Multer's built-in limits
@@ -307,6 +307,24 @@ export const commonSchemas = {
       .nullable(),
   }),
 
+  /**
+   * Client-side key derivation settings (see KDF service). Limits keep a
+   * tampered client from storing trivially weak settings or ones that no
+   * browser could run.
+   */
+  kdf: z.discriminatedUnion('algorithm', [
+    z.object({
+      algorithm: z.literal('PBKDF2-SHA256'),
+      iterations: z.number().int().min(100000).max(10000000),
+    }),
+    z.object({
+      algorithm: z.literal('ARGON2ID'),
+      iterations: z.number().int().min(1).max(20),
+      memoryKib: z.number().int().min(19456).max(1048576),
+      parallelism: z.number().int().min(1).max(8),
+    }),
+  ]),
+
   /**
    * Two-factor authentication code validation
    */
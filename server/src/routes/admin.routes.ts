@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { listJobs, runJob, reconcileStorage, unlockUser } from '../controllers/admin.controller';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware';
+import { validateBody, validateParams } from '../middleware/validation.middleware';
+import { standardLimiter } from '../middleware/rateLimit.middleware';
+import { z } from 'zod';
+
+const router = Router();
+
+/**
+ * Validation Schemas
+ */
+
+const jobNameSchema = z.object({
+  name: z.string().regex(/^[a-z0-9-]+$/, 'Invalid job name').max(64),
+});
+
+const userIdSchema = z.object({
+  id: z.string().uuid('Invalid user ID'),
+});
+
+const reconcileStorageSchema = z.object({
+  userId: z.string().uuid('Invalid user ID').optional(),
+  deleteOrphans: z.boolean().default(false),
+  markBroken: z.boolean().default(false),
+  recomputeUsage: z.boolean().default(false),
+});
+
+/**
+ * Routes
+ */
+
+/**
+ * @route   GET /api/admin/jobs
+ * @desc    List background jobs with their last run and status
+ * @access  Admin
+ */
+router.get('/jobs', authenticateToken, requireAdmin, standardLimiter, listJobs);
+
+/**
+ * @route   POST /api/admin/jobs/:name/run
+ * @desc    Run a background job on the next scheduler tick
+ * @access  Admin
+ */
+router.post(
+  '/jobs/:name/run',
+  authenticateToken,
+  requireAdmin,
+  standardLimiter,
+  validateParams(jobNameSchema),
+  runJob
+);
+
+/**
+ * @route   POST /api/admin/storage/reconcile
+ * @desc    Report orphaned objects and broken records, optionally repairing them
+ * @access  Admin
+ */
+router.post(
+  '/storage/reconcile',
+  authenticateToken,
+  requireAdmin,
+  standardLimiter,
+  validateBody(reconcileStorageSchema),
+  reconcileStorage
+);
+
+/**
+ * @route   POST /api/admin/users/:id/unlock
+ * @desc    Lift a sign-in lockout and clear failed attempts
+ * @access  Admin
+ */
+router.post(
+  '/users/:id/unlock',
+  authenticateToken,
+  requireAdmin,
+  standardLimiter,
+  validateParams(userIdSchema),
+  unlockUser
+);
+
+export default router;
@@ -7,15 +7,46 @@ import {
   enable2FA,
   verify2FA,
   disable2FA,
+  getBackupCodeStatus,
+  regenerateBackupCodes,
 } from '../controllers/auth.controller';
+import {
+  listCredentials,
+  getRegistrationOptions,
+  registerCredential,
+  renameCredential,
+  deleteCredential,
+} from '../controllers/webauthn.controller';
+import {
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+} from '../controllers/session.controller';
+import {
+  verifyEmail,
+  resendVerification,
+} from '../controllers/emailVerification.controller';
+import { unlockAccount } from '../controllers/accountLockout.controller';
+import {
+  changePassword,
+  rollbackPasswordChange,
+  upgradeKdf,
+} from '../controllers/password.controller';
+import {
+  setRecoveryKey,
+  requestRecovery,
+  verifyRecoveryLink,
+  resetPassword,
+} from '../controllers/recovery.controller';
 import {
   authenticateToken,
   validateRefreshToken,
 } from '../middleware/auth.middleware';
-import { validateBody } from '../middleware/validation.middleware';
+import { validateBody, validateParams } from '../middleware/validation.middleware';
 import { authLimiter, sensitiveOperationLimiter } from '../middleware/rateLimit.middleware';
 import { z } from 'zod';
 import { commonSchemas } from '../middleware/validation.middleware';
+import { passwordResetRequestSchema } from '../utils/validation';
 
 const router = Router();
 
@@ -23,6 +54,14 @@ const router = Router();
  * Validation Schemas
  */
 
+/**
+ * Recovery key material (see recovery service). Both fields go together.
+ */
+const recoveryKeySchema = {
+  recoveryKeyEncrypted: z.string().min(1).optional(),
+  recoveryVerifier: z.string().min(32).max(128).optional(),
+};
+
 const registerSchema = z.object({
   email: commonSchemas.email,
   username: z
@@ -34,14 +73,74 @@ const registerSchema = z.object({
       'Username can only contain letters, numbers, underscores, and hyphens'
     ),
   password: commonSchemas.password,
+  salt: z.string().min(1, 'Salt is required'),
+  kdf: commonSchemas.kdf.optional(),
   masterKey: z.string().min(1, 'Master key is required'),
   publicKey: z.string().min(1, 'Public key is required'),
   privateKeyEncrypted: z.string().min(1, 'Encrypted private key is required'),
+  ...recoveryKeySchema,
+}).refine((data) => !data.recoveryKeyEncrypted === !data.recoveryVerifier, {
+  message: 'Recovery key and verifier must be provided together',
+  path: ['recoveryVerifier'],
+});
+
+const base64UrlSchema = z.string().regex(/^[A-Za-z0-9_-]*$/, 'Invalid base64url value');
+
+const webauthnAuthenticationSchema = z.object({
+  id: base64UrlSchema.min(1).max(1024),
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64UrlSchema.max(4096),
+    authenticatorData: base64UrlSchema.max(4096),
+    signature: base64UrlSchema.max(1024),
+    userHandle: base64UrlSchema.max(512).nullable().optional(),
+  }),
+});
+
+const webauthnCredentialNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(64, 'Name must not exceed 64 characters');
+
+const registerCredentialSchema = z.object({
+  name: webauthnCredentialNameSchema,
+  credential: z.object({
+    id: base64UrlSchema.min(1).max(1024),
+    type: z.literal('public-key'),
+    response: z.object({
+      clientDataJSON: base64UrlSchema.max(4096),
+      authenticatorData: base64UrlSchema.max(4096),
+      publicKey: base64UrlSchema.min(1).max(4096),
+      publicKeyAlgorithm: z.number().int(),
+      transports: z.array(z.string().max(32)).max(10).optional(),
+    }),
+  }),
+});
+
+const renameCredentialSchema = z.object({
+  name: webauthnCredentialNameSchema,
+});
+
+const deleteCredentialSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+});
+
+const credentialIdSchema = z.object({
+  id: z.string().uuid('Invalid security key ID'),
+});
+
+const sessionIdSchema = z.object({
+  id: z.string().uuid('Invalid session ID'),
 });
 
 const loginSchema = z.object({
   email: commonSchemas.email,
   password: z.string().min(1, 'Password is required'),
+  // Second step when 2FA is enabled: a TOTP code, a backup code or a security key
+  totpCode: commonSchemas.totpCode.optional(),
+  backupCode: z.string().min(1).max(32).optional(),
+  webauthnResponse: webauthnAuthenticationSchema.optional(),
 });
 
 const logoutSchema = z.object({
@@ -62,6 +161,59 @@ const disable2FASchema = z.object({
   token: commonSchemas.totpCode,
 });
 
+const regenerateBackupCodesSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+});
+
+const setRecoveryKeySchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  recoveryKeyEncrypted: z.string().min(1, 'Encrypted recovery key is required'),
+  recoveryVerifier: z.string().min(32).max(128),
+});
+
+const unlockAccountSchema = z.object({
+  token: z.string().min(1, 'Unlock token is required'),
+});
+
+const emailVerificationSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+const recoveryTokenSchema = z.object({
+  token: z.string().min(1, 'Recovery token is required'),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: commonSchemas.password,
+  // Generated client-side; the server cannot re-wrap keys it never sees
+  salt: z.string().min(1, 'Salt is required'),
+  kdf: commonSchemas.kdf,
+  masterKeyEncrypted: z.string().min(1, 'Encrypted master key is required'),
+  privateKeyEncrypted: z.string().min(1, 'Encrypted private key is required'),
+});
+
+const upgradeKdfSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  salt: z.string().min(1, 'Salt is required'),
+  kdf: commonSchemas.kdf,
+  masterKeyEncrypted: z.string().min(1, 'Encrypted master key is required'),
+});
+
+const rollbackPasswordSchema = z.object({
+  previousPassword: z.string().min(1, 'Previous password is required'),
+  currentPassword: z.string().min(1, 'Current password is required'),
+});
+
+const recoveryResetSchema = z.object({
+  token: z.string().min(1, 'Recovery token is required'),
+  recoveryVerifier: z.string().min(32).max(128),
+  password: commonSchemas.password,
+  salt: z.string().min(1, 'Salt is required'),
+  kdf: commonSchemas.kdf.optional(),
+  masterKeyEncrypted: z.string().min(1, 'Encrypted master key is required'),
+});
+
 /**
  * Routes
  */
@@ -151,4 +303,245 @@ router.post(
   disable2FA
 );
 
+/**
+ * @route   GET /api/auth/2fa/backup-codes
+ * @desc    Get the number of unused backup codes
+ * @access  Private
+ */
+router.get(
+  '/2fa/backup-codes',
+  authenticateToken,
+  getBackupCodeStatus
+);
+
+/**
+ * @route   POST /api/auth/2fa/backup-codes
+ * @desc    Replace the backup codes (requires the password)
+ * @access  Private
+ */
+router.post(
+  '/2fa/backup-codes',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  validateBody(regenerateBackupCodesSchema),
+  regenerateBackupCodes
+);
+
+/**
+ * @route   GET /api/auth/webauthn/credentials
+ * @desc    List registered security keys
+ * @access  Private
+ */
+router.get(
+  '/webauthn/credentials',
+  authenticateToken,
+  listCredentials
+);
+
+/**
+ * @route   POST /api/auth/webauthn/register/options
+ * @desc    Start registering a security key
+ * @access  Private
+ */
+router.post(
+  '/webauthn/register/options',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  getRegistrationOptions
+);
+
+/**
+ * @route   POST /api/auth/webauthn/register
+ * @desc    Finish registering a security key
+ * @access  Private
+ */
+router.post(
+  '/webauthn/register',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  validateBody(registerCredentialSchema),
+  registerCredential
+);
+
+/**
+ * @route   PATCH /api/auth/webauthn/credentials/:id
+ * @desc    Rename a security key
+ * @access  Private
+ */
+router.patch(
+  '/webauthn/credentials/:id',
+  authenticateToken,
+  validateParams(credentialIdSchema),
+  validateBody(renameCredentialSchema),
+  renameCredential
+);
+
+/**
+ * @route   DELETE /api/auth/webauthn/credentials/:id
+ * @desc    Remove a security key (requires the password)
+ * @access  Private
+ */
+router.delete(
+  '/webauthn/credentials/:id',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  validateParams(credentialIdSchema),
+  validateBody(deleteCredentialSchema),
+  deleteCredential
+);
+
+/**
+ * @route   POST /api/auth/email/verify
+ * @desc    Confirm an email address from a verification link
+ * @access  Public (requires an emailed verification token)
+ */
+router.post(
+  '/email/verify',
+  authLimiter,
+  validateBody(emailVerificationSchema),
+  verifyEmail
+);
+
+/**
+ * @route   POST /api/auth/email/verify/resend
+ * @desc    Send a new verification link
+ * @access  Private
+ */
+router.post(
+  '/email/verify/resend',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  resendVerification
+);
+
+/**
+ * @route   POST /api/auth/unlock
+ * @desc    Unlock an account locked after failed sign-ins
+ * @access  Public (requires the emailed unlock token)
+ */
+router.post('/unlock', authLimiter, validateBody(unlockAccountSchema), unlockAccount);
+
+/**
+ * @route   POST /api/auth/password/change
+ * @desc    Change the password with keys re-wrapped under it, atomically
+ * @access  Private
+ */
+router.post(
+  '/password/change',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  validateBody(changePasswordSchema),
+  changePassword
+);
+
+/**
+ * @route   POST /api/auth/password/rollback
+ * @desc    Undo the last password change within the rollback window
+ * @access  Private
+ */
+router.post(
+  '/password/rollback',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  validateBody(rollbackPasswordSchema),
+  rollbackPasswordChange
+);
+
+/**
+ * @route   POST /api/auth/password/kdf
+ * @desc    Re-wrap the master key under stronger key derivation settings
+ * @access  Private
+ */
+router.post(
+  '/password/kdf',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  validateBody(upgradeKdfSchema),
+  upgradeKdf
+);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the devices the user is signed in on
+ * @access  Private
+ */
+router.get(
+  '/sessions',
+  authenticateToken,
+  listSessions
+);
+
+/**
+ * @route   POST /api/auth/sessions/revoke-others
+ * @desc    Sign out every device except the current one
+ * @access  Private
+ */
+router.post(
+  '/sessions/revoke-others',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  revokeOtherSessions
+);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Sign out one device
+ * @access  Private
+ */
+router.delete(
+  '/sessions/:id',
+  authenticateToken,
+  validateParams(sessionIdSchema),
+  revokeSession
+);
+
+/**
+ * @route   PUT /api/auth/recovery
+ * @desc    Replace the recovery key (requires the password)
+ * @access  Private
+ */
+router.put(
+  '/recovery',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  validateBody(setRecoveryKeySchema),
+  setRecoveryKey
+);
+
+/**
+ * @route   POST /api/auth/recovery/request
+ * @desc    Email a recovery link
+ * @access  Public
+ */
+router.post(
+  '/recovery/request',
+  authLimiter,
+  validateBody(passwordResetRequestSchema),
+  requestRecovery
+);
+
+/**
+ * @route   POST /api/auth/recovery/verify
+ * @desc    Check a recovery link and get the wrapped recovery copy of the master key
+ * @access  Public (requires an emailed recovery token)
+ */
+router.post(
+  '/recovery/verify',
+  authLimiter,
+  validateBody(recoveryTokenSchema),
+  verifyRecoveryLink
+);
+
+/**
+ * @route   POST /api/auth/recovery/reset
+ * @desc    Set a new password using the recovery key
+ * @access  Public (requires an emailed recovery token)
+ */
+router.post(
+  '/recovery/reset',
+  authLimiter,
+  validateBody(recoveryResetSchema),
+  resetPassword
+);
+
 export default router;
@@ -6,8 +6,25 @@ import {
   downloadFile,
   updateFile,
   deleteFile,
+  searchFiles,
+  claimReceivedFile,
 } from '../controllers/file.controller';
-import { authenticateToken } from '../middleware/auth.middleware';
+import {
+  createUploadSession,
+  getUploadSession,
+  uploadPart,
+  completeUploadSession,
+  abortUploadSession,
+} from '../controllers/upload.controller';
+import {
+  listFileVersions,
+  downloadFileVersion,
+  restoreFileVersion,
+  deleteFileVersion,
+  deleteOldFileVersions,
+} from '../controllers/fileVersion.controller';
+import { restoreTrashedFile } from '../controllers/trash.controller';
+import { authenticateToken, requireVerifiedEmail } from '../middleware/auth.middleware';
 import {
   validateBody,
   validateQuery,
@@ -17,8 +34,9 @@ import {
 import {
   fileLimiter,
   uploadLimiter,
+  uploadPartLimiter,
 } from '../middleware/rateLimit.middleware';
-import { uploadSingleFile } from '../middleware/upload.middleware';
+import { uploadSingleFile, uploadRawPart } from '../middleware/upload.middleware';
 import { z } from 'zod';
 
 const router = Router();
@@ -27,12 +45,34 @@ const router = Router();
  * Validation Schemas
  */
 
+/**
+ * Key material scoped to the parent folder (see folder key hierarchy)
+ */
+const parentKeySchema = {
+  parentKeyEncrypted: z.string().min(1).optional(),
+  parentNameEncrypted: z.string().min(1).optional(),
+  parentNameIv: z.string().min(1).optional(),
+};
+
+/**
+ * Blind-index tokens: base64url HMACs of filename n-grams (see file search)
+ */
+const searchTokenSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{16,64}$/, 'Invalid search token');
+
+const searchTokensSchema = z.array(searchTokenSchema).max(1024).optional();
+
 const uploadFileSchema = z.object({
   filenameEncrypted: z.string().min(1, 'Encrypted filename is required'),
   filenameIv: z.string().min(1, 'Filename IV is required'),
   fileKeyEncrypted: z.string().min(1, 'Encrypted file key is required'),
   parentFolderId: commonSchemas.folderId,
   mimeType: z.string().optional(),
+  encryptionAlgorithm: z
+    .enum(['AES-256-GCM', 'AES-256-GCM-STREAM-V1'])
+    .optional(),
+  ...parentKeySchema,
 });
 
 const listFilesSchema = z.object({
@@ -52,6 +92,37 @@ const listFilesSchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
 });
 
+const searchFilesSchema = z.object({
+  tokens: z
+    .string()
+    .min(1, 'Search tokens are required')
+    .transform((val) => val.split(','))
+    .pipe(z.array(searchTokenSchema).min(1).max(64)),
+  folderId: z.string().uuid('Invalid folder ID').optional(),
+  recursive: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => val === 'true'),
+  mimeType: z.string().max(255).optional(),
+  dateFrom: z
+    .string()
+    .datetime()
+    .optional()
+    .transform((val) => (val ? new Date(val) : undefined)),
+  dateTo: z
+    .string()
+    .datetime()
+    .optional()
+    .transform((val) => (val ? new Date(val) : undefined)),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(50)
+    .transform((val) => Math.min(val, 100)),
+});
+
 const fileIdSchema = z.object({
   id: commonSchemas.fileId,
 });
@@ -61,12 +132,67 @@ const updateFileSchema = z.object({
   filenameIv: z.string().optional(),
   parentFolderId: z.string().uuid().nullable().optional(),
   newVersion: z.boolean().optional(),
+  searchTokens: searchTokensSchema,
+  ...parentKeySchema,
+});
+
+/**
+ * Keys of a file received through a file request, re-wrapped by the owner
+ */
+const claimFileSchema = z.object({
+  fileKeyEncrypted: z.string().min(1, 'Encrypted file key is required'),
+  filenameEncrypted: z.string().min(1, 'Encrypted filename is required'),
+  filenameIv: z.string().min(1, 'Filename IV is required'),
+  searchTokens: searchTokensSchema,
+  ...parentKeySchema,
 });
 
 const deleteFileSchema = z.object({
   permanent: z.enum(['true', 'false']).optional().default('false'),
 });
 
+const createUploadSessionSchema = z.object({
+  filenameEncrypted: z.string().min(1, 'Encrypted filename is required'),
+  filenameIv: z.string().min(1, 'Filename IV is required'),
+  fileKeyEncrypted: z.string().min(1, 'Encrypted file key is required'),
+  parentFolderId: commonSchemas.folderId,
+  mimeType: z.string().optional(),
+  encryptionAlgorithm: z
+    .enum(['AES-256-GCM', 'AES-256-GCM-STREAM-V1'])
+    .optional(),
+  fileSize: z.number().int().min(0, 'File size cannot be negative'),
+  encryptedSize: z.number().int().min(1, 'Encrypted size must be greater than 0'),
+  totalParts: z.number().int().min(1, 'At least one part is required'),
+  searchTokens: searchTokensSchema,
+  ...parentKeySchema,
+});
+
+const uploadSessionIdSchema = z.object({
+  sessionId: z.string().uuid('Invalid upload session ID'),
+});
+
+const uploadPartParamsSchema = z.object({
+  sessionId: z.string().uuid('Invalid upload session ID'),
+  partNumber: z.string().regex(/^\d+$/, 'Part number must be a positive integer'),
+});
+
+const completeUploadSessionSchema = z.object({
+  fileHash: z.string().min(1, 'File hash is required'),
+});
+
+const fileVersionParamsSchema = z.object({
+  id: commonSchemas.fileId,
+  versionNumber: z.string().regex(/^\d+$/, 'Version number must be a positive integer'),
+});
+
+const deleteFileVersionsSchema = z.object({
+  keep: z
+    .string()
+    .regex(/^\d+$/, 'keep must be a non-negative integer')
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 1)),
+});
+
 /**
  * Routes
  */
@@ -79,12 +205,81 @@ const deleteFileSchema = z.object({
 router.post(
   '/',
   authenticateToken,
+  requireVerifiedEmail,
   uploadLimiter,
   uploadSingleFile,
   validateBody(uploadFileSchema),
   uploadFile
 );
 
+/**
+ * @route   POST /api/files/uploads
+ * @desc    Create a resumable upload session
+ * @access  Private
+ */
+router.post(
+  '/uploads',
+  authenticateToken,
+  requireVerifiedEmail,
+  uploadLimiter,
+  validateBody(createUploadSessionSchema),
+  createUploadSession
+);
+
+/**
+ * @route   GET /api/files/uploads/:sessionId
+ * @desc    Get upload session status and the parts already received
+ * @access  Private
+ */
+router.get(
+  '/uploads/:sessionId',
+  authenticateToken,
+  fileLimiter,
+  validateParams(uploadSessionIdSchema),
+  getUploadSession
+);
+
+/**
+ * @route   PUT /api/files/uploads/:sessionId/parts/:partNumber
+ * @desc    Upload one part (raw application/octet-stream body)
+ * @access  Private
+ */
+router.put(
+  '/uploads/:sessionId/parts/:partNumber',
+  authenticateToken,
+  uploadPartLimiter,
+  validateParams(uploadPartParamsSchema),
+  uploadRawPart,
+  uploadPart
+);
+
+/**
+ * @route   POST /api/files/uploads/:sessionId/complete
+ * @desc    Complete an upload session and create the file
+ * @access  Private
+ */
+router.post(
+  '/uploads/:sessionId/complete',
+  authenticateToken,
+  fileLimiter,
+  validateParams(uploadSessionIdSchema),
+  validateBody(completeUploadSessionSchema),
+  completeUploadSession
+);
+
+/**
+ * @route   DELETE /api/files/uploads/:sessionId
+ * @desc    Abort an upload session
+ * @access  Private
+ */
+router.delete(
+  '/uploads/:sessionId',
+  authenticateToken,
+  fileLimiter,
+  validateParams(uploadSessionIdSchema),
+  abortUploadSession
+);
+
 /**
  * @route   GET /api/files
  * @desc    List user's files
@@ -98,6 +293,19 @@ router.get(
   listFiles
 );
 
+/**
+ * @route   GET /api/files/search
+ * @desc    Search files by blind-index filename tokens
+ * @access  Private
+ */
+router.get(
+  '/search',
+  authenticateToken,
+  fileLimiter,
+  validateQuery(searchFilesSchema),
+  searchFiles
+);
+
 /**
  * @route   GET /api/files/:id
  * @desc    Get file details
@@ -124,6 +332,72 @@ router.get(
   downloadFile
 );
 
+/**
+ * @route   GET /api/files/:id/versions
+ * @desc    List the version history of a file
+ * @access  Private
+ */
+router.get(
+  '/:id/versions',
+  authenticateToken,
+  fileLimiter,
+  validateParams(fileIdSchema),
+  listFileVersions
+);
+
+/**
+ * @route   GET /api/files/:id/versions/:versionNumber/download
+ * @desc    Download a specific file version
+ * @access  Private
+ */
+router.get(
+  '/:id/versions/:versionNumber/download',
+  authenticateToken,
+  fileLimiter,
+  validateParams(fileVersionParamsSchema),
+  downloadFileVersion
+);
+
+/**
+ * @route   POST /api/files/:id/versions/:versionNumber/restore
+ * @desc    Restore a file version as the current content
+ * @access  Private
+ */
+router.post(
+  '/:id/versions/:versionNumber/restore',
+  authenticateToken,
+  fileLimiter,
+  validateParams(fileVersionParamsSchema),
+  restoreFileVersion
+);
+
+/**
+ * @route   DELETE /api/files/:id/versions/:versionNumber
+ * @desc    Delete a specific file version
+ * @access  Private
+ */
+router.delete(
+  '/:id/versions/:versionNumber',
+  authenticateToken,
+  fileLimiter,
+  validateParams(fileVersionParamsSchema),
+  deleteFileVersion
+);
+
+/**
+ * @route   DELETE /api/files/:id/versions
+ * @desc    Delete old file versions, keeping the newest `keep` (default 1)
+ * @access  Private
+ */
+router.delete(
+  '/:id/versions',
+  authenticateToken,
+  fileLimiter,
+  validateParams(fileIdSchema),
+  validateQuery(deleteFileVersionsSchema),
+  deleteOldFileVersions
+);
+
 /**
  * @route   PUT /api/files/:id
  * @desc    Update file metadata
@@ -138,6 +412,20 @@ router.put(
   updateFile
 );
 
+/**
+ * @route   POST /api/files/:id/claim
+ * @desc    Claim a file received through a file request
+ * @access  Private
+ */
+router.post(
+  '/:id/claim',
+  authenticateToken,
+  fileLimiter,
+  validateParams(fileIdSchema),
+  validateBody(claimFileSchema),
+  claimReceivedFile
+);
+
 /**
  * @route   DELETE /api/files/:id
  * @desc    Delete a file (soft or permanent)
@@ -152,4 +440,17 @@ router.delete(
   deleteFile
 );
 
+/**
+ * @route   POST /api/files/:id/restore
+ * @desc    Restore a file from the trash
+ * @access  Private
+ */
+router.post(
+  '/:id/restore',
+  authenticateToken,
+  fileLimiter,
+  validateParams(fileIdSchema),
+  restoreTrashedFile
+);
+
 export default router;
@@ -6,6 +6,11 @@ import {
   updateFolder,
   deleteFolder,
 } from '../controllers/folder.controller';
+import {
+  getFolderKeys,
+  updateFolderKeys,
+} from '../controllers/folderKey.controller';
+import { restoreTrashedFolder } from '../controllers/trash.controller';
 import { authenticateToken } from '../middleware/auth.middleware';
 import {
   validateBody,
@@ -22,10 +27,18 @@ const router = Router();
  * Validation Schemas
  */
 
+const parentKeySchema = {
+  parentKeyEncrypted: z.string().min(1).optional(),
+  parentNameEncrypted: z.string().min(1).optional(),
+  parentNameIv: z.string().min(1).optional(),
+};
+
 const createFolderSchema = z.object({
   nameEncrypted: z.string().min(1, 'Encrypted folder name is required'),
   nameIv: z.string().min(1, 'Folder name IV is required'),
   parentFolderId: commonSchemas.folderId,
+  folderKeyEncrypted: z.string().min(1).optional(),
+  ...parentKeySchema,
 });
 
 const listFoldersSchema = z.object({
@@ -53,6 +66,23 @@ const updateFolderSchema = z.object({
   nameEncrypted: z.string().optional(),
   nameIv: z.string().optional(),
   parentFolderId: z.string().uuid().nullable().optional(),
+  ...parentKeySchema,
+});
+
+const itemKeySchema = z.object({
+  id: z.string().uuid(),
+  parentKeyEncrypted: z.string().min(1, 'Parent-wrapped key is required'),
+  parentNameEncrypted: z.string().min(1, 'Parent-encrypted name is required'),
+  parentNameIv: z.string().min(1, 'Parent name IV is required'),
+});
+
+const updateFolderKeysSchema = z.object({
+  folderKeyEncrypted: z.string().min(1).optional(),
+  folders: z
+    .array(itemKeySchema.extend({ folderKeyEncrypted: z.string().min(1).optional() }))
+    .max(10000)
+    .default([]),
+  files: z.array(itemKeySchema).max(10000).default([]),
 });
 
 const deleteFolderSchema = z.object({
@@ -103,6 +133,33 @@ router.get(
   getFolder
 );
 
+/**
+ * @route   GET /api/folders/:id/keys
+ * @desc    Get the key material of a folder subtree
+ * @access  Private
+ */
+router.get(
+  '/:id/keys',
+  authenticateToken,
+  standardLimiter,
+  validateParams(folderIdSchema),
+  getFolderKeys
+);
+
+/**
+ * @route   PUT /api/folders/:id/keys
+ * @desc    Store the key hierarchy of a folder subtree (before sharing)
+ * @access  Private
+ */
+router.put(
+  '/:id/keys',
+  authenticateToken,
+  standardLimiter,
+  validateParams(folderIdSchema),
+  validateBody(updateFolderKeysSchema),
+  updateFolderKeys
+);
+
 /**
  * @route   PUT /api/folders/:id
  * @desc    Update folder (rename or move)
@@ -131,4 +188,17 @@ router.delete(
   deleteFolder
 );
 
+/**
+ * @route   POST /api/folders/:id/restore
+ * @desc    Restore a folder from the trash with the contents deleted along with it
+ * @access  Private
+ */
+router.post(
+  '/:id/restore',
+  authenticateToken,
+  standardLimiter,
+  validateParams(folderIdSchema),
+  restoreTrashedFolder
+);
+
 export default router;
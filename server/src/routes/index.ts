@@ -4,6 +4,8 @@ import fileRoutes from './file.routes';
 import folderRoutes from './folder.routes';
 import shareRoutes from './share.routes';
 import userRoutes from './user.routes';
+import trashRoutes from './trash.routes';
+import adminRoutes from './admin.routes';
 
 const router = Router();
 
@@ -40,14 +42,47 @@ router.get('/', (req: Request, res: Response) => {
         enable2FA: 'POST /api/auth/2fa/enable',
         verify2FA: 'POST /api/auth/2fa/verify',
         disable2FA: 'POST /api/auth/2fa/disable',
+        backupCodeStatus: 'GET /api/auth/2fa/backup-codes',
+        regenerateBackupCodes: 'POST /api/auth/2fa/backup-codes',
+        listSecurityKeys: 'GET /api/auth/webauthn/credentials',
+        securityKeyOptions: 'POST /api/auth/webauthn/register/options',
+        registerSecurityKey: 'POST /api/auth/webauthn/register',
+        renameSecurityKey: 'PATCH /api/auth/webauthn/credentials/:id',
+        removeSecurityKey: 'DELETE /api/auth/webauthn/credentials/:id',
+        verifyEmail: 'POST /api/auth/email/verify',
+        resendVerification: 'POST /api/auth/email/verify/resend',
+        unlockAccount: 'POST /api/auth/unlock',
+        changePassword: 'POST /api/auth/password/change',
+        rollbackPasswordChange: 'POST /api/auth/password/rollback',
+        upgradeKdf: 'POST /api/auth/password/kdf',
+        listSessions: 'GET /api/auth/sessions',
+        revokeSession: 'DELETE /api/auth/sessions/:id',
+        revokeOtherSessions: 'POST /api/auth/sessions/revoke-others',
+        setRecoveryKey: 'PUT /api/auth/recovery',
+        requestRecovery: 'POST /api/auth/recovery/request',
+        verifyRecovery: 'POST /api/auth/recovery/verify',
+        resetWithRecoveryKey: 'POST /api/auth/recovery/reset',
       },
       files: {
         upload: 'POST /api/files',
         list: 'GET /api/files',
+        search: 'GET /api/files/search',
         get: 'GET /api/files/:id',
         download: 'GET /api/files/:id/download',
         update: 'PUT /api/files/:id',
         delete: 'DELETE /api/files/:id',
+        restore: 'POST /api/files/:id/restore',
+        claim: 'POST /api/files/:id/claim',
+        createUploadSession: 'POST /api/files/uploads',
+        getUploadSession: 'GET /api/files/uploads/:sessionId',
+        uploadPart: 'PUT /api/files/uploads/:sessionId/parts/:partNumber',
+        completeUpload: 'POST /api/files/uploads/:sessionId/complete',
+        abortUpload: 'DELETE /api/files/uploads/:sessionId',
+        listVersions: 'GET /api/files/:id/versions',
+        downloadVersion: 'GET /api/files/:id/versions/:versionNumber/download',
+        restoreVersion: 'POST /api/files/:id/versions/:versionNumber/restore',
+        deleteVersion: 'DELETE /api/files/:id/versions/:versionNumber',
+        deleteOldVersions: 'DELETE /api/files/:id/versions',
       },
       folders: {
         create: 'POST /api/folders',
@@ -55,19 +90,61 @@ router.get('/', (req: Request, res: Response) => {
         get: 'GET /api/folders/:id',
         update: 'PUT /api/folders/:id',
         delete: 'DELETE /api/folders/:id',
+        restore: 'POST /api/folders/:id/restore',
+        getKeys: 'GET /api/folders/:id/keys',
+        updateKeys: 'PUT /api/folders/:id/keys',
       },
       shares: {
         create: 'POST /api/shares',
         list: 'GET /api/shares',
+        update: 'PATCH /api/shares/:id',
         revoke: 'DELETE /api/shares/:id',
+        revokeForItem: 'POST /api/shares/bulk/revoke',
+        revokeExpired: 'POST /api/shares/bulk/revoke-expired',
+        extend: 'POST /api/shares/bulk/extend',
+        accessLog: 'GET /api/shares/:id/access-log',
+        unlock: 'POST /api/shares/:id/unlock',
+        rotate: 'POST /api/shares/:id/rotate',
         getPublic: 'GET /api/shares/public/:token',
         downloadPublic: 'GET /api/shares/public/:token/download',
+        browsePublicFolder: 'GET /api/shares/public/:token/folder',
+        downloadPublicFolderFile: 'GET /api/shares/public/:token/files/:fileId/download',
+        createFileRequest: 'POST /api/shares/requests',
+        getPublicFileRequest: 'GET /api/shares/public/:token/request',
+        uploadToFileRequest: 'POST /api/shares/public/:token/request/files',
+        shareWithUser: 'POST /api/shares/users',
+        listSentUserShares: 'GET /api/shares/users/sent',
+        listReceivedUserShares: 'GET /api/shares/users/received',
+        downloadReceived: 'GET /api/shares/users/received/:id/download',
+        replaceReceivedContent: 'PUT /api/shares/users/received/:id/content',
+        browseReceivedFolder: 'GET /api/shares/users/received/:id/folder',
+        downloadReceivedFolderFile: 'GET /api/shares/users/received/:id/files/:fileId/download',
+        updateUserShare: 'PATCH /api/shares/users/:id',
+        deleteUserShare: 'DELETE /api/shares/users/:id',
+      },
+      trash: {
+        list: 'GET /api/trash',
+        empty: 'DELETE /api/trash',
+        updateSettings: 'PUT /api/trash/settings',
+        restoreFile: 'POST /api/trash/files/:id/restore',
+        restoreFolder: 'POST /api/trash/folders/:id/restore',
+        deleteFile: 'DELETE /api/trash/files/:id',
+        deleteFolder: 'DELETE /api/trash/folders/:id',
       },
       users: {
         getProfile: 'GET /api/users/profile',
         updateProfile: 'PUT /api/users/profile',
+        deleteAccount: 'DELETE /api/users/profile',
+        cancelAccountDeletion: 'DELETE /api/users/profile/deletion',
         getStorageStats: 'GET /api/users/storage/stats',
         getActivity: 'GET /api/users/activity',
+        getPublicKey: 'GET /api/users/:username/public-key',
+      },
+      admin: {
+        listJobs: 'GET /api/admin/jobs',
+        runJob: 'POST /api/admin/jobs/:name/run',
+        reconcileStorage: 'POST /api/admin/storage/reconcile',
+        unlockUser: 'POST /api/admin/users/:id/unlock',
       },
     },
     documentation: process.env.API_DOCS_URL || 'https://docs.crypticstorage.com',
@@ -82,5 +159,7 @@ router.use('/files', fileRoutes);
 router.use('/folders', folderRoutes);
 router.use('/shares', shareRoutes);
 router.use('/users', userRoutes);
+router.use('/trash', trashRoutes);
+router.use('/admin', adminRoutes);
 
 export default router;
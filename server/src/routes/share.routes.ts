@@ -3,17 +3,48 @@ import {
   createShare,
   getShare,
   downloadSharedFile,
+  getSharedFolder,
+  downloadSharedFolderFile,
   revokeShare,
   listShares,
+  getShareAccessLog,
+  unlockShare,
+  rotateShare,
+  updateShare,
+  revokeItemShares,
+  revokeExpiredShares,
+  extendShares,
 } from '../controllers/share.controller';
-import { authenticateToken } from '../middleware/auth.middleware';
+import {
+  createUserShare,
+  listSentUserShares,
+  listReceivedUserShares,
+  downloadReceivedUserShare,
+  replaceReceivedUserShareContent,
+  getReceivedUserShareFolder,
+  downloadReceivedUserShareFolderFile,
+  updateUserShare,
+  deleteUserShare,
+} from '../controllers/userShare.controller';
+import {
+  createFileRequest,
+  getFileRequest,
+  receiveFileRequestUpload,
+  uploadToFileRequest,
+} from '../controllers/fileRequest.controller';
+import { authenticateToken, requireVerifiedEmail } from '../middleware/auth.middleware';
 import {
   validateBody,
   validateQuery,
   validateParams,
   commonSchemas,
 } from '../middleware/validation.middleware';
-import { standardLimiter, fileLimiter } from '../middleware/rateLimit.middleware';
+import {
+  standardLimiter,
+  fileLimiter,
+  uploadLimiter,
+} from '../middleware/rateLimit.middleware';
+import { uploadSingleFile } from '../middleware/upload.middleware';
 import { z } from 'zod';
 
 const router = Router();
@@ -22,12 +53,67 @@ const router = Router();
  * Validation Schemas
  */
 
-const createShareSchema = z.object({
-  fileId: commonSchemas.fileId,
-  fileKeyEncrypted: z.string().min(1, 'Encrypted file key is required'),
+/**
+ * A share targets exactly one file or one folder
+ */
+const singleShareTarget = {
+  check: (data: { fileId?: string; folderId?: string }) =>
+    !!data.fileId !== !!data.folderId,
+  message: {
+    message: 'Exactly one of fileId or folderId is required',
+    path: ['fileId'],
+  },
+};
+
+/**
+ * The file key is wrapped with a key derived from the link secret (and the
+ * password, when set), and the password itself only reaches the server as a
+ * verifier derived from it with the given salt and KDF settings
+ */
+const createShareSchema = z
+  .object({
+    fileId: commonSchemas.fileId.optional(),
+    folderId: z.string().uuid('Invalid folder ID').optional(),
+    fileKeyEncrypted: z.string().min(1, 'Encrypted file key is required'),
+    filenameEncrypted: z.string().min(1, 'Encrypted filename is required'),
+    filenameIv: z.string().min(1, 'Filename IV is required'),
+    password: z.string().min(4).max(128).optional(),
+    passwordSalt: z.string().min(1).max(64).optional(),
+    kdf: commonSchemas.kdf.optional(),
+    expiresAt: z.string().datetime().optional(),
+    maxDownloads: z.number().int().min(1).max(1000).optional(),
+  })
+  .refine(singleShareTarget.check, singleShareTarget.message)
+  .refine((data) => !data.password === !data.passwordSalt && !data.password === !data.kdf, {
+    message: 'Password, salt and KDF settings must be provided together',
+    path: ['password'],
+  });
+
+const createFileRequestSchema = z.object({
+  folderId: z.string().uuid('Invalid folder ID'),
   password: z.string().min(4).max(128).optional(),
   expiresAt: z.string().datetime().optional(),
-  maxDownloads: z.number().int().min(1).max(1000).optional(),
+  maxFiles: z.number().int().min(1).max(1000).optional(),
+  maxFileSize: z.number().int().min(1).optional(),
+});
+
+/**
+ * Multipart fields sent with a file uploaded through a file request.
+ * The file key is wrapped with the folder owner's RSA public key.
+ */
+const fileRequestUploadSchema = z.object({
+  fileSize: z
+    .string()
+    .regex(/^\d+$/, 'File size must be a non-negative integer')
+    .transform((val) => parseInt(val, 10)),
+  fileHash: z.string().min(1, 'File hash is required'),
+  fileKeyEncrypted: z.string().min(1, 'Encrypted file key is required'),
+  filenameEncrypted: z.string().min(1, 'Encrypted filename is required'),
+  filenameIv: z.string().min(1, 'Filename IV is required'),
+  mimeType: z.string().max(255).optional(),
+  encryptionAlgorithm: z
+    .enum(['AES-256-GCM', 'AES-256-GCM-STREAM-V1'])
+    .optional(),
 });
 
 const shareTokenSchema = z.object({
@@ -38,13 +124,85 @@ const getShareQuerySchema = z.object({
   password: z.string().optional(),
 });
 
+const sharedFolderQuerySchema = z.object({
+  password: z.string().optional(),
+  folderId: z.string().uuid('Invalid folder ID').optional(),
+});
+
+const sharedFolderFileParamsSchema = z.object({
+  token: z.string().min(1, 'Share token is required'),
+  fileId: commonSchemas.fileId,
+});
+
 const shareIdSchema = z.object({
   id: z.string().uuid('Invalid share ID'),
 });
 
+const receivedFolderFileParamsSchema = z.object({
+  id: z.string().uuid('Invalid share ID'),
+  fileId: commonSchemas.fileId,
+});
+
+const receivedFolderQuerySchema = z.object({
+  folderId: z.string().uuid('Invalid folder ID').optional(),
+});
+
+/**
+ * Download links send the key wrapped for the new link secret; upload links
+ * carry no key. The password follows the same rules as on creation.
+ */
+const rotateShareSchema = z.object({
+  fileKeyEncrypted: z.string().min(1).optional(),
+  filenameEncrypted: z.string().min(1).optional(),
+  filenameIv: z.string().min(1).optional(),
+  password: z.string().min(4).max(128).optional(),
+  passwordSalt: z.string().min(1).max(64).optional(),
+  kdf: commonSchemas.kdf.optional(),
+});
+
+/**
+ * Download links change their password by rotating; only upload links take
+ * a new password here
+ */
+const updateShareSchema = z
+  .object({
+    password: z.string().min(4).max(128).nullable().optional(),
+    expiresAt: z.string().datetime().nullable().optional(),
+    maxDownloads: z.number().int().min(1).max(1000).nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Nothing to update',
+  });
+
+const revokeItemSharesSchema = z
+  .object({
+    fileId: commonSchemas.fileId.optional(),
+    folderId: z.string().uuid('Invalid folder ID').optional(),
+  })
+  .refine(singleShareTarget.check, singleShareTarget.message);
+
+const extendSharesSchema = z.object({
+  shareIds: z.array(z.string().uuid('Invalid share ID')).min(1).max(100),
+  days: z.number().int().min(1).max(365),
+});
+
+const shareAccessLogQuerySchema = z.object({
+  days: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : undefined))
+    .refine((val) => val === undefined || (val >= 1 && val <= 365), {
+      message: 'Days must be between 1 and 365',
+    }),
+});
+
 const listSharesSchema = z.object({
   fileId: z.string().uuid().optional(),
+  folderId: z.string().uuid().optional(),
+  type: z.enum(['download', 'upload']).optional(),
   active: z.enum(['true', 'false', 'all']).optional().default('true'),
+  status: z.enum(['active', 'expired', 'locked', 'revoked']).optional(),
   page: z
     .string()
     .optional()
@@ -60,23 +218,72 @@ const listSharesSchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
 });
 
+const userPermissionSchema = z.enum(['read', 'write']);
+
+const createUserShareSchema = z
+  .object({
+    fileId: commonSchemas.fileId.optional(),
+    folderId: z.string().uuid('Invalid folder ID').optional(),
+    recipientUsername: z.string().min(3).max(30),
+    fileKeyEncrypted: z.string().min(1, 'Encrypted file key is required'),
+    filenameEncrypted: z.string().min(1, 'Encrypted filename is required'),
+    filenameIv: z.string().min(1, 'Filename IV is required'),
+    permission: userPermissionSchema.optional().default('read'),
+  })
+  .refine(singleShareTarget.check, singleShareTarget.message);
+
+const listSentUserSharesSchema = z.object({
+  fileId: z.string().uuid().optional(),
+  folderId: z.string().uuid().optional(),
+});
+
+const updateUserShareSchema = z.object({
+  permission: userPermissionSchema,
+});
+
+const replaceSharedContentSchema = z.object({
+  fileSize: z
+    .string()
+    .regex(/^\d+$/, 'File size must be a non-negative integer')
+    .transform((val) => parseInt(val, 10)),
+  fileHash: z.string().min(1, 'File hash is required'),
+  encryptionAlgorithm: z
+    .enum(['AES-256-GCM', 'AES-256-GCM-STREAM-V1'])
+    .optional(),
+});
+
 /**
  * Authenticated Routes (User's own shares)
  */
 
 /**
  * @route   POST /api/shares
- * @desc    Create a share link for a file
+ * @desc    Create a share link for a file or folder
  * @access  Private
  */
 router.post(
   '/',
   authenticateToken,
+  requireVerifiedEmail,
   standardLimiter,
   validateBody(createShareSchema),
   createShare
 );
 
+/**
+ * @route   POST /api/shares/requests
+ * @desc    Create a file request (upload-only link) for a folder
+ * @access  Private
+ */
+router.post(
+  '/requests',
+  authenticateToken,
+  requireVerifiedEmail,
+  standardLimiter,
+  validateBody(createFileRequestSchema),
+  createFileRequest
+);
+
 /**
  * @route   GET /api/shares
  * @desc    List user's shares
@@ -90,6 +297,226 @@ router.get(
   listShares
 );
 
+/**
+ * @route   POST /api/shares/bulk/revoke
+ * @desc    Revoke every link of a file or folder
+ * @access  Private
+ */
+router.post(
+  '/bulk/revoke',
+  authenticateToken,
+  standardLimiter,
+  validateBody(revokeItemSharesSchema),
+  revokeItemShares
+);
+
+/**
+ * @route   POST /api/shares/bulk/revoke-expired
+ * @desc    Revoke every expired link
+ * @access  Private
+ */
+router.post(
+  '/bulk/revoke-expired',
+  authenticateToken,
+  standardLimiter,
+  revokeExpiredShares
+);
+
+/**
+ * @route   POST /api/shares/bulk/extend
+ * @desc    Extend the expiry of several links
+ * @access  Private
+ */
+router.post(
+  '/bulk/extend',
+  authenticateToken,
+  standardLimiter,
+  validateBody(extendSharesSchema),
+  extendShares
+);
+
+/**
+ * User-to-user Share Routes
+ */
+
+/**
+ * @route   POST /api/shares/users
+ * @desc    Share a file or folder with another user
+ * @access  Private
+ */
+router.post(
+  '/users',
+  authenticateToken,
+  requireVerifiedEmail,
+  standardLimiter,
+  validateBody(createUserShareSchema),
+  createUserShare
+);
+
+/**
+ * @route   GET /api/shares/users/sent
+ * @desc    List files and folders the user has shared with other users
+ * @access  Private
+ */
+router.get(
+  '/users/sent',
+  authenticateToken,
+  standardLimiter,
+  validateQuery(listSentUserSharesSchema),
+  listSentUserShares
+);
+
+/**
+ * @route   GET /api/shares/users/received
+ * @desc    List files and folders shared with the user
+ * @access  Private
+ */
+router.get(
+  '/users/received',
+  authenticateToken,
+  standardLimiter,
+  listReceivedUserShares
+);
+
+/**
+ * @route   GET /api/shares/users/received/:id/download
+ * @desc    Download a file shared with the user
+ * @access  Private
+ */
+router.get(
+  '/users/received/:id/download',
+  authenticateToken,
+  fileLimiter,
+  validateParams(shareIdSchema),
+  downloadReceivedUserShare
+);
+
+/**
+ * @route   GET /api/shares/users/received/:id/folder
+ * @desc    Browse a folder shared with the user
+ * @access  Private
+ */
+router.get(
+  '/users/received/:id/folder',
+  authenticateToken,
+  standardLimiter,
+  validateParams(shareIdSchema),
+  validateQuery(receivedFolderQuerySchema),
+  getReceivedUserShareFolder
+);
+
+/**
+ * @route   GET /api/shares/users/received/:id/files/:fileId/download
+ * @desc    Download a file inside a folder shared with the user
+ * @access  Private
+ */
+router.get(
+  '/users/received/:id/files/:fileId/download',
+  authenticateToken,
+  fileLimiter,
+  validateParams(receivedFolderFileParamsSchema),
+  downloadReceivedUserShareFolderFile
+);
+
+/**
+ * @route   PUT /api/shares/users/received/:id/content
+ * @desc    Replace the content of a file shared with write permission
+ * @access  Private
+ */
+router.put(
+  '/users/received/:id/content',
+  authenticateToken,
+  requireVerifiedEmail,
+  uploadLimiter,
+  validateParams(shareIdSchema),
+  uploadSingleFile,
+  validateBody(replaceSharedContentSchema),
+  replaceReceivedUserShareContent
+);
+
+/**
+ * @route   PATCH /api/shares/users/:id
+ * @desc    Change the permission of a user share
+ * @access  Private
+ */
+router.patch(
+  '/users/:id',
+  authenticateToken,
+  standardLimiter,
+  validateParams(shareIdSchema),
+  validateBody(updateUserShareSchema),
+  updateUserShare
+);
+
+/**
+ * @route   DELETE /api/shares/users/:id
+ * @desc    Revoke a user share, or remove it from the recipient's list
+ * @access  Private
+ */
+router.delete(
+  '/users/:id',
+  authenticateToken,
+  standardLimiter,
+  validateParams(shareIdSchema),
+  deleteUserShare
+);
+
+/**
+ * @route   POST /api/shares/:id/unlock
+ * @desc    Unlock a share link locked after too many wrong passwords
+ * @access  Private
+ */
+router.post(
+  '/:id/unlock',
+  authenticateToken,
+  standardLimiter,
+  validateParams(shareIdSchema),
+  unlockShare
+);
+
+/**
+ * @route   POST /api/shares/:id/rotate
+ * @desc    Give a share link a new address and password
+ * @access  Private
+ */
+router.post(
+  '/:id/rotate',
+  authenticateToken,
+  requireVerifiedEmail,
+  standardLimiter,
+  validateParams(shareIdSchema),
+  validateBody(rotateShareSchema),
+  rotateShare
+);
+
+/**
+ * @route   GET /api/shares/:id/access-log
+ * @desc    Get the access timeline of a share link
+ * @access  Private
+ */
+router.get(
+  '/:id/access-log',
+  authenticateToken,
+  standardLimiter,
+  validateParams(shareIdSchema),
+  validateQuery(shareAccessLogQuerySchema),
+  getShareAccessLog
+);
+
+/**
+ * @route   PATCH /api/shares/:id
+ * @desc    Change the expiry, download limit, status or password of a share link
+ * @access  Private
+ */
+router.patch(
+  '/:id',
+  authenticateToken,
+  standardLimiter,
+  validateParams(shareIdSchema),
+  validateBody(updateShareSchema),
+  updateShare
+);
+
 /**
  * @route   DELETE /api/shares/:id
  * @desc    Revoke a share link
@@ -133,4 +560,58 @@ router.get(
   downloadSharedFile
 );
 
+/**
+ * @route   GET /api/shares/public/:token/folder
+ * @desc    Browse a shared folder (public endpoint)
+ * @access  Public
+ */
+router.get(
+  '/public/:token/folder',
+  fileLimiter,
+  validateParams(shareTokenSchema),
+  validateQuery(sharedFolderQuerySchema),
+  getSharedFolder
+);
+
+/**
+ * @route   GET /api/shares/public/:token/files/:fileId/download
+ * @desc    Download a file from a shared folder (public endpoint)
+ * @access  Public
+ */
+router.get(
+  '/public/:token/files/:fileId/download',
+  fileLimiter,
+  validateParams(sharedFolderFileParamsSchema),
+  validateQuery(getShareQuerySchema),
+  downloadSharedFolderFile
+);
+
+/**
+ * @route   GET /api/shares/public/:token/request
+ * @desc    Get a file request and the key to encrypt uploads for (public endpoint)
+ * @access  Public
+ */
+router.get(
+  '/public/:token/request',
+  fileLimiter,
+  validateParams(shareTokenSchema),
+  validateQuery(getShareQuerySchema),
+  getFileRequest
+);
+
+/**
+ * @route   POST /api/shares/public/:token/request/files
+ * @desc    Upload a file through a file request (public endpoint)
+ * @access  Public
+ */
+router.post(
+  '/public/:token/request/files',
+  uploadLimiter,
+  validateParams(shareTokenSchema),
+  validateQuery(getShareQuerySchema),
+  receiveFileRequestUpload,
+  validateBody(fileRequestUploadSchema),
+  uploadToFileRequest
+);
+
 export default router;
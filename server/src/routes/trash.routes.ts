@@ -0,0 +1,121 @@
+import { Router } from 'express';
+import {
+  listTrash,
+  restoreTrashedFile,
+  restoreTrashedFolder,
+  deleteTrashedFile,
+  deleteTrashedFolder,
+  emptyTrash,
+  updateTrashSettings,
+} from '../controllers/trash.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import {
+  validateBody,
+  validateParams,
+} from '../middleware/validation.middleware';
+import { standardLimiter } from '../middleware/rateLimit.middleware';
+import { MIN_RETENTION_DAYS, MAX_RETENTION_DAYS } from '../services/trash.service';
+import { z } from 'zod';
+
+const router = Router();
+
+/**
+ * Validation Schemas
+ */
+
+const itemIdSchema = z.object({
+  id: z.string().uuid('Invalid ID'),
+});
+
+const trashSettingsSchema = z.object({
+  retentionDays: z
+    .number()
+    .int('Retention must be a whole number of days')
+    .min(MIN_RETENTION_DAYS, `Retention must be at least ${MIN_RETENTION_DAYS} day`)
+    .max(MAX_RETENTION_DAYS, `Retention must not exceed ${MAX_RETENTION_DAYS} days`),
+});
+
+/**
+ * Routes
+ */
+
+/**
+ * @route   GET /api/trash
+ * @desc    List deleted files and folders
+ * @access  Private
+ */
+router.get('/', authenticateToken, standardLimiter, listTrash);
+
+/**
+ * @route   DELETE /api/trash
+ * @desc    Permanently delete everything in the trash
+ * @access  Private
+ */
+router.delete('/', authenticateToken, standardLimiter, emptyTrash);
+
+/**
+ * @route   PUT /api/trash/settings
+ * @desc    Set how many days deleted items are kept before being purged
+ * @access  Private
+ */
+router.put(
+  '/settings',
+  authenticateToken,
+  standardLimiter,
+  validateBody(trashSettingsSchema),
+  updateTrashSettings
+);
+
+/**
+ * @route   POST /api/trash/files/:id/restore
+ * @desc    Restore a deleted file
+ * @access  Private
+ */
+router.post(
+  '/files/:id/restore',
+  authenticateToken,
+  standardLimiter,
+  validateParams(itemIdSchema),
+  restoreTrashedFile
+);
+
+/**
+ * @route   POST /api/trash/folders/:id/restore
+ * @desc    Restore a deleted folder with the contents deleted along with it
+ * @access  Private
+ */
+router.post(
+  '/folders/:id/restore',
+  authenticateToken,
+  standardLimiter,
+  validateParams(itemIdSchema),
+  restoreTrashedFolder
+);
+
+/**
+ * @route   DELETE /api/trash/files/:id
+ * @desc    Permanently delete a file from the trash
+ * @access  Private
+ */
+router.delete(
+  '/files/:id',
+  authenticateToken,
+  standardLimiter,
+  validateParams(itemIdSchema),
+  deleteTrashedFile
+);
+
+/**
+ * @route   DELETE /api/trash/folders/:id
+ * @desc    Permanently delete a folder and its contents from the trash
+ * @access  Private
+ */
+router.delete(
+  '/folders/:id',
+  authenticateToken,
+  standardLimiter,
+  validateParams(itemIdSchema),
+  deleteTrashedFolder
+);
+
+export default router;
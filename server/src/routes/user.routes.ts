@@ -4,11 +4,15 @@ import {
   updateProfile,
   getStorageStats,
   getActivity,
+  deleteAccount,
+  cancelAccountDeletion,
 } from '../controllers/user.controller';
+import { getPublicKey } from '../controllers/userShare.controller';
 import { authenticateToken } from '../middleware/auth.middleware';
 import {
   validateBody,
   validateQuery,
+  validateParams,
   commonSchemas,
 } from '../middleware/validation.middleware';
 import {
@@ -34,8 +38,6 @@ const updateProfileSchema = z.object({
     )
     .optional(),
   email: commonSchemas.email.optional(),
-  currentPassword: z.string().optional(),
-  newPassword: commonSchemas.password.optional(),
   publicKey: z.string().optional(),
   privateKeyEncrypted: z.string().optional(),
 });
@@ -55,6 +57,20 @@ const activityQuerySchema = z.object({
   endDate: z.string().datetime().optional(),
 });
 
+const usernameParamSchema = z.object({
+  username: z
+    .string()
+    .min(3, 'Username must be at least 3 characters')
+    .max(30, 'Username must not exceed 30 characters'),
+});
+
+const deleteAccountSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  // Required when two-factor authentication is enabled
+  totpCode: commonSchemas.totpCode.optional(),
+  backupCode: z.string().min(1).max(32).optional(),
+});
+
 /**
  * Routes
  */
@@ -84,6 +100,31 @@ router.put(
   updateProfile
 );
 
+/**
+ * @route   DELETE /api/users/profile
+ * @desc    Schedule the account for deletion after the grace period
+ * @access  Private
+ */
+router.delete(
+  '/profile',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  validateBody(deleteAccountSchema),
+  deleteAccount
+);
+
+/**
+ * @route   DELETE /api/users/profile/deletion
+ * @desc    Cancel a scheduled account deletion
+ * @access  Private
+ */
+router.delete(
+  '/profile/deletion',
+  authenticateToken,
+  sensitiveOperationLimiter,
+  cancelAccountDeletion
+);
+
 /**
  * @route   GET /api/users/storage/stats
  * @desc    Get storage statistics
@@ -109,4 +150,17 @@ router.get(
   getActivity
 );
 
+/**
+ * @route   GET /api/users/:username/public-key
+ * @desc    Get a user's public key for sharing files with them
+ * @access  Private
+ */
+router.get(
+  '/:username/public-key',
+  authenticateToken,
+  standardLimiter,
+  validateParams(usernameParamSchema),
+  getPublicKey
+);
+
 export default router;
@@ -0,0 +1,270 @@
+import { prisma } from '../config/database';
+import { deleteCache } from '../config/redis';
+import logger from '../utils/logger';
+import { AuthError, ConflictError, NotFoundError } from '../utils/errors';
+import * as auditService from './audit.service';
+import * as authService from './auth.service';
+import type { SecondFactorData } from './auth.service';
+import * as mailService from './mail.service';
+import * as refreshTokenService from './refreshToken.service';
+import * as storageService from './storage.service';
+import { UploadSessionStatus } from './upload.service';
+
+/**
+ * Account Deletion Service
+ * Deleting an account only schedules its erasure. Until the grace period ends
+ * the user can still sign in, export their files and cancel. Erasure then
+ * removes every stored object, the database records that cascade from the
+ * user, and strips the user's identity from audit log entries so the
+ * security history survives without pointing at a person.
+ */
+
+const DELETION_CONFIG = {
+  // Days between the request and the erasure
+  GRACE_PERIOD_DAYS: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14', 10),
+  // Accounts erased per maintenance run
+  BATCH_SIZE: 20,
+};
+
+/**
+ * Interface Definitions
+ */
+export interface AccountDeletionRequest extends SecondFactorData {
+  password: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ErasureResult {
+  erased: number;
+  failed: number;
+}
+
+/**
+ * Schedule the account for erasure after re-checking the password and,
+ * when enabled, a second factor
+ * @returns When the account will be erased
+ */
+export const requestAccountDeletion = async (
+  userId: string,
+  data: AccountDeletionRequest
+): Promise<Date> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      passwordHash: true,
+      totpSecretEncrypted: true,
+      deletionScheduledAt: true,
+    },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (user.deletionScheduledAt) {
+    throw new ConflictError('Account deletion is already scheduled');
+  }
+
+  if (!(await authService.verifyPassword(data.password, user.passwordHash))) {
+    await auditService.logSecurityEvent(
+      auditService.AuditAction.ACCOUNT_DELETE_REQUEST,
+      userId,
+      data.ipAddress,
+      data.userAgent,
+      'Invalid password'
+    );
+    throw new AuthError('Invalid password');
+  }
+
+  const methods = await authService.getSecondFactorMethods(user);
+  if (methods.length > 0) {
+    const verified = await authService.verifySecondFactor(
+      user,
+      data,
+      data.ipAddress,
+      data.userAgent
+    );
+
+    if (!verified) {
+      await auditService.logSecurityEvent(
+        auditService.AuditAction.ACCOUNT_DELETE_REQUEST,
+        userId,
+        data.ipAddress,
+        data.userAgent,
+        'Invalid second factor'
+      );
+      throw new AuthError('Two-factor verification failed', { methods });
+    }
+  }
+
+  const scheduledFor = new Date(
+    Date.now() + DELETION_CONFIG.GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionScheduledAt: scheduledFor },
+  });
+
+  await auditService.logAuthEvent(
+    auditService.AuditAction.ACCOUNT_DELETE_REQUEST,
+    userId,
+    true,
+    data.ipAddress,
+    data.userAgent
+  );
+
+  try {
+    await mailService.sendAccountDeletionScheduledEmail(user.email, scheduledFor);
+  } catch (error) {
+    logger.error('Failed to send account deletion email', {
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  logger.info('Account deletion scheduled', { userId, scheduledFor });
+
+  return scheduledFor;
+};
+
+/**
+ * Cancel a scheduled erasure during the grace period
+ */
+export const cancelAccountDeletion = async (
+  userId: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  const updated = await prisma.user.updateMany({
+    where: { id: userId, deletionScheduledAt: { not: null } },
+    data: { deletionScheduledAt: null },
+  });
+
+  if (updated.count === 0) {
+    throw new NotFoundError('No account deletion is scheduled');
+  }
+
+  await auditService.logAuthEvent(
+    auditService.AuditAction.ACCOUNT_DELETE_CANCEL,
+    userId,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  logger.info('Account deletion cancelled', { userId });
+};
+
+/**
+ * Erase an account and everything stored for it.
+ * Storage goes first: if it fails the account is left intact and the
+ * erasure is retried on the next run.
+ */
+export const eraseAccount = async (userId: string): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      email: true,
+      sessions: { select: { id: true } },
+      ownedShares: { select: { shareToken: true } },
+      uploadSessions: {
+        where: {
+          status: { in: [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING] },
+        },
+        select: { storagePath: true, uploadId: true },
+      },
+    },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  // Unfinished uploads hold parts in storage that no file record points to
+  for (const session of user.uploadSessions) {
+    await storageService.abortMultipartUpload(session.storagePath, session.uploadId);
+  }
+
+  await storageService.deleteAllUserFiles(userId);
+
+  // End every session together with its refresh token family
+  for (const session of user.sessions) {
+    await refreshTokenService.revokeTokenFamily(session.id);
+  }
+
+  for (const share of user.ownedShares) {
+    await deleteCache(`share:${share.shareToken}`);
+  }
+
+  await prisma.$transaction([
+    // Keep the security history, minus anything that identifies the user.
+    // Error messages are free text and may quote an email or file name.
+    prisma.auditLog.updateMany({
+      where: { userId },
+      data: { userId: null, ipAddress: null, userAgent: null, errorMessage: null },
+    }),
+    prisma.auditLog.updateMany({
+      where: { resourceId: userId },
+      data: { resourceId: null, errorMessage: null },
+    }),
+    // Files, folders, shares, sessions and keys cascade from the user
+    prisma.user.delete({ where: { id: userId } }),
+  ]);
+
+  await auditService.createAuditLog({
+    action: auditService.AuditAction.ACCOUNT_DELETE,
+    resourceType: auditService.ResourceType.USER,
+    success: true,
+  });
+
+  try {
+    await mailService.sendAccountDeletedEmail(user.email);
+  } catch (error) {
+    logger.error('Failed to send account deleted email', {
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  logger.info('Account erased', { userId });
+};
+
+/**
+ * Erase accounts whose grace period has ended
+ */
+export const processScheduledDeletions = async (): Promise<ErasureResult> => {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledAt: { lte: new Date() } },
+    select: { id: true },
+    orderBy: { deletionScheduledAt: 'asc' },
+    take: DELETION_CONFIG.BATCH_SIZE,
+  });
+
+  const result: ErasureResult = { erased: 0, failed: 0 };
+
+  for (const user of due) {
+    try {
+      await eraseAccount(user.id);
+      result.erased++;
+    } catch (error) {
+      result.failed++;
+      logger.error('Failed to erase account', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return result;
+};
+
+export default {
+  requestAccountDeletion,
+  cancelAccountDeletion,
+  eraseAccount,
+  processScheduledDeletions,
+};
@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { getCache, setCache, deleteCache } from '../config/redis';
+import logger from '../utils/logger';
+import { NotFoundError, RateLimitError, TokenError } from '../utils/errors';
+import { hashSecret } from '../utils/hash';
+import * as auditService from './audit.service';
+import * as mailService from './mail.service';
+import * as throttleService from './throttle.service';
+
+/**
+ * Account Lockout Service
+ * Throttles password guessing against a single account with the shared
+ * backoff from the throttle service. At the threshold the account is locked
+ * for a while and the owner receives a link to unlock it early. State is
+ * keyed by the hashed email so unknown addresses are throttled exactly like
+ * real ones and the responses do not reveal which accounts exist.
+ */
+
+const LOCKOUT_CONFIG = {
+  LOCKOUT_MINUTES: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '30', 10),
+};
+
+const LOGIN_THROTTLE: throttleService.ThrottleConfig = {
+  keyPrefix: 'login',
+  freeAttempts: 3,
+  baseDelaySeconds: 2,
+  maxDelaySeconds: 5 * 60,
+  lockoutThreshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10', 10),
+  failureWindowSeconds: 60 * 60,
+};
+
+/**
+ * Interface Definitions
+ */
+export type LoginThrottleReason = 'LOGIN_DELAYED' | 'ACCOUNT_LOCKED';
+
+export interface LoginThrottle extends throttleService.Throttle {
+  reason: LoginThrottleReason;
+}
+
+interface UnlockTokenState {
+  email: string;
+  userId: string;
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const getAccountKey = (email: string): string => hashSecret(normalizeEmail(email));
+const getUnlockTokenKey = (token: string): string => `login:unlock:${hashSecret(token)}`;
+
+/**
+ * Delay imposed after the given number of consecutive failures
+ */
+export const getDelaySeconds = (failures: number): number =>
+  throttleService.getDelaySeconds(LOGIN_THROTTLE, failures);
+
+/**
+ * Build the error returned while an account is throttled
+ */
+export const toThrottleError = (
+  throttle: LoginThrottle,
+  message: string = throttle.reason === 'ACCOUNT_LOCKED'
+    ? 'Account temporarily locked after too many failed sign-in attempts'
+    : 'Too many failed sign-in attempts. Please wait before trying again.'
+): RateLimitError =>
+  new RateLimitError(message, throttle.retryAfter, {
+    reason: throttle.reason,
+    retryAt: throttle.retryAt,
+  });
+
+/**
+ * Get the active lock or delay for an account, if any
+ */
+export const getLoginThrottle = async (email: string): Promise<LoginThrottle | null> => {
+  const lock = await throttleService.getLock(LOGIN_THROTTLE, getAccountKey(email));
+  if (lock) {
+    return { reason: 'ACCOUNT_LOCKED', ...lock };
+  }
+
+  const delay = await throttleService.getDelay(LOGIN_THROTTLE, getAccountKey(email));
+  if (delay) {
+    return { reason: 'LOGIN_DELAYED', ...delay };
+  }
+
+  return null;
+};
+
+/**
+ * Reserve a sign-in attempt, rejecting it while the account is locked or
+ * delayed. Call before checking the password so throttled attempts test
+ * nothing. The attempt counts as failed until it is settled with
+ * recordFailedLogin(), releaseLoginAttempt() or clearFailedLogins().
+ */
+export const reserveLoginAttempt = async (email: string): Promise<void> => {
+  const lock = await throttleService.getLock(LOGIN_THROTTLE, getAccountKey(email));
+  if (lock) {
+    throw toThrottleError({ reason: 'ACCOUNT_LOCKED', ...lock });
+  }
+
+  const delay = await throttleService.reserveAttempt(LOGIN_THROTTLE, getAccountKey(email));
+  if (delay) {
+    throw toThrottleError({ reason: 'LOGIN_DELAYED', ...delay });
+  }
+};
+
+/**
+ * Lock an account and email its owner a link to unlock it early
+ */
+const lockAccount = async (
+  email: string,
+  userId: string | null,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<LoginThrottle> => {
+  const lockSeconds = LOCKOUT_CONFIG.LOCKOUT_MINUTES * 60;
+  const lock = await throttleService.lock(LOGIN_THROTTLE, getAccountKey(email), lockSeconds);
+
+  if (userId) {
+    await auditService.logSecurityEvent(
+      auditService.AuditAction.ACCOUNT_LOCK,
+      userId,
+      ipAddress,
+      userAgent,
+      `Account locked for ${LOCKOUT_CONFIG.LOCKOUT_MINUTES} minutes after repeated failed sign-ins`
+    );
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    await setCache(
+      getUnlockTokenKey(token),
+      { email: normalizeEmail(email), userId } as UnlockTokenState,
+      lockSeconds
+    );
+
+    try {
+      await mailService.sendAccountLockedEmail(email, token, new Date(lock.retryAt));
+    } catch (error) {
+      // The lock expires on its own; an admin can also lift it
+      logger.error('Failed to send account locked email', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  logger.warn('Account locked after failed sign-ins', { userId });
+
+  return { reason: 'ACCOUNT_LOCKED', ...lock };
+};
+
+/**
+ * Record that a reserved sign-in attempt failed
+ * @param userId - Account owner, or null when no account has this email
+ * @returns The delay or lock now in effect, or null while attempts are still free
+ */
+export const recordFailedLogin = async (
+  email: string,
+  userId: string | null,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<LoginThrottle | null> => {
+  const { locked, throttle } = await throttleService.recordReservedFailure(
+    LOGIN_THROTTLE,
+    getAccountKey(email)
+  );
+
+  if (locked) {
+    return lockAccount(email, userId, ipAddress, userAgent);
+  }
+
+  return throttle && { reason: 'LOGIN_DELAYED', ...throttle };
+};
+
+/**
+ * Stop counting a reserved attempt whose password was correct but which
+ * still awaits its second factor
+ */
+export const releaseLoginAttempt = (email: string): Promise<void> =>
+  throttleService.releaseAttempt(LOGIN_THROTTLE, getAccountKey(email));
+
+/**
+ * Forget failed attempts after a successful sign-in
+ */
+export const clearFailedLogins = (email: string): Promise<void> =>
+  throttleService.clearFailures(LOGIN_THROTTLE, getAccountKey(email));
+
+/**
+ * Lift a lock and forget all failed attempts
+ */
+const clearLock = (email: string): Promise<void> =>
+  throttleService.clearLock(LOGIN_THROTTLE, getAccountKey(email));
+
+/**
+ * Unlock an account with the token from the lockout email
+ */
+export const unlockWithToken = async (
+  token: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  const tokenKey = getUnlockTokenKey(token);
+  const state = await getCache<UnlockTokenState>(tokenKey);
+
+  if (!state) {
+    throw new TokenError('Invalid or expired unlock link');
+  }
+
+  await deleteCache(tokenKey);
+  await clearLock(state.email);
+
+  await auditService.logAuthEvent(
+    auditService.AuditAction.ACCOUNT_UNLOCK,
+    state.userId,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  logger.info('Account unlocked from email link', { userId: state.userId });
+};
+
+/**
+ * Unlock an account on behalf of its owner (admin action)
+ */
+export const unlockAccount = async (
+  userId: string,
+  adminId: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  await clearLock(user.email);
+
+  // Recorded against the administrator, with the unlocked account as resource
+  await auditService.createAuditLog({
+    userId: adminId,
+    action: auditService.AuditAction.ACCOUNT_UNLOCK,
+    resourceType: auditService.ResourceType.USER,
+    resourceId: userId,
+    ipAddress,
+    userAgent,
+    success: true,
+  });
+
+  logger.info('Account unlocked by administrator', { userId, adminId });
+};
+
+export default {
+  getDelaySeconds,
+  toThrottleError,
+  getLoginThrottle,
+  reserveLoginAttempt,
+  recordFailedLogin,
+  releaseLoginAttempt,
+  clearFailedLogins,
+  unlockWithToken,
+  unlockAccount,
+};
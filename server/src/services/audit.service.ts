@@ -44,45 +44,77 @@ export enum AuditAction {
   USER_LOGOUT = 'user.logout',
   USER_LOGIN_FAILED = 'user.login_failed',
   PASSWORD_CHANGE = 'user.password_change',
+  PASSWORD_CHANGE_ROLLBACK = 'user.password_change_rollback',
+  KDF_UPGRADE = 'user.kdf_upgrade',
+  PASSWORD_RESET_REQUEST = 'user.password_reset_request',
+  PASSWORD_RESET = 'user.password_reset',
+  RECOVERY_KEY_SET = 'user.recovery_key_set',
   TOTP_ENABLE = 'user.totp_enable',
   TOTP_DISABLE = 'user.totp_disable',
+  BACKUP_CODE_USED = 'user.backup_code_used',
+  BACKUP_CODES_REGENERATE = 'user.backup_codes_regenerate',
+  WEBAUTHN_REGISTER = 'user.webauthn_register',
+  WEBAUTHN_REMOVE = 'user.webauthn_remove',
+  WEBAUTHN_AUTH_FAILED = 'user.webauthn_auth_failed',
   SESSION_CREATE = 'session.create',
   SESSION_DELETE = 'session.delete',
+  SESSION_REVOKE = 'session.revoke',
+  SESSION_REVOKE_OTHERS = 'session.revoke_others',
+  REFRESH_TOKEN_REUSE = 'session.refresh_token_reuse',
   SESSION_VALIDATE_FAILED = 'session.validate_failed',
 
   // File actions
   FILE_UPLOAD = 'file.upload',
+  FILE_UPLOAD_ABORT = 'file.upload_abort',
   FILE_DOWNLOAD = 'file.download',
   FILE_DELETE = 'file.delete',
+  FILE_RESTORE = 'file.restore',
   FILE_UPDATE = 'file.update',
   FILE_MOVE = 'file.move',
   FILE_RENAME = 'file.rename',
   FILE_VERSION_CREATE = 'file.version_create',
   FILE_VERSION_RESTORE = 'file.version_restore',
+  FILE_VERSION_DELETE = 'file.version_delete',
 
   // Folder actions
   FOLDER_CREATE = 'folder.create',
   FOLDER_DELETE = 'folder.delete',
+  FOLDER_RESTORE = 'folder.restore',
   FOLDER_UPDATE = 'folder.update',
   FOLDER_MOVE = 'folder.move',
   FOLDER_RENAME = 'folder.rename',
 
+  // Trash actions
+  TRASH_EMPTY = 'trash.empty',
+  TRASH_PURGE = 'trash.purge',
+
   // Share actions
   SHARE_CREATE = 'share.create',
+  SHARE_UPDATE = 'share.update',
+  SHARE_REVOKE = 'share.revoke',
   SHARE_DELETE = 'share.delete',
   SHARE_ACCESS = 'share.access',
   SHARE_DOWNLOAD = 'share.download',
+  SHARE_UPLOAD = 'share.upload',
   SHARE_ACCESS_DENIED = 'share.access_denied',
+  SHARE_LOCK = 'share.lock',
+  SHARE_UNLOCK = 'share.unlock',
+  SHARE_ROTATE = 'share.rotate',
 
   // User share actions
   USER_SHARE_CREATE = 'user_share.create',
+  USER_SHARE_UPDATE = 'user_share.update',
   USER_SHARE_DELETE = 'user_share.delete',
   USER_SHARE_ACCESS = 'user_share.access',
 
   // Account actions
   ACCOUNT_UPDATE = 'account.update',
   ACCOUNT_DELETE = 'account.delete',
+  ACCOUNT_DELETE_REQUEST = 'account.delete_request',
+  ACCOUNT_DELETE_CANCEL = 'account.delete_cancel',
   EMAIL_VERIFY = 'account.email_verify',
+  ACCOUNT_LOCK = 'account.lock',
+  ACCOUNT_UNLOCK = 'account.unlock',
 
   // Security events
   SECURITY_RATE_LIMIT = 'security.rate_limit',
@@ -234,6 +266,30 @@ export const logShareOperation = async (
   });
 };
 
+/**
+ * Log user-to-user share operation
+ */
+export const logUserShareOperation = async (
+  action: AuditAction,
+  userId: string | undefined,
+  userShareId: string,
+  success: boolean = true,
+  ipAddress?: string,
+  userAgent?: string,
+  errorMessage?: string
+): Promise<void> => {
+  await createAuditLog({
+    userId,
+    action,
+    resourceType: ResourceType.USER_SHARE,
+    resourceId: userShareId,
+    ipAddress,
+    userAgent,
+    success,
+    errorMessage,
+  });
+};
+
 /**
  * Log security event
  */
@@ -586,6 +642,7 @@ export default {
   logFileOperation,
   logFolderOperation,
   logShareOperation,
+  logUserShareOperation,
   logSecurityEvent,
   getAuditLogs,
   getUserAuditLogs,
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import speakeasy from 'speakeasy';
@@ -11,8 +12,14 @@ import {
   ValidationError,
   NotFoundError,
   ConflictError,
+  ForbiddenError,
   TokenError,
 } from '../utils/errors';
+import * as auditService from './audit.service';
+import * as webauthnService from './webauthn.service';
+import type { AuthenticationResponse } from './webauthn.service';
+import * as kdfService from './kdf.service';
+import type { KdfParams } from './kdf.service';
 
 /**
  * Authentication Service
@@ -28,8 +35,16 @@ const SESSION_EXPIRES_IN = 7 * 24 * 60 * 60; // 7 days in seconds
 const TOTP_WINDOW = 2; // Allow 2 time windows (±60 seconds)
 const TOTP_STEP = 30; // 30 seconds per step
 
+// Backup Code Configuration
+const BACKUP_CODE_COUNT = 8;
+const BACKUP_CODE_LENGTH = 10; // Characters, shown as two groups of five
+const BACKUP_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I
+const BACKUP_CODE_SALT_ROUNDS = 10;
+
 // Password Configuration
 const SALT_ROUNDS = 12;
+// How long the credentials from before a password change can be restored
+const PASSWORD_ROLLBACK_HOURS = parseInt(process.env.PASSWORD_ROLLBACK_HOURS || '24', 10);
 
 /**
  * Interface Definitions
@@ -42,12 +57,15 @@ export interface RegisterData {
   publicKey: string;
   privateKeyEncrypted: string;
   salt: string;
+  kdf?: KdfParams;
 }
 
 export interface LoginData {
   emailOrUsername: string;
   password: string;
   totpToken?: string;
+  backupCode?: string;
+  webauthnResponse?: AuthenticationResponse;
   ipAddress?: string;
   userAgent?: string;
 }
@@ -59,12 +77,50 @@ export interface SessionData {
   expiresAt: Date;
 }
 
+export interface ChangePasswordData {
+  currentPassword: string;
+  newPassword: string;
+  // KDF salt and keys re-wrapped client-side under the new password
+  salt: string;
+  kdf?: KdfParams;
+  masterKeyEncrypted: string;
+  privateKeyEncrypted: string;
+  currentSessionId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface RestoredCredentials {
+  salt: string;
+  kdf: KdfParams;
+  masterKeyEncrypted: string;
+  privateKeyEncrypted: string;
+}
+
+export interface KdfUpgradeData {
+  password: string;
+  // Master key re-wrapped client-side under the stronger settings
+  salt: string;
+  kdf: KdfParams;
+  masterKeyEncrypted: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
 export interface TOTPSetupData {
   secret: string;
   qrCode: string;
   backupCodes: string[];
 }
 
+export interface SecondFactorData {
+  totpToken?: string;
+  backupCode?: string;
+  webauthnResponse?: AuthenticationResponse;
+}
+
+export type SecondFactorMethod = 'totp' | 'webauthn' | 'backup_code';
+
 export interface VerifyTOTPData {
   userId: string;
   totpToken: string;
@@ -208,6 +264,7 @@ export const register = async (data: RegisterData): Promise<SessionData> => {
         username: data.username,
         passwordHash,
         salt: data.salt,
+        ...kdfService.toKdfColumns(data.kdf),
         masterKeyEncrypted: data.masterKeyEncrypted,
         publicKey: data.publicKey,
         privateKeyEncrypted: data.privateKeyEncrypted,
@@ -265,20 +322,18 @@ export const login = async (data: LoginData): Promise<SessionData> => {
       throw new AuthError('Invalid credentials');
     }
 
-    // Check if TOTP is enabled
-    if (user.totpSecretEncrypted) {
-      if (!data.totpToken) {
+    // Check if a second factor is enabled
+    const methods = await getSecondFactorMethods(user);
+    if (methods.length > 0) {
+      if (!data.totpToken && !data.backupCode && !data.webauthnResponse) {
         throw new AuthError('Two-factor authentication code required', {
           requiresTOTP: true,
+          methods,
         });
       }
 
-      // Verify TOTP token
-      const isTOTPValid = await verifyTOTP({
-        userId: user.id,
-        totpToken: data.totpToken,
-        totpSecretEncrypted: user.totpSecretEncrypted,
-      });
+      // Verify TOTP token, security key or backup code
+      const isTOTPValid = await verifySecondFactor(user, data, data.ipAddress, data.userAgent);
 
       if (!isTOTPValid) {
         logger.warn('Login failed: Invalid TOTP token', { userId: user.id });
@@ -494,21 +549,29 @@ export const deleteSession = async (sessionId: string): Promise<void> => {
 
 /**
  * Delete all sessions for a user (logout from all devices)
+ * @param exceptSessionId - Session to keep, usually the caller's own
+ * @returns Number of sessions deleted
  */
-export const deleteAllUserSessions = async (userId: string): Promise<void> => {
+export const deleteAllUserSessions = async (
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> => {
   try {
-    logger.info('Deleting all sessions for user', { userId });
+    logger.info('Deleting all sessions for user', { userId, exceptSessionId });
+
+    const where = {
+      userId,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    };
 
     // Get all sessions
     const sessions = await prisma.session.findMany({
-      where: { userId },
+      where,
       select: { id: true },
     });
 
     // Delete from database
-    await prisma.session.deleteMany({
-      where: { userId },
-    });
+    await prisma.session.deleteMany({ where });
 
     // Delete from cache
     for (const session of sessions) {
@@ -516,6 +579,8 @@ export const deleteAllUserSessions = async (userId: string): Promise<void> => {
     }
 
     logger.info('All user sessions deleted', { userId, count: sessions.length });
+
+    return sessions.length;
   } catch (error) {
     logger.error('Failed to delete all user sessions', {
       userId,
@@ -525,6 +590,41 @@ export const deleteAllUserSessions = async (userId: string): Promise<void> => {
   }
 };
 
+/**
+ * Delete expired sessions
+ * Should be run periodically as a cron job
+ */
+export const cleanupExpiredSessions = async (): Promise<number> => {
+  try {
+    logger.info('Cleaning up expired sessions');
+
+    const sessions = await prisma.session.findMany({
+      where: { expiresAt: { lt: new Date() } },
+      select: { id: true },
+    });
+
+    const ids = sessions.map((s) => s.id);
+
+    await prisma.session.deleteMany({
+      where: { id: { in: ids } },
+    });
+
+    // Delete from cache
+    for (const id of ids) {
+      await deleteCache(`session:${id}`);
+    }
+
+    logger.info('Expired sessions cleaned up', { count: ids.length });
+
+    return ids.length;
+  } catch (error) {
+    logger.error('Failed to cleanup expired sessions', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new AuthError('Failed to cleanup expired sessions');
+  }
+};
+
 /**
  * Setup TOTP (2FA)
  */
@@ -552,9 +652,7 @@ export const setupTOTP = async (userId: string): Promise<TOTPSetupData> => {
     const qrCode = await qrcode.toDataURL(secret.otpauth_url!);
 
     // Generate backup codes
-    const backupCodes = Array.from({ length: 8 }, () =>
-      uuidv4().replace(/-/g, '').substring(0, 8).toUpperCase()
-    );
+    const backupCodes = await generateBackupCodes(userId);
 
     logger.info('TOTP setup completed', { userId });
 
@@ -640,6 +738,7 @@ export const disableTOTP = async (userId: string, password: string): Promise<voi
       where: { id: userId },
       data: { totpSecretEncrypted: null },
     });
+    await removeOrphanedBackupCodes(userId);
 
     logger.info('TOTP disabled successfully', { userId });
   } catch (error) {
@@ -654,6 +753,236 @@ export const disableTOTP = async (userId: string, password: string): Promise<voi
   }
 };
 
+/**
+ * Normalize a backup code as typed by the user (case, spaces and dashes ignored)
+ */
+const normalizeBackupCode = (code: string): string =>
+  code.toUpperCase().replace(/[\s-]/g, '');
+
+/**
+ * Generate a fresh set of backup codes, replacing any previous set.
+ * Only hashes are stored; the plaintext codes are returned once.
+ */
+export const generateBackupCodes = async (userId: string): Promise<string[]> => {
+  try {
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const chars = Array.from(
+        crypto.randomBytes(BACKUP_CODE_LENGTH),
+        (byte) => BACKUP_CODE_ALPHABET[byte % BACKUP_CODE_ALPHABET.length]
+      ).join('');
+      return `${chars.slice(0, BACKUP_CODE_LENGTH / 2)}-${chars.slice(BACKUP_CODE_LENGTH / 2)}`;
+    });
+
+    const codeHashes = await Promise.all(
+      codes.map((code) => bcrypt.hash(normalizeBackupCode(code), BACKUP_CODE_SALT_ROUNDS))
+    );
+
+    await prisma.$transaction([
+      prisma.backupCode.deleteMany({ where: { userId } }),
+      prisma.backupCode.createMany({
+        data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+
+    logger.info('Backup codes generated', { userId });
+
+    return codes;
+  } catch (error) {
+    logger.error('Failed to generate backup codes', {
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new AuthError('Failed to generate backup codes');
+  }
+};
+
+/**
+ * Use a backup code in place of a TOTP code. Each code works once.
+ * @returns Whether the code was valid and unused
+ */
+export const consumeBackupCode = async (
+  userId: string,
+  code: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<boolean> => {
+  try {
+    const normalized = normalizeBackupCode(code);
+
+    if (normalized.length !== BACKUP_CODE_LENGTH) {
+      return false;
+    }
+
+    const unusedCodes = await prisma.backupCode.findMany({
+      where: { userId, usedAt: null },
+    });
+
+    for (const backupCode of unusedCodes) {
+      if (!(await bcrypt.compare(normalized, backupCode.codeHash))) {
+        continue;
+      }
+
+      // Claim the code; a concurrent request with the same code gets count 0
+      const { count } = await prisma.backupCode.updateMany({
+        where: { id: backupCode.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      const remaining = unusedCodes.length - 1;
+
+      await auditService.logSecurityEvent(
+        auditService.AuditAction.BACKUP_CODE_USED,
+        userId,
+        ipAddress,
+        userAgent,
+        `Backup code used, ${remaining} remaining`
+      );
+
+      logger.info('Backup code used', { userId, remaining });
+
+      return true;
+    }
+
+    logger.warn('Invalid backup code', { userId });
+
+    return false;
+  } catch (error) {
+    logger.error('Failed to verify backup code', {
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return false;
+  }
+};
+
+/**
+ * Count the unused backup codes of a user
+ */
+export const getBackupCodeCount = async (userId: string): Promise<number> => {
+  return prisma.backupCode.count({
+    where: { userId, usedAt: null },
+  });
+};
+
+/**
+ * Replace the backup codes after re-checking the password
+ */
+export const regenerateBackupCodes = async (
+  userId: string,
+  password: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<string[]> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { passwordHash: true, totpSecretEncrypted: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    throw new AuthError('Invalid password');
+  }
+
+  const methods = await getSecondFactorMethods({ id: userId, ...user });
+  if (!methods.some((method) => method !== 'backup_code')) {
+    throw new ValidationError('Two-factor authentication is not enabled');
+  }
+
+  const codes = await generateBackupCodes(userId);
+
+  await auditService.logAuthEvent(
+    auditService.AuditAction.BACKUP_CODES_REGENERATE,
+    userId,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  return codes;
+};
+
+/**
+ * Delete backup codes once no other second factor is left to back up
+ */
+export const removeOrphanedBackupCodes = async (userId: string): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecretEncrypted: true },
+  });
+
+  if (user?.totpSecretEncrypted || (await webauthnService.hasCredentials(userId))) {
+    return;
+  }
+
+  await prisma.backupCode.deleteMany({ where: { userId } });
+};
+
+/**
+ * List the second factors a user can sign in with
+ */
+export const getSecondFactorMethods = async (user: {
+  id: string;
+  totpSecretEncrypted: string | null;
+}): Promise<SecondFactorMethod[]> => {
+  const methods: SecondFactorMethod[] = [];
+
+  if (user.totpSecretEncrypted) {
+    methods.push('totp');
+  }
+  if (await webauthnService.hasCredentials(user.id)) {
+    methods.push('webauthn');
+  }
+  if (methods.length > 0 && (await getBackupCodeCount(user.id)) > 0) {
+    methods.push('backup_code');
+  }
+
+  return methods;
+};
+
+/**
+ * Verify the second step of a sign-in: a TOTP code, a security key
+ * assertion or a backup code
+ */
+export const verifySecondFactor = async (
+  user: { id: string; totpSecretEncrypted: string | null },
+  data: SecondFactorData,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<boolean> => {
+  if (data.webauthnResponse) {
+    return webauthnService.verifyAuthentication(
+      user.id,
+      data.webauthnResponse,
+      ipAddress,
+      userAgent
+    );
+  }
+
+  if (data.totpToken) {
+    return (
+      !!user.totpSecretEncrypted &&
+      verifyTOTP({
+        userId: user.id,
+        totpToken: data.totpToken,
+        totpSecretEncrypted: user.totpSecretEncrypted,
+      })
+    );
+  }
+
+  if (data.backupCode) {
+    return consumeBackupCode(user.id, data.backupCode, ipAddress, userAgent);
+  }
+
+  return false;
+};
+
 /**
  * Verify TOTP token
  * Note: This expects the totpSecretEncrypted to be decrypted by the client
@@ -766,13 +1095,16 @@ export const getUserSessions = async (userId: string) => {
 };
 
 /**
- * Change user password
+ * Change the password together with the key material wrapped under it.
+ * The new hash, KDF salt and re-wrapped keys are written in one transaction,
+ * and the previous values are kept for PASSWORD_ROLLBACK_HOURS so a change
+ * that left the keys unusable can be undone.
+ * @returns When the rollback window closes
  */
 export const changePassword = async (
   userId: string,
-  currentPassword: string,
-  newPassword: string
-): Promise<void> => {
+  data: ChangePasswordData
+): Promise<{ rollbackUntil: Date }> => {
   try {
     logger.info('Changing password for user', { userId });
 
@@ -786,36 +1118,90 @@ export const changePassword = async (
     }
 
     // Verify current password
-    const isValidPassword = await verifyPassword(currentPassword, user.passwordHash);
+    const isValidPassword = await verifyPassword(data.currentPassword, user.passwordHash);
 
     if (!isValidPassword) {
+      await auditService.logSecurityEvent(
+        auditService.AuditAction.PASSWORD_CHANGE,
+        userId,
+        data.ipAddress,
+        data.userAgent,
+        'Current password is incorrect'
+      );
       throw new AuthError('Current password is incorrect');
     }
 
     // Validate new password
-    if (newPassword.length < 8) {
+    if (data.newPassword.length < 8) {
       throw new ValidationError('New password must be at least 8 characters long');
     }
 
+    if (!data.salt || !data.masterKeyEncrypted || !data.privateKeyEncrypted) {
+      throw new ValidationError('New salt and re-wrapped keys are required');
+    }
+
     // Hash new password
-    const newPasswordHash = await hashPassword(newPassword);
+    const newPasswordHash = await hashPassword(data.newPassword);
+    const rollbackUntil = new Date(Date.now() + PASSWORD_ROLLBACK_HOURS * 60 * 60 * 1000);
+
+    await prisma.$transaction(async (tx) => {
+      // Only apply on top of the credentials that were verified above
+      const updated = await tx.user.updateMany({
+        where: { id: userId, passwordHash: user.passwordHash },
+        data: {
+          passwordHash: newPasswordHash,
+          salt: data.salt,
+          ...kdfService.toKdfColumns(data.kdf),
+          masterKeyEncrypted: data.masterKeyEncrypted,
+          privateKeyEncrypted: data.privateKeyEncrypted,
+        },
+      });
 
-    // Update password
-    await prisma.user.update({
-      where: { id: userId },
-      data: { passwordHash: newPasswordHash },
+      if (updated.count === 0) {
+        throw new ConflictError('Password was changed by another request');
+      }
+
+      const previous = {
+        passwordHash: user.passwordHash,
+        salt: user.salt,
+        kdfAlgorithm: user.kdfAlgorithm,
+        kdfIterations: user.kdfIterations,
+        kdfMemoryKib: user.kdfMemoryKib,
+        kdfParallelism: user.kdfParallelism,
+        masterKeyEncrypted: user.masterKeyEncrypted,
+        privateKeyEncrypted: user.privateKeyEncrypted,
+        createdAt: new Date(),
+        expiresAt: rollbackUntil,
+      };
+
+      await tx.credentialBackup.upsert({
+        where: { userId },
+        create: { userId, ...previous },
+        update: previous,
+      });
     });
 
     // Delete all sessions except current one to force re-login
     // This is a security measure when password changes
-    await deleteAllUserSessions(userId);
+    await deleteAllUserSessions(userId, data.currentSessionId);
+
+    await auditService.logAuthEvent(
+      auditService.AuditAction.PASSWORD_CHANGE,
+      userId,
+      true,
+      data.ipAddress,
+      data.userAgent
+    );
 
     logger.info('Password changed successfully', { userId });
+
+    return { rollbackUntil };
   } catch (error) {
     if (
       error instanceof AuthError ||
       error instanceof NotFoundError ||
-      error instanceof ValidationError
+      error instanceof ValidationError ||
+      error instanceof ConflictError
     ) {
       throw error;
     }
@@ -827,6 +1213,176 @@ export const changePassword = async (
   }
 };
 
+/**
+ * Undo the last password change within the rollback window. Requires both
+ * the current and the previous password, from a session that already existed
+ * when the password was changed: someone who only knows the old password,
+ * which is what the change was meant to lock out, cannot revert it.
+ * @returns The restored salt and wrapped keys
+ */
+export const rollbackPasswordChange = async (
+  userId: string,
+  previousPassword: string,
+  currentPassword: string,
+  currentSessionId?: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<RestoredCredentials> => {
+  const [backup, user, session] = await Promise.all([
+    prisma.credentialBackup.findUnique({ where: { userId } }),
+    prisma.user.findUnique({ where: { id: userId }, select: { passwordHash: true } }),
+    currentSessionId
+      ? prisma.session.findUnique({ where: { id: currentSessionId } })
+      : Promise.resolve(null),
+  ]);
+
+  if (!backup || backup.expiresAt < new Date() || !user) {
+    throw new NotFoundError('No password change to undo');
+  }
+
+  if (!session || session.userId !== userId || session.createdAt > backup.createdAt) {
+    await auditService.logSecurityEvent(
+      auditService.AuditAction.PASSWORD_CHANGE_ROLLBACK,
+      userId,
+      ipAddress,
+      userAgent,
+      'Session was created after the password change'
+    );
+    throw new ForbiddenError('The change can only be undone from the device that made it');
+  }
+
+  if (!(await verifyPassword(currentPassword, user.passwordHash))) {
+    await auditService.logSecurityEvent(
+      auditService.AuditAction.PASSWORD_CHANGE_ROLLBACK,
+      userId,
+      ipAddress,
+      userAgent,
+      'Current password is incorrect'
+    );
+    throw new AuthError('Current password is incorrect');
+  }
+
+  const isValidPassword = await verifyPassword(previousPassword, backup.passwordHash);
+
+  if (!isValidPassword) {
+    await auditService.logSecurityEvent(
+      auditService.AuditAction.PASSWORD_CHANGE_ROLLBACK,
+      userId,
+      ipAddress,
+      userAgent,
+      'Previous password is incorrect'
+    );
+    throw new AuthError('Previous password is incorrect');
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        passwordHash: backup.passwordHash,
+        salt: backup.salt,
+        kdfAlgorithm: backup.kdfAlgorithm,
+        kdfIterations: backup.kdfIterations,
+        kdfMemoryKib: backup.kdfMemoryKib,
+        kdfParallelism: backup.kdfParallelism,
+        masterKeyEncrypted: backup.masterKeyEncrypted,
+        privateKeyEncrypted: backup.privateKeyEncrypted,
+      },
+    }),
+    prisma.credentialBackup.delete({ where: { userId } }),
+  ]);
+
+  await deleteAllUserSessions(userId, currentSessionId);
+
+  await auditService.logAuthEvent(
+    auditService.AuditAction.PASSWORD_CHANGE_ROLLBACK,
+    userId,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  logger.info('Password change rolled back', { userId });
+
+  return {
+    salt: backup.salt,
+    kdf: kdfService.fromKdfColumns(backup),
+    masterKeyEncrypted: backup.masterKeyEncrypted,
+    privateKeyEncrypted: backup.privateKeyEncrypted,
+  };
+};
+
+/**
+ * Replace the wrapped master key with one derived under stronger KDF
+ * settings. The password itself does not change, so sessions are kept.
+ * @returns The descriptor now stored for the account
+ */
+export const upgradeKdf = async (userId: string, data: KdfUpgradeData): Promise<KdfParams> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const isValidPassword = await verifyPassword(data.password, user.passwordHash);
+
+  if (!isValidPassword) {
+    await auditService.logSecurityEvent(
+      auditService.AuditAction.KDF_UPGRADE,
+      userId,
+      data.ipAddress,
+      data.userAgent,
+      'Password is incorrect'
+    );
+    throw new AuthError('Password is incorrect');
+  }
+
+  if (kdfService.isKdfOutdated(data.kdf)) {
+    throw new ValidationError('KDF settings are weaker than the current policy');
+  }
+
+  // Only replace the wrap the client unwrapped; a concurrent change wins
+  const updated = await prisma.user.updateMany({
+    where: { id: userId, salt: user.salt, masterKeyEncrypted: user.masterKeyEncrypted },
+    data: {
+      salt: data.salt,
+      ...kdfService.toKdfColumns(data.kdf),
+      masterKeyEncrypted: data.masterKeyEncrypted,
+    },
+  });
+
+  if (updated.count === 0) {
+    throw new ConflictError('Keys were changed by another request');
+  }
+
+  await auditService.logAuthEvent(
+    auditService.AuditAction.KDF_UPGRADE,
+    userId,
+    true,
+    data.ipAddress,
+    data.userAgent
+  );
+
+  logger.info('Key derivation upgraded', { userId, algorithm: data.kdf.algorithm });
+
+  return data.kdf;
+};
+
+/**
+ * Delete credential backups whose rollback window has closed
+ */
+export const cleanupExpiredCredentialBackups = async (): Promise<number> => {
+  const result = await prisma.credentialBackup.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+
+  logger.info('Expired credential backups cleaned up', { count: result.count });
+
+  return result.count;
+};
+
 // Export all functions as named exports
 export default {
   register,
@@ -836,13 +1392,24 @@ export default {
   createSession,
   deleteSession,
   deleteAllUserSessions,
+  cleanupExpiredSessions,
   setupTOTP,
   enableTOTP,
   disableTOTP,
   verifyTOTP,
+  generateBackupCodes,
+  consumeBackupCode,
+  getBackupCodeCount,
+  regenerateBackupCodes,
+  removeOrphanedBackupCodes,
+  getSecondFactorMethods,
+  verifySecondFactor,
   getUserById,
   getUserSessions,
   changePassword,
+  rollbackPasswordChange,
+  upgradeKdf,
+  cleanupExpiredCredentialBackups,
   hashPassword,
   verifyPassword,
   generateToken,
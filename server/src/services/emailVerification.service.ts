@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { getCache, setCache, deleteCache } from '../config/redis';
+import logger from '../utils/logger';
+import { NotFoundError, TokenError, ValidationError } from '../utils/errors';
+import { hashSecret } from '../utils/hash';
+import * as auditService from './audit.service';
+import * as mailService from './mail.service';
+
+/**
+ * Email Verification Service
+ * Proves control of the account email address with single-use links. A link
+ * is bound to the address it was sent to, so changing the email again
+ * invalidates any link still in flight for the previous address.
+ */
+
+const VERIFICATION_CONFIG = {
+  // How long an emailed verification link stays valid
+  TOKEN_TTL_HOURS: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10),
+};
+
+/**
+ * Interface Definitions
+ */
+interface VerificationTokenState {
+  userId: string;
+  email: string;
+}
+
+const getTokenKey = (token: string): string => `email:verify:${hashSecret(token)}`;
+
+/**
+ * Whether operators require a verified email before uploads and shares
+ */
+export const isVerificationRequired = (): boolean =>
+  process.env.REQUIRE_VERIFIED_EMAIL === 'true';
+
+/**
+ * Create a single-use verification token for an address
+ */
+const createToken = async (userId: string, email: string): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await setCache(
+    getTokenKey(token),
+    { userId, email } as VerificationTokenState,
+    VERIFICATION_CONFIG.TOKEN_TTL_HOURS * 60 * 60
+  );
+
+  return token;
+};
+
+/**
+ * Email a verification link to the user's current address
+ */
+export const sendVerification = async (userId: string): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, emailVerified: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (user.emailVerified) {
+    throw new ValidationError('Email address is already verified');
+  }
+
+  const token = await createToken(userId, user.email);
+  await mailService.sendVerificationEmail(user.email, token, VERIFICATION_CONFIG.TOKEN_TTL_HOURS);
+
+  logger.info('Verification email sent', { userId });
+};
+
+/**
+ * Email a confirmation link to a changed address and notify the old one
+ */
+export const sendEmailChangeVerification = async (
+  userId: string,
+  newEmail: string,
+  previousEmail: string
+): Promise<void> => {
+  const token = await createToken(userId, newEmail);
+  await mailService.sendEmailChangeConfirmation(
+    newEmail,
+    previousEmail,
+    token,
+    VERIFICATION_CONFIG.TOKEN_TTL_HOURS
+  );
+
+  logger.info('Email change confirmation sent', { userId });
+};
+
+/**
+ * Mark the email address as verified
+ * @returns The verified address
+ */
+export const verifyEmail = async (
+  token: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<string> => {
+  const tokenKey = getTokenKey(token);
+  const state = await getCache<VerificationTokenState>(tokenKey);
+
+  if (!state) {
+    throw new TokenError('Invalid or expired verification link');
+  }
+
+  await deleteCache(tokenKey);
+
+  const user = await prisma.user.findUnique({
+    where: { id: state.userId },
+    select: { email: true },
+  });
+
+  // The address changed again after this link was sent
+  if (!user || user.email !== state.email) {
+    throw new TokenError('Invalid or expired verification link');
+  }
+
+  // Checked again on write, in case the address changes in the meantime
+  const updated = await prisma.user.updateMany({
+    where: { id: state.userId, email: state.email },
+    data: { emailVerified: true },
+  });
+
+  if (updated.count === 0) {
+    throw new TokenError('Invalid or expired verification link');
+  }
+
+  await auditService.logAuthEvent(
+    auditService.AuditAction.EMAIL_VERIFY,
+    state.userId,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  logger.info('Email address verified', { userId: state.userId });
+
+  return state.email;
+};
+
+export default {
+  isVerificationRequired,
+  sendVerification,
+  sendEmailChangeVerification,
+  verifyEmail,
+};
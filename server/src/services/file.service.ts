@@ -1,4 +1,5 @@
 import { Readable } from 'stream';
+import { UserShare } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
 import { prisma, runTransaction } from '../config/database';
 import logger from '../utils/logger';
@@ -7,10 +8,12 @@ import {
   ForbiddenError,
   ValidationError,
   PaymentRequiredError,
+  ConflictError,
   StorageError,
 } from '../utils/errors';
 import * as storageService from './storage.service';
 import * as auditService from './audit.service';
+import * as folderService from './folder.service';
 
 /**
  * File Service
@@ -32,6 +35,8 @@ export interface CreateFileData {
   mimeType?: string;
   fileHash: string;
   encryptionAlgorithm?: string;
+  keyWrapping?: KeyWrapping;
+  searchTokens?: string[];
   fileData: Buffer | Readable;
   thumbnailData?: Buffer;
   ipAddress?: string;
@@ -42,6 +47,7 @@ export interface UpdateFileData {
   filenameEncrypted?: string;
   filenameIv?: string;
   parentFolderId?: string | null;
+  searchTokens?: string[];
 }
 
 export interface FileQuery {
@@ -54,15 +60,147 @@ export interface FileQuery {
   sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * Blind-index search. Tokens are keyed HMACs computed by the client, so the
+ * server matches them without learning the filename they came from.
+ */
+export interface FileSearchQuery {
+  userId: string;
+  tokens: string[];
+  folderId?: string;
+  recursive?: boolean;
+  mimeType?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+  limit?: number;
+  offset?: number;
+}
+
 export interface FileVersionData {
   fileId: string;
   userId: string;
   versionNumber: number;
   fileData: Buffer | Readable;
   fileSize: number;
+  originalSize?: number;
+  fileHash?: string;
+  fileKeyEncrypted: string;
+  encryptionAlgorithm?: string;
+}
+
+export interface DeleteFileVersionsOptions {
+  versionNumber?: number;
+  keep?: number;
+}
+
+export interface ReplaceFileContentData {
+  fileData: Buffer | Readable;
+  fileSize: number;
+  encryptedSize: number;
+  fileHash: string;
+  encryptionAlgorithm?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Key material the owner's client supplies when claiming a file received
+ * through an upload link
+ */
+export interface ClaimFileKeysData {
   fileKeyEncrypted: string;
+  filenameEncrypted: string;
+  filenameIv: string;
+  parentKeyEncrypted?: string;
+  parentNameEncrypted?: string;
+  parentNameIv?: string;
+  searchTokens?: string[];
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * How File.fileKeyEncrypted is wrapped
+ */
+export const KEY_WRAPPING = {
+  // With the owner's master key
+  MASTER: 'MASTER',
+  // With the owner's RSA public key, until the owner's client claims the file
+  OWNER_PUBLIC_KEY: 'RSA-OAEP',
+} as const;
+
+export type KeyWrapping = (typeof KEY_WRAPPING)[keyof typeof KEY_WRAPPING];
+
+/**
+ * Permissions a user can hold on a file shared with them
+ */
+export enum FilePermission {
+  READ = 'read',
+  WRITE = 'write',
 }
 
+/**
+ * Resolve a user's access to a file.
+ * Owners have full access; anyone else needs a user share granting at least
+ * the required permission. Files without any access are reported as not found
+ * so their existence is not revealed.
+ */
+export const getFileAccess = async (
+  fileId: string,
+  userId: string,
+  required: FilePermission = FilePermission.READ
+) => {
+  const result = await prisma.file.findFirst({
+    where: {
+      id: fileId,
+      isDeleted: false,
+    },
+    include: {
+      userShares: {
+        where: { sharedWithUserId: userId },
+      },
+    },
+  });
+
+  if (!result) {
+    throw new NotFoundError('File not found');
+  }
+
+  const { userShares, ...file } = result;
+
+  if (file.userId === userId) {
+    return { file, isOwner: true, permission: FilePermission.WRITE };
+  }
+
+  // A direct share wins; otherwise look for a share on any ancestor folder
+  let userShare: UserShare | null = userShares[0] ?? null;
+  if (!userShare && file.parentFolderId) {
+    const ancestorIds = await folderService.getFolderAncestorIds(file.parentFolderId);
+
+    userShare = await prisma.userShare.findFirst({
+      where: {
+        folderId: { in: ancestorIds },
+        sharedWithUserId: userId,
+      },
+    });
+  }
+
+  if (!userShare) {
+    throw new NotFoundError('File not found');
+  }
+
+  if (required === FilePermission.WRITE && userShare.permission !== FilePermission.WRITE) {
+    throw new ForbiddenError('You do not have write access to this file');
+  }
+
+  return {
+    file,
+    isOwner: false,
+    permission: userShare.permission as FilePermission,
+    userShare,
+  };
+};
+
 /**
  * Create a new file
  */
@@ -166,6 +304,8 @@ export const createFile = async (data: CreateFileData) => {
           storagePath,
           fileHash: data.fileHash,
           encryptionAlgorithm: data.encryptionAlgorithm || 'AES-256-GCM',
+          keyWrapping: data.keyWrapping,
+          searchTokens: data.searchTokens,
           thumbnailPath,
         },
         include: {
@@ -246,10 +386,11 @@ export const getFileById = async (fileId: string, userId: string) => {
   try {
     logger.debug('Getting file by ID', { fileId, userId });
 
+    const { isOwner } = await getFileAccess(fileId, userId, FilePermission.READ);
+
     const file = await prisma.file.findFirst({
       where: {
         id: fileId,
-        userId,
         isDeleted: false,
       },
       include: {
@@ -273,6 +414,11 @@ export const getFileById = async (fileId: string, userId: string) => {
       throw new NotFoundError('File not found');
     }
 
+    // Folder placement and history belong to the owner
+    if (!isOwner) {
+      return { ...file, parentFolder: null, versions: [] };
+    }
+
     return file;
   } catch (error) {
     if (error instanceof NotFoundError) {
@@ -347,6 +493,100 @@ export const getFiles = async (query: FileQuery) => {
   }
 };
 
+/**
+ * Search a user's files by blind-index tokens. A file matches when it carries
+ * every token, optionally narrowed to a folder (and its subfolders), a MIME
+ * type or type prefix such as "image/", and a creation date range.
+ */
+export const searchFiles = async (query: FileSearchQuery) => {
+  try {
+    logger.debug('Searching files', {
+      userId: query.userId,
+      tokenCount: query.tokens.length,
+      folderId: query.folderId,
+    });
+
+    if (query.tokens.length === 0) {
+      throw new ValidationError('At least one search token is required');
+    }
+
+    const where: any = {
+      userId: query.userId,
+      isDeleted: false,
+      searchTokens: { hasEvery: query.tokens },
+    };
+
+    if (query.folderId) {
+      const folder = await prisma.folder.findFirst({
+        where: {
+          id: query.folderId,
+          userId: query.userId,
+          isDeleted: false,
+        },
+        select: { id: true },
+      });
+
+      if (!folder) {
+        throw new NotFoundError('Folder not found');
+      }
+
+      where.parentFolderId = query.recursive
+        ? { in: await folderService.getDescendantFolderIds(query.folderId, query.userId) }
+        : query.folderId;
+    }
+
+    if (query.mimeType) {
+      where.mimeType = query.mimeType.endsWith('/')
+        ? { startsWith: query.mimeType }
+        : query.mimeType;
+    }
+
+    if (query.dateFrom || query.dateTo) {
+      where.createdAt = {
+        ...(query.dateFrom && { gte: query.dateFrom }),
+        ...(query.dateTo && { lte: query.dateTo }),
+      };
+    }
+
+    const [files, total] = await Promise.all([
+      prisma.file.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: query.limit || 50,
+        skip: query.offset || 0,
+        include: {
+          parentFolder: {
+            select: {
+              id: true,
+              nameEncrypted: true,
+              nameIv: true,
+            },
+          },
+        },
+      }),
+      prisma.file.count({ where }),
+    ]);
+
+    logger.debug('File search completed', { count: files.length, total });
+
+    return {
+      files,
+      total,
+      limit: query.limit || 50,
+      offset: query.offset || 0,
+    };
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      throw error;
+    }
+    logger.error('Failed to search files', {
+      userId: query.userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to search files');
+  }
+};
+
 /**
  * Download a file
  */
@@ -359,18 +599,8 @@ export const downloadFile = async (
   try {
     logger.info('Downloading file', { fileId, userId });
 
-    // Get file
-    const file = await prisma.file.findFirst({
-      where: {
-        id: fileId,
-        userId,
-        isDeleted: false,
-      },
-    });
-
-    if (!file) {
-      throw new NotFoundError('File not found');
-    }
+    // Get file (owner or a user it is shared with)
+    const { file } = await getFileAccess(fileId, userId, FilePermission.READ);
 
     // Download from storage
     const { stream, metadata } = await storageService.downloadFile(file.storagePath);
@@ -404,7 +634,11 @@ export const downloadFile = async (
       error instanceof Error ? error.message : 'Unknown error'
     );
 
-    if (error instanceof NotFoundError || error instanceof StorageError) {
+    if (
+      error instanceof NotFoundError ||
+      error instanceof ForbiddenError ||
+      error instanceof StorageError
+    ) {
       throw error;
     }
     logger.error('Failed to download file', {
@@ -429,17 +663,11 @@ export const updateFile = async (
   try {
     logger.info('Updating file', { fileId, userId });
 
-    // Check if file exists and belongs to user
-    const existingFile = await prisma.file.findFirst({
-      where: {
-        id: fileId,
-        userId,
-        isDeleted: false,
-      },
-    });
+    // Metadata is encrypted with the owner's keys, so only the owner may change it
+    const { isOwner } = await getFileAccess(fileId, userId, FilePermission.WRITE);
 
-    if (!existingFile) {
-      throw new NotFoundError('File not found');
+    if (!isOwner) {
+      throw new ForbiddenError('Only the owner can update file metadata');
     }
 
     // Validate parent folder if being changed
@@ -464,6 +692,7 @@ export const updateFile = async (
         ...(data.filenameEncrypted && { filenameEncrypted: data.filenameEncrypted }),
         ...(data.filenameIv && { filenameIv: data.filenameIv }),
         ...(data.parentFolderId !== undefined && { parentFolderId: data.parentFolderId }),
+        ...(data.searchTokens && { searchTokens: data.searchTokens }),
       },
       include: {
         parentFolder: {
@@ -496,7 +725,11 @@ export const updateFile = async (
 
     return updatedFile;
   } catch (error) {
-    if (error instanceof NotFoundError || error instanceof ValidationError) {
+    if (
+      error instanceof NotFoundError ||
+      error instanceof ForbiddenError ||
+      error instanceof ValidationError
+    ) {
       throw error;
     }
     logger.error('Failed to update file', {
@@ -534,6 +767,13 @@ export const deleteFile = async (
     }
 
     if (permanent) {
+      // Versions are removed by the cascade, so collect them first
+      const versions = await prisma.fileVersion.findMany({
+        where: { fileId },
+        select: { storagePath: true, fileSize: true },
+      });
+      const versionsSize = versions.reduce((sum, v) => sum + v.fileSize, BigInt(0));
+
       // Permanent delete
       await runTransaction(async (tx) => {
         // Delete file from database
@@ -541,13 +781,14 @@ export const deleteFile = async (
           where: { id: fileId },
         });
 
-        // Update user storage usage (only if not already deleted)
-        if (!file.isDeleted) {
+        // Update user storage usage (current content only if not already deleted)
+        const freed = (file.isDeleted ? BigInt(0) : file.encryptedSize) + versionsSize;
+        if (freed > BigInt(0)) {
           await tx.user.update({
             where: { id: userId },
             data: {
               storageUsed: {
-                decrement: file.encryptedSize,
+                decrement: freed,
               },
             },
           });
@@ -564,11 +805,6 @@ export const deleteFile = async (
         }
 
         // Delete all versions
-        const versions = await prisma.fileVersion.findMany({
-          where: { fileId },
-          select: { storagePath: true },
-        });
-
         if (versions.length > 0) {
           await storageService.deleteMultipleFiles(
             versions.map((v) => v.storagePath)
@@ -643,7 +879,8 @@ export const deleteFile = async (
 };
 
 /**
- * Restore a deleted file
+ * Restore a deleted file.
+ * A file whose folder is still in the trash is moved to the root folder.
  */
 export const restoreFile = async (
   fileId: string,
@@ -661,12 +898,17 @@ export const restoreFile = async (
         userId,
         isDeleted: true,
       },
+      include: {
+        parentFolder: { select: { isDeleted: true } },
+      },
     });
 
     if (!file) {
       throw new NotFoundError('Deleted file not found');
     }
 
+    const moveToRoot = file.parentFolder?.isDeleted === true;
+
     // Check storage quota
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -688,6 +930,12 @@ export const restoreFile = async (
         data: {
           isDeleted: false,
           deletedAt: null,
+          ...(moveToRoot && {
+            parentFolderId: null,
+            parentKeyEncrypted: null,
+            parentNameEncrypted: null,
+            parentNameIv: null,
+          }),
         },
       });
 
@@ -704,7 +952,16 @@ export const restoreFile = async (
       return updated;
     });
 
-    logger.info('File restored successfully', { fileId, userId });
+    await auditService.logFileOperation(
+      auditService.AuditAction.FILE_RESTORE,
+      userId,
+      fileId,
+      true,
+      ipAddress,
+      userAgent
+    );
+
+    logger.info('File restored successfully', { fileId, userId, moveToRoot });
 
     return restoredFile;
   } catch (error) {
@@ -763,15 +1020,32 @@ export const createFileVersion = async (
       }
     );
 
-    // Create version record
-    const version = await prisma.fileVersion.create({
-      data: {
-        fileId: data.fileId,
-        versionNumber: data.versionNumber,
-        storagePath,
-        fileSize: BigInt(data.fileSize),
-        fileKeyEncrypted: data.fileKeyEncrypted,
-      },
+    // Create version record (versions count towards storage usage)
+    const version = await runTransaction(async (tx) => {
+      const newVersion = await tx.fileVersion.create({
+        data: {
+          fileId: data.fileId,
+          versionNumber: data.versionNumber,
+          storagePath,
+          fileSize: BigInt(data.fileSize),
+          originalSize:
+            data.originalSize !== undefined ? BigInt(data.originalSize) : null,
+          fileHash: data.fileHash,
+          fileKeyEncrypted: data.fileKeyEncrypted,
+          encryptionAlgorithm: data.encryptionAlgorithm || 'AES-256-GCM',
+        },
+      });
+
+      await tx.user.update({
+        where: { id: data.userId },
+        data: {
+          storageUsed: {
+            increment: BigInt(data.fileSize),
+          },
+        },
+      });
+
+      return newVersion;
     });
 
     // Log audit event
@@ -802,6 +1076,570 @@ export const createFileVersion = async (
   }
 };
 
+/**
+ * Pick the version number for a snapshot of the current content: the file's
+ * own version number, or after the newest version if that number is taken
+ */
+const getSnapshotVersionNumber = async (fileId: string, currentVersion: number) => {
+  const latest = await prisma.fileVersion.findFirst({
+    where: { fileId },
+    orderBy: { versionNumber: 'desc' },
+    select: { versionNumber: true },
+  });
+
+  return latest && latest.versionNumber >= currentVersion
+    ? latest.versionNumber + 1
+    : currentVersion;
+};
+
+/**
+ * Delete an object written for a change that was not committed
+ */
+const discardStoredContent = async (storagePath: string) => {
+  await storageService.deleteFile(storagePath).catch((error) =>
+    logger.error('Failed to delete content of failed file change', {
+      storagePath,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  );
+};
+
+/**
+ * Get the owned, non-deleted file and one of its versions
+ */
+const getOwnedFileVersion = async (
+  fileId: string,
+  versionNumber: number,
+  userId: string
+) => {
+  const file = await prisma.file.findFirst({
+    where: {
+      id: fileId,
+      userId,
+      isDeleted: false,
+    },
+  });
+
+  if (!file) {
+    throw new NotFoundError('File not found');
+  }
+
+  const version = await prisma.fileVersion.findUnique({
+    where: {
+      fileId_versionNumber: { fileId, versionNumber },
+    },
+  });
+
+  if (!version) {
+    throw new NotFoundError('File version not found');
+  }
+
+  return { file, version };
+};
+
+/**
+ * List the version history of a file
+ */
+export const listFileVersions = async (fileId: string, userId: string) => {
+  try {
+    logger.debug('Listing file versions', { fileId, userId });
+
+    const file = await prisma.file.findFirst({
+      where: {
+        id: fileId,
+        userId,
+        isDeleted: false,
+      },
+      include: {
+        versions: {
+          orderBy: {
+            versionNumber: 'desc',
+          },
+        },
+      },
+    });
+
+    if (!file) {
+      throw new NotFoundError('File not found');
+    }
+
+    return file;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    logger.error('Failed to list file versions', {
+      fileId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to list file versions');
+  }
+};
+
+/**
+ * Download a specific version of a file
+ */
+export const downloadFileVersion = async (
+  fileId: string,
+  versionNumber: number,
+  userId: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  try {
+    logger.info('Downloading file version', { fileId, versionNumber, userId });
+
+    const { version } = await getOwnedFileVersion(fileId, versionNumber, userId);
+
+    const { stream, metadata } = await storageService.downloadFile(version.storagePath);
+
+    await auditService.logFileOperation(
+      auditService.AuditAction.FILE_DOWNLOAD,
+      userId,
+      fileId,
+      true,
+      ipAddress,
+      userAgent
+    );
+
+    return {
+      stream,
+      version,
+      metadata,
+    };
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof StorageError) {
+      throw error;
+    }
+    logger.error('Failed to download file version', {
+      fileId,
+      versionNumber,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to download file version');
+  }
+};
+
+/**
+ * Restore a version as the current content of a file.
+ * The current content is kept as a new history entry, so restoring is
+ * itself reversible.
+ */
+export const restoreFileVersion = async (
+  fileId: string,
+  versionNumber: number,
+  userId: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  try {
+    logger.info('Restoring file version', { fileId, versionNumber, userId });
+
+    const { file, version } = await getOwnedFileVersion(fileId, versionNumber, userId);
+
+    // Check user storage quota (the snapshot of the current content is new data)
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { storageQuota: true, storageUsed: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const requiredSize = Number(version.fileSize);
+    if (!storageService.validateStorageQuota(user.storageUsed, user.storageQuota, requiredSize)) {
+      throw new PaymentRequiredError('Storage quota exceeded', {
+        quota: user.storageQuota.toString(),
+        used: user.storageUsed.toString(),
+        required: requiredSize,
+      });
+    }
+
+    const snapshotNumber = await getSnapshotVersionNumber(fileId, file.version);
+
+    // The restored content gets its own object, so deleting the version later
+    // leaves it intact; the current one becomes the snapshot
+    const restoredPath = storageService.generateStoragePath({
+      userId,
+      fileId,
+      contentId: uuidv4(),
+    });
+
+    await storageService.copyFile(version.storagePath, restoredPath);
+
+    const updatedFile = await runTransaction(async (tx) => {
+      // Only apply on top of the content that was snapshotted
+      const claimed = await tx.file.updateMany({
+        where: { id: fileId, version: file.version },
+        data: {
+          version: snapshotNumber + 1,
+          storagePath: restoredPath,
+          fileKeyEncrypted: version.fileKeyEncrypted,
+          encryptedSize: version.fileSize,
+          fileSize: version.originalSize ?? version.fileSize,
+          // Versions saved before hashes were kept have none; an unknown hash
+          // is better than the one of the replaced content
+          fileHash: version.fileHash ?? '',
+          encryptionAlgorithm: version.encryptionAlgorithm,
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictError('File was changed by another request');
+      }
+
+      await tx.fileVersion.create({
+        data: {
+          fileId,
+          versionNumber: snapshotNumber,
+          storagePath: file.storagePath,
+          fileSize: file.encryptedSize,
+          originalSize: file.fileSize,
+          fileHash: file.fileHash,
+          fileKeyEncrypted: file.fileKeyEncrypted,
+          encryptionAlgorithm: file.encryptionAlgorithm,
+        },
+      });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          storageUsed: {
+            increment: version.fileSize,
+          },
+        },
+      });
+
+      return tx.file.findUniqueOrThrow({ where: { id: fileId } });
+    }).catch(async (error) => {
+      await discardStoredContent(restoredPath);
+      throw error;
+    });
+
+    await auditService.logFileOperation(
+      auditService.AuditAction.FILE_VERSION_RESTORE,
+      userId,
+      fileId,
+      true,
+      ipAddress,
+      userAgent
+    );
+
+    logger.info('File version restored successfully', {
+      fileId,
+      restoredVersion: versionNumber,
+      newVersion: updatedFile.version,
+    });
+
+    return updatedFile;
+  } catch (error) {
+    if (
+      error instanceof NotFoundError ||
+      error instanceof PaymentRequiredError ||
+      error instanceof ConflictError ||
+      error instanceof StorageError
+    ) {
+      throw error;
+    }
+    logger.error('Failed to restore file version', {
+      fileId,
+      versionNumber,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to restore file version');
+  }
+};
+
+/**
+ * Delete old versions of a file.
+ * Deletes a single version when versionNumber is given, otherwise every
+ * version except the newest `keep` ones.
+ */
+export const deleteFileVersions = async (
+  fileId: string,
+  userId: string,
+  options: DeleteFileVersionsOptions,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  try {
+    logger.info('Deleting file versions', { fileId, userId, ...options });
+
+    const file = await prisma.file.findFirst({
+      where: {
+        id: fileId,
+        userId,
+        isDeleted: false,
+      },
+    });
+
+    if (!file) {
+      throw new NotFoundError('File not found');
+    }
+
+    let versions;
+    if (options.versionNumber !== undefined) {
+      const { version } = await getOwnedFileVersion(fileId, options.versionNumber, userId);
+      versions = [version];
+    } else {
+      if (options.keep !== undefined && options.keep < 0) {
+        throw new ValidationError('keep must not be negative');
+      }
+      versions = await prisma.fileVersion.findMany({
+        where: { fileId },
+        orderBy: { versionNumber: 'desc' },
+        skip: options.keep || 0,
+      });
+    }
+
+    if (versions.length === 0) {
+      return { deletedCount: 0, freedBytes: BigInt(0) };
+    }
+
+    const freedBytes = versions.reduce((sum, v) => sum + v.fileSize, BigInt(0));
+
+    await runTransaction(async (tx) => {
+      await tx.fileVersion.deleteMany({
+        where: { id: { in: versions.map((v) => v.id) } },
+      });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          storageUsed: {
+            decrement: freedBytes,
+          },
+        },
+      });
+    });
+
+    try {
+      await storageService.deleteMultipleFiles(versions.map((v) => v.storagePath));
+    } catch (error) {
+      // Log storage deletion error but don't fail the operation
+      logger.error('Failed to delete file versions from storage', {
+        fileId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    await auditService.logFileOperation(
+      auditService.AuditAction.FILE_VERSION_DELETE,
+      userId,
+      fileId,
+      true,
+      ipAddress,
+      userAgent
+    );
+
+    logger.info('File versions deleted successfully', {
+      fileId,
+      deletedCount: versions.length,
+    });
+
+    return { deletedCount: versions.length, freedBytes };
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error('Failed to delete file versions', {
+      fileId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to delete file versions');
+  }
+};
+
+/**
+ * Replace the content of a file, keeping the previous content as a version.
+ * Requires write access; the new content must be encrypted with the same
+ * file key, so existing wrapped keys (owner's and shares') stay valid.
+ * Storage is charged to the file owner.
+ */
+export const replaceFileContent = async (
+  fileId: string,
+  userId: string,
+  data: ReplaceFileContentData
+) => {
+  try {
+    logger.info('Replacing file content', { fileId, userId, size: data.encryptedSize });
+
+    if (data.encryptedSize <= 0) {
+      throw new ValidationError('File size must be greater than 0');
+    }
+
+    const { file } = await getFileAccess(fileId, userId, FilePermission.WRITE);
+
+    // Check the owner's storage quota
+    const owner = await prisma.user.findUnique({
+      where: { id: file.userId },
+      select: { storageQuota: true, storageUsed: true },
+    });
+
+    if (!owner) {
+      throw new NotFoundError('User not found');
+    }
+
+    if (!storageService.validateStorageQuota(owner.storageUsed, owner.storageQuota, data.encryptedSize)) {
+      throw new PaymentRequiredError('Storage quota exceeded', {
+        quota: owner.storageQuota.toString(),
+        used: owner.storageUsed.toString(),
+        required: data.encryptedSize,
+      });
+    }
+
+    const snapshotNumber = await getSnapshotVersionNumber(fileId, file.version);
+
+    // The new content gets its own object; the current one becomes the snapshot
+    const { storagePath } = await storageService.uploadFile(data.fileData, data.encryptedSize, {
+      userId: file.userId,
+      fileId,
+      contentId: uuidv4(),
+    });
+
+    const updatedFile = await runTransaction(async (tx) => {
+      // Only apply on top of the content that was snapshotted
+      const claimed = await tx.file.updateMany({
+        where: { id: fileId, version: file.version },
+        data: {
+          version: snapshotNumber + 1,
+          storagePath,
+          fileSize: BigInt(data.fileSize),
+          encryptedSize: BigInt(data.encryptedSize),
+          fileHash: data.fileHash,
+          ...(data.encryptionAlgorithm && { encryptionAlgorithm: data.encryptionAlgorithm }),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictError('File was changed by another request');
+      }
+
+      await tx.fileVersion.create({
+        data: {
+          fileId,
+          versionNumber: snapshotNumber,
+          storagePath: file.storagePath,
+          fileSize: file.encryptedSize,
+          originalSize: file.fileSize,
+          fileHash: file.fileHash,
+          fileKeyEncrypted: file.fileKeyEncrypted,
+          encryptionAlgorithm: file.encryptionAlgorithm,
+        },
+      });
+
+      await tx.user.update({
+        where: { id: file.userId },
+        data: {
+          storageUsed: {
+            increment: BigInt(data.encryptedSize),
+          },
+        },
+      });
+
+      return tx.file.findUniqueOrThrow({ where: { id: fileId } });
+    }).catch(async (error) => {
+      await discardStoredContent(storagePath);
+      throw error;
+    });
+
+    await auditService.logFileOperation(
+      auditService.AuditAction.FILE_UPDATE,
+      userId,
+      fileId,
+      true,
+      data.ipAddress,
+      data.userAgent
+    );
+
+    logger.info('File content replaced successfully', {
+      fileId,
+      userId,
+      version: updatedFile.version,
+    });
+
+    return updatedFile;
+  } catch (error) {
+    if (
+      error instanceof NotFoundError ||
+      error instanceof ForbiddenError ||
+      error instanceof ValidationError ||
+      error instanceof PaymentRequiredError ||
+      error instanceof ConflictError ||
+      error instanceof StorageError
+    ) {
+      throw error;
+    }
+    logger.error('Failed to replace file content', {
+      fileId,
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to replace file content');
+  }
+};
+
+/**
+ * Claim a file received through an upload link.
+ * The owner's client unwraps the file key with its private key and sends it
+ * back wrapped with the master key, together with the filename encrypted the
+ * usual way, so the file behaves like any other from then on.
+ */
+export const claimReceivedFile = async (
+  fileId: string,
+  userId: string,
+  data: ClaimFileKeysData
+) => {
+  try {
+    logger.info('Claiming received file', { fileId, userId });
+
+    const claimed = await prisma.file.updateMany({
+      where: {
+        id: fileId,
+        userId,
+        isDeleted: false,
+        keyWrapping: KEY_WRAPPING.OWNER_PUBLIC_KEY,
+      },
+      data: {
+        keyWrapping: KEY_WRAPPING.MASTER,
+        fileKeyEncrypted: data.fileKeyEncrypted,
+        filenameEncrypted: data.filenameEncrypted,
+        filenameIv: data.filenameIv,
+        parentKeyEncrypted: data.parentKeyEncrypted,
+        parentNameEncrypted: data.parentNameEncrypted,
+        parentNameIv: data.parentNameIv,
+        ...(data.searchTokens && { searchTokens: data.searchTokens }),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new NotFoundError('File not found');
+    }
+
+    await auditService.logFileOperation(
+      auditService.AuditAction.FILE_UPDATE,
+      userId,
+      fileId,
+      true,
+      data.ipAddress,
+      data.userAgent
+    );
+
+    return prisma.file.findUniqueOrThrow({ where: { id: fileId } });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    logger.error('Failed to claim received file', {
+      fileId,
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new ValidationError('Failed to claim received file');
+  }
+};
+
 /**
  * Get user storage statistics
  */
@@ -886,13 +1724,21 @@ export const findFileByHash = async (userId: string, fileHash: string) => {
 // Export all functions
 export default {
   createFile,
+  getFileAccess,
   getFileById,
   getFiles,
+  searchFiles,
   downloadFile,
   updateFile,
   deleteFile,
   restoreFile,
   createFileVersion,
+  listFileVersions,
+  downloadFileVersion,
+  restoreFileVersion,
+  deleteFileVersions,
+  replaceFileContent,
+  claimReceivedFile,
   getUserStorageStats,
   findFileByHash,
 };
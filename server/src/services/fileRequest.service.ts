@@ -0,0 +1,358 @@
+import { v4 as uuidv4 } from 'uuid';
+import bcrypt from 'bcrypt';
+import { prisma } from '../config/database';
+import { deleteCache } from '../config/redis';
+import logger from '../utils/logger';
+import { NotFoundError, ForbiddenError, ValidationError } from '../utils/errors';
+import * as auditService from './audit.service';
+import * as fileService from './file.service';
+import * as shareService from './share.service';
+import * as shareAccessLogService from './shareAccessLog.service';
+import * as shareLockoutService from './shareLockout.service';
+
+/**
+ * File Request Service
+ * File requests are upload-only share links on a folder. Anyone holding the
+ * link can add files to the folder but never sees what is already in it.
+ * Uploaders encrypt in the browser with a fresh file key wrapped with the
+ * owner's RSA public key; the owner's client re-wraps it with the master key
+ * the next time it lists the folder. Expiry, the password and deactivation
+ * work exactly like download links.
+ */
+
+/**
+ * Interface Definitions
+ */
+export interface CreateFileRequestData {
+  folderId: string;
+  ownerId: string;
+  password?: string;
+  expiresAt?: Date;
+  maxFiles?: number;
+  maxFileSize?: number;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface FileRequestUploadData {
+  fileData: Buffer;
+  fileSize: number;
+  encryptedSize: number;
+  fileHash: string;
+  fileKeyEncrypted: string;
+  filenameEncrypted: string;
+  filenameIv: string;
+  mimeType?: string;
+  encryptionAlgorithm?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Create an upload link for one of the owner's folders
+ */
+export const createFileRequest = async (data: CreateFileRequestData) => {
+  try {
+    logger.info('Creating file request', {
+      folderId: data.folderId,
+      ownerId: data.ownerId,
+      hasPassword: !!data.password,
+      expiresAt: data.expiresAt,
+      maxFiles: data.maxFiles,
+    });
+
+    const folder = await prisma.folder.findFirst({
+      where: {
+        id: data.folderId,
+        userId: data.ownerId,
+        isDeleted: false,
+      },
+    });
+
+    if (!folder) {
+      throw new NotFoundError('Folder not found');
+    }
+
+    if (data.expiresAt && data.expiresAt <= new Date()) {
+      throw new ValidationError('Expiration date must be in the future');
+    }
+
+    const share = await prisma.share.create({
+      data: {
+        id: uuidv4(),
+        type: shareService.SHARE_TYPES.UPLOAD,
+        folderId: data.folderId,
+        ownerId: data.ownerId,
+        shareToken: shareService.generateShareToken(),
+        passwordHash: data.password ? await bcrypt.hash(data.password, 10) : null,
+        expiresAt: data.expiresAt,
+        maxFiles: data.maxFiles,
+        maxFileSize: data.maxFileSize !== undefined ? BigInt(data.maxFileSize) : null,
+      },
+    });
+
+    await auditService.logShareOperation(
+      auditService.AuditAction.SHARE_CREATE,
+      data.ownerId,
+      share.id,
+      true,
+      data.ipAddress,
+      data.userAgent
+    );
+
+    logger.info('File request created successfully', {
+      shareId: share.id,
+      folderId: data.folderId,
+    });
+
+    return share;
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error('Failed to create file request', {
+      folderId: data.folderId,
+      ownerId: data.ownerId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new ValidationError('Failed to create file request');
+  }
+};
+
+/**
+ * Log a refused visit or upload and reject it
+ */
+const denyFileRequest = async (
+  share: { id: string; ownerId: string },
+  event: shareAccessLogService.ShareAccessEventType,
+  refusal: {
+    reason?: string;
+    outcome: shareAccessLogService.ShareAccessOutcome;
+    throttle?: shareLockoutService.ShareThrottle;
+  },
+  ipAddress?: string,
+  userAgent?: string
+): Promise<never> => {
+  await auditService.logShareOperation(
+    auditService.AuditAction.SHARE_ACCESS_DENIED,
+    undefined,
+    share.id,
+    false,
+    ipAddress,
+    userAgent,
+    refusal.reason
+  );
+  await shareAccessLogService.recordShareAccess({
+    shareId: share.id,
+    ownerId: share.ownerId,
+    event,
+    outcome: refusal.outcome,
+    ipAddress,
+    userAgent,
+  });
+
+  throw shareService.toAccessError(refusal);
+};
+
+/**
+ * Validate access to a file request, logging denied attempts.
+ * A link that has received all the files it accepts is closed.
+ */
+const accessFileRequest = async (
+  shareToken: string,
+  event: shareAccessLogService.ShareAccessEventType,
+  password?: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  const validation = await shareService.validateShareAccess(
+    shareToken,
+    password,
+    shareService.SHARE_TYPES.UPLOAD
+  );
+
+  if (!validation.valid) {
+    await denyFileRequest(validation.share, event, validation, ipAddress, userAgent);
+  }
+
+  if (
+    validation.share.maxFiles !== null &&
+    validation.share.uploadCount >= validation.share.maxFiles
+  ) {
+    await denyFileRequest(
+      validation.share,
+      event,
+      {
+        reason: 'File limit reached',
+        outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.LIMIT_REACHED,
+      },
+      ipAddress,
+      userAgent
+    );
+  }
+
+  return validation.share;
+};
+
+/**
+ * Get what an uploader needs to encrypt for the owner.
+ * Nothing about the folder's contents is returned.
+ * @returns requiresPassword when the link is protected and no password was given
+ */
+export const getFileRequest = async (
+  shareToken: string,
+  password?: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  try {
+    const share = await accessFileRequest(
+      shareToken,
+      shareAccessLogService.SHARE_ACCESS_EVENTS.VIEW,
+      password,
+      ipAddress,
+      userAgent
+    );
+
+    await shareAccessLogService.recordShareAccess({
+      shareId: share.id,
+      ownerId: share.ownerId,
+      event: shareAccessLogService.SHARE_ACCESS_EVENTS.VIEW,
+      outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.OK,
+      ipAddress,
+      userAgent,
+    });
+
+    return { requiresPassword: false, share };
+  } catch (error) {
+    if (error instanceof ForbiddenError && error.message === 'Password required') {
+      const share = await shareService.getShareByToken(shareToken);
+      return { requiresPassword: true, share };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Check an upload link before the file is received, so a closed link or a
+ * wrong password is refused without reading the body
+ * @returns The share, whose maxFileSize bounds the upload
+ */
+export const checkFileRequestUpload = (
+  shareToken: string,
+  password?: string,
+  ipAddress?: string,
+  userAgent?: string
+) =>
+  accessFileRequest(
+    shareToken,
+    shareAccessLogService.SHARE_ACCESS_EVENTS.UPLOAD,
+    password,
+    ipAddress,
+    userAgent
+  );
+
+/**
+ * Store a file sent through an upload link in the link's folder.
+ * The slot is reserved before the upload so concurrent uploads cannot
+ * exceed the file limit; storage is charged to the folder owner.
+ */
+export const uploadToFileRequest = async (
+  shareToken: string,
+  password: string | undefined,
+  data: FileRequestUploadData
+) => {
+  const share = await accessFileRequest(
+    shareToken,
+    shareAccessLogService.SHARE_ACCESS_EVENTS.UPLOAD,
+    password,
+    data.ipAddress,
+    data.userAgent
+  );
+
+  const recordUpload = (outcome: shareAccessLogService.ShareAccessOutcome) =>
+    shareAccessLogService.recordShareAccess({
+      shareId: share.id,
+      ownerId: share.ownerId,
+      event: shareAccessLogService.SHARE_ACCESS_EVENTS.UPLOAD,
+      outcome,
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent,
+    });
+
+  if (share.maxFileSize !== null && BigInt(data.encryptedSize) > BigInt(share.maxFileSize)) {
+    await recordUpload(shareAccessLogService.SHARE_ACCESS_OUTCOMES.LIMIT_REACHED);
+    throw new ValidationError('File exceeds the size limit of this request');
+  }
+
+  const reserved = await prisma.share.updateMany({
+    where: {
+      id: share.id,
+      ...(share.maxFiles !== null && { uploadCount: { lt: share.maxFiles } }),
+    },
+    data: { uploadCount: { increment: 1 } },
+  });
+
+  if (reserved.count === 0) {
+    await recordUpload(shareAccessLogService.SHARE_ACCESS_OUTCOMES.LIMIT_REACHED);
+    throw new ForbiddenError('File limit reached');
+  }
+
+  try {
+    const file = await fileService.createFile({
+      userId: share.ownerId,
+      parentFolderId: share.folderId,
+      filenameEncrypted: data.filenameEncrypted,
+      filenameIv: data.filenameIv,
+      fileKeyEncrypted: data.fileKeyEncrypted,
+      keyWrapping: fileService.KEY_WRAPPING.OWNER_PUBLIC_KEY,
+      fileSize: data.fileSize,
+      encryptedSize: data.encryptedSize,
+      mimeType: data.mimeType,
+      fileHash: data.fileHash,
+      encryptionAlgorithm: data.encryptionAlgorithm,
+      fileData: data.fileData,
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent,
+    });
+
+    await prisma.share.update({
+      where: { id: share.id },
+      data: { lastAccessed: new Date() },
+    });
+
+    await deleteCache(`share:${shareToken}`);
+
+    await auditService.logShareOperation(
+      auditService.AuditAction.SHARE_UPLOAD,
+      undefined,
+      share.id,
+      true,
+      data.ipAddress,
+      data.userAgent
+    );
+    await recordUpload(shareAccessLogService.SHARE_ACCESS_OUTCOMES.OK);
+
+    logger.info('File received through file request', {
+      shareId: share.id,
+      fileId: file.id,
+    });
+
+    return file;
+  } catch (error) {
+    // Give the slot back
+    await prisma.share.update({
+      where: { id: share.id },
+      data: { uploadCount: { decrement: 1 } },
+    });
+
+    throw error;
+  }
+};
+
+export default {
+  createFileRequest,
+  getFileRequest,
+  checkFileRequestUpload,
+  uploadToFileRequest,
+};
@@ -18,21 +18,48 @@ import * as storageService from './storage.service';
 /**
  * Interface Definitions
  */
-export interface CreateFolderData {
+export interface CreateFolderData extends Partial<ParentKeyData> {
   userId: string;
   parentFolderId?: string;
   nameEncrypted: string;
   nameIv: string;
+  folderKeyEncrypted?: string;
   ipAddress?: string;
   userAgent?: string;
 }
 
-export interface UpdateFolderData {
+export interface UpdateFolderData extends Partial<ParentKeyData> {
   nameEncrypted?: string;
   nameIv?: string;
   parentFolderId?: string | null;
 }
 
+/**
+ * Key material scoped to the parent folder. The item's key is wrapped with
+ * the parent's folder key and its name is encrypted with that key, so anyone
+ * holding a folder key can walk the whole subtree below it.
+ */
+export interface ParentKeyData {
+  parentKeyEncrypted: string;
+  parentNameEncrypted: string;
+  parentNameIv: string;
+}
+
+export interface FolderKeyUpdate extends ParentKeyData {
+  id: string;
+  folderKeyEncrypted?: string;
+}
+
+export interface FileKeyUpdate extends ParentKeyData {
+  id: string;
+}
+
+export interface UpdateFolderKeysData {
+  folderKeyEncrypted?: string;
+  folders: FolderKeyUpdate[];
+  files: FileKeyUpdate[];
+}
+
 export interface FolderQuery {
   userId: string;
   parentFolderId?: string | null;
@@ -96,6 +123,12 @@ export const createFolder = async (data: CreateFolderData) => {
         parentFolderId: data.parentFolderId,
         nameEncrypted: data.nameEncrypted,
         nameIv: data.nameIv,
+        folderKeyEncrypted: data.folderKeyEncrypted,
+        ...(data.parentFolderId && {
+          parentKeyEncrypted: data.parentKeyEncrypted,
+          parentNameEncrypted: data.parentNameEncrypted,
+          parentNameIv: data.parentNameIv,
+        }),
       },
       include: {
         parentFolder: {
@@ -543,6 +576,14 @@ export const updateFolder = async (
         ...(data.nameIv && { nameIv: data.nameIv }),
         ...(data.parentFolderId !== undefined && {
           parentFolderId: data.parentFolderId,
+          // Parent-scoped keys belong to the old parent; drop them unless
+          // the client re-wrapped them for the new one
+          parentKeyEncrypted: data.parentKeyEncrypted ?? null,
+        }),
+        ...((data.parentFolderId !== undefined ||
+          data.parentNameEncrypted !== undefined) && {
+          parentNameEncrypted: data.parentNameEncrypted ?? null,
+          parentNameIv: data.parentNameIv ?? null,
         }),
       },
       include: {
@@ -675,8 +716,8 @@ export const deleteFolder = async (
         userId,
       },
       include: {
-        files: true,
-        subFolders: true,
+        files: { where: { isDeleted: false } },
+        subFolders: { where: { isDeleted: false } },
       },
     });
 
@@ -684,7 +725,7 @@ export const deleteFolder = async (
       throw new NotFoundError('Folder not found');
     }
 
-    // Check if folder has contents
+    // Check if folder has contents (items already in the trash don't count)
     if (!deleteContents && (folder.files.length > 0 || folder.subFolders.length > 0)) {
       throw new ValidationError(
         'Folder is not empty. Set deleteContents to true to delete all contents.'
@@ -705,11 +746,14 @@ export const deleteFolder = async (
         });
       });
     } else {
-      // Soft delete
+      // Soft delete. Contents share the folder's deletion timestamp so the
+      // trash can restore them together.
+      const deletedAt = new Date();
+
       await runTransaction(async (tx) => {
         if (deleteContents) {
           // Soft delete all subfolders and files
-          await softDeleteAllFolderContents(folderId, userId, tx);
+          await softDeleteAllFolderContents(folderId, userId, tx, deletedAt);
         }
 
         // Soft delete folder
@@ -717,6 +761,7 @@ export const deleteFolder = async (
           where: { id: folderId },
           data: {
             isDeleted: true,
+            deletedAt,
           },
         });
       });
@@ -813,9 +858,9 @@ const deleteAllFolderContents = async (
     },
   });
 
-  // Update user storage usage
+  // Update user storage usage (files in the trash were already subtracted)
   const totalSize = files.reduce(
-    (sum: bigint, file: any) => sum + file.encryptedSize,
+    (sum: bigint, file: any) => (file.isDeleted ? sum : sum + file.encryptedSize),
     BigInt(0)
   );
 
@@ -837,7 +882,8 @@ const deleteAllFolderContents = async (
 const softDeleteAllFolderContents = async (
   folderId: string,
   userId: string,
-  tx: any
+  tx: any,
+  deletedAt: Date
 ) => {
   // Get all subfolders
   const subFolders = await tx.folder.findMany({
@@ -850,10 +896,10 @@ const softDeleteAllFolderContents = async (
 
   // Recursively soft delete subfolders
   for (const subFolder of subFolders) {
-    await softDeleteAllFolderContents(subFolder.id, userId, tx);
+    await softDeleteAllFolderContents(subFolder.id, userId, tx, deletedAt);
     await tx.folder.update({
       where: { id: subFolder.id },
-      data: { isDeleted: true },
+      data: { isDeleted: true, deletedAt },
     });
   }
 
@@ -874,7 +920,7 @@ const softDeleteAllFolderContents = async (
     },
     data: {
       isDeleted: true,
-      deletedAt: new Date(),
+      deletedAt,
     },
   });
 
@@ -939,6 +985,9 @@ export const moveFilesToFolder = async (
       },
       data: {
         parentFolderId: targetFolderId,
+        parentKeyEncrypted: null,
+        parentNameEncrypted: null,
+        parentNameIv: null,
       },
     });
 
@@ -1034,6 +1083,424 @@ const buildFolderTree = (
   }));
 };
 
+/**
+ * Get the ids of a folder and all of its non-deleted descendants
+ */
+export const getDescendantFolderIds = async (
+  folderId: string,
+  userId: string
+): Promise<string[]> => {
+  const ids = [folderId];
+  let level = [folderId];
+
+  for (let depth = 0; level.length > 0 && depth < MAX_FOLDER_DEPTH; depth++) {
+    const children = await prisma.folder.findMany({
+      where: {
+        parentFolderId: { in: level },
+        userId,
+        isDeleted: false,
+      },
+      select: { id: true },
+    });
+
+    level = children.map((child) => child.id);
+    ids.push(...level);
+  }
+
+  return ids;
+};
+
+/**
+ * Shared Folder Key Hierarchy
+ * A folder's own key is wrapped with the owner's master key. Every child item
+ * additionally carries its key wrapped with the parent's folder key, so a share
+ * only needs to hand out the key of the shared folder itself.
+ */
+
+const MAX_FOLDER_DEPTH = 100;
+
+const sharedFolderSelect = {
+  id: true,
+  parentFolderId: true,
+  parentNameEncrypted: true,
+  parentNameIv: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * Get the ids of a folder and all of its ancestors, nearest first
+ */
+export const getFolderAncestorIds = async (folderId: string): Promise<string[]> => {
+  const ids: string[] = [];
+  let currentId: string | null = folderId;
+
+  while (currentId && ids.length < MAX_FOLDER_DEPTH) {
+    const folder: { parentFolderId: string | null } | null =
+      await prisma.folder.findFirst({
+        where: {
+          id: currentId,
+          isDeleted: false,
+        },
+        select: {
+          parentFolderId: true,
+        },
+      });
+
+    if (!folder) {
+      break;
+    }
+
+    ids.push(currentId);
+    currentId = folder.parentFolderId;
+  }
+
+  return ids;
+};
+
+/**
+ * Get the path from a shared root folder down to one of its descendants.
+ * The root itself is not part of the path. Returns null if the folder is not
+ * inside the subtree.
+ */
+const getSubtreePath = async (rootFolderId: string, folderId: string) => {
+  const path: Array<{
+    id: string;
+    parentFolderId: string | null;
+    parentNameEncrypted: string | null;
+    parentNameIv: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }> = [];
+  let currentId: string | null = folderId;
+
+  while (currentId && path.length < MAX_FOLDER_DEPTH) {
+    const folder: (typeof path)[number] | null = await prisma.folder.findFirst({
+      where: {
+        id: currentId,
+        isDeleted: false,
+      },
+      select: sharedFolderSelect,
+    });
+
+    if (!folder) {
+      return null;
+    }
+
+    if (folder.id === rootFolderId) {
+      return path;
+    }
+
+    path.unshift(folder);
+    currentId = folder.parentFolderId;
+  }
+
+  return null;
+};
+
+/**
+ * Check whether a folder is the shared root folder or one of its descendants
+ */
+export const isFolderInSubtree = async (
+  folderId: string,
+  rootFolderId: string
+): Promise<boolean> => {
+  return (await getSubtreePath(rootFolderId, folderId)) !== null;
+};
+
+/**
+ * Get the contents of a folder inside a shared subtree.
+ * Only parent-scoped key material is returned; items that have not been keyed
+ * for the hierarchy yet are left out because the recipient cannot decrypt them.
+ */
+export const getSharedFolderContents = async (
+  rootFolderId: string,
+  folderId?: string
+) => {
+  try {
+    const targetId = folderId || rootFolderId;
+
+    logger.debug('Getting shared folder contents', { rootFolderId, targetId });
+
+    const path = await getSubtreePath(rootFolderId, targetId);
+
+    if (!path) {
+      throw new NotFoundError('Folder not found');
+    }
+
+    const [subFolders, files] = await Promise.all([
+      prisma.folder.findMany({
+        where: {
+          parentFolderId: targetId,
+          isDeleted: false,
+          parentKeyEncrypted: { not: null },
+        },
+        orderBy: {
+          createdAt: 'asc',
+        },
+        select: {
+          id: true,
+          parentKeyEncrypted: true,
+          parentNameEncrypted: true,
+          parentNameIv: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      }),
+      prisma.file.findMany({
+        where: {
+          parentFolderId: targetId,
+          isDeleted: false,
+          parentKeyEncrypted: { not: null },
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+        select: {
+          id: true,
+          parentKeyEncrypted: true,
+          parentNameEncrypted: true,
+          parentNameIv: true,
+          fileSize: true,
+          encryptedSize: true,
+          mimeType: true,
+          encryptionAlgorithm: true,
+          version: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      }),
+    ]);
+
+    return {
+      folderId: targetId,
+      parentFolderId:
+        targetId === rootFolderId ? null : path[path.length - 1].parentFolderId,
+      breadcrumbs: path.map((folder) => ({
+        id: folder.id,
+        parentNameEncrypted: folder.parentNameEncrypted,
+        parentNameIv: folder.parentNameIv,
+      })),
+      subFolders,
+      files,
+    };
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    logger.error('Failed to get shared folder contents', {
+      rootFolderId,
+      folderId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new ValidationError('Failed to get shared folder contents');
+  }
+};
+
+/**
+ * Get a file that lives somewhere inside a shared subtree
+ */
+export const getSharedFolderFile = async (rootFolderId: string, fileId: string) => {
+  const file = await prisma.file.findFirst({
+    where: {
+      id: fileId,
+      isDeleted: false,
+    },
+  });
+
+  if (
+    !file ||
+    !file.parentFolderId ||
+    !(await isFolderInSubtree(file.parentFolderId, rootFolderId))
+  ) {
+    throw new NotFoundError('File not found');
+  }
+
+  return file;
+};
+
+/**
+ * Get the key material of a folder and everything below it, so the owner's
+ * client can (re)build the parent-scoped keys before sharing the folder
+ */
+export const getFolderKeyTree = async (folderId: string, userId: string) => {
+  try {
+    const folder = await prisma.folder.findFirst({
+      where: {
+        id: folderId,
+        userId,
+        isDeleted: false,
+      },
+      select: {
+        id: true,
+        nameEncrypted: true,
+        nameIv: true,
+        folderKeyEncrypted: true,
+      },
+    });
+
+    if (!folder) {
+      throw new NotFoundError('Folder not found');
+    }
+
+    const folderSelect = {
+      id: true,
+      parentFolderId: true,
+      nameEncrypted: true,
+      nameIv: true,
+      folderKeyEncrypted: true,
+      parentKeyEncrypted: true,
+    } as const;
+
+    // Walk the hierarchy one level at a time
+    const folders: Array<{
+      id: string;
+      parentFolderId: string | null;
+      nameEncrypted: string;
+      nameIv: string;
+      folderKeyEncrypted: string | null;
+      parentKeyEncrypted: string | null;
+    }> = [];
+    let level = [folderId];
+
+    for (let depth = 0; level.length > 0 && depth < MAX_FOLDER_DEPTH; depth++) {
+      const children = await prisma.folder.findMany({
+        where: {
+          parentFolderId: { in: level },
+          userId,
+          isDeleted: false,
+        },
+        select: folderSelect,
+      });
+
+      folders.push(...children);
+      level = children.map((child) => child.id);
+    }
+
+    const files = await prisma.file.findMany({
+      where: {
+        parentFolderId: { in: [folderId, ...folders.map((f) => f.id)] },
+        userId,
+        isDeleted: false,
+      },
+      select: {
+        id: true,
+        parentFolderId: true,
+        filenameEncrypted: true,
+        filenameIv: true,
+        fileKeyEncrypted: true,
+        parentKeyEncrypted: true,
+      },
+    });
+
+    return { folder, folders, files };
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    logger.error('Failed to get folder key tree', {
+      folderId,
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new ValidationError('Failed to get folder keys');
+  }
+};
+
+/**
+ * Store the key hierarchy of a folder subtree
+ */
+export const updateFolderKeys = async (
+  folderId: string,
+  userId: string,
+  data: UpdateFolderKeysData,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  try {
+    logger.info('Updating folder keys', {
+      folderId,
+      userId,
+      folderCount: data.folders.length,
+      fileCount: data.files.length,
+    });
+
+    const tree = await getFolderKeyTree(folderId, userId);
+
+    if (!data.folderKeyEncrypted && !tree.folder.folderKeyEncrypted) {
+      throw new ValidationError('Folder key is required');
+    }
+
+    const folderIds = new Set(tree.folders.map((f) => f.id));
+    const fileIds = new Set(tree.files.map((f) => f.id));
+
+    if (
+      data.folders.some((f) => !folderIds.has(f.id)) ||
+      data.files.some((f) => !fileIds.has(f.id))
+    ) {
+      throw new ValidationError('Keys can only be updated for items inside the folder');
+    }
+
+    await runTransaction(async (tx) => {
+      if (data.folderKeyEncrypted) {
+        await tx.folder.update({
+          where: { id: folderId },
+          data: { folderKeyEncrypted: data.folderKeyEncrypted },
+        });
+      }
+
+      for (const folder of data.folders) {
+        await tx.folder.update({
+          where: { id: folder.id },
+          data: {
+            ...(folder.folderKeyEncrypted && {
+              folderKeyEncrypted: folder.folderKeyEncrypted,
+            }),
+            parentKeyEncrypted: folder.parentKeyEncrypted,
+            parentNameEncrypted: folder.parentNameEncrypted,
+            parentNameIv: folder.parentNameIv,
+          },
+        });
+      }
+
+      for (const file of data.files) {
+        await tx.file.update({
+          where: { id: file.id },
+          data: {
+            parentKeyEncrypted: file.parentKeyEncrypted,
+            parentNameEncrypted: file.parentNameEncrypted,
+            parentNameIv: file.parentNameIv,
+          },
+        });
+      }
+    });
+
+    await auditService.logFolderOperation(
+      auditService.AuditAction.FOLDER_UPDATE,
+      userId,
+      folderId,
+      true,
+      ipAddress,
+      userAgent
+    );
+
+    return {
+      foldersUpdated: data.folders.length,
+      filesUpdated: data.files.length,
+    };
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error('Failed to update folder keys', {
+      folderId,
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new ValidationError('Failed to update folder keys');
+  }
+};
+
 // Export all functions
 export default {
   createFolder,
@@ -1046,4 +1513,11 @@ export default {
   deleteFolder,
   moveFilesToFolder,
   getFolderTree,
+  getDescendantFolderIds,
+  getFolderAncestorIds,
+  isFolderInSubtree,
+  getSharedFolderContents,
+  getSharedFolderFile,
+  getFolderKeyTree,
+  updateFolderKeys,
 };
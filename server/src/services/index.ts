@@ -10,6 +10,25 @@ import * as folderService from './folder.service';
 import * as shareService from './share.service';
 import * as auditService from './audit.service';
 import * as storageService from './storage.service';
+import * as uploadService from './upload.service';
+import * as userShareService from './userShare.service';
+import * as trashService from './trash.service';
+import * as schedulerService from './scheduler.service';
+import * as maintenanceService from './maintenance.service';
+import * as reconciliationService from './reconciliation.service';
+import * as mailService from './mail.service';
+import * as recoveryService from './recovery.service';
+import * as webauthnService from './webauthn.service';
+import * as sessionService from './session.service';
+import * as refreshTokenService from './refreshToken.service';
+import * as emailVerificationService from './emailVerification.service';
+import * as accountLockoutService from './accountLockout.service';
+import * as kdfService from './kdf.service';
+import * as accountDeletionService from './accountDeletion.service';
+import * as fileRequestService from './fileRequest.service';
+import * as shareAccessLogService from './shareAccessLog.service';
+import * as shareLockoutService from './shareLockout.service';
+import * as throttleService from './throttle.service';
 
 // Export all services
 export {
@@ -19,6 +38,25 @@ export {
   shareService,
   auditService,
   storageService,
+  uploadService,
+  userShareService,
+  trashService,
+  schedulerService,
+  maintenanceService,
+  reconciliationService,
+  mailService,
+  recoveryService,
+  webauthnService,
+  sessionService,
+  refreshTokenService,
+  emailVerificationService,
+  accountLockoutService,
+  kdfService,
+  accountDeletionService,
+  fileRequestService,
+  shareAccessLogService,
+  shareLockoutService,
+  throttleService,
 };
 
 // Export default object with all services
@@ -29,4 +67,23 @@ export default {
   share: shareService,
   audit: auditService,
   storage: storageService,
+  upload: uploadService,
+  userShare: userShareService,
+  trash: trashService,
+  scheduler: schedulerService,
+  maintenance: maintenanceService,
+  reconciliation: reconciliationService,
+  mail: mailService,
+  recovery: recoveryService,
+  webauthn: webauthnService,
+  session: sessionService,
+  refreshToken: refreshTokenService,
+  emailVerification: emailVerificationService,
+  accountLockout: accountLockoutService,
+  kdf: kdfService,
+  accountDeletion: accountDeletionService,
+  fileRequest: fileRequestService,
+  shareAccessLog: shareAccessLogService,
+  shareLockout: shareLockoutService,
+  throttle: throttleService,
 };
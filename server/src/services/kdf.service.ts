@@ -0,0 +1,117 @@
+/**
+ * KDF Service
+ * Describes the client-side key derivation that turns a password into the key
+ * wrapping the user's master key. The server never runs the KDF itself; it
+ * stores the descriptor next to the salt so every client derives the same
+ * key, and asks clients to re-wrap under stronger settings once an account's
+ * descriptor falls below the current policy.
+ */
+
+export const KDF_ALGORITHMS = {
+  PBKDF2: 'PBKDF2-SHA256',
+  ARGON2ID: 'ARGON2ID',
+} as const;
+
+const KDF_CONFIG = {
+  // Settings used before descriptors were stored
+  LEGACY_PBKDF2_ITERATIONS: 100000,
+
+  // Target for new wraps; weaker descriptors are upgraded at sign-in
+  ARGON2_ITERATIONS: parseInt(process.env.KDF_ARGON2_ITERATIONS || '3', 10),
+  ARGON2_MEMORY_KIB: parseInt(process.env.KDF_ARGON2_MEMORY_KIB || '65536', 10),
+  ARGON2_PARALLELISM: parseInt(process.env.KDF_ARGON2_PARALLELISM || '1', 10),
+};
+
+/**
+ * Interface Definitions
+ */
+export type KdfAlgorithm = (typeof KDF_ALGORITHMS)[keyof typeof KDF_ALGORITHMS];
+
+export interface KdfParams {
+  algorithm: KdfAlgorithm;
+  iterations: number;
+  // Argon2id only
+  memoryKib?: number;
+  parallelism?: number;
+}
+
+export interface KdfColumns {
+  kdfAlgorithm: string;
+  kdfIterations: number;
+  kdfMemoryKib: number | null;
+  kdfParallelism: number | null;
+}
+
+/**
+ * Descriptor of accounts created before KDF settings were recorded
+ */
+export const LEGACY_KDF: KdfParams = {
+  algorithm: KDF_ALGORITHMS.PBKDF2,
+  iterations: KDF_CONFIG.LEGACY_PBKDF2_ITERATIONS,
+};
+
+/**
+ * Settings clients should use for new wraps
+ */
+export const getRecommendedKdf = (): KdfParams => ({
+  algorithm: KDF_ALGORITHMS.ARGON2ID,
+  iterations: KDF_CONFIG.ARGON2_ITERATIONS,
+  memoryKib: KDF_CONFIG.ARGON2_MEMORY_KIB,
+  parallelism: KDF_CONFIG.ARGON2_PARALLELISM,
+});
+
+/**
+ * Map a descriptor to the columns stored on users and credential backups
+ */
+export const toKdfColumns = (params: KdfParams = LEGACY_KDF): KdfColumns => {
+  const isArgon2 = params.algorithm === KDF_ALGORITHMS.ARGON2ID;
+
+  return {
+    kdfAlgorithm: params.algorithm,
+    kdfIterations: params.iterations,
+    kdfMemoryKib: isArgon2 ? params.memoryKib ?? null : null,
+    kdfParallelism: isArgon2 ? params.parallelism ?? null : null,
+  };
+};
+
+/**
+ * Read the descriptor back from stored columns
+ */
+export const fromKdfColumns = (columns: KdfColumns): KdfParams => ({
+  algorithm: columns.kdfAlgorithm as KdfAlgorithm,
+  iterations: columns.kdfIterations,
+  ...(columns.kdfMemoryKib !== null && { memoryKib: columns.kdfMemoryKib }),
+  ...(columns.kdfParallelism !== null && { parallelism: columns.kdfParallelism }),
+});
+
+/**
+ * Whether a descriptor is weaker than the current policy.
+ * Parallelism does not add cost for an attacker, so only time and memory count.
+ */
+export const isKdfOutdated = (params: KdfParams): boolean => {
+  const recommended = getRecommendedKdf();
+
+  if (params.algorithm !== recommended.algorithm) {
+    return true;
+  }
+
+  return (
+    params.iterations < recommended.iterations ||
+    (params.memoryKib ?? 0) < recommended.memoryKib!
+  );
+};
+
+/**
+ * Settings to re-wrap under, or null when the descriptor is current
+ */
+export const getKdfUpgrade = (params: KdfParams): KdfParams | null =>
+  isKdfOutdated(params) ? getRecommendedKdf() : null;
+
+export default {
+  LEGACY_KDF,
+  getRecommendedKdf,
+  toKdfColumns,
+  fromKdfColumns,
+  isKdfOutdated,
+  getKdfUpgrade,
+};
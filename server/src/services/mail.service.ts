@@ -0,0 +1,272 @@
+import logger from '../utils/logger';
+import { getMailFrom, getMailTransport, MailMessage } from '../config/mail';
+
+/**
+ * Mail Service
+ * Sends transactional email through the configured transport (see
+ * config/mail). Each template renders a plain-text body and a matching HTML
+ * alternative.
+ */
+
+export type { MailMessage };
+
+export interface DeviceDetails {
+  browser: string;
+  os: string;
+  ipAddress?: string | null;
+  time: Date;
+}
+
+export interface LockedShareDetails {
+  itemType: 'file' | 'folder';
+  linkType: 'download' | 'upload';
+  createdAt: Date;
+  lockedAt: Date;
+}
+
+export interface ShareDetails {
+  ownerName: string;
+  itemType: 'file' | 'folder';
+  permission: string;
+}
+
+/**
+ * Build an absolute link into the client application
+ */
+export const getClientUrl = (path: string): string => {
+  const base = (process.env.CLIENT_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  return `${base}${path.startsWith('/') ? path : `/${path}`}`;
+};
+
+/**
+ * Send an email
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getMailTransport().send(getMailFrom(), message);
+  logger.info('Email sent', { to: message.to, subject: message.subject });
+};
+
+/**
+ * Templates
+ */
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render paragraphs and an optional call-to-action link as text and HTML
+ */
+const renderTemplate = (
+  to: string,
+  subject: string,
+  paragraphs: string[],
+  action?: { label: string; url: string }
+): MailMessage => {
+  const text = [
+    ...paragraphs,
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+    '— CrypticStorage',
+  ].join('\n\n');
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html><body style="font-family: sans-serif; color: #111827; line-height: 1.5;">',
+    ...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    ...(action
+      ? [
+          `<p><a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 10px 16px; ` +
+            `background: #4f46e5; color: #ffffff; border-radius: 6px; text-decoration: none;">` +
+            `${escapeHtml(action.label)}</a></p>`,
+        ]
+      : []),
+    '<p style="color: #6b7280;">— CrypticStorage</p>',
+    '</body></html>',
+  ].join('\n');
+
+  return { to, subject, text, html };
+};
+
+/**
+ * Ask a new user to confirm their email address
+ */
+export const sendVerificationEmail = async (
+  to: string,
+  token: string,
+  ttlHours: number
+): Promise<void> => {
+  await sendMail(
+    renderTemplate(
+      to,
+      'Verify your CrypticStorage email address',
+      [
+        'Welcome to CrypticStorage. Please confirm that this is your email address.',
+        `The link expires in ${ttlHours} hours. If you did not create an account, ignore this email.`,
+      ],
+      { label: 'Verify email', url: getClientUrl(`/verify-email?token=${token}`) }
+    )
+  );
+};
+
+/**
+ * Ask the user to confirm a changed email address, and tell the old address
+ */
+export const sendEmailChangeConfirmation = async (
+  newEmail: string,
+  previousEmail: string,
+  token: string,
+  ttlHours: number
+): Promise<void> => {
+  await sendMail(
+    renderTemplate(
+      newEmail,
+      'Confirm your new CrypticStorage email address',
+      [
+        'The email address of your CrypticStorage account was changed to this address.',
+        `Please confirm it within ${ttlHours} hours.`,
+      ],
+      { label: 'Confirm email', url: getClientUrl(`/verify-email?token=${token}`) }
+    )
+  );
+
+  await sendMail(
+    renderTemplate(previousEmail, 'Your CrypticStorage email address was changed', [
+      `The email address of your CrypticStorage account was changed to ${newEmail}.`,
+      'If you did not make this change, reset your password with your recovery key and contact support.',
+    ])
+  );
+};
+
+/**
+ * Alert the user about a sign-in from a device not seen before
+ */
+export const sendNewDeviceAlert = async (to: string, device: DeviceDetails): Promise<void> => {
+  await sendMail(
+    renderTemplate(
+      to,
+      'New sign-in to your CrypticStorage account',
+      [
+        `Your account was signed in to from ${device.browser} on ${device.os}` +
+          `${device.ipAddress ? ` (IP ${device.ipAddress})` : ''} at ${device.time.toUTCString()}.`,
+        'If this was you, no action is needed. Otherwise sign out the device and change your password.',
+      ],
+      { label: 'Review active devices', url: getClientUrl('/settings') }
+    )
+  );
+};
+
+/**
+ * Tell the user their account was locked and how to unlock it early
+ */
+export const sendAccountLockedEmail = async (
+  to: string,
+  token: string,
+  lockedUntil: Date
+): Promise<void> => {
+  await sendMail(
+    renderTemplate(
+      to,
+      'Your CrypticStorage account was temporarily locked',
+      [
+        'Your account was locked after too many failed sign-in attempts. ' +
+          `It unlocks automatically at ${lockedUntil.toUTCString()}.`,
+        'If these attempts were you, use the link below to unlock it now. ' +
+          'If not, someone may be guessing your password; consider changing it once you are back in.',
+      ],
+      { label: 'Unlock account', url: getClientUrl(`/unlock-account?token=${token}`) }
+    )
+  );
+};
+
+/**
+ * Confirm that an account is scheduled for erasure
+ */
+export const sendAccountDeletionScheduledEmail = async (
+  to: string,
+  scheduledFor: Date
+): Promise<void> => {
+  await sendMail(
+    renderTemplate(
+      to,
+      'Your CrypticStorage account will be deleted',
+      [
+        'We received a request to delete your account. Your files, shares and keys ' +
+          `will be permanently erased on ${scheduledFor.toUTCString()}.`,
+        'Until then you can sign in to download your files or cancel the deletion. ' +
+          'If you did not ask for this, cancel it and change your password.',
+      ],
+      { label: 'Review account deletion', url: getClientUrl('/settings') }
+    )
+  );
+};
+
+/**
+ * Confirm that an account has been erased
+ */
+export const sendAccountDeletedEmail = async (to: string): Promise<void> => {
+  await sendMail(
+    renderTemplate(to, 'Your CrypticStorage account has been deleted', [
+      'Your account and all of its files, shares and keys have been permanently erased.',
+      'Thank you for using CrypticStorage.',
+    ])
+  );
+};
+
+/**
+ * Tell the owner of a share link that it was locked after repeated wrong passwords
+ */
+export const sendShareLockedEmail = async (
+  to: string,
+  share: LockedShareDetails
+): Promise<void> => {
+  const link = share.linkType === 'upload' ? 'file request link' : `share link to a ${share.itemType}`;
+
+  await sendMail(
+    renderTemplate(
+      to,
+      'One of your CrypticStorage share links was locked',
+      [
+        `Your ${link} created on ${share.createdAt.toUTCString()} was locked at ` +
+          `${share.lockedAt.toUTCString()} after too many wrong passwords.`,
+        'Nobody can open it until you unlock it. If you did not expect these attempts, ' +
+          'rotate the link instead: this gives it a new address and password and the old one stops working.',
+      ],
+      { label: 'Manage share links', url: getClientUrl('/shared?tab=links') }
+    )
+  );
+};
+
+/**
+ * Tell a user that a file or folder was shared with them
+ */
+export const sendShareNotification = async (to: string, share: ShareDetails): Promise<void> => {
+  await sendMail(
+    renderTemplate(
+      to,
+      `${share.ownerName} shared a ${share.itemType} with you`,
+      [
+        `${share.ownerName} shared a ${share.itemType} with you on CrypticStorage ` +
+          `with ${share.permission.toLowerCase()} access.`,
+        'It stays end-to-end encrypted; only you can decrypt it after signing in.',
+      ],
+      { label: 'Open shared items', url: getClientUrl('/shared') }
+    )
+  );
+};
+
+export default {
+  getClientUrl,
+  sendMail,
+  sendVerificationEmail,
+  sendEmailChangeConfirmation,
+  sendNewDeviceAlert,
+  sendAccountLockedEmail,
+  sendAccountDeletionScheduledEmail,
+  sendAccountDeletedEmail,
+  sendShareLockedEmail,
+  sendShareNotification,
+};
@@ -0,0 +1,150 @@
+import logger from '../utils/logger';
+import * as schedulerService from './scheduler.service';
+import * as shareService from './share.service';
+import * as authService from './auth.service';
+import * as auditService from './audit.service';
+import * as trashService from './trash.service';
+import * as uploadService from './upload.service';
+import * as reconciliationService from './reconciliation.service';
+import * as accountDeletionService from './accountDeletion.service';
+import * as shareAccessLogService from './shareAccessLog.service';
+
+/**
+ * Maintenance Service
+ * Registers the recurring cleanup jobs with the scheduler
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Get the audit log retention period from the environment
+ */
+export const getAuditLogRetentionDays = (): number => {
+  const days = parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '90', 10);
+  return Number.isFinite(days) && days > 0 ? days : 90;
+};
+
+/**
+ * Get the share access log retention period from the environment
+ */
+export const getShareAccessLogRetentionDays = (): number => {
+  const days = parseInt(process.env.SHARE_ACCESS_LOG_RETENTION_DAYS || '180', 10);
+  return Number.isFinite(days) && days > 0 ? days : 180;
+};
+
+/**
+ * Get how long expired share links are kept before they are deleted
+ */
+export const getExpiredShareRetentionDays = (): number => {
+  const days = parseInt(process.env.EXPIRED_SHARE_RETENTION_DAYS || '30', 10);
+  return Number.isFinite(days) && days > 0 ? days : 30;
+};
+
+/**
+ * Register all maintenance jobs
+ */
+export const registerMaintenanceJobs = (): void => {
+  schedulerService.registerJob({
+    name: 'expired-shares',
+    description: 'Delete share links that expired before the retention period',
+    intervalMs: HOUR,
+    handler: async () => {
+      const retentionDays = getExpiredShareRetentionDays();
+      return {
+        retentionDays,
+        deleted: await shareService.cleanupExpiredShares(retentionDays),
+      };
+    },
+  });
+
+  schedulerService.registerJob({
+    name: 'expired-sessions',
+    description: 'Delete sessions past their expiry date',
+    intervalMs: HOUR,
+    handler: async () => ({ deleted: await authService.cleanupExpiredSessions() }),
+  });
+
+  schedulerService.registerJob({
+    name: 'expired-credential-backups',
+    description: 'Delete pre-change credentials whose rollback window has closed',
+    intervalMs: HOUR,
+    handler: async () => ({ deleted: await authService.cleanupExpiredCredentialBackups() }),
+  });
+
+  schedulerService.registerJob({
+    name: 'scheduled-account-deletions',
+    description: 'Erase accounts whose deletion grace period has ended',
+    intervalMs: HOUR,
+    lockTtlMs: 2 * HOUR,
+    handler: () => accountDeletionService.processScheduledDeletions(),
+  });
+
+  schedulerService.registerJob({
+    name: 'audit-log-retention',
+    description: 'Delete audit logs older than the retention period',
+    intervalMs: DAY,
+    handler: async () => {
+      const retentionDays = getAuditLogRetentionDays();
+      return {
+        retentionDays,
+        deleted: await auditService.cleanupOldAuditLogs(retentionDays),
+      };
+    },
+  });
+
+  schedulerService.registerJob({
+    name: 'share-access-log-retention',
+    description: 'Delete share access events older than their retention period',
+    intervalMs: DAY,
+    handler: async () => {
+      const retentionDays = getShareAccessLogRetentionDays();
+      return {
+        retentionDays,
+        deleted: await shareAccessLogService.cleanupOldShareAccessEvents(retentionDays),
+      };
+    },
+  });
+
+  schedulerService.registerJob({
+    name: 'trash-purge',
+    description: 'Permanently delete trashed items past their retention period',
+    intervalMs: HOUR,
+    handler: () => trashService.purgeExpiredTrash(),
+  });
+
+  schedulerService.registerJob({
+    name: 'orphaned-objects',
+    description:
+      'Abort expired upload sessions, reconcile storage with the database and fix usage counters',
+    intervalMs: DAY,
+    lockTtlMs: 2 * HOUR,
+    handler: async () => {
+      const abortedUploads = await uploadService.cleanupExpiredUploadSessions();
+      const report = await reconciliationService.reconcileStorage({
+        deleteOrphans: process.env.STORAGE_RECONCILE_DELETE_ORPHANS === 'true',
+        markBroken: true,
+        recomputeUsage: true,
+      });
+
+      return {
+        abortedUploads,
+        orphanedCount: report.orphanedCount,
+        orphanedBytes: report.orphanedBytes,
+        deletedObjects: report.deletedObjects,
+        missingObjects: report.missingObjects.length,
+        markedRecords: report.markedRecords,
+        usageCorrections: report.usageCorrections.length,
+      };
+    },
+  });
+
+  logger.info('Maintenance jobs registered');
+};
+
+export default {
+  getAuditLogRetentionDays,
+  getShareAccessLogRetentionDays,
+  registerMaintenanceJobs,
+};
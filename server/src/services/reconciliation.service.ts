@@ -0,0 +1,412 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma, runTransaction } from '../config/database';
+import logger from '../utils/logger';
+import { StorageError } from '../utils/errors';
+import * as storageService from './storage.service';
+import { StoredObject } from './storage.service';
+import { UploadSessionStatus } from './upload.service';
+
+/**
+ * Reconciliation Service
+ * Compares the objects in storage with the paths recorded in the database.
+ * Objects no row points to (e.g. left behind when a transaction failed after
+ * the upload) are orphans; rows whose object is gone are broken. It also
+ * recomputes User.storageUsed, since the incremental counter can drift when
+ * either of those happens.
+ */
+
+/**
+ * Interface Definitions
+ */
+export interface ReconcileOptions {
+  userId?: string;
+  deleteOrphans?: boolean;
+  markBroken?: boolean;
+  recomputeUsage?: boolean;
+  // Objects newer than this are skipped, as their upload may still be in progress
+  gracePeriodMs?: number;
+}
+
+export interface OrphanedObject {
+  userId: string;
+  storagePath: string;
+  size: number;
+  lastModified: Date;
+}
+
+export type MissingObjectType = 'file' | 'version' | 'thumbnail';
+
+export interface MissingObject {
+  type: MissingObjectType;
+  userId: string;
+  fileId: string;
+  versionId?: string;
+  storagePath: string;
+}
+
+export interface UsageCorrection {
+  userId: string;
+  previous: bigint;
+  actual: bigint;
+}
+
+export interface ReconciliationReport {
+  startedAt: Date;
+  finishedAt: Date;
+  usersScanned: number;
+  objectsScanned: number;
+  orphanedCount: number;
+  orphanedBytes: bigint;
+  orphanedObjects: OrphanedObject[];
+  missingObjects: MissingObject[];
+  deletedObjects: number;
+  markedRecords: number;
+  clearedRecords: number;
+  usageCorrections: UsageCorrection[];
+}
+
+// Reconciliation Configuration
+export const DEFAULT_GRACE_PERIOD_MS = 60 * 60 * 1000; // 1 hour
+const MAX_REPORTED_ORPHANS = 1000;
+
+/**
+ * Compute a user's storage usage from the database.
+ * Trashed files no longer count, but their versions do until purged.
+ */
+export const computeStorageUsed = async (
+  userId: string,
+  client: PrismaClient = prisma
+): Promise<bigint> => {
+  const [files, versions] = await Promise.all([
+    client.file.aggregate({
+      where: { userId, isDeleted: false },
+      _sum: { encryptedSize: true },
+    }),
+    client.fileVersion.aggregate({
+      where: { file: { userId } },
+      _sum: { fileSize: true },
+    }),
+  ]);
+
+  return (files._sum.encryptedSize ?? BigInt(0)) + (versions._sum.fileSize ?? BigInt(0));
+};
+
+/**
+ * Set a user's storage usage to the value computed from the database.
+ * Returns the correction made, or null if the counter was accurate.
+ */
+export const recomputeStorageUsed = async (
+  userId: string
+): Promise<UsageCorrection | null> => {
+  return runTransaction(async (tx) => {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { storageUsed: true },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    const actual = await computeStorageUsed(userId, tx);
+    if (actual === user.storageUsed) {
+      return null;
+    }
+
+    await tx.user.update({
+      where: { id: userId },
+      data: { storageUsed: actual },
+    });
+
+    logger.warn('Storage usage corrected', {
+      userId,
+      previous: user.storageUsed.toString(),
+      actual: actual.toString(),
+    });
+
+    return { userId, previous: user.storageUsed, actual };
+  });
+};
+
+/**
+ * Set or clear the missing-object mark on files and versions
+ */
+const updateBrokenMarks = async (
+  files: Array<{ id: string; storageMissingAt: Date | null; missing: boolean }>,
+  versions: Array<{ id: string; storageMissingAt: Date | null; missing: boolean }>,
+  thumbnailFileIds: string[],
+  now: Date
+): Promise<{ marked: number; cleared: number }> => {
+  const toMark = (items: typeof files) =>
+    items.filter((i) => i.missing && !i.storageMissingAt).map((i) => i.id);
+  const toClear = (items: typeof files) =>
+    items.filter((i) => !i.missing && i.storageMissingAt).map((i) => i.id);
+
+  const [markedFiles, clearedFiles, markedVersions, clearedVersions] = await prisma.$transaction([
+    prisma.file.updateMany({
+      where: { id: { in: toMark(files) } },
+      data: { storageMissingAt: now },
+    }),
+    prisma.file.updateMany({
+      where: { id: { in: toClear(files) } },
+      data: { storageMissingAt: null },
+    }),
+    prisma.fileVersion.updateMany({
+      where: { id: { in: toMark(versions) } },
+      data: { storageMissingAt: now },
+    }),
+    prisma.fileVersion.updateMany({
+      where: { id: { in: toClear(versions) } },
+      data: { storageMissingAt: null },
+    }),
+    // A missing thumbnail is just dropped; the client regenerates it
+    prisma.file.updateMany({
+      where: { id: { in: thumbnailFileIds } },
+      data: { thumbnailPath: null },
+    }),
+  ]);
+
+  return {
+    marked: markedFiles.count + markedVersions.count + thumbnailFileIds.length,
+    cleared: clearedFiles.count + clearedVersions.count,
+  };
+};
+
+/**
+ * Reconcile the objects under one user's prefix with their database records
+ */
+const reconcileUser = async (
+  userId: string,
+  options: Required<Omit<ReconcileOptions, 'userId'>>,
+  report: ReconciliationReport,
+  now: Date
+): Promise<void> => {
+  const objects = await storageService.listUserObjects(userId);
+  const stored = new Map<string, StoredObject>(objects.map((o) => [o.storagePath, o]));
+
+  const files = await prisma.file.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      storagePath: true,
+      thumbnailPath: true,
+      storageMissingAt: true,
+      createdAt: true,
+      versions: {
+        select: { id: true, storagePath: true, storageMissingAt: true, createdAt: true },
+      },
+    },
+  });
+
+  // Upload sessions that are still open may be about to create a file row
+  const openSessions = await prisma.uploadSession.findMany({
+    where: { userId, status: UploadSessionStatus.ACTIVE },
+    select: { storagePath: true },
+  });
+
+  // Rows created within the grace period may have been written after the
+  // listing, so their objects are only checked on a later run
+  const cutoff = now.getTime() - options.gracePeriodMs;
+  const isSettled = (createdAt: Date) => createdAt.getTime() < cutoff;
+
+  const referenced = new Set<string>(openSessions.map((s) => s.storagePath));
+  const fileChecks: Array<{ id: string; storageMissingAt: Date | null; missing: boolean }> = [];
+  const versionChecks: typeof fileChecks = [];
+  const missingThumbnails: string[] = [];
+
+  for (const file of files) {
+    referenced.add(file.storagePath);
+    const fileMissing = isSettled(file.createdAt) && !stored.has(file.storagePath);
+    fileChecks.push({ id: file.id, storageMissingAt: file.storageMissingAt, missing: fileMissing });
+
+    if (fileMissing) {
+      report.missingObjects.push({
+        type: 'file',
+        userId,
+        fileId: file.id,
+        storagePath: file.storagePath,
+      });
+    }
+
+    if (file.thumbnailPath) {
+      referenced.add(file.thumbnailPath);
+      if (isSettled(file.createdAt) && !stored.has(file.thumbnailPath)) {
+        missingThumbnails.push(file.id);
+        report.missingObjects.push({
+          type: 'thumbnail',
+          userId,
+          fileId: file.id,
+          storagePath: file.thumbnailPath,
+        });
+      }
+    }
+
+    for (const version of file.versions) {
+      referenced.add(version.storagePath);
+      const versionMissing = isSettled(version.createdAt) && !stored.has(version.storagePath);
+      versionChecks.push({
+        id: version.id,
+        storageMissingAt: version.storageMissingAt,
+        missing: versionMissing,
+      });
+
+      if (versionMissing) {
+        report.missingObjects.push({
+          type: 'version',
+          userId,
+          fileId: file.id,
+          versionId: version.id,
+          storagePath: version.storagePath,
+        });
+      }
+    }
+  }
+
+  const orphans = objects.filter(
+    (o) => !referenced.has(o.storagePath) && o.lastModified.getTime() < cutoff
+  );
+
+  report.usersScanned += 1;
+  report.objectsScanned += objects.length;
+  recordOrphans(userId, orphans, report);
+
+  if (options.deleteOrphans && orphans.length > 0) {
+    await storageService.deleteMultipleFiles(orphans.map((o) => o.storagePath));
+    report.deletedObjects += orphans.length;
+  }
+
+  if (options.markBroken) {
+    const { marked, cleared } = await updateBrokenMarks(
+      fileChecks,
+      versionChecks,
+      missingThumbnails,
+      now
+    );
+    report.markedRecords += marked;
+    report.clearedRecords += cleared;
+  }
+
+  if (options.recomputeUsage) {
+    const correction = await recomputeStorageUsed(userId);
+    if (correction) {
+      report.usageCorrections.push(correction);
+    }
+  }
+};
+
+/**
+ * Add orphaned objects to the report, keeping the listed details bounded
+ */
+const recordOrphans = (
+  userId: string,
+  orphans: StoredObject[],
+  report: ReconciliationReport
+): void => {
+  for (const orphan of orphans) {
+    report.orphanedCount += 1;
+    report.orphanedBytes += BigInt(orphan.size);
+
+    if (report.orphanedObjects.length < MAX_REPORTED_ORPHANS) {
+      report.orphanedObjects.push({ userId, ...orphan });
+    }
+  }
+};
+
+/**
+ * Reconcile storage with the database.
+ * Without options this only produces a report; deleting orphans, marking
+ * broken records and fixing usage counters are opt-in.
+ */
+export const reconcileStorage = async (
+  options: ReconcileOptions = {}
+): Promise<ReconciliationReport> => {
+  const resolved = {
+    deleteOrphans: options.deleteOrphans ?? false,
+    markBroken: options.markBroken ?? false,
+    recomputeUsage: options.recomputeUsage ?? false,
+    gracePeriodMs: options.gracePeriodMs ?? DEFAULT_GRACE_PERIOD_MS,
+  };
+
+  const startedAt = new Date();
+  const report: ReconciliationReport = {
+    startedAt,
+    finishedAt: startedAt,
+    usersScanned: 0,
+    objectsScanned: 0,
+    orphanedCount: 0,
+    orphanedBytes: BigInt(0),
+    orphanedObjects: [],
+    missingObjects: [],
+    deletedObjects: 0,
+    markedRecords: 0,
+    clearedRecords: 0,
+    usageCorrections: [],
+  };
+
+  try {
+    logger.info('Reconciling storage', { userId: options.userId, ...resolved });
+
+    const users = await prisma.user.findMany({
+      where: options.userId ? { id: options.userId } : undefined,
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const user of users) {
+      await reconcileUser(user.id, resolved, report, startedAt);
+    }
+
+    // Prefixes left behind by users that no longer exist are entirely orphaned
+    if (!options.userId) {
+      const knownUserIds = new Set(users.map((u) => u.id));
+      const unknownUserIds = (await storageService.listStoredUserIds()).filter(
+        (id) => !knownUserIds.has(id)
+      );
+
+      for (const userId of unknownUserIds) {
+        const cutoff = startedAt.getTime() - resolved.gracePeriodMs;
+        const orphans = (await storageService.listUserObjects(userId)).filter(
+          (o) => o.lastModified.getTime() < cutoff
+        );
+
+        report.objectsScanned += orphans.length;
+        recordOrphans(userId, orphans, report);
+
+        if (resolved.deleteOrphans && orphans.length > 0) {
+          await storageService.deleteMultipleFiles(orphans.map((o) => o.storagePath));
+          report.deletedObjects += orphans.length;
+        }
+      }
+    }
+
+    report.finishedAt = new Date();
+
+    logger.info('Storage reconciled', {
+      usersScanned: report.usersScanned,
+      objectsScanned: report.objectsScanned,
+      orphanedCount: report.orphanedCount,
+      orphanedBytes: report.orphanedBytes.toString(),
+      missingObjects: report.missingObjects.length,
+      deletedObjects: report.deletedObjects,
+      markedRecords: report.markedRecords,
+      usageCorrections: report.usageCorrections.length,
+    });
+
+    return report;
+  } catch (error) {
+    if (error instanceof StorageError) {
+      throw error;
+    }
+    logger.error('Failed to reconcile storage', {
+      userId: options.userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to reconcile storage');
+  }
+};
+
+export default {
+  computeStorageUsed,
+  recomputeStorageUsed,
+  reconcileStorage,
+};
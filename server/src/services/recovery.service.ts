@@ -0,0 +1,298 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { redis, getCache, setCache, deleteCache, getCacheTTL } from '../config/redis';
+import logger from '../utils/logger';
+import { hashSecret } from '../utils/hash';
+import { AuthError, NotFoundError, TokenError, ValidationError } from '../utils/errors';
+import * as auditService from './audit.service';
+import * as authService from './auth.service';
+import * as mailService from './mail.service';
+import * as kdfService from './kdf.service';
+import type { KdfParams } from './kdf.service';
+
+/**
+ * Recovery Service
+ * Zero-knowledge account recovery. At registration the client wraps a second
+ * copy of the master key with a key derived from a random recovery key that
+ * only the user sees. The server stores that wrapped copy and a hash of a
+ * verifier derived from the same recovery key, so it can check the key
+ * without ever being able to unwrap the master key.
+ *
+ * Reset flow:
+ *   1. requestRecovery emails a single-use link proving control of the address
+ *   2. getRecoveryChallenge hands the wrapped copy to the holder of the link
+ *   3. the client unwraps it with the recovery key and re-wraps the master key
+ *      under the new password
+ *   4. resetPassword checks the verifier and stores the new password and keys
+ */
+
+const RECOVERY_CONFIG = {
+  // How long an emailed recovery link stays valid
+  TOKEN_TTL_MINUTES: parseInt(process.env.RECOVERY_TOKEN_TTL_MINUTES || '30', 10),
+
+  // Wrong recovery keys allowed before the link is burned
+  MAX_ATTEMPTS: 5,
+};
+
+/**
+ * Interface Definitions
+ */
+export interface RecoveryKeyData {
+  recoveryKeyEncrypted: string;
+  recoveryVerifier: string;
+}
+
+export interface RecoveryResetData {
+  token: string;
+  recoveryVerifier: string;
+  password: string;
+  salt: string;
+  kdf?: KdfParams;
+  masterKeyEncrypted: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+interface RecoveryTokenState {
+  userId: string;
+  attempts: number;
+}
+
+const getTokenKey = (token: string): string => `recovery:token:${hashSecret(token)}`;
+
+/**
+ * Compare a verifier against its stored hash in constant time
+ */
+const verifierMatches = (verifier: string, storedHash: string): boolean => {
+  const expected = Buffer.from(storedHash, 'hex');
+  const actual = Buffer.from(hashSecret(verifier), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Load the state of an emailed recovery link
+ */
+const getTokenState = async (token: string): Promise<RecoveryTokenState> => {
+  const state = await getCache<RecoveryTokenState>(getTokenKey(token));
+
+  if (!state) {
+    throw new TokenError('Recovery link is invalid or has expired');
+  }
+
+  return state;
+};
+
+/**
+ * Store (or replace) a user's recovery key material
+ */
+export const setRecoveryKey = async (
+  userId: string,
+  data: RecoveryKeyData,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      recoveryKeyEncrypted: data.recoveryKeyEncrypted,
+      recoveryVerifierHash: hashSecret(data.recoveryVerifier),
+    },
+  });
+
+  await auditService.logAuthEvent(
+    auditService.AuditAction.RECOVERY_KEY_SET,
+    userId,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  logger.info('Recovery key set', { userId });
+};
+
+/**
+ * Replace the recovery key of a signed-in user after re-checking the password
+ */
+export const updateRecoveryKey = async (
+  userId: string,
+  password: string,
+  data: RecoveryKeyData,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { passwordHash: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (!(await authService.verifyPassword(password, user.passwordHash))) {
+    throw new AuthError('Password is incorrect');
+  }
+
+  await setRecoveryKey(userId, data, ipAddress, userAgent);
+};
+
+/**
+ * Email a recovery link. Does nothing (but looks the same to the caller) when
+ * the address is unknown or the account has no recovery key.
+ */
+export const requestRecovery = async (
+  email: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, isActive: true, recoveryKeyEncrypted: true },
+  });
+
+  if (!user || !user.isActive || !user.recoveryKeyEncrypted) {
+    logger.info('Recovery requested for an account that cannot be recovered', { email });
+    return;
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await setCache(
+    getTokenKey(token),
+    { userId: user.id, attempts: 0 } as RecoveryTokenState,
+    RECOVERY_CONFIG.TOKEN_TTL_MINUTES * 60
+  );
+
+  await mailService.sendMail({
+    to: user.email,
+    subject: 'Recover your CrypticStorage account',
+    text: [
+      'Someone asked to reset the password of your CrypticStorage account.',
+      '',
+      'Open this link and enter your recovery key to choose a new password:',
+      mailService.getClientUrl(`/recover?token=${token}`),
+      '',
+      `The link expires in ${RECOVERY_CONFIG.TOKEN_TTL_MINUTES} minutes.`,
+      'If this was not you, you can ignore this email.',
+    ].join('\n'),
+  });
+
+  await auditService.logAuthEvent(
+    auditService.AuditAction.PASSWORD_RESET_REQUEST,
+    user.id,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  logger.info('Recovery link sent', { userId: user.id });
+};
+
+/**
+ * Get the wrapped master key copy for a valid recovery link
+ */
+export const getRecoveryChallenge = async (token: string) => {
+  const state = await getTokenState(token);
+
+  const user = await prisma.user.findUnique({
+    where: { id: state.userId },
+    select: { email: true, recoveryKeyEncrypted: true },
+  });
+
+  if (!user || !user.recoveryKeyEncrypted) {
+    await deleteCache(getTokenKey(token));
+    throw new NotFoundError('No recovery key is set for this account');
+  }
+
+  return {
+    email: user.email,
+    recoveryKeyEncrypted: user.recoveryKeyEncrypted,
+  };
+};
+
+/**
+ * Reset the password with a recovery key. The client has already unwrapped
+ * the master key with the recovery key and re-wrapped it under the new
+ * password; the server only checks the verifier and swaps the stored values.
+ */
+export const resetPassword = async (data: RecoveryResetData): Promise<void> => {
+  const tokenKey = getTokenKey(data.token);
+  const state = await getTokenState(data.token);
+
+  const user = await prisma.user.findUnique({
+    where: { id: state.userId },
+    select: { id: true, recoveryVerifierHash: true },
+  });
+
+  if (!user || !user.recoveryVerifierHash) {
+    await deleteCache(tokenKey);
+    throw new NotFoundError('No recovery key is set for this account');
+  }
+
+  if (!verifierMatches(data.recoveryVerifier, user.recoveryVerifierHash)) {
+    const attempts = state.attempts + 1;
+
+    if (attempts >= RECOVERY_CONFIG.MAX_ATTEMPTS) {
+      await deleteCache(tokenKey);
+    } else {
+      // Keep the link's original expiry
+      const ttl = await getCacheTTL(tokenKey);
+      await setCache(tokenKey, { ...state, attempts }, Math.max(ttl, 1));
+    }
+
+    await auditService.logSecurityEvent(
+      auditService.AuditAction.PASSWORD_RESET,
+      user.id,
+      data.ipAddress,
+      data.userAgent,
+      'Invalid recovery key'
+    );
+
+    throw new AuthError('Invalid recovery key', {
+      remainingAttempts: Math.max(0, RECOVERY_CONFIG.MAX_ATTEMPTS - attempts),
+    });
+  }
+
+  if (!data.password || !data.salt || !data.masterKeyEncrypted) {
+    throw new ValidationError('New password and key material are required');
+  }
+
+  // Burn the link before writing; only one concurrent request can claim it
+  if ((await redis.del(tokenKey)) === 0) {
+    throw new TokenError('Recovery link is invalid or has expired');
+  }
+
+  const passwordHash = await authService.hashPassword(data.password);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      passwordHash,
+      salt: data.salt,
+      ...kdfService.toKdfColumns(data.kdf),
+      masterKeyEncrypted: data.masterKeyEncrypted,
+      // Following the emailed link proves control of the address
+      emailVerified: true,
+    },
+  });
+
+  // Sign out everywhere; whoever held the old password loses access
+  await authService.deleteAllUserSessions(user.id);
+
+  await auditService.logAuthEvent(
+    auditService.AuditAction.PASSWORD_RESET,
+    user.id,
+    true,
+    data.ipAddress,
+    data.userAgent
+  );
+
+  logger.info('Password reset with recovery key', { userId: user.id });
+};
+
+export default {
+  setRecoveryKey,
+  updateRecoveryKey,
+  requestRecovery,
+  getRecoveryChallenge,
+  resetPassword,
+};
@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { getCache, setCache, setCacheNX, deleteCache } from '../config/redis';
+import logger from '../utils/logger';
+import { TokenError } from '../utils/errors';
+import * as auditService from './audit.service';
+import * as authService from './auth.service';
+
+/**
+ * Refresh Token Service
+ * Rotates refresh tokens and detects replay. Every session owns one token
+ * family in Redis. Each refresh token carries a unique jti; using it claims
+ * the jti and issues a successor in the same family. Because a token is only
+ * ever issued as the successor of a claimed one, presenting an already
+ * claimed jti means the token was copied: the family and its session are
+ * revoked so neither the thief nor the victim can keep refreshing.
+ */
+
+const REFRESH_TOKEN_CONFIG = {
+  // Matches the lifetime of the session the family belongs to
+  FAMILY_TTL_SECONDS: 7 * 24 * 60 * 60,
+};
+
+/**
+ * Interface Definitions
+ */
+interface TokenFamily {
+  userId: string;
+  createdAt: string;
+}
+
+const getFamilyKey = (sessionId: string): string => `refresh:family:${sessionId}`;
+const getUsedKey = (jti: string): string => `refresh:used:${jti}`;
+
+const generateTokenId = (): string => crypto.randomBytes(16).toString('base64url');
+
+/**
+ * Start a token family for a new session
+ * @returns jti for the first refresh token of the family
+ */
+export const createTokenFamily = async (userId: string, sessionId: string): Promise<string> => {
+  await setCache(
+    getFamilyKey(sessionId),
+    { userId, createdAt: new Date().toISOString() } as TokenFamily,
+    REFRESH_TOKEN_CONFIG.FAMILY_TTL_SECONDS
+  );
+
+  logger.debug('Refresh token family created', { userId, sessionId });
+
+  return generateTokenId();
+};
+
+/**
+ * Revoke a token family and the session it belongs to
+ */
+export const revokeTokenFamily = async (sessionId: string): Promise<void> => {
+  await deleteCache(getFamilyKey(sessionId));
+
+  try {
+    await authService.deleteSession(sessionId);
+  } catch (error) {
+    // The session may already be gone
+    logger.debug('Session already removed while revoking token family', { sessionId });
+  }
+
+  logger.info('Refresh token family revoked', { sessionId });
+};
+
+/**
+ * Claim a refresh token and issue its successor
+ * @returns jti for the next refresh token in the family
+ */
+export const rotateRefreshToken = async (
+  userId: string,
+  sessionId: string,
+  jti: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<string> => {
+  const family = await getCache<TokenFamily>(getFamilyKey(sessionId));
+
+  if (!family || family.userId !== userId) {
+    throw new TokenError('Session has been revoked');
+  }
+
+  // Atomically mark the presented token as used
+  const claimed = await setCacheNX(
+    getUsedKey(jti),
+    sessionId,
+    REFRESH_TOKEN_CONFIG.FAMILY_TTL_SECONDS
+  );
+
+  if (!claimed) {
+    await revokeTokenFamily(sessionId);
+
+    await auditService.logSecurityEvent(
+      auditService.AuditAction.REFRESH_TOKEN_REUSE,
+      userId,
+      ipAddress,
+      userAgent,
+      `Refresh token reused; session ${sessionId} revoked`
+    );
+
+    throw new TokenError('Refresh token has already been used');
+  }
+
+  logger.debug('Refresh token rotated', { userId, sessionId });
+
+  return generateTokenId();
+};
+
+export default {
+  createTokenFamily,
+  revokeTokenFamily,
+  rotateRefreshToken,
+};
@@ -0,0 +1,334 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { redis } from '../config/redis';
+import logger from '../utils/logger';
+import { ConflictError, NotFoundError } from '../utils/errors';
+
+/**
+ * Scheduler Service
+ * Runs recurring background jobs. Job state and locks are kept in Redis, so
+ * when several API instances are running each job runs on only one of them at
+ * a time and the schedule survives restarts. A failed run is retried with
+ * exponential backoff before falling back to the regular interval.
+ */
+
+/**
+ * Interface Definitions
+ */
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMs: number;
+  handler: () => Promise<unknown>;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  lockTtlMs?: number;
+}
+
+export enum JobStatus {
+  IDLE = 'idle',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  RETRYING = 'retrying',
+  FAILED = 'failed',
+}
+
+export interface JobState {
+  name: string;
+  description: string;
+  intervalMs: number;
+  status: JobStatus;
+  lastRunAt: Date | null;
+  lastFinishedAt: Date | null;
+  lastDurationMs: number | null;
+  lastResult: unknown;
+  lastError: string | null;
+  failures: number;
+  nextRunAt: Date | null;
+  instance: string | null;
+}
+
+// Scheduler Configuration
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_RETRY_BASE_DELAY_MS = 30 * 1000;
+const DEFAULT_LOCK_TTL_MS = 10 * 60 * 1000;
+
+const KEY_PREFIX = 'jobs';
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+// Release a lock only if this instance still holds it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+const jobs = new Map<string, JobDefinition>();
+const runningJobs = new Set<string>();
+let tickTimer: NodeJS.Timeout | null = null;
+
+const stateKey = (name: string) => `${KEY_PREFIX}:state:${name}`;
+const lockKey = (name: string) => `${KEY_PREFIX}:lock:${name}`;
+
+/**
+ * Serialize a job result for storage, including BigInt values
+ */
+const serializeResult = (result: unknown): string =>
+  JSON.stringify(result ?? null, (_key, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+
+/**
+ * Get the delay before retrying a job after consecutive failures
+ */
+export const getRetryDelay = (job: JobDefinition, failures: number): number => {
+  const base = job.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  return Math.min(base * 2 ** (failures - 1), job.intervalMs);
+};
+
+/**
+ * Register a recurring job
+ */
+export const registerJob = (job: JobDefinition): void => {
+  if (jobs.has(job.name)) {
+    throw new ConflictError(`Job ${job.name} is already registered`);
+  }
+
+  jobs.set(job.name, job);
+  logger.info('Job registered', { job: job.name, intervalMs: job.intervalMs });
+};
+
+/**
+ * Try to take the distributed lock for a job
+ */
+const acquireLock = async (job: JobDefinition): Promise<string | null> => {
+  const token = uuidv4();
+  const result = await redis.set(
+    lockKey(job.name),
+    token,
+    'PX',
+    job.lockTtlMs ?? DEFAULT_LOCK_TTL_MS,
+    'NX'
+  );
+
+  return result === 'OK' ? token : null;
+};
+
+/**
+ * Release the distributed lock for a job
+ */
+const releaseLock = async (name: string, token: string): Promise<void> => {
+  try {
+    await redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey(name), token);
+  } catch (error) {
+    // The lock expires on its own
+    logger.warn('Failed to release job lock', {
+      job: name,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Whether a job is due to run
+ */
+const isDue = async (name: string, now: number): Promise<boolean> => {
+  const nextRunAt = await redis.hget(stateKey(name), 'nextRunAt');
+  return !nextRunAt || Number(nextRunAt) <= now;
+};
+
+/**
+ * Run a job if it is due and no other instance is running it.
+ * Returns whether the job ran.
+ */
+export const runJobIfDue = async (name: string): Promise<boolean> => {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new NotFoundError(`Job ${name} not found`);
+  }
+
+  if (runningJobs.has(name) || !(await isDue(name, Date.now()))) {
+    return false;
+  }
+
+  const token = await acquireLock(job);
+  if (!token) {
+    return false;
+  }
+
+  runningJobs.add(name);
+
+  try {
+    // Another instance may have finished the job while we waited for the lock
+    if (!(await isDue(name, Date.now()))) {
+      return false;
+    }
+
+    const startedAt = Date.now();
+    await redis.hset(stateKey(name), {
+      status: JobStatus.RUNNING,
+      lastRunAt: startedAt,
+      instance: INSTANCE_ID,
+    });
+
+    logger.info('Job started', { job: name });
+
+    try {
+      const result = await job.handler();
+      const finishedAt = Date.now();
+
+      await redis.hset(stateKey(name), {
+        status: JobStatus.SUCCEEDED,
+        lastFinishedAt: finishedAt,
+        lastDurationMs: finishedAt - startedAt,
+        lastResult: serializeResult(result),
+        lastError: '',
+        failures: 0,
+        nextRunAt: finishedAt + job.intervalMs,
+      });
+
+      logger.info('Job completed', { job: name, durationMs: finishedAt - startedAt });
+    } catch (error) {
+      const finishedAt = Date.now();
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const failures = await redis.hincrby(stateKey(name), 'failures', 1);
+      const maxRetries = job.maxRetries ?? DEFAULT_MAX_RETRIES;
+      const willRetry = failures <= maxRetries;
+
+      await redis.hset(stateKey(name), {
+        status: willRetry ? JobStatus.RETRYING : JobStatus.FAILED,
+        lastFinishedAt: finishedAt,
+        lastDurationMs: finishedAt - startedAt,
+        lastError: message,
+        // Give up on retries after maxRetries and wait for the next regular run
+        failures: willRetry ? failures : 0,
+        nextRunAt: finishedAt + (willRetry ? getRetryDelay(job, failures) : job.intervalMs),
+      });
+
+      logger.error('Job failed', { job: name, failures, willRetry, error: message });
+    }
+
+    return true;
+  } finally {
+    runningJobs.delete(name);
+    await releaseLock(name, token);
+  }
+};
+
+/**
+ * Check every registered job and run the ones that are due
+ */
+export const tick = async (): Promise<void> => {
+  for (const name of jobs.keys()) {
+    try {
+      await runJobIfDue(name);
+    } catch (error) {
+      // Usually Redis being unavailable; try again on the next tick
+      logger.error('Failed to check job', {
+        job: name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+};
+
+/**
+ * Start checking for due jobs on an interval
+ */
+export const startScheduler = (tickIntervalMs: number): void => {
+  if (tickTimer) {
+    return;
+  }
+
+  logger.info('Starting job scheduler', {
+    instance: INSTANCE_ID,
+    tickIntervalMs,
+    jobs: Array.from(jobs.keys()),
+  });
+
+  tickTimer = setInterval(() => {
+    void tick();
+  }, tickIntervalMs);
+
+  // Don't keep the process alive just for the scheduler
+  tickTimer.unref();
+
+  void tick();
+};
+
+/**
+ * Stop checking for due jobs. Jobs already running are left to finish.
+ */
+export const stopScheduler = (): void => {
+  if (tickTimer) {
+    clearInterval(tickTimer);
+    tickTimer = null;
+    logger.info('Job scheduler stopped');
+  }
+};
+
+/**
+ * Get the state of a single job
+ */
+const getJobState = async (job: JobDefinition): Promise<JobState> => {
+  const state = await redis.hgetall(stateKey(job.name));
+  const toDate = (value?: string) => (value ? new Date(Number(value)) : null);
+
+  let lastResult: unknown = null;
+  try {
+    lastResult = state.lastResult ? JSON.parse(state.lastResult) : null;
+  } catch {
+    lastResult = state.lastResult;
+  }
+
+  return {
+    name: job.name,
+    description: job.description,
+    intervalMs: job.intervalMs,
+    status: (state.status as JobStatus) || JobStatus.IDLE,
+    lastRunAt: toDate(state.lastRunAt),
+    lastFinishedAt: toDate(state.lastFinishedAt),
+    lastDurationMs: state.lastDurationMs ? Number(state.lastDurationMs) : null,
+    lastResult,
+    lastError: state.lastError || null,
+    failures: Number(state.failures || 0),
+    nextRunAt: toDate(state.nextRunAt),
+    instance: state.instance || null,
+  };
+};
+
+/**
+ * Get the state of every registered job
+ */
+export const getJobStates = async (): Promise<JobState[]> => {
+  return Promise.all(Array.from(jobs.values()).map(getJobState));
+};
+
+/**
+ * Make a job due immediately. It runs on the next tick of whichever instance
+ * gets the lock.
+ */
+export const triggerJob = async (name: string): Promise<JobState> => {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new NotFoundError(`Job ${name} not found`);
+  }
+
+  await redis.hset(stateKey(name), { nextRunAt: Date.now() });
+
+  logger.info('Job triggered', { job: name });
+
+  return getJobState(job);
+};
+
+export default {
+  registerJob,
+  runJobIfDue,
+  tick,
+  startScheduler,
+  stopScheduler,
+  getJobStates,
+  triggerJob,
+  getRetryDelay,
+};
@@ -0,0 +1,216 @@
+import logger from '../utils/logger';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import { prisma } from '../config/database';
+import * as auditService from './audit.service';
+import * as authService from './auth.service';
+import * as mailService from './mail.service';
+
+/**
+ * Session Service
+ * Lists the devices a user is signed in on and revokes them. Sessions are
+ * identified by the sessionId carried in access and refresh tokens; once a
+ * session is revoked, authenticateToken rejects its access token and it can
+ * no longer refresh.
+ */
+
+/**
+ * Interface Definitions
+ */
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  deviceType: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+}
+
+export interface SessionInfo extends DeviceInfo {
+  id: string;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastActivity: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+// Order matters: Edge and Opera also identify as Chrome, Chrome as Safari
+const BROWSER_PATTERNS: [string, RegExp][] = [
+  ['Edge', /Edg(?:e|A|iOS)?\/([\d]+)/],
+  ['Opera', /(?:OPR|Opera)\/([\d]+)/],
+  ['Samsung Internet', /SamsungBrowser\/([\d]+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/([\d]+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/([\d]+)/],
+  ['Safari', /Version\/([\d]+).*Safari/],
+];
+
+const OS_PATTERNS: [string, RegExp][] = [
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Android', /Android/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['ChromeOS', /CrOS/],
+  ['Linux', /Linux/],
+];
+
+/**
+ * Derive a human-readable browser, OS and device type from a User-Agent header
+ */
+export const parseUserAgent = (userAgent?: string | null): DeviceInfo => {
+  if (!userAgent) {
+    return { browser: 'Unknown browser', os: 'Unknown OS', deviceType: 'unknown' };
+  }
+
+  const browserMatch = BROWSER_PATTERNS.find(([, pattern]) => pattern.test(userAgent));
+  const browser = browserMatch
+    ? `${browserMatch[0]} ${userAgent.match(browserMatch[1])![1]}`
+    : 'Unknown browser';
+
+  const osMatch = OS_PATTERNS.find(([, pattern]) => pattern.test(userAgent));
+  const os = osMatch ? osMatch[0] : 'Unknown OS';
+
+  let deviceType: DeviceInfo['deviceType'] = 'desktop';
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    deviceType = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    deviceType = 'mobile';
+  } else if (!osMatch) {
+    deviceType = 'unknown';
+  }
+
+  return { browser, os, deviceType };
+};
+
+/**
+ * List the active sessions of a user, most recently used first
+ * @param currentSessionId - Session of the caller, flagged as current
+ */
+export const listSessions = async (
+  userId: string,
+  currentSessionId?: string
+): Promise<SessionInfo[]> => {
+  const sessions = await authService.getUserSessions(userId);
+
+  return sessions.map((session) => ({
+    id: session.id,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastActivity: session.lastActivity,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+    ...parseUserAgent(session.userAgent),
+  }));
+};
+
+/**
+ * Revoke one of the user's other sessions
+ */
+export const revokeSession = async (
+  userId: string,
+  sessionId: string,
+  currentSessionId?: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  if (sessionId === currentSessionId) {
+    throw new BadRequestError('Use logout to end the current session');
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true },
+  });
+
+  if (!session || session.userId !== userId) {
+    throw new NotFoundError('Session not found');
+  }
+
+  await authService.deleteSession(sessionId);
+
+  await auditService.createAuditLog({
+    userId,
+    action: auditService.AuditAction.SESSION_REVOKE,
+    resourceType: auditService.ResourceType.SESSION,
+    resourceId: sessionId,
+    ipAddress,
+    userAgent,
+    success: true,
+  });
+
+  logger.info('Session revoked', { userId, sessionId });
+};
+
+/**
+ * Sign out every device except the caller's
+ * @returns Number of sessions revoked
+ */
+export const revokeOtherSessions = async (
+  userId: string,
+  currentSessionId?: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<number> => {
+  const count = await authService.deleteAllUserSessions(userId, currentSessionId);
+
+  await auditService.createAuditLog({
+    userId,
+    action: auditService.AuditAction.SESSION_REVOKE_OTHERS,
+    resourceType: auditService.ResourceType.SESSION,
+    resourceId: currentSessionId,
+    ipAddress,
+    userAgent,
+    success: true,
+    metadata: { count },
+  });
+
+  logger.info('Other sessions revoked', { userId, count });
+
+  return count;
+};
+
+/**
+ * Email the user when they sign in from a browser and OS not seen before.
+ * Call before the current login is recorded in the audit log.
+ */
+export const notifyNewDevice = async (
+  userId: string,
+  email: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  const device = parseUserAgent(userAgent);
+
+  const previousLogins = await prisma.auditLog.findMany({
+    where: { userId, action: 'USER_LOGIN', success: true },
+    select: { userAgent: true },
+    distinct: ['userAgent'],
+  });
+
+  // The very first login is not a new device worth alerting about
+  if (previousLogins.length === 0) {
+    return;
+  }
+
+  const known = previousLogins.some((login) => {
+    const previous = parseUserAgent(login.userAgent);
+    return previous.browser === device.browser && previous.os === device.os;
+  });
+
+  if (known) {
+    return;
+  }
+
+  await mailService.sendNewDeviceAlert(email, {
+    browser: device.browser,
+    os: device.os,
+    ipAddress,
+    time: new Date(),
+  });
+
+  logger.info('New device sign-in alert sent', { userId });
+};
+
+export default {
+  parseUserAgent,
+  notifyNewDevice,
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+};
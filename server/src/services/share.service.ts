@@ -9,9 +9,14 @@ import {
   ForbiddenError,
   ValidationError,
   AuthError,
+  RateLimitError,
 } from '../utils/errors';
 import * as auditService from './audit.service';
 import * as storageService from './storage.service';
+import * as folderService from './folder.service';
+import * as shareAccessLogService from './shareAccessLog.service';
+import * as shareLockoutService from './shareLockout.service';
+import * as kdfService from './kdf.service';
 
 /**
  * Share Service
@@ -19,13 +24,27 @@ import * as storageService from './storage.service';
  * expiration handling, and download tracking
  */
 
+/**
+ * Share link types
+ */
+export const SHARE_TYPES = {
+  // Hands out a file or folder
+  DOWNLOAD: 'download',
+  // Collects files into a folder (file requests)
+  UPLOAD: 'upload',
+} as const;
+
 /**
  * Interface Definitions
  */
+export type ShareType = (typeof SHARE_TYPES)[keyof typeof SHARE_TYPES];
+
 export interface CreateShareData {
   fileId: string;
   ownerId: string;
   fileKeyEncrypted: string;
+  filenameEncrypted?: string;
+  filenameIv?: string;
   password?: string;
   expiresAt?: Date;
   maxDownloads?: number;
@@ -41,12 +60,34 @@ export interface AccessShareData {
 }
 
 export interface UpdateShareData {
+  // Upload links only; download links change their password by rotating
   password?: string | null;
   expiresAt?: Date | null;
   maxDownloads?: number | null;
   isActive?: boolean;
 }
 
+export interface RotateShareData {
+  // Download links: the key wrapped for the new link secret
+  fileKeyEncrypted?: string;
+  filenameEncrypted?: string;
+  filenameIv?: string;
+  // Verifier for download links, the password itself for upload links
+  password?: string;
+  passwordSalt?: string;
+  kdf?: kdfService.KdfParams;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * A file or a folder whose links are managed together
+ */
+export interface ShareTarget {
+  fileId?: string;
+  folderId?: string;
+}
+
 export interface ShareQuery {
   ownerId: string;
   fileId?: string;
@@ -116,6 +157,8 @@ export const createShare = async (data: CreateShareData) => {
         ownerId: data.ownerId,
         shareToken,
         fileKeyEncrypted: data.fileKeyEncrypted,
+        filenameEncrypted: data.filenameEncrypted,
+        filenameIv: data.filenameIv,
         passwordHash,
         expiresAt: data.expiresAt,
         maxDownloads: data.maxDownloads,
@@ -228,14 +271,23 @@ export const getShareByToken = async (
             filenameIv: true,
             fileSize: true,
             mimeType: true,
+            encryptionAlgorithm: true,
+            encryptedSize: true,
             storagePath: true,
             isDeleted: true,
           },
         },
+        folder: {
+          select: {
+            id: true,
+            isDeleted: true,
+          },
+        },
         owner: {
           select: {
             id: true,
             username: true,
+            publicKey: true,
           },
         },
       },
@@ -254,6 +306,7 @@ export const getShareByToken = async (
       await setCache(`share:${shareToken}`, {
         id: share.id,
         fileId: share.fileId,
+        folderId: share.folderId,
         ownerId: share.ownerId,
         hasPassword: !!share.passwordHash,
         expiresAt: share.expiresAt,
@@ -284,31 +337,78 @@ export const getShareByToken = async (
 };
 
 /**
- * Validate share access
+ * Validate share access.
+ * Links of another type are reported as not found, so an upload link never
+ * reveals the folder it collects files into.
  */
 export const validateShareAccess = async (
   shareToken: string,
-  password?: string
-): Promise<{ valid: boolean; share: any; reason?: string }> => {
+  password?: string,
+  type: ShareType = SHARE_TYPES.DOWNLOAD
+): Promise<{
+  valid: boolean;
+  share: any;
+  reason?: string;
+  outcome: shareAccessLogService.ShareAccessOutcome;
+  throttle?: shareLockoutService.ShareThrottle;
+}> => {
   try {
     logger.debug('Validating share access', { shareToken, hasPassword: !!password });
 
     // Get share with password hash
     const share = await getShareByToken(shareToken, true);
 
+    if (share.type !== type) {
+      throw new NotFoundError('Share link not found');
+    }
+
     // Check if share is active
     if (!share.isActive) {
-      return { valid: false, share, reason: 'Share link is disabled' };
+      return {
+        valid: false,
+        share,
+        reason: 'Share link is disabled',
+        outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.DISABLED,
+      };
+    }
+
+    // Locked after too many wrong passwords
+    if (share.lockedAt) {
+      return {
+        valid: false,
+        share,
+        reason: 'Share link is locked',
+        outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.LOCKED,
+      };
     }
 
     // Check if file is deleted
     if (share.file?.isDeleted) {
-      return { valid: false, share, reason: 'File has been deleted' };
+      return {
+        valid: false,
+        share,
+        reason: 'File has been deleted',
+        outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.DELETED,
+      };
+    }
+
+    if (share.folder?.isDeleted) {
+      return {
+        valid: false,
+        share,
+        reason: 'Folder has been deleted',
+        outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.DELETED,
+      };
     }
 
     // Check expiration
     if (share.expiresAt && share.expiresAt < new Date()) {
-      return { valid: false, share, reason: 'Share link has expired' };
+      return {
+        valid: false,
+        share,
+        reason: 'Share link has expired',
+        outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.EXPIRED,
+      };
     }
 
     // Check download limit
@@ -316,22 +416,47 @@ export const validateShareAccess = async (
       share.maxDownloads !== null &&
       share.downloadCount >= share.maxDownloads
     ) {
-      return { valid: false, share, reason: 'Download limit reached' };
+      return {
+        valid: false,
+        share,
+        reason: 'Download limit reached',
+        outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.LIMIT_REACHED,
+      };
     }
 
     // Check password
     if (share.passwordHash) {
       if (!password) {
-        return { valid: false, share, reason: 'Password required' };
+        return {
+          valid: false,
+          share,
+          reason: 'Password required',
+          outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.PASSWORD_REQUIRED,
+        };
       }
 
-      const isPasswordValid = await bcrypt.compare(password, share.passwordHash);
-      if (!isPasswordValid) {
-        return { valid: false, share, reason: 'Invalid password' };
+      const check = await shareLockoutService.verifySharePassword(share, password);
+      if (check.outcome !== shareAccessLogService.SHARE_ACCESS_OUTCOMES.OK) {
+        return {
+          valid: false,
+          share,
+          reason:
+            check.outcome === shareAccessLogService.SHARE_ACCESS_OUTCOMES.LOCKED
+              ? 'Share link is locked'
+              : check.outcome === shareAccessLogService.SHARE_ACCESS_OUTCOMES.THROTTLED
+                ? 'Too many wrong passwords'
+                : 'Invalid password',
+          outcome: check.outcome,
+          throttle: check.throttle,
+        };
       }
     }
 
-    return { valid: true, share: { ...share, passwordHash: undefined } };
+    return {
+      valid: true,
+      share: { ...share, passwordHash: undefined },
+      outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.OK,
+    };
   } catch (error) {
     if (error instanceof NotFoundError) {
       throw error;
@@ -344,6 +469,18 @@ export const validateShareAccess = async (
   }
 };
 
+/**
+ * Build the error for a refused share access: a delay while wrong passwords
+ * are throttled, otherwise the refusal reason
+ */
+export const toAccessError = (validation: {
+  reason?: string;
+  throttle?: shareLockoutService.ShareThrottle;
+}): RateLimitError | ForbiddenError =>
+  validation.throttle
+    ? shareLockoutService.toThrottleError(validation.throttle)
+    : new ForbiddenError(validation.reason || 'Access denied');
+
 /**
  * Access a share (verify and prepare for download)
  */
@@ -368,8 +505,16 @@ export const accessShare = async (data: AccessShareData) => {
         data.userAgent,
         validation.reason
       );
-
-      throw new ForbiddenError(validation.reason || 'Access denied');
+      await shareAccessLogService.recordShareAccess({
+        shareId: validation.share.id,
+        ownerId: validation.share.ownerId,
+        event: shareAccessLogService.SHARE_ACCESS_EVENTS.VIEW,
+        outcome: validation.outcome,
+        ipAddress: data.ipAddress,
+        userAgent: data.userAgent,
+      });
+
+      throw toAccessError(validation);
     }
 
     // Update last accessed
@@ -388,6 +533,15 @@ export const accessShare = async (data: AccessShareData) => {
       data.userAgent
     );
 
+    await shareAccessLogService.recordShareAccess({
+      shareId: validation.share.id,
+      ownerId: validation.share.ownerId,
+      event: shareAccessLogService.SHARE_ACCESS_EVENTS.VIEW,
+      outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.OK,
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent,
+    });
+
     logger.info('Share accessed successfully', {
       shareId: validation.share.id,
       shareToken: data.shareToken,
@@ -395,7 +549,11 @@ export const accessShare = async (data: AccessShareData) => {
 
     return validation.share;
   } catch (error) {
-    if (error instanceof ForbiddenError || error instanceof NotFoundError) {
+    if (
+      error instanceof ForbiddenError ||
+      error instanceof NotFoundError ||
+      error instanceof RateLimitError
+    ) {
       throw error;
     }
     logger.error('Failed to access share', {
@@ -432,12 +590,24 @@ export const downloadSharedFile = async (
         userAgent,
         validation.reason
       );
-
-      throw new ForbiddenError(validation.reason || 'Access denied');
+      await shareAccessLogService.recordShareAccess({
+        shareId: validation.share.id,
+        ownerId: validation.share.ownerId,
+        event: shareAccessLogService.SHARE_ACCESS_EVENTS.DOWNLOAD,
+        outcome: validation.outcome,
+        ipAddress: ipAddress,
+        userAgent: userAgent,
+      });
+
+      throw toAccessError(validation);
     }
 
     const share = validation.share;
 
+    if (!share.file) {
+      throw new ValidationError('Files in a shared folder are downloaded individually');
+    }
+
     // Download file from storage
     const { stream, metadata } = await storageService.downloadFile(
       share.file.storagePath
@@ -465,6 +635,15 @@ export const downloadSharedFile = async (
       userAgent
     );
 
+    await shareAccessLogService.recordShareAccess({
+      shareId: share.id,
+      ownerId: share.ownerId,
+      event: shareAccessLogService.SHARE_ACCESS_EVENTS.DOWNLOAD,
+      outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.OK,
+      ipAddress: ipAddress,
+      userAgent: userAgent,
+    });
+
     logger.info('Shared file download initiated', {
       shareId: share.id,
       shareToken,
@@ -482,7 +661,12 @@ export const downloadSharedFile = async (
       },
     };
   } catch (error) {
-    if (error instanceof ForbiddenError || error instanceof NotFoundError) {
+    if (
+      error instanceof ForbiddenError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof RateLimitError
+    ) {
       throw error;
     }
     logger.error('Failed to download shared file', {
@@ -493,6 +677,171 @@ export const downloadSharedFile = async (
   }
 };
 
+/**
+ * Validate access to a folder share link, logging denied attempts
+ */
+const accessFolderShare = async (
+  shareToken: string,
+  event: shareAccessLogService.ShareAccessEventType,
+  password?: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  const validation = await validateShareAccess(shareToken, password);
+
+  if (!validation.valid) {
+    await auditService.logShareOperation(
+      auditService.AuditAction.SHARE_ACCESS_DENIED,
+      undefined,
+      validation.share.id,
+      false,
+      ipAddress,
+      userAgent,
+      validation.reason
+    );
+    await shareAccessLogService.recordShareAccess({
+      shareId: validation.share.id,
+      ownerId: validation.share.ownerId,
+      event,
+      outcome: validation.outcome,
+      ipAddress,
+      userAgent,
+    });
+
+    throw toAccessError(validation);
+  }
+
+  if (!validation.share.folderId) {
+    throw new ValidationError('Share link is not a folder share');
+  }
+
+  return validation.share;
+};
+
+/**
+ * Browse a shared folder, or one of its subfolders
+ */
+export const getSharedFolderContents = async (
+  shareToken: string,
+  password?: string,
+  folderId?: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  const share = await accessFolderShare(
+    shareToken,
+    shareAccessLogService.SHARE_ACCESS_EVENTS.VIEW,
+    password,
+    ipAddress,
+    userAgent
+  );
+
+  const contents = await folderService.getSharedFolderContents(
+    share.folderId,
+    folderId
+  );
+
+  await prisma.share.update({
+    where: { id: share.id },
+    data: { lastAccessed: new Date() },
+  });
+
+  await auditService.logShareOperation(
+    auditService.AuditAction.SHARE_ACCESS,
+    undefined,
+    share.id,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  await shareAccessLogService.recordShareAccess({
+    shareId: share.id,
+    ownerId: share.ownerId,
+    event: shareAccessLogService.SHARE_ACCESS_EVENTS.VIEW,
+    outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.OK,
+    ipAddress: ipAddress,
+    userAgent: userAgent,
+  });
+
+  return contents;
+};
+
+/**
+ * Download a file from inside a shared folder.
+ * Every file download counts towards the link's download limit.
+ */
+export const downloadSharedFolderFile = async (
+  shareToken: string,
+  fileId: string,
+  password?: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  try {
+    logger.info('Downloading file from shared folder', { shareToken, fileId });
+
+    const share = await accessFolderShare(
+      shareToken,
+      shareAccessLogService.SHARE_ACCESS_EVENTS.DOWNLOAD,
+      password,
+      ipAddress,
+      userAgent
+    );
+
+    const file = await folderService.getSharedFolderFile(share.folderId, fileId);
+
+    const { stream, metadata } = await storageService.downloadFile(
+      file.storagePath
+    );
+
+    await prisma.share.update({
+      where: { id: share.id },
+      data: {
+        downloadCount: { increment: 1 },
+        lastAccessed: new Date(),
+      },
+    });
+
+    await deleteCache(`share:${shareToken}`);
+
+    await auditService.logShareOperation(
+      auditService.AuditAction.SHARE_DOWNLOAD,
+      undefined,
+      share.id,
+      true,
+      ipAddress,
+      userAgent
+    );
+
+    await shareAccessLogService.recordShareAccess({
+      shareId: share.id,
+      ownerId: share.ownerId,
+      event: shareAccessLogService.SHARE_ACCESS_EVENTS.DOWNLOAD,
+      outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.OK,
+      ipAddress: ipAddress,
+      userAgent: userAgent,
+    });
+
+    return { stream, file, metadata };
+  } catch (error) {
+    if (
+      error instanceof ForbiddenError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof RateLimitError
+    ) {
+      throw error;
+    }
+    logger.error('Failed to download file from shared folder', {
+      shareToken,
+      fileId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new ValidationError('Failed to download shared file');
+  }
+};
+
 /**
  * Get shares for a user
  */
@@ -634,6 +983,14 @@ export const updateShare = async (
       throw new NotFoundError('Share not found');
     }
 
+    // The key of a download link is wrapped with its password, which the
+    // server cannot re-wrap
+    if (data.password !== undefined && existingShare.type !== SHARE_TYPES.UPLOAD) {
+      throw new ValidationError(
+        'The password of a download link can only be changed by rotating the link'
+      );
+    }
+
     // Validate expiration date if being changed
     if (data.expiresAt !== undefined && data.expiresAt !== null) {
       if (data.expiresAt <= new Date()) {
@@ -683,6 +1040,15 @@ export const updateShare = async (
     // Invalidate cache
     await deleteCache(`share:${existingShare.shareToken}`);
 
+    await auditService.logShareOperation(
+      auditService.AuditAction.SHARE_UPDATE,
+      ownerId,
+      shareId,
+      true,
+      ipAddress,
+      userAgent
+    );
+
     logger.info('Share updated successfully', { shareId, ownerId });
 
     return {
@@ -707,6 +1073,115 @@ export const updateShare = async (
   }
 };
 
+/**
+ * Unlock a share link that was locked after too many wrong passwords
+ */
+export const unlockShare = async (
+  shareId: string,
+  ownerId: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  const share = await prisma.share.findFirst({
+    where: { id: shareId, ownerId },
+  });
+
+  if (!share) {
+    throw new NotFoundError('Share not found');
+  }
+
+  const unlocked = await prisma.share.update({
+    where: { id: shareId },
+    data: { lockedAt: null },
+  });
+
+  await shareLockoutService.clearFailedAttempts(shareId);
+  await deleteCache(`share:${share.shareToken}`);
+
+  await auditService.logShareOperation(
+    auditService.AuditAction.SHARE_UNLOCK,
+    ownerId,
+    shareId,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  logger.info('Share link unlocked', { shareId, ownerId });
+
+  return unlocked;
+};
+
+/**
+ * Rotate a share link: new token, new password (or none) and, for download
+ * links, the key wrapped for a new link secret. The old address stops
+ * working, and a lock from wrong passwords is lifted.
+ */
+export const rotateShare = async (
+  shareId: string,
+  ownerId: string,
+  data: RotateShareData
+) => {
+  const share = await prisma.share.findFirst({
+    where: { id: shareId, ownerId },
+  });
+
+  if (!share) {
+    throw new NotFoundError('Share not found');
+  }
+
+  const isUpload = share.type === SHARE_TYPES.UPLOAD;
+
+  if (!isUpload && !data.fileKeyEncrypted) {
+    throw new ValidationError('Rotating a share link requires the key wrapped for the new link');
+  }
+
+  if (!isUpload && data.password && (!data.passwordSalt || !data.kdf)) {
+    throw new ValidationError('Password, salt and KDF settings must be provided together');
+  }
+
+  const passwordHash = data.password ? await bcrypt.hash(data.password, 10) : null;
+
+  const rotated = await prisma.share.update({
+    where: { id: shareId },
+    data: {
+      shareToken: generateShareToken(),
+      ...(!isUpload && {
+        fileKeyEncrypted: data.fileKeyEncrypted,
+        filenameEncrypted: data.filenameEncrypted ?? share.filenameEncrypted,
+        filenameIv: data.filenameIv ?? share.filenameIv,
+      }),
+      passwordHash,
+      ...(passwordHash && !isUpload
+        ? { passwordSalt: data.passwordSalt, ...kdfService.toKdfColumns(data.kdf) }
+        : {
+            passwordSalt: null,
+            kdfAlgorithm: null,
+            kdfIterations: null,
+            kdfMemoryKib: null,
+            kdfParallelism: null,
+          }),
+      lockedAt: null,
+    },
+  });
+
+  await shareLockoutService.clearFailedAttempts(shareId);
+  await deleteCache(`share:${share.shareToken}`);
+
+  await auditService.logShareOperation(
+    auditService.AuditAction.SHARE_ROTATE,
+    ownerId,
+    shareId,
+    true,
+    data.ipAddress,
+    data.userAgent
+  );
+
+  logger.info('Share link rotated', { shareId, ownerId });
+
+  return rotated;
+};
+
 /**
  * Delete a share
  */
@@ -775,17 +1250,168 @@ export const deleteShare = async (
 };
 
 /**
- * Clean up expired shares
- * Should be run periodically as a cron job
+ * Deactivate the given active shares of an owner, invalidating their
+ * cache entries and auditing each one
+ * @returns Number of shares revoked
+ */
+const revokeShareSet = async (
+  where: Record<string, unknown>,
+  ownerId: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<number> => {
+  const shares = await prisma.share.findMany({
+    where: { ...where, ownerId, isActive: true },
+    select: { id: true, shareToken: true },
+  });
+
+  if (shares.length === 0) {
+    return 0;
+  }
+
+  await prisma.share.updateMany({
+    where: { id: { in: shares.map((share) => share.id) } },
+    data: { isActive: false },
+  });
+
+  for (const share of shares) {
+    await deleteCache(`share:${share.shareToken}`);
+    await auditService.logShareOperation(
+      auditService.AuditAction.SHARE_REVOKE,
+      ownerId,
+      share.id,
+      true,
+      ipAddress,
+      userAgent
+    );
+  }
+
+  return shares.length;
+};
+
+/**
+ * Revoke every active link of a file or folder
+ * @returns Number of shares revoked
+ */
+export const revokeSharesForItem = async (
+  target: ShareTarget,
+  ownerId: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<number> => {
+  const item = target.fileId
+    ? await prisma.file.findFirst({ where: { id: target.fileId, userId: ownerId } })
+    : await prisma.folder.findFirst({ where: { id: target.folderId, userId: ownerId } });
+
+  if (!item) {
+    throw new NotFoundError(target.fileId ? 'File not found' : 'Folder not found');
+  }
+
+  const count = await revokeShareSet(
+    target.fileId ? { fileId: target.fileId } : { folderId: target.folderId },
+    ownerId,
+    ipAddress,
+    userAgent
+  );
+
+  logger.info('Item shares revoked', { ...target, ownerId, count });
+
+  return count;
+};
+
+/**
+ * Revoke every active link of an owner that has expired
+ * @returns Number of shares revoked
  */
-export const cleanupExpiredShares = async (): Promise<number> => {
+export const revokeExpiredShares = async (
+  ownerId: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<number> => {
+  const count = await revokeShareSet(
+    { expiresAt: { lt: new Date() } },
+    ownerId,
+    ipAddress,
+    userAgent
+  );
+
+  logger.info('Expired shares revoked', { ownerId, count });
+
+  return count;
+};
+
+/**
+ * Push back the expiry of several links by the same number of days.
+ * Expired links are extended from now; links that never expire are left
+ * alone.
+ * @returns The updated shares
+ */
+export const extendShareExpiry = async (
+  shareIds: string[],
+  ownerId: string,
+  days: number,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  if (days < 1) {
+    throw new ValidationError('Extension must be at least one day');
+  }
+
+  const shares = await prisma.share.findMany({
+    where: { id: { in: shareIds }, ownerId },
+  });
+
+  if (shares.length !== new Set(shareIds).size) {
+    throw new NotFoundError('Share not found');
+  }
+
+  const now = Date.now();
+  const extension = days * 24 * 60 * 60 * 1000;
+
+  const extended = await runTransaction(async (tx) =>
+    Promise.all(
+      shares.map((share) =>
+        tx.share.update({
+          where: { id: share.id },
+          data: share.expiresAt
+            ? { expiresAt: new Date(Math.max(share.expiresAt.getTime(), now) + extension) }
+            : {},
+        })
+      )
+    )
+  );
+
+  for (const share of shares) {
+    await deleteCache(`share:${share.shareToken}`);
+    await auditService.logShareOperation(
+      auditService.AuditAction.SHARE_UPDATE,
+      ownerId,
+      share.id,
+      true,
+      ipAddress,
+      userAgent
+    );
+  }
+
+  logger.info('Share expiry extended', { ownerId, count: shares.length, days });
+
+  return extended;
+};
+
+/**
+ * Delete links that expired more than the retention period ago. Until then
+ * owners still see them as expired and can extend or revoke them.
+ */
+export const cleanupExpiredShares = async (retentionDays: number = 30): Promise<number> => {
   try {
-    logger.info('Cleaning up expired shares');
+    logger.info('Cleaning up expired shares', { retentionDays });
+
+    const cutoffDate = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
 
     const result = await prisma.share.deleteMany({
       where: {
         expiresAt: {
-          lt: new Date(),
+          lt: cutoffDate,
         },
       },
     });
@@ -860,12 +1486,20 @@ export default {
   createShare,
   getShareByToken,
   validateShareAccess,
+  toAccessError,
   accessShare,
   downloadSharedFile,
+  getSharedFolderContents,
+  downloadSharedFolderFile,
   getShares,
   getShareById,
   updateShare,
+  unlockShare,
+  rotateShare,
   deleteShare,
+  revokeSharesForItem,
+  revokeExpiredShares,
+  extendShareExpiry,
   cleanupExpiredShares,
   getFileShareStats,
 };
@@ -0,0 +1,246 @@
+import net from 'net';
+import { prisma } from '../config/database';
+import logger from '../utils/logger';
+import { NotFoundError, DatabaseError } from '../utils/errors';
+
+/**
+ * Share Access Log Service
+ * Records every visit, download and upload through a share link, with the
+ * outcome, for the owner's per-link timeline. IP addresses are truncated to
+ * their network before they are stored. The log has its own retention and
+ * is not part of the audit log.
+ */
+
+export const SHARE_ACCESS_LOG_CONFIG = {
+  DEFAULT_TIMELINE_DAYS: 30,
+  MAX_TIMELINE_DAYS: 365,
+  MAX_TIMELINE_EVENTS: 200,
+  MAX_USER_AGENT_LENGTH: 512,
+};
+
+/**
+ * What the visitor did
+ */
+export const SHARE_ACCESS_EVENTS = {
+  VIEW: 'view',
+  DOWNLOAD: 'download',
+  UPLOAD: 'upload',
+} as const;
+
+/**
+ * How it ended
+ */
+export const SHARE_ACCESS_OUTCOMES = {
+  OK: 'ok',
+  PASSWORD_REQUIRED: 'password_required',
+  WRONG_PASSWORD: 'wrong_password',
+  EXPIRED: 'expired',
+  LIMIT_REACHED: 'limit_reached',
+  DISABLED: 'disabled',
+  DELETED: 'deleted',
+  // Rejected without checking the password while failed attempts are throttled
+  THROTTLED: 'throttled',
+  LOCKED: 'locked',
+} as const;
+
+/**
+ * Interface Definitions
+ */
+export type ShareAccessEventType =
+  (typeof SHARE_ACCESS_EVENTS)[keyof typeof SHARE_ACCESS_EVENTS];
+
+export type ShareAccessOutcome =
+  (typeof SHARE_ACCESS_OUTCOMES)[keyof typeof SHARE_ACCESS_OUTCOMES];
+
+export interface ShareAccessData {
+  shareId: string;
+  ownerId: string;
+  event: ShareAccessEventType;
+  outcome: ShareAccessOutcome;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ShareAccessTimelineDay {
+  date: string; // YYYY-MM-DD (UTC)
+  ok: number;
+  denied: number;
+}
+
+/**
+ * Expand an IPv6 address to its eight groups
+ */
+const expandIPv6 = (address: string): string[] => {
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+
+  return [...headGroups, ...Array(Math.max(0, missing)).fill('0'), ...tailGroups];
+};
+
+/**
+ * Truncate an IP address to its network: /24 for IPv4, /48 for IPv6.
+ * Anything that is not an IP address is dropped.
+ */
+export const truncateIpAddress = (ipAddress?: string): string | undefined => {
+  if (!ipAddress) {
+    return undefined;
+  }
+
+  // IPv4 clients reach a dual-stack socket as ::ffff:a.b.c.d
+  const address = ipAddress.replace(/^::ffff:/i, '');
+
+  if (net.isIPv4(address)) {
+    return address.replace(/\.\d+$/, '.0');
+  }
+
+  if (net.isIPv6(address)) {
+    const groups = expandIPv6(address.split('%')[0]);
+    return `${groups.slice(0, 3).map((group) => parseInt(group, 16).toString(16)).join(':')}::`;
+  }
+
+  return undefined;
+};
+
+/**
+ * Record an access to a share link.
+ * Never throws, so a failure here does not break the visitor's request.
+ */
+export const recordShareAccess = async (data: ShareAccessData): Promise<void> => {
+  try {
+    await prisma.shareAccessEvent.create({
+      data: {
+        shareId: data.shareId,
+        ownerId: data.ownerId,
+        event: data.event,
+        outcome: data.outcome,
+        ipAddress: truncateIpAddress(data.ipAddress),
+        userAgent: data.userAgent?.slice(0, SHARE_ACCESS_LOG_CONFIG.MAX_USER_AGENT_LENGTH),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to record share access', {
+      shareId: data.shareId,
+      event: data.event,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Get the access timeline of a share link for its owner: totals per
+ * outcome, one bucket per day and the most recent events.
+ * The history stays readable after the link itself has been deleted.
+ */
+export const getShareAccessTimeline = async (
+  shareId: string,
+  ownerId: string,
+  days: number = SHARE_ACCESS_LOG_CONFIG.DEFAULT_TIMELINE_DAYS
+) => {
+  const windowDays = Math.min(Math.max(1, days), SHARE_ACCESS_LOG_CONFIG.MAX_TIMELINE_DAYS);
+
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const since = new Date(today.getTime() - (windowDays - 1) * 24 * 60 * 60 * 1000);
+
+  const where = { shareId, ownerId, createdAt: { gte: since } };
+
+  const [share, entries, events] = await Promise.all([
+    prisma.share.findFirst({ where: { id: shareId, ownerId }, select: { id: true } }),
+    prisma.shareAccessEvent.findMany({
+      where,
+      select: { outcome: true, createdAt: true },
+    }),
+    prisma.shareAccessEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: SHARE_ACCESS_LOG_CONFIG.MAX_TIMELINE_EVENTS,
+      select: {
+        id: true,
+        event: true,
+        outcome: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+      },
+    }),
+  ]);
+
+  if (!share && entries.length === 0) {
+    throw new NotFoundError('Share not found');
+  }
+
+  const series: ShareAccessTimelineDay[] = [];
+  const buckets = new Map<string, ShareAccessTimelineDay>();
+  for (let i = 0; i < windowDays; i++) {
+    const date = new Date(since.getTime() + i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const day = { date, ok: 0, denied: 0 };
+    series.push(day);
+    buckets.set(date, day);
+  }
+
+  const byOutcome: Record<string, number> = {};
+  for (const entry of entries) {
+    byOutcome[entry.outcome] = (byOutcome[entry.outcome] || 0) + 1;
+
+    const day = buckets.get(entry.createdAt.toISOString().slice(0, 10));
+    if (day) {
+      if (entry.outcome === SHARE_ACCESS_OUTCOMES.OK) {
+        day.ok++;
+      } else {
+        day.denied++;
+      }
+    }
+  }
+
+  const ok = byOutcome[SHARE_ACCESS_OUTCOMES.OK] || 0;
+
+  return {
+    shareId,
+    since,
+    days: windowDays,
+    totals: {
+      ok,
+      denied: entries.length - ok,
+      byOutcome,
+    },
+    series,
+    events,
+  };
+};
+
+/**
+ * Delete share access events older than the retention period
+ */
+export const cleanupOldShareAccessEvents = async (retentionDays: number): Promise<number> => {
+  try {
+    logger.info('Cleaning up old share access events', { retentionDays });
+
+    const cutoffDate = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const result = await prisma.shareAccessEvent.deleteMany({
+      where: {
+        createdAt: {
+          lt: cutoffDate,
+        },
+      },
+    });
+
+    logger.info('Old share access events cleaned up', { deletedCount: result.count });
+
+    return result.count;
+  } catch (error) {
+    logger.error('Failed to cleanup old share access events', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new DatabaseError('Failed to cleanup old share access events');
+  }
+};
+
+export default {
+  truncateIpAddress,
+  recordShareAccess,
+  getShareAccessTimeline,
+  cleanupOldShareAccessEvents,
+};
@@ -0,0 +1,171 @@
+import bcrypt from 'bcrypt';
+import { prisma } from '../config/database';
+import logger from '../utils/logger';
+import { RateLimitError } from '../utils/errors';
+import * as auditService from './audit.service';
+import * as mailService from './mail.service';
+import * as shareAccessLogService from './shareAccessLog.service';
+import * as throttleService from './throttle.service';
+
+/**
+ * Share Lockout Service
+ * Throttles password guessing against a single share link with the shared
+ * backoff from the throttle service. At the threshold the link is locked
+ * until its owner unlocks or rotates it, and the owner is notified by email.
+ * Counters live in Redis, the lock itself on the share.
+ */
+
+const SHARE_THROTTLE: throttleService.ThrottleConfig = {
+  keyPrefix: 'share',
+  freeAttempts: 3,
+  baseDelaySeconds: 2,
+  maxDelaySeconds: 5 * 60,
+  lockoutThreshold: parseInt(process.env.SHARE_LOCKOUT_THRESHOLD || '20', 10),
+  failureWindowSeconds: 60 * 60,
+};
+
+/**
+ * Interface Definitions
+ */
+export type ShareThrottle = throttleService.Throttle;
+
+export interface SharePasswordCheck {
+  outcome: shareAccessLogService.ShareAccessOutcome;
+  throttle?: ShareThrottle;
+}
+
+interface LockableShare {
+  id: string;
+  ownerId: string;
+  type: string;
+  fileId: string | null;
+  createdAt: Date;
+  passwordHash: string;
+}
+
+/**
+ * Delay imposed after the given number of consecutive failures
+ */
+export const getDelaySeconds = (failures: number): number =>
+  throttleService.getDelaySeconds(SHARE_THROTTLE, failures);
+
+/**
+ * Build the error returned while a link is throttled
+ */
+export const toThrottleError = (throttle: ShareThrottle): RateLimitError =>
+  new RateLimitError(
+    'Too many wrong passwords for this link. Please wait before trying again.',
+    throttle.retryAfter,
+    { reason: 'SHARE_PASSWORD_DELAYED', retryAt: throttle.retryAt }
+  );
+
+/**
+ * Get the active delay for a link, if any
+ */
+export const getShareThrottle = (shareId: string): Promise<ShareThrottle | null> =>
+  throttleService.getDelay(SHARE_THROTTLE, shareId);
+
+/**
+ * Forget failed attempts for a link
+ */
+export const clearFailedAttempts = (shareId: string): Promise<void> =>
+  throttleService.clearFailures(SHARE_THROTTLE, shareId);
+
+/**
+ * Lock a link and tell its owner
+ */
+const lockShare = async (share: LockableShare): Promise<void> => {
+  const lockedAt = new Date();
+
+  // Only the first of several concurrent failures locks and notifies
+  const locked = await prisma.share.updateMany({
+    where: { id: share.id, lockedAt: null },
+    data: { lockedAt },
+  });
+
+  if (locked.count === 0) {
+    return;
+  }
+
+  await auditService.logShareOperation(
+    auditService.AuditAction.SHARE_LOCK,
+    share.ownerId,
+    share.id,
+    true,
+    undefined,
+    undefined,
+    `Locked after ${SHARE_THROTTLE.lockoutThreshold} wrong passwords`
+  );
+
+  try {
+    const owner = await prisma.user.findUniqueOrThrow({
+      where: { id: share.ownerId },
+      select: { email: true },
+    });
+
+    await mailService.sendShareLockedEmail(owner.email, {
+      itemType: share.fileId ? 'file' : 'folder',
+      linkType: share.type === 'upload' ? 'upload' : 'download',
+      createdAt: share.createdAt,
+      lockedAt,
+    });
+  } catch (error) {
+    // The lock stays; the owner still sees it in their share list
+    logger.error('Failed to send share locked email', {
+      shareId: share.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  logger.warn('Share link locked after wrong passwords', { shareId: share.id });
+};
+
+/**
+ * Record a wrong password
+ * @returns Whether the link is now locked
+ */
+export const recordFailedAttempt = async (share: LockableShare): Promise<boolean> => {
+  const { locked } = await throttleService.recordFailure(SHARE_THROTTLE, share.id);
+
+  if (locked) {
+    await lockShare(share);
+  }
+
+  return locked;
+};
+
+/**
+ * Check a link password, honouring delays and counting wrong guesses.
+ * While the link is delayed the password is not checked at all.
+ */
+export const verifySharePassword = async (
+  share: LockableShare,
+  password: string
+): Promise<SharePasswordCheck> => {
+  const throttle = await getShareThrottle(share.id);
+  if (throttle) {
+    return { outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.THROTTLED, throttle };
+  }
+
+  if (await bcrypt.compare(password, share.passwordHash)) {
+    await clearFailedAttempts(share.id);
+    return { outcome: shareAccessLogService.SHARE_ACCESS_OUTCOMES.OK };
+  }
+
+  const locked = await recordFailedAttempt(share);
+
+  return {
+    outcome: locked
+      ? shareAccessLogService.SHARE_ACCESS_OUTCOMES.LOCKED
+      : shareAccessLogService.SHARE_ACCESS_OUTCOMES.WRONG_PASSWORD,
+  };
+};
+
+export default {
+  getDelaySeconds,
+  toThrottleError,
+  getShareThrottle,
+  clearFailedAttempts,
+  recordFailedAttempt,
+  verifySharePassword,
+};
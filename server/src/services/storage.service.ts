@@ -1,23 +1,13 @@
 import { Readable } from 'stream';
-import * as Minio from 'minio';
 import { v4 as uuidv4 } from 'uuid';
-import {
-  storage,
-  uploadFile as uploadToMinio,
-  downloadFile as downloadFromMinio,
-  deleteFile as deleteFromMinio,
-  deleteFiles as deleteMultipleFromMinio,
-  fileExists as checkFileExists,
-  getFileMetadata as getMinioFileMetadata,
-  copyFile as copyMinioFile,
-  getBucketName,
-} from '../config/storage';
+import { getStorageBackend, ObjectStat } from '../config/storage';
 import logger from '../utils/logger';
-import { StorageError, ValidationError } from '../utils/errors';
+import { StorageError } from '../utils/errors';
 
 /**
  * Storage Service
- * Wrapper around MinIO operations specific to CrypticStorage needs
+ * Wrapper around the storage backend (MinIO or local filesystem) with the
+ * object layout CrypticStorage uses
  */
 
 /**
@@ -29,6 +19,7 @@ export interface UploadOptions {
   metadata?: Record<string, string>;
   isVersion?: boolean;
   versionNumber?: number;
+  contentId?: string;
 }
 
 export interface StoragePath {
@@ -36,20 +27,29 @@ export interface StoragePath {
   fileId: string;
   isVersion?: boolean;
   versionNumber?: number;
+  // Names a separate object for replaced content, so no stored object is overwritten
+  contentId?: string;
 }
 
 export interface DownloadResult {
   stream: Readable;
-  metadata: Minio.BucketItemStat;
+  metadata: ObjectStat;
+}
+
+export interface StoredObject {
+  storagePath: string;
+  size: number;
+  lastModified: Date;
 }
 
 /**
  * Generate a storage path for a file
  */
 export const generateStoragePath = (options: StoragePath): string => {
-  const { userId, fileId, isVersion, versionNumber } = options;
+  const { userId, fileId, isVersion, versionNumber, contentId } = options;
 
   // Path format: users/{userId}/files/{fileId}/{version}/{versionNumber}
+  // or: users/{userId}/files/{fileId}/contents/{contentId}
   // or: users/{userId}/files/{fileId}/current
   const basePath = `users/${userId}/files/${fileId}`;
 
@@ -57,6 +57,10 @@ export const generateStoragePath = (options: StoragePath): string => {
     return `${basePath}/versions/${versionNumber}`;
   }
 
+  if (contentId) {
+    return `${basePath}/contents/${contentId}`;
+  }
+
   return `${basePath}/current`;
 };
 
@@ -91,6 +95,7 @@ export const uploadFile = async (
       fileId,
       isVersion: options.isVersion,
       versionNumber: options.versionNumber,
+      contentId: options.contentId,
     });
 
     // Prepare metadata
@@ -101,8 +106,7 @@ export const uploadFile = async (
       ...(options.metadata || {}),
     };
 
-    // Upload to MinIO
-    const result = await uploadToMinio(storagePath, data, size, metadata);
+    const result = await getStorageBackend().putObject(storagePath, data, size, metadata);
 
     logger.info('File uploaded successfully', {
       userId: options.userId,
@@ -147,7 +151,7 @@ export const uploadThumbnail = async (
       uploadedAt: new Date().toISOString(),
     };
 
-    const result = await uploadToMinio(thumbnailPath, data, data.length, metadata);
+    const result = await getStorageBackend().putObject(thumbnailPath, data, data.length, metadata);
 
     logger.info('Thumbnail uploaded successfully', {
       userId,
@@ -179,17 +183,16 @@ export const downloadFile = async (storagePath: string): Promise<DownloadResult>
   try {
     logger.debug('Downloading file from storage', { storagePath });
 
-    // Check if file exists
-    const exists = await checkFileExists(storagePath);
-    if (!exists) {
+    const backend = getStorageBackend();
+
+    // Get file metadata (also checks the file exists)
+    const metadata = await backend.statObject(storagePath);
+    if (!metadata) {
       throw new StorageError('File not found in storage');
     }
 
-    // Get file metadata
-    const metadata = await getMinioFileMetadata(storagePath);
-
     // Download file stream
-    const stream = await downloadFromMinio(storagePath);
+    const stream = await backend.getObjectStream(storagePath);
 
     logger.info('File download initiated', { storagePath, size: metadata.size });
 
@@ -216,7 +219,7 @@ export const deleteFile = async (storagePath: string): Promise<void> => {
   try {
     logger.info('Deleting file from storage', { storagePath });
 
-    await deleteFromMinio(storagePath);
+    await getStorageBackend().deleteObject(storagePath);
 
     logger.info('File deleted successfully', { storagePath });
   } catch (error) {
@@ -242,7 +245,7 @@ export const deleteMultipleFiles = async (storagePaths: string[]): Promise<void>
       return;
     }
 
-    await deleteMultipleFromMinio(storagePaths);
+    await getStorageBackend().deleteObjects(storagePaths);
 
     logger.info('Multiple files deleted successfully', { count: storagePaths.length });
   } catch (error) {
@@ -266,21 +269,11 @@ export const deleteAllUserFiles = async (userId: string): Promise<void> => {
 
     const userPrefix = `users/${userId}/`;
 
+    const backend = getStorageBackend();
+
     // List all files with the user prefix
-    const files = await storage.listObjects(getBucketName(), userPrefix, true);
-
-    const fileNames: string[] = [];
-
-    // Collect file names
-    await new Promise<void>((resolve, reject) => {
-      files.on('data', (obj) => {
-        if (obj.name) {
-          fileNames.push(obj.name);
-        }
-      });
-      files.on('end', () => resolve());
-      files.on('error', (err) => reject(err));
-    });
+    const files = await backend.listObjects(userPrefix, true);
+    const fileNames = files.filter((obj) => obj.name).map((obj) => obj.name!);
 
     if (fileNames.length === 0) {
       logger.info('No files to delete for user', { userId });
@@ -288,7 +281,7 @@ export const deleteAllUserFiles = async (userId: string): Promise<void> => {
     }
 
     // Delete all files
-    await deleteMultipleFromMinio(fileNames);
+    await backend.deleteObjects(fileNames);
 
     logger.info('All user files deleted successfully', {
       userId,
@@ -319,7 +312,7 @@ export const copyFile = async (
       destination: destinationStoragePath,
     });
 
-    await copyMinioFile(sourceStoragePath, destinationStoragePath);
+    await getStorageBackend().copyObject(sourceStoragePath, destinationStoragePath);
 
     logger.info('File copied successfully', {
       source: sourceStoragePath,
@@ -343,8 +336,8 @@ export const copyFile = async (
  */
 export const fileExists = async (storagePath: string): Promise<boolean> => {
   try {
-    const exists = await checkFileExists(storagePath);
-    return exists;
+    const stat = await getStorageBackend().statObject(storagePath);
+    return stat !== null;
   } catch (error) {
     logger.error('Failed to check file existence', {
       storagePath,
@@ -360,11 +353,12 @@ export const fileExists = async (storagePath: string): Promise<boolean> => {
 /**
  * Get file metadata from storage
  */
-export const getFileMetadata = async (
-  storagePath: string
-): Promise<Minio.BucketItemStat> => {
+export const getFileMetadata = async (storagePath: string): Promise<ObjectStat> => {
   try {
-    const metadata = await getMinioFileMetadata(storagePath);
+    const metadata = await getStorageBackend().statObject(storagePath);
+    if (!metadata) {
+      throw new StorageError('File not found in storage');
+    }
     return metadata;
   } catch (error) {
     logger.error('Failed to get file metadata', {
@@ -388,20 +382,10 @@ export const getUserStorageUsage = async (userId: string): Promise<number> => {
     const userPrefix = `users/${userId}/files/`;
 
     // List all files with the user prefix
-    const files = await storage.listObjects(getBucketName(), userPrefix, true);
-
-    let totalSize = 0;
+    const files = await getStorageBackend().listObjects(userPrefix, true);
 
     // Calculate total size
-    await new Promise<void>((resolve, reject) => {
-      files.on('data', (obj) => {
-        if (obj.size) {
-          totalSize += obj.size;
-        }
-      });
-      files.on('end', () => resolve());
-      files.on('error', (err) => reject(err));
-    });
+    const totalSize = files.reduce((sum, obj) => sum + (obj.size || 0), 0);
 
     logger.debug('Storage usage calculated', { userId, totalSize });
 
@@ -418,6 +402,55 @@ export const getUserStorageUsage = async (userId: string): Promise<number> => {
   }
 };
 
+/**
+ * List every object stored under a user's prefix
+ */
+export const listUserObjects = async (userId: string): Promise<StoredObject[]> => {
+  try {
+    const objects = await getStorageBackend().listObjects(`users/${userId}/`, true);
+
+    return objects
+      .filter((obj) => obj.name)
+      .map((obj) => ({
+        storagePath: obj.name!,
+        size: obj.size,
+        // Without a timestamp, treat the object as new so it isn't deleted
+        lastModified: obj.lastModified ?? new Date(),
+      }));
+  } catch (error) {
+    logger.error('Failed to list user objects', {
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to list user objects',
+      error instanceof Error ? { originalError: error.message } : undefined
+    );
+  }
+};
+
+/**
+ * List the IDs of all users that have objects in storage
+ */
+export const listStoredUserIds = async (): Promise<string[]> => {
+  try {
+    const prefixes = await getStorageBackend().listObjects('users/', false);
+
+    return prefixes
+      .filter((obj) => obj.prefix)
+      .map((obj) => obj.prefix!.slice('users/'.length).replace(/\/$/, ''))
+      .filter((userId) => userId.length > 0);
+  } catch (error) {
+    logger.error('Failed to list stored user IDs', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to list stored user IDs',
+      error instanceof Error ? { originalError: error.message } : undefined
+    );
+  }
+};
+
 /**
  * Validate file size against user quota
  */
@@ -440,11 +473,7 @@ export const createMultipartUpload = async (
   try {
     logger.debug('Creating multipart upload', { storagePath });
 
-    const uploadId = await storage.initiateNewMultipartUpload(
-      getBucketName(),
-      storagePath,
-      {}
-    );
+    const uploadId = await getStorageBackend().createMultipartUpload(storagePath);
 
     logger.info('Multipart upload created', { storagePath, uploadId });
 
@@ -468,28 +497,23 @@ export const uploadPart = async (
   storagePath: string,
   uploadId: string,
   partNumber: number,
-  data: Buffer | Readable,
+  data: Buffer,
   size: number
 ): Promise<{ etag: string; partNumber: number }> => {
   try {
     logger.debug('Uploading part', { storagePath, uploadId, partNumber, size });
 
-    const result = await storage.putObject(
-      getBucketName(),
-      `${storagePath}.part${partNumber}`,
-      data,
-      size
-    );
+    const { etag } = await getStorageBackend().uploadPart(storagePath, uploadId, partNumber, data);
 
     logger.info('Part uploaded successfully', {
       storagePath,
       uploadId,
       partNumber,
-      etag: result.etag,
+      etag,
     });
 
     return {
-      etag: result.etag,
+      etag,
       partNumber,
     };
   } catch (error) {
@@ -521,12 +545,7 @@ export const completeMultipartUpload = async (
       partsCount: parts.length,
     });
 
-    await storage.completeMultipartUpload(
-      getBucketName(),
-      storagePath,
-      uploadId,
-      parts.map((p) => ({ etag: p.etag, part: p.partNumber }))
-    );
+    await getStorageBackend().completeMultipartUpload(storagePath, uploadId, parts);
 
     logger.info('Multipart upload completed successfully', { storagePath, uploadId });
   } catch (error) {
@@ -543,16 +562,19 @@ export const completeMultipartUpload = async (
 };
 
 /**
- * Abort a multipart upload
+ * Abort a multipart upload.
+ * Failures are only logged unless throwOnError is set, for callers that keep
+ * the upload around to retry.
  */
 export const abortMultipartUpload = async (
   storagePath: string,
-  uploadId: string
+  uploadId: string,
+  options: { throwOnError?: boolean } = {}
 ): Promise<void> => {
   try {
     logger.info('Aborting multipart upload', { storagePath, uploadId });
 
-    await storage.abortMultipartUpload(getBucketName(), storagePath, uploadId);
+    await getStorageBackend().abortMultipartUpload(storagePath, uploadId);
 
     logger.info('Multipart upload aborted successfully', { storagePath, uploadId });
   } catch (error) {
@@ -561,6 +583,12 @@ export const abortMultipartUpload = async (
       uploadId,
       error: error instanceof Error ? error.message : 'Unknown error',
     });
+    if (options.throwOnError) {
+      throw new StorageError(
+        'Failed to abort multipart upload',
+        error instanceof Error ? { originalError: error.message } : undefined
+      );
+    }
     // Don't throw error for abort failures
     logger.warn('Multipart upload abort failed, continuing...');
   }
@@ -580,6 +608,8 @@ export default {
   fileExists,
   getFileMetadata,
   getUserStorageUsage,
+  listUserObjects,
+  listStoredUserIds,
   validateStorageQuota,
   createMultipartUpload,
   uploadPart,
@@ -0,0 +1,250 @@
+import { getCache, setCache, setCacheNX, deleteCache, incrementCache } from '../config/redis';
+
+/**
+ * Throttle Service
+ * Slows down guessing against a single target, such as an account or a share
+ * link, regardless of the source IP. After a few free attempts every failure
+ * imposes a delay that doubles each time; at the threshold the caller locks
+ * the target. Counters, delays and locks live in Redis under the caller's key
+ * prefix, so each kind of target is throttled independently.
+ */
+
+/**
+ * Interface Definitions
+ */
+export interface ThrottleConfig {
+  // Redis key prefix, e.g. 'login' or 'share'
+  keyPrefix: string;
+  // Failed attempts allowed before delays start
+  freeAttempts: number;
+  // Delay after the first throttled failure; doubles with each further failure
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+  // Failed attempts that lock the target
+  lockoutThreshold: number;
+  // Failures are forgotten after this long without another one
+  failureWindowSeconds: number;
+}
+
+export interface Throttle {
+  // Seconds until the next attempt is accepted
+  retryAfter: number;
+  retryAt: string;
+}
+
+export interface FailureResult {
+  // The threshold was reached; the failure count starts over
+  locked: boolean;
+  // The delay now in effect, or null while attempts are still free
+  throttle: Throttle | null;
+}
+
+interface ThrottleState {
+  retryAt: string;
+}
+
+const getFailuresKey = (config: ThrottleConfig, targetId: string): string =>
+  `${config.keyPrefix}:failures:${targetId}`;
+const getDelayKey = (config: ThrottleConfig, targetId: string): string =>
+  `${config.keyPrefix}:delay:${targetId}`;
+const getLockKey = (config: ThrottleConfig, targetId: string): string =>
+  `${config.keyPrefix}:lock:${targetId}`;
+
+/**
+ * Delay imposed after the given number of consecutive failures
+ */
+export const getDelaySeconds = (config: ThrottleConfig, failures: number): number => {
+  if (failures <= config.freeAttempts) {
+    return 0;
+  }
+
+  return Math.min(
+    config.baseDelaySeconds * 2 ** (failures - config.freeAttempts - 1),
+    config.maxDelaySeconds
+  );
+};
+
+/**
+ * Describe a wait until the given time
+ */
+export const toThrottle = (retryAt: Date): Throttle => ({
+  retryAfter: Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000)),
+  retryAt: retryAt.toISOString(),
+});
+
+/**
+ * Read a stored wait that has not yet passed
+ */
+const getPendingThrottle = async (key: string): Promise<Throttle | null> => {
+  const state = await getCache<ThrottleState>(key);
+
+  if (!state || new Date(state.retryAt) <= new Date()) {
+    return null;
+  }
+
+  return toThrottle(new Date(state.retryAt));
+};
+
+/**
+ * Store a wait of the given length
+ */
+const setPendingThrottle = async (key: string, seconds: number): Promise<Throttle> => {
+  const retryAt = new Date(Date.now() + seconds * 1000);
+  await setCache(key, { retryAt: retryAt.toISOString() } as ThrottleState, seconds);
+
+  return toThrottle(retryAt);
+};
+
+/**
+ * Get the active delay for a target, if any
+ */
+export const getDelay = (config: ThrottleConfig, targetId: string): Promise<Throttle | null> =>
+  getPendingThrottle(getDelayKey(config, targetId));
+
+/**
+ * Get the active lock for a target, if any
+ */
+export const getLock = (config: ThrottleConfig, targetId: string): Promise<Throttle | null> =>
+  getPendingThrottle(getLockKey(config, targetId));
+
+/**
+ * Lock a target for a while
+ */
+export const lock = (
+  config: ThrottleConfig,
+  targetId: string,
+  seconds: number
+): Promise<Throttle> => setPendingThrottle(getLockKey(config, targetId), seconds);
+
+/**
+ * Forget failed attempts and the delay they imposed
+ */
+export const clearFailures = async (config: ThrottleConfig, targetId: string): Promise<void> => {
+  await deleteCache(getFailuresKey(config, targetId));
+  await deleteCache(getDelayKey(config, targetId));
+};
+
+/**
+ * Lift a lock and forget all failed attempts
+ */
+export const clearLock = async (config: ThrottleConfig, targetId: string): Promise<void> => {
+  await deleteCache(getLockKey(config, targetId));
+  await clearFailures(config, targetId);
+};
+
+/**
+ * Record a failed attempt and impose the delay it earns.
+ * At the threshold the failures are cleared and the caller should lock the
+ * target, with lock() or its own way of storing the lock.
+ */
+export const recordFailure = async (
+  config: ThrottleConfig,
+  targetId: string
+): Promise<FailureResult> => {
+  const failures = await incrementCache(
+    getFailuresKey(config, targetId),
+    1,
+    config.failureWindowSeconds
+  );
+
+  if (failures >= config.lockoutThreshold) {
+    await clearFailures(config, targetId);
+    return { locked: true, throttle: null };
+  }
+
+  const delaySeconds = getDelaySeconds(config, failures);
+  if (delaySeconds === 0) {
+    return { locked: false, throttle: null };
+  }
+
+  return {
+    locked: false,
+    throttle: await setPendingThrottle(getDelayKey(config, targetId), delaySeconds),
+  };
+};
+
+/**
+ * Count an attempt before it is checked, so concurrent attempts cannot all
+ * pass a check made before any of them failed. Once the free attempts are
+ * used, each attempt also claims the delay it would earn; only one attempt
+ * can hold it, the others are refused and not counted. Check the lock first.
+ * Settle the attempt with recordReservedFailure(), releaseAttempt() or
+ * clearFailures().
+ * @returns The wait when the attempt is refused, or null to go ahead
+ */
+export const reserveAttempt = async (
+  config: ThrottleConfig,
+  targetId: string
+): Promise<Throttle | null> => {
+  const failuresKey = getFailuresKey(config, targetId);
+  const attempts = await incrementCache(failuresKey, 1, config.failureWindowSeconds);
+
+  const delaySeconds = getDelaySeconds(config, attempts);
+  if (delaySeconds === 0) {
+    return null;
+  }
+
+  const retryAt = new Date(Date.now() + delaySeconds * 1000);
+  const claimed = await setCacheNX(
+    getDelayKey(config, targetId),
+    { retryAt: retryAt.toISOString() } as ThrottleState,
+    delaySeconds
+  );
+  if (claimed) {
+    return null;
+  }
+
+  await incrementCache(failuresKey, -1, config.failureWindowSeconds);
+
+  return (await getDelay(config, targetId)) ?? toThrottle(new Date(Date.now() + 1000));
+};
+
+/**
+ * Settle a reserved attempt that failed. It was counted when reserved and
+ * its delay is already in place; at the threshold the failures are cleared
+ * and the caller should lock the target.
+ */
+export const recordReservedFailure = async (
+  config: ThrottleConfig,
+  targetId: string
+): Promise<FailureResult> => {
+  const failures = (await getCache<number>(getFailuresKey(config, targetId))) ?? 0;
+
+  if (failures >= config.lockoutThreshold) {
+    await clearFailures(config, targetId);
+    return { locked: true, throttle: null };
+  }
+
+  return { locked: false, throttle: await getDelay(config, targetId) };
+};
+
+/**
+ * Settle a reserved attempt that neither failed nor succeeded, such as a
+ * correct password still awaiting its second factor
+ */
+export const releaseAttempt = async (config: ThrottleConfig, targetId: string): Promise<void> => {
+  const failures = await incrementCache(
+    getFailuresKey(config, targetId),
+    -1,
+    config.failureWindowSeconds
+  );
+
+  // The attempt held the delay it would have earned
+  if (getDelaySeconds(config, failures + 1) > 0) {
+    await deleteCache(getDelayKey(config, targetId));
+  }
+};
+
+export default {
+  getDelaySeconds,
+  toThrottle,
+  getDelay,
+  getLock,
+  lock,
+  clearFailures,
+  clearLock,
+  recordFailure,
+  reserveAttempt,
+  recordReservedFailure,
+  releaseAttempt,
+};
@@ -0,0 +1,639 @@
+import { v4 as uuidv4 } from 'uuid';
+import { prisma, runTransaction } from '../config/database';
+import logger from '../utils/logger';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  PaymentRequiredError,
+  StorageError,
+} from '../utils/errors';
+import * as storageService from './storage.service';
+import * as auditService from './audit.service';
+
+/**
+ * Upload Service
+ * Handles resumable upload sessions backed by MinIO multipart uploads.
+ * Clients create a session, PUT numbered parts in any order, query which
+ * parts are already stored, then complete or abort the session.
+ */
+
+/**
+ * Upload session configuration
+ */
+const UPLOAD_SESSION_CONFIG = {
+  // How long an unfinished session is kept before it is aborted
+  TTL_HOURS: parseInt(process.env.UPLOAD_SESSION_TTL_HOURS || '24', 10),
+
+  // S3 requires every part except the last to be at least 5MB
+  MIN_PART_SIZE: 5 * 1024 * 1024,
+
+  // Upper bound for a single part (parts are buffered in memory)
+  MAX_PART_SIZE: parseInt(process.env.UPLOAD_MAX_PART_SIZE || '134217728', 10),
+
+  // S3 limit on the number of parts in a multipart upload
+  MAX_PARTS: 10000,
+};
+
+export enum UploadSessionStatus {
+  ACTIVE = 'active',
+  // Parts are being assembled; no further parts, aborts or completions
+  COMPLETING = 'completing',
+  COMPLETED = 'completed',
+  ABORTED = 'aborted',
+}
+
+/**
+ * Interface Definitions
+ */
+export interface CreateUploadSessionData {
+  userId: string;
+  parentFolderId?: string | null;
+  filenameEncrypted: string;
+  filenameIv: string;
+  fileKeyEncrypted: string;
+  fileSize: number;
+  encryptedSize: number;
+  totalParts: number;
+  mimeType?: string;
+  encryptionAlgorithm?: string;
+  parentKeyEncrypted?: string;
+  parentNameEncrypted?: string;
+  parentNameIv?: string;
+  searchTokens?: string[];
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface CompleteUploadSessionData {
+  fileHash: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Get the maximum allowed part size
+ */
+export const getMaxPartSize = (): number => UPLOAD_SESSION_CONFIG.MAX_PART_SIZE;
+
+/**
+ * Load an active, unexpired session owned by the user
+ */
+const getActiveSession = async (sessionId: string, userId: string) => {
+  const session = await prisma.uploadSession.findFirst({
+    where: { id: sessionId, userId },
+  });
+
+  if (!session) {
+    throw new NotFoundError('Upload session not found');
+  }
+
+  if (session.status !== UploadSessionStatus.ACTIVE) {
+    throw new ConflictError(`Upload session is ${session.status}`);
+  }
+
+  if (session.expiresAt < new Date()) {
+    throw new ConflictError('Upload session has expired');
+  }
+
+  return session;
+};
+
+/**
+ * Create a new upload session
+ */
+export const createUploadSession = async (data: CreateUploadSessionData) => {
+  try {
+    logger.info('Creating upload session', {
+      userId: data.userId,
+      encryptedSize: data.encryptedSize,
+      totalParts: data.totalParts,
+    });
+
+    if (data.fileSize < 0 || data.encryptedSize <= 0) {
+      throw new ValidationError('Invalid file size');
+    }
+
+    if (data.totalParts < 1 || data.totalParts > UPLOAD_SESSION_CONFIG.MAX_PARTS) {
+      throw new ValidationError(
+        `Total parts must be between 1 and ${UPLOAD_SESSION_CONFIG.MAX_PARTS}`
+      );
+    }
+
+    if (data.encryptedSize > data.totalParts * UPLOAD_SESSION_CONFIG.MAX_PART_SIZE) {
+      throw new ValidationError('Part size exceeds the maximum allowed part size', {
+        maxPartSize: UPLOAD_SESSION_CONFIG.MAX_PART_SIZE,
+      });
+    }
+
+    // Check user storage quota
+    const user = await prisma.user.findUnique({
+      where: { id: data.userId },
+      select: { storageQuota: true, storageUsed: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    if (!storageService.validateStorageQuota(user.storageUsed, user.storageQuota, data.encryptedSize)) {
+      throw new PaymentRequiredError('Storage quota exceeded', {
+        quota: user.storageQuota.toString(),
+        used: user.storageUsed.toString(),
+        required: data.encryptedSize,
+      });
+    }
+
+    // Validate parent folder if provided
+    if (data.parentFolderId) {
+      const folder = await prisma.folder.findFirst({
+        where: {
+          id: data.parentFolderId,
+          userId: data.userId,
+          isDeleted: false,
+        },
+      });
+
+      if (!folder) {
+        throw new NotFoundError('Parent folder not found');
+      }
+    }
+
+    const fileId = uuidv4();
+    const storagePath = storageService.generateStoragePath({
+      userId: data.userId,
+      fileId,
+    });
+    const uploadId = await storageService.createMultipartUpload(storagePath);
+
+    const expiresAt = new Date(
+      Date.now() + UPLOAD_SESSION_CONFIG.TTL_HOURS * 60 * 60 * 1000
+    );
+
+    const session = await prisma.uploadSession.create({
+      data: {
+        userId: data.userId,
+        fileId,
+        parentFolderId: data.parentFolderId || null,
+        filenameEncrypted: data.filenameEncrypted,
+        filenameIv: data.filenameIv,
+        fileKeyEncrypted: data.fileKeyEncrypted,
+        ...(data.parentFolderId && {
+          parentKeyEncrypted: data.parentKeyEncrypted,
+          parentNameEncrypted: data.parentNameEncrypted,
+          parentNameIv: data.parentNameIv,
+        }),
+        fileSize: BigInt(data.fileSize),
+        encryptedSize: BigInt(data.encryptedSize),
+        mimeType: data.mimeType,
+        encryptionAlgorithm: data.encryptionAlgorithm || 'AES-256-GCM',
+        searchTokens: data.searchTokens,
+        storagePath,
+        uploadId,
+        totalParts: data.totalParts,
+        expiresAt,
+      },
+    });
+
+    logger.info('Upload session created', {
+      sessionId: session.id,
+      userId: data.userId,
+      fileId,
+    });
+
+    return { ...session, parts: [] };
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof NotFoundError ||
+      error instanceof PaymentRequiredError ||
+      error instanceof StorageError
+    ) {
+      throw error;
+    }
+    logger.error('Failed to create upload session', {
+      userId: data.userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to create upload session');
+  }
+};
+
+/**
+ * Get an upload session with the parts already stored
+ */
+export const getUploadSession = async (sessionId: string, userId: string) => {
+  try {
+    const session = await prisma.uploadSession.findFirst({
+      where: { id: sessionId, userId },
+      include: {
+        parts: {
+          select: { partNumber: true, size: true, etag: true },
+          orderBy: { partNumber: 'asc' },
+        },
+      },
+    });
+
+    if (!session) {
+      throw new NotFoundError('Upload session not found');
+    }
+
+    return session;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    logger.error('Failed to get upload session', {
+      sessionId,
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to get upload session');
+  }
+};
+
+/**
+ * Store one part of an upload session.
+ * Re-uploading an existing part number replaces it.
+ */
+export const uploadSessionPart = async (
+  sessionId: string,
+  userId: string,
+  partNumber: number,
+  data: Buffer
+) => {
+  try {
+    const session = await getActiveSession(sessionId, userId);
+    const size = data.length;
+
+    if (partNumber < 1 || partNumber > session.totalParts) {
+      throw new ValidationError(
+        `Part number must be between 1 and ${session.totalParts}`
+      );
+    }
+
+    if (size === 0 || size > UPLOAD_SESSION_CONFIG.MAX_PART_SIZE) {
+      throw new ValidationError('Invalid part size', {
+        maxPartSize: UPLOAD_SESSION_CONFIG.MAX_PART_SIZE,
+      });
+    }
+
+    if (partNumber < session.totalParts && size < UPLOAD_SESSION_CONFIG.MIN_PART_SIZE) {
+      throw new ValidationError('Only the last part may be smaller than 5MB', {
+        minPartSize: UPLOAD_SESSION_CONFIG.MIN_PART_SIZE,
+      });
+    }
+
+    const { etag } = await storageService.uploadPart(
+      session.storagePath,
+      session.uploadId,
+      partNumber,
+      data,
+      size
+    );
+
+    const part = await prisma.uploadSessionPart.upsert({
+      where: {
+        sessionId_partNumber: { sessionId, partNumber },
+      },
+      create: {
+        sessionId,
+        partNumber,
+        etag,
+        size: BigInt(size),
+      },
+      update: {
+        etag,
+        size: BigInt(size),
+      },
+    });
+
+    logger.debug('Upload session part stored', { sessionId, partNumber, size });
+
+    return part;
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof NotFoundError ||
+      error instanceof ConflictError ||
+      error instanceof StorageError
+    ) {
+      throw error;
+    }
+    logger.error('Failed to upload session part', {
+      sessionId,
+      partNumber,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to upload part');
+  }
+};
+
+/**
+ * Complete an upload session and create the file record
+ */
+export const completeUploadSession = async (
+  sessionId: string,
+  userId: string,
+  data: CompleteUploadSessionData
+) => {
+  try {
+    const session = await getActiveSession(sessionId, userId);
+
+    const parts = await prisma.uploadSessionPart.findMany({
+      where: { sessionId },
+      orderBy: { partNumber: 'asc' },
+    });
+
+    const missingParts: number[] = [];
+    for (let n = 1; n <= session.totalParts; n++) {
+      if (!parts.some((p) => p.partNumber === n)) {
+        missingParts.push(n);
+      }
+    }
+
+    if (missingParts.length > 0) {
+      throw new ValidationError('Upload is missing parts', {
+        missingParts: missingParts.slice(0, 100),
+      });
+    }
+
+    const uploadedSize = parts.reduce((sum, p) => sum + p.size, BigInt(0));
+    if (uploadedSize !== session.encryptedSize) {
+      throw new ValidationError('Uploaded size does not match the declared size', {
+        expected: session.encryptedSize.toString(),
+        received: uploadedSize.toString(),
+      });
+    }
+
+    const owner = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { storageQuota: true, storageUsed: true },
+    });
+
+    if (!owner) {
+      throw new NotFoundError('User not found');
+    }
+
+    // Fail before assembling anything; checked again in the transaction
+    if (!storageService.validateStorageQuota(owner.storageUsed, owner.storageQuota, Number(session.encryptedSize))) {
+      throw new PaymentRequiredError('Storage quota exceeded', {
+        quota: owner.storageQuota.toString(),
+        used: owner.storageUsed.toString(),
+        required: session.encryptedSize.toString(),
+      });
+    }
+
+    // Only one of several concurrent completions gets to assemble the parts
+    const claimed = await prisma.uploadSession.updateMany({
+      where: { id: sessionId, userId, status: UploadSessionStatus.ACTIVE },
+      data: { status: UploadSessionStatus.COMPLETING },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Upload session is already being completed');
+    }
+
+    try {
+      await storageService.completeMultipartUpload(
+        session.storagePath,
+        session.uploadId,
+        parts.map((p) => ({ etag: p.etag, partNumber: p.partNumber }))
+      );
+    } catch (error) {
+      // Nothing was assembled, so the session can be completed again
+      await prisma.uploadSession.update({
+        where: { id: sessionId },
+        data: { status: UploadSessionStatus.ACTIVE },
+      });
+      throw error;
+    }
+
+    const file = await runTransaction(async (tx) => {
+      const user = await tx.user.findUnique({
+        where: { id: userId },
+        select: { storageQuota: true, storageUsed: true },
+      });
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      if (!storageService.validateStorageQuota(user.storageUsed, user.storageQuota, Number(session.encryptedSize))) {
+        throw new PaymentRequiredError('Storage quota exceeded', {
+          quota: user.storageQuota.toString(),
+          used: user.storageUsed.toString(),
+          required: session.encryptedSize.toString(),
+        });
+      }
+
+      const newFile = await tx.file.create({
+        data: {
+          id: session.fileId,
+          userId,
+          parentFolderId: session.parentFolderId,
+          filenameEncrypted: session.filenameEncrypted,
+          filenameIv: session.filenameIv,
+          fileKeyEncrypted: session.fileKeyEncrypted,
+          parentKeyEncrypted: session.parentKeyEncrypted,
+          parentNameEncrypted: session.parentNameEncrypted,
+          parentNameIv: session.parentNameIv,
+          fileSize: session.fileSize,
+          encryptedSize: session.encryptedSize,
+          mimeType: session.mimeType,
+          storagePath: session.storagePath,
+          fileHash: data.fileHash,
+          encryptionAlgorithm: session.encryptionAlgorithm,
+          searchTokens: session.searchTokens,
+        },
+      });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          storageUsed: {
+            increment: session.encryptedSize,
+          },
+        },
+      });
+
+      await tx.uploadSession.update({
+        where: { id: sessionId },
+        data: { status: UploadSessionStatus.COMPLETED },
+      });
+
+      await tx.uploadSessionPart.deleteMany({ where: { sessionId } });
+
+      return newFile;
+    }).catch(async (error) => {
+      // The upload ID is used up: drop the assembled object and the session
+      await storageService.deleteFile(session.storagePath).catch((deleteError) =>
+        logger.error('Failed to delete object of failed upload', {
+          sessionId,
+          storagePath: session.storagePath,
+          error: deleteError instanceof Error ? deleteError.message : 'Unknown error',
+        })
+      );
+      await prisma.$transaction([
+        prisma.uploadSessionPart.deleteMany({ where: { sessionId } }),
+        prisma.uploadSession.update({
+          where: { id: sessionId },
+          data: { status: UploadSessionStatus.ABORTED },
+        }),
+      ]);
+      throw error;
+    });
+
+    await auditService.logFileOperation(
+      auditService.AuditAction.FILE_UPLOAD,
+      userId,
+      file.id,
+      true,
+      data.ipAddress,
+      data.userAgent
+    );
+
+    logger.info('Upload session completed', {
+      sessionId,
+      fileId: file.id,
+      userId,
+      size: session.encryptedSize.toString(),
+    });
+
+    return file;
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof NotFoundError ||
+      error instanceof ConflictError ||
+      error instanceof PaymentRequiredError ||
+      error instanceof StorageError
+    ) {
+      throw error;
+    }
+    logger.error('Failed to complete upload session', {
+      sessionId,
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to complete upload');
+  }
+};
+
+/**
+ * Abort an upload session and discard its parts
+ */
+export const abortUploadSession = async (
+  sessionId: string,
+  userId: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  try {
+    const session = await prisma.uploadSession.findFirst({
+      where: { id: sessionId, userId },
+    });
+
+    if (!session) {
+      throw new NotFoundError('Upload session not found');
+    }
+
+    if (session.status !== UploadSessionStatus.ACTIVE) {
+      throw new ConflictError(`Upload session is ${session.status}`);
+    }
+
+    await storageService.abortMultipartUpload(session.storagePath, session.uploadId);
+
+    await prisma.$transaction([
+      prisma.uploadSession.update({
+        where: { id: sessionId },
+        data: { status: UploadSessionStatus.ABORTED },
+      }),
+      prisma.uploadSessionPart.deleteMany({ where: { sessionId } }),
+    ]);
+
+    await auditService.logFileOperation(
+      auditService.AuditAction.FILE_UPLOAD_ABORT,
+      userId,
+      session.fileId,
+      true,
+      ipAddress,
+      userAgent
+    );
+
+    logger.info('Upload session aborted', { sessionId, userId });
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ConflictError) {
+      throw error;
+    }
+    logger.error('Failed to abort upload session', {
+      sessionId,
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to abort upload');
+  }
+};
+
+/**
+ * Abort expired upload sessions (should be run periodically)
+ */
+export const cleanupExpiredUploadSessions = async (): Promise<number> => {
+  try {
+    logger.info('Cleaning up expired upload sessions');
+
+    const expired = await prisma.uploadSession.findMany({
+      where: {
+        // Completions that never finished are cleaned up too
+        status: { in: [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING] },
+        expiresAt: { lt: new Date() },
+      },
+      select: { id: true, storagePath: true, uploadId: true },
+    });
+
+    // One failing abort must not stop the others; a failed session stays
+    // as it is and is retried on the next run
+    const ids: string[] = [];
+    for (const session of expired) {
+      try {
+        await storageService.abortMultipartUpload(session.storagePath, session.uploadId, {
+          throwOnError: true,
+        });
+        ids.push(session.id);
+      } catch (error) {
+        logger.error('Failed to abort expired upload session', {
+          sessionId: session.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.uploadSessionPart.deleteMany({ where: { sessionId: { in: ids } } }),
+      prisma.uploadSession.updateMany({
+        where: { id: { in: ids } },
+        data: { status: UploadSessionStatus.ABORTED },
+      }),
+    ]);
+
+    logger.info('Expired upload sessions cleaned up', { count: ids.length });
+
+    return ids.length;
+  } catch (error) {
+    logger.error('Failed to cleanup expired upload sessions', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to cleanup expired upload sessions');
+  }
+};
+
+// Export all functions
+export default {
+  getMaxPartSize,
+  createUploadSession,
+  getUploadSession,
+  uploadSessionPart,
+  completeUploadSession,
+  abortUploadSession,
+  cleanupExpiredUploadSessions,
+};
@@ -0,0 +1,543 @@
+import { prisma } from '../config/database';
+import logger from '../utils/logger';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  StorageError,
+} from '../utils/errors';
+import * as auditService from './audit.service';
+import * as fileService from './file.service';
+import * as folderService from './folder.service';
+import * as mailService from './mail.service';
+import { FilePermission, ReplaceFileContentData } from './file.service';
+
+/**
+ * User Share Service
+ * Handles sharing files and folders directly with other users. The file or
+ * folder key is wrapped client-side with the recipient's RSA public key, so the
+ * server only ever stores key material it cannot read. A folder key unlocks the
+ * parent-scoped keys of everything below it.
+ */
+
+/**
+ * Interface Definitions
+ */
+export interface CreateUserShareData {
+  fileId?: string;
+  folderId?: string;
+  ownerId: string;
+  recipientUsername: string;
+  fileKeyEncrypted: string;
+  filenameEncrypted: string;
+  filenameIv: string;
+  permission?: FilePermission;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const fileSelect = {
+  id: true,
+  fileSize: true,
+  encryptedSize: true,
+  mimeType: true,
+  encryptionAlgorithm: true,
+  version: true,
+  updatedAt: true,
+} as const;
+
+const folderSelect = {
+  id: true,
+  updatedAt: true,
+} as const;
+
+const userSelect = {
+  id: true,
+  username: true,
+} as const;
+
+const activeShareWhere = {
+  OR: [{ file: { isDeleted: false } }, { folder: { isDeleted: false } }],
+};
+
+/**
+ * Look up a user's public key by username
+ */
+export const getPublicKeyByUsername = async (username: string) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { username },
+      select: {
+        id: true,
+        username: true,
+        publicKey: true,
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return user;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    logger.error('Failed to get public key', {
+      username,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to get public key');
+  }
+};
+
+/**
+ * Email the recipient about a new share; delivery failures do not undo it
+ */
+const notifyRecipient = async (recipientEmail: string, data: CreateUserShareData) => {
+  try {
+    const owner = await prisma.user.findUnique({
+      where: { id: data.ownerId },
+      select: { username: true },
+    });
+
+    await mailService.sendShareNotification(recipientEmail, {
+      ownerName: owner?.username || 'Someone',
+      itemType: data.folderId ? 'folder' : 'file',
+      permission: data.permission || FilePermission.READ,
+    });
+  } catch (error) {
+    logger.error('Failed to send share notification', {
+      ownerId: data.ownerId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Share a file with another user
+ */
+export const createUserShare = async (data: CreateUserShareData) => {
+  try {
+    logger.info('Creating user share', {
+      fileId: data.fileId,
+      folderId: data.folderId,
+      ownerId: data.ownerId,
+      recipientUsername: data.recipientUsername,
+      permission: data.permission,
+    });
+
+    if (data.folderId) {
+      // Validate folder exists, belongs to owner and has its key hierarchy
+      const folder = await prisma.folder.findFirst({
+        where: {
+          id: data.folderId,
+          userId: data.ownerId,
+          isDeleted: false,
+        },
+      });
+
+      if (!folder) {
+        throw new NotFoundError('Folder not found');
+      }
+
+      if (!folder.folderKeyEncrypted) {
+        throw new ValidationError('Folder keys must be set up before sharing');
+      }
+    } else {
+      // Validate file exists and belongs to owner
+      const file = await prisma.file.findFirst({
+        where: {
+          id: data.fileId,
+          userId: data.ownerId,
+          isDeleted: false,
+        },
+      });
+
+      if (!file) {
+        throw new NotFoundError('File not found');
+      }
+    }
+
+    const recipient = await prisma.user.findUnique({
+      where: { username: data.recipientUsername },
+      select: { id: true, email: true },
+    });
+
+    if (!recipient) {
+      throw new NotFoundError('User not found');
+    }
+
+    if (recipient.id === data.ownerId) {
+      throw new ValidationError('You cannot share a file with yourself');
+    }
+
+    const existing = await prisma.userShare.findFirst({
+      where: {
+        sharedWithUserId: recipient.id,
+        ...(data.folderId ? { folderId: data.folderId } : { fileId: data.fileId }),
+      },
+    });
+
+    if (existing) {
+      throw new ConflictError(
+        `${data.folderId ? 'Folder' : 'File'} is already shared with this user`
+      );
+    }
+
+    const userShare = await prisma.userShare.create({
+      data: {
+        fileId: data.folderId ? null : data.fileId,
+        folderId: data.folderId,
+        ownerId: data.ownerId,
+        sharedWithUserId: recipient.id,
+        fileKeyEncrypted: data.fileKeyEncrypted,
+        filenameEncrypted: data.filenameEncrypted,
+        filenameIv: data.filenameIv,
+        permission: data.permission || FilePermission.READ,
+      },
+      include: {
+        sharedWithUser: { select: userSelect },
+      },
+    });
+
+    await auditService.logUserShareOperation(
+      auditService.AuditAction.USER_SHARE_CREATE,
+      data.ownerId,
+      userShare.id,
+      true,
+      data.ipAddress,
+      data.userAgent
+    );
+
+    await notifyRecipient(recipient.email, data);
+
+    logger.info('User share created successfully', {
+      userShareId: userShare.id,
+      fileId: data.fileId,
+      folderId: data.folderId,
+    });
+
+    return userShare;
+  } catch (error) {
+    if (
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof ConflictError
+    ) {
+      throw error;
+    }
+    logger.error('Failed to create user share', {
+      fileId: data.fileId,
+      folderId: data.folderId,
+      ownerId: data.ownerId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(`Failed to share ${data.folderId ? 'folder' : 'file'}`);
+  }
+};
+
+/**
+ * Get files and folders shared with a user
+ */
+export const getSharedWithUser = async (userId: string) => {
+  try {
+    return await prisma.userShare.findMany({
+      where: {
+        sharedWithUserId: userId,
+        ...activeShareWhere,
+      },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        file: { select: fileSelect },
+        folder: { select: folderSelect },
+        owner: { select: userSelect },
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get files shared with user', {
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to get shared files');
+  }
+};
+
+/**
+ * Get the user shares created by an owner, optionally for a single file or folder
+ */
+export const getSharedByUser = async (
+  ownerId: string,
+  fileId?: string,
+  folderId?: string
+) => {
+  try {
+    return await prisma.userShare.findMany({
+      where: {
+        ownerId,
+        ...(fileId && { fileId }),
+        ...(folderId && { folderId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        sharedWithUser: { select: userSelect },
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get user shares', {
+      ownerId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to get shares');
+  }
+};
+
+/**
+ * Get a user share received by a user
+ */
+export const getReceivedShare = async (userShareId: string, userId: string) => {
+  const userShare = await prisma.userShare.findFirst({
+    where: {
+      id: userShareId,
+      sharedWithUserId: userId,
+      ...activeShareWhere,
+    },
+  });
+
+  if (!userShare) {
+    throw new NotFoundError('Share not found');
+  }
+
+  return userShare;
+};
+
+/**
+ * Get a received share of a single file
+ */
+const getReceivedFileShare = async (userShareId: string, userId: string) => {
+  const userShare = await getReceivedShare(userShareId, userId);
+
+  if (!userShare.fileId) {
+    throw new ValidationError('Share is not a file share');
+  }
+
+  return { ...userShare, fileId: userShare.fileId };
+};
+
+/**
+ * Get a received share of a folder
+ */
+const getReceivedFolderShare = async (userShareId: string, userId: string) => {
+  const userShare = await getReceivedShare(userShareId, userId);
+
+  if (!userShare.folderId) {
+    throw new ValidationError('Share is not a folder share');
+  }
+
+  return { ...userShare, folderId: userShare.folderId };
+};
+
+/**
+ * Download a file shared with the user.
+ * Permission checks are done by the file service.
+ */
+export const downloadReceivedShare = async (
+  userShareId: string,
+  userId: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  const userShare = await getReceivedFileShare(userShareId, userId);
+
+  const download = await fileService.downloadFile(
+    userShare.fileId,
+    userId,
+    ipAddress,
+    userAgent
+  );
+
+  await auditService.logUserShareOperation(
+    auditService.AuditAction.USER_SHARE_ACCESS,
+    userId,
+    userShareId,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  return download;
+};
+
+/**
+ * Replace the content of a file shared with the user (write permission)
+ */
+export const replaceReceivedShareContent = async (
+  userShareId: string,
+  userId: string,
+  data: ReplaceFileContentData
+) => {
+  const userShare = await getReceivedFileShare(userShareId, userId);
+
+  return fileService.replaceFileContent(userShare.fileId, userId, data);
+};
+
+/**
+ * Browse a folder shared with the user, or one of its subfolders
+ */
+export const getReceivedFolderContents = async (
+  userShareId: string,
+  userId: string,
+  folderId?: string
+) => {
+  const userShare = await getReceivedFolderShare(userShareId, userId);
+
+  return folderService.getSharedFolderContents(userShare.folderId, folderId);
+};
+
+/**
+ * Download a file from inside a folder shared with the user.
+ * Permission checks are done by the file service.
+ */
+export const downloadReceivedFolderFile = async (
+  userShareId: string,
+  userId: string,
+  fileId: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  const userShare = await getReceivedFolderShare(userShareId, userId);
+
+  await folderService.getSharedFolderFile(userShare.folderId, fileId);
+
+  const download = await fileService.downloadFile(
+    fileId,
+    userId,
+    ipAddress,
+    userAgent
+  );
+
+  await auditService.logUserShareOperation(
+    auditService.AuditAction.USER_SHARE_ACCESS,
+    userId,
+    userShareId,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  return download;
+};
+
+/**
+ * Change the permission of a user share
+ */
+export const updateUserSharePermission = async (
+  userShareId: string,
+  ownerId: string,
+  permission: FilePermission,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  try {
+    const userShare = await prisma.userShare.findFirst({
+      where: {
+        id: userShareId,
+        ownerId,
+      },
+    });
+
+    if (!userShare) {
+      throw new NotFoundError('Share not found');
+    }
+
+    const updated = await prisma.userShare.update({
+      where: { id: userShareId },
+      data: { permission },
+      include: {
+        sharedWithUser: { select: userSelect },
+      },
+    });
+
+    await auditService.logUserShareOperation(
+      auditService.AuditAction.USER_SHARE_UPDATE,
+      ownerId,
+      userShareId,
+      true,
+      ipAddress,
+      userAgent
+    );
+
+    return updated;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    logger.error('Failed to update user share', {
+      userShareId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to update share');
+  }
+};
+
+/**
+ * Delete a user share.
+ * The owner revokes it; the recipient can remove it from their list.
+ */
+export const deleteUserShare = async (
+  userShareId: string,
+  userId: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  try {
+    const userShare = await prisma.userShare.findFirst({
+      where: {
+        id: userShareId,
+        OR: [{ ownerId: userId }, { sharedWithUserId: userId }],
+      },
+    });
+
+    if (!userShare) {
+      throw new NotFoundError('Share not found');
+    }
+
+    await prisma.userShare.delete({
+      where: { id: userShareId },
+    });
+
+    await auditService.logUserShareOperation(
+      auditService.AuditAction.USER_SHARE_DELETE,
+      userId,
+      userShareId,
+      true,
+      ipAddress,
+      userAgent
+    );
+
+    logger.info('User share deleted successfully', { userShareId, userId });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    logger.error('Failed to delete user share', {
+      userShareId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError('Failed to delete share');
+  }
+};
+
+export default {
+  getPublicKeyByUsername,
+  createUserShare,
+  getSharedWithUser,
+  getSharedByUser,
+  getReceivedShare,
+  downloadReceivedShare,
+  replaceReceivedShareContent,
+  getReceivedFolderContents,
+  downloadReceivedFolderFile,
+  updateUserSharePermission,
+  deleteUserShare,
+};
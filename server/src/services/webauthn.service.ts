@@ -0,0 +1,565 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { setCache, takeCache } from '../config/redis';
+import logger from '../utils/logger';
+import { AuthError, NotFoundError, ValidationError } from '../utils/errors';
+import * as auditService from './audit.service';
+import * as authService from './auth.service';
+
+/**
+ * WebAuthn Service
+ * Security keys and platform passkeys as a second factor.
+ *
+ * Credentials are registered with attestation "none": the browser hands us the
+ * credential's public key (SPKI, from AuthenticatorAttestationResponse.getPublicKey())
+ * together with the authenticator data, and every later sign-in is checked
+ * against that key. Challenges are single-use and kept in Redis.
+ */
+
+const clientUrl = new URL(process.env.CLIENT_URL || 'http://localhost:3000');
+
+const WEBAUTHN_CONFIG = {
+  RP_NAME: 'CrypticStorage',
+  RP_ID: process.env.WEBAUTHN_RP_ID || clientUrl.hostname,
+  ORIGIN: process.env.WEBAUTHN_ORIGIN || clientUrl.origin,
+
+  // How long a ceremony may take
+  CHALLENGE_TTL_SECONDS: 5 * 60,
+
+  MAX_CREDENTIALS_PER_USER: 10,
+};
+
+// COSE algorithm identifiers we accept, in order of preference
+const COSE_ALGORITHMS = {
+  ES256: -7,
+  EDDSA: -8,
+  RS256: -257,
+};
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/**
+ * Interface Definitions
+ */
+export interface RegistrationResponse {
+  id: string; // base64url credential ID
+  type: 'public-key';
+  response: {
+    clientDataJSON: string; // base64url
+    authenticatorData: string; // base64url
+    publicKey: string; // base64url SPKI
+    publicKeyAlgorithm: number;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationResponse {
+  id: string; // base64url credential ID
+  type: 'public-key';
+  response: {
+    clientDataJSON: string; // base64url
+    authenticatorData: string; // base64url
+    signature: string; // base64url
+    userHandle?: string | null;
+  };
+}
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credentialId?: Buffer;
+}
+
+type CeremonyType = 'register' | 'authenticate';
+
+const getChallengeKey = (type: CeremonyType, userId: string): string =>
+  `webauthn:challenge:${type}:${userId}`;
+
+/**
+ * Create and remember a challenge for a ceremony
+ */
+const createChallenge = async (type: CeremonyType, userId: string): Promise<string> => {
+  const challenge = crypto.randomBytes(32).toString('base64url');
+  await setCache(getChallengeKey(type, userId), challenge, WEBAUTHN_CONFIG.CHALLENGE_TTL_SECONDS);
+  return challenge;
+};
+
+/**
+ * Take the pending challenge for a ceremony; each challenge can be used once
+ */
+const consumeChallenge = async (type: CeremonyType, userId: string): Promise<string | null> => {
+  // Read and delete atomically so concurrent ceremonies cannot share a challenge
+  return takeCache<string>(getChallengeKey(type, userId));
+};
+
+/**
+ * Decode and check clientDataJSON against the expected ceremony
+ */
+const verifyClientData = (
+  clientDataJSON: string,
+  expectedType: string,
+  expectedChallenge: string
+): Buffer => {
+  const raw = Buffer.from(clientDataJSON, 'base64url');
+  let clientData: ClientData;
+
+  try {
+    clientData = JSON.parse(raw.toString('utf8'));
+  } catch {
+    throw new ValidationError('Malformed client data');
+  }
+
+  if (clientData.type !== expectedType) {
+    throw new ValidationError('Unexpected WebAuthn ceremony type');
+  }
+
+  if (clientData.challenge !== expectedChallenge) {
+    throw new ValidationError('WebAuthn challenge mismatch');
+  }
+
+  if (clientData.origin !== WEBAUTHN_CONFIG.ORIGIN) {
+    throw new ValidationError('WebAuthn origin mismatch');
+  }
+
+  return raw;
+};
+
+/**
+ * Parse authenticator data and check it was produced for this relying party
+ */
+const parseAuthenticatorData = (authenticatorData: Buffer): AuthenticatorData => {
+  if (authenticatorData.length < 37) {
+    throw new ValidationError('Malformed authenticator data');
+  }
+
+  const data: AuthenticatorData = {
+    rpIdHash: authenticatorData.subarray(0, 32),
+    flags: authenticatorData[32],
+    signCount: authenticatorData.readUInt32BE(33),
+  };
+
+  const expectedRpIdHash = crypto.createHash('sha256').update(WEBAUTHN_CONFIG.RP_ID).digest();
+  if (!crypto.timingSafeEqual(data.rpIdHash, expectedRpIdHash)) {
+    throw new ValidationError('WebAuthn relying party mismatch');
+  }
+
+  if (!(data.flags & FLAG_USER_PRESENT)) {
+    throw new ValidationError('User presence was not confirmed');
+  }
+
+  if (data.flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    // AAGUID (16 bytes), credential ID length (2 bytes), credential ID
+    const lengthOffset = 37 + 16;
+    if (authenticatorData.length < lengthOffset + 2) {
+      throw new ValidationError('Malformed authenticator data');
+    }
+    const credentialIdLength = authenticatorData.readUInt16BE(lengthOffset);
+    data.credentialId = authenticatorData.subarray(
+      lengthOffset + 2,
+      lengthOffset + 2 + credentialIdLength
+    );
+  }
+
+  return data;
+};
+
+/**
+ * Verify an assertion signature with a stored public key
+ */
+const verifySignature = (
+  algorithm: number,
+  publicKey: string,
+  signedData: Buffer,
+  signature: Buffer
+): boolean => {
+  const key = crypto.createPublicKey({
+    key: Buffer.from(publicKey, 'base64url'),
+    format: 'der',
+    type: 'spki',
+  });
+
+  switch (algorithm) {
+    case COSE_ALGORITHMS.ES256:
+    case COSE_ALGORITHMS.RS256:
+      return crypto.verify('sha256', signedData, key, signature);
+    case COSE_ALGORITHMS.EDDSA:
+      return crypto.verify(null, signedData, key, signature);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Shape a credential for API responses
+ */
+const toCredentialInfo = (credential: {
+  id: string;
+  name: string;
+  transports: string[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}) => ({
+  id: credential.id,
+  name: credential.name,
+  transports: credential.transports,
+  createdAt: credential.createdAt,
+  lastUsedAt: credential.lastUsedAt,
+});
+
+/**
+ * Check whether a user has registered any security keys
+ */
+export const hasCredentials = async (userId: string): Promise<boolean> => {
+  const count = await prisma.webAuthnCredential.count({ where: { userId } });
+  return count > 0;
+};
+
+/**
+ * List a user's security keys
+ */
+export const listCredentials = async (userId: string) => {
+  const credentials = await prisma.webAuthnCredential.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return credentials.map(toCredentialInfo);
+};
+
+/**
+ * Build options for navigator.credentials.create()
+ */
+export const generateRegistrationOptions = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, username: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const existing = await prisma.webAuthnCredential.findMany({
+    where: { userId },
+    select: { credentialId: true, transports: true },
+  });
+
+  if (existing.length >= WEBAUTHN_CONFIG.MAX_CREDENTIALS_PER_USER) {
+    throw new ValidationError(
+      `You can register at most ${WEBAUTHN_CONFIG.MAX_CREDENTIALS_PER_USER} security keys`
+    );
+  }
+
+  const challenge = await createChallenge('register', userId);
+
+  return {
+    challenge,
+    rp: {
+      id: WEBAUTHN_CONFIG.RP_ID,
+      name: WEBAUTHN_CONFIG.RP_NAME,
+    },
+    user: {
+      id: Buffer.from(user.id).toString('base64url'),
+      name: user.email,
+      displayName: user.username,
+    },
+    pubKeyCredParams: Object.values(COSE_ALGORITHMS).map((alg) => ({
+      type: 'public-key' as const,
+      alg,
+    })),
+    timeout: WEBAUTHN_CONFIG.CHALLENGE_TTL_SECONDS * 1000,
+    attestation: 'none' as const,
+    excludeCredentials: existing.map((credential) => ({
+      type: 'public-key' as const,
+      id: credential.credentialId,
+      transports: credential.transports,
+    })),
+    authenticatorSelection: {
+      residentKey: 'discouraged' as const,
+      userVerification: 'preferred' as const,
+    },
+  };
+};
+
+/**
+ * Verify a registration ceremony and store the new credential
+ */
+export const verifyRegistration = async (
+  userId: string,
+  name: string,
+  registration: RegistrationResponse,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  try {
+    const challenge = await consumeChallenge('register', userId);
+    if (!challenge) {
+      throw new ValidationError('Security key registration expired, please try again');
+    }
+
+    verifyClientData(registration.response.clientDataJSON, 'webauthn.create', challenge);
+
+    const authenticatorData = parseAuthenticatorData(
+      Buffer.from(registration.response.authenticatorData, 'base64url')
+    );
+
+    if (
+      !authenticatorData.credentialId ||
+      authenticatorData.credentialId.toString('base64url') !== registration.id
+    ) {
+      throw new ValidationError('Credential ID mismatch');
+    }
+
+    const algorithm = registration.response.publicKeyAlgorithm;
+    if (!Object.values(COSE_ALGORITHMS).includes(algorithm)) {
+      throw new ValidationError('Unsupported security key algorithm');
+    }
+
+    // Make sure the key parses before we rely on it for sign-in
+    try {
+      crypto.createPublicKey({
+        key: Buffer.from(registration.response.publicKey, 'base64url'),
+        format: 'der',
+        type: 'spki',
+      });
+    } catch {
+      throw new ValidationError('Malformed security key public key');
+    }
+
+    const existing = await prisma.webAuthnCredential.findUnique({
+      where: { credentialId: registration.id },
+    });
+    if (existing) {
+      throw new ValidationError('This security key is already registered');
+    }
+
+    const credential = await prisma.webAuthnCredential.create({
+      data: {
+        userId,
+        credentialId: registration.id,
+        publicKey: registration.response.publicKey,
+        algorithm,
+        signCount: BigInt(authenticatorData.signCount),
+        transports: registration.response.transports || [],
+        name,
+      },
+    });
+
+    await auditService.logAuthEvent(
+      auditService.AuditAction.WEBAUTHN_REGISTER,
+      userId,
+      true,
+      ipAddress,
+      userAgent
+    );
+
+    logger.info('Security key registered', { userId, credentialId: credential.id });
+
+    return toCredentialInfo(credential);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error('Failed to register security key', {
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new ValidationError('Failed to register security key');
+  }
+};
+
+/**
+ * Build options for navigator.credentials.get()
+ * @returns null when the user has no security keys
+ */
+export const generateAuthenticationOptions = async (userId: string) => {
+  const credentials = await prisma.webAuthnCredential.findMany({
+    where: { userId },
+    select: { credentialId: true, transports: true },
+  });
+
+  if (credentials.length === 0) {
+    return null;
+  }
+
+  const challenge = await createChallenge('authenticate', userId);
+
+  return {
+    challenge,
+    rpId: WEBAUTHN_CONFIG.RP_ID,
+    timeout: WEBAUTHN_CONFIG.CHALLENGE_TTL_SECONDS * 1000,
+    allowCredentials: credentials.map((credential) => ({
+      type: 'public-key' as const,
+      id: credential.credentialId,
+      transports: credential.transports,
+    })),
+    userVerification: 'preferred' as const,
+  };
+};
+
+/**
+ * Verify an authentication ceremony as a second factor
+ * @returns Whether the assertion was valid
+ */
+export const verifyAuthentication = async (
+  userId: string,
+  assertion: AuthenticationResponse,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<boolean> => {
+  try {
+    const challenge = await consumeChallenge('authenticate', userId);
+    if (!challenge) {
+      return false;
+    }
+
+    const credential = await prisma.webAuthnCredential.findUnique({
+      where: { credentialId: assertion.id },
+    });
+
+    if (!credential || credential.userId !== userId) {
+      logger.warn('Unknown security key used', { userId });
+      return false;
+    }
+
+    const clientData = verifyClientData(
+      assertion.response.clientDataJSON,
+      'webauthn.get',
+      challenge
+    );
+
+    const rawAuthenticatorData = Buffer.from(assertion.response.authenticatorData, 'base64url');
+    const authenticatorData = parseAuthenticatorData(rawAuthenticatorData);
+
+    const signedData = Buffer.concat([
+      rawAuthenticatorData,
+      crypto.createHash('sha256').update(clientData).digest(),
+    ]);
+
+    if (
+      !verifySignature(
+        credential.algorithm,
+        credential.publicKey,
+        signedData,
+        Buffer.from(assertion.response.signature, 'base64url')
+      )
+    ) {
+      logger.warn('Invalid security key signature', { userId, credentialId: credential.id });
+      return false;
+    }
+
+    // Authenticators that keep a counter must increase it; anything else
+    // suggests the key was cloned
+    const signCount = BigInt(authenticatorData.signCount);
+    if ((signCount > 0 || credential.signCount > 0) && signCount <= credential.signCount) {
+      await auditService.logSecurityEvent(
+        auditService.AuditAction.WEBAUTHN_AUTH_FAILED,
+        userId,
+        ipAddress,
+        userAgent,
+        `Signature counter did not increase for security key ${credential.id}`
+      );
+      return false;
+    }
+
+    await prisma.webAuthnCredential.update({
+      where: { id: credential.id },
+      data: { signCount, lastUsedAt: new Date() },
+    });
+
+    logger.info('Security key verified', { userId, credentialId: credential.id });
+
+    return true;
+  } catch (error) {
+    logger.warn('Security key verification failed', {
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return false;
+  }
+};
+
+/**
+ * Rename a security key
+ */
+export const renameCredential = async (userId: string, credentialId: string, name: string) => {
+  const credential = await prisma.webAuthnCredential.findFirst({
+    where: { id: credentialId, userId },
+  });
+
+  if (!credential) {
+    throw new NotFoundError('Security key not found');
+  }
+
+  const updated = await prisma.webAuthnCredential.update({
+    where: { id: credential.id },
+    data: { name },
+  });
+
+  return toCredentialInfo(updated);
+};
+
+/**
+ * Remove a security key after re-checking the password
+ */
+export const deleteCredential = async (
+  userId: string,
+  credentialId: string,
+  password: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { passwordHash: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (!(await authService.verifyPassword(password, user.passwordHash))) {
+    throw new AuthError('Invalid password');
+  }
+
+  const { count } = await prisma.webAuthnCredential.deleteMany({
+    where: { id: credentialId, userId },
+  });
+
+  if (count === 0) {
+    throw new NotFoundError('Security key not found');
+  }
+
+  // Backup codes are only useful while some second factor remains
+  await authService.removeOrphanedBackupCodes(userId);
+
+  await auditService.logAuthEvent(
+    auditService.AuditAction.WEBAUTHN_REMOVE,
+    userId,
+    true,
+    ipAddress,
+    userAgent
+  );
+
+  logger.info('Security key removed', { userId, credentialId });
+};
+
+export default {
+  hasCredentials,
+  listCredentials,
+  generateRegistrationOptions,
+  verifyRegistration,
+  generateAuthenticationOptions,
+  verifyAuthentication,
+  renameCredential,
+  deleteCredential,
+};
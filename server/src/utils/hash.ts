@@ -0,0 +1,12 @@
+import crypto from 'crypto';
+
+/**
+ * Hashing helpers for secrets that are stored or used in cache keys
+ */
+
+/**
+ * Hash a high-entropy secret, such as a recovery verifier or a link token.
+ * Values generated by a CSPRNG need no slow hash, so SHA-256 is sufficient.
+ */
+export const hashSecret = (value: string): string =>
+  crypto.createHash('sha256').update(value).digest('hex');
@@ -22,6 +22,7 @@ describe('Authentication Endpoints', () => {
         email: 'newuser@example.com',
         username: 'newuser',
         password: 'Test123!@#',
+        salt: 'kdf-salt',
         masterKey: 'encrypted-master-key',
         publicKey: 'public-key',
         privateKeyEncrypted: 'encrypted-private-key',
@@ -44,6 +45,7 @@ describe('Authentication Endpoints', () => {
         email: 'duplicate@example.com',
         username: 'user1',
         password: 'Test123!@#',
+        salt: 'kdf-salt',
         masterKey: 'encrypted-master-key',
         publicKey: 'public-key',
         privateKeyEncrypted: 'encrypted-private-key',
@@ -67,6 +69,7 @@ describe('Authentication Endpoints', () => {
         email: 'user1@example.com',
         username: 'duplicateuser',
         password: 'Test123!@#',
+        salt: 'kdf-salt',
         masterKey: 'encrypted-master-key',
         publicKey: 'public-key',
         privateKeyEncrypted: 'encrypted-private-key',
@@ -90,6 +93,7 @@ describe('Authentication Endpoints', () => {
         email: 'invalid-email',
         username: 'testuser',
         password: 'Test123!@#',
+        salt: 'kdf-salt',
         masterKey: 'encrypted-master-key',
         publicKey: 'public-key',
         privateKeyEncrypted: 'encrypted-private-key',
@@ -108,6 +112,7 @@ describe('Authentication Endpoints', () => {
         email: 'test@example.com',
         username: 'testuser',
         password: 'weak', // Too weak
+        salt: 'kdf-salt',
         masterKey: 'encrypted-master-key',
         publicKey: 'public-key',
         privateKeyEncrypted: 'encrypted-private-key',
@@ -126,6 +131,7 @@ describe('Authentication Endpoints', () => {
         email: 'audit@example.com',
         username: 'audituser',
         password: 'Test123!@#',
+        salt: 'kdf-salt',
         masterKey: 'encrypted-master-key',
         publicKey: 'public-key',
         privateKeyEncrypted: 'encrypted-private-key',
@@ -172,6 +178,23 @@ describe('Authentication Endpoints', () => {
       expect(response.body.data).toHaveProperty('refreshToken');
     });
 
+    it('should return the KDF settings and ask legacy accounts to upgrade', async () => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: 'login@example.com',
+          password: 'Test123!@#',
+        })
+        .expect(200);
+
+      expect(response.body.data.user.salt).toBe(testUser.salt);
+      expect(response.body.data.user.kdf).toEqual({
+        algorithm: 'PBKDF2-SHA256',
+        iterations: 100000,
+      });
+      expect(response.body.data.kdfUpgrade).toMatchObject({ algorithm: 'ARGON2ID' });
+    });
+
     it('should login with username', async () => {
       const response = await request(app)
         .post('/api/auth/login')
@@ -347,6 +370,21 @@ describe('Authentication Endpoints', () => {
       expect(sessionsAfter.length).toBeLessThan(sessionsBefore.length);
     });
 
+    it('should reject the access token once its session is gone', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ refreshToken })
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(401);
+
+      expect(response.body.code).toBe('SESSION_REVOKED');
+    });
+
     it('should reject logout without authentication', async () => {
       await request(app)
         .post('/api/auth/logout')
@@ -263,6 +263,30 @@ describe('File Endpoints', () => {
     });
   });
 
+  describe('GET /api/files/search', () => {
+    const token = 'a'.repeat(22);
+
+    it('should search with default paging', async () => {
+      const response = await request(app)
+        .get('/api/files/search')
+        .query({ tokens: token })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.files).toEqual([]);
+    });
+
+    it('should reject a page or limit below one', async () => {
+      for (const paging of [{ page: 0 }, { limit: 0 }, { page: 'abc' }]) {
+        await request(app)
+          .get('/api/files/search')
+          .query({ tokens: token, ...paging })
+          .set('Authorization', `Bearer ${accessToken}`)
+          .expect(400);
+      }
+    });
+  });
+
   describe('GET /api/files/:id', () => {
     let testFile: any;
 
@@ -6,6 +6,7 @@
 import request from 'supertest';
 import { app } from '../../src/app';
 import { prisma } from '../../src/config/database';
+import * as shareService from '../../src/services/share.service';
 
 describe('Share Endpoints', () => {
   let testUser: any;
@@ -39,6 +40,8 @@ describe('Share Endpoints', () => {
         .send({
           fileId: testFile.id,
           fileKeyEncrypted: 'encrypted-file-key',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
         })
         .expect(201);
 
@@ -56,7 +59,11 @@ describe('Share Endpoints', () => {
         .send({
           fileId: testFile.id,
           fileKeyEncrypted: 'encrypted-file-key',
-          password: 'SecurePass123',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
+          password: 'password-verifier',
+          passwordSalt: 'c2FsdA',
+          kdf: { algorithm: 'ARGON2ID', iterations: 3, memoryKib: 65536, parallelism: 1 },
         })
         .expect(201);
 
@@ -64,6 +71,20 @@ describe('Share Endpoints', () => {
       expect(response.body.data.passwordHash).toBeUndefined(); // Should not expose hash
     });
 
+    it('should reject a password without its KDF settings', async () => {
+      await request(app)
+        .post('/api/shares')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          fileId: testFile.id,
+          fileKeyEncrypted: 'encrypted-file-key',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
+          password: 'password-verifier',
+        })
+        .expect(400);
+    });
+
     it('should create share with expiration', async () => {
       const futureDate = new Date(Date.now() + 86400000); // Tomorrow
 
@@ -73,6 +94,8 @@ describe('Share Endpoints', () => {
         .send({
           fileId: testFile.id,
           fileKeyEncrypted: 'encrypted-file-key',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
           expiresAt: futureDate.toISOString(),
         })
         .expect(201);
@@ -87,6 +110,8 @@ describe('Share Endpoints', () => {
         .send({
           fileId: testFile.id,
           fileKeyEncrypted: 'encrypted-file-key',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
           maxDownloads: 5,
         })
         .expect(201);
@@ -100,6 +125,8 @@ describe('Share Endpoints', () => {
         .send({
           fileId: testFile.id,
           fileKeyEncrypted: 'encrypted-file-key',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
         })
         .expect(401);
     });
@@ -111,6 +138,8 @@ describe('Share Endpoints', () => {
         .send({
           fileId: 'non-existent-file-id',
           fileKeyEncrypted: 'encrypted-file-key',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
         })
         .expect(404);
     });
@@ -125,6 +154,8 @@ describe('Share Endpoints', () => {
         .send({
           fileId: otherFile.id,
           fileKeyEncrypted: 'encrypted-file-key',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
         })
         .expect(404);
     });
@@ -138,6 +169,8 @@ describe('Share Endpoints', () => {
         .send({
           fileId: testFile.id,
           fileKeyEncrypted: 'encrypted-file-key',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
           expiresAt: pastDate.toISOString(),
         })
         .expect(400);
@@ -150,6 +183,8 @@ describe('Share Endpoints', () => {
         .send({
           fileId: testFile.id,
           fileKeyEncrypted: 'encrypted-file-key',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
           maxDownloads: 0,
         })
         .expect(400);
@@ -162,6 +197,8 @@ describe('Share Endpoints', () => {
         .send({
           fileId: testFile.id,
           fileKeyEncrypted: 'encrypted-file-key',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
         })
         .expect(201);
 
@@ -335,7 +372,6 @@ describe('Share Endpoints', () => {
     beforeEach(async () => {
       testShare = await prisma.share.create({
         data: {
-          id: 'update-share-id',
           fileId: testFile.id,
           ownerId: testUser.id,
           shareToken: 'update-token',
@@ -355,31 +391,55 @@ describe('Share Endpoints', () => {
         })
         .expect(200);
 
-      expect(response.body.data.expiresAt).toBeDefined();
+      expect(new Date(response.body.data.share.expiresAt).getTime()).toBe(futureDate.getTime());
     });
 
-    it('should update share password', async () => {
+    it('should update the password of a file request', async () => {
+      const folder = await prisma.folder.create({
+        data: {
+          userId: testUser.id,
+          nameEncrypted: 'encrypted-folder-name',
+          nameIv: 'folder-iv',
+        },
+      });
+      const fileRequest = await prisma.share.create({
+        data: {
+          type: 'upload',
+          folderId: folder.id,
+          ownerId: testUser.id,
+          shareToken: 'update-request-token',
+        },
+      });
+
       const response = await request(app)
-        .patch(`/api/shares/${testShare.id}`)
+        .patch(`/api/shares/${fileRequest.id}`)
         .set('Authorization', `Bearer ${accessToken}`)
         .send({
           password: 'NewPassword123',
         })
         .expect(200);
 
-      expect(response.body.data.hasPassword).toBe(true);
-    });
+      expect(response.body.data.share.passwordProtected).toBe(true);
 
-    it('should remove share password', async () => {
-      const response = await request(app)
-        .patch(`/api/shares/${testShare.id}`)
+      const removed = await request(app)
+        .patch(`/api/shares/${fileRequest.id}`)
         .set('Authorization', `Bearer ${accessToken}`)
         .send({
           password: null,
         })
         .expect(200);
 
-      expect(response.body.data.hasPassword).toBe(false);
+      expect(removed.body.data.share.passwordProtected).toBe(false);
+    });
+
+    it('should reject a password change on a download link', async () => {
+      await request(app)
+        .patch(`/api/shares/${testShare.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          password: 'NewPassword123',
+        })
+        .expect(400);
     });
 
     it('should update share status', async () => {
@@ -391,7 +451,7 @@ describe('Share Endpoints', () => {
         })
         .expect(200);
 
-      expect(response.body.data.isActive).toBe(false);
+      expect(response.body.data.share.isActive).toBe(false);
     });
 
     it('should update max downloads', async () => {
@@ -403,7 +463,15 @@ describe('Share Endpoints', () => {
         })
         .expect(200);
 
-      expect(response.body.data.maxDownloads).toBe(10);
+      expect(response.body.data.share.maxDownloads).toBe(10);
+    });
+
+    it('should reject an empty update', async () => {
+      await request(app)
+        .patch(`/api/shares/${testShare.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({})
+        .expect(400);
     });
 
     it('should reject update without authentication', async () => {
@@ -416,11 +484,13 @@ describe('Share Endpoints', () => {
     });
 
     it('should reject update of other users share', async () => {
-      const otherUser = await global.testUtils.createTestUser();
+      const otherUser = await global.testUtils.createTestUser({
+        email: 'other-update@example.com',
+        username: 'otherupdate',
+      });
       const otherFile = await global.testUtils.createTestFile(otherUser.id);
       const otherShare = await prisma.share.create({
         data: {
-          id: 'other-update-share',
           fileId: otherFile.id,
           ownerId: otherUser.id,
           shareToken: 'other-update-token',
@@ -438,6 +508,122 @@ describe('Share Endpoints', () => {
     });
   });
 
+  describe('Bulk share operations', () => {
+    const day = 24 * 60 * 60 * 1000;
+    let expired: any;
+    let current: any;
+
+    beforeEach(async () => {
+      expired = await prisma.share.create({
+        data: {
+          fileId: testFile.id,
+          ownerId: testUser.id,
+          shareToken: 'bulk-expired-token',
+          fileKeyEncrypted: 'encrypted-key',
+          expiresAt: new Date(Date.now() - day),
+        },
+      });
+      current = await prisma.share.create({
+        data: {
+          fileId: testFile.id,
+          ownerId: testUser.id,
+          shareToken: 'bulk-current-token',
+          fileKeyEncrypted: 'encrypted-key',
+          expiresAt: new Date(Date.now() + day),
+        },
+      });
+    });
+
+    it('should revoke every link of a file', async () => {
+      const response = await request(app)
+        .post('/api/shares/bulk/revoke')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ fileId: testFile.id })
+        .expect(200);
+
+      expect(response.body.data.revoked).toBe(2);
+      expect(await prisma.share.count({ where: { fileId: testFile.id, isActive: true } })).toBe(0);
+    });
+
+    it('should only revoke expired links', async () => {
+      const response = await request(app)
+        .post('/api/shares/bulk/revoke-expired')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.revoked).toBe(1);
+
+      const [revoked, kept] = await Promise.all([
+        prisma.share.findUniqueOrThrow({ where: { id: expired.id } }),
+        prisma.share.findUniqueOrThrow({ where: { id: current.id } }),
+      ]);
+      expect(revoked.isActive).toBe(false);
+      expect(kept.isActive).toBe(true);
+    });
+
+    it('should extend expired links from now and others from their expiry', async () => {
+      await request(app)
+        .post('/api/shares/bulk/extend')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ shareIds: [expired.id, current.id], days: 7 })
+        .expect(200);
+
+      const [fromNow, fromExpiry] = await Promise.all([
+        prisma.share.findUniqueOrThrow({ where: { id: expired.id } }),
+        prisma.share.findUniqueOrThrow({ where: { id: current.id } }),
+      ]);
+      expect(fromNow.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 6 * day);
+      expect(fromNow.expiresAt!.getTime()).toBeLessThanOrEqual(Date.now() + 7 * day);
+      expect(fromExpiry.expiresAt!.getTime()).toBe(current.expiresAt.getTime() + 7 * day);
+    });
+
+    it('should reopen a visited expired link once it is extended', async () => {
+      await request(app).get(`/api/shares/public/${expired.shareToken}`).expect(400);
+
+      expect((await prisma.share.findUniqueOrThrow({ where: { id: expired.id } })).isActive).toBe(
+        true
+      );
+
+      await request(app)
+        .post('/api/shares/bulk/extend')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ shareIds: [expired.id], days: 7 })
+        .expect(200);
+
+      await request(app).get(`/api/shares/public/${expired.shareToken}`).expect(200);
+    });
+
+    it('should filter the share list by status', async () => {
+      const response = await request(app)
+        .get('/api/shares')
+        .query({ status: 'expired' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.shares.map((share: any) => share.id)).toEqual([expired.id]);
+    });
+
+    it('should only delete links that expired before the retention period', async () => {
+      const old = await prisma.share.create({
+        data: {
+          fileId: testFile.id,
+          ownerId: testUser.id,
+          shareToken: 'bulk-old-token',
+          fileKeyEncrypted: 'encrypted-key',
+          expiresAt: new Date(Date.now() - 40 * day),
+        },
+      });
+
+      expect(await shareService.cleanupExpiredShares(30)).toBe(1);
+
+      const remaining = await prisma.share.findMany({ where: { fileId: testFile.id } });
+      expect(remaining.map((share) => share.id).sort()).toEqual(
+        [expired.id, current.id].sort()
+      );
+      expect(remaining.map((share) => share.id)).not.toContain(old.id);
+    });
+  });
+
   describe('DELETE /api/shares/:id', () => {
     let testShare: any;
 
@@ -721,6 +907,23 @@ describe('Share Endpoints', () => {
     });
   });
 
+  describe('PUT /api/shares/users/received/:id/content', () => {
+    afterEach(() => {
+      delete process.env.REQUIRE_VERIFIED_EMAIL;
+    });
+
+    it('should require a verified email when verification is enforced', async () => {
+      process.env.REQUIRE_VERIFIED_EMAIL = 'true';
+
+      const response = await request(app)
+        .put(`/api/shares/users/received/${testFile.id}/content`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+
+      expect(response.body.code).toBe('EMAIL_NOT_VERIFIED');
+    });
+  });
+
   describe('GET /api/shares/file/:fileId/stats', () => {
     beforeEach(async () => {
       // Create multiple shares for the file
@@ -0,0 +1,113 @@
+/**
+ * In-memory stand-in for src/config/redis
+ * Load it in a test file with:
+ *
+ *   jest.mock('../../src/config/redis', () => require('../mocks/redis').createRedisMock());
+ *   const { __store: store } = jest.requireMock('../../src/config/redis');
+ *
+ * The cache helpers and the raw client share one keyspace (__store); hashes
+ * live in __hashes. Expiry is recorded for getCacheTTL but never enforced.
+ */
+
+export const createRedisMock = () => {
+  const values = new Map<string, string>();
+  const hashes = new Map<string, Record<string, string>>();
+  const expiries = new Map<string, number>();
+
+  const getHash = (key: string) => {
+    if (!hashes.has(key)) {
+      hashes.set(key, {});
+    }
+    return hashes.get(key)!;
+  };
+
+  const store = (key: string, value: unknown, ttl?: number) => {
+    values.set(key, JSON.stringify(value));
+    if (ttl) {
+      expiries.set(key, Date.now() + ttl * 1000);
+    } else {
+      expiries.delete(key);
+    }
+  };
+
+  const read = (key: string) => {
+    const value = values.get(key);
+    return value ? JSON.parse(value) : null;
+  };
+
+  const remove = (key: string) => {
+    expiries.delete(key);
+    return values.delete(key);
+  };
+
+  return {
+    __store: values,
+    __hashes: hashes,
+    redis: {
+      set: jest.fn(async (key: string, value: string, ..._args: unknown[]) => {
+        // Only the NX form is used
+        if (values.has(key)) {
+          return null;
+        }
+        values.set(key, value);
+        return 'OK';
+      }),
+      del: jest.fn(async (key: string) => (remove(key) ? 1 : 0)),
+      // Compare-and-delete, the only script the services run
+      eval: jest.fn(async (_script: string, _numKeys: number, key: string, token: string) => {
+        if (values.get(key) === token) {
+          remove(key);
+          return 1;
+        }
+        return 0;
+      }),
+      hget: jest.fn(async (key: string, field: string) => getHash(key)[field] ?? null),
+      hgetall: jest.fn(async (key: string) => ({ ...getHash(key) })),
+      hset: jest.fn(async (key: string, fields: Record<string, unknown>) => {
+        const hash = getHash(key);
+        for (const [field, value] of Object.entries(fields)) {
+          hash[field] = String(value);
+        }
+        return Object.keys(fields).length;
+      }),
+      hincrby: jest.fn(async (key: string, field: string, by: number) => {
+        const hash = getHash(key);
+        const value = Number(hash[field] || 0) + by;
+        hash[field] = String(value);
+        return value;
+      }),
+    },
+    setCache: jest.fn(async (key: string, value: unknown, ttl?: number) => {
+      store(key, value, ttl);
+    }),
+    setCacheNX: jest.fn(async (key: string, value: unknown, ttl?: number) => {
+      if (values.has(key)) {
+        return false;
+      }
+      store(key, value, ttl);
+      return true;
+    }),
+    getCache: jest.fn(async (key: string) => read(key)),
+    takeCache: jest.fn(async (key: string) => {
+      const value = read(key);
+      remove(key);
+      return value;
+    }),
+    deleteCache: jest.fn(async (key: string) => {
+      remove(key);
+    }),
+    incrementCache: jest.fn(async (key: string, amount: number = 1) => {
+      const next = parseInt(values.get(key) || '0', 10) + amount;
+      values.set(key, String(next));
+      return next;
+    }),
+    deleteCachePattern: jest.fn().mockResolvedValue(0),
+    getCacheTTL: jest.fn(async (key: string) => {
+      if (!values.has(key)) {
+        return -2;
+      }
+      const expiresAt = expiries.get(key);
+      return expiresAt ? Math.ceil((expiresAt - Date.now()) / 1000) : -1;
+    }),
+  };
+};
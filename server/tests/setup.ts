@@ -23,16 +23,13 @@ jest.mock('../src/config/redis', () => ({
   deleteCachePattern: jest.fn().mockResolvedValue(undefined),
 }));
 
-// Mock MinIO storage service
+// Mock storage backend
 jest.mock('../src/config/storage', () => ({
-  storageClient: {
-    bucketExists: jest.fn().mockResolvedValue(true),
-    makeBucket: jest.fn().mockResolvedValue(undefined),
-    putObject: jest.fn().mockResolvedValue({ etag: 'test-etag' }),
-    getObject: jest.fn().mockResolvedValue({}),
-    removeObject: jest.fn().mockResolvedValue(undefined),
-    statObject: jest.fn().mockResolvedValue({ size: 1024 }),
-  },
+  getStorageDriver: jest.fn().mockReturnValue('local'),
+  getStorageBackend: jest.fn(),
+  initializeStorage: jest.fn().mockResolvedValue(undefined),
+  isStorageHealthy: jest.fn().mockReturnValue(true),
+  getStorageStats: jest.fn().mockResolvedValue({ totalObjects: 0, totalSize: 0 }),
 }));
 
 // Mock storage service functions
@@ -56,7 +53,19 @@ jest.mock('../src/services/storage.service', () => ({
   }),
   deleteFile: jest.fn().mockResolvedValue(undefined),
   deleteMultipleFiles: jest.fn().mockResolvedValue(undefined),
+  copyFile: jest.fn().mockResolvedValue(undefined),
   validateStorageQuota: jest.fn().mockReturnValue(true),
+  generateStoragePath: jest.fn().mockImplementation(
+    ({ userId, fileId }) => `users/${userId}/files/${fileId}/current`
+  ),
+  createMultipartUpload: jest.fn().mockResolvedValue('test-upload-id'),
+  uploadPart: jest.fn().mockImplementation((_path, _uploadId, partNumber) =>
+    Promise.resolve({ etag: `etag-${partNumber}`, partNumber })
+  ),
+  completeMultipartUpload: jest.fn().mockResolvedValue(undefined),
+  abortMultipartUpload: jest.fn().mockResolvedValue(undefined),
+  listUserObjects: jest.fn().mockResolvedValue([]),
+  listStoredUserIds: jest.fn().mockResolvedValue([]),
 }));
 
 // Mock logger to reduce noise in tests
@@ -134,8 +143,10 @@ global.testUtils = {
   cleanupTestData: async () => {
     // Clean up in reverse order of dependencies
     await prisma.auditLog.deleteMany({});
+    await prisma.uploadSession.deleteMany({});
     await prisma.fileVersion.deleteMany({});
     await prisma.share.deleteMany({});
+    await prisma.userShare.deleteMany({});
     await prisma.file.deleteMany({});
     await prisma.folder.deleteMany({});
     await prisma.session.deleteMany({});
@@ -0,0 +1,202 @@
+/**
+ * Unit Tests for Account Deletion Service
+ * Tests scheduling, cancelling and erasing accounts
+ */
+
+jest.mock('../../src/services/storage.service', () => ({
+  deleteAllUserFiles: jest.fn().mockResolvedValue(undefined),
+  abortMultipartUpload: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../../src/services/mail.service', () => ({
+  sendAccountDeletionScheduledEmail: jest.fn().mockResolvedValue(undefined),
+  sendAccountDeletedEmail: jest.fn().mockResolvedValue(undefined),
+}));
+
+import speakeasy from 'speakeasy';
+import { prisma } from '../../src/config/database';
+import * as accountDeletionService from '../../src/services/accountDeletion.service';
+import * as authService from '../../src/services/auth.service';
+import * as mailService from '../../src/services/mail.service';
+import * as storageService from '../../src/services/storage.service';
+import { AuditAction } from '../../src/services/audit.service';
+import { AuthError, ConflictError, NotFoundError, StorageError } from '../../src/utils/errors';
+
+const deleteAllUserFiles = storageService.deleteAllUserFiles as jest.Mock;
+const abortMultipartUpload = storageService.abortMultipartUpload as jest.Mock;
+
+describe('Account Deletion Service', () => {
+  let testUser: any;
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    jest.clearAllMocks();
+    testUser = await global.testUtils.createTestUser();
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  describe('requestAccountDeletion', () => {
+    it('should schedule erasure after the grace period and send a confirmation', async () => {
+      const scheduledFor = await accountDeletionService.requestAccountDeletion(testUser.id, {
+        password: 'Test123!@#',
+      });
+
+      const days = (scheduledFor.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+      expect(Math.round(days)).toBe(14);
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(user!.deletionScheduledAt).toEqual(scheduledFor);
+      expect(mailService.sendAccountDeletionScheduledEmail).toHaveBeenCalledWith(
+        testUser.email,
+        scheduledFor
+      );
+    });
+
+    it('should reject a wrong password', async () => {
+      await expect(
+        accountDeletionService.requestAccountDeletion(testUser.id, { password: 'Wrong123!@#' })
+      ).rejects.toThrow(AuthError);
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(user!.deletionScheduledAt).toBeNull();
+    });
+
+    it('should require a second factor when two-factor authentication is enabled', async () => {
+      const secret = speakeasy.generateSecret().base32;
+      await prisma.user.update({
+        where: { id: testUser.id },
+        data: { totpSecretEncrypted: secret },
+      });
+
+      await expect(
+        accountDeletionService.requestAccountDeletion(testUser.id, { password: 'Test123!@#' })
+      ).rejects.toThrow(AuthError);
+
+      const totpToken = speakeasy.totp({ secret, encoding: 'base32' });
+      await expect(
+        accountDeletionService.requestAccountDeletion(testUser.id, {
+          password: 'Test123!@#',
+          totpToken,
+        })
+      ).resolves.toBeInstanceOf(Date);
+    });
+
+    it('should reject a second request while one is pending', async () => {
+      await accountDeletionService.requestAccountDeletion(testUser.id, { password: 'Test123!@#' });
+
+      await expect(
+        accountDeletionService.requestAccountDeletion(testUser.id, { password: 'Test123!@#' })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('cancelAccountDeletion', () => {
+    it('should clear the scheduled erasure', async () => {
+      await accountDeletionService.requestAccountDeletion(testUser.id, { password: 'Test123!@#' });
+
+      await accountDeletionService.cancelAccountDeletion(testUser.id);
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(user!.deletionScheduledAt).toBeNull();
+    });
+
+    it('should fail when nothing is scheduled', async () => {
+      await expect(accountDeletionService.cancelAccountDeletion(testUser.id)).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+
+  describe('eraseAccount', () => {
+    it('should remove storage, records and sessions and anonymize audit logs', async () => {
+      const file = await global.testUtils.createTestFile(testUser.id);
+      await prisma.share.create({
+        data: {
+          fileId: file.id,
+          ownerId: testUser.id,
+          shareToken: 'erase-me',
+          fileKeyEncrypted: 'share-key',
+        },
+      });
+      await authService.createSession(testUser.id);
+      await prisma.auditLog.create({
+        data: {
+          userId: testUser.id,
+          action: AuditAction.USER_LOGIN,
+          ipAddress: '203.0.113.7',
+          userAgent: 'Test Browser',
+          success: false,
+          errorMessage: `Invalid password for ${testUser.email}`,
+        },
+      });
+      await prisma.uploadSession.create({
+        data: {
+          userId: testUser.id,
+          fileId: 'pending-file-id',
+          filenameEncrypted: 'encrypted-name',
+          filenameIv: 'name-iv',
+          fileKeyEncrypted: 'file-key',
+          fileSize: BigInt(1024),
+          encryptedSize: BigInt(1040),
+          storagePath: 'pending/object',
+          uploadId: 'multipart-upload-id',
+          totalParts: 2,
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        },
+      });
+
+      await accountDeletionService.eraseAccount(testUser.id);
+
+      expect(abortMultipartUpload).toHaveBeenCalledWith('pending/object', 'multipart-upload-id');
+      expect(deleteAllUserFiles).toHaveBeenCalledWith(testUser.id);
+      expect(await prisma.user.findUnique({ where: { id: testUser.id } })).toBeNull();
+      expect(await prisma.file.count({ where: { userId: testUser.id } })).toBe(0);
+      expect(await prisma.share.count({ where: { ownerId: testUser.id } })).toBe(0);
+      expect(await prisma.session.count({ where: { userId: testUser.id } })).toBe(0);
+
+      const login = await prisma.auditLog.findFirst({ where: { action: AuditAction.USER_LOGIN } });
+      expect(login).toMatchObject({
+        userId: null,
+        ipAddress: null,
+        userAgent: null,
+        errorMessage: null,
+      });
+
+      expect(mailService.sendAccountDeletedEmail).toHaveBeenCalledWith(testUser.email);
+    });
+
+    it('should keep the account when storage cannot be erased', async () => {
+      deleteAllUserFiles.mockRejectedValueOnce(new StorageError('Storage unavailable'));
+
+      await expect(accountDeletionService.eraseAccount(testUser.id)).rejects.toThrow(StorageError);
+
+      expect(await prisma.user.findUnique({ where: { id: testUser.id } })).not.toBeNull();
+    });
+  });
+
+  describe('processScheduledDeletions', () => {
+    it('should erase only accounts past their grace period', async () => {
+      const other = await global.testUtils.createTestUser({
+        email: 'later@example.com',
+        username: 'lateruser',
+      });
+      await prisma.user.update({
+        where: { id: testUser.id },
+        data: { deletionScheduledAt: new Date(Date.now() - 1000) },
+      });
+      await prisma.user.update({
+        where: { id: other.id },
+        data: { deletionScheduledAt: new Date(Date.now() + 60 * 60 * 1000) },
+      });
+
+      const result = await accountDeletionService.processScheduledDeletions();
+
+      expect(result).toEqual({ erased: 1, failed: 0 });
+      expect(await prisma.user.findUnique({ where: { id: testUser.id } })).toBeNull();
+      expect(await prisma.user.findUnique({ where: { id: other.id } })).not.toBeNull();
+    });
+  });
+});
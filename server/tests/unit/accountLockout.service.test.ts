@@ -0,0 +1,171 @@
+/**
+ * Unit Tests for Account Lockout Service
+ * Tests attempt reservation, progressive delays, lockout and unlocking
+ */
+
+jest.mock('../../src/config/redis', () => require('../mocks/redis').createRedisMock());
+
+jest.mock('../../src/services/mail.service', () => ({
+  sendAccountLockedEmail: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { prisma } from '../../src/config/database';
+import * as accountLockoutService from '../../src/services/accountLockout.service';
+import * as mailService from '../../src/services/mail.service';
+import { AuditAction } from '../../src/services/audit.service';
+import { RateLimitError, TokenError } from '../../src/utils/errors';
+
+const { __store: store } = jest.requireMock('../../src/config/redis');
+
+const sendAccountLockedEmail = mailService.sendAccountLockedEmail as jest.Mock;
+
+// Each attempt waits out the delay left by the one before
+const failTimes = async (email: string, userId: string | null, times: number) => {
+  let throttle = null;
+  for (let i = 0; i < times; i++) {
+    for (const key of store.keys()) {
+      if (key.startsWith('login:delay:')) {
+        store.delete(key);
+      }
+    }
+    await accountLockoutService.reserveLoginAttempt(email);
+    throttle = await accountLockoutService.recordFailedLogin(email, userId);
+  }
+  return throttle;
+};
+
+describe('Account Lockout Service', () => {
+  let testUser: any;
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    store.clear();
+    jest.clearAllMocks();
+    testUser = await global.testUtils.createTestUser();
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  describe('getDelaySeconds', () => {
+    it('should allow a few attempts without delay and then double the delay', () => {
+      expect(accountLockoutService.getDelaySeconds(1)).toBe(0);
+      expect(accountLockoutService.getDelaySeconds(3)).toBe(0);
+      expect(accountLockoutService.getDelaySeconds(4)).toBe(2);
+      expect(accountLockoutService.getDelaySeconds(5)).toBe(4);
+      expect(accountLockoutService.getDelaySeconds(6)).toBe(8);
+    });
+
+    it('should cap the delay', () => {
+      expect(accountLockoutService.getDelaySeconds(50)).toBe(300);
+    });
+  });
+
+  describe('recordFailedLogin', () => {
+    it('should impose a delay after the free attempts', async () => {
+      expect(await failTimes(testUser.email, testUser.id, 3)).toBeNull();
+
+      const throttle = await failTimes(testUser.email, testUser.id, 1);
+
+      expect(throttle).toMatchObject({ reason: 'LOGIN_DELAYED', retryAfter: 2 });
+      await expect(accountLockoutService.reserveLoginAttempt(testUser.email)).rejects.toThrow(
+        RateLimitError
+      );
+    });
+
+    it('should track accounts case-insensitively', async () => {
+      await failTimes(testUser.email.toUpperCase(), testUser.id, 4);
+
+      expect(await accountLockoutService.getLoginThrottle(testUser.email)).not.toBeNull();
+    });
+
+    it('should lock the account at the threshold and email an unlock link', async () => {
+      const throttle = await failTimes(testUser.email, testUser.id, 10);
+
+      expect(throttle).toMatchObject({ reason: 'ACCOUNT_LOCKED' });
+      expect(throttle!.retryAfter).toBe(30 * 60);
+      expect(sendAccountLockedEmail).toHaveBeenCalledWith(
+        testUser.email,
+        expect.any(String),
+        expect.any(Date)
+      );
+
+      const event = await prisma.auditLog.findFirst({
+        where: { userId: testUser.id, action: AuditAction.ACCOUNT_LOCK },
+      });
+      expect(event).not.toBeNull();
+    });
+
+    it('should throttle unknown addresses without sending email', async () => {
+      const throttle = await failTimes('nobody@example.com', null, 10);
+
+      expect(throttle).toMatchObject({ reason: 'ACCOUNT_LOCKED' });
+      expect(sendAccountLockedEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('clearFailedLogins', () => {
+    it('should reset the counter after a successful sign-in', async () => {
+      await failTimes(testUser.email, testUser.id, 3);
+      await accountLockoutService.clearFailedLogins(testUser.email);
+
+      expect(await failTimes(testUser.email, testUser.id, 1)).toBeNull();
+    });
+  });
+
+  describe('reserveLoginAttempt', () => {
+    it('should let concurrent attempts past the free ones through one at a time', async () => {
+      const results = await Promise.allSettled(
+        Array.from({ length: 6 }, () => accountLockoutService.reserveLoginAttempt(testUser.email))
+      );
+
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(4);
+    });
+
+    it('should not count an attempt released while awaiting its second factor', async () => {
+      await failTimes(testUser.email, testUser.id, 3);
+      await accountLockoutService.reserveLoginAttempt(testUser.email);
+
+      await accountLockoutService.releaseLoginAttempt(testUser.email);
+
+      expect(await accountLockoutService.getLoginThrottle(testUser.email)).toBeNull();
+      await expect(
+        accountLockoutService.reserveLoginAttempt(testUser.email)
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('unlockWithToken', () => {
+    it('should lift the lock once', async () => {
+      await failTimes(testUser.email, testUser.id, 10);
+      const token = sendAccountLockedEmail.mock.calls[0][1];
+
+      await accountLockoutService.unlockWithToken(token);
+
+      await expect(
+        accountLockoutService.reserveLoginAttempt(testUser.email)
+      ).resolves.toBeUndefined();
+      await expect(accountLockoutService.unlockWithToken(token)).rejects.toThrow(TokenError);
+    });
+  });
+
+  describe('unlockAccount', () => {
+    it('should let an administrator lift the lock', async () => {
+      const admin = await global.testUtils.createTestUser({
+        email: 'admin@example.com',
+        username: 'adminuser',
+      });
+      await failTimes(testUser.email, testUser.id, 10);
+
+      await accountLockoutService.unlockAccount(testUser.id, admin.id);
+
+      expect(await accountLockoutService.getLoginThrottle(testUser.email)).toBeNull();
+
+      const event = await prisma.auditLog.findFirst({
+        where: { userId: admin.id, action: AuditAction.ACCOUNT_UNLOCK },
+      });
+      expect(event!.resourceId).toBe(testUser.id);
+    });
+  });
+});
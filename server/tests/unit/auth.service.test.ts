@@ -5,7 +5,13 @@
 
 import { prisma } from '../../src/config/database';
 import * as authService from '../../src/services/auth.service';
-import { ConflictError, AuthError, NotFoundError } from '../../src/utils/errors';
+import {
+  ConflictError,
+  AuthError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../../src/utils/errors';
 
 describe('Authentication Service', () => {
   beforeEach(async () => {
@@ -386,9 +392,89 @@ describe('Authentication Service', () => {
     });
   });
 
+  describe('Backup Codes', () => {
+    let testUser: any;
+    let backupCodes: string[];
+
+    beforeEach(async () => {
+      testUser = await global.testUtils.createTestUser({
+        totpSecretEncrypted: 'JBSWY3DPEHPK3PXP',
+      });
+      backupCodes = await authService.generateBackupCodes(testUser.id);
+    });
+
+    it('should store only hashes of the backup codes', async () => {
+      const stored = await prisma.backupCode.findMany({ where: { userId: testUser.id } });
+
+      expect(backupCodes).toHaveLength(8);
+      expect(stored).toHaveLength(8);
+      stored.forEach((code) => {
+        expect(backupCodes).not.toContain(code.codeHash);
+      });
+    });
+
+    it('should accept a backup code in place of a TOTP code', async () => {
+      const result = await authService.login({
+        emailOrUsername: testUser.email,
+        password: 'Test123!@#',
+        backupCode: backupCodes[0].toLowerCase(),
+      });
+
+      expect(result.userId).toBe(testUser.id);
+      expect(await authService.getBackupCodeCount(testUser.id)).toBe(7);
+    });
+
+    it('should accept each backup code only once', async () => {
+      expect(await authService.consumeBackupCode(testUser.id, backupCodes[1])).toBe(true);
+      expect(await authService.consumeBackupCode(testUser.id, backupCodes[1])).toBe(false);
+    });
+
+    it('should reject an unknown backup code', async () => {
+      await expect(
+        authService.login({
+          emailOrUsername: testUser.email,
+          password: 'Test123!@#',
+          backupCode: 'AAAAA-AAAAA',
+        })
+      ).rejects.toThrow(AuthError);
+    });
+
+    it('should audit each use as a security event', async () => {
+      await authService.consumeBackupCode(testUser.id, backupCodes[2]);
+
+      const logs = await prisma.auditLog.findMany({
+        where: { userId: testUser.id, action: 'user.backup_code_used' },
+      });
+      expect(logs).toHaveLength(1);
+    });
+
+    it('should require the password to regenerate codes', async () => {
+      await expect(
+        authService.regenerateBackupCodes(testUser.id, 'WrongPassword123!')
+      ).rejects.toThrow(AuthError);
+
+      const newCodes = await authService.regenerateBackupCodes(testUser.id, 'Test123!@#');
+
+      expect(await authService.consumeBackupCode(testUser.id, backupCodes[3])).toBe(false);
+      expect(await authService.consumeBackupCode(testUser.id, newCodes[0])).toBe(true);
+    });
+
+    it('should remove backup codes when TOTP is disabled', async () => {
+      await authService.disableTOTP(testUser.id, 'Test123!@#');
+
+      expect(await authService.getBackupCodeCount(testUser.id)).toBe(0);
+    });
+  });
+
   describe('Password Management', () => {
     let testUser: any;
 
+    const rewrapped = {
+      salt: 'new-salt',
+      masterKeyEncrypted: 'rewrapped-master-key',
+      privateKeyEncrypted: 'rewrapped-private-key',
+    };
+
     beforeEach(async () => {
       testUser = await global.testUtils.createTestUser();
     });
@@ -396,11 +482,11 @@ describe('Authentication Service', () => {
     it('should change password successfully', async () => {
       const newPassword = 'NewTest123!@#';
 
-      await authService.changePassword(
-        testUser.id,
-        'Test123!@#',
-        newPassword
-      );
+      await authService.changePassword(testUser.id, {
+        currentPassword: 'Test123!@#',
+        newPassword,
+        ...rewrapped,
+      });
 
       // Try logging in with new password
       const result = await authService.login({
@@ -411,36 +497,80 @@ describe('Authentication Service', () => {
       expect(result.userId).toBe(testUser.id);
     });
 
+    it('should store the re-wrapped keys with the new password', async () => {
+      await authService.changePassword(testUser.id, {
+        currentPassword: 'Test123!@#',
+        newPassword: 'NewTest123!@#',
+        ...rewrapped,
+      });
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(user).toMatchObject(rewrapped);
+    });
+
+    it('should keep the previous credentials until the rollback window ends', async () => {
+      const { rollbackUntil } = await authService.changePassword(testUser.id, {
+        currentPassword: 'Test123!@#',
+        newPassword: 'NewTest123!@#',
+        ...rewrapped,
+      });
+
+      const backup = await prisma.credentialBackup.findUnique({
+        where: { userId: testUser.id },
+      });
+      expect(backup).toMatchObject({
+        passwordHash: testUser.passwordHash,
+        salt: testUser.salt,
+        masterKeyEncrypted: testUser.masterKeyEncrypted,
+        privateKeyEncrypted: testUser.privateKeyEncrypted,
+      });
+      expect(backup!.expiresAt).toEqual(rollbackUntil);
+    });
+
     it('should reject password change with wrong current password', async () => {
       await expect(
-        authService.changePassword(
-          testUser.id,
-          'WrongPassword123!',
-          'NewTest123!@#'
-        )
+        authService.changePassword(testUser.id, {
+          currentPassword: 'WrongPassword123!',
+          newPassword: 'NewTest123!@#',
+          ...rewrapped,
+        })
       ).rejects.toThrow(AuthError);
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(user!.masterKeyEncrypted).toBe(testUser.masterKeyEncrypted);
     });
 
     it('should reject weak new password', async () => {
       await expect(
-        authService.changePassword(
-          testUser.id,
-          'Test123!@#',
-          'weak'
-        )
+        authService.changePassword(testUser.id, {
+          currentPassword: 'Test123!@#',
+          newPassword: 'weak',
+          ...rewrapped,
+        })
       ).rejects.toThrow();
     });
 
+    it('should reject a change without re-wrapped keys', async () => {
+      await expect(
+        authService.changePassword(testUser.id, {
+          currentPassword: 'Test123!@#',
+          newPassword: 'NewTest123!@#',
+          ...rewrapped,
+          masterKeyEncrypted: '',
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
     it('should delete all sessions after password change', async () => {
       // Create multiple sessions
       await authService.createSession(testUser.id);
       await authService.createSession(testUser.id);
 
-      await authService.changePassword(
-        testUser.id,
-        'Test123!@#',
-        'NewTest123!@#'
-      );
+      await authService.changePassword(testUser.id, {
+        currentPassword: 'Test123!@#',
+        newPassword: 'NewTest123!@#',
+        ...rewrapped,
+      });
 
       const sessions = await prisma.session.findMany({
         where: { userId: testUser.id },
@@ -448,6 +578,175 @@ describe('Authentication Service', () => {
 
       expect(sessions).toHaveLength(0);
     });
+
+    describe('Rollback', () => {
+      let sessionId: string;
+
+      beforeEach(async () => {
+        ({ sessionId } = await authService.createSession(testUser.id));
+
+        await authService.changePassword(testUser.id, {
+          currentPassword: 'Test123!@#',
+          newPassword: 'NewTest123!@#',
+          ...rewrapped,
+          currentSessionId: sessionId,
+        });
+      });
+
+      it('should restore the previous password and keys', async () => {
+        const restored = await authService.rollbackPasswordChange(
+          testUser.id,
+          'Test123!@#',
+          'NewTest123!@#',
+          sessionId
+        );
+
+        expect(restored).toMatchObject({
+          salt: testUser.salt,
+          masterKeyEncrypted: testUser.masterKeyEncrypted,
+          privateKeyEncrypted: testUser.privateKeyEncrypted,
+        });
+
+        const result = await authService.login({
+          emailOrUsername: testUser.email,
+          password: 'Test123!@#',
+        });
+        expect(result.userId).toBe(testUser.id);
+
+        // The backup is single-use
+        await expect(
+          authService.rollbackPasswordChange(testUser.id, 'Test123!@#', 'Test123!@#', sessionId)
+        ).rejects.toThrow(NotFoundError);
+      });
+
+      it('should reject the wrong previous password', async () => {
+        await expect(
+          authService.rollbackPasswordChange(testUser.id, 'NewTest123!@#', 'NewTest123!@#', sessionId)
+        ).rejects.toThrow(AuthError);
+      });
+
+      it('should require the current password', async () => {
+        await expect(
+          authService.rollbackPasswordChange(testUser.id, 'Test123!@#', 'Test123!@#', sessionId)
+        ).rejects.toThrow(AuthError);
+
+        const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+        expect(user!.masterKeyEncrypted).toBe(rewrapped.masterKeyEncrypted);
+      });
+
+      it('should refuse sessions created after the change', async () => {
+        const later = await authService.createSession(testUser.id);
+
+        await expect(
+          authService.rollbackPasswordChange(
+            testUser.id,
+            'Test123!@#',
+            'NewTest123!@#',
+            later.sessionId
+          )
+        ).rejects.toThrow(ForbiddenError);
+      });
+
+      it('should reject rollback after the window has passed', async () => {
+        await prisma.credentialBackup.update({
+          where: { userId: testUser.id },
+          data: { expiresAt: new Date(Date.now() - 1000) },
+        });
+
+        await expect(
+          authService.rollbackPasswordChange(testUser.id, 'Test123!@#', 'NewTest123!@#', sessionId)
+        ).rejects.toThrow(NotFoundError);
+
+        expect(await authService.cleanupExpiredCredentialBackups()).toBe(1);
+      });
+    });
+  });
+
+  describe('KDF Upgrade', () => {
+    let testUser: any;
+
+    const argon2 = {
+      algorithm: 'ARGON2ID' as const,
+      iterations: 3,
+      memoryKib: 65536,
+      parallelism: 1,
+    };
+
+    beforeEach(async () => {
+      testUser = await global.testUtils.createTestUser();
+    });
+
+    it('should default new accounts to the legacy descriptor', () => {
+      expect(testUser.kdfAlgorithm).toBe('PBKDF2-SHA256');
+      expect(testUser.kdfIterations).toBe(100000);
+    });
+
+    it('should store the re-wrapped key and the new descriptor', async () => {
+      const session = await authService.createSession(testUser.id);
+
+      await authService.upgradeKdf(testUser.id, {
+        password: 'Test123!@#',
+        salt: 'argon2-salt',
+        kdf: argon2,
+        masterKeyEncrypted: 'argon2-wrapped-master-key',
+      });
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(user).toMatchObject({
+        salt: 'argon2-salt',
+        kdfAlgorithm: 'ARGON2ID',
+        kdfMemoryKib: 65536,
+        masterKeyEncrypted: 'argon2-wrapped-master-key',
+        passwordHash: testUser.passwordHash,
+      });
+
+      // The password is unchanged, so sessions survive
+      expect(await prisma.session.findUnique({ where: { id: session.sessionId } })).not.toBeNull();
+    });
+
+    it('should reject settings weaker than the policy', async () => {
+      await expect(
+        authService.upgradeKdf(testUser.id, {
+          password: 'Test123!@#',
+          salt: 'new-salt',
+          kdf: { algorithm: 'PBKDF2-SHA256', iterations: 200000 },
+          masterKeyEncrypted: 'rewrapped-master-key',
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a wrong password', async () => {
+      await expect(
+        authService.upgradeKdf(testUser.id, {
+          password: 'WrongPassword123!',
+          salt: 'argon2-salt',
+          kdf: argon2,
+          masterKeyEncrypted: 'argon2-wrapped-master-key',
+        })
+      ).rejects.toThrow(AuthError);
+    });
+
+    it('should restore the previous descriptor on password rollback', async () => {
+      const { sessionId } = await authService.createSession(testUser.id);
+      await authService.changePassword(testUser.id, {
+        currentPassword: 'Test123!@#',
+        newPassword: 'NewTest123!@#',
+        salt: 'new-salt',
+        kdf: argon2,
+        masterKeyEncrypted: 'rewrapped-master-key',
+        privateKeyEncrypted: 'rewrapped-private-key',
+        currentSessionId: sessionId,
+      });
+
+      const restored = await authService.rollbackPasswordChange(
+        testUser.id,
+        'Test123!@#',
+        'NewTest123!@#',
+        sessionId
+      );
+
+      expect(restored.kdf).toEqual({ algorithm: 'PBKDF2-SHA256', iterations: 100000 });
+    });
   });
 
   describe('Password Hashing and Verification', () => {
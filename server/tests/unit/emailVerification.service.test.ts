@@ -0,0 +1,127 @@
+/**
+ * Unit Tests for Email Verification Service
+ * Tests sending verification links and confirming addresses
+ */
+
+jest.mock('../../src/config/redis', () => require('../mocks/redis').createRedisMock());
+
+jest.mock('../../src/services/mail.service', () => ({
+  sendVerificationEmail: jest.fn().mockResolvedValue(undefined),
+  sendEmailChangeConfirmation: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { prisma } from '../../src/config/database';
+import * as emailVerificationService from '../../src/services/emailVerification.service';
+import * as mailService from '../../src/services/mail.service';
+import { AuditAction } from '../../src/services/audit.service';
+import { TokenError, ValidationError } from '../../src/utils/errors';
+
+const { __store: store } = jest.requireMock('../../src/config/redis');
+
+const sendVerificationEmail = mailService.sendVerificationEmail as jest.Mock;
+const sendEmailChangeConfirmation = mailService.sendEmailChangeConfirmation as jest.Mock;
+
+describe('Email Verification Service', () => {
+  let testUser: any;
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    store.clear();
+    jest.clearAllMocks();
+    testUser = await global.testUtils.createTestUser();
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  it('should verify the address with an emailed token', async () => {
+    await emailVerificationService.sendVerification(testUser.id);
+
+    expect(sendVerificationEmail).toHaveBeenCalledWith(testUser.email, expect.any(String), 24);
+    const token = sendVerificationEmail.mock.calls[0][1];
+
+    const email = await emailVerificationService.verifyEmail(token, '203.0.113.5');
+
+    expect(email).toBe(testUser.email);
+    const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+    expect(user!.emailVerified).toBe(true);
+
+    const event = await prisma.auditLog.findFirst({
+      where: { userId: testUser.id, action: AuditAction.EMAIL_VERIFY },
+    });
+    expect(event).not.toBeNull();
+  });
+
+  it('should not store the raw token', async () => {
+    await emailVerificationService.sendVerification(testUser.id);
+    const token = sendVerificationEmail.mock.calls[0][1];
+
+    const keys = Array.from(store.keys()) as string[];
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).not.toContain(token);
+  });
+
+  it('should accept a token only once', async () => {
+    await emailVerificationService.sendVerification(testUser.id);
+    const token = sendVerificationEmail.mock.calls[0][1];
+
+    await emailVerificationService.verifyEmail(token);
+
+    await expect(emailVerificationService.verifyEmail(token)).rejects.toThrow(TokenError);
+  });
+
+  it('should reject a token for an address that has since changed', async () => {
+    await emailVerificationService.sendVerification(testUser.id);
+    const token = sendVerificationEmail.mock.calls[0][1];
+
+    await prisma.user.update({
+      where: { id: testUser.id },
+      data: { email: 'changed@example.com' },
+    });
+
+    await expect(emailVerificationService.verifyEmail(token)).rejects.toThrow(TokenError);
+
+    const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+    expect(user!.emailVerified).toBe(false);
+  });
+
+  it('should confirm a changed address and notify the previous one', async () => {
+    await prisma.user.update({
+      where: { id: testUser.id },
+      data: { email: 'new@example.com' },
+    });
+
+    await emailVerificationService.sendEmailChangeVerification(
+      testUser.id,
+      'new@example.com',
+      testUser.email
+    );
+
+    expect(sendEmailChangeConfirmation).toHaveBeenCalledWith(
+      'new@example.com',
+      testUser.email,
+      expect.any(String),
+      24
+    );
+    const token = sendEmailChangeConfirmation.mock.calls[0][2];
+
+    await expect(emailVerificationService.verifyEmail(token)).resolves.toBe('new@example.com');
+  });
+
+  it('should refuse to resend for a verified address', async () => {
+    await prisma.user.update({
+      where: { id: testUser.id },
+      data: { emailVerified: true },
+    });
+
+    await expect(emailVerificationService.sendVerification(testUser.id)).rejects.toThrow(
+      ValidationError
+    );
+    expect(sendVerificationEmail).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown tokens', async () => {
+    await expect(emailVerificationService.verifyEmail('not-a-token')).rejects.toThrow(TokenError);
+  });
+});
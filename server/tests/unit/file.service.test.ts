@@ -6,10 +6,12 @@
 import { Readable } from 'stream';
 import { prisma } from '../../src/config/database';
 import * as fileService from '../../src/services/file.service';
+import * as storageService from '../../src/services/storage.service';
 import {
   NotFoundError,
   ValidationError,
   PaymentRequiredError,
+  ConflictError,
   StorageError,
 } from '../../src/utils/errors';
 
@@ -296,6 +298,124 @@ describe('File Service', () => {
     });
   });
 
+  describe('File Search', () => {
+    const reportTokens = ['tok-report-aaaaaaaaaa', 'tok-2024-bbbbbbbbbbbb'];
+
+    it('should find files carrying every token', async () => {
+      const match = await global.testUtils.createTestFile(testUser.id, {
+        searchTokens: [...reportTokens, 'tok-pdf-cccccccccccc'],
+      });
+      await global.testUtils.createTestFile(testUser.id, {
+        searchTokens: [reportTokens[0]],
+      });
+
+      const result = await fileService.searchFiles({
+        userId: testUser.id,
+        tokens: reportTokens,
+      });
+
+      expect(result.total).toBe(1);
+      expect(result.files[0].id).toBe(match.id);
+    });
+
+    it('should not return other users or deleted files', async () => {
+      const otherUser = await global.testUtils.createTestUser();
+      await global.testUtils.createTestFile(otherUser.id, { searchTokens: reportTokens });
+      await global.testUtils.createTestFile(testUser.id, {
+        searchTokens: reportTokens,
+        isDeleted: true,
+      });
+
+      const result = await fileService.searchFiles({
+        userId: testUser.id,
+        tokens: reportTokens,
+      });
+
+      expect(result.files).toHaveLength(0);
+    });
+
+    it('should scope results to a folder and optionally its subfolders', async () => {
+      const parent = await prisma.folder.create({
+        data: { userId: testUser.id, nameEncrypted: 'parent', nameIv: 'iv' },
+      });
+      const child = await prisma.folder.create({
+        data: {
+          userId: testUser.id,
+          parentFolderId: parent.id,
+          nameEncrypted: 'child',
+          nameIv: 'iv',
+        },
+      });
+      await global.testUtils.createTestFile(testUser.id, {
+        parentFolderId: parent.id,
+        searchTokens: reportTokens,
+      });
+      await global.testUtils.createTestFile(testUser.id, {
+        parentFolderId: child.id,
+        searchTokens: reportTokens,
+      });
+      await global.testUtils.createTestFile(testUser.id, { searchTokens: reportTokens });
+
+      const direct = await fileService.searchFiles({
+        userId: testUser.id,
+        tokens: reportTokens,
+        folderId: parent.id,
+      });
+      const recursive = await fileService.searchFiles({
+        userId: testUser.id,
+        tokens: reportTokens,
+        folderId: parent.id,
+        recursive: true,
+      });
+
+      expect(direct.total).toBe(1);
+      expect(recursive.total).toBe(2);
+    });
+
+    it('should filter by MIME type prefix and creation date', async () => {
+      await global.testUtils.createTestFile(testUser.id, {
+        mimeType: 'image/png',
+        searchTokens: reportTokens,
+        createdAt: new Date('2024-01-15T00:00:00Z'),
+      });
+      await global.testUtils.createTestFile(testUser.id, {
+        mimeType: 'application/pdf',
+        searchTokens: reportTokens,
+        createdAt: new Date('2024-06-15T00:00:00Z'),
+      });
+
+      const images = await fileService.searchFiles({
+        userId: testUser.id,
+        tokens: reportTokens,
+        mimeType: 'image/',
+      });
+      const recent = await fileService.searchFiles({
+        userId: testUser.id,
+        tokens: reportTokens,
+        dateFrom: new Date('2024-03-01T00:00:00Z'),
+      });
+
+      expect(images.files.map((f) => f.mimeType)).toEqual(['image/png']);
+      expect(recent.files.map((f) => f.mimeType)).toEqual(['application/pdf']);
+    });
+
+    it('should reject an empty token list', async () => {
+      await expect(
+        fileService.searchFiles({ userId: testUser.id, tokens: [] })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject an unknown folder', async () => {
+      await expect(
+        fileService.searchFiles({
+          userId: testUser.id,
+          tokens: reportTokens,
+          folderId: '00000000-0000-0000-0000-000000000000',
+        })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
   describe('File Download', () => {
     let testFile: any;
 
@@ -576,6 +696,158 @@ describe('File Service', () => {
         })
       ).rejects.toThrow(NotFoundError);
     });
+
+    it('should list versions newest first', async () => {
+      for (const versionNumber of [1, 2]) {
+        await fileService.createFileVersion({
+          fileId: testFile.id,
+          userId: testUser.id,
+          versionNumber,
+          fileData: Buffer.from('version content'),
+          fileSize: 1024,
+          fileKeyEncrypted: `version-key-${versionNumber}`,
+        });
+      }
+
+      const file = await fileService.listFileVersions(testFile.id, testUser.id);
+
+      expect(file.versions.map((v) => v.versionNumber)).toEqual([2, 1]);
+    });
+
+    it('should restore a version and keep the current content as a new version', async () => {
+      await prisma.file.update({ where: { id: testFile.id }, data: { version: 2 } });
+      await fileService.createFileVersion({
+        fileId: testFile.id,
+        userId: testUser.id,
+        versionNumber: 1,
+        fileData: Buffer.from('version content'),
+        fileSize: 2048,
+        originalSize: 2000,
+        fileHash: 'version-hash',
+        fileKeyEncrypted: 'version-key',
+        encryptionAlgorithm: 'AES-256-GCM-STREAM-V1',
+      });
+
+      const restored = await fileService.restoreFileVersion(testFile.id, 1, testUser.id);
+
+      expect(restored.version).toBe(3);
+      expect(restored.fileKeyEncrypted).toBe('version-key');
+      expect(Number(restored.encryptedSize)).toBe(2048);
+      expect(Number(restored.fileSize)).toBe(2000);
+      expect(restored.fileHash).toBe('version-hash');
+      expect(restored.encryptionAlgorithm).toBe('AES-256-GCM-STREAM-V1');
+
+      const snapshot = await prisma.fileVersion.findUnique({
+        where: { fileId_versionNumber: { fileId: testFile.id, versionNumber: 2 } },
+      });
+      expect(snapshot?.fileKeyEncrypted).toBe('encrypted-file-key');
+      expect(snapshot?.fileHash).toBe(testFile.fileHash);
+      expect(snapshot?.storagePath).toBe(testFile.storagePath);
+      expect(Number(snapshot?.fileSize)).toBe(1536);
+    });
+
+    it('should discard the restored copy when the file changed during a restore', async () => {
+      await fileService.createFileVersion({
+        fileId: testFile.id,
+        userId: testUser.id,
+        versionNumber: 1,
+        fileData: Buffer.from('version content'),
+        fileSize: 1024,
+        fileKeyEncrypted: 'version-key',
+      });
+      (storageService.copyFile as jest.Mock).mockImplementationOnce(async () => {
+        // Another request replaces the content meanwhile
+        await prisma.file.update({ where: { id: testFile.id }, data: { version: 2 } });
+      });
+
+      await expect(
+        fileService.restoreFileVersion(testFile.id, 1, testUser.id)
+      ).rejects.toThrow(ConflictError);
+
+      const [, restoredPath] = (storageService.copyFile as jest.Mock).mock.calls.at(-1);
+      expect(storageService.deleteFile).toHaveBeenCalledWith(restoredPath);
+
+      const file = await prisma.file.findUnique({ where: { id: testFile.id } });
+      expect(file?.storagePath).toBe(testFile.storagePath);
+    });
+
+    it('should keep the replaced content as a version without copying it', async () => {
+      (storageService.copyFile as jest.Mock).mockClear();
+      (storageService.uploadFile as jest.Mock).mockResolvedValueOnce({
+        storagePath: 'test/path/new-content.enc',
+        etag: 'test-etag',
+      });
+
+      const updated = await fileService.replaceFileContent(testFile.id, testUser.id, {
+        fileData: Buffer.from('new content'),
+        fileSize: 11,
+        encryptedSize: 64,
+        fileHash: 'new-hash',
+      });
+
+      expect(updated.storagePath).toBe('test/path/new-content.enc');
+      expect(storageService.copyFile).not.toHaveBeenCalled();
+
+      const snapshot = await prisma.fileVersion.findUnique({
+        where: { fileId_versionNumber: { fileId: testFile.id, versionNumber: 1 } },
+      });
+      expect(snapshot?.storagePath).toBe(testFile.storagePath);
+    });
+
+    it('should discard the upload when the file changed during a replacement', async () => {
+      (storageService.uploadFile as jest.Mock).mockImplementationOnce(async () => {
+        // Another request replaces the content meanwhile
+        await prisma.file.update({ where: { id: testFile.id }, data: { version: 2 } });
+        return { storagePath: 'test/path/lost-content.enc', etag: 'test-etag' };
+      });
+
+      await expect(
+        fileService.replaceFileContent(testFile.id, testUser.id, {
+          fileData: Buffer.from('new content'),
+          fileSize: 11,
+          encryptedSize: 64,
+          fileHash: 'new-hash',
+        })
+      ).rejects.toThrow(ConflictError);
+
+      expect(storageService.deleteFile).toHaveBeenCalledWith('test/path/lost-content.enc');
+
+      const file = await prisma.file.findUnique({ where: { id: testFile.id } });
+      expect(file?.storagePath).toBe(testFile.storagePath);
+      expect(await prisma.fileVersion.count({ where: { fileId: testFile.id } })).toBe(0);
+    });
+
+    it('should reject restoring a non-existent version', async () => {
+      await expect(
+        fileService.restoreFileVersion(testFile.id, 99, testUser.id)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should delete old versions and free their storage', async () => {
+      for (const versionNumber of [1, 2, 3]) {
+        await fileService.createFileVersion({
+          fileId: testFile.id,
+          userId: testUser.id,
+          versionNumber,
+          fileData: Buffer.from('version content'),
+          fileSize: 1024,
+          fileKeyEncrypted: 'version-key',
+        });
+      }
+
+      const result = await fileService.deleteFileVersions(testFile.id, testUser.id, {
+        keep: 1,
+      });
+
+      expect(result.deletedCount).toBe(2);
+      expect(Number(result.freedBytes)).toBe(2048);
+
+      const remaining = await prisma.fileVersion.findMany({ where: { fileId: testFile.id } });
+      expect(remaining.map((v) => v.versionNumber)).toEqual([3]);
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(Number(user?.storageUsed)).toBe(1024);
+    });
   });
 
   describe('Storage Statistics', () => {
@@ -0,0 +1,198 @@
+/**
+ * Unit Tests for File Request Service
+ * Tests upload-only links: limits, passwords, isolation and claiming received files
+ */
+
+import { prisma } from '../../src/config/database';
+import * as fileRequestService from '../../src/services/fileRequest.service';
+import * as fileService from '../../src/services/file.service';
+import * as shareService from '../../src/services/share.service';
+import { ForbiddenError, NotFoundError, ValidationError } from '../../src/utils/errors';
+
+describe('File Request Service', () => {
+  let owner: any;
+  let folder: any;
+
+  const upload = (shareToken: string, password?: string, encryptedSize = 64) =>
+    fileRequestService.uploadToFileRequest(shareToken, password, {
+      fileData: Buffer.alloc(encryptedSize),
+      fileSize: encryptedSize - 16,
+      encryptedSize,
+      fileHash: 'hash',
+      fileKeyEncrypted: 'rsa-wrapped-key',
+      filenameEncrypted: 'name-encrypted-with-file-key',
+      filenameIv: 'name-iv',
+    });
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    owner = await global.testUtils.createTestUser({ publicKey: 'owner-public-key' });
+    folder = await prisma.folder.create({
+      data: {
+        userId: owner.id,
+        nameEncrypted: 'encrypted-folder-name',
+        nameIv: 'folder-iv',
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  describe('Request Creation', () => {
+    it('should create an upload link without a key', async () => {
+      const share = await fileRequestService.createFileRequest({
+        folderId: folder.id,
+        ownerId: owner.id,
+        maxFiles: 3,
+      });
+
+      expect(share.type).toBe(shareService.SHARE_TYPES.UPLOAD);
+      expect(share.fileKeyEncrypted).toBeNull();
+      expect(share.maxFiles).toBe(3);
+    });
+
+    it('should reject folders of other users', async () => {
+      const other = await global.testUtils.createTestUser({
+        email: 'other@example.com',
+        username: 'other',
+      });
+
+      await expect(
+        fileRequestService.createFileRequest({ folderId: folder.id, ownerId: other.id })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Uploads', () => {
+    it('should store uploads in the folder with the key wrapped for the owner', async () => {
+      const share = await fileRequestService.createFileRequest({
+        folderId: folder.id,
+        ownerId: owner.id,
+      });
+
+      await upload(share.shareToken);
+
+      const files = await prisma.file.findMany({ where: { parentFolderId: folder.id } });
+      expect(files).toHaveLength(1);
+      expect(files[0].userId).toBe(owner.id);
+      expect(files[0].keyWrapping).toBe(fileService.KEY_WRAPPING.OWNER_PUBLIC_KEY);
+
+      const updated = await prisma.share.findUnique({ where: { id: share.id } });
+      expect(updated!.uploadCount).toBe(1);
+    });
+
+    it('should close the link once the file limit is reached', async () => {
+      const share = await fileRequestService.createFileRequest({
+        folderId: folder.id,
+        ownerId: owner.id,
+        maxFiles: 1,
+      });
+
+      await upload(share.shareToken);
+
+      await expect(upload(share.shareToken)).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should reject files above the size limit', async () => {
+      const share = await fileRequestService.createFileRequest({
+        folderId: folder.id,
+        ownerId: owner.id,
+        maxFileSize: 100,
+      });
+
+      await expect(upload(share.shareToken, undefined, 200)).rejects.toThrow(ValidationError);
+    });
+
+    it('should require the password', async () => {
+      const share = await fileRequestService.createFileRequest({
+        folderId: folder.id,
+        ownerId: owner.id,
+        password: 'drop-password',
+      });
+
+      const request = await fileRequestService.getFileRequest(share.shareToken);
+      expect(request.requiresPassword).toBe(true);
+
+      await expect(upload(share.shareToken, 'wrong-password')).rejects.toThrow(ForbiddenError);
+      await expect(upload(share.shareToken, 'drop-password')).resolves.toBeDefined();
+    });
+
+    it('should check the link before the file is received', async () => {
+      const share = await fileRequestService.createFileRequest({
+        folderId: folder.id,
+        ownerId: owner.id,
+        password: 'drop-password',
+        maxFiles: 1,
+        maxFileSize: 100,
+      });
+
+      await expect(
+        fileRequestService.checkFileRequestUpload(share.shareToken, 'wrong-password')
+      ).rejects.toThrow(ForbiddenError);
+
+      const checked = await fileRequestService.checkFileRequestUpload(
+        share.shareToken,
+        'drop-password'
+      );
+      expect(checked.maxFileSize).toBe(BigInt(100));
+
+      await upload(share.shareToken, 'drop-password');
+      await expect(
+        fileRequestService.checkFileRequestUpload(share.shareToken, 'drop-password')
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should return the owner public key but nothing about the folder', async () => {
+      const share = await fileRequestService.createFileRequest({
+        folderId: folder.id,
+        ownerId: owner.id,
+      });
+
+      const request = await fileRequestService.getFileRequest(share.shareToken);
+
+      expect(request.requiresPassword).toBe(false);
+      expect(request.share.owner.publicKey).toBe('owner-public-key');
+    });
+
+    it('should not be usable as a download link', async () => {
+      const share = await fileRequestService.createFileRequest({
+        folderId: folder.id,
+        ownerId: owner.id,
+      });
+
+      await expect(
+        shareService.getSharedFolderContents(share.shareToken)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Claiming Received Files', () => {
+    it('should re-wrap the key with the master key once', async () => {
+      const share = await fileRequestService.createFileRequest({
+        folderId: folder.id,
+        ownerId: owner.id,
+      });
+      await upload(share.shareToken);
+      const received = await prisma.file.findFirstOrThrow({
+        where: { parentFolderId: folder.id },
+      });
+
+      const keys = {
+        fileKeyEncrypted: 'master-wrapped-key',
+        filenameEncrypted: 'name-encrypted-with-master-key',
+        filenameIv: 'master-iv',
+      };
+
+      const claimed = await fileService.claimReceivedFile(received.id, owner.id, keys);
+
+      expect(claimed.keyWrapping).toBe(fileService.KEY_WRAPPING.MASTER);
+      expect(claimed.fileKeyEncrypted).toBe('master-wrapped-key');
+
+      await expect(
+        fileService.claimReceivedFile(received.id, owner.id, keys)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for KDF Service
+ * Tests descriptor mapping and the upgrade policy
+ */
+
+import * as kdfService from '../../src/services/kdf.service';
+
+describe('KDF Service', () => {
+  const recommended = kdfService.getRecommendedKdf();
+
+  describe('toKdfColumns / fromKdfColumns', () => {
+    it('should default to the legacy PBKDF2 settings', () => {
+      expect(kdfService.toKdfColumns()).toEqual({
+        kdfAlgorithm: 'PBKDF2-SHA256',
+        kdfIterations: 100000,
+        kdfMemoryKib: null,
+        kdfParallelism: null,
+      });
+    });
+
+    it('should round-trip Argon2id settings', () => {
+      const columns = kdfService.toKdfColumns(recommended);
+
+      expect(kdfService.fromKdfColumns(columns)).toEqual(recommended);
+    });
+
+    it('should drop memory settings for PBKDF2', () => {
+      const columns = kdfService.toKdfColumns({
+        algorithm: 'PBKDF2-SHA256',
+        iterations: 600000,
+        memoryKib: 65536,
+      });
+
+      expect(columns.kdfMemoryKib).toBeNull();
+      expect(kdfService.fromKdfColumns(columns)).toEqual({
+        algorithm: 'PBKDF2-SHA256',
+        iterations: 600000,
+      });
+    });
+  });
+
+  describe('isKdfOutdated', () => {
+    it('should treat PBKDF2 as outdated', () => {
+      expect(kdfService.isKdfOutdated(kdfService.LEGACY_KDF)).toBe(true);
+      expect(
+        kdfService.isKdfOutdated({ algorithm: 'PBKDF2-SHA256', iterations: 5000000 })
+      ).toBe(true);
+    });
+
+    it('should treat Argon2id below the policy as outdated', () => {
+      expect(
+        kdfService.isKdfOutdated({ ...recommended, memoryKib: recommended.memoryKib! / 2 })
+      ).toBe(true);
+      expect(
+        kdfService.isKdfOutdated({ ...recommended, iterations: recommended.iterations - 1 })
+      ).toBe(true);
+    });
+
+    it('should accept the recommended settings or stronger', () => {
+      expect(kdfService.isKdfOutdated(recommended)).toBe(false);
+      expect(
+        kdfService.isKdfOutdated({ ...recommended, iterations: recommended.iterations + 1 })
+      ).toBe(false);
+    });
+
+    it('should ignore parallelism', () => {
+      expect(kdfService.isKdfOutdated({ ...recommended, parallelism: 4 })).toBe(false);
+    });
+  });
+
+  describe('getKdfUpgrade', () => {
+    it('should return the recommended settings only when outdated', () => {
+      expect(kdfService.getKdfUpgrade(kdfService.LEGACY_KDF)).toEqual(recommended);
+      expect(kdfService.getKdfUpgrade(recommended)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Unit Tests for Mail Service and Transports
+ * Tests MIME encoding, the file and SMTP transports and the email templates
+ */
+
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { buildMimeMessage, extractAddress } from '../../src/config/mail/mime';
+import { FileMailTransport } from '../../src/config/mail/file.transport';
+import { SmtpMailTransport } from '../../src/config/mail/smtp.transport';
+import { MailMessage } from '../../src/config/mail/types';
+import * as mailService from '../../src/services/mail.service';
+
+jest.mock('../../src/config/mail', () => {
+  const sent: MailMessage[] = [];
+
+  return {
+    __sent: sent,
+    getMailFrom: jest.fn().mockReturnValue('CrypticStorage <noreply@example.com>'),
+    getMailTransport: jest.fn().mockReturnValue({
+      name: 'console',
+      send: jest.fn(async (_from: string, message: MailMessage) => {
+        sent.push(message);
+      }),
+    }),
+  };
+});
+
+const { __sent: sent } = jest.requireMock('../../src/config/mail');
+
+const FROM = 'CrypticStorage <noreply@example.com>';
+
+const decodeParts = (raw: string): string[] =>
+  raw
+    .split(/\r\n\r\n/)
+    .slice(1)
+    .map((part) => Buffer.from(part.split(/\r\n--/)[0].replace(/\r\n/g, ''), 'base64').toString('utf8'));
+
+/**
+ * Minimal SMTP server that records the commands and the message data
+ */
+const startSmtpServer = (options: { rejectRecipient?: boolean } = {}) => {
+  const commands: string[] = [];
+  let data = '';
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+
+    socket.write('220 test.local ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 Queued\r\n');
+          } else {
+            data += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        if (line.startsWith('EHLO')) {
+          socket.write('250-test.local\r\n250 AUTH PLAIN\r\n');
+        } else if (line === 'STARTTLS') {
+          socket.write('454 TLS not available\r\n');
+        } else if (line.startsWith('AUTH')) {
+          socket.write('235 Authenticated\r\n');
+        } else if (line.startsWith('RCPT') && options.rejectRecipient) {
+          socket.write('550 No such user\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 Go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise<{ port: number; commands: string[]; getData: () => string; close: () => Promise<void> }>(
+    (resolve) => {
+      server.listen(0, '127.0.0.1', () => {
+        resolve({
+          port: (server.address() as net.AddressInfo).port,
+          commands,
+          getData: () => data,
+          close: () => new Promise((done) => server.close(() => done())),
+        });
+      });
+    }
+  );
+};
+
+describe('Mail', () => {
+  beforeEach(() => {
+    sent.length = 0;
+  });
+
+  describe('buildMimeMessage', () => {
+    it('should build a plain text message', () => {
+      const raw = buildMimeMessage(FROM, {
+        to: 'user@example.com',
+        subject: 'Hello',
+        text: 'Plain body',
+      });
+
+      expect(raw).toContain('To: user@example.com\r\n');
+      expect(raw).toContain('Subject: Hello\r\n');
+      expect(raw).toContain('Content-Type: text/plain; charset=UTF-8');
+      expect(raw).toMatch(/Message-ID: <[^@]+@example\.com>/);
+      expect(decodeParts(raw)[0]).toBe('Plain body');
+    });
+
+    it('should build a multipart message when HTML is given', () => {
+      const raw = buildMimeMessage(FROM, {
+        to: 'user@example.com',
+        subject: 'Grüße',
+        text: 'Text part',
+        html: '<p>HTML part</p>',
+      });
+
+      expect(raw).toContain('Content-Type: multipart/alternative');
+      expect(raw).toContain(`Subject: =?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=`);
+      expect(raw).toContain(Buffer.from('Text part').toString('base64'));
+      expect(raw).toContain(Buffer.from('<p>HTML part</p>').toString('base64'));
+    });
+
+    it('should extract bare addresses', () => {
+      expect(extractAddress(FROM)).toBe('noreply@example.com');
+      expect(extractAddress('user@example.com')).toBe('user@example.com');
+    });
+  });
+
+  describe('FileMailTransport', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cryptic-mail-'));
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write each message to an .eml file', async () => {
+      const transport = new FileMailTransport(directory);
+
+      await transport.send(FROM, { to: 'a@example.com', subject: 'First', text: 'one' });
+      await transport.send(FROM, { to: 'b@example.com', subject: 'Second', text: 'two' });
+
+      const files = fs.readdirSync(directory);
+      expect(files).toHaveLength(2);
+      expect(files.every((file) => file.endsWith('.eml'))).toBe(true);
+
+      const contents = files.map((file) => fs.readFileSync(path.join(directory, file), 'utf8'));
+      expect(contents.some((raw) => raw.includes('To: b@example.com'))).toBe(true);
+    });
+  });
+
+  describe('SmtpMailTransport', () => {
+    it('should deliver a message through a relay without credentials', async () => {
+      const server = await startSmtpServer();
+      const transport = new SmtpMailTransport({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        requireTls: false,
+        timeoutMs: 5000,
+      });
+
+      try {
+        await transport.send(FROM, {
+          to: 'User <user@example.com>',
+          subject: 'Delivered',
+          text: '.leading dot',
+        });
+
+        expect(server.commands).toContain('MAIL FROM:<noreply@example.com>');
+        expect(server.commands).toContain('RCPT TO:<user@example.com>');
+        expect(server.getData()).toContain('Subject: Delivered');
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should not send credentials when the server offers no STARTTLS', async () => {
+      const server = await startSmtpServer();
+      const transport = new SmtpMailTransport({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        // Credentials force TLS even when it is not required
+        requireTls: false,
+        user: 'mailer',
+        password: 'secret',
+        timeoutMs: 5000,
+      });
+
+      try {
+        await expect(
+          transport.send(FROM, { to: 'user@example.com', subject: 'Nope', text: 'x' })
+        ).rejects.toThrow('Failed to send email');
+        expect(server.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should fail when the server rejects the recipient', async () => {
+      const server = await startSmtpServer({ rejectRecipient: true });
+      const transport = new SmtpMailTransport({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        requireTls: false,
+        timeoutMs: 5000,
+      });
+
+      try {
+        await expect(
+          transport.send(FROM, { to: 'missing@example.com', subject: 'Nope', text: 'x' })
+        ).rejects.toThrow('Failed to send email');
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  describe('templates', () => {
+    it('should link to the verification page', async () => {
+      await mailService.sendVerificationEmail('user@example.com', 'tok123', 24);
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('user@example.com');
+      expect(sent[0].text).toContain('/verify-email?token=tok123');
+      expect(sent[0].text).toContain('24 hours');
+    });
+
+    it('should notify both addresses on an email change', async () => {
+      await mailService.sendEmailChangeConfirmation('new@example.com', 'old@example.com', 'tok', 24);
+
+      expect(sent.map((message: MailMessage) => message.to)).toEqual([
+        'new@example.com',
+        'old@example.com',
+      ]);
+      expect(sent[1].text).toContain('new@example.com');
+      expect(sent[1].text).not.toContain('token=');
+    });
+
+    it('should escape user-controlled values in HTML', async () => {
+      await mailService.sendShareNotification('user@example.com', {
+        ownerName: '<script>alert(1)</script>',
+        itemType: 'file',
+        permission: 'READ',
+      });
+
+      expect(sent[0].html).not.toContain('<script>');
+      expect(sent[0].html).toContain('&lt;script&gt;');
+      expect(sent[0].text).toContain('read access');
+    });
+
+    it('should link to the unlock page when an account is locked', async () => {
+      await mailService.sendAccountLockedEmail(
+        'user@example.com',
+        'unlock123',
+        new Date('2024-01-01T00:30:00Z')
+      );
+
+      expect(sent[0].text).toContain('/unlock-account?token=unlock123');
+      expect(sent[0].text).toContain('Mon, 01 Jan 2024 00:30:00 GMT');
+    });
+
+    it('should state the erasure date when an account deletion is scheduled', async () => {
+      await mailService.sendAccountDeletionScheduledEmail(
+        'user@example.com',
+        new Date('2024-01-15T00:00:00Z')
+      );
+
+      expect(sent[0].text).toContain('Mon, 15 Jan 2024 00:00:00 GMT');
+      expect(sent[0].text).toContain('/settings');
+    });
+
+    it('should describe the device in new sign-in alerts', async () => {
+      await mailService.sendNewDeviceAlert('user@example.com', {
+        browser: 'Firefox 121',
+        os: 'Linux',
+        ipAddress: '203.0.113.4',
+        time: new Date('2024-01-01T00:00:00Z'),
+      });
+
+      expect(sent[0].text).toContain('Firefox 121 on Linux (IP 203.0.113.4)');
+      expect(sent[0].text).toContain('/settings');
+    });
+  });
+});
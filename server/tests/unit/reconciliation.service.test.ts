@@ -0,0 +1,226 @@
+/**
+ * Unit Tests for Reconciliation Service
+ * Tests orphan detection, broken record marking and storage usage recomputation
+ */
+
+import { prisma } from '../../src/config/database';
+import * as reconciliationService from '../../src/services/reconciliation.service';
+import * as storageService from '../../src/services/storage.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Reconciliation Service', () => {
+  let testUser: any;
+
+  const storedObject = (storagePath: string, size = 1536, ageMs = 2 * HOUR_MS) => ({
+    storagePath,
+    size,
+    lastModified: new Date(Date.now() - ageMs),
+  });
+
+  const mockStoredObjects = (objects: ReturnType<typeof storedObject>[]) => {
+    (storageService.listUserObjects as jest.Mock).mockImplementation(async (userId: string) =>
+      userId === testUser.id ? objects : []
+    );
+  };
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    testUser = await global.testUtils.createTestUser();
+    jest.clearAllMocks();
+    (storageService.listUserObjects as jest.Mock).mockResolvedValue([]);
+    (storageService.listStoredUserIds as jest.Mock).mockResolvedValue([]);
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  describe('Orphaned objects', () => {
+    it('should report objects without a database record', async () => {
+      const file = await global.testUtils.createTestFile(testUser.id, {
+        storagePath: `users/${testUser.id}/files/a/current`,
+      });
+      const orphanPath = `users/${testUser.id}/files/b/current`;
+      mockStoredObjects([storedObject(file.storagePath), storedObject(orphanPath, 2048)]);
+
+      const report = await reconciliationService.reconcileStorage({ gracePeriodMs: 0 });
+
+      expect(report.orphanedCount).toBe(1);
+      expect(report.orphanedBytes).toBe(BigInt(2048));
+      expect(report.orphanedObjects[0].storagePath).toBe(orphanPath);
+      expect(report.deletedObjects).toBe(0);
+      expect(storageService.deleteMultipleFiles).not.toHaveBeenCalled();
+    });
+
+    it('should delete orphans when requested', async () => {
+      const orphanPath = `users/${testUser.id}/files/b/current`;
+      mockStoredObjects([storedObject(orphanPath)]);
+
+      const report = await reconciliationService.reconcileStorage({
+        gracePeriodMs: 0,
+        deleteOrphans: true,
+      });
+
+      expect(report.deletedObjects).toBe(1);
+      expect(storageService.deleteMultipleFiles).toHaveBeenCalledWith([orphanPath]);
+    });
+
+    it('should skip objects newer than the grace period', async () => {
+      mockStoredObjects([storedObject(`users/${testUser.id}/files/b/current`, 1536, 1000)]);
+
+      const report = await reconciliationService.reconcileStorage({ deleteOrphans: true });
+
+      expect(report.orphanedCount).toBe(0);
+      expect(storageService.deleteMultipleFiles).not.toHaveBeenCalled();
+    });
+
+    it('should treat versions and thumbnails as referenced', async () => {
+      const file = await global.testUtils.createTestFile(testUser.id, {
+        storagePath: `users/${testUser.id}/files/a/current`,
+        thumbnailPath: `users/${testUser.id}/thumbnails/a`,
+      });
+      await prisma.fileVersion.create({
+        data: {
+          fileId: file.id,
+          versionNumber: 1,
+          storagePath: `users/${testUser.id}/files/a/versions/1`,
+          fileSize: BigInt(1024),
+          fileKeyEncrypted: 'encrypted-file-key',
+        },
+      });
+      mockStoredObjects([
+        storedObject(file.storagePath),
+        storedObject(file.thumbnailPath),
+        storedObject(`users/${testUser.id}/files/a/versions/1`),
+      ]);
+
+      const report = await reconciliationService.reconcileStorage({ gracePeriodMs: 0 });
+
+      expect(report.orphanedCount).toBe(0);
+      expect(report.missingObjects).toHaveLength(0);
+    });
+
+    it('should treat all objects of unknown users as orphans', async () => {
+      const goneUserId = '00000000-0000-4000-8000-000000000000';
+      (storageService.listStoredUserIds as jest.Mock).mockResolvedValue([testUser.id, goneUserId]);
+      (storageService.listUserObjects as jest.Mock).mockImplementation(async (userId: string) =>
+        userId === goneUserId ? [storedObject(`users/${goneUserId}/files/x/current`)] : []
+      );
+
+      const report = await reconciliationService.reconcileStorage({ gracePeriodMs: 0 });
+
+      expect(report.orphanedCount).toBe(1);
+      expect(report.orphanedObjects[0].userId).toBe(goneUserId);
+    });
+  });
+
+  describe('Broken records', () => {
+    it('should mark files whose object is missing', async () => {
+      const file = await global.testUtils.createTestFile(testUser.id, {
+        storagePath: `users/${testUser.id}/files/a/current`,
+      });
+
+      const report = await reconciliationService.reconcileStorage({
+        gracePeriodMs: 0,
+        markBroken: true,
+      });
+
+      const updated = await prisma.file.findUnique({ where: { id: file.id } });
+      expect(report.missingObjects).toEqual([
+        expect.objectContaining({ type: 'file', fileId: file.id }),
+      ]);
+      expect(report.markedRecords).toBe(1);
+      expect(updated!.storageMissingAt).not.toBeNull();
+    });
+
+    it('should only report missing objects unless marking is requested', async () => {
+      const file = await global.testUtils.createTestFile(testUser.id);
+
+      const report = await reconciliationService.reconcileStorage({ gracePeriodMs: 0 });
+
+      const updated = await prisma.file.findUnique({ where: { id: file.id } });
+      expect(report.missingObjects).toHaveLength(1);
+      expect(updated!.storageMissingAt).toBeNull();
+    });
+
+    it('should clear the mark once the object is back', async () => {
+      const file = await global.testUtils.createTestFile(testUser.id, {
+        storagePath: `users/${testUser.id}/files/a/current`,
+        storageMissingAt: new Date(),
+      });
+      mockStoredObjects([storedObject(file.storagePath)]);
+
+      const report = await reconciliationService.reconcileStorage({
+        gracePeriodMs: 0,
+        markBroken: true,
+      });
+
+      const updated = await prisma.file.findUnique({ where: { id: file.id } });
+      expect(report.clearedRecords).toBe(1);
+      expect(updated!.storageMissingAt).toBeNull();
+    });
+
+    it('should drop missing thumbnails', async () => {
+      const file = await global.testUtils.createTestFile(testUser.id, {
+        storagePath: `users/${testUser.id}/files/a/current`,
+        thumbnailPath: `users/${testUser.id}/thumbnails/a`,
+      });
+      mockStoredObjects([storedObject(file.storagePath)]);
+
+      await reconciliationService.reconcileStorage({ gracePeriodMs: 0, markBroken: true });
+
+      const updated = await prisma.file.findUnique({ where: { id: file.id } });
+      expect(updated!.thumbnailPath).toBeNull();
+      expect(updated!.storageMissingAt).toBeNull();
+    });
+  });
+
+  describe('Storage usage', () => {
+    it('should count live files and all versions but not trashed files', async () => {
+      const file = await global.testUtils.createTestFile(testUser.id);
+      const trashed = await global.testUtils.createTestFile(testUser.id, {
+        isDeleted: true,
+        deletedAt: new Date(),
+      });
+      await prisma.fileVersion.create({
+        data: {
+          fileId: trashed.id,
+          versionNumber: 1,
+          storagePath: 'test/path/version-1',
+          fileSize: BigInt(512),
+          fileKeyEncrypted: 'encrypted-file-key',
+        },
+      });
+
+      const used = await reconciliationService.computeStorageUsed(testUser.id);
+
+      expect(used).toBe(file.encryptedSize + BigInt(512));
+    });
+
+    it('should correct a drifted counter', async () => {
+      await global.testUtils.createTestFile(testUser.id);
+      await prisma.user.update({
+        where: { id: testUser.id },
+        data: { storageUsed: BigInt(999999) },
+      });
+
+      const report = await reconciliationService.reconcileStorage({
+        gracePeriodMs: 0,
+        recomputeUsage: true,
+      });
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(report.usageCorrections).toEqual([
+        { userId: testUser.id, previous: BigInt(999999), actual: BigInt(1536) },
+      ]);
+      expect(user!.storageUsed).toBe(BigInt(1536));
+    });
+
+    it('should leave an accurate counter untouched', async () => {
+      const correction = await reconciliationService.recomputeStorageUsed(testUser.id);
+
+      expect(correction).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit Tests for Recovery Service
+ * Tests recovery links, recovery key verification and password reset
+ */
+
+jest.mock('../../src/config/redis', () => require('../mocks/redis').createRedisMock());
+
+jest.mock('../../src/services/mail.service', () => ({
+  getClientUrl: (path: string) => `http://localhost:3000${path}`,
+  sendMail: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { prisma } from '../../src/config/database';
+import * as recoveryService from '../../src/services/recovery.service';
+import * as mailService from '../../src/services/mail.service';
+import { AuthError, TokenError } from '../../src/utils/errors';
+import { hashSecret } from '../../src/utils/hash';
+
+const { __store: store } = jest.requireMock('../../src/config/redis');
+
+const VERIFIER = 'a'.repeat(43);
+
+/**
+ * Request a recovery link and return the token from the emailed link
+ */
+const requestToken = async (email: string): Promise<string> => {
+  (mailService.sendMail as jest.Mock).mockClear();
+  await recoveryService.requestRecovery(email);
+
+  const [[message]] = (mailService.sendMail as jest.Mock).mock.calls;
+  return /token=([A-Za-z0-9_-]+)/.exec(message.text)![1];
+};
+
+describe('Recovery Service', () => {
+  let testUser: any;
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    store.clear();
+    testUser = await global.testUtils.createTestUser({
+      recoveryKeyEncrypted: 'wrapped-master-key-copy',
+      recoveryVerifierHash: hashSecret(VERIFIER),
+    });
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  describe('Recovery Links', () => {
+    it('should email a link that unlocks the wrapped master key copy', async () => {
+      const token = await requestToken(testUser.email);
+
+      const challenge = await recoveryService.getRecoveryChallenge(token);
+
+      expect(challenge.recoveryKeyEncrypted).toBe('wrapped-master-key-copy');
+      expect(mailService.sendMail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: testUser.email })
+      );
+    });
+
+    it('should silently ignore unknown emails and accounts without a recovery key', async () => {
+      const noRecovery = await global.testUtils.createTestUser();
+      (mailService.sendMail as jest.Mock).mockClear();
+
+      await recoveryService.requestRecovery('nobody@example.com');
+      await recoveryService.requestRecovery(noRecovery.email);
+
+      expect(mailService.sendMail).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown link', async () => {
+      await expect(recoveryService.getRecoveryChallenge('not-a-token')).rejects.toThrow(
+        TokenError
+      );
+    });
+  });
+
+  describe('Password Reset', () => {
+    const resetData = (token: string, recoveryVerifier = VERIFIER) => ({
+      token,
+      recoveryVerifier,
+      password: 'NewPass123',
+      salt: 'new-salt',
+      masterKeyEncrypted: 'rewrapped-master-key',
+    });
+
+    it('should store the re-wrapped master key and sign out every session', async () => {
+      await prisma.session.create({
+        data: {
+          userId: testUser.id,
+          tokenHash: 'session-token',
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        },
+      });
+      const token = await requestToken(testUser.email);
+
+      await recoveryService.resetPassword(resetData(token));
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(user!.masterKeyEncrypted).toBe('rewrapped-master-key');
+      expect(user!.salt).toBe('new-salt');
+      expect(user!.passwordHash).not.toBe(testUser.passwordHash);
+      expect(user!.emailVerified).toBe(true);
+      expect(await prisma.session.count({ where: { userId: testUser.id } })).toBe(0);
+    });
+
+    it('should only accept a link once', async () => {
+      const token = await requestToken(testUser.email);
+      await recoveryService.resetPassword(resetData(token));
+
+      await expect(recoveryService.resetPassword(resetData(token))).rejects.toThrow(TokenError);
+    });
+
+    it('should reject a wrong recovery key without changing the account', async () => {
+      const token = await requestToken(testUser.email);
+
+      await expect(
+        recoveryService.resetPassword(resetData(token, 'b'.repeat(43)))
+      ).rejects.toThrow(AuthError);
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(user!.masterKeyEncrypted).toBe(testUser.masterKeyEncrypted);
+    });
+
+    it('should burn the link after too many wrong recovery keys', async () => {
+      const token = await requestToken(testUser.email);
+
+      for (let i = 0; i < 5; i++) {
+        await expect(
+          recoveryService.resetPassword(resetData(token, 'b'.repeat(43)))
+        ).rejects.toThrow(AuthError);
+      }
+
+      await expect(recoveryService.resetPassword(resetData(token))).rejects.toThrow(TokenError);
+    });
+  });
+
+  describe('Recovery Key Rotation', () => {
+    it('should require the current password', async () => {
+      await expect(
+        recoveryService.updateRecoveryKey(testUser.id, 'wrong-password', {
+          recoveryKeyEncrypted: 'new-copy',
+          recoveryVerifier: 'c'.repeat(43),
+        })
+      ).rejects.toThrow(AuthError);
+    });
+
+    it('should replace the wrapped copy and verifier', async () => {
+      await recoveryService.updateRecoveryKey(testUser.id, 'Test123!@#', {
+        recoveryKeyEncrypted: 'new-copy',
+        recoveryVerifier: 'c'.repeat(43),
+      });
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(user!.recoveryKeyEncrypted).toBe('new-copy');
+      expect(user!.recoveryVerifierHash).toBe(hashSecret('c'.repeat(43)));
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for Refresh Token Service
+ * Tests refresh token rotation and reuse detection
+ */
+
+jest.mock('../../src/config/redis', () => require('../mocks/redis').createRedisMock());
+
+import { prisma } from '../../src/config/database';
+import * as refreshTokenService from '../../src/services/refreshToken.service';
+import * as authService from '../../src/services/auth.service';
+import { AuditAction } from '../../src/services/audit.service';
+import { TokenError } from '../../src/utils/errors';
+
+const { __store: store } = jest.requireMock('../../src/config/redis');
+
+describe('Refresh Token Service', () => {
+  let testUser: any;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    store.clear();
+    testUser = await global.testUtils.createTestUser();
+    ({ sessionId } = await authService.createSession(testUser.id));
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  it('should issue a new token id on every rotation', async () => {
+    const first = await refreshTokenService.createTokenFamily(testUser.id, sessionId);
+    const second = await refreshTokenService.rotateRefreshToken(testUser.id, sessionId, first);
+    const third = await refreshTokenService.rotateRefreshToken(testUser.id, sessionId, second);
+
+    expect(new Set([first, second, third]).size).toBe(3);
+  });
+
+  it('should revoke the family and session when a used token is replayed', async () => {
+    const first = await refreshTokenService.createTokenFamily(testUser.id, sessionId);
+    const second = await refreshTokenService.rotateRefreshToken(testUser.id, sessionId, first);
+
+    await expect(
+      refreshTokenService.rotateRefreshToken(testUser.id, sessionId, first, '203.0.113.9')
+    ).rejects.toThrow(TokenError);
+
+    expect(await prisma.session.findUnique({ where: { id: sessionId } })).toBeNull();
+
+    // The legitimate holder of the latest token is signed out as well
+    await expect(
+      refreshTokenService.rotateRefreshToken(testUser.id, sessionId, second)
+    ).rejects.toThrow(TokenError);
+
+    const event = await prisma.auditLog.findFirst({
+      where: { userId: testUser.id, action: AuditAction.REFRESH_TOKEN_REUSE },
+    });
+    expect(event).not.toBeNull();
+    expect(event!.success).toBe(false);
+    expect(event!.ipAddress).toBe('203.0.113.9');
+  });
+
+  it('should reject tokens from a revoked family', async () => {
+    const first = await refreshTokenService.createTokenFamily(testUser.id, sessionId);
+
+    await refreshTokenService.revokeTokenFamily(sessionId);
+
+    await expect(
+      refreshTokenService.rotateRefreshToken(testUser.id, sessionId, first)
+    ).rejects.toThrow(TokenError);
+  });
+
+  it('should reject a family presented by another user', async () => {
+    const first = await refreshTokenService.createTokenFamily(testUser.id, sessionId);
+    const otherUser = await global.testUtils.createTestUser({
+      email: 'other@example.com',
+      username: 'otheruser',
+    });
+
+    await expect(
+      refreshTokenService.rotateRefreshToken(otherUser.id, sessionId, first)
+    ).rejects.toThrow(TokenError);
+  });
+});
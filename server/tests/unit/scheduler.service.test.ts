@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for Scheduler Service
+ * Tests job locking, state tracking and retry backoff
+ */
+
+jest.mock('../../src/config/redis', () => require('../mocks/redis').createRedisMock());
+
+import * as schedulerService from '../../src/services/scheduler.service';
+import { JobStatus } from '../../src/services/scheduler.service';
+import { NotFoundError } from '../../src/utils/errors';
+
+const { __store: store, __hashes: hashes } = jest.requireMock('../../src/config/redis');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Scheduler Service', () => {
+  let jobCounter = 0;
+
+  // Jobs stay registered for the lifetime of the module, so each test uses its own name
+  const registerTestJob = (handler: () => Promise<unknown>, maxRetries = 2) => {
+    const name = `test-job-${++jobCounter}`;
+    schedulerService.registerJob({
+      name,
+      description: 'Test job',
+      intervalMs: HOUR_MS,
+      handler,
+      maxRetries,
+      retryBaseDelayMs: 1000,
+    });
+    return name;
+  };
+
+  const getState = async (name: string) => {
+    const states = await schedulerService.getJobStates();
+    return states.find((s) => s.name === name)!;
+  };
+
+  beforeEach(() => {
+    store.clear();
+    hashes.clear();
+    jest.clearAllMocks();
+  });
+
+  it('should run a due job and record its result', async () => {
+    const handler = jest.fn().mockResolvedValue({ deleted: BigInt(3) });
+    const name = registerTestJob(handler);
+
+    const ran = await schedulerService.runJobIfDue(name);
+    const state = await getState(name);
+
+    expect(ran).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(state.status).toBe(JobStatus.SUCCEEDED);
+    expect(state.lastResult).toEqual({ deleted: '3' });
+    expect(state.failures).toBe(0);
+    expect(state.nextRunAt!.getTime()).toBeGreaterThan(Date.now() + HOUR_MS - 5000);
+  });
+
+  it('should not run a job again before its next run time', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const name = registerTestJob(handler);
+
+    await schedulerService.runJobIfDue(name);
+    const ranAgain = await schedulerService.runJobIfDue(name);
+
+    expect(ranAgain).toBe(false);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip a job locked by another instance', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const name = registerTestJob(handler);
+    store.set(`jobs:lock:${name}`, 'other-instance-token');
+
+    const ran = await schedulerService.runJobIfDue(name);
+
+    expect(ran).toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+    expect(store.get(`jobs:lock:${name}`)).toBe('other-instance-token');
+  });
+
+  it('should release the lock after running', async () => {
+    const name = registerTestJob(jest.fn().mockResolvedValue(undefined));
+
+    await schedulerService.runJobIfDue(name);
+
+    expect(store.has(`jobs:lock:${name}`)).toBe(false);
+  });
+
+  it('should retry a failed job with exponential backoff', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('Database unavailable'));
+    const name = registerTestJob(handler);
+
+    await schedulerService.runJobIfDue(name);
+    let state = await getState(name);
+
+    expect(state.status).toBe(JobStatus.RETRYING);
+    expect(state.failures).toBe(1);
+    expect(state.lastError).toBe('Database unavailable');
+    expect(state.nextRunAt!.getTime() - state.lastFinishedAt!.getTime()).toBe(1000);
+
+    await schedulerService.triggerJob(name);
+    await schedulerService.runJobIfDue(name);
+    state = await getState(name);
+
+    expect(state.failures).toBe(2);
+    expect(state.nextRunAt!.getTime() - state.lastFinishedAt!.getTime()).toBe(2000);
+  });
+
+  it('should give up after the maximum retries until the next interval', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('Storage unavailable'));
+    const name = registerTestJob(handler, 1);
+
+    await schedulerService.runJobIfDue(name);
+    await schedulerService.triggerJob(name);
+    await schedulerService.runJobIfDue(name);
+    const state = await getState(name);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(state.status).toBe(JobStatus.FAILED);
+    expect(state.failures).toBe(0);
+    expect(state.nextRunAt!.getTime() - state.lastFinishedAt!.getTime()).toBe(HOUR_MS);
+  });
+
+  it('should cap the retry delay at the job interval', () => {
+    const job = {
+      name: 'capped',
+      description: 'Capped job',
+      intervalMs: 5000,
+      handler: async () => undefined,
+      retryBaseDelayMs: 1000,
+    };
+
+    expect(schedulerService.getRetryDelay(job, 1)).toBe(1000);
+    expect(schedulerService.getRetryDelay(job, 3)).toBe(4000);
+    expect(schedulerService.getRetryDelay(job, 10)).toBe(5000);
+  });
+
+  it('should report jobs that have never run as idle', async () => {
+    const name = registerTestJob(jest.fn().mockResolvedValue(undefined));
+
+    const state = await getState(name);
+
+    expect(state.status).toBe(JobStatus.IDLE);
+    expect(state.lastRunAt).toBeNull();
+  });
+
+  it('should throw when triggering an unknown job', async () => {
+    await expect(schedulerService.triggerJob('missing-job')).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for Session Service
+ * Tests device listing, user agent parsing and session revocation
+ */
+
+import { prisma } from '../../src/config/database';
+import * as sessionService from '../../src/services/session.service';
+import * as authService from '../../src/services/auth.service';
+import { BadRequestError, NotFoundError } from '../../src/utils/errors';
+
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1';
+const EDGE_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91';
+const FIREFOX_ANDROID_TABLET =
+  'Mozilla/5.0 (Android 13; Tablet; rv:121.0) Gecko/121.0 Firefox/121.0';
+
+describe('Session Service', () => {
+  describe('parseUserAgent', () => {
+    it('should parse desktop browsers', () => {
+      expect(sessionService.parseUserAgent(CHROME_MAC)).toEqual({
+        browser: 'Chrome 120',
+        os: 'macOS',
+        deviceType: 'desktop',
+      });
+    });
+
+    it('should not mistake Edge for Chrome', () => {
+      expect(sessionService.parseUserAgent(EDGE_WINDOWS)).toEqual({
+        browser: 'Edge 120',
+        os: 'Windows',
+        deviceType: 'desktop',
+      });
+    });
+
+    it('should detect phones and tablets', () => {
+      expect(sessionService.parseUserAgent(SAFARI_IPHONE)).toEqual({
+        browser: 'Safari 17',
+        os: 'iOS',
+        deviceType: 'mobile',
+      });
+      expect(sessionService.parseUserAgent(FIREFOX_ANDROID_TABLET).deviceType).toBe('tablet');
+    });
+
+    it('should handle missing or unknown user agents', () => {
+      expect(sessionService.parseUserAgent(undefined)).toEqual({
+        browser: 'Unknown browser',
+        os: 'Unknown OS',
+        deviceType: 'unknown',
+      });
+      expect(sessionService.parseUserAgent('curl/8.4.0').deviceType).toBe('unknown');
+    });
+  });
+
+  describe('Session management', () => {
+    let testUser: any;
+
+    beforeEach(async () => {
+      await global.testUtils.cleanupTestData();
+      testUser = await global.testUtils.createTestUser();
+    });
+
+    afterAll(async () => {
+      await global.testUtils.cleanupTestData();
+    });
+
+    it('should list sessions with device info and flag the current one', async () => {
+      const laptop = await authService.createSession(testUser.id, '203.0.113.5', CHROME_MAC);
+      await authService.createSession(testUser.id, '198.51.100.7', SAFARI_IPHONE);
+
+      const sessions = await sessionService.listSessions(testUser.id, laptop.sessionId);
+
+      expect(sessions).toHaveLength(2);
+      const current = sessions.find((session) => session.current)!;
+      expect(current.id).toBe(laptop.sessionId);
+      expect(current.browser).toBe('Chrome 120');
+      expect(sessions.find((session) => !session.current)!.os).toBe('iOS');
+    });
+
+    it('should revoke a single session', async () => {
+      const current = await authService.createSession(testUser.id);
+      const other = await authService.createSession(testUser.id);
+
+      await sessionService.revokeSession(testUser.id, other.sessionId, current.sessionId);
+
+      expect(await prisma.session.findUnique({ where: { id: other.sessionId } })).toBeNull();
+      expect(await prisma.session.findUnique({ where: { id: current.sessionId } })).not.toBeNull();
+    });
+
+    it('should not revoke the current session', async () => {
+      const current = await authService.createSession(testUser.id);
+
+      await expect(
+        sessionService.revokeSession(testUser.id, current.sessionId, current.sessionId)
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should not revoke sessions of other users', async () => {
+      const otherUser = await global.testUtils.createTestUser({
+        email: 'other@example.com',
+        username: 'otheruser',
+      });
+      const otherSession = await authService.createSession(otherUser.id);
+
+      await expect(
+        sessionService.revokeSession(testUser.id, otherSession.sessionId)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should revoke all sessions except the current one', async () => {
+      const current = await authService.createSession(testUser.id);
+      await authService.createSession(testUser.id);
+      await authService.createSession(testUser.id);
+
+      const count = await sessionService.revokeOtherSessions(testUser.id, current.sessionId);
+
+      expect(count).toBe(2);
+      const remaining = await prisma.session.findMany({ where: { userId: testUser.id } });
+      expect(remaining.map((session) => session.id)).toEqual([current.sessionId]);
+    });
+
+    it('should keep the current session when the password changes', async () => {
+      const current = await authService.createSession(testUser.id);
+      await authService.createSession(testUser.id);
+
+      await authService.changePassword(testUser.id, {
+        currentPassword: 'Test123!@#',
+        newPassword: 'NewPassword123!@#',
+        salt: 'new-salt',
+        masterKeyEncrypted: 'rewrapped-master-key',
+        privateKeyEncrypted: 'rewrapped-private-key',
+        currentSessionId: current.sessionId,
+      });
+
+      const remaining = await prisma.session.findMany({ where: { userId: testUser.id } });
+      expect(remaining.map((session) => session.id)).toEqual([current.sessionId]);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit Tests for Share Access Log Service
+ * Tests IP truncation, the per-link timeline and retention
+ */
+
+import { prisma } from '../../src/config/database';
+import * as shareAccessLogService from '../../src/services/shareAccessLog.service';
+import { NotFoundError } from '../../src/utils/errors';
+
+const { SHARE_ACCESS_EVENTS, SHARE_ACCESS_OUTCOMES } = shareAccessLogService;
+
+describe('Share Access Log Service', () => {
+  describe('IP Truncation', () => {
+    it('should keep the /24 network of IPv4 addresses', () => {
+      expect(shareAccessLogService.truncateIpAddress('203.0.113.42')).toBe('203.0.113.0');
+    });
+
+    it('should unwrap IPv4-mapped IPv6 addresses', () => {
+      expect(shareAccessLogService.truncateIpAddress('::ffff:198.51.100.7')).toBe(
+        '198.51.100.0'
+      );
+    });
+
+    it('should keep the /48 network of IPv6 addresses', () => {
+      expect(
+        shareAccessLogService.truncateIpAddress('2001:db8:85a3:8d3:1319:8a2e:370:7348')
+      ).toBe('2001:db8:85a3::');
+      expect(shareAccessLogService.truncateIpAddress('2001:db8::1')).toBe('2001:db8:0::');
+    });
+
+    it('should drop anything that is not an IP address', () => {
+      expect(shareAccessLogService.truncateIpAddress('not-an-ip')).toBeUndefined();
+      expect(shareAccessLogService.truncateIpAddress(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('Timeline', () => {
+    let owner: any;
+    let share: any;
+
+    const record = (outcome: shareAccessLogService.ShareAccessOutcome) =>
+      shareAccessLogService.recordShareAccess({
+        shareId: share.id,
+        ownerId: owner.id,
+        event: SHARE_ACCESS_EVENTS.DOWNLOAD,
+        outcome,
+        ipAddress: '203.0.113.42',
+        userAgent: 'Mozilla/5.0',
+      });
+
+    beforeEach(async () => {
+      await global.testUtils.cleanupTestData();
+      await prisma.shareAccessEvent.deleteMany();
+      owner = await global.testUtils.createTestUser();
+      const file = await global.testUtils.createTestFile(owner.id);
+      share = await prisma.share.create({
+        data: {
+          fileId: file.id,
+          ownerId: owner.id,
+          shareToken: 'access-log-token',
+          fileKeyEncrypted: 'link-wrapped-key',
+        },
+      });
+    });
+
+    afterAll(async () => {
+      await prisma.shareAccessEvent.deleteMany();
+      await global.testUtils.cleanupTestData();
+    });
+
+    it('should store events with a truncated IP address', async () => {
+      await record(SHARE_ACCESS_OUTCOMES.OK);
+
+      const event = await prisma.shareAccessEvent.findFirstOrThrow({
+        where: { shareId: share.id },
+      });
+      expect(event.ipAddress).toBe('203.0.113.0');
+      expect(event.outcome).toBe(SHARE_ACCESS_OUTCOMES.OK);
+    });
+
+    it('should count outcomes per day', async () => {
+      await record(SHARE_ACCESS_OUTCOMES.OK);
+      await record(SHARE_ACCESS_OUTCOMES.WRONG_PASSWORD);
+      await record(SHARE_ACCESS_OUTCOMES.WRONG_PASSWORD);
+
+      const timeline = await shareAccessLogService.getShareAccessTimeline(share.id, owner.id, 7);
+
+      expect(timeline.series).toHaveLength(7);
+      expect(timeline.series[6]).toMatchObject({ ok: 1, denied: 2 });
+      expect(timeline.totals.byOutcome[SHARE_ACCESS_OUTCOMES.WRONG_PASSWORD]).toBe(2);
+      expect(timeline.events).toHaveLength(3);
+    });
+
+    it('should only show the timeline to the owner', async () => {
+      const other = await global.testUtils.createTestUser({
+        email: 'other@example.com',
+        username: 'other',
+      });
+
+      await expect(
+        shareAccessLogService.getShareAccessTimeline(share.id, other.id)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should keep the history after the link is deleted', async () => {
+      await record(SHARE_ACCESS_OUTCOMES.OK);
+      await prisma.share.delete({ where: { id: share.id } });
+
+      const timeline = await shareAccessLogService.getShareAccessTimeline(share.id, owner.id);
+
+      expect(timeline.totals.ok).toBe(1);
+    });
+
+    it('should delete events past the retention period', async () => {
+      await record(SHARE_ACCESS_OUTCOMES.OK);
+      await prisma.shareAccessEvent.updateMany({
+        data: { createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000) },
+      });
+      await record(SHARE_ACCESS_OUTCOMES.OK);
+
+      const deleted = await shareAccessLogService.cleanupOldShareAccessEvents(5);
+
+      expect(deleted).toBe(1);
+      expect(await prisma.shareAccessEvent.count()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit Tests for Share Lockout Service
+ * Tests progressive delays, locking share links and unlocking or rotating them
+ */
+
+jest.mock('../../src/config/redis', () => require('../mocks/redis').createRedisMock());
+
+jest.mock('../../src/services/mail.service', () => ({
+  sendShareLockedEmail: jest.fn().mockResolvedValue(undefined),
+}));
+
+import bcrypt from 'bcrypt';
+import { prisma } from '../../src/config/database';
+import * as shareLockoutService from '../../src/services/shareLockout.service';
+import * as shareService from '../../src/services/share.service';
+import * as mailService from '../../src/services/mail.service';
+import { SHARE_ACCESS_OUTCOMES } from '../../src/services/shareAccessLog.service';
+import { RateLimitError, ValidationError } from '../../src/utils/errors';
+
+const { __store: store } = jest.requireMock('../../src/config/redis');
+
+const sendShareLockedEmail = mailService.sendShareLockedEmail as jest.Mock;
+
+// Matches the default SHARE_LOCKOUT_THRESHOLD
+const LOCKOUT_THRESHOLD = 20;
+
+describe('Share Lockout Service', () => {
+  let owner: any;
+  let share: any;
+
+  const failTimes = async (times: number) => {
+    let locked = false;
+    for (let i = 0; i < times; i++) {
+      locked = await shareLockoutService.recordFailedAttempt(share);
+    }
+    return locked;
+  };
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    store.clear();
+    jest.clearAllMocks();
+    owner = await global.testUtils.createTestUser();
+    const file = await global.testUtils.createTestFile(owner.id);
+    share = await prisma.share.create({
+      data: {
+        fileId: file.id,
+        ownerId: owner.id,
+        shareToken: 'lockout-token',
+        fileKeyEncrypted: 'link-wrapped-key',
+        passwordHash: await bcrypt.hash('link-verifier', 4),
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  describe('getDelaySeconds', () => {
+    it('should allow a few attempts without delay and then double the delay', () => {
+      expect(shareLockoutService.getDelaySeconds(3)).toBe(0);
+      expect(shareLockoutService.getDelaySeconds(4)).toBe(2);
+      expect(shareLockoutService.getDelaySeconds(5)).toBe(4);
+      expect(shareLockoutService.getDelaySeconds(50)).toBe(300);
+    });
+  });
+
+  describe('verifySharePassword', () => {
+    it('should not check the password while the link is delayed', async () => {
+      await failTimes(4);
+
+      const check = await shareLockoutService.verifySharePassword(share, 'link-verifier');
+
+      expect(check.outcome).toBe(SHARE_ACCESS_OUTCOMES.THROTTLED);
+      expect(check.throttle!.retryAfter).toBeGreaterThan(0);
+      expect(shareLockoutService.toThrottleError(check.throttle!)).toBeInstanceOf(
+        RateLimitError
+      );
+    });
+
+    it('should forget failures after the right password', async () => {
+      await failTimes(2);
+
+      const check = await shareLockoutService.verifySharePassword(share, 'link-verifier');
+
+      expect(check.outcome).toBe(SHARE_ACCESS_OUTCOMES.OK);
+      expect(store.size).toBe(0);
+    });
+  });
+
+  describe('Locking', () => {
+    it('should lock the link and notify the owner once at the threshold', async () => {
+      expect(await failTimes(LOCKOUT_THRESHOLD - 1)).toBe(false);
+      expect(await failTimes(1)).toBe(true);
+
+      const locked = await prisma.share.findUniqueOrThrow({ where: { id: share.id } });
+      expect(locked.lockedAt).not.toBeNull();
+      expect(sendShareLockedEmail).toHaveBeenCalledTimes(1);
+      expect(sendShareLockedEmail.mock.calls[0][0]).toBe(owner.email);
+
+      await failTimes(LOCKOUT_THRESHOLD);
+      expect(sendShareLockedEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse a locked link even with the right password', async () => {
+      await failTimes(LOCKOUT_THRESHOLD);
+
+      const validation = await shareService.validateShareAccess(share.shareToken, 'link-verifier');
+
+      expect(validation.valid).toBe(false);
+      expect(validation.outcome).toBe(SHARE_ACCESS_OUTCOMES.LOCKED);
+    });
+  });
+
+  describe('Owner Actions', () => {
+    beforeEach(async () => {
+      await failTimes(LOCKOUT_THRESHOLD);
+    });
+
+    it('should unlock the link', async () => {
+      await shareService.unlockShare(share.id, owner.id);
+
+      const validation = await shareService.validateShareAccess(share.shareToken, 'link-verifier');
+      expect(validation.valid).toBe(true);
+    });
+
+    it('should rotate the link to a new token and password', async () => {
+      const rotated = await shareService.rotateShare(share.id, owner.id, {
+        fileKeyEncrypted: 'key-wrapped-for-new-secret',
+        password: 'new-verifier',
+        passwordSalt: 'new-salt',
+        kdf: { algorithm: 'PBKDF2-SHA256', iterations: 100000 },
+      });
+
+      expect(rotated.shareToken).not.toBe(share.shareToken);
+      expect(rotated.lockedAt).toBeNull();
+      expect(rotated.fileKeyEncrypted).toBe('key-wrapped-for-new-secret');
+
+      const validation = await shareService.validateShareAccess(
+        rotated.shareToken,
+        'new-verifier'
+      );
+      expect(validation.valid).toBe(true);
+    });
+
+    it('should require a new key to rotate a download link', async () => {
+      await expect(shareService.rotateShare(share.id, owner.id, {})).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+});
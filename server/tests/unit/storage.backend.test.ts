@@ -0,0 +1,259 @@
+/**
+ * Unit Tests for Storage Backends
+ * Runs the same contract against every driver. The local driver always runs;
+ * MinIO runs when STORAGE_TEST_DRIVERS includes "minio" and a server is available.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageBackend } from '../../src/config/storage/local.backend';
+import { MinioStorageBackend } from '../../src/config/storage/minio.backend';
+import { StorageBackend } from '../../src/config/storage/types';
+
+const drivers = (process.env.STORAGE_TEST_DRIVERS || 'local').split(',');
+
+const readStream = async (stream: Readable): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+};
+
+const backends: Array<[string, () => { backend: StorageBackend; cleanup: () => Promise<void> }]> = [
+  [
+    'local',
+    () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'cryptic-storage-'));
+      return {
+        backend: new LocalStorageBackend(root),
+        cleanup: () => fs.promises.rm(root, { recursive: true, force: true }),
+      };
+    },
+  ],
+  [
+    'minio',
+    () => {
+      const backend = new MinioStorageBackend();
+      return {
+        backend,
+        cleanup: async () => {
+          const objects = await backend.listObjects('test-contract/', true);
+          await backend.deleteObjects(objects.map((o) => o.name!));
+        },
+      };
+    },
+  ],
+];
+
+describe.each(backends.filter(([driver]) => drivers.includes(driver)))(
+  'Storage Backend (%s)',
+  (_driver, create) => {
+    let backend: StorageBackend;
+    let cleanup: () => Promise<void>;
+
+    const key = (name: string) => `test-contract/user-1/${name}`;
+
+    beforeEach(async () => {
+      ({ backend, cleanup } = create());
+      await backend.initialize();
+    });
+
+    afterEach(async () => {
+      await cleanup();
+    });
+
+    it('should be healthy after initialization', () => {
+      expect(backend.isHealthy()).toBe(true);
+    });
+
+    it('should store and read back an object', async () => {
+      const data = Buffer.from('encrypted content');
+
+      const { etag } = await backend.putObject(key('a'), data, data.length, { fileId: 'a' });
+
+      expect(etag).toBeTruthy();
+      expect((await backend.getObject(key('a'))).toString()).toBe('encrypted content');
+      expect(await readStream(await backend.getObjectStream(key('a')))).toBe('encrypted content');
+    });
+
+    it('should accept a stream when storing', async () => {
+      await backend.putObject(key('stream'), Readable.from([Buffer.from('ab'), Buffer.from('cd')]), 4);
+
+      expect((await backend.getObject(key('stream'))).toString()).toBe('abcd');
+    });
+
+    it('should replace an existing object', async () => {
+      await backend.putObject(key('a'), Buffer.from('first'), 5);
+      await backend.putObject(key('a'), Buffer.from('second'), 6);
+
+      expect((await backend.getObject(key('a'))).toString()).toBe('second');
+    });
+
+    it('should report size and metadata', async () => {
+      await backend.putObject(key('a'), Buffer.from('12345'), 5, { fileId: 'a' });
+
+      const stat = await backend.statObject(key('a'));
+
+      expect(stat).not.toBeNull();
+      expect(stat!.size).toBe(5);
+      expect(stat!.lastModified.getTime()).toBeGreaterThan(0);
+    });
+
+    it('should return null when stating a missing object', async () => {
+      expect(await backend.statObject(key('missing'))).toBeNull();
+    });
+
+    it('should fail to read a missing object', async () => {
+      await expect(backend.getObjectStream(key('missing'))).rejects.toThrow();
+    });
+
+    it('should delete objects', async () => {
+      await backend.putObject(key('a'), Buffer.from('a'), 1);
+      await backend.putObject(key('b'), Buffer.from('b'), 1);
+
+      await backend.deleteObject(key('a'));
+      await backend.deleteObjects([key('b')]);
+
+      expect(await backend.statObject(key('a'))).toBeNull();
+      expect(await backend.statObject(key('b'))).toBeNull();
+    });
+
+    it('should copy objects', async () => {
+      await backend.putObject(key('a'), Buffer.from('original'), 8);
+
+      await backend.copyObject(key('a'), key('versions/1'));
+
+      expect((await backend.getObject(key('versions/1'))).toString()).toBe('original');
+      expect((await backend.getObject(key('a'))).toString()).toBe('original');
+    });
+
+    it('should list objects by prefix', async () => {
+      await backend.putObject(key('files/1/current'), Buffer.from('1'), 1);
+      await backend.putObject(key('files/1/versions/1'), Buffer.from('2'), 1);
+      await backend.putObject(key('thumbnails/1'), Buffer.from('3'), 1);
+      await backend.putObject('test-contract/user-2/files/9/current', Buffer.from('4'), 1);
+
+      const recursive = await backend.listObjects('test-contract/user-1/', true);
+      const files = await backend.listObjects('test-contract/user-1/files/', true);
+      const users = await backend.listObjects('test-contract/', false);
+
+      expect(recursive.map((o) => o.name).sort()).toEqual([
+        key('files/1/current'),
+        key('files/1/versions/1'),
+        key('thumbnails/1'),
+      ]);
+      expect(files).toHaveLength(2);
+      expect(users.map((o) => o.prefix).sort()).toEqual([
+        'test-contract/user-1/',
+        'test-contract/user-2/',
+      ]);
+    });
+
+    it('should assemble a multipart upload in part order', async () => {
+      const uploadId = await backend.createMultipartUpload(key('large'));
+      const partSize = 5 * 1024 * 1024;
+      const part1 = Buffer.alloc(partSize, 'a');
+      const part2 = Buffer.from('tail');
+
+      const uploaded2 = await backend.uploadPart(key('large'), uploadId, 2, part2);
+      const uploaded1 = await backend.uploadPart(key('large'), uploadId, 1, part1);
+      await backend.completeMultipartUpload(key('large'), uploadId, [uploaded2, uploaded1]);
+
+      const content = await backend.getObject(key('large'));
+      expect(content.length).toBe(partSize + 4);
+      expect(content.subarray(partSize).toString()).toBe('tail');
+    });
+
+    it('should discard an aborted multipart upload', async () => {
+      const uploadId = await backend.createMultipartUpload(key('aborted'));
+      await backend.uploadPart(key('aborted'), uploadId, 1, Buffer.from('part'));
+
+      await backend.abortMultipartUpload(key('aborted'), uploadId);
+
+      expect(await backend.statObject(key('aborted'))).toBeNull();
+    });
+  }
+);
+
+describe('Local Storage Backend', () => {
+  let root: string;
+  let backend: LocalStorageBackend;
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'cryptic-storage-'));
+    backend = new LocalStorageBackend(root);
+    await backend.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('should reject keys that escape the storage root', async () => {
+    await expect(backend.putObject('users/../../etc/passwd', Buffer.from('x'), 1)).rejects.toThrow(
+      'Invalid storage key'
+    );
+    await expect(backend.statObject('/absolute/path')).rejects.toThrow('Invalid storage key');
+  });
+
+  it('should reject data that does not match the declared size', async () => {
+    await expect(backend.putObject('users/u/files/f/current', Buffer.from('abc'), 10)).rejects.toThrow(
+      'does not match the declared size'
+    );
+    expect(await backend.statObject('users/u/files/f/current')).toBeNull();
+  });
+
+  it('should leave no temporary files after writing', async () => {
+    await backend.putObject('users/u/files/f/current', Buffer.from('abc'), 3);
+
+    expect(fs.readdirSync(path.join(root, 'tmp'))).toHaveLength(0);
+  });
+
+  it('should keep the previous object when a write fails', async () => {
+    await backend.putObject('users/u/files/f/current', Buffer.from('old'), 3);
+
+    const failing = new Readable({
+      read() {
+        this.destroy(new Error('connection reset'));
+      },
+    });
+    await expect(backend.putObject('users/u/files/f/current', failing, 3)).rejects.toThrow();
+
+    expect((await backend.getObject('users/u/files/f/current')).toString()).toBe('old');
+  });
+
+  it("should shard objects by the user's prefix", async () => {
+    await backend.putObject('users/u1/files/f/current', Buffer.from('1'), 1);
+    await backend.putObject('users/u2/files/f/current', Buffer.from('2'), 1);
+
+    const shards = fs.readdirSync(path.join(root, 'objects'));
+    const userDirs = shards.flatMap((shard) =>
+      fs
+        .readdirSync(path.join(root, 'objects', shard))
+        .map((sub) => fs.readdirSync(path.join(root, 'objects', shard, sub)))
+    );
+
+    // Each user's objects sit under users/{userId} inside one shard
+    expect(userDirs.every((entries) => entries.length === 1 && entries[0] === 'users')).toBe(true);
+  });
+
+  it('should remove empty directories after deleting', async () => {
+    await backend.putObject('users/u/files/f/current', Buffer.from('1'), 1);
+
+    await backend.deleteObject('users/u/files/f/current');
+
+    expect(await backend.listObjects('users/', false)).toEqual([]);
+    expect(fs.readdirSync(path.join(root, 'objects')).length).toBeLessThanOrEqual(1);
+  });
+
+  it('should reject a multipart upload for a different key', async () => {
+    const uploadId = await backend.createMultipartUpload('users/u/files/a/current');
+
+    await expect(
+      backend.uploadPart('users/u/files/b/current', uploadId, 1, Buffer.from('x'))
+    ).rejects.toThrow('Multipart upload not found');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for Throttle Service
+ * Tests the shared backoff, attempt reservation, locks and key separation
+ * between targets
+ */
+
+jest.mock('../../src/config/redis', () => require('../mocks/redis').createRedisMock());
+
+import * as throttleService from '../../src/services/throttle.service';
+
+const { __store: store } = jest.requireMock('../../src/config/redis');
+
+const CONFIG: throttleService.ThrottleConfig = {
+  keyPrefix: 'test',
+  freeAttempts: 2,
+  baseDelaySeconds: 5,
+  maxDelaySeconds: 60,
+  lockoutThreshold: 6,
+  failureWindowSeconds: 60 * 60,
+};
+
+describe('Throttle Service', () => {
+  const failTimes = async (targetId: string, times: number) => {
+    let result: throttleService.FailureResult = { locked: false, throttle: null };
+    for (let i = 0; i < times; i++) {
+      result = await throttleService.recordFailure(CONFIG, targetId);
+    }
+    return result;
+  };
+
+  beforeEach(() => {
+    store.clear();
+  });
+
+  describe('getDelaySeconds', () => {
+    it('should double the delay after the free attempts up to the maximum', () => {
+      expect(throttleService.getDelaySeconds(CONFIG, 2)).toBe(0);
+      expect(throttleService.getDelaySeconds(CONFIG, 3)).toBe(5);
+      expect(throttleService.getDelaySeconds(CONFIG, 4)).toBe(10);
+      expect(throttleService.getDelaySeconds(CONFIG, 20)).toBe(60);
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should impose no delay while attempts are free', async () => {
+      expect(await failTimes('target', 2)).toEqual({ locked: false, throttle: null });
+      expect(await throttleService.getDelay(CONFIG, 'target')).toBeNull();
+    });
+
+    it('should impose a delay once the free attempts are used', async () => {
+      const { locked, throttle } = await failTimes('target', 3);
+
+      expect(locked).toBe(false);
+      expect(throttle!.retryAfter).toBe(5);
+      expect(await throttleService.getDelay(CONFIG, 'target')).not.toBeNull();
+    });
+
+    it('should report the lock at the threshold and start counting over', async () => {
+      expect((await failTimes('target', 6)).locked).toBe(true);
+
+      expect(await throttleService.getDelay(CONFIG, 'target')).toBeNull();
+      expect(await throttleService.recordFailure(CONFIG, 'target')).toEqual({
+        locked: false,
+        throttle: null,
+      });
+    });
+
+    it('should count each target and key prefix separately', async () => {
+      await failTimes('target', 3);
+
+      expect(await throttleService.getDelay(CONFIG, 'other')).toBeNull();
+      expect(await throttleService.getDelay({ ...CONFIG, keyPrefix: 'else' }, 'target')).toBeNull();
+    });
+  });
+
+  describe('reserveAttempt', () => {
+    const reserveTimes = async (targetId: string, times: number) => {
+      let throttle: throttleService.Throttle | null = null;
+      for (let i = 0; i < times; i++) {
+        throttle = await throttleService.reserveAttempt(CONFIG, targetId);
+      }
+      return throttle;
+    };
+
+    it('should let one attempt at a time claim the delay after the free ones', async () => {
+      expect(await reserveTimes('target', 3)).toBeNull();
+
+      const refused = await throttleService.reserveAttempt(CONFIG, 'target');
+
+      expect(refused!.retryAfter).toBe(5);
+      expect(await throttleService.recordReservedFailure(CONFIG, 'target')).toMatchObject({
+        locked: false,
+        throttle: { retryAfter: 5 },
+      });
+    });
+
+    it('should report the lock when a reserved attempt fails at the threshold', async () => {
+      for (let i = 0; i < 5; i++) {
+        store.delete('test:delay:target');
+        await throttleService.reserveAttempt(CONFIG, 'target');
+        expect((await throttleService.recordReservedFailure(CONFIG, 'target')).locked).toBe(false);
+      }
+
+      store.delete('test:delay:target');
+      await throttleService.reserveAttempt(CONFIG, 'target');
+
+      expect((await throttleService.recordReservedFailure(CONFIG, 'target')).locked).toBe(true);
+    });
+
+    it('should free the delay held by a released attempt', async () => {
+      await reserveTimes('target', 3);
+
+      await throttleService.releaseAttempt(CONFIG, 'target');
+
+      expect(await throttleService.getDelay(CONFIG, 'target')).toBeNull();
+      expect(await throttleService.reserveAttempt(CONFIG, 'target')).toBeNull();
+    });
+  });
+
+  describe('lock', () => {
+    it('should hold a lock until it is cleared', async () => {
+      const lock = await throttleService.lock(CONFIG, 'target', 30 * 60);
+
+      expect(lock.retryAfter).toBe(30 * 60);
+      expect(await throttleService.getLock(CONFIG, 'target')).toEqual(lock);
+
+      await throttleService.clearLock(CONFIG, 'target');
+
+      expect(await throttleService.getLock(CONFIG, 'target')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Unit Tests for Trash Service
+ * Tests trash listing, file and folder restore, emptying and scheduled purge
+ */
+
+import { prisma } from '../../src/config/database';
+import * as trashService from '../../src/services/trash.service';
+import * as folderService from '../../src/services/folder.service';
+import * as storageService from '../../src/services/storage.service';
+import {
+  NotFoundError,
+  PaymentRequiredError,
+  ValidationError,
+} from '../../src/utils/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Trash Service', () => {
+  let testUser: any;
+
+  const createFolder = (parentFolderId?: string) =>
+    folderService.createFolder({
+      userId: testUser.id,
+      parentFolderId,
+      nameEncrypted: 'encrypted-folder-name',
+      nameIv: 'folder-name-iv',
+    });
+
+  const getStorageUsed = async () => {
+    const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+    return Number(user!.storageUsed);
+  };
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    testUser = await global.testUtils.createTestUser({ storageUsed: BigInt(3072) });
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  describe('Listing', () => {
+    it('should list folders at the top level and count their contents', async () => {
+      const folder = await createFolder();
+      const subFolder = await createFolder(folder.id);
+      await global.testUtils.createTestFile(testUser.id, { parentFolderId: subFolder.id });
+      await global.testUtils.createTestFile(testUser.id, { parentFolderId: folder.id });
+
+      await folderService.deleteFolder(folder.id, testUser.id, true);
+
+      const trash = await trashService.getTrash(testUser.id);
+
+      expect(trash.retentionDays).toBe(30);
+      expect(trash.folders.map((f) => f.id)).toEqual([folder.id]);
+      expect(trash.folders[0].contents).toEqual({ files: 1, folders: 1 });
+      expect(trash.files).toHaveLength(0);
+    });
+
+    it('should list files deleted before their folder at the top level', async () => {
+      const folder = await createFolder();
+      const file = await global.testUtils.createTestFile(testUser.id, {
+        parentFolderId: folder.id,
+        isDeleted: true,
+        deletedAt: new Date(Date.now() - DAY_MS),
+      });
+
+      await folderService.deleteFolder(folder.id, testUser.id, true);
+
+      const trash = await trashService.getTrash(testUser.id);
+
+      expect(trash.files.map((f) => f.id)).toEqual([file.id]);
+      expect(trash.files[0].purgeAt).toEqual(
+        new Date(file.deletedAt.getTime() + 30 * DAY_MS)
+      );
+    });
+  });
+
+  describe('Restore', () => {
+    it('should restore a folder with the contents deleted along with it', async () => {
+      const folder = await createFolder();
+      const subFolder = await createFolder(folder.id);
+      const file = await global.testUtils.createTestFile(testUser.id, {
+        parentFolderId: subFolder.id,
+        encryptedSize: BigInt(1024),
+      });
+
+      await folderService.deleteFolder(folder.id, testUser.id, true);
+      expect(await getStorageUsed()).toBe(2048);
+
+      const result = await trashService.restoreFolder(folder.id, testUser.id);
+
+      expect(result.restoredFolders).toBe(2);
+      expect(result.restoredFiles).toBe(1);
+      expect(result.movedToRoot).toBe(false);
+      expect(await getStorageUsed()).toBe(3072);
+
+      const restoredFile = await prisma.file.findUnique({ where: { id: file.id } });
+      expect(restoredFile?.isDeleted).toBe(false);
+    });
+
+    it('should leave items deleted earlier in the trash', async () => {
+      const folder = await createFolder();
+      const earlier = await global.testUtils.createTestFile(testUser.id, {
+        parentFolderId: folder.id,
+        isDeleted: true,
+        deletedAt: new Date(Date.now() - DAY_MS),
+      });
+
+      await folderService.deleteFolder(folder.id, testUser.id, true);
+      await trashService.restoreFolder(folder.id, testUser.id);
+
+      const file = await prisma.file.findUnique({ where: { id: earlier.id } });
+      expect(file?.isDeleted).toBe(true);
+    });
+
+    it('should move a file to the root when its folder is still in the trash', async () => {
+      const folder = await createFolder();
+      const file = await global.testUtils.createTestFile(testUser.id, {
+        parentFolderId: folder.id,
+      });
+
+      await folderService.deleteFolder(folder.id, testUser.id, true);
+
+      const result = await trashService.restoreFile(file.id, testUser.id);
+
+      expect(result.movedToRoot).toBe(true);
+      expect(result.parentFolderId).toBeNull();
+    });
+
+    it('should reject a folder restore that exceeds the quota', async () => {
+      const folder = await createFolder();
+      await global.testUtils.createTestFile(testUser.id, { parentFolderId: folder.id });
+      await folderService.deleteFolder(folder.id, testUser.id, true);
+
+      (storageService.validateStorageQuota as jest.Mock).mockReturnValueOnce(false);
+
+      await expect(
+        trashService.restoreFolder(folder.id, testUser.id)
+      ).rejects.toThrow(PaymentRequiredError);
+    });
+
+    it('should reject restoring a folder that is not in the trash', async () => {
+      const folder = await createFolder();
+
+      await expect(
+        trashService.restoreFolder(folder.id, testUser.id)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Empty and Purge', () => {
+    it('should empty the trash and free storage objects', async () => {
+      const folder = await createFolder();
+      await global.testUtils.createTestFile(testUser.id, {
+        parentFolderId: folder.id,
+        storagePath: 'users/test/files/a/current',
+      });
+      await folderService.deleteFolder(folder.id, testUser.id, true);
+
+      const result = await trashService.emptyTrash(testUser.id);
+
+      expect(result.filesDeleted).toBe(1);
+      expect(result.foldersDeleted).toBe(1);
+      expect(storageService.deleteMultipleFiles).toHaveBeenCalledWith([
+        'users/test/files/a/current',
+      ]);
+      expect(await prisma.folder.count({ where: { userId: testUser.id } })).toBe(0);
+    });
+
+    it('should free the storage used by versions of purged files', async () => {
+      const file = await global.testUtils.createTestFile(testUser.id, {
+        isDeleted: true,
+        deletedAt: new Date(Date.now() - 31 * DAY_MS),
+      });
+      await prisma.fileVersion.create({
+        data: {
+          fileId: file.id,
+          versionNumber: 1,
+          storagePath: 'test/path/file.v1.enc',
+          fileSize: BigInt(1024),
+          fileKeyEncrypted: 'encrypted-key',
+        },
+      });
+
+      const result = await trashService.purgeExpiredTrash();
+
+      expect(result.filesDeleted).toBe(1);
+      expect(result.freedBytes).toBe(BigInt(1024));
+      expect(await getStorageUsed()).toBe(2048);
+    });
+
+    it('should only purge items older than the retention window', async () => {
+      await prisma.user.update({
+        where: { id: testUser.id },
+        data: { trashRetentionDays: 7 },
+      });
+      const expired = await global.testUtils.createTestFile(testUser.id, {
+        isDeleted: true,
+        deletedAt: new Date(Date.now() - 8 * DAY_MS),
+      });
+      const recent = await global.testUtils.createTestFile(testUser.id, {
+        isDeleted: true,
+        deletedAt: new Date(Date.now() - 6 * DAY_MS),
+      });
+
+      await trashService.purgeExpiredTrash();
+
+      expect(await prisma.file.findUnique({ where: { id: expired.id } })).toBeNull();
+      expect(await prisma.file.findUnique({ where: { id: recent.id } })).not.toBeNull();
+    });
+
+    it('should reject an invalid retention window', async () => {
+      await expect(
+        trashService.updateRetentionDays(testUser.id, 0)
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Unit Tests for Upload Service
+ * Tests resumable upload sessions: create, parts, status, complete, abort
+ */
+
+import { prisma } from '../../src/config/database';
+import * as uploadService from '../../src/services/upload.service';
+import * as storageService from '../../src/services/storage.service';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  PaymentRequiredError,
+} from '../../src/utils/errors';
+
+const MB = 1024 * 1024;
+
+describe('Upload Service', () => {
+  let testUser: any;
+
+  const createSession = (overrides: Partial<uploadService.CreateUploadSessionData> = {}) =>
+    uploadService.createUploadSession({
+      userId: testUser.id,
+      filenameEncrypted: 'encrypted-filename',
+      filenameIv: 'filename-iv',
+      fileKeyEncrypted: 'encrypted-key',
+      fileSize: 6 * MB,
+      encryptedSize: 6 * MB + 1024,
+      totalParts: 2,
+      mimeType: 'application/pdf',
+      encryptionAlgorithm: 'AES-256-GCM-STREAM-V1',
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    testUser = await global.testUtils.createTestUser();
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  describe('Session Creation', () => {
+    it('should create a session backed by a multipart upload', async () => {
+      const session = await createSession();
+
+      expect(session.id).toBeDefined();
+      expect(session.uploadId).toBe('test-upload-id');
+      expect(session.status).toBe(uploadService.UploadSessionStatus.ACTIVE);
+      expect(session.parts).toEqual([]);
+      expect(storageService.createMultipartUpload).toHaveBeenCalledWith(
+        session.storagePath
+      );
+    });
+
+    it('should reject an invalid part count', async () => {
+      await expect(createSession({ totalParts: 0 })).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a non-existent parent folder', async () => {
+      await expect(
+        createSession({ parentFolderId: '00000000-0000-0000-0000-000000000000' })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Parts', () => {
+    it('should record uploaded parts and report them in the session status', async () => {
+      const session = await createSession();
+
+      await uploadService.uploadSessionPart(
+        session.id,
+        testUser.id,
+        1,
+        Buffer.alloc(5 * MB)
+      );
+
+      const status = await uploadService.getUploadSession(session.id, testUser.id);
+
+      expect(status.parts).toHaveLength(1);
+      expect(status.parts[0].partNumber).toBe(1);
+      expect(Number(status.parts[0].size)).toBe(5 * MB);
+    });
+
+    it('should replace a part that is uploaded again', async () => {
+      const session = await createSession();
+
+      await uploadService.uploadSessionPart(session.id, testUser.id, 1, Buffer.alloc(5 * MB));
+      await uploadService.uploadSessionPart(session.id, testUser.id, 1, Buffer.alloc(5 * MB));
+
+      const status = await uploadService.getUploadSession(session.id, testUser.id);
+      expect(status.parts).toHaveLength(1);
+    });
+
+    it('should reject a part number outside the session', async () => {
+      const session = await createSession();
+
+      await expect(
+        uploadService.uploadSessionPart(session.id, testUser.id, 3, Buffer.alloc(1024))
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a non-final part below the minimum size', async () => {
+      const session = await createSession();
+
+      await expect(
+        uploadService.uploadSessionPart(session.id, testUser.id, 1, Buffer.alloc(1024))
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it("should not expose another user's session", async () => {
+      const session = await createSession();
+      const otherUser = await global.testUtils.createTestUser({
+        email: 'other@example.com',
+        username: 'otheruser',
+      });
+
+      await expect(
+        uploadService.getUploadSession(session.id, otherUser.id)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Completion', () => {
+    it('should create the file and update storage usage', async () => {
+      const session = await createSession();
+
+      await uploadService.uploadSessionPart(session.id, testUser.id, 2, Buffer.alloc(MB + 1024));
+      await uploadService.uploadSessionPart(session.id, testUser.id, 1, Buffer.alloc(5 * MB));
+
+      const file = await uploadService.completeUploadSession(session.id, testUser.id, {
+        fileHash: 'test-hash',
+      });
+
+      expect(file.id).toBe(session.fileId);
+      expect(file.encryptionAlgorithm).toBe('AES-256-GCM-STREAM-V1');
+      expect(storageService.completeMultipartUpload).toHaveBeenCalledWith(
+        session.storagePath,
+        'test-upload-id',
+        [
+          { etag: 'etag-1', partNumber: 1 },
+          { etag: 'etag-2', partNumber: 2 },
+        ]
+      );
+
+      const user = await prisma.user.findUnique({ where: { id: testUser.id } });
+      expect(Number(user?.storageUsed)).toBe(6 * MB + 1024);
+
+      const updated = await uploadService.getUploadSession(session.id, testUser.id);
+      expect(updated.status).toBe(uploadService.UploadSessionStatus.COMPLETED);
+    });
+
+    it('should reject completion while parts are missing', async () => {
+      const session = await createSession();
+
+      await uploadService.uploadSessionPart(session.id, testUser.id, 1, Buffer.alloc(5 * MB));
+
+      await expect(
+        uploadService.completeUploadSession(session.id, testUser.id, { fileHash: 'test-hash' })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('Completion Failures', () => {
+    const uploadAllParts = async (sessionId: string) => {
+      await uploadService.uploadSessionPart(sessionId, testUser.id, 1, Buffer.alloc(5 * MB));
+      await uploadService.uploadSessionPart(sessionId, testUser.id, 2, Buffer.alloc(MB + 1024));
+    };
+
+    it('should check the quota before assembling the parts', async () => {
+      const session = await createSession();
+      await uploadAllParts(session.id);
+      await prisma.user.update({
+        where: { id: testUser.id },
+        data: { storageUsed: testUser.storageQuota },
+      });
+
+      await expect(
+        uploadService.completeUploadSession(session.id, testUser.id, { fileHash: 'test-hash' })
+      ).rejects.toThrow(PaymentRequiredError);
+
+      expect(storageService.completeMultipartUpload).not.toHaveBeenCalled();
+      const unchanged = await uploadService.getUploadSession(session.id, testUser.id);
+      expect(unchanged.status).toBe(uploadService.UploadSessionStatus.ACTIVE);
+    });
+
+    it('should let only one of two concurrent completions through', async () => {
+      const session = await createSession();
+      await uploadAllParts(session.id);
+
+      const results = await Promise.allSettled([
+        uploadService.completeUploadSession(session.id, testUser.id, { fileHash: 'test-hash' }),
+        uploadService.completeUploadSession(session.id, testUser.id, { fileHash: 'test-hash' }),
+      ]);
+
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+      expect(storageService.completeMultipartUpload).toHaveBeenCalledTimes(1);
+    });
+
+    it('should delete the assembled object when the file cannot be saved', async () => {
+      const session = await createSession();
+      await uploadAllParts(session.id);
+      // Taking the file ID makes the file insert fail
+      await global.testUtils.createTestFile(testUser.id, { id: session.fileId });
+
+      await expect(
+        uploadService.completeUploadSession(session.id, testUser.id, { fileHash: 'test-hash' })
+      ).rejects.toThrow();
+
+      expect(storageService.deleteFile).toHaveBeenCalledWith(session.storagePath);
+      const failed = await prisma.uploadSession.findUniqueOrThrow({ where: { id: session.id } });
+      expect(failed.status).toBe(uploadService.UploadSessionStatus.ABORTED);
+    });
+  });
+
+  describe('Cleanup', () => {
+    it('should keep aborting expired sessions when one abort fails', async () => {
+      const first = await createSession();
+      const second = await createSession();
+      await prisma.uploadSession.updateMany({ data: { expiresAt: new Date(Date.now() - 1000) } });
+      (storageService.abortMultipartUpload as jest.Mock).mockRejectedValueOnce(
+        new Error('Storage unavailable')
+      );
+
+      const cleaned = await uploadService.cleanupExpiredUploadSessions();
+
+      expect(cleaned).toBe(1);
+      expect(storageService.abortMultipartUpload).toHaveBeenCalledTimes(2);
+      expect(storageService.abortMultipartUpload).toHaveBeenCalledWith(
+        first.storagePath,
+        'test-upload-id',
+        { throwOnError: true }
+      );
+      const statuses = await prisma.uploadSession.findMany({
+        where: { id: { in: [first.id, second.id] } },
+        select: { status: true },
+      });
+      expect(statuses.map((s) => s.status).sort()).toEqual([
+        uploadService.UploadSessionStatus.ABORTED,
+        uploadService.UploadSessionStatus.ACTIVE,
+      ]);
+    });
+  });
+
+  describe('Abort', () => {
+    it('should abort the multipart upload and reject further parts', async () => {
+      const session = await createSession();
+
+      await uploadService.abortUploadSession(session.id, testUser.id);
+
+      expect(storageService.abortMultipartUpload).toHaveBeenCalledWith(
+        session.storagePath,
+        'test-upload-id'
+      );
+
+      await expect(
+        uploadService.uploadSessionPart(session.id, testUser.id, 1, Buffer.alloc(5 * MB))
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Unit Tests for User Share Service
+ * Tests sharing files and folders with other users and permission enforcement
+ */
+
+import * as userShareService from '../../src/services/userShare.service';
+import * as fileService from '../../src/services/file.service';
+import * as folderService from '../../src/services/folder.service';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  ForbiddenError,
+} from '../../src/utils/errors';
+
+describe('User Share Service', () => {
+  let owner: any;
+  let recipient: any;
+  let testFile: any;
+
+  const shareWithRecipient = (permission = fileService.FilePermission.READ) =>
+    userShareService.createUserShare({
+      fileId: testFile.id,
+      ownerId: owner.id,
+      recipientUsername: recipient.username,
+      fileKeyEncrypted: 'rsa-wrapped-key',
+      filenameEncrypted: 'encrypted-filename',
+      filenameIv: 'filename-iv',
+      permission,
+    });
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    owner = await global.testUtils.createTestUser({
+      email: 'owner@example.com',
+      username: 'owner',
+    });
+    recipient = await global.testUtils.createTestUser({
+      email: 'recipient@example.com',
+      username: 'recipient',
+      publicKey: 'recipient-public-key',
+    });
+    testFile = await global.testUtils.createTestFile(owner.id);
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  describe('Public Key Lookup', () => {
+    it('should return the public key for a username', async () => {
+      const user = await userShareService.getPublicKeyByUsername('recipient');
+
+      expect(user.id).toBe(recipient.id);
+      expect(user.publicKey).toBe('recipient-public-key');
+    });
+
+    it('should reject an unknown username', async () => {
+      await expect(
+        userShareService.getPublicKeyByUsername('nobody')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Share Creation', () => {
+    it('should share a file with another user', async () => {
+      const userShare = await shareWithRecipient();
+
+      expect(userShare.sharedWithUserId).toBe(recipient.id);
+      expect(userShare.permission).toBe('read');
+
+      const received = await userShareService.getSharedWithUser(recipient.id);
+      expect(received).toHaveLength(1);
+      expect(received[0].fileKeyEncrypted).toBe('rsa-wrapped-key');
+    });
+
+    it('should reject sharing with yourself', async () => {
+      await expect(
+        userShareService.createUserShare({
+          fileId: testFile.id,
+          ownerId: owner.id,
+          recipientUsername: owner.username,
+          fileKeyEncrypted: 'rsa-wrapped-key',
+          filenameEncrypted: 'encrypted-filename',
+          filenameIv: 'filename-iv',
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject sharing the same file twice', async () => {
+      await shareWithRecipient();
+
+      await expect(shareWithRecipient()).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('Permissions', () => {
+    it('should let a recipient read a shared file', async () => {
+      await shareWithRecipient();
+
+      const file = await fileService.getFileById(testFile.id, recipient.id);
+
+      expect(file.id).toBe(testFile.id);
+      expect(file.parentFolder).toBeNull();
+    });
+
+    it('should hide files that are not shared', async () => {
+      await expect(
+        fileService.getFileById(testFile.id, recipient.id)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject content changes with read permission', async () => {
+      await shareWithRecipient();
+
+      await expect(
+        fileService.replaceFileContent(testFile.id, recipient.id, {
+          fileData: Buffer.from('new content'),
+          fileSize: 11,
+          encryptedSize: 64,
+          fileHash: 'new-hash',
+        })
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should allow content changes with write permission', async () => {
+      await shareWithRecipient(fileService.FilePermission.WRITE);
+
+      const updated = await fileService.replaceFileContent(testFile.id, recipient.id, {
+        fileData: Buffer.from('new content'),
+        fileSize: 11,
+        encryptedSize: 64,
+        fileHash: 'new-hash',
+      });
+
+      expect(updated.fileHash).toBe('new-hash');
+      expect(updated.version).toBe(2);
+    });
+
+    it('should not let a recipient update file metadata', async () => {
+      await shareWithRecipient(fileService.FilePermission.WRITE);
+
+      await expect(
+        fileService.updateFile(testFile.id, recipient.id, { filenameEncrypted: 'renamed' })
+      ).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('Folder Shares', () => {
+    const parentKeys = {
+      parentKeyEncrypted: 'parent-wrapped-key',
+      parentNameEncrypted: 'parent-encrypted-name',
+      parentNameIv: 'parent-name-iv',
+    };
+
+    let rootFolder: any;
+    let subFolder: any;
+
+    const shareFolderWithRecipient = () =>
+      userShareService.createUserShare({
+        folderId: rootFolder.id,
+        ownerId: owner.id,
+        recipientUsername: recipient.username,
+        fileKeyEncrypted: 'rsa-wrapped-folder-key',
+        filenameEncrypted: 'encrypted-folder-name',
+        filenameIv: 'folder-name-iv',
+      });
+
+    beforeEach(async () => {
+      rootFolder = await folderService.createFolder({
+        userId: owner.id,
+        nameEncrypted: 'root-name',
+        nameIv: 'root-iv',
+        folderKeyEncrypted: 'master-wrapped-folder-key',
+      });
+      subFolder = await folderService.createFolder({
+        userId: owner.id,
+        parentFolderId: rootFolder.id,
+        nameEncrypted: 'sub-name',
+        nameIv: 'sub-iv',
+        folderKeyEncrypted: 'master-wrapped-sub-key',
+        ...parentKeys,
+      });
+    });
+
+    it('should reject sharing a folder without a key hierarchy', async () => {
+      const plainFolder = await folderService.createFolder({
+        userId: owner.id,
+        nameEncrypted: 'plain-name',
+        nameIv: 'plain-iv',
+      });
+
+      await expect(
+        userShareService.createUserShare({
+          folderId: plainFolder.id,
+          ownerId: owner.id,
+          recipientUsername: recipient.username,
+          fileKeyEncrypted: 'rsa-wrapped-folder-key',
+          filenameEncrypted: 'encrypted-folder-name',
+          filenameIv: 'folder-name-iv',
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should list only keyed items in the shared folder', async () => {
+      const userShare = await shareFolderWithRecipient();
+      await global.testUtils.createTestFile(owner.id, {
+        parentFolderId: rootFolder.id,
+        ...parentKeys,
+      });
+      await global.testUtils.createTestFile(owner.id, {
+        parentFolderId: rootFolder.id,
+      });
+
+      const contents = await userShareService.getReceivedFolderContents(
+        userShare.id,
+        recipient.id
+      );
+
+      expect(contents.parentFolderId).toBeNull();
+      expect(contents.subFolders.map((f) => f.id)).toEqual([subFolder.id]);
+      expect(contents.files).toHaveLength(1);
+      expect(contents.files[0].parentKeyEncrypted).toBe('parent-wrapped-key');
+    });
+
+    it('should browse subfolders with breadcrumbs relative to the share', async () => {
+      const userShare = await shareFolderWithRecipient();
+
+      const contents = await userShareService.getReceivedFolderContents(
+        userShare.id,
+        recipient.id,
+        subFolder.id
+      );
+
+      expect(contents.parentFolderId).toBe(rootFolder.id);
+      expect(contents.breadcrumbs).toEqual([
+        {
+          id: subFolder.id,
+          parentNameEncrypted: 'parent-encrypted-name',
+          parentNameIv: 'parent-name-iv',
+        },
+      ]);
+    });
+
+    it('should reject browsing folders outside the share', async () => {
+      const userShare = await shareFolderWithRecipient();
+      const otherFolder = await folderService.createFolder({
+        userId: owner.id,
+        nameEncrypted: 'other-name',
+        nameIv: 'other-iv',
+      });
+
+      await expect(
+        userShareService.getReceivedFolderContents(
+          userShare.id,
+          recipient.id,
+          otherFolder.id
+        )
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should give access to files added to the folder later', async () => {
+      await shareFolderWithRecipient();
+
+      const laterFile = await global.testUtils.createTestFile(owner.id, {
+        parentFolderId: subFolder.id,
+        ...parentKeys,
+      });
+
+      const file = await fileService.getFileById(laterFile.id, recipient.id);
+
+      expect(file.id).toBe(laterFile.id);
+    });
+  });
+
+  describe('Revocation', () => {
+    it('should remove access when the owner revokes the share', async () => {
+      const userShare = await shareWithRecipient();
+
+      await userShareService.deleteUserShare(userShare.id, owner.id);
+
+      await expect(
+        fileService.getFileById(testFile.id, recipient.id)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Unit Tests for WebAuthn Service
+ * Tests security key registration and sign-in with a software authenticator
+ */
+
+jest.mock('../../src/config/redis', () => require('../mocks/redis').createRedisMock());
+
+import crypto from 'crypto';
+import { prisma } from '../../src/config/database';
+import * as webauthnService from '../../src/services/webauthn.service';
+import * as authService from '../../src/services/auth.service';
+import { AuthError, NotFoundError, ValidationError } from '../../src/utils/errors';
+
+const { __store: store } = jest.requireMock('../../src/config/redis');
+
+const ORIGIN = new URL(process.env.CLIENT_URL || 'http://localhost:3000').origin;
+const RP_ID = new URL(ORIGIN).hostname;
+
+/**
+ * Minimal platform authenticator holding one ES256 key
+ */
+class SoftwareAuthenticator {
+  readonly credentialId = crypto.randomBytes(16);
+  private readonly keys = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  signCount = 0;
+
+  private clientData(type: string, challenge: string, origin = ORIGIN): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin }));
+  }
+
+  private authenticatorData(attested: boolean, rpId = RP_ID): Buffer {
+    const header = Buffer.alloc(37);
+    crypto.createHash('sha256').update(rpId).digest().copy(header, 0);
+    header[32] = 0x01 | (attested ? 0x40 : 0);
+    header.writeUInt32BE(this.signCount, 33);
+
+    if (!attested) {
+      return header;
+    }
+
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    return Buffer.concat([header, Buffer.alloc(16), idLength, this.credentialId]);
+  }
+
+  register(options: { challenge: string }, origin?: string): webauthnService.RegistrationResponse {
+    return {
+      id: this.credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', options.challenge, origin).toString(
+          'base64url'
+        ),
+        authenticatorData: this.authenticatorData(true).toString('base64url'),
+        publicKey: this.keys.publicKey
+          .export({ format: 'der', type: 'spki' })
+          .toString('base64url'),
+        publicKeyAlgorithm: -7,
+        transports: ['internal'],
+      },
+    };
+  }
+
+  authenticate(options: { challenge: string }): webauthnService.AuthenticationResponse {
+    this.signCount += 1;
+    const clientData = this.clientData('webauthn.get', options.challenge);
+    const authenticatorData = this.authenticatorData(false);
+    const signature = crypto.sign(
+      'sha256',
+      Buffer.concat([authenticatorData, crypto.createHash('sha256').update(clientData).digest()]),
+      this.keys.privateKey
+    );
+
+    return {
+      id: this.credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientData.toString('base64url'),
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+      },
+    };
+  }
+}
+
+describe('WebAuthn Service', () => {
+  let testUser: any;
+  let authenticator: SoftwareAuthenticator;
+
+  /**
+   * Run a full registration ceremony
+   */
+  const registerKey = async (name = 'Laptop') => {
+    const options = await webauthnService.generateRegistrationOptions(testUser.id);
+    return webauthnService.verifyRegistration(testUser.id, name, authenticator.register(options));
+  };
+
+  /**
+   * Run a full authentication ceremony
+   */
+  const signIn = async () => {
+    const options = await webauthnService.generateAuthenticationOptions(testUser.id);
+    return webauthnService.verifyAuthentication(testUser.id, authenticator.authenticate(options!));
+  };
+
+  beforeEach(async () => {
+    await global.testUtils.cleanupTestData();
+    store.clear();
+    testUser = await global.testUtils.createTestUser();
+    authenticator = new SoftwareAuthenticator();
+  });
+
+  afterAll(async () => {
+    await global.testUtils.cleanupTestData();
+  });
+
+  describe('Registration', () => {
+    it('should register a named security key', async () => {
+      const credential = await registerKey('YubiKey');
+
+      expect(credential.name).toBe('YubiKey');
+      expect(await webauthnService.listCredentials(testUser.id)).toHaveLength(1);
+    });
+
+    it('should allow several keys per user', async () => {
+      await registerKey('Laptop');
+      authenticator = new SoftwareAuthenticator();
+      await registerKey('Phone');
+
+      const credentials = await webauthnService.listCredentials(testUser.id);
+      expect(credentials.map((credential) => credential.name)).toEqual(['Laptop', 'Phone']);
+    });
+
+    it('should reject a response for another origin', async () => {
+      const options = await webauthnService.generateRegistrationOptions(testUser.id);
+
+      await expect(
+        webauthnService.verifyRegistration(
+          testUser.id,
+          'Laptop',
+          authenticator.register(options, 'https://evil.example.com')
+        )
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should not reuse a registration challenge', async () => {
+      const options = await webauthnService.generateRegistrationOptions(testUser.id);
+      await webauthnService.verifyRegistration(testUser.id, 'Laptop', authenticator.register(options));
+
+      await expect(
+        webauthnService.verifyRegistration(testUser.id, 'Again', authenticator.register(options))
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should let only one of two concurrent responses use a challenge', async () => {
+      const options = await webauthnService.generateRegistrationOptions(testUser.id);
+      const response = authenticator.register(options);
+
+      const results = await Promise.allSettled([
+        webauthnService.verifyRegistration(testUser.id, 'Laptop', response),
+        webauthnService.verifyRegistration(testUser.id, 'Again', response),
+      ]);
+
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    });
+  });
+
+  describe('Authentication', () => {
+    beforeEach(async () => {
+      await registerKey();
+    });
+
+    it('should verify an assertion and store the sign counter', async () => {
+      expect(await signIn()).toBe(true);
+
+      const [stored] = await prisma.webAuthnCredential.findMany({
+        where: { userId: testUser.id },
+      });
+      expect(stored.signCount).toBe(BigInt(1));
+      expect(stored.lastUsedAt).not.toBeNull();
+    });
+
+    it('should reject an assertion signed by another key', async () => {
+      const options = await webauthnService.generateAuthenticationOptions(testUser.id);
+      const assertion = authenticator.authenticate(options!);
+      const impostor = new SoftwareAuthenticator().authenticate(options!);
+
+      expect(
+        await webauthnService.verifyAuthentication(testUser.id, {
+          ...assertion,
+          response: { ...assertion.response, signature: impostor.response.signature },
+        })
+      ).toBe(false);
+    });
+
+    it('should reject a counter that does not increase', async () => {
+      await signIn();
+      authenticator.signCount = 0;
+
+      expect(await signIn()).toBe(false);
+    });
+
+    it('should offer security keys as a second factor at login', async () => {
+      const methods = await authService.getSecondFactorMethods({
+        id: testUser.id,
+        totpSecretEncrypted: null,
+      });
+      expect(methods).toContain('webauthn');
+
+      await expect(
+        authService.login({ emailOrUsername: testUser.email, password: 'Test123!@#' })
+      ).rejects.toThrow(AuthError);
+
+      const options = await webauthnService.generateAuthenticationOptions(testUser.id);
+      const session = await authService.login({
+        emailOrUsername: testUser.email,
+        password: 'Test123!@#',
+        webauthnResponse: authenticator.authenticate(options!),
+      });
+      expect(session.userId).toBe(testUser.id);
+    });
+  });
+
+  describe('Removal', () => {
+    it('should require the password', async () => {
+      const credential = await registerKey();
+
+      await expect(
+        webauthnService.deleteCredential(testUser.id, credential.id, 'WrongPassword123!')
+      ).rejects.toThrow(AuthError);
+
+      await webauthnService.deleteCredential(testUser.id, credential.id, 'Test123!@#');
+      expect(await webauthnService.hasCredentials(testUser.id)).toBe(false);
+    });
+
+    it('should not remove keys of other users', async () => {
+      const credential = await registerKey();
+      const otherUser = await global.testUtils.createTestUser({
+        email: 'other@example.com',
+        username: 'otheruser',
+      });
+
+      await expect(
+        webauthnService.deleteCredential(otherUser.id, credential.id, 'Test123!@#')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});